@@ -0,0 +1,41 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+
+import "../libraries/GuildVersions.sol";
+
+/// @title GuildApp Beacon Proxy
+/// @author RaidGuild
+/// @notice Upgradeable GuildApp deployment
+/// @dev Delegates every call to the template registered on the GuildFactory for the version the guild runs.
+/// Guild admins opt in to new versions through `GuildApp.upgradeToVersion`
+contract GuildBeaconProxy {
+
+    /// @param _beacon GuildFactory used as version registry
+    /// @param _version initial template version
+    constructor(address _beacon, uint256 _version) {
+        GuildVersions.setBeacon(_beacon);
+        GuildVersions.setVersion(_version);
+    }
+
+    /// @dev forward the current call to the guild template & bubble up its result
+    function _delegate() private {
+        address target = GuildVersions.implementation();
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
+        }
+    }
+
+    fallback() external payable {
+        _delegate();
+    }
+
+    receive() external payable {
+        _delegate();
+    }
+}
@@ -9,12 +9,15 @@ import "@openzeppelin/contracts-upgradeable/utils/CountersUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/EnumerableSetUpgradeable.sol";
 
 import "../interfaces/IGuild.sol";
+import "../interfaces/IGuildProtocolFee.sol";
+import "../interfaces/IGuildVersionRegistry.sol";
+import "./GuildBeaconProxy.sol";
 
 /// @title GuildApp Proxy Factory
 /// @author RaidGuild
 /// @notice Allows to deploy a new GuildApp contract
-/// @dev Based on EIP-1167
-contract GuildFactory is Initializable {
+/// @dev Based on EIP-1167. Also acts as the version registry (beacon) of upgradeable guilds
+contract GuildFactory is Initializable, IGuildVersionRegistry, IGuildProtocolFee {
     using AddressUpgradeable for address;
     using ClonesUpgradeable for address;
     using CountersUpgradeable for CountersUpgradeable.Counter;
@@ -23,17 +26,61 @@ contract GuildFactory is Initializable {
     /// @dev fixed contract template for EIP-1167 proxy pattern
     address public template;
 
+    /// @dev max protocol fee in basis points (10%)
+    uint256 public constant MAX_PROTOCOL_FEE_BPS = 1000;
+
+    /// @dev account that deployed the factory. Only allowed to initialize it
+    address private immutable _deployer;
+
     /// @dev keep track of total created Guilds
     CountersUpgradeable.Counter private _totalGuilds;
 
     /// @dev keep track of guild by owner
     mapping(address => EnumerableSetUpgradeable.AddressSet) private _guilds;
 
+    /// @dev account allowed to publish new template versions
+    address public owner;
+
+    /// @dev latest published template version
+    uint256 public override latestVersion;
+
+    /// @dev template contract of each published version
+    mapping(uint256 => address) public override templateVersions;
+
+    /// @dev account receiving the protocol fee charged on guild subscription payments
+    address public feeRecipient;
+
+    /// @dev protocol fee in basis points
+    uint256 public protocolFeeBps;
+
     /// @dev new guild event
-    event NewGuild(address indexed guildOwner, address indexed guild);
+    event NewGuild(address indexed guildOwner, address indexed guild, uint256 version, bool upgradeable);
+
+    /// @dev new template version event
+    event TemplateVersionPublished(uint256 indexed version, address template);
+
+    /// @dev protocol fee updated event
+    event ProtocolFeeUpdated(address feeRecipient, uint256 feeBps);
+
+    /// @dev failed batch renewal event
+    event GuildRenewalFailed(address indexed guild, bytes reason);
+
+    /// @dev factory ownership transferred event
+    event OwnershipTransferred(address indexed previousOwner, address indexed newOwner);
+
+    modifier onlyOwner() {
+        require(msg.sender == owner, "GuildFactory: caller is not the owner");
+        _;
+    }
+
+    constructor() {
+        _deployer = msg.sender;
+    }
 
     function __GuildFactory_init_unchained(address _template) internal initializer {
-        template = _template;
+        owner = msg.sender;
+        emit OwnershipTransferred(address(0), msg.sender);
+        _publishTemplateVersion(_template);
     }
 
     function __GuildFactory_init(address _template) internal initializer {
@@ -41,9 +88,11 @@ contract GuildFactory is Initializable {
     }
 
     /// @notice Initializes the factory contract
-    /// @dev Initializes factory contract using a minimal proxy pattern (EIP-1167)
+    /// @dev Initializes factory contract using a minimal proxy pattern (EIP-1167).
+    /// Only the deployer can execute so the factory ownership can't be front-run
     /// @param _template GuildApp contract address to be used as template
     function initialize(address _template) public {
+        require(msg.sender == _deployer, "GuildFactory: caller is not the deployer");
         __GuildFactory_init(_template);
     }
 
@@ -65,13 +114,77 @@ contract GuildFactory is Initializable {
         return _totalGuilds.current();
     }
  
+    /// @notice Publish a new GuildApp template version
+    /// @dev Only the factory owner can execute. New guilds are deployed from the latest version while
+    /// existing upgradeable guilds keep running their version until their admin opts in to upgrade
+    /// @param _template GuildApp contract address. MUST keep the storage layout of previous versions
+    function publishTemplateVersion(address _template) external onlyOwner {
+        _publishTemplateVersion(_template);
+    }
+
+    /// @notice Transfer the factory ownership
+    /// @param _newOwner new owner address
+    function transferOwnership(address _newOwner) external onlyOwner {
+        require(_newOwner != address(0), "GuildFactory: new owner is the zero address");
+        emit OwnershipTransferred(owner, _newOwner);
+        owner = _newOwner;
+    }
+
+    /// @notice Set the protocol fee charged on every guild subscription payment
+    /// @dev Only the factory owner can execute. Guilds read the fee at payment time
+    /// @param _feeRecipient account receiving the fee. 0x disables the fee
+    /// @param _feeBps fee in basis points (i.e. 100 = 1%). Capped to `MAX_PROTOCOL_FEE_BPS`
+    function setProtocolFee(address _feeRecipient, uint256 _feeBps) external onlyOwner {
+        require(_feeBps <= MAX_PROTOCOL_FEE_BPS, "GuildFactory: Fee exceeds the max protocol fee");
+        feeRecipient = _feeRecipient;
+        protocolFeeBps = _feeBps;
+        emit ProtocolFeeUpdated(_feeRecipient, _feeBps);
+    }
+
+    /// @notice get the protocol fee charged on guild subscription payments
+    /// @return _recipient fee recipient
+    /// @return _feeBps fee in basis points
+    function protocolFee() external view override returns (address _recipient, uint256 _feeBps) {
+        return (feeRecipient, protocolFeeBps);
+    }
+
+    /// @notice Renew Safe subscriptions of several guilds in a single transaction
+    /// @dev see {GuildAppSubscriptionExtension-renewBatch}. Consecutive entries of the same guild are renewed
+    /// in a single batch. Guilds whose batch reverts (i.e. paused guilds) are skipped & reported through `GuildRenewalFailed`
+    /// @param _guildList guild of each subscriber
+    /// @param _subscribers Safe subscribers to be renewed
+    function renewBatch(address[] calldata _guildList, address[] calldata _subscribers) external {
+        require(_guildList.length == _subscribers.length, "GuildFactory: Guilds and subscribers length mismatch");
+        uint256 start = 0;
+        for (uint256 i = 1; i <= _guildList.length; i++) {
+            if (i == _guildList.length || _guildList[i] != _guildList[start]) {
+                try IGuild(_guildList[start]).renewBatch(_subscribers[start:i]) {
+                } catch (bytes memory reason) {
+                    emit GuildRenewalFailed(_guildList[start], reason);
+                }
+                start = i;
+            }
+        }
+    }
+
+    /// @dev register `_template` as the latest version & use it for new clones
+    /// @param _template GuildApp contract address
+    function _publishTemplateVersion(address _template) private {
+        require(_template.isContract(), "GuildFactory: Invalid template");
+        latestVersion += 1;
+        templateVersions[latestVersion] = _template;
+        template = _template;
+        emit TemplateVersionPublished(latestVersion, _template);
+    }
+
     /// @dev call GuildApp initialize function encoded in `_initData` and register the contract
     /// @param _instance GuildApp contract address
     /// @param _sender GuildApp owner
     /// @param _initData Encoded GuildApp initialize function
-    function _initAndEmit(address _instance, address _sender, bytes calldata _initData) private {
+    /// @param _upgradeable whether `_instance` is a beacon proxy
+    function _initAndEmit(address _instance, address _sender, bytes calldata _initData, bool _upgradeable) private {
         _totalGuilds.increment();
-        emit NewGuild(_sender, _instance);
+        emit NewGuild(_sender, _instance, latestVersion, _upgradeable);
         if (_initData.length > 0) {
             _instance.functionCall(_initData);
         }
@@ -84,7 +197,7 @@ contract GuildFactory is Initializable {
     /// @param _initData Encoded GuildApp initialize function
     function clone(bytes calldata _initData) internal {
         address sender = msg.sender;
-        _initAndEmit(template.clone(), sender, _initData);
+        _initAndEmit(template.clone(), sender, _initData, false);
     }
 
     /// @dev Clone the template using EIP-1167 + CREATE2 and initlize the new deployment
@@ -92,7 +205,7 @@ contract GuildFactory is Initializable {
     /// @param _salt salt used for deploying the contract
     function cloneDeterministic(bytes calldata _initData, bytes32 _salt) internal {
         address sender = msg.sender;
-        _initAndEmit(template.cloneDeterministic(_salt), sender, _initData);
+        _initAndEmit(template.cloneDeterministic(_salt), sender, _initData, false);
     }
 
     /// @notice Obtains the address that will be assigned to a new GuildApp contract
@@ -103,6 +216,23 @@ contract GuildFactory is Initializable {
         return template.predictDeterministicAddress(_salt);
     }
 
+    /// @notice Obtains the address that will be assigned to a GuildApp deployed by `_creator`
+    /// through `createGuildDeterministic`
+    /// @param _creator account that will call `createGuildDeterministic`
+    /// @param _salt salt chosen by `_creator`
+    /// @return predicted contract address
+    function predictGuildAddress(address _creator, bytes32 _salt) external view returns (address) {
+        return predictDeterministicAddress(_creatorSalt(_creator, _salt));
+    }
+
+    /// @dev scope a salt to its creator so nobody else can deploy a guild to the same address
+    /// @param _creator guild creator
+    /// @param _salt salt chosen by `_creator`
+    /// @return salt used for CREATE2
+    function _creatorSalt(address _creator, bytes32 _salt) private pure returns (bytes32) {
+        return keccak256(abi.encodePacked(_creator, _salt));
+    }
+
     /// @notice deploy a new GuildApp
     /// @dev deploy a new GuildApp using the EIP-1167 Proxy pattern
     /// @param _initData Encoded GuildApp initialize function
@@ -112,11 +242,31 @@ contract GuildFactory is Initializable {
 
     }
 
+    /// @notice deploy a new GuildApp to a predictable address
+    /// @dev deploy a new GuildApp using the EIP-1167 Proxy pattern + CREATE2.
+    /// The address can be obtained beforehand through `predictGuildAddress(msg.sender, _salt)`
+    /// @param _initData Encoded GuildApp initialize function
+    /// @param _salt salt chosen by the creator. Each salt can only be used once per creator
+    function createGuildDeterministic(bytes calldata _initData, bytes32 _salt) external {
+        require(template != address(0), "GuildFactory: Missing Guild Template");
+        cloneDeterministic(_initData, _creatorSalt(msg.sender, _salt));
+    }
+
+    /// @notice deploy a new upgradeable GuildApp
+    /// @dev deploy a GuildBeaconProxy running the latest template version. The guild admin can later
+    /// opt in to newer versions through `upgradeToVersion`
+    /// @param _initData Encoded GuildApp initialize function
+    function createUpgradeableGuild(bytes calldata _initData) external {
+        require(template != address(0), "GuildFactory: Missing Guild Template");
+        address instance = address(new GuildBeaconProxy(address(this), latestVersion));
+        _initAndEmit(instance, msg.sender, _initData, true);
+    }
+
     // This is empty reserved space in storage that is put in place in Upgradeable contracts.
     // It allows us to freely add new state variables in the future without compromising the
     // storage compatibility with existing deployments
     // The size of the __gap array is calculated so that the amount of storage used by a contract
     // always adds up to the same number
-    uint256[47] private __gap;
+    uint256[42] private __gap;
 
 }
\ No newline at end of file
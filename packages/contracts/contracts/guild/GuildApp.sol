@@ -2,285 +2,291 @@
 pragma solidity ^0.7.0;
 pragma abicoder v2;
 
-import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/math/SafeMathUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/token/ERC20/SafeERC20Upgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/EnumerableSetUpgradeable.sol";
-import "@openzeppelin/contracts-upgradeable/utils/StringsUpgradeable.sol";
 import "@openzeppelin/contracts-upgradeable/utils/AddressUpgradeable.sol";
 
-import "../interfaces/IAllowanceModule.sol";
 import "../interfaces/IGnosisSafe.sol";
 import "../interfaces/IGuild.sol";
+import "../libraries/GuildTiers.sol";
+import "../libraries/GuildTokenURI.sol";
+import "../libraries/GuildVersions.sol";
 import "../utils/SignatureDecoder.sol";
+import "./GuildAppBase.sol";
 
 /// @title GuildApp Contract
 /// @author RaidGuild
 /// @notice Guild app allows you to monetize content and receive recurring subscriptions
-/// @dev uses ERC721 standard to tokenize subscriptions
-contract GuildApp is ERC721Upgradeable, AccessControlUpgradeable, IGuild {
+/// @dev uses ERC721 standard to tokenize subscriptions. Storage & events live in GuildAppBase.
+/// Guild administration & subscription payment functions are delegated to GuildAppExtension & GuildAppSubscriptionExtension
+contract GuildApp is GuildAppBase, IGuild {
     using EnumerableSetUpgradeable for EnumerableSetUpgradeable.AddressSet;
-    using SafeERC20Upgradeable for IERC20Upgradeable;
     using SafeMathUpgradeable for uint256;
-    using StringsUpgradeable for uint256;
     using AddressUpgradeable for address;
+    using GuildTiers for GuildTiers.Data;
 
-    struct Subscription {
-        uint256 tokenId;
-        uint256 expirationTimestamp;
-    }
-
-    /// @dev flag the contract as initialized
-    bool public override initialized;
-    /// @dev flag to keep track if the Guild is accepting subscriptions
-    bool public isActive;
-    /// @dev CID of Guild metadata stored on i.e. IPFS
-    string public metadataCID;
-    /// @dev current active asset accepted for subscriptions
-    address public tokenAddress;
-    /// @dev current guild subcription price
-    uint256 public subPrice;
-    /// @dev subscription period in seconds (i.e. monthly)
-    uint256 public subscriptionPeriod;
-    /// @dev subscriptions list
-    mapping(address => Subscription) public subscriptionByOwner;
-    /// @dev assets used for subscription payments
-    EnumerableSetUpgradeable.AddressSet private _approvedTokens;
-    /// @dev Gnosis Safe AllowanceModule
-    address private _allowanceModule;
-    /// @dev next subscriptionID
-    uint256 private _nextId;
-
-    modifier onlyIfActive() {
-        require(isActive, "GuildApp: The Guild is disabled");
-        _;
-    }
-
-    modifier onlyGuildAdmin() {
-        require(hasRole(DEFAULT_ADMIN_ROLE, _msgSender()), "GuildApp: Sender doesn't have an Admin role");
-        _;
-    }
-
-    event InitializedGuild(address _creator,
-        address _tokenAddress,
-        uint256 _subPrice,
-        uint256 _subscriptionPeriod,
-        GuildMetadata _metadata);
-    event UpdatedMetadata(string _metadataURI);
-    event PausedGuild(bool _isPaused);
-    event Withdraw(address _tokenAddress, address beneficiary, uint256 _amount);
-    event SubscriptionPriceChanged(address _tokenAddress, uint256 _subPrice);
-    event NewSubscription(address _subscriber, uint256 _tokenId, uint256 _value, uint256 expiry, bytes _data);
-    event RenewSubscription(address _subscriber, uint256 _tokenId, uint256 _value, uint256 expiry, bytes _data);
-    event Unsubscribed(uint256 _tokenId);
+    /// @dev GuildAppExtension implementing the guild administration functions
+    address public immutable extension;
+
+    /// @dev GuildAppSubscriptionExtension implementing the subscription payment functions
+    address public immutable subscriptionExtension;
+
+    /// @param _extension GuildAppExtension address. Shared by every guild cloned from this contract
+    /// @param _subscriptionExtension GuildAppSubscriptionExtension address. Shared by every guild cloned from this contract
+    constructor(address _extension, address _subscriptionExtension) {
+        extension = _extension;
+        subscriptionExtension = _subscriptionExtension;
+    }
 
     function __GuildApp_init_unchained(address _creator,
-                                       string memory baseURI,
-                                       string memory _metadataCID,
+                                       GuildMetadata memory _metadata,
                                        address _tokenAddress,
-                                       uint256 _subPrice,
-                                       uint256 _subscriptionPeriod,
-                                       address allowanceModule
+                                       Tier[] memory _guildTiers,
+                                       address allowanceModule,
+                                       TransferPolicy _transferPolicy
                                        ) internal initializer {
-        require(
-            _tokenAddress == address(0) ||
-            (_tokenAddress != address(0) && IERC20Upgradeable(_tokenAddress).totalSupply() > 0),
-            "GuildApp: Invalid token");
+        require(_guildTiers.length > 0, "GuildApp: At least one tier is required");
+        // emitted before tiers & tokens are registered so indexers know about the guild first
+        emit InitializedGuild(_creator, _tokenAddress, _guildTiers[0].price, _guildTiers[0].period, _metadata);
 
         isActive = true;
-        metadataCID = _metadataCID;
+        metadataCID = _metadata.metadataCID;
         tokenAddress = _tokenAddress;
         _approvedTokens.add(_tokenAddress);
-        subPrice = _subPrice;
-        subscriptionPeriod =_subscriptionPeriod;
-        _setBaseURI(baseURI);
+        _tiers.acceptToken(_tokenAddress);
+        for (uint256 i = 0; i < _guildTiers.length; i++) {
+            _tiers.addTier(_guildTiers[i], _tokenAddress);
+        }
+        _setBaseURI(_metadata.baseURI);
         _setupRole(DEFAULT_ADMIN_ROLE, _creator);
+        // creator starts with every role. Roles are then granted/revoked through AccessControl by the guild admins
+        _setupRole(METADATA_EDITOR_ROLE, _creator);
+        _setupRole(TREASURER_ROLE, _creator);
+        _setupRole(PRICE_MANAGER_ROLE, _creator);
+        _setupRole(PAUSER_ROLE, _creator);
         _nextId = 0;
         _allowanceModule = allowanceModule;
-        initialized = true;
+        transferPolicy = _transferPolicy;
+        emit TransferPolicyUpdated(_transferPolicy);
+        factory = _msgSender();
+        _guildInitialized = true;
     }
 
     /// @notice Initialize a new GuildApp contract
     /// @dev Initialize inherited contracts and perform base GuildApp setup
     /// @param _creator GuildApp owner
     /// @param _tokenAddress asset to be accepted for payments
-    /// @param _subPrice subscription price in WEI
-    /// @param _subscriptionPeriod subscription period in seconds
+    /// @param _guildTiers subscription tiers. The first one is used as the guild default tier
     /// @param _metadata guild metadata CID
     /// @param allowanceModule safe module address
+    /// @param _transferPolicy whether subscriptions can be transferred. It cannot be changed afterwards
     function initialize(address _creator,
                         address _tokenAddress,
-                        uint256 _subPrice,
-                        uint256 _subscriptionPeriod,
+                        Tier[] memory _guildTiers,
                         GuildMetadata memory _metadata,
-                        address allowanceModule
+                        address allowanceModule,
+                        TransferPolicy _transferPolicy
                         ) public override initializer {
         __AccessControl_init();
         __ERC721_init(_metadata.name, _metadata.symbol);
         __GuildApp_init_unchained(_creator,
-                                  _metadata.baseURI,
-                                  _metadata.metadataCID,
+                                  _metadata,
                                   _tokenAddress,
-                                  _subPrice,
-                                  _subscriptionPeriod,
-                                  allowanceModule);
-        emit InitializedGuild(_creator, _tokenAddress, _subPrice, _subscriptionPeriod, _metadata);
-    }
-
-    /// @notice Enable/Disable your GuildApp to accept subscription/payments
-    /// @dev Flag contract as active or not. Only the guild owner can execute
-    /// @param pause boolean to flag the Guild as active
-    function pauseGuild(bool pause) external override onlyGuildAdmin {
-        require(isActive == pause, "GuildApp: Guild already in that state");
-        emit PausedGuild(pause);
-        isActive = !pause;
-    }
-
-    /// @notice Withdraw balance from the Guild
-    /// @dev Only the guild owner can execute
-    /// @param _tokenAddress token asset to withdraw some balance
-    /// @param _amount amount to be withdraw in wei
-    /// @param _beneficiary beneficiary to send funds. If 0x is specified, funds will be sent to the guild owner
-    function withdraw(
-        address _tokenAddress,
-        uint256 _amount,
-        address _beneficiary
-    ) public override onlyGuildAdmin {
-        require(_approvedTokens.contains(_tokenAddress), "GuildApp: Token has not been approved");
-        uint256 outstandingBalance = guildBalance(_tokenAddress);
-        require(_amount > 0 && outstandingBalance >= _amount, "GuildApp: Not enough balance to withdraw");
-        address beneficiary = _beneficiary != address(0) ? _beneficiary : _msgSender();
-        emit Withdraw(_tokenAddress, beneficiary, _amount);
-        if (_tokenAddress != address(0)) {
-            IERC20Upgradeable(_tokenAddress).safeTransfer(beneficiary, _amount);
-        } else {
-            (bool success, ) = payable(beneficiary).call{value: _amount}("");
-            require(success, "GuildApp: Failed to send Ether");
-        }
+                                  _guildTiers,
+                                  allowanceModule,
+                                  _transferPolicy);
     }
 
-    /// @notice Update Guild subscription token and price
-    /// @dev can be executed only by guild owner and if guild is active
-    /// @param _tokenAddress token to be accepted for payments
-    /// @param _newSubPrice new subscription price
-    function updateSubscriptionPrice(
-        address _tokenAddress,
-        uint256 _newSubPrice
-    ) public override onlyGuildAdmin onlyIfActive {
-        tokenAddress = _tokenAddress;
-        _approvedTokens.add(_tokenAddress);
-        subPrice = _newSubPrice;
-        emit SubscriptionPriceChanged(tokenAddress, subPrice);
+    /// @notice Return true if the guild has been initialized
+    function initialized() external view override returns (bool) {
+        return _guildInitialized;
     }
 
-    /// @notice New subscription to the Guild
-    /// @dev Accepts contributions from EOA and Safes w/ enabledAllowanceModule.
-    /// @param _subscriber Account address
-    /// @param _tokenURI URI of subsription metadata
-    /// @param _value subsription payment value send by a user
-    /// @param _data allowance Tx signature used by the safe AllowanceModule
-    function subscribe(
-        address _subscriber,
-        string memory _tokenURI,
-        uint256 _value,
-        bytes memory _data
-    ) public payable override onlyIfActive {
-        if (_data.length == 0) {  // condition if not using a safe
-            require(_subscriber == _msgSender(), "GuildApp: msg.sender must be the subscriber");
-            require((tokenAddress != address(0) && msg.value == 0) ||
-                    (tokenAddress == address(0) && msg.value == _value),
-                    "GuildApp: incorrect msg.value");
-        } else {
-            // require(address(subscriber).isContract() &&
-            //         keccak256(abi.encodePacked(IGnosisSafe(subscriber).NAME())) == keccak256(abi.encodePacked("Gnosis Safe")),
-            //         "GuildApp: Sender is not a Gnosis Safe");
-            require(msg.value == 0,
-                    "GuildApp: ETH should be transferred via AllowanceModule");
-        }
-        require(_value >= subPrice, "GuildApp: Insufficient value sent");
-        Subscription storage subs = subscriptionByOwner[_subscriber];
-        if (subs.tokenId == 0) {
-            _nextId = _nextId.add(1);
-            subs.tokenId = _nextId;
-            _safeMint(_subscriber, subs.tokenId);
-            _setTokenURI(subs.tokenId, string(abi.encodePacked(_tokenURI, "#", subs.tokenId.toString())));
-            subs.expirationTimestamp = subscriptionPeriod.add(block.timestamp);
-            emit NewSubscription(_subscriber, subs.tokenId, _value, subs.expirationTimestamp, _data);
-        } else {
-            require(subs.expirationTimestamp < block.timestamp, "GuildApp: still an active subscription");
-            subs.expirationTimestamp = block.timestamp.add(subscriptionPeriod);
-            emit RenewSubscription(_subscriber, subs.tokenId, _value, subs.expirationTimestamp, _data);
-        }
-        
-        if (_data.length == 0) {
-            if (tokenAddress != address(0)) {
-                // Handle payment using EOA allowances
-                IERC20Upgradeable(tokenAddress).safeTransferFrom(_subscriber, address(this), _value);
-            }
-            return;
+    /// @dev forward the current call to an extension & bubble up its result
+    /// @param target extension implementing the called function
+    function _delegate(address target) private {
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            calldatacopy(0, 0, calldatasize())
+            let result := delegatecall(gas(), target, 0, calldatasize(), 0, 0)
+            returndatacopy(0, 0, returndatasize())
+            switch result
+            case 0 { revert(0, returndatasize()) }
+            default { return(0, returndatasize()) }
         }
-        // Else Handle payment using Safe Allowance Module
-        require(_allowanceModule != address(0), "GuildApp: Guild does not support Safe Allowances");
-        IAllowanceModule safeModule = IAllowanceModule(_allowanceModule);
-
-        safeModule.executeAllowanceTransfer(
-            _subscriber, // MUST be a safe
-            tokenAddress,
-            payable(this), // to
-            uint96(_value),
-            address(0), // payment token
-            0, // payment
-            address(this), // delegate
-            "" // bypass signature check as contract signatures are not supported by the module
-        );
-    }
-
-    /// @notice Unsubscribe to the Guild
-    /// @dev NFT token is burned
+    }
+
+    /// @dev see {GuildAppExtension-pauseGuild}
+    function pauseGuild(bool) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-withdraw}
+    function withdraw(address, uint256, address) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setPayees}
+    function setPayees(address[] calldata, uint256[] calldata) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-distribute}
+    function distribute(address) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-claim}
+    function claim(address, address) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-updateSubscriptionPrice}
+    function updateSubscriptionPrice(address, uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-addPaymentToken}
+    function addPaymentToken(address, uint256[] calldata) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-removePaymentToken}
+    function removePaymentToken(address) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setTokenPrice}
+    function setTokenPrice(uint256, address, uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-addTier}
+    function addTier(string calldata, uint256, uint256, uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-updateTier}
+    function updateTier(uint256, string calldata, uint256, uint256, uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setPeriodDiscount}
+    function setPeriodDiscount(uint256, uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setGracePeriod}
+    function setGracePeriod(uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setRefundPolicy}
+    function setRefundPolicy(RefundPolicy, uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-approveSubscriptionTransfer}
+    function approveSubscriptionTransfer(uint256, address) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setMetadata}
+    function setMetadata(string calldata) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setAllowlist}
+    function setAllowlist(bytes32, string calldata) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setMaxMembers}
+    function setMaxMembers(uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setGrandfatheredPricing}
+    function setGrandfatheredPricing(bool) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setFreezePolicy}
+    function setFreezePolicy(uint256, uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-setReferralPolicy}
+    function setReferralPolicy(uint256, uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-freezeSubscription}
+    function freezeSubscription(uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-unfreezeSubscription}
+    function unfreezeSubscription(uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-unsubscribe}
+    function unsubscribe(uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-closeGuild}
+    function closeGuild() external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-processClosingRefunds}
+    function processClosingRefunds(uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-claimClosingRefund}
+    function claimClosingRefund(uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppExtension-upgradeToVersion}
+    function upgradeToVersion(uint256) external override { _delegate(extension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-subscribe}
+    function subscribe(address, uint256, address, string calldata, uint256, bytes calldata)
+        external payable override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-subscribeForPeriods}
+    function subscribeForPeriods(address, uint256, address, string calldata, uint256, uint256, bytes calldata)
+        external payable override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-subscribeWithProof}
+    function subscribeWithProof(address, uint256, address, uint256, uint256, bytes calldata, bytes32[] calldata)
+        external payable override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-subscribeWithReferrer}
+    function subscribeWithReferrer(address, uint256, address, uint256, uint256, bytes calldata, address)
+        external payable override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-subscribeWithVoucher}
+    function subscribeWithVoucher(address, uint256, address, uint256, uint256, bytes calldata, Voucher calldata, bytes calldata,
+                                  bytes32[] calldata)
+        external payable override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-subscribeWithPermit}
+    function subscribeWithPermit(address, uint256, address, uint256, uint256, Permit calldata)
+        external override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-giftSubscription}
+    function giftSubscription(address, uint256, address, uint256, uint256, string calldata)
+        external payable override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-renew}
+    function renew(uint256, uint256) external payable override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-renewBatch}
+    function renewBatch(address[] calldata) external override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-tip}
+    function tip(address, uint256, string calldata) external payable override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-releaseSeat}
+    function releaseSeat(uint256) external override { _delegate(subscriptionExtension); }
+
+    /// @dev see {GuildAppSubscriptionExtension-joinWaitlist}
+    function joinWaitlist(uint256) external override { _delegate(subscriptionExtension); }
+
+    /// @notice Get the amount refunded if subscription `_tokenId` is cancelled now
+    /// @dev Prorated refunds return the unused time of the refundable payment.
+    /// FullWithinWindow refunds the whole payment if cancelled within `refundWindow` seconds from the start of the paid range.
+    /// Capped by the guild balance left after withdrawals & distributions
     /// @param _tokenId Subscription ID
-    function unsubscribe(uint256 _tokenId) public override {
-        require(_exists(_tokenId), "GuildApp: Subscription does not exist");
-        address subscriber = _msgSender();
-        require(subscriber == ownerOf(_tokenId), "GuildApp: Caller is not the owner of the subscription");
-        _burn(_tokenId);
-        emit Unsubscribed(_tokenId);
-    }
-
-    /// @notice Manage subscription ownership internally
-    /// @dev Using hook for burning/transferring exising subscriptions
-    /// @param _from Current subscription owner
-    /// @param _to New subscription owner
-    // /// @param _tokenId Subscription Id
-    function _beforeTokenTransfer(address _from, address _to, uint256 /*_tokenId*/) internal override {
-        if (_from != address(0) && _to != address(0)) { // transfer existing subscription
-            Subscription storage subsTo = subscriptionByOwner[_to];
-            require(subsTo.expirationTimestamp == 0, "GuildApp: Recipient already has an active subscription");
-            Subscription storage subsFrom = subscriptionByOwner[_from];
-            subsTo.tokenId = subsFrom.tokenId;
-            subsTo.expirationTimestamp = subsFrom.expirationTimestamp;
-            subsFrom.tokenId = 0;
-            subsFrom.expirationTimestamp = 0;
-        }
-        if (_to == address(0)) { // burn/unsubscribe
-            Subscription storage subs = subscriptionByOwner[_from];
-            subs.tokenId = 0;
-            subs.expirationTimestamp = 0;
+    /// @return refund amount denominated in the subscription payment token
+    function refundableAmount(uint256 _tokenId) external view override returns (uint256) {
+        return _refundableAmount(_tokenId);
+    }
+
+    /// @notice Get the amount subscription `_tokenId` can claim after the guild was closed
+    /// @param _tokenId Subscription ID
+    /// @return refund amount denominated in the subscription payment token. 0 if the guild is open or it was claimed
+    function closingRefund(uint256 _tokenId) external view override returns (uint256) {
+        if (!_exists(_tokenId)) {
+            return 0;
         }
+        return _closingRefund(_tokenId, subscriptionByOwner[ownerOf(_tokenId)].paymentToken);
+    }
+
+    /// @notice Get the metadata of subscription `_tokenId`
+    /// @dev rendered on chain as a base64 encoded JSON with an SVG image showing the guild, member number,
+    /// tier & expiry
+    /// @param _tokenId subscription ID
+    /// @return data URI with the ERC721 metadata JSON
+    function tokenURI(uint256 _tokenId) public view override returns (string memory) {
+        address subscriber = ownerOf(_tokenId);
+        Subscription storage subs = subscriptionByOwner[subscriber];
+        return GuildTokenURI.tokenURI(GuildTokenURI.Membership(
+            name(),
+            symbol(),
+            _tokenId,
+            _tiers.tiers[subs.tierId].name,
+            subs.expirationTimestamp,
+            subscriptionStatus(subscriber)
+        ));
     }
 
     /// @notice Get the Guild balance of a specified token
     /// @param _tokenAddress asset address
-    /// @return current guild balanceOf `_tokenAddres`
+    /// @return current guild balanceOf `_tokenAddres` minus distributed funds pending to be claimed by payees
     function guildBalance(address _tokenAddress) public view override returns (uint256) {
-        if (_approvedTokens.contains(_tokenAddress)) {
-            if (_tokenAddress != address(0)) {
-                return IERC20Upgradeable(_tokenAddress).balanceOf(address(this));
-            }
-            return address(this).balance;
-        }
-        return 0;
+        return _guildBalance(_tokenAddress);
     }
 
     /// @notice Return if `_holder` owns a subscription with ID `_tokenId`
@@ -295,10 +301,29 @@ contract GuildApp is ERC721Upgradeable, AccessControlUpgradeable, IGuild {
     }
 
     /// @notice Return true if `_account` has an active subscription
+    /// @dev subscriptions within the grace period are still considered active
     /// @param _account subscriber address
     /// @return true if `_account` has an active subscription
     function hasActiveSubscription(address _account) public view override returns (bool) {
-        return subscriptionByOwner[_account].expirationTimestamp > block.timestamp;
+        return subscriptionStatus(_account) != SubscriptionStatus.Expired;
+    }
+
+    /// @notice Get the subscription status of `_account`
+    /// @param _account subscriber address
+    /// @return Active if not expired, InGrace if expired less than `gracePeriod` seconds ago,
+    /// Expired otherwise or while the subscription is frozen
+    function subscriptionStatus(address _account) public view override returns (SubscriptionStatus) {
+        uint256 expiry = subscriptionByOwner[_account].expirationTimestamp;
+        if (subscriptionByOwner[_account].frozenAt > 0) {
+            return SubscriptionStatus.Expired;
+        }
+        if (expiry > block.timestamp) {
+            return SubscriptionStatus.Active;
+        }
+        if (expiry > 0 && expiry.add(gracePeriod) > block.timestamp) {
+            return SubscriptionStatus.InGrace;
+        }
+        return SubscriptionStatus.Expired;
     }
 
     /// @notice Get Subscription ID from `_account`
@@ -315,6 +340,115 @@ contract GuildApp is ERC721Upgradeable, AccessControlUpgradeable, IGuild {
         return subscriptionByOwner[_account].expirationTimestamp;
     }
 
+    /// @notice Get the subscription tier
+    /// @param _account subscriber address
+    /// @return tier ID of the subscription that belong to `_account`
+    function getSubscriptionTierFor(address _account) external view override returns (uint256) {
+        return subscriptionByOwner[_account].tierId;
+    }
+
+    /// @notice Get subscription tier details
+    /// @param _tierId tier ID
+    /// @return tier name, price in the default token, period & cap
+    function getTier(uint256 _tierId) external view override returns (Tier memory) {
+        return _tiers.getTier(_tierId, tokenAddress);
+    }
+
+    /// @notice Get the price of a tier denominated in `_tokenAddress`
+    /// @param _tierId tier ID
+    /// @param _tokenAddress payment token
+    /// @return subscription price. 0 if the tier cannot be paid with `_tokenAddress`
+    function getTierPrice(uint256 _tierId, address _tokenAddress) external view override returns (uint256) {
+        return _tiers.getPrice(_tierId, _tokenAddress);
+    }
+
+    /// @notice Get the amount of subscription tiers available in the Guild
+    /// @return total amount of tiers
+    function totalTiers() external view override returns (uint256) {
+        return _tiers.tiers.length;
+    }
+
+    /// @notice Get the cost of subscribing to a tier for a number of periods
+    /// @dev multi-period discount is applied if `_periods` is eligible
+    /// @param _tierId tier ID
+    /// @param _tokenAddress accepted payment token
+    /// @param _periods number of subscription periods
+    /// @return total subscription cost denominated in `_tokenAddress`
+    function subscriptionCost(
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods
+    ) public view override returns (uint256) {
+        return _tiers.cost(_tierId, _tokenAddress, _periods);
+    }
+
+    /// @notice Get the cost for `_subscriber` of subscribing to a tier for a number of periods
+    /// @dev same as `subscriptionCost` unless the guild grandfathers prices & `_subscriber` renews before lapsing
+    /// @param _subscriber Account address
+    /// @param _tierId tier ID
+    /// @param _tokenAddress accepted payment token
+    /// @param _periods number of subscription periods
+    /// @return total subscription cost denominated in `_tokenAddress`
+    function subscriptionCostFor(
+        address _subscriber,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods
+    ) external view override returns (uint256) {
+        return _subscriptionCost(_subscriber, _tierId, _tokenAddress, _periods);
+    }
+
+    /// @notice Get the digest Safe `_safe` owners must sign to subscribe paying through the Safe allowance
+    /// @dev the signature is passed as `_data` & verified through EIP-1271. It can only be used once
+    /// @param _safe subscribing Safe
+    /// @param _terms subscription terms, including the selector of the subscribe function called with the signature
+    /// @return EIP-712 digest
+    function safeSubscriptionHash(
+        address _safe,
+        SafeSubscription calldata _terms
+    ) external view override returns (bytes32) {
+        return GuildPayments.hashSafeSubscription(_safe, _terms, _safeNonces[_safe]);
+    }
+
+    /// @notice Get the amount of subscriptions currently held on a tier
+    /// @param _tierId tier ID
+    /// @return amount of tier members
+    function tierMembers(uint256 _tierId) external view returns (uint256) {
+        return _tiers.members[_tierId];
+    }
+
+    /// @notice Get the amount of new subscriptions a tier can still take
+    /// @dev bounded by both the tier cap & the guild `maxMembers`
+    /// @param _tierId tier ID
+    /// @return remaining seats. MAX_UINT256 if neither the tier nor the guild are capped
+    function remainingSeats(uint256 _tierId) external view override returns (uint256) {
+        return _tiers.remainingSeats(_tierId, maxMembers);
+    }
+
+    /// @notice Get the minimum number of prepaid periods to get the multi-period discount
+    /// @return minimum number of periods
+    function discountMinPeriods() external view returns (uint256) {
+        return _tiers.discountMinPeriods;
+    }
+
+    /// @notice Get the multi-period discount
+    /// @return discount in basis points
+    function discountBps() external view returns (uint256) {
+        return _tiers.discountBps;
+    }
+
+    /// @notice Get the Guild default tier price
+    /// @return subscription price of the default tier
+    function subPrice() external view returns (uint256) {
+        return _tiers.prices[0][tokenAddress];
+    }
+
+    /// @notice Get the Guild default tier period
+    /// @return subscription period in seconds of the default tier
+    function subscriptionPeriod() external view returns (uint256) {
+        return _tiers.tiers[0].period;
+    }
+
     /// @notice Return list of approved tokens in the guild
     /// @return array of assets aproved to the Guild
     function approvedTokens() public view override returns (address[] memory) {
@@ -325,29 +459,32 @@ contract GuildApp is ERC721Upgradeable, AccessControlUpgradeable, IGuild {
         return tokens;
     }
 
-    /// @notice Return Guild Metadata CID
-    /// @return metadataCID (i.e. IPFS hash)
-    function getMetadata() public view override returns (string memory) {
-        string memory base = baseURI();
+    /// @notice Return the revenue split recipients
+    /// @return array of payees. Shares are available through `shares`
+    function payees() external view override returns (address[] memory) {
+        return _payees;
+    }
 
-        if (bytes(base).length == 0) {
-            return metadataCID;
-        }
-        return string(abi.encodePacked(base, metadataCID));
+    /// @notice Return the GuildFactory template version the guild runs
+    /// @return template version. 0 if the guild is not upgradeable
+    function templateVersion() external view override returns (uint256) {
+        return GuildVersions.version();
     }
 
-    /// @notice Set Guild Metadata ID
-    /// @dev Only the guild owner can execute
-    /// @param _metadataCID new metadata CID
-    function setMetadata(string memory _metadataCID) external override onlyGuildAdmin onlyIfActive {
-        metadataCID = _metadataCID;
-        emit UpdatedMetadata(getMetadata());
+    /// @notice Return list of tokens currently accepted for subscription payments
+    /// @return array of accepted assets
+    function acceptedTokens() public view override returns (address[] memory) {
+        return _tiers.getAcceptedTokens();
+    }
+
+    /// @notice Return Guild Metadata CID
+    /// @return metadataCID (i.e. IPFS hash)
+    function getMetadata() public view override returns (string memory) {
+        return _metadataURI();
     }
 
     receive() external payable {
 
     }
 
-    uint256[40] private __gap;
-
 }
\ No newline at end of file
@@ -0,0 +1,427 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+pragma abicoder v2;
+
+import "@openzeppelin/contracts-upgradeable/access/AccessControlUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/math/SafeMathUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC721/ERC721Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/EnumerableSetUpgradeable.sol";
+
+import "../interfaces/IGuild.sol";
+import "../libraries/GuildPayments.sol";
+import "../libraries/GuildTiers.sol";
+
+/// @title GuildAppBase Contract
+/// @author RaidGuild
+/// @notice Storage layout, events & shared helpers of a Guild
+/// @dev inherited by both GuildApp & GuildAppExtension so they operate on the same storage.
+/// New state variables MUST only be appended here
+abstract contract GuildAppBase is ERC721Upgradeable, AccessControlUpgradeable {
+    using EnumerableSetUpgradeable for EnumerableSetUpgradeable.AddressSet;
+    using SafeMathUpgradeable for uint256;
+    using GuildTiers for GuildTiers.Data;
+
+    struct Subscription {
+        uint256 tokenId;
+        uint256 expirationTimestamp;
+        uint256 tierId;
+        // refundable payment: token, amount & start of the period range it paid for
+        address paymentToken;
+        uint256 paidValue;
+        uint256 paidFrom;
+        // tier price per period in `paymentToken` locked when the subscription started or last lapsed
+        uint256 lockedPrice;
+        // timestamp the subscription was frozen at. 0 if not frozen
+        uint256 frozenAt;
+        // amount of times the subscription has been frozen
+        uint256 freezes;
+        // whether the seat of the lapsed subscription has been released for other members
+        bool seatReleased;
+        // seconds granted for free (i.e. referral bonuses) within the refundable range. Never refunded
+        uint256 bonusTime;
+        // timestamp a frozen subscription resumes at, set by the freeze policy in force when it was frozen
+        uint256 resumeAt;
+    }
+
+    /// @dev role allowed to update the Guild metadata
+    bytes32 public constant METADATA_EDITOR_ROLE = keccak256("METADATA_EDITOR_ROLE");
+    /// @dev role allowed to withdraw Guild funds
+    bytes32 public constant TREASURER_ROLE = keccak256("TREASURER_ROLE");
+    /// @dev role allowed to update subscription prices & discounts
+    bytes32 public constant PRICE_MANAGER_ROLE = keccak256("PRICE_MANAGER_ROLE");
+    /// @dev role allowed to pause the Guild
+    bytes32 public constant PAUSER_ROLE = keccak256("PAUSER_ROLE");
+    /// @dev subscriptions expiring within this window (in seconds) can be renewed in batch by relayers
+    uint256 public constant RENEWAL_WINDOW = 1 days;
+    uint256 internal constant BPS_DENOMINATOR = 10000;
+
+    /// @dev flag the contract as initialized
+    bool internal _guildInitialized;
+    /// @dev flag to keep track if the Guild is accepting subscriptions
+    bool public isActive;
+    /// @dev CID of Guild metadata stored on i.e. IPFS
+    string public metadataCID;
+    /// @dev default asset accepted for subscriptions
+    address public tokenAddress;
+    /// @dev subscription tiers, accepted tokens, prices & multi-period discount
+    GuildTiers.Data internal _tiers;
+    /// @dev subscriptions list
+    mapping(address => Subscription) public subscriptionByOwner;
+    /// @dev assets used for subscription payments
+    EnumerableSetUpgradeable.AddressSet internal _approvedTokens;
+    /// @dev Gnosis Safe AllowanceModule
+    address internal _allowanceModule;
+    /// @dev next subscriptionID
+    uint256 internal _nextId;
+    /// @dev time in seconds a subscription keeps granting access after it expires
+    uint256 public gracePeriod;
+    /// @dev refund policy applied when a subscriber cancels
+    IGuild.RefundPolicy public refundPolicy;
+    /// @dev time in seconds a payment is fully refundable under the FullWithinWindow policy
+    uint256 public refundWindow;
+    /// @dev revenue split recipients
+    address[] internal _payees;
+    /// @dev revenue shares of each payee
+    mapping(address => uint256) public shares;
+    /// @dev sum of all payee shares
+    uint256 public totalShares;
+    /// @dev distributed funds & referral rewards pending to be claimed by each payee (token => payee => amount)
+    mapping(address => mapping(address => uint256)) public claimable;
+    /// @dev distributed funds pending to be claimed by all payees. Excluded from the guild balance
+    mapping(address => uint256) internal _totalClaimable;
+    /// @dev GuildFactory that deployed the guild. Used to charge the protocol fee on subscription payments
+    address public factory;
+    /// @dev whether subscriptions can be transferred. Set at initialization
+    IGuild.TransferPolicy public transferPolicy;
+    /// @dev recipient approved by the guild for each subscription transfer under the OwnerApproved policy
+    mapping(uint256 => address) public approvedTransfers;
+    /// @dev times each discount voucher has been redeemed, by voucher EIP-712 digest
+    mapping(bytes32 => uint256) public voucherRedemptions;
+    /// @dev merkle root of the accounts invited to join the guild. Anyone can join if not set
+    bytes32 public allowlistRoot;
+    /// @dev max amount of subscriptions held at the same time across all tiers. 0 means unlimited
+    uint256 public maxMembers;
+    /// @dev whether renewals honour the price locked by each subscription until it lapses
+    bool public grandfatheredPricing;
+    /// @dev timestamp the guild was closed at. 0 if the guild is open
+    uint256 public closedAt;
+    /// @dev unused value of each subscription when the guild was closed, denominated in its payment token
+    mapping(uint256 => uint256) internal _closingRefunds;
+    /// @dev sum of the unused value of all subscriptions when the guild was closed, by payment token
+    mapping(address => uint256) internal _closingRefundsOwed;
+    /// @dev guild balance reserved for closing refunds, by payment token. Less than owed if the balance fell short
+    mapping(address => uint256) internal _closingRefundsPool;
+    /// @dev amount of subscriptions paid by each Safe through its allowance. Part of the signed Safe subscription
+    mapping(address => uint256) internal _safeNonces;
+    /// @dev max amount of seconds a subscription can stay frozen. 0 disables freezing
+    uint256 public maxFreezeDuration;
+    /// @dev max amount of times each subscription can be frozen. 0 means unlimited
+    uint256 public maxFreezes;
+    /// @dev share of the first payment of a referred member paid to its referrer, in basis points
+    uint256 public referralRewardBps;
+    /// @dev amount of seconds added to the referrer subscription for each referred member
+    uint256 public referralBonusDuration;
+    /// @dev member that referred each account. Accounts can only be referred once
+    mapping(address => address) public referrerOf;
+    /// @dev last subscription ID whose closing refund has been processed. Refunds are ready once it reaches `_nextId`
+    uint256 internal _closingCursor;
+
+    modifier onlyIfActive() {
+        _checkActive();
+        _;
+    }
+
+    modifier onlyInvited(address _account) {
+        _checkInvited(_account);
+        _;
+    }
+
+    modifier onlyGuildAdmin() {
+        _checkRole(DEFAULT_ADMIN_ROLE, "GuildApp: Sender doesn't have an Admin role");
+        _;
+    }
+
+    modifier onlyGuildRole(bytes32 _role, string memory _errorMessage) {
+        _checkRole(_role, _errorMessage);
+        _;
+    }
+
+    event InitializedGuild(address _creator,
+        address _tokenAddress,
+        uint256 _subPrice,
+        uint256 _subscriptionPeriod,
+        IGuild.GuildMetadata _metadata);
+    event UpdatedMetadata(string _metadataURI);
+    event PausedGuild(bool _isPaused);
+    event Withdraw(address _tokenAddress, address beneficiary, uint256 _amount);
+    event SubscriptionPriceChanged(address _tokenAddress, uint256 _subPrice);
+    event PaymentTokenAdded(address _tokenAddress);
+    event PaymentTokenRemoved(address _tokenAddress);
+    event TokenPriceUpdated(uint256 _tierId, address _tokenAddress, uint256 _price);
+    event PeriodDiscountUpdated(uint256 _minPeriods, uint256 _discountBps);
+    event GracePeriodUpdated(uint256 _gracePeriod);
+    event RefundPolicyUpdated(IGuild.RefundPolicy _policy, uint256 _refundWindow);
+    event AllowlistUpdated(bytes32 _root, string _listCID);
+    event MaxMembersUpdated(uint256 _maxMembers);
+    event GrandfatheredPricingUpdated(bool _enabled);
+    event FreezePolicyUpdated(uint256 _maxFreezeDuration, uint256 _maxFreezes);
+    event ReferralPolicyUpdated(uint256 _rewardBps, uint256 _bonusDuration);
+    event TransferPolicyUpdated(IGuild.TransferPolicy _policy);
+    event SubscriptionTransferApproved(uint256 _tokenId, address _to);
+    event TierUpdated(uint256 _tierId, string _name, uint256 _price, uint256 _period, uint256 _cap);
+    event NewSubscription(address _subscriber,
+        uint256 _tokenId,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _value,
+        uint256 _fee,
+        uint256 expiry,
+        bytes _data);
+    event RenewSubscription(address _subscriber,
+        uint256 _tokenId,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _value,
+        uint256 _fee,
+        uint256 expiry,
+        bytes _data);
+    event PriceLocked(uint256 _tokenId, address _tokenAddress, uint256 _price);
+    event VoucherRedeemed(bytes32 _voucher, address _subscriber, uint256 _cost);
+    event RenewalFailed(address _subscriber, bytes _reason);
+    event WaitlistJoined(address _account, uint256 _tierId);
+    event SubscriptionGifted(address _payer, address _recipient, uint256 _tokenId, uint256 expiry, string _messageCID);
+    event Tipped(address _tipper, address _tokenAddress, uint256 _value, uint256 _fee, string _messageCID);
+    event SubscriptionFrozen(uint256 _tokenId, uint256 _remaining, uint256 _resumeAt);
+    event SubscriptionUnfrozen(uint256 _tokenId, uint256 _expirationTimestamp);
+    event SeatReleased(uint256 _tokenId, uint256 _tierId);
+    event ReferralCredited(address _referrer,
+        uint256 _referrerTokenId,
+        address _subscriber,
+        address _tokenAddress,
+        uint256 _reward,
+        uint256 _bonusDuration,
+        uint256 _referrerExpiry);
+    event Unsubscribed(uint256 _tokenId);
+    event Refunded(uint256 _tokenId, address _subscriber, address _tokenAddress, uint256 _value);
+    event PayeesUpdated(address[] _payees, uint256[] _shares);
+    event Distributed(address _tokenAddress, uint256 _amount);
+    event Claimed(address _tokenAddress, address _payee, uint256 _amount);
+    event Upgraded(uint256 _version, address _template);
+    event GuildClosed(uint256 _closedAt);
+    event ClosingRefundsProcessed(uint256 _lastTokenId, uint256 _totalTokens);
+
+    /// @dev modifiers body is kept in functions so it is not inlined on every guarded function
+    function _checkActive() internal view {
+        require(isActive, "GuildApp: The Guild is disabled");
+    }
+
+    /// @dev revert if the guild is invite-only & `_account` is not a member yet. Invited accounts
+    /// join through `subscribeWithProof` or `subscribeWithVoucher`
+    /// @param _account subscriber address
+    function _checkInvited(address _account) internal view {
+        require(allowlistRoot == bytes32(0) || subscriptionByOwner[_account].tokenId != 0,
+                "GuildApp: Guild is invite-only");
+    }
+
+    /// @dev revert with `_errorMessage` if msg.sender does not have `_role`
+    /// @param _role required role
+    /// @param _errorMessage revert reason
+    function _checkRole(bytes32 _role, string memory _errorMessage) internal view {
+        require(hasRole(_role, _msgSender()), _errorMessage);
+    }
+
+    /// @dev get the Guild balance of a specified token
+    /// @param _tokenAddress asset address
+    /// @return current guild balanceOf `_tokenAddres` minus funds pending to be claimed by payees.
+    /// 0 if the token has never been approved
+    function _guildBalance(address _tokenAddress) internal view returns (uint256) {
+        // nothing can leave the guild until every closing refund is reserved
+        if (_approvedTokens.contains(_tokenAddress) && (closedAt == 0 || _closingCursor == _nextId)) {
+            uint256 balance = _tokenAddress != address(0)
+                ? IERC20Upgradeable(_tokenAddress).balanceOf(address(this))
+                : address(this).balance;
+            return balance.sub(_totalClaimable[_tokenAddress]);
+        }
+        return 0;
+    }
+
+    /// @dev get the full Guild metadata URI
+    /// @return metadataCID prefixed by the base URI if any
+    function _metadataURI() internal view returns (string memory) {
+        string memory base = baseURI();
+
+        if (bytes(base).length == 0) {
+            return metadataCID;
+        }
+        return string(abi.encodePacked(base, metadataCID));
+    }
+
+    /// @notice Manage subscription ownership internally
+    /// @dev Using hook for burning/transferring exising subscriptions. Transfers are restricted by the guild transfer policy
+    /// @param _from Current subscription owner
+    /// @param _to New subscription owner
+    /// @param _tokenId Subscription Id
+    function _beforeTokenTransfer(address _from, address _to, uint256 _tokenId) internal override {
+        if (_from != address(0) && _to != address(0)) { // transfer existing subscription
+            require(transferPolicy != IGuild.TransferPolicy.Soulbound, "GuildApp: Subscriptions are non-transferable");
+            if (transferPolicy == IGuild.TransferPolicy.OwnerApproved) {
+                require(approvedTransfers[_tokenId] == _to, "GuildApp: Transfer has not been approved by the guild");
+                delete approvedTransfers[_tokenId];
+            }
+            require(subscriptionByOwner[_to].expirationTimestamp == 0,
+                    "GuildApp: Recipient already has an active subscription");
+            subscriptionByOwner[_to] = subscriptionByOwner[_from];
+            delete subscriptionByOwner[_from];
+        }
+        if (_to == address(0)) { // burn/unsubscribe
+            if (!subscriptionByOwner[_from].seatReleased) {
+                _tiers.leave(subscriptionByOwner[_from].tierId);
+            }
+            delete subscriptionByOwner[_from];
+        }
+    }
+
+    /// @dev get the cost for `_subscriber` of paying `_periods` periods of `_tierId`. If the guild grandfathers prices,
+    /// renewals on the same tier & token before the subscription lapses are charged at the locked price if it is lower
+    /// @param _subscriber subscription owner
+    /// @param _tierId tier ID
+    /// @param _tokenAddress accepted payment token
+    /// @param _periods number of subscription periods
+    /// @return cost subscription cost denominated in `_tokenAddress`
+    function _subscriptionCost(
+        address _subscriber,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods
+    ) internal view returns (uint256 cost) {
+        cost = _tiers.cost(_tierId, _tokenAddress, _periods);
+        Subscription storage subs = subscriptionByOwner[_subscriber];
+        if (grandfatheredPricing &&
+            subs.lockedPrice > 0 &&
+            subs.tierId == _tierId &&
+            subs.paymentToken == _tokenAddress &&
+            subs.expirationTimestamp.add(gracePeriod) > block.timestamp) {
+            uint256 lockedCost = _tiers.periodCost(subs.lockedPrice, _periods);
+            if (lockedCost < cost) {
+                cost = lockedCost;
+            }
+        }
+    }
+
+    /// @dev extend the subscription of `_owner` by `_duration` seconds. Time is stacked on top of the current
+    /// expiration if the subscription is still active or in grace, otherwise it starts counting from now.
+    /// Payments made in the same token over a stacked range are accumulated as refundable value.
+    /// The current tier price is locked when the subscription starts, lapses or switches tier or token.
+    /// A released seat is booked again if there's still room on the subscription tier
+    /// @param _owner subscription owner
+    /// @param _duration extension in seconds
+    /// @param _tokenAddress payment token
+    /// @param _value payment amount
+    /// @return new expiration timestamp
+    function _extendSubscription(
+        address _owner,
+        uint256 _duration,
+        address _tokenAddress,
+        uint256 _value
+    ) internal returns (uint256) {
+        Subscription storage subs = subscriptionByOwner[_owner];
+        require(subs.frozenAt == 0, "GuildApp: Subscription is frozen");
+        if (subs.seatReleased) {
+            require(maxMembers == 0 || _tiers.totalMembers() < maxMembers, "GuildApp: Guild is full");
+            _tiers.join(subs.tierId);
+            subs.seatReleased = false;
+        }
+        uint256 start = subs.expirationTimestamp.add(gracePeriod) > block.timestamp
+            ? subs.expirationTimestamp
+            : block.timestamp;
+        if (start == block.timestamp || subs.paymentToken != _tokenAddress || subs.lockedPrice == 0) {
+            subs.lockedPrice = _tiers.prices[subs.tierId][_tokenAddress];
+            emit PriceLocked(subs.tokenId, _tokenAddress, subs.lockedPrice);
+        }
+        if (start == block.timestamp || subs.paymentToken != _tokenAddress) {
+            // lapsed subscription or paid with another token: only this payment can be refunded
+            subs.paymentToken = _tokenAddress;
+            subs.paidValue = _value;
+            subs.paidFrom = start;
+            subs.bonusTime = 0;
+        } else {
+            subs.paidValue = subs.paidValue.add(_value);
+        }
+        subs.expirationTimestamp = start.add(_duration);
+        return subs.expirationTimestamp;
+    }
+
+    /// @dev get the value of the time left on the refundable payment of a subscription.
+    /// Bonus time is considered to be used last, so it is excluded from the unused time
+    /// @param subs subscription
+    /// @param _timestamp time from which the subscription is considered unused
+    /// @return unused value denominated in the subscription payment token
+    function _unusedValue(Subscription storage subs, uint256 _timestamp) internal view returns (uint256) {
+        uint256 unusedFrom = subs.paidFrom > _timestamp ? subs.paidFrom : _timestamp;
+        uint256 paidUntil = subs.expirationTimestamp.sub(subs.bonusTime);
+        if (paidUntil <= unusedFrom) {
+            return 0;
+        }
+        return subs.paidValue
+            .mul(paidUntil.sub(unusedFrom))
+            .div(paidUntil.sub(subs.paidFrom));
+    }
+
+    /// @dev get the amount refunded if subscription `_tokenId` is cancelled now.
+    /// Nothing is refunded once the guild is closed as members are refunded through closing refunds instead.
+    /// Refunds are capped by the guild balance left after withdrawals & distributions
+    /// @param _tokenId Subscription ID
+    /// @return refund amount denominated in the subscription payment token
+    function _refundableAmount(uint256 _tokenId) internal view returns (uint256 refund) {
+        Subscription storage subs = subscriptionByOwner[ownerOf(_tokenId)];
+        if (closedAt > 0) {
+            return 0;
+        }
+        if (refundPolicy == IGuild.RefundPolicy.Prorated) {
+            refund = _unusedValue(subs, block.timestamp);
+        } else if (refundPolicy == IGuild.RefundPolicy.FullWithinWindow &&
+                   block.timestamp <= subs.paidFrom.add(refundWindow)) {
+            refund = subs.paidValue;
+        }
+        uint256 available = _guildBalance(subs.paymentToken);
+        if (refund > available) {
+            refund = available;
+        }
+    }
+
+    /// @dev get the amount a subscription gets back from the guild closing refunds
+    /// @param _tokenId Subscription ID
+    /// @param _paymentToken subscription payment token
+    /// @return refund amount denominated in `_paymentToken`
+    function _closingRefund(uint256 _tokenId, address _paymentToken) internal view returns (uint256) {
+        uint256 unused = _closingRefunds[_tokenId];
+        if (unused == 0) {
+            return 0;
+        }
+        return unused.mul(_closingRefundsPool[_paymentToken]).div(_closingRefundsOwed[_paymentToken]);
+    }
+
+    /// @dev collect a subscription payment & forward the protocol fee to `_feeRecipient`
+    /// @param _from payer address
+    /// @param _tokenAddress payment token
+    /// @param _value payment amount
+    /// @param _data allowance Tx signature used by the safe AllowanceModule. Empty if paying from an EOA
+    /// @param _feeRecipient protocol fee recipient
+    /// @param _fee protocol fee amount out of `_value`
+    function _collectPayment(
+        address _from,
+        address _tokenAddress,
+        uint256 _value,
+        bytes memory _data,
+        address _feeRecipient,
+        uint256 _fee
+    ) internal {
+        GuildPayments.collect(_from, _tokenAddress, _value, _data, _allowanceModule);
+        if (_fee > 0) {
+            GuildPayments.send(_tokenAddress, _feeRecipient, _fee);
+        }
+    }
+
+    uint256[17] private __gap;
+}
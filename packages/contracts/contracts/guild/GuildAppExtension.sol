@@ -0,0 +1,427 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+pragma abicoder v2;
+
+import "@openzeppelin/contracts-upgradeable/utils/EnumerableSetUpgradeable.sol";
+
+import "../interfaces/IGuild.sol";
+import "../libraries/GuildPayments.sol";
+import "../libraries/GuildTiers.sol";
+import "../libraries/GuildVersions.sol";
+import "./GuildAppBase.sol";
+
+/// @title GuildAppExtension Contract
+/// @author RaidGuild
+/// @notice Guild administration functions
+/// @dev GuildApp delegatecalls into this contract to keep its own bytecode under the contract size limit.
+/// It MUST NOT be used directly as it operates on the calling GuildApp storage
+contract GuildAppExtension is GuildAppBase {
+    using EnumerableSetUpgradeable for EnumerableSetUpgradeable.AddressSet;
+    using SafeMathUpgradeable for uint256;
+    using GuildTiers for GuildTiers.Data;
+
+    /// @notice Enable/Disable your GuildApp to accept subscription/payments
+    /// @dev Flag contract as active or not. Only accounts with the PAUSER_ROLE can execute
+    /// @param pause boolean to flag the Guild as active
+    function pauseGuild(bool pause) external onlyGuildRole(PAUSER_ROLE, "GuildApp: Sender doesn't have a Pauser role") {
+        require(closedAt == 0, "GuildApp: Guild is closed");
+        require(isActive == pause, "GuildApp: Guild already in that state");
+        emit PausedGuild(pause);
+        isActive = !pause;
+    }
+
+    /// @notice Withdraw balance from the Guild
+    /// @dev Only accounts with the TREASURER_ROLE can execute
+    /// @param _tokenAddress token asset to withdraw some balance
+    /// @param _amount amount to be withdraw in wei
+    /// @param _beneficiary beneficiary to send funds. If 0x is specified, funds will be sent to the caller
+    function withdraw(
+        address _tokenAddress,
+        uint256 _amount,
+        address _beneficiary
+    ) external onlyGuildRole(TREASURER_ROLE, "GuildApp: Sender doesn't have a Treasurer role") {
+        require(_approvedTokens.contains(_tokenAddress), "GuildApp: Token has not been approved");
+        uint256 outstandingBalance = _guildBalance(_tokenAddress);
+        require(_amount > 0 && outstandingBalance >= _amount, "GuildApp: Not enough balance to withdraw");
+        address beneficiary = _beneficiary != address(0) ? _beneficiary : _msgSender();
+        emit Withdraw(_tokenAddress, beneficiary, _amount);
+        GuildPayments.send(_tokenAddress, beneficiary, _amount);
+    }
+
+    /// @notice Close the Guild for good & refund its members
+    /// @dev can be executed only by guild owner. The unused value of every subscription is then snapshotted
+    /// in batches through `processClosingRefunds`. Guild funds are locked until every refund is processed
+    function closeGuild() external onlyGuildAdmin {
+        require(closedAt == 0, "GuildApp: Guild is closed");
+        closedAt = block.timestamp;
+        isActive = false;
+        emit GuildClosed(block.timestamp);
+    }
+
+    /// @notice Snapshot the closing refunds of the next `_count` subscriptions
+    /// @dev Anyone can execute. Each snapshot reserves the unused value of the subscription when the guild was closed.
+    /// Once the last subscription is processed, the guild balance is reserved for refunds. If it does not cover every
+    /// refund they are scaled down pro-rata
+    /// @param _count max amount of subscriptions to process
+    function processClosingRefunds(uint256 _count) external {
+        require(closedAt > 0 && _closingCursor < _nextId, "GuildApp: No closing refunds to process");
+        uint256 last = _closingCursor.add(_count);
+        if (last > _nextId) {
+            last = _nextId;
+        }
+        for (uint256 tokenId = _closingCursor.add(1); tokenId <= last; tokenId++) {
+            if (_exists(tokenId)) {
+                Subscription storage subs = subscriptionByOwner[ownerOf(tokenId)];
+                // frozen subscriptions stopped being used when frozen
+                uint256 unused = _unusedValue(subs, subs.frozenAt > 0 ? subs.frozenAt : closedAt);
+                if (unused > 0) {
+                    _closingRefunds[tokenId] = unused;
+                    _closingRefundsOwed[subs.paymentToken] = _closingRefundsOwed[subs.paymentToken].add(unused);
+                }
+            }
+        }
+        _closingCursor = last;
+        if (last == _nextId) {
+            for (uint256 i = 0; i < _approvedTokens.length(); i++) {
+                address token = _approvedTokens.at(i);
+                uint256 owed = _closingRefundsOwed[token];
+                if (owed > 0) {
+                    uint256 balance = _guildBalance(token);
+                    uint256 pool = balance < owed ? balance : owed;
+                    _closingRefundsPool[token] = pool;
+                    _totalClaimable[token] = _totalClaimable[token].add(pool);
+                }
+            }
+        }
+        emit ClosingRefundsProcessed(last, _nextId);
+    }
+
+    /// @notice Send the closing refund of a subscription to its owner
+    /// @dev Anyone can execute on behalf of the subscription owner once every closing refund is processed
+    /// @param _tokenId Subscription ID
+    function claimClosingRefund(uint256 _tokenId) external {
+        require(_closingRefunds[_tokenId] > 0 && _closingCursor == _nextId, "GuildApp: Nothing to refund");
+        address subscriber = ownerOf(_tokenId);
+        address paymentToken = subscriptionByOwner[subscriber].paymentToken;
+        uint256 refund = _closingRefund(_tokenId, paymentToken);
+        _closingRefunds[_tokenId] = 0;
+        _totalClaimable[paymentToken] = _totalClaimable[paymentToken].sub(refund);
+        emit Refunded(_tokenId, subscriber, paymentToken, refund);
+        GuildPayments.send(paymentToken, subscriber, refund);
+    }
+
+    /// @notice Set the revenue split of the Guild
+    /// @dev Only the guild owner can execute. Replaces the current payees & only applies to future distributions.
+    /// An empty list disables revenue splits
+    /// @param _newPayees revenue split recipients
+    /// @param _shares amount of shares of each payee
+    function setPayees(address[] memory _newPayees, uint256[] memory _shares) external onlyGuildAdmin {
+        require(_newPayees.length == _shares.length, "GuildApp: Payees and shares length mismatch");
+        for (uint256 i = 0; i < _payees.length; i++) {
+            delete shares[_payees[i]];
+        }
+        delete _payees;
+        uint256 total = 0;
+        for (uint256 i = 0; i < _newPayees.length; i++) {
+            require(_newPayees[i] != address(0), "GuildApp: Invalid payee");
+            require(_shares[i] > 0, "GuildApp: Shares must be greater than zero");
+            require(shares[_newPayees[i]] == 0, "GuildApp: Duplicated payee");
+            _payees.push(_newPayees[i]);
+            shares[_newPayees[i]] = _shares[i];
+            total = total.add(_shares[i]);
+        }
+        totalShares = total;
+        emit PayeesUpdated(_newPayees, _shares);
+    }
+
+    /// @notice Split the Guild balance of a token among payees
+    /// @dev Only accounts with the TREASURER_ROLE can execute. Funds are kept in the guild until each payee claims them
+    /// so a failing recipient cannot block the others. Rounding leftovers stay in the guild balance
+    /// @param _tokenAddress token asset to distribute
+    function distribute(
+        address _tokenAddress
+    ) external onlyGuildRole(TREASURER_ROLE, "GuildApp: Sender doesn't have a Treasurer role") {
+        require(_payees.length > 0, "GuildApp: No payees configured");
+        uint256 amount = _guildBalance(_tokenAddress);
+        require(amount > 0, "GuildApp: Nothing to distribute");
+        uint256 distributed = 0;
+        for (uint256 i = 0; i < _payees.length; i++) {
+            address payee = _payees[i];
+            uint256 payment = amount.mul(shares[payee]).div(totalShares);
+            claimable[_tokenAddress][payee] = claimable[_tokenAddress][payee].add(payment);
+            distributed = distributed.add(payment);
+        }
+        _totalClaimable[_tokenAddress] = _totalClaimable[_tokenAddress].add(distributed);
+        emit Distributed(_tokenAddress, distributed);
+    }
+
+    /// @notice Send distributed funds or referral rewards to a payee
+    /// @dev Anyone can execute on behalf of `_payee`
+    /// @param _tokenAddress token asset to claim
+    /// @param _payee payee address
+    function claim(address _tokenAddress, address _payee) external {
+        uint256 amount = claimable[_tokenAddress][_payee];
+        require(amount > 0, "GuildApp: Nothing to claim");
+        claimable[_tokenAddress][_payee] = 0;
+        _totalClaimable[_tokenAddress] = _totalClaimable[_tokenAddress].sub(amount);
+        emit Claimed(_tokenAddress, _payee, amount);
+        GuildPayments.send(_tokenAddress, _payee, amount);
+    }
+
+    /// @notice Update Guild default subscription token and price
+    /// @dev can be executed only by accounts with the PRICE_MANAGER_ROLE and if guild is active.
+    /// Price is set on the default tier. Other accepted tokens keep being accepted for payments
+    /// @param _tokenAddress token to be used as the guild default asset
+    /// @param _newSubPrice new subscription price
+    function updateSubscriptionPrice(
+        address _tokenAddress,
+        uint256 _newSubPrice
+    ) external onlyGuildRole(PRICE_MANAGER_ROLE, "GuildApp: Sender doesn't have a Price Manager role") onlyIfActive {
+        _tiers.acceptToken(_tokenAddress);
+        _approvedTokens.add(_tokenAddress);
+        tokenAddress = _tokenAddress;
+        _tiers.setPrice(0, _tokenAddress, _newSubPrice);
+        emit SubscriptionPriceChanged(tokenAddress, _newSubPrice);
+    }
+
+    /// @notice Accept a new token for subscription payments
+    /// @dev can be executed only by guild owner and if guild is active. Prices are set for every tier
+    /// @param _tokenAddress token to be accepted for payments
+    /// @param _prices subscription price for each tier (by tier ID) denominated in `_tokenAddress`
+    function addPaymentToken(
+        address _tokenAddress,
+        uint256[] memory _prices
+    ) external onlyGuildAdmin onlyIfActive {
+        _tiers.addPaymentToken(_tokenAddress, _prices);
+        _approvedTokens.add(_tokenAddress);
+    }
+
+    /// @notice Stop accepting a token for subscription payments
+    /// @dev can be executed only by guild owner. Existing balances can still be withdrawn
+    /// @param _tokenAddress token to be removed
+    function removePaymentToken(address _tokenAddress) external onlyGuildAdmin {
+        _tiers.removePaymentToken(_tokenAddress, tokenAddress);
+    }
+
+    /// @notice Set the price of a tier for an accepted token
+    /// @dev can be executed only by accounts with the PRICE_MANAGER_ROLE and if guild is active.
+    /// A zero price disables `_tokenAddress` on the tier
+    /// @param _tierId tier ID
+    /// @param _tokenAddress accepted payment token
+    /// @param _price subscription price denominated in `_tokenAddress`
+    function setTokenPrice(
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _price
+    ) external onlyGuildRole(PRICE_MANAGER_ROLE, "GuildApp: Sender doesn't have a Price Manager role") onlyIfActive {
+        _tiers.setPrice(_tierId, _tokenAddress, _price);
+    }
+
+    /// @notice Add a new subscription tier to the Guild
+    /// @dev can be executed only by guild owner and if guild is active
+    /// @param _name tier name (i.e. supporter)
+    /// @param _price tier subscription price denominated in the default token.
+    /// Prices in other accepted tokens are set through `setTokenPrice`
+    /// @param _period tier subscription period in seconds
+    /// @param _cap max amount of subscriptions on the tier. 0 means unlimited
+    function addTier(
+        string memory _name,
+        uint256 _price,
+        uint256 _period,
+        uint256 _cap
+    ) external onlyGuildAdmin onlyIfActive {
+        _tiers.addTier(IGuild.Tier(_name, _price, _period, _cap), tokenAddress);
+    }
+
+    /// @notice Update an existing subscription tier
+    /// @dev can be executed only by guild owner and if guild is active. Changes apply on new subscriptions & renewals
+    /// @param _tierId tier ID
+    /// @param _name tier name
+    /// @param _price tier subscription price denominated in the default token
+    /// @param _period tier subscription period in seconds
+    /// @param _cap max amount of subscriptions on the tier. 0 means unlimited
+    function updateTier(
+        uint256 _tierId,
+        string memory _name,
+        uint256 _price,
+        uint256 _period,
+        uint256 _cap
+    ) external onlyGuildAdmin onlyIfActive {
+        _tiers.updateTier(_tierId, IGuild.Tier(_name, _price, _period, _cap), tokenAddress);
+    }
+
+    /// @notice Set the discount applied when prepaying several subscription periods
+    /// @dev can be executed only by accounts with the PRICE_MANAGER_ROLE and if guild is active.
+    /// Set `_discountBps` to 0 to disable it
+    /// @param _minPeriods minimum number of periods to be eligible for the discount
+    /// @param _discountBps discount in basis points (i.e. 1000 = 10%)
+    function setPeriodDiscount(
+        uint256 _minPeriods,
+        uint256 _discountBps
+    ) external onlyGuildRole(PRICE_MANAGER_ROLE, "GuildApp: Sender doesn't have a Price Manager role") onlyIfActive {
+        _tiers.setPeriodDiscount(_minPeriods, _discountBps);
+    }
+
+    /// @notice Set the time subscriptions keep granting access after they expire
+    /// @dev can be executed only by guild owner. Renewals done during the grace period are stacked on top of the expiration
+    /// @param _gracePeriod grace period in seconds. 0 disables it
+    function setGracePeriod(uint256 _gracePeriod) external onlyGuildAdmin {
+        gracePeriod = _gracePeriod;
+        emit GracePeriodUpdated(_gracePeriod);
+    }
+
+    /// @notice Set the refund policy applied when subscribers cancel
+    /// @dev can be executed only by guild owner. Refunds are paid in the token used for the subscription
+    /// @param _policy None, Prorated (unused time is refunded) or FullWithinWindow
+    /// @param _refundWindow time in seconds after a payment it is fully refundable. Only used by FullWithinWindow
+    function setRefundPolicy(IGuild.RefundPolicy _policy, uint256 _refundWindow) external onlyGuildAdmin {
+        require(_policy != IGuild.RefundPolicy.FullWithinWindow || _refundWindow > 0, "GuildApp: Invalid refund window");
+        refundPolicy = _policy;
+        refundWindow = _refundWindow;
+        emit RefundPolicyUpdated(_policy, _refundWindow);
+    }
+
+    /// @notice Approve the transfer of a subscription to `_to`
+    /// @dev can be executed only by guild owner. Only required by guilds using the OwnerApproved transfer policy.
+    /// The approval is consumed by the transfer
+    /// @param _tokenId subscription ID
+    /// @param _to approved recipient. 0x revokes a previous approval
+    function approveSubscriptionTransfer(uint256 _tokenId, address _to) external onlyGuildAdmin {
+        require(transferPolicy == IGuild.TransferPolicy.OwnerApproved, "GuildApp: Transfers do not require approval");
+        require(_exists(_tokenId), "GuildApp: Subscription does not exist");
+        approvedTransfers[_tokenId] = _to;
+        emit SubscriptionTransferApproved(_tokenId, _to);
+    }
+
+    /// @notice Set Guild Metadata ID
+    /// @dev Only accounts with the METADATA_EDITOR_ROLE can execute
+    /// @param _metadataCID new metadata CID
+    function setMetadata(
+        string memory _metadataCID
+    ) external onlyGuildRole(METADATA_EDITOR_ROLE, "GuildApp: Sender doesn't have a Metadata Editor role") onlyIfActive {
+        metadataCID = _metadataCID;
+        emit UpdatedMetadata(_metadataURI());
+    }
+
+    /// @notice Make the guild invite-only
+    /// @dev can be executed only by guild owner. Rotating the root does not affect existing members.
+    /// A zero root opens the guild to anyone
+    /// @param _root merkle root of the invited accounts. Leaves are `keccak256(abi.encodePacked(account))`
+    /// @param _listCID CID of the invited accounts list stored on i.e. IPFS. Used off chain to build proofs
+    function setAllowlist(bytes32 _root, string calldata _listCID) external onlyGuildAdmin {
+        allowlistRoot = _root;
+        emit AllowlistUpdated(_root, _listCID);
+    }
+
+    /// @notice Limit the amount of members the Guild can hold
+    /// @dev can be executed only by guild owner. Lowering the cap below the current amount of members does not
+    /// affect existing subscriptions, it only blocks new ones until seats are released
+    /// @param _maxMembers max amount of subscriptions held across all tiers. 0 means unlimited
+    function setMaxMembers(uint256 _maxMembers) external onlyGuildAdmin {
+        maxMembers = _maxMembers;
+        emit MaxMembersUpdated(_maxMembers);
+    }
+
+    /// @notice Grandfather subscription prices
+    /// @dev can be executed only by guild owner. When enabled, renewals on the same tier & token are charged at the
+    /// price locked when the subscription started, as long as it has not lapsed & the locked price is lower
+    /// @param _enabled whether renewals honour locked prices
+    function setGrandfatheredPricing(bool _enabled) external onlyGuildAdmin {
+        grandfatheredPricing = _enabled;
+        emit GrandfatheredPricingUpdated(_enabled);
+    }
+
+    /// @notice Set the limits for members to freeze their subscriptions
+    /// @dev can be executed only by guild owner
+    /// @param _maxFreezeDuration max amount of seconds a subscription can stay frozen. 0 disables freezing
+    /// @param _maxFreezes max amount of times each subscription can be frozen. 0 means unlimited
+    function setFreezePolicy(uint256 _maxFreezeDuration, uint256 _maxFreezes) external onlyGuildAdmin {
+        maxFreezeDuration = _maxFreezeDuration;
+        maxFreezes = _maxFreezes;
+        emit FreezePolicyUpdated(_maxFreezeDuration, _maxFreezes);
+    }
+
+    /// @notice Set the rewards members get for referring new members
+    /// @dev can be executed only by guild owner
+    /// @param _rewardBps share of the first payment of a referred member paid to its referrer, in basis points
+    /// @param _bonusDuration amount of seconds added to the referrer subscription for each referred member
+    function setReferralPolicy(uint256 _rewardBps, uint256 _bonusDuration) external onlyGuildAdmin {
+        require(_rewardBps <= BPS_DENOMINATOR, "GuildApp: Invalid referral reward");
+        referralRewardBps = _rewardBps;
+        referralBonusDuration = _bonusDuration;
+        emit ReferralPolicyUpdated(_rewardBps, _bonusDuration);
+    }
+
+    /// @notice Freeze an active subscription keeping its member number
+    /// @dev Only the subscription owner can execute. The subscription stops granting access & cannot be renewed
+    /// until it is unfrozen. Its remaining time is restored when unfrozen
+    /// @param _tokenId Subscription ID
+    function freezeSubscription(uint256 _tokenId) external onlyIfActive {
+        require(_msgSender() == ownerOf(_tokenId), "GuildApp: Caller is not the owner of the subscription");
+        require(maxFreezeDuration > 0, "GuildApp: Freezing is disabled");
+        Subscription storage subs = subscriptionByOwner[_msgSender()];
+        require(subs.frozenAt == 0, "GuildApp: Subscription is frozen");
+        require(subs.expirationTimestamp > block.timestamp, "GuildApp: Subscription is not active");
+        require(maxFreezes == 0 || subs.freezes < maxFreezes, "GuildApp: Freeze limit reached");
+        subs.frozenAt = block.timestamp;
+        subs.resumeAt = block.timestamp.add(maxFreezeDuration);
+        subs.freezes = subs.freezes.add(1);
+        emit SubscriptionFrozen(_tokenId, subs.expirationTimestamp.sub(block.timestamp), subs.resumeAt);
+    }
+
+    /// @notice Unfreeze a subscription restoring its remaining time from now
+    /// @dev Only the subscription owner can execute until the max freeze duration in force when it was frozen
+    /// has passed. From then on anyone can execute & the subscription is resumed as if it was unfrozen at that time
+    /// @param _tokenId Subscription ID
+    function unfreezeSubscription(uint256 _tokenId) external {
+        Subscription storage subs = subscriptionByOwner[ownerOf(_tokenId)];
+        require(subs.frozenAt > 0, "GuildApp: Subscription is not frozen");
+        uint256 resumeAt = subs.resumeAt;
+        if (resumeAt > block.timestamp) {
+            require(_msgSender() == ownerOf(_tokenId), "GuildApp: Caller is not the owner of the subscription");
+            resumeAt = block.timestamp;
+        }
+        // shift the subscription & its refundable range by the time it was frozen
+        uint256 frozenFor = resumeAt.sub(subs.frozenAt);
+        subs.expirationTimestamp = subs.expirationTimestamp.add(frozenFor);
+        subs.paidFrom = subs.paidFrom.add(frozenFor);
+        subs.frozenAt = 0;
+        subs.resumeAt = 0;
+        emit SubscriptionUnfrozen(_tokenId, subs.expirationTimestamp);
+    }
+
+    /// @notice Unsubscribe to the Guild
+    /// @dev NFT token is burned. The unused portion of the subscription is refunded according to the guild refund policy,
+    /// up to the guild balance left. Cancelling never fails for lack of funds
+    /// @param _tokenId Subscription ID
+    function unsubscribe(uint256 _tokenId) external {
+        require(_exists(_tokenId), "GuildApp: Subscription does not exist");
+        address subscriber = _msgSender();
+        require(subscriber == ownerOf(_tokenId), "GuildApp: Caller is not the owner of the subscription");
+        require(_closingRefunds[_tokenId] == 0 && (closedAt == 0 || _closingCursor == _nextId),
+                "GuildApp: Closing refund has not been claimed");
+        require(subscriptionByOwner[subscriber].frozenAt == 0, "GuildApp: Subscription is frozen");
+        uint256 refund = _refundableAmount(_tokenId);
+        address paymentToken = subscriptionByOwner[subscriber].paymentToken;
+        _burn(_tokenId);
+        emit Unsubscribed(_tokenId);
+        if (refund > 0) {
+            emit Refunded(_tokenId, subscriber, paymentToken, refund);
+            GuildPayments.send(paymentToken, subscriber, refund);
+        }
+    }
+
+    /// @notice Upgrade the Guild to a newer template version
+    /// @dev can be executed only by guild owner and only on guilds deployed through `GuildFactory.createUpgradeableGuild`.
+    /// Versions are published by the factory owner
+    /// @param _version template version to run
+    function upgradeToVersion(uint256 _version) external onlyGuildAdmin {
+        address beacon = GuildVersions.beacon();
+        require(beacon != address(0), "GuildApp: Guild is not upgradeable");
+        require(_version > GuildVersions.version(), "GuildApp: Invalid version");
+        address template = IGuildVersionRegistry(beacon).templateVersions(_version);
+        require(template != address(0), "GuildApp: Invalid version");
+        GuildVersions.setVersion(_version);
+        emit Upgraded(_version, template);
+    }
+}
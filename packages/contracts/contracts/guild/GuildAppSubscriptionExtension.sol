@@ -0,0 +1,447 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+pragma abicoder v2;
+
+import "@openzeppelin/contracts-upgradeable/cryptography/MerkleProofUpgradeable.sol";
+
+import "../interfaces/IAllowanceModule.sol";
+import "../interfaces/IGuild.sol";
+import "../libraries/GuildPayments.sol";
+import "../libraries/GuildTiers.sol";
+import "../libraries/GuildVouchers.sol";
+import "./GuildAppBase.sol";
+
+/// @title GuildAppSubscriptionExtension Contract
+/// @author RaidGuild
+/// @notice Subscription payment functions
+/// @dev GuildApp delegatecalls into this contract to keep its own bytecode under the contract size limit.
+/// It MUST NOT be used directly as it operates on the calling GuildApp storage
+contract GuildAppSubscriptionExtension is GuildAppBase {
+    using EnumerableSetUpgradeable for EnumerableSetUpgradeable.AddressSet;
+    using SafeMathUpgradeable for uint256;
+    using GuildTiers for GuildTiers.Data;
+
+    /// @notice New subscription to the Guild
+    /// @dev Accepts contributions from EOA and Safes w/ enabledAllowanceModule.
+    /// @param _subscriber Account address
+    /// @param _tierId subscription tier
+    /// @param _tokenAddress accepted token used for payment
+    // /// @param _tokenURI deprecated. Subscription metadata is generated on chain by `tokenURI`
+    /// @param _value subsription payment value send by a user
+    /// @param _data allowance Tx signature used by the safe AllowanceModule
+    function subscribe(
+        address _subscriber,
+        uint256 _tierId,
+        address _tokenAddress,
+        string memory /*_tokenURI*/,
+        uint256 _value,
+        bytes memory _data
+    ) external payable onlyIfActive onlyInvited(_subscriber) {
+        uint256 cost = _subscriptionCost(_subscriber, _tierId, _tokenAddress, 1);
+        _subscribe(_subscriber, _subscriber, _tierId, _tokenAddress, 1, _value, _data, cost, address(0));
+    }
+
+    /// @notice New subscription to the Guild prepaying several periods
+    /// @dev Accepts contributions from EOA and Safes w/ enabledAllowanceModule.
+    /// The guild multi-period discount is applied if `_periods` is high enough
+    /// @param _subscriber Account address
+    /// @param _tierId subscription tier
+    /// @param _tokenAddress accepted token used for payment
+    // /// @param _tokenURI deprecated. Subscription metadata is generated on chain by `tokenURI`
+    /// @param _periods number of subscription periods to pay for
+    /// @param _value subsription payment value send by a user
+    /// @param _data allowance Tx signature used by the safe AllowanceModule
+    function subscribeForPeriods(
+        address _subscriber,
+        uint256 _tierId,
+        address _tokenAddress,
+        string memory /*_tokenURI*/,
+        uint256 _periods,
+        uint256 _value,
+        bytes memory _data
+    ) external payable onlyIfActive onlyInvited(_subscriber) {
+        uint256 cost = _subscriptionCost(_subscriber, _tierId, _tokenAddress, _periods);
+        _subscribe(_subscriber, _subscriber, _tierId, _tokenAddress, _periods, _value, _data, cost, address(0));
+    }
+
+    /// @notice Join an invite-only Guild
+    /// @dev Accepts contributions from EOA and Safes w/ enabledAllowanceModule.
+    /// `_subscriber` MUST be included in the guild allowlist
+    /// @param _subscriber Account address
+    /// @param _tierId subscription tier
+    /// @param _tokenAddress accepted token used for payment
+    /// @param _periods number of subscription periods to pay for
+    /// @param _value subsription payment value send by a user
+    /// @param _data allowance Tx signature used by the safe AllowanceModule
+    /// @param _proof merkle proof of `_subscriber` against `allowlistRoot`
+    function subscribeWithProof(
+        address _subscriber,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods,
+        uint256 _value,
+        bytes memory _data,
+        bytes32[] memory _proof
+    ) external payable onlyIfActive {
+        _checkProof(_subscriber, _proof);
+        uint256 cost = _subscriptionCost(_subscriber, _tierId, _tokenAddress, _periods);
+        _subscribe(_subscriber, _subscriber, _tierId, _tokenAddress, _periods, _value, _data, cost, address(0));
+    }
+
+    /// @dev revert if the guild is invite-only & `_subscriber` is neither a member nor included in the allowlist
+    /// @param _subscriber Account address
+    /// @param _proof merkle proof of `_subscriber` against `allowlistRoot`. Ignored for existing members
+    function _checkProof(address _subscriber, bytes32[] memory _proof) private view {
+        if (allowlistRoot != bytes32(0) && subscriptionByOwner[_subscriber].tokenId == 0) {
+            require(MerkleProofUpgradeable.verify(_proof, allowlistRoot, keccak256(abi.encodePacked(_subscriber))),
+                    "GuildApp: Account is not invited");
+        }
+    }
+
+    /// @notice New subscription to the Guild referred by an existing member
+    /// @dev Accepts contributions from EOA and Safes w/ enabledAllowanceModule.
+    /// `_referrer` is only credited on the first subscription of `_subscriber`. Self referrals & referrers
+    /// without a subscription are ignored
+    /// @param _subscriber Account address
+    /// @param _tierId subscription tier
+    /// @param _tokenAddress accepted token used for payment
+    /// @param _periods number of subscription periods to pay for
+    /// @param _value subsription payment value send by a user
+    /// @param _data allowance Tx signature used by the safe AllowanceModule
+    /// @param _referrer member that referred `_subscriber`
+    function subscribeWithReferrer(
+        address _subscriber,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods,
+        uint256 _value,
+        bytes memory _data,
+        address _referrer
+    ) external payable onlyIfActive onlyInvited(_subscriber) {
+        bool referred = subscriptionByOwner[_subscriber].tokenId == 0 &&
+            referrerOf[_subscriber] == address(0) &&
+            _referrer != _subscriber &&
+            subscriptionByOwner[_referrer].tokenId > 0;
+        uint256 cost = _subscriptionCost(_subscriber, _tierId, _tokenAddress, _periods);
+        _subscribe(_subscriber, _subscriber, _tierId, _tokenAddress, _periods, _value, _data, cost, _referrer);
+        if (referred) {
+            _creditReferral(_referrer, _subscriber, _tokenAddress);
+        }
+    }
+
+    /// @dev credit `_referrer` its share of the first payment of `_subscriber` & extend its subscription.
+    /// The reward is deducted from the refundable value of `_subscriber` & becomes claimable by `_referrer`.
+    /// Only active subscriptions are extended & bonus time is never refunded
+    /// @param _referrer member that referred `_subscriber`
+    /// @param _subscriber new member
+    /// @param _tokenAddress payment token
+    function _creditReferral(address _referrer, address _subscriber, address _tokenAddress) private {
+        referrerOf[_subscriber] = _referrer;
+        Subscription storage subs = subscriptionByOwner[_subscriber];
+        uint256 reward = subs.paidValue.mul(referralRewardBps).div(BPS_DENOMINATOR);
+        subs.paidValue = subs.paidValue.sub(reward);
+        Subscription storage referrerSubs = subscriptionByOwner[_referrer];
+        uint256 bonus = referrerSubs.frozenAt == 0 && referrerSubs.expirationTimestamp > block.timestamp
+            ? referralBonusDuration
+            : 0;
+        referrerSubs.expirationTimestamp = referrerSubs.expirationTimestamp.add(bonus);
+        referrerSubs.bonusTime = referrerSubs.bonusTime.add(bonus);
+        // rewards are pulled by the referrer so it can't block the subscription of `_subscriber`
+        claimable[_tokenAddress][_referrer] = claimable[_tokenAddress][_referrer].add(reward);
+        _totalClaimable[_tokenAddress] = _totalClaimable[_tokenAddress].add(reward);
+        emit ReferralCredited(_referrer, referrerSubs.tokenId, _subscriber, _tokenAddress, reward, bonus,
+                              referrerSubs.expirationTimestamp);
+    }
+
+    /// @notice New subscription or renewal paid at the price of a discount voucher
+    /// @dev Accepts contributions from EOA and Safes w/ enabledAllowanceModule.
+    /// `_voucher` MUST be signed by a guild admin & is consumed once per call
+    /// @param _subscriber Account address
+    /// @param _tierId subscription tier
+    /// @param _tokenAddress accepted token used for payment
+    /// @param _periods number of subscription periods to pay for
+    /// @param _value subsription payment value send by a user
+    /// @param _data allowance Tx signature used by the safe AllowanceModule
+    /// @param _voucher voucher terms
+    /// @param _signature EIP-712 signature of `_voucher`
+    /// @param _proof merkle proof of `_subscriber` required to join invite-only guilds. Empty otherwise
+    function subscribeWithVoucher(
+        address _subscriber,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods,
+        uint256 _value,
+        bytes memory _data,
+        IGuild.Voucher memory _voucher,
+        bytes memory _signature,
+        bytes32[] memory _proof
+    ) external payable onlyIfActive {
+        _checkProof(_subscriber, _proof);
+        uint256 cost = _redeemVoucher(_voucher, _signature, _subscriber, _tierId, _tokenAddress, _periods);
+        _subscribe(_subscriber, _subscriber, _tierId, _tokenAddress, _periods, _value, _data, cost, address(0));
+    }
+
+    /// @dev redeem a voucher signed by a guild admin
+    /// @param _voucher voucher terms
+    /// @param _signature EIP-712 signature of `_voucher`
+    /// @param _subscriber account redeeming the voucher
+    /// @param _tierId subscription tier
+    /// @param _tokenAddress payment token
+    /// @param _periods number of subscription periods to pay for
+    /// @return cost discounted subscription cost
+    function _redeemVoucher(
+        IGuild.Voucher memory _voucher,
+        bytes memory _signature,
+        address _subscriber,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods
+    ) private returns (uint256 cost) {
+        require(_voucher.tierId == _tierId, "GuildApp: Voucher is not valid for this tier");
+        bytes32 digest;
+        address signer;
+        (digest, signer, cost) = GuildVouchers.redeem(
+            voucherRedemptions, _voucher, _signature, _subscriber, _tokenAddress, _periods,
+            _subscriptionCost(_subscriber, _tierId, _tokenAddress, _periods)
+        );
+        require(hasRole(DEFAULT_ADMIN_ROLE, signer), "GuildApp: Voucher is not signed by a guild admin");
+        emit VoucherRedeemed(digest, _subscriber, cost);
+    }
+
+    /// @notice New subscription to the Guild approving the payment token with a signed permit
+    /// @dev Only available for ERC20 tokens supporting EIP-2612 or DAI-style permits, so contributors
+    /// can subscribe in a single transaction
+    /// @param _subscriber Account address. MUST be the sender & the permit signer
+    /// @param _tierId subscription tier
+    /// @param _tokenAddress accepted token used for payment
+    /// @param _periods number of subscription periods to pay for
+    /// @param _value subsription payment value approved by the permit
+    /// @param _permit permit signature of `_subscriber` allowing the guild to spend `_value`
+    function subscribeWithPermit(
+        address _subscriber,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods,
+        uint256 _value,
+        IGuild.Permit memory _permit
+    ) external onlyIfActive onlyInvited(_subscriber) {
+        GuildPayments.permit(_tokenAddress, _subscriber, _value, _permit);
+        uint256 cost = _subscriptionCost(_subscriber, _tierId, _tokenAddress, _periods);
+        _subscribe(_subscriber, _subscriber, _tierId, _tokenAddress, _periods, _value, "", cost, address(0));
+    }
+
+    /// @notice Gift a subscription to `_recipient` paid by the sender
+    /// @dev Payment is collected from msg.sender. Renews the subscription if `_recipient` already owns one.
+    /// Refunds on cancellation are paid to the subscription owner
+    /// @param _recipient account receiving the subscription
+    /// @param _tierId subscription tier
+    /// @param _tokenAddress accepted token used for payment
+    /// @param _periods number of subscription periods to pay for
+    /// @param _value subsription payment value send by the payer
+    /// @param _messageCID CID of an optional gift message stored on i.e. IPFS
+    function giftSubscription(
+        address _recipient,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods,
+        uint256 _value,
+        string calldata _messageCID
+    ) external payable onlyIfActive {
+        _checkInvited(_recipient);
+        uint256 cost = _subscriptionCost(_recipient, _tierId, _tokenAddress, _periods);
+        uint256 expiry = _subscribe(_msgSender(), _recipient, _tierId, _tokenAddress, _periods, _value, "", cost, address(0));
+        emit SubscriptionGifted(_msgSender(), _recipient, subscriptionByOwner[_recipient].tokenId, expiry, _messageCID);
+    }
+
+    /// @dev process a new subscription or renewal for `_periods` periods and collect its payment.
+    /// The protocol fee is forwarded to the factory fee recipient & is not refundable
+    /// @param _payer account paying for the subscription. Same as `_subscriber` unless it is a gift
+    /// @param _subscriber Account address
+    /// @param _tierId subscription tier
+    /// @param _tokenAddress accepted token used for payment
+    /// @param _periods number of subscription periods to pay for
+    /// @param _value subsription payment value send by a user
+    /// @param _data allowance Tx signature used by the safe AllowanceModule
+    /// @param _cost minimum payment required
+    /// @param _referrer referrer passed by the caller. Bound to the Safe signature
+    /// @return expiry new subscription expiration timestamp
+    function _subscribe(
+        address _payer,
+        address _subscriber,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods,
+        uint256 _value,
+        bytes memory _data,
+        uint256 _cost,
+        address _referrer
+    ) private returns (uint256 expiry) {
+        if (_data.length == 0) {  // condition if not using a safe
+            require(_payer == _msgSender(), "GuildApp: msg.sender must be the subscriber");
+            _checkMsgValue(_tokenAddress, _value);
+        } else {
+            require(msg.value == 0,
+                    "GuildApp: ETH should be transferred via AllowanceModule");
+            // the signature is bound to the called function so it cannot be replayed through another entry point
+            GuildPayments.useSafeSignature(
+                _safeNonces,
+                _payer,
+                IGuild.SafeSubscription(msg.sig, _tierId, _tokenAddress, _periods, _value, _referrer),
+                _data
+            );
+        }
+        require(_value >= _cost, "GuildApp: Insufficient value sent");
+        uint256 duration = _tiers.tiers[_tierId].period.mul(_periods);
+        (address feeRecipient, uint256 fee) = _protocolFee(_value);
+        Subscription storage subs = subscriptionByOwner[_subscriber];
+        if (subs.tokenId == 0) {
+            require(maxMembers == 0 || _tiers.totalMembers() < maxMembers, "GuildApp: Guild is full");
+            _tiers.join(_tierId);
+            _nextId = _nextId.add(1);
+            subs.tokenId = _nextId;
+            subs.tierId = _tierId;
+            _safeMint(_subscriber, subs.tokenId);
+            expiry = _extendSubscription(_subscriber, duration, _tokenAddress, _value.sub(fee));
+            emit NewSubscription(_subscriber, subs.tokenId, _tierId, _tokenAddress, _value, fee, expiry, _data);
+        } else {
+            if (subs.tierId != _tierId) { // tier upgrade/downgrade on renewal
+                require(subs.expirationTimestamp < block.timestamp, "GuildApp: Cannot change tier on an active subscription");
+                if (!subs.seatReleased) { // released seats are booked on the new tier when extended
+                    _tiers.leave(subs.tierId);
+                    _tiers.join(_tierId);
+                }
+                subs.tierId = _tierId;
+                subs.lockedPrice = 0;
+            }
+            expiry = _extendSubscription(_subscriber, duration, _tokenAddress, _value.sub(fee));
+            emit RenewSubscription(_subscriber, subs.tokenId, _tierId, _tokenAddress, _value, fee, expiry, _data);
+        }
+        _collectPayment(_payer, _tokenAddress, _value, _data, feeRecipient, fee);
+    }
+
+    /// @dev get the protocol fee charged by the guild factory on a payment
+    /// @param _value payment amount
+    /// @return recipient fee recipient
+    /// @return fee amount of `_value` to be sent to `recipient`
+    function _protocolFee(uint256 _value) private view returns (address recipient, uint256 fee) {
+        return GuildPayments.protocolFee(factory, _value);
+    }
+
+    /// @dev revert if msg.value does not match a payment of `_value` in `_tokenAddress`
+    /// @param _tokenAddress payment token. ETH is paid through msg.value
+    /// @param _value payment value
+    function _checkMsgValue(address _tokenAddress, uint256 _value) private view {
+        require((_tokenAddress != address(0) && msg.value == 0) ||
+                (_tokenAddress == address(0) && msg.value == _value),
+                "GuildApp: incorrect msg.value");
+    }
+
+    /// @notice Renew an existing subscription for a number of periods
+    /// @dev Anyone can pay for the renewal (i.e. as a gift). Payment is done in the guild default token
+    /// at the subscription tier price, either sending ETH or through an ERC20 allowance from msg.sender.
+    /// New periods are stacked on top of the current expiration if the subscription is still active
+    /// @param _tokenId subscription ID
+    /// @param _periods number of subscription periods to pay for
+    function renew(uint256 _tokenId, uint256 _periods) external payable onlyIfActive {
+        require(_exists(_tokenId), "GuildApp: Subscription does not exist");
+        address subscriber = ownerOf(_tokenId);
+        uint256 tierId = subscriptionByOwner[subscriber].tierId;
+        uint256 cost = _subscriptionCost(subscriber, tierId, tokenAddress, _periods);
+        _checkMsgValue(tokenAddress, cost);
+        (address feeRecipient, uint256 fee) = _protocolFee(cost);
+        uint256 expiry = _extendSubscription(subscriber, _tiers.tiers[tierId].period.mul(_periods), tokenAddress, cost.sub(fee));
+        emit RenewSubscription(subscriber, _tokenId, tierId, tokenAddress, cost, fee, expiry, "");
+        _collectPayment(_msgSender(), tokenAddress, cost, "", feeRecipient, fee);
+    }
+
+    /// @notice Renew the subscriptions of Safe subscribers for one period through the AllowanceModule
+    /// @dev Meant to be called by relayers. Each subscription is renewed on its current tier & last payment token
+    /// if it expires within `RENEWAL_WINDOW` seconds. Subscriptions that cannot be renewed are skipped &
+    /// reported through `RenewalFailed` instead of reverting the whole batch
+    /// @param _subscribers Safe subscribers with an allowance set for the guild
+    function renewBatch(address[] calldata _subscribers) external onlyIfActive {
+        require(_allowanceModule != address(0), "GuildApp: Guild does not support Safe Allowances");
+        for (uint256 i = 0; i < _subscribers.length; i++) {
+            _renewFromAllowance(_subscribers[i]);
+        }
+    }
+
+    /// @dev renew a subscription for one period pulling its payment from the subscriber Safe allowance
+    /// @param _subscriber Safe subscriber
+    function _renewFromAllowance(address _subscriber) private {
+        Subscription storage subs = subscriptionByOwner[_subscriber];
+        address paymentToken = subs.paymentToken;
+        string memory error;
+        if (subs.tokenId == 0) {
+            error = "GuildApp: Subscription does not exist";
+        } else if (subs.frozenAt > 0) {
+            error = "GuildApp: Subscription is frozen";
+        } else if (subs.expirationTimestamp > block.timestamp.add(RENEWAL_WINDOW)) {
+            error = "GuildApp: Subscription is not due for renewal";
+        } else if (!_tiers.acceptedTokens.contains(paymentToken) || _tiers.prices[subs.tierId][paymentToken] == 0) {
+            error = "GuildApp: Tier is not available for token";
+        } else if (subs.seatReleased && _tiers.remainingSeats(subs.tierId, maxMembers) == 0) {
+            error = "GuildApp: Tier is full";
+        }
+        if (bytes(error).length > 0) {
+            emit RenewalFailed(_subscriber, abi.encodeWithSignature("Error(string)", error));
+            return;
+        }
+        uint256 cost = _subscriptionCost(_subscriber, subs.tierId, paymentToken, 1);
+        require(cost <= type(uint96).max, "GuildApp: Value exceeds uint96");
+        try IAllowanceModule(_allowanceModule).executeAllowanceTransfer(
+            _subscriber,
+            paymentToken,
+            payable(address(this)),
+            uint96(cost),
+            address(0),
+            0,
+            address(this),
+            ""
+        ) {
+            (address feeRecipient, uint256 fee) = _protocolFee(cost);
+            uint256 expiry = _extendSubscription(_subscriber, _tiers.tiers[subs.tierId].period, paymentToken, cost.sub(fee));
+            emit RenewSubscription(_subscriber, subs.tokenId, subs.tierId, paymentToken, cost, fee, expiry, "");
+            if (fee > 0) {
+                GuildPayments.send(paymentToken, feeRecipient, fee);
+            }
+        } catch (bytes memory reason) {
+            emit RenewalFailed(_subscriber, reason);
+        }
+    }
+
+    /// @notice Send a one-time tip to the guild without subscribing
+    /// @dev Payment is collected from msg.sender. The protocol fee is charged as on subscriptions
+    /// @param _tokenAddress approved token used for payment
+    /// @param _amount tip amount
+    /// @param _messageCID CID of an optional tip message stored on i.e. IPFS
+    function tip(address _tokenAddress, uint256 _amount, string calldata _messageCID) external payable onlyIfActive {
+        require(_approvedTokens.contains(_tokenAddress), "GuildApp: Token has not been approved");
+        require(_amount > 0, "GuildApp: Tip amount must be greater than 0");
+        _checkMsgValue(_tokenAddress, _amount);
+        (address feeRecipient, uint256 fee) = _protocolFee(_amount);
+        emit Tipped(_msgSender(), _tokenAddress, _amount, fee, _messageCID);
+        _collectPayment(_msgSender(), _tokenAddress, _amount, "", feeRecipient, fee);
+    }
+
+    /// @notice Release the seat held by a subscription that lapsed so new members can take it
+    /// @dev Anyone can release seats once the subscription is past its grace period. Frozen subscriptions keep
+    /// their seat. The seat is booked again when the subscription is renewed, if there's still room
+    /// @param _tokenId subscription ID
+    function releaseSeat(uint256 _tokenId) external {
+        Subscription storage subs = subscriptionByOwner[ownerOf(_tokenId)];
+        require(!subs.seatReleased && subs.frozenAt == 0 && subs.expirationTimestamp.add(gracePeriod) <= block.timestamp,
+                "GuildApp: Seat cannot be released");
+        subs.seatReleased = true;
+        _tiers.leave(subs.tierId);
+        emit SeatReleased(_tokenId, subs.tierId);
+    }
+
+    /// @notice Join the waitlist of a sold out tier
+    /// @dev Only emits `WaitlistJoined` so guild admins can reach out when seats are released
+    /// @param _tierId subscription tier
+    function joinWaitlist(uint256 _tierId) external onlyIfActive {
+        require(_tiers.remainingSeats(_tierId, maxMembers) == 0, "GuildApp: Seats are still available");
+        emit WaitlistJoined(_msgSender(), _tierId);
+    }
+}
@@ -4,9 +4,14 @@ pragma solidity ^0.7.0;
 interface IGnosisSafe {
     function NAME() external view returns (string calldata);
     function isOwner(address owner) external view returns (bool);
+    function getThreshold() external view returns (uint256);
     function signatureSplit(bytes memory signatures, uint256 pos) external pure returns (
         uint8,
         bytes32,
         bytes32
     );
-}
\ No newline at end of file
+    /// @dev EIP-1271 signature validation. Served by the Safe CompatibilityFallbackHandler
+    function isValidSignature(bytes32 _dataHash, bytes calldata _signature) external view returns (bytes4);
+    /// @dev legacy EIP-1271 signature validation implemented by the Safe itself up to v1.2.0
+    function isValidSignature(bytes calldata _data, bytes calldata _signature) external view returns (bytes4);
+}
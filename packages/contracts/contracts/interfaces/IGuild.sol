@@ -13,42 +13,238 @@ interface IGuild is IERC721Upgradeable {
         string metadataCID;
     }
 
+    enum SubscriptionStatus { Expired, Active, InGrace }
+
+    enum RefundPolicy { None, Prorated, FullWithinWindow }
+
+    enum TransferPolicy { Transferable, OwnerApproved, Soulbound }
+
+    struct Tier {
+        string name;
+        uint256 price;
+        uint256 period;
+        uint256 cap;
+    }
+
+    /// @dev EIP-712 discount voucher signed by a guild admin, only valid for subscriptions to `tierId`.
+    /// Applies `discountBps` to the subscription cost, or a `fixedPrice` per period in `tokenAddress` if no discount is set
+    struct Voucher {
+        uint256 tierId;
+        uint256 discountBps;
+        address tokenAddress;
+        uint256 fixedPrice;
+        uint256 maxUses;
+        uint256 expiry;
+        address recipient;
+        bytes32 salt;
+    }
+
+    /// @dev Signed ERC20 permit. `daiStyle` permits approve an unlimited allowance & use `nonce` as in DAI,
+    /// otherwise EIP-2612 is used & `nonce` is ignored
+    struct Permit {
+        bool daiStyle;
+        uint256 nonce;
+        uint256 deadline;
+        uint8 v;
+        bytes32 r;
+        bytes32 s;
+    }
+
+    /// @dev subscription terms signed by a Safe paying through its allowance. `entryPoint` is the selector of the
+    /// subscribe function called with the signature & `referrer` the one passed to `subscribeWithReferrer`
+    struct SafeSubscription {
+        bytes4 entryPoint;
+        uint256 tierId;
+        address tokenAddress;
+        uint256 periods;
+        uint256 value;
+        address referrer;
+    }
+
     function initialized() external view returns (bool);
 
     function initialize(address _creator,
                         address _tokenAddress,
-                        uint256 _subPrice,
-                        uint256 _subscriptionPeriod,
+                        Tier[] calldata _tiers,
                         GuildMetadata calldata _metadata,
-                        address allowanceModule
+                        address allowanceModule,
+                        TransferPolicy _transferPolicy
                         ) external;
 
     function pauseGuild(bool pause) external;
 
+    function closeGuild() external;
+
+    function processClosingRefunds(uint256 _count) external;
+
+    function claimClosingRefund(uint256 _tokenId) external;
+
+    function setFreezePolicy(uint256 _maxFreezeDuration, uint256 _maxFreezes) external;
+
+    function setReferralPolicy(uint256 _rewardBps, uint256 _bonusDuration) external;
+
+    function freezeSubscription(uint256 _tokenId) external;
+
+    function unfreezeSubscription(uint256 _tokenId) external;
+
     function withdraw(address _tokenAddress, uint256 _amount, address _beneficiary) external;
 
+    function setPayees(address[] calldata _payees, uint256[] calldata _shares) external;
+
+    function distribute(address _tokenAddress) external;
+
+    function claim(address _tokenAddress, address _payee) external;
+
+    function payees() external view returns (address[] memory);
+
     function updateSubscriptionPrice(address _tokenAddress, uint256 _newSubPrice) external;
 
-    function subscribe(address _subscriber, string calldata _tokenURI, uint256 _value, bytes calldata _data) external payable;
+    function addPaymentToken(address _tokenAddress, uint256[] calldata _prices) external;
+
+    function removePaymentToken(address _tokenAddress) external;
+
+    function setTokenPrice(uint256 _tierId, address _tokenAddress, uint256 _price) external;
+
+    function addTier(string calldata _name, uint256 _price, uint256 _period, uint256 _cap) external;
+
+    function updateTier(uint256 _tierId, string calldata _name, uint256 _price, uint256 _period, uint256 _cap) external;
+
+    function subscribe(address _subscriber,
+                       uint256 _tierId,
+                       address _tokenAddress,
+                       string calldata _tokenURI,
+                       uint256 _value,
+                       bytes calldata _data
+                       ) external payable;
+
+    function subscribeForPeriods(address _subscriber,
+                                 uint256 _tierId,
+                                 address _tokenAddress,
+                                 string calldata _tokenURI,
+                                 uint256 _periods,
+                                 uint256 _value,
+                                 bytes calldata _data
+                                 ) external payable;
+
+    function subscribeWithProof(address _subscriber,
+                                uint256 _tierId,
+                                address _tokenAddress,
+                                uint256 _periods,
+                                uint256 _value,
+                                bytes calldata _data,
+                                bytes32[] calldata _proof
+                                ) external payable;
+
+    function subscribeWithReferrer(address _subscriber,
+                                   uint256 _tierId,
+                                   address _tokenAddress,
+                                   uint256 _periods,
+                                   uint256 _value,
+                                   bytes calldata _data,
+                                   address _referrer
+                                   ) external payable;
+
+    function subscribeWithVoucher(address _subscriber,
+                                  uint256 _tierId,
+                                  address _tokenAddress,
+                                  uint256 _periods,
+                                  uint256 _value,
+                                  bytes calldata _data,
+                                  Voucher calldata _voucher,
+                                  bytes calldata _signature,
+                                  bytes32[] calldata _proof
+                                  ) external payable;
+
+    function subscribeWithPermit(address _subscriber,
+                                 uint256 _tierId,
+                                 address _tokenAddress,
+                                 uint256 _periods,
+                                 uint256 _value,
+                                 Permit calldata _permit
+                                 ) external;
+
+    function giftSubscription(address _recipient,
+                              uint256 _tierId,
+                              address _tokenAddress,
+                              uint256 _periods,
+                              uint256 _value,
+                              string calldata _messageCID
+                              ) external payable;
+
+    function renew(uint256 _tokenId, uint256 _periods) external payable;
+
+    function renewBatch(address[] calldata _subscribers) external;
+
+    function setPeriodDiscount(uint256 _minPeriods, uint256 _discountBps) external;
+
+    function setGracePeriod(uint256 _gracePeriod) external;
+
+    function setRefundPolicy(RefundPolicy _policy, uint256 _refundWindow) external;
+
+    function setAllowlist(bytes32 _root, string calldata _listCID) external;
+
+    function setMaxMembers(uint256 _maxMembers) external;
+
+    function setGrandfatheredPricing(bool _enabled) external;
+
+    function releaseSeat(uint256 _tokenId) external;
+
+    function joinWaitlist(uint256 _tierId) external;
+
+    function tip(address _tokenAddress, uint256 _amount, string calldata _messageCID) external payable;
+
+    function approveSubscriptionTransfer(uint256 _tokenId, address _to) external;
 
     function unsubscribe(uint256 _tokenId) external;
 
+    function refundableAmount(uint256 _tokenId) external view returns (uint256);
+
+    function closingRefund(uint256 _tokenId) external view returns (uint256);
+
     function guildBalance(address _tokenAddress) external view returns (uint256);
 
     function isSubscriptionOwner(uint256 _tokenId, address _holder) external view returns (bool);
 
     function hasActiveSubscription(address _account) external view returns (bool);
 
+    function subscriptionStatus(address _account) external view returns (SubscriptionStatus);
+
     function getSubscriptionIdFor(address _account) external view returns (uint256);
 
     function getSubscriptionExpiryFor(address _account) external view returns (uint256);
 
+    function getSubscriptionTierFor(address _account) external view returns (uint256);
+
+    function getTier(uint256 _tierId) external view returns (Tier memory);
+
+    function totalTiers() external view returns (uint256);
+
+    function getTierPrice(uint256 _tierId, address _tokenAddress) external view returns (uint256);
+
+    function remainingSeats(uint256 _tierId) external view returns (uint256);
+
+    function acceptedTokens() external view returns (address[] calldata);
+
+    function subscriptionCost(uint256 _tierId, address _tokenAddress, uint256 _periods) external view returns (uint256);
+
+    function subscriptionCostFor(address _subscriber,
+                                 uint256 _tierId,
+                                 address _tokenAddress,
+                                 uint256 _periods
+                                 ) external view returns (uint256);
+
+    function safeSubscriptionHash(address _safe, SafeSubscription calldata _terms) external view returns (bytes32);
+
     function approvedTokens() external view returns (address[] calldata);
 
     function getMetadata() external view returns (string calldata);
 
     function setMetadata(string calldata _metadataCID) external;
 
+    function upgradeToVersion(uint256 _version) external;
+
+    function templateVersion() external view returns (uint256);
+
 
     // function isSubscriber(uint256 _tokenId, address _owner) external view returns (bool);
 
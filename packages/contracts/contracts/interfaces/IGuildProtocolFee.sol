@@ -0,0 +1,8 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+
+interface IGuildProtocolFee {
+
+    function protocolFee() external view returns (address _recipient, uint256 _feeBps);
+
+}
@@ -0,0 +1,10 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+
+interface IGuildVersionRegistry {
+
+    function templateVersions(uint256 _version) external view returns (address);
+
+    function latestVersion() external view returns (uint256);
+
+}
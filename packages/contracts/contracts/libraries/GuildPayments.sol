@@ -0,0 +1,212 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+pragma abicoder v2;
+
+import "@openzeppelin/contracts-upgradeable/drafts/IERC20PermitUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/math/SafeMathUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/SafeERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/AddressUpgradeable.sol";
+
+import "../interfaces/IAllowanceModule.sol";
+import "../interfaces/IDaiPermit.sol";
+import "../interfaces/IGnosisSafe.sol";
+import "../interfaces/IGuild.sol";
+import "../interfaces/IGuildProtocolFee.sol";
+
+/// @title GuildPayments Library
+/// @author RaidGuild
+/// @notice Moves ETH & ERC20 funds in and out of a GuildApp
+/// @dev linked externally to keep GuildApp under the contract size limit.
+/// Functions are delegatecalled so `address(this)` is the guild
+library GuildPayments {
+    using SafeERC20Upgradeable for IERC20Upgradeable;
+    using SafeMathUpgradeable for uint256;
+
+    uint256 internal constant BPS_DENOMINATOR = 10000;
+
+    bytes4 internal constant EIP1271_MAGIC_VALUE = 0x1626ba7e;
+    /// @dev magic value of the legacy `isValidSignature(bytes,bytes)` implemented by Safes < v1.3.0 (e.g. CPK Safes)
+    bytes4 internal constant LEGACY_EIP1271_MAGIC_VALUE = 0x20c13b0b;
+
+    bytes32 internal constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    bytes32 internal constant SAFE_SUBSCRIPTION_TYPEHASH = keccak256(
+        "SafeSubscription(address safe,bytes4 entryPoint,uint256 tierId,address tokenAddress,uint256 periods,uint256 value,address referrer,uint256 nonce)"
+    );
+
+    /// @dev transfer a payment into the guild
+    /// @param _from payer address
+    /// @param _tokenAddress payment token
+    /// @param _value payment amount
+    /// @param _data allowance Tx signature used by the safe AllowanceModule. Empty if paying from an EOA
+    /// @param _allowanceModule Gnosis Safe AllowanceModule
+    function collect(
+        address _from,
+        address _tokenAddress,
+        uint256 _value,
+        bytes memory _data,
+        address _allowanceModule
+    ) public {
+        if (_data.length == 0) {
+            if (_tokenAddress != address(0)) {
+                // Handle payment using EOA allowances
+                IERC20Upgradeable(_tokenAddress).safeTransferFrom(_from, address(this), _value);
+            }
+            return;
+        }
+        // Else Handle payment using Safe Allowance Module
+        require(_allowanceModule != address(0), "GuildApp: Guild does not support Safe Allowances");
+        require(_value <= type(uint96).max, "GuildApp: Value exceeds uint96");
+        IAllowanceModule safeModule = IAllowanceModule(_allowanceModule);
+
+        safeModule.executeAllowanceTransfer(
+            _from, // MUST be a safe
+            _tokenAddress,
+            payable(address(this)), // to
+            uint96(_value),
+            address(0), // payment token
+            0, // payment
+            address(this), // delegate
+            "" // the guild is the delegate. The Safe signature is verified by the guild through EIP-1271
+        );
+    }
+
+    /// @dev get the EIP-712 digest a Safe signs to subscribe to the calling guild using its allowance
+    /// @param _safe subscribing Safe
+    /// @param _terms signed subscription terms
+    /// @param _nonce Safe subscription nonce. Prevents the signature from being replayed
+    /// @return digest to be signed by the Safe owners
+    function hashSafeSubscription(
+        address _safe,
+        IGuild.SafeSubscription memory _terms,
+        uint256 _nonce
+    ) public view returns (bytes32) {
+        uint256 chainId;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            chainId := chainid()
+        }
+        bytes32 domainSeparator = keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            keccak256("GuildApp"),
+            keccak256("1"),
+            chainId,
+            address(this)
+        ));
+        bytes32 structHash = keccak256(abi.encode(
+            SAFE_SUBSCRIPTION_TYPEHASH,
+            _safe,
+            _terms.entryPoint,
+            _terms.tierId,
+            _terms.tokenAddress,
+            _terms.periods,
+            _terms.value,
+            _terms.referrer,
+            _nonce
+        ));
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash));
+    }
+
+    /// @dev verify the EIP-1271 signature of a Safe paying a subscription through its allowance & consume its nonce
+    /// @param _nonces Safe subscription nonces
+    /// @param _safe subscribing Safe
+    /// @param _terms subscription terms
+    /// @param _signature Safe owners signatures of `hashSafeSubscription`
+    function useSafeSignature(
+        mapping(address => uint256) storage _nonces,
+        address _safe,
+        IGuild.SafeSubscription memory _terms,
+        bytes memory _signature
+    ) public {
+        uint256 nonce = _nonces[_safe];
+        verifySafeSignature(_safe, hashSafeSubscription(_safe, _terms, nonce), _signature);
+        _nonces[_safe] = nonce.add(1);
+    }
+
+    /// @dev check `_safe` is a Gnosis Safe & `_signature` is a valid EIP-1271 signature of `_digest`.
+    /// Safes validate signatures of their owners up to the Safe threshold. Safes < v1.3.0 only implement
+    /// the legacy `isValidSignature(bytes,bytes)` over the digest bytes, which is tried as a fallback
+    /// @param _safe Gnosis Safe address
+    /// @param _digest signed digest
+    /// @param _signature concatenated owner signatures
+    function verifySafeSignature(address _safe, bytes32 _digest, bytes memory _signature) public view {
+        require(_isSafe(_safe), "GuildApp: Sender is not a Gnosis Safe");
+        bool valid;
+        try IGnosisSafe(_safe).isValidSignature(_digest, _signature) returns (bytes4 magicValue) {
+            valid = magicValue == EIP1271_MAGIC_VALUE;
+        } catch {}
+        if (!valid) {
+            try IGnosisSafe(_safe).isValidSignature(abi.encodePacked(_digest), _signature) returns (bytes4 magicValue) {
+                valid = magicValue == LEGACY_EIP1271_MAGIC_VALUE;
+            } catch {}
+        }
+        require(valid, "GuildApp: Invalid Safe signature");
+    }
+
+    /// @dev check whether `_account` is a Gnosis Safe contract. `NAME` was dropped in Safe v1.3.0 so
+    /// Safes are identified by having a threshold set
+    function _isSafe(address _account) private view returns (bool) {
+        if (!AddressUpgradeable.isContract(_account)) {
+            return false;
+        }
+        try IGnosisSafe(_account).getThreshold() returns (uint256 threshold) {
+            return threshold > 0;
+        } catch {
+            return false;
+        }
+    }
+
+    /// @dev approve the guild to spend `_value` tokens of `_owner` through a signed permit.
+    /// Failed permits are ignored as anyone can front-run the permit with the same signature:
+    /// the allowance is then checked when the payment is collected
+    /// @param _tokenAddress payment token. MUST support EIP-2612 or DAI-style permits
+    /// @param _owner permit signer
+    /// @param _value amount approved. DAI-style permits approve an unlimited allowance
+    /// @param _permit permit signature
+    function permit(address _tokenAddress, address _owner, uint256 _value, IGuild.Permit memory _permit) public {
+        require(_tokenAddress != address(0), "GuildApp: ETH payments do not support permits");
+        if (_permit.daiStyle) {
+            try IDaiPermit(_tokenAddress).permit(
+                _owner, address(this), _permit.nonce, _permit.deadline, true, _permit.v, _permit.r, _permit.s
+            ) {} catch {}
+        } else {
+            try IERC20PermitUpgradeable(_tokenAddress).permit(
+                _owner, address(this), _value, _permit.deadline, _permit.v, _permit.r, _permit.s
+            ) {} catch {}
+        }
+    }
+
+    /// @dev get the protocol fee charged on a payment by the factory that deployed the guild
+    /// @param _factory GuildFactory address. Guilds that were not deployed through a factory pay no fee
+    /// @param _value payment amount
+    /// @return recipient fee recipient
+    /// @return fee amount of `_value` to be sent to `recipient`
+    function protocolFee(address _factory, uint256 _value) public view returns (address recipient, uint256 fee) {
+        // low level call so guilds initialized by any other account/contract are not blocked
+        (bool success, bytes memory result) = _factory.staticcall(
+            abi.encodeWithSelector(IGuildProtocolFee.protocolFee.selector)
+        );
+        if (success && result.length == 64) {
+            uint256 feeBps;
+            (recipient, feeBps) = abi.decode(result, (address, uint256));
+            if (recipient != address(0)) {
+                fee = _value.mul(feeBps).div(BPS_DENOMINATOR);
+            }
+        }
+    }
+
+    /// @dev transfer funds out of the guild
+    /// @param _tokenAddress asset to be sent. 0x for ETH
+    /// @param _to beneficiary
+    /// @param _amount amount to be sent
+    function send(address _tokenAddress, address _to, uint256 _amount) public {
+        if (_tokenAddress != address(0)) {
+            IERC20Upgradeable(_tokenAddress).safeTransfer(_to, _amount);
+        } else {
+            (bool success, ) = payable(_to).call{value: _amount}("");
+            require(success, "GuildApp: Failed to send Ether");
+        }
+    }
+}
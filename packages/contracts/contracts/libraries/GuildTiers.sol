@@ -0,0 +1,232 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+pragma abicoder v2;
+
+import "@openzeppelin/contracts-upgradeable/math/SafeMathUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/utils/EnumerableSetUpgradeable.sol";
+
+import "../interfaces/IGuild.sol";
+
+/// @title GuildTiers Library
+/// @author RaidGuild
+/// @notice Subscription tiers, per-token prices & multi-period discounts of a GuildApp
+/// @dev linked externally to keep GuildApp under the contract size limit.
+/// Events are mirrored on GuildApp so logs can be decoded using the GuildApp ABI
+library GuildTiers {
+    using EnumerableSetUpgradeable for EnumerableSetUpgradeable.AddressSet;
+    using SafeMathUpgradeable for uint256;
+
+    uint256 internal constant BPS_DENOMINATOR = 10000;
+
+    struct TierConfig {
+        string name;
+        uint256 period;
+        uint256 cap;
+    }
+
+    struct Data {
+        // subscription tiers. Tier 0 is the guild default tier
+        TierConfig[] tiers;
+        // tier prices per payment token. A zero price means the tier cannot be paid with that token
+        mapping(uint256 => mapping(address => uint256)) prices;
+        // amount of subscriptions currently held on each tier
+        mapping(uint256 => uint256) members;
+        // assets currently accepted for subscription payments
+        EnumerableSetUpgradeable.AddressSet acceptedTokens;
+        // minimum number of prepaid periods to get the multi-period discount
+        uint256 discountMinPeriods;
+        // multi-period discount in basis points
+        uint256 discountBps;
+    }
+
+    event PaymentTokenAdded(address _tokenAddress);
+    event PaymentTokenRemoved(address _tokenAddress);
+    event TokenPriceUpdated(uint256 _tierId, address _tokenAddress, uint256 _price);
+    event PeriodDiscountUpdated(uint256 _minPeriods, uint256 _discountBps);
+    event TierUpdated(uint256 _tierId, string _name, uint256 _price, uint256 _period, uint256 _cap);
+
+    /// @dev register a new subscription tier
+    /// @param _tier tier name, price denominated in `_defaultToken`, period in seconds & cap (0 means unlimited)
+    /// @param _defaultToken guild default asset
+    /// @return tierId new tier ID
+    function addTier(Data storage self, IGuild.Tier memory _tier, address _defaultToken) public returns (uint256 tierId) {
+        require(_tier.period > 0, "GuildApp: Invalid subscription period");
+        self.tiers.push(TierConfig(_tier.name, _tier.period, _tier.cap));
+        tierId = self.tiers.length - 1;
+        emit TierUpdated(tierId, _tier.name, _tier.price, _tier.period, _tier.cap);
+        setPrice(self, tierId, _defaultToken, _tier.price);
+    }
+
+    /// @dev update an existing subscription tier
+    /// @param _tierId tier ID
+    /// @param _tier tier name, price denominated in `_defaultToken`, period in seconds & cap (0 means unlimited)
+    /// @param _defaultToken guild default asset
+    function updateTier(Data storage self, uint256 _tierId, IGuild.Tier memory _tier, address _defaultToken) public {
+        require(_tierId < self.tiers.length, "GuildApp: Tier does not exist");
+        require(_tier.period > 0, "GuildApp: Invalid subscription period");
+        self.tiers[_tierId] = TierConfig(_tier.name, _tier.period, _tier.cap);
+        emit TierUpdated(_tierId, _tier.name, _tier.price, _tier.period, _tier.cap);
+        setPrice(self, _tierId, _defaultToken, _tier.price);
+    }
+
+    /// @dev set the price of a tier denominated in `_tokenAddress`. A zero price disables `_tokenAddress` on the tier
+    /// @param _tierId tier ID
+    /// @param _tokenAddress payment token
+    /// @param _price subscription price
+    function setPrice(Data storage self, uint256 _tierId, address _tokenAddress, uint256 _price) public {
+        require(_tierId < self.tiers.length, "GuildApp: Tier does not exist");
+        require(self.acceptedTokens.contains(_tokenAddress), "GuildApp: Token is not accepted");
+        self.prices[_tierId][_tokenAddress] = _price;
+        emit TokenPriceUpdated(_tierId, _tokenAddress, _price);
+    }
+
+    /// @dev add `_tokenAddress` to the accepted payment tokens. Asset must be either ETH or an ERC20 token
+    /// @param _tokenAddress asset address
+    function acceptToken(Data storage self, address _tokenAddress) public {
+        require(
+            _tokenAddress == address(0) ||
+            (_tokenAddress != address(0) && IERC20Upgradeable(_tokenAddress).totalSupply() > 0),
+            "GuildApp: Invalid token");
+        if (self.acceptedTokens.add(_tokenAddress)) {
+            emit PaymentTokenAdded(_tokenAddress);
+        }
+    }
+
+    /// @dev accept `_tokenAddress` for payments and set its price on every tier
+    /// @param _tokenAddress asset address
+    /// @param _prices subscription price for each tier (by tier ID) denominated in `_tokenAddress`
+    function addPaymentToken(Data storage self, address _tokenAddress, uint256[] memory _prices) public {
+        require(_prices.length == self.tiers.length, "GuildApp: A price for each tier is required");
+        acceptToken(self, _tokenAddress);
+        for (uint256 i = 0; i < _prices.length; i++) {
+            setPrice(self, i, _tokenAddress, _prices[i]);
+        }
+    }
+
+    /// @dev stop accepting `_tokenAddress` for payments
+    /// @param _tokenAddress asset address
+    /// @param _defaultToken guild default asset. It cannot be removed
+    function removePaymentToken(Data storage self, address _tokenAddress, address _defaultToken) public {
+        require(_tokenAddress != _defaultToken, "GuildApp: Cannot remove the default token");
+        require(self.acceptedTokens.remove(_tokenAddress), "GuildApp: Token is not accepted");
+        emit PaymentTokenRemoved(_tokenAddress);
+    }
+
+    /// @dev set the discount applied when prepaying several subscription periods
+    /// @param _minPeriods minimum number of periods to be eligible for the discount
+    /// @param _discountBps discount in basis points
+    function setPeriodDiscount(Data storage self, uint256 _minPeriods, uint256 _discountBps) public {
+        require(_minPeriods > 1, "GuildApp: Discount requires more than one period");
+        require(_discountBps < BPS_DENOMINATOR, "GuildApp: Invalid discount");
+        self.discountMinPeriods = _minPeriods;
+        self.discountBps = _discountBps;
+        emit PeriodDiscountUpdated(_minPeriods, _discountBps);
+    }
+
+    /// @dev book a subscription slot on `_tierId`
+    /// @param _tierId subscription tier
+    function join(Data storage self, uint256 _tierId) public {
+        uint256 cap = self.tiers[_tierId].cap;
+        require(cap == 0 || self.members[_tierId] < cap, "GuildApp: Tier is full");
+        self.members[_tierId] = self.members[_tierId].add(1);
+    }
+
+    /// @dev release a subscription slot on `_tierId`
+    /// @param _tierId subscription tier
+    function leave(Data storage self, uint256 _tierId) public {
+        self.members[_tierId] = self.members[_tierId].sub(1);
+    }
+
+    /// @dev get the amount of subscriptions currently held across all tiers
+    /// @return total amount of members
+    function totalMembers(Data storage self) public view returns (uint256 total) {
+        for (uint256 i = 0; i < self.tiers.length; i++) {
+            total = total.add(self.members[i]);
+        }
+    }
+
+    /// @dev get the amount of new subscriptions `_tierId` can still take, bounded by both the tier cap
+    /// & the guild member cap
+    /// @param _tierId tier ID
+    /// @param _maxMembers guild member cap. 0 means unlimited
+    /// @return seats remaining seats. MAX_UINT256 if neither the tier nor the guild are capped
+    function remainingSeats(Data storage self, uint256 _tierId, uint256 _maxMembers) public view returns (uint256 seats) {
+        require(_tierId < self.tiers.length, "GuildApp: Tier does not exist");
+        seats = type(uint256).max;
+        if (_maxMembers > 0) {
+            uint256 total = totalMembers(self);
+            seats = total < _maxMembers ? _maxMembers - total : 0;
+        }
+        uint256 cap = self.tiers[_tierId].cap;
+        if (cap > 0) {
+            uint256 members = self.members[_tierId];
+            uint256 tierSeats = members < cap ? cap - members : 0;
+            if (tierSeats < seats) {
+                seats = tierSeats;
+            }
+        }
+    }
+
+    /// @dev get the cost of subscribing to a tier for a number of periods, applying the multi-period discount
+    /// @param _tierId tier ID
+    /// @param _tokenAddress accepted payment token
+    /// @param _periods number of subscription periods
+    /// @return total subscription cost denominated in `_tokenAddress`
+    function cost(
+        Data storage self,
+        uint256 _tierId,
+        address _tokenAddress,
+        uint256 _periods
+    ) public view returns (uint256) {
+        require(self.acceptedTokens.contains(_tokenAddress), "GuildApp: Token is not accepted");
+        require(_tierId < self.tiers.length, "GuildApp: Tier does not exist");
+        require(_periods > 0, "GuildApp: Invalid number of periods");
+        uint256 price = self.prices[_tierId][_tokenAddress];
+        require(price > 0, "GuildApp: Tier is not available for token");
+        return periodCost(self, price, _periods);
+    }
+
+    /// @dev get the cost of a number of periods at a given price, applying the multi-period discount
+    /// @param _price price per period
+    /// @param _periods number of subscription periods
+    /// @return total cost
+    function periodCost(Data storage self, uint256 _price, uint256 _periods) public view returns (uint256) {
+        uint256 total = _price.mul(_periods);
+        if (self.discountBps > 0 && _periods >= self.discountMinPeriods) {
+            total = total.sub(total.mul(self.discountBps).div(BPS_DENOMINATOR));
+        }
+        return total;
+    }
+
+    /// @dev get subscription tier details
+    /// @param _tierId tier ID
+    /// @param _defaultToken guild default asset
+    /// @return tier name, price in `_defaultToken`, period & cap
+    function getTier(Data storage self, uint256 _tierId, address _defaultToken) public view returns (IGuild.Tier memory) {
+        require(_tierId < self.tiers.length, "GuildApp: Tier does not exist");
+        TierConfig storage tier = self.tiers[_tierId];
+        return IGuild.Tier(tier.name, self.prices[_tierId][_defaultToken], tier.period, tier.cap);
+    }
+
+    /// @dev get the price of a tier denominated in `_tokenAddress`
+    /// @param _tierId tier ID
+    /// @param _tokenAddress payment token
+    /// @return subscription price. 0 if the tier cannot be paid with `_tokenAddress`
+    function getPrice(Data storage self, uint256 _tierId, address _tokenAddress) public view returns (uint256) {
+        if (!self.acceptedTokens.contains(_tokenAddress)) {
+            return 0;
+        }
+        return self.prices[_tierId][_tokenAddress];
+    }
+
+    /// @dev list tokens currently accepted for subscription payments
+    /// @return array of accepted assets
+    function getAcceptedTokens(Data storage self) public view returns (address[] memory) {
+        address[] memory tokens = new address[](self.acceptedTokens.length());
+        for (uint256 i = 0; i < tokens.length; i++) {
+            tokens[i] = self.acceptedTokens.at(i);
+        }
+        return tokens;
+    }
+}
@@ -0,0 +1,158 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+pragma abicoder v2;
+
+import "@openzeppelin/contracts-upgradeable/utils/StringsUpgradeable.sol";
+
+import "../interfaces/IGuild.sol";
+
+/// @title GuildTokenURI Library
+/// @author RaidGuild
+/// @notice Renders subscription NFTs metadata on chain
+/// @dev linked externally to keep GuildApp under the contract size limit.
+/// Metadata is returned as a base64 encoded JSON data URI embedding a base64 encoded SVG image
+library GuildTokenURI {
+    using StringsUpgradeable for uint256;
+
+    struct Membership {
+        string guildName;
+        string guildSymbol;
+        uint256 tokenId;
+        string tierName;
+        uint256 expirationTimestamp;
+        IGuild.SubscriptionStatus status;
+    }
+
+    bytes internal constant BASE64_TABLE = "ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789+/";
+
+    /// @dev build the tokenURI of a subscription
+    /// @param _membership subscription details
+    /// @return data URI with the ERC721 metadata JSON
+    function tokenURI(Membership memory _membership) public pure returns (string memory) {
+        string memory guildName = _sanitize(_membership.guildName);
+        string memory tierName = _sanitize(_membership.tierName);
+        string memory expiry = _formatDate(_membership.expirationTimestamp);
+        string memory status = _statusLabel(_membership.status);
+        string memory image = _encode(_image(_membership, guildName, tierName, expiry, status));
+        bytes memory json = abi.encodePacked(
+            '{"name":"', guildName, " #", _membership.tokenId.toString(),
+            '","description":"', guildName, " membership. ", status,
+            _membership.status == IGuild.SubscriptionStatus.Expired ? " on " : " until ", expiry,
+            '","image":"data:image/svg+xml;base64,', image, '",'
+        );
+        json = abi.encodePacked(
+            json,
+            '"attributes":[{"trait_type":"Tier","value":"', tierName,
+            '"},{"trait_type":"Status","value":"', status,
+            '"},{"display_type":"date","trait_type":"Expiry","value":', _membership.expirationTimestamp.toString(),
+            "}]}"
+        );
+        return string(abi.encodePacked("data:application/json;base64,", _encode(json)));
+    }
+
+    /// @dev render the subscription card. Expired subscriptions are greyed out
+    function _image(
+        Membership memory _membership,
+        string memory _guildName,
+        string memory _tierName,
+        string memory _expiry,
+        string memory _status
+    ) private pure returns (bytes memory) {
+        bool expired = _membership.status == IGuild.SubscriptionStatus.Expired;
+        bytes memory svg = abi.encodePacked(
+            '<svg xmlns="http://www.w3.org/2000/svg" width="350" height="350" viewBox="0 0 350 350" ',
+            'font-family="monospace" fill="', expired ? "#8C8C8C" : "#FFFFFF", '">',
+            '<rect width="350" height="350" fill="', expired ? "#3A3A3A" : "#0E0E2C", '"/>'
+        );
+        svg = abi.encodePacked(
+            svg,
+            _text("56", "24", _guildName),
+            _text("84", "14", _sanitize(_membership.guildSymbol)),
+            _text("200", "32", string(abi.encodePacked("#", _membership.tokenId.toString())))
+        );
+        return abi.encodePacked(
+            svg,
+            _text("240", "16", string(abi.encodePacked("Tier: ", _tierName))),
+            _text("300", "16", string(abi.encodePacked(expired ? "EXPIRED" : _status, " - ", _expiry))),
+            "</svg>"
+        );
+    }
+
+    /// @dev render an SVG text line
+    function _text(string memory _y, string memory _fontSize, string memory _content) private pure returns (bytes memory) {
+        return abi.encodePacked('<text x="24" y="', _y, '" font-size="', _fontSize, '">', _content, "</text>");
+    }
+
+    /// @dev human readable subscription status
+    function _statusLabel(IGuild.SubscriptionStatus _status) private pure returns (string memory) {
+        if (_status == IGuild.SubscriptionStatus.Active) {
+            return "Active";
+        }
+        return _status == IGuild.SubscriptionStatus.InGrace ? "In grace period" : "Expired";
+    }
+
+    /// @dev format a timestamp as YYYY-MM-DD (UTC)
+    /// @param _timestamp unix timestamp in seconds
+    /// @return date string
+    function _formatDate(uint256 _timestamp) private pure returns (string memory) {
+        // civil from days algorithm. See http://howardhinnant.github.io/date_algorithms.html
+        uint256 z = _timestamp / 1 days + 719468;
+        uint256 era = z / 146097;
+        uint256 doe = z - era * 146097;
+        uint256 yoe = (doe - doe / 1460 + doe / 36524 - doe / 146096) / 365;
+        uint256 doy = doe - (365 * yoe + yoe / 4 - yoe / 100);
+        uint256 mp = (5 * doy + 2) / 153;
+        uint256 day = doy - (153 * mp + 2) / 5 + 1;
+        uint256 month = mp < 10 ? mp + 3 : mp - 9;
+        uint256 year = yoe + era * 400 + (month <= 2 ? 1 : 0);
+        return string(abi.encodePacked(
+            year.toString(), month < 10 ? "-0" : "-", month.toString(), day < 10 ? "-0" : "-", day.toString()
+        ));
+    }
+
+    /// @dev drop characters that would break the JSON or SVG documents
+    /// @param _value user provided string
+    /// @return `_value` without control characters, double quotes, backslashes, <, > and &
+    function _sanitize(string memory _value) private pure returns (string memory) {
+        bytes memory input = bytes(_value);
+        bytes memory output = new bytes(input.length);
+        uint256 size = 0;
+        for (uint256 i = 0; i < input.length; i++) {
+            bytes1 char = input[i];
+            if (char >= 0x20 && char != '"' && char != "\\" && char != "<" && char != ">" && char != "&") {
+                output[size++] = char;
+            }
+        }
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            mstore(output, size)
+        }
+        return string(output);
+    }
+
+    /// @dev base64 encode `_data`
+    /// @param _data bytes to encode
+    /// @return base64 representation of `_data`
+    function _encode(bytes memory _data) private pure returns (string memory) {
+        if (_data.length == 0) {
+            return "";
+        }
+        bytes memory table = BASE64_TABLE;
+        bytes memory result = new bytes(4 * ((_data.length + 2) / 3));
+        uint256 j = 0;
+        for (uint256 i = 0; i < _data.length; i += 3) {
+            uint256 chunk = uint256(uint8(_data[i])) << 16;
+            if (i + 1 < _data.length) {
+                chunk |= uint256(uint8(_data[i + 1])) << 8;
+            }
+            if (i + 2 < _data.length) {
+                chunk |= uint256(uint8(_data[i + 2]));
+            }
+            result[j++] = table[(chunk >> 18) & 63];
+            result[j++] = table[(chunk >> 12) & 63];
+            result[j++] = i + 1 < _data.length ? table[(chunk >> 6) & 63] : bytes1("=");
+            result[j++] = i + 2 < _data.length ? table[chunk & 63] : bytes1("=");
+        }
+        return string(result);
+    }
+}
@@ -0,0 +1,63 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+
+import "../interfaces/IGuildVersionRegistry.sol";
+
+/// @title GuildVersions Library
+/// @author RaidGuild
+/// @notice Read & write the template version an upgradeable guild runs
+/// @dev values are kept in unstructured storage slots so they never collide with the GuildApp storage layout.
+/// Both slots are empty on EIP-1167 clones
+library GuildVersions {
+
+    /// @dev bytes32(uint256(keccak256("eip1967.proxy.beacon")) - 1)
+    bytes32 internal constant BEACON_SLOT = 0xa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d50;
+    /// @dev bytes32(uint256(keccak256("guild.proxy.version")) - 1)
+    bytes32 internal constant VERSION_SLOT = bytes32(uint256(keccak256("guild.proxy.version")) - 1);
+
+    /// @dev get the GuildFactory used as version registry
+    /// @return beacon_ GuildFactory address. 0x if the guild is not upgradeable
+    function beacon() internal view returns (address beacon_) {
+        bytes32 slot = BEACON_SLOT;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            beacon_ := sload(slot)
+        }
+    }
+
+    /// @dev get the template version the guild runs
+    /// @return version_ template version
+    function version() internal view returns (uint256 version_) {
+        bytes32 slot = VERSION_SLOT;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            version_ := sload(slot)
+        }
+    }
+
+    /// @dev get the template contract the guild delegates to
+    /// @return template address registered on the beacon for the current version
+    function implementation() internal view returns (address) {
+        return IGuildVersionRegistry(beacon()).templateVersions(version());
+    }
+
+    /// @dev set the GuildFactory used as version registry
+    /// @param _beacon beacon address
+    function setBeacon(address _beacon) internal {
+        bytes32 slot = BEACON_SLOT;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            sstore(slot, _beacon)
+        }
+    }
+
+    /// @dev set the template version the guild runs
+    /// @param _version template version
+    function setVersion(uint256 _version) internal {
+        bytes32 slot = VERSION_SLOT;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            sstore(slot, _version)
+        }
+    }
+}
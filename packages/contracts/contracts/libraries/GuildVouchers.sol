@@ -0,0 +1,94 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+pragma abicoder v2;
+
+import "@openzeppelin/contracts-upgradeable/cryptography/ECDSAUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/math/SafeMathUpgradeable.sol";
+
+import "../interfaces/IGuild.sol";
+
+/// @title GuildVouchers Library
+/// @author RaidGuild
+/// @notice Verifies & redeems EIP-712 subscription discount vouchers signed by guild admins
+/// @dev linked externally to keep GuildApp under the contract size limit.
+/// Functions are delegatecalled so `address(this)` is the guild verifying the voucher
+library GuildVouchers {
+    using SafeMathUpgradeable for uint256;
+
+    uint256 internal constant BPS_DENOMINATOR = 10000;
+
+    bytes32 internal constant DOMAIN_TYPEHASH = keccak256(
+        "EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"
+    );
+    bytes32 internal constant VOUCHER_TYPEHASH = keccak256(
+        "Voucher(uint256 tierId,uint256 discountBps,address tokenAddress,uint256 fixedPrice,uint256 maxUses,uint256 expiry,address recipient,bytes32 salt)"
+    );
+
+    /// @dev get the EIP-712 digest of a voucher issued by the calling guild
+    /// @param _voucher voucher terms
+    /// @return digest to be signed by a guild admin
+    function hashVoucher(IGuild.Voucher memory _voucher) public view returns (bytes32) {
+        uint256 chainId;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            chainId := chainid()
+        }
+        bytes32 domainSeparator = keccak256(abi.encode(
+            DOMAIN_TYPEHASH,
+            keccak256("GuildApp"),
+            keccak256("1"),
+            chainId,
+            address(this)
+        ));
+        bytes32 structHash = keccak256(abi.encode(
+            VOUCHER_TYPEHASH,
+            _voucher.tierId,
+            _voucher.discountBps,
+            _voucher.tokenAddress,
+            _voucher.fixedPrice,
+            _voucher.maxUses,
+            _voucher.expiry,
+            _voucher.recipient,
+            _voucher.salt
+        ));
+        return keccak256(abi.encodePacked("\x19\x01", domainSeparator, structHash));
+    }
+
+    /// @dev validate a voucher, record its redemption & apply it to the subscription cost.
+    /// The voucher `tierId` MUST be checked against the subscription tier by the caller
+    /// @param _redemptions times each voucher has been redeemed
+    /// @param _voucher voucher terms
+    /// @param _signature EIP-712 signature of `_voucher`
+    /// @param _subscriber account redeeming the voucher
+    /// @param _tokenAddress payment token
+    /// @param _periods number of subscription periods to pay for
+    /// @param _cost subscription cost without the voucher
+    /// @return digest voucher digest used to track its redemptions
+    /// @return signer voucher signer. MUST be checked to be a guild admin by the caller
+    /// @return cost discounted subscription cost
+    function redeem(
+        mapping(bytes32 => uint256) storage _redemptions,
+        IGuild.Voucher memory _voucher,
+        bytes memory _signature,
+        address _subscriber,
+        address _tokenAddress,
+        uint256 _periods,
+        uint256 _cost
+    ) public returns (bytes32 digest, address signer, uint256 cost) {
+        require(_voucher.expiry >= block.timestamp, "GuildApp: Voucher has expired");
+        require(_voucher.recipient == address(0) || _voucher.recipient == _subscriber,
+                "GuildApp: Voucher is bound to another recipient");
+        digest = hashVoucher(_voucher);
+        require(_redemptions[digest] < _voucher.maxUses, "GuildApp: Voucher has no uses left");
+        _redemptions[digest] = _redemptions[digest].add(1);
+        signer = ECDSAUpgradeable.recover(digest, _signature);
+
+        if (_voucher.discountBps > 0) {
+            require(_voucher.discountBps <= BPS_DENOMINATOR, "GuildApp: Invalid voucher discount");
+            cost = _cost.sub(_cost.mul(_voucher.discountBps).div(BPS_DENOMINATOR));
+        } else {
+            require(_voucher.tokenAddress == _tokenAddress, "GuildApp: Voucher is not valid for this token");
+            cost = _voucher.fixedPrice.mul(_periods);
+        }
+    }
+}
@@ -0,0 +1,33 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+
+import "@openzeppelin/contracts-upgradeable/math/SafeMathUpgradeable.sol";
+import "@openzeppelin/contracts-upgradeable/token/ERC20/IERC20Upgradeable.sol";
+
+/// @dev Minimal AllowanceModule where the "safe" is an account that approved this contract to spend its tokens
+contract AllowanceModuleMock {
+    using SafeMathUpgradeable for uint256;
+
+    // safe => delegate => token => amount
+    mapping(address => mapping(address => mapping(address => uint256))) public allowances;
+
+    function setAllowance(address delegate, address token, uint256 amount) external {
+        allowances[msg.sender][delegate][token] = amount;
+    }
+
+    function executeAllowanceTransfer(
+        address safe,
+        address token,
+        address payable to,
+        uint96 amount,
+        address /*paymentToken*/,
+        uint96 /*payment*/,
+        address delegate,
+        bytes memory /*signature*/
+    ) external {
+        require(msg.sender == delegate, "AllowanceModuleMock: Sender is not the delegate");
+        require(allowances[safe][delegate][token] >= amount, "AllowanceModuleMock: Not enough allowance");
+        allowances[safe][delegate][token] = allowances[safe][delegate][token].sub(amount);
+        IERC20Upgradeable(token).transferFrom(safe, to, amount);
+    }
+}
@@ -8,6 +8,14 @@ import "@openzeppelin/contracts-upgradeable/token/ERC20/ERC20Upgradeable.sol";
 contract DAIMock is AccessControlUpgradeable, ERC20Upgradeable {
 
     bytes32 public constant MINTER_ROLE = keccak256("MINTER_ROLE");
+    // Same permit as mainnet DAI
+    bytes32 public constant PERMIT_TYPEHASH = keccak256(
+        "Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)"
+    );
+    string public constant version = "1";
+
+    bytes32 public DOMAIN_SEPARATOR;
+    mapping(address => uint256) public nonces;
 
     function initialize(string memory _name, string memory _symbol) public initializer {
         __ERC20_init(_name, _symbol);
@@ -16,10 +24,46 @@ contract DAIMock is AccessControlUpgradeable, ERC20Upgradeable {
         _setupRole(DEFAULT_ADMIN_ROLE, _msgSender());
         _setupRole(MINTER_ROLE, _msgSender());
         // _setupRole(PAUSER_ROLE, _msgSender());
+
+        uint256 chainId;
+        // solhint-disable-next-line no-inline-assembly
+        assembly {
+            chainId := chainid()
+        }
+        DOMAIN_SEPARATOR = keccak256(abi.encode(
+            keccak256("EIP712Domain(string name,string version,uint256 chainId,address verifyingContract)"),
+            keccak256(bytes(_name)),
+            keccak256(bytes(version)),
+            chainId,
+            address(this)
+        ));
     }
 
     function mint(address to, uint256 amount) public virtual {
         require(hasRole(MINTER_ROLE, _msgSender()), "ERC20PresetMinterPauser: must have minter role to mint");
         _mint(to, amount);
     }
-}
\ No newline at end of file
+
+    function permit(
+        address holder,
+        address spender,
+        uint256 nonce,
+        uint256 expiry,
+        bool allowed,
+        uint8 v,
+        bytes32 r,
+        bytes32 s
+    ) external {
+        bytes32 digest = keccak256(abi.encodePacked(
+            "\x19\x01",
+            DOMAIN_SEPARATOR,
+            keccak256(abi.encode(PERMIT_TYPEHASH, holder, spender, nonce, expiry, allowed))
+        ));
+        require(holder != address(0), "Dai/invalid-address-0");
+        require(holder == ecrecover(digest, v, r, s), "Dai/invalid-permit");
+        // solhint-disable-next-line not-rely-on-time
+        require(expiry == 0 || block.timestamp <= expiry, "Dai/permit-expired");
+        require(nonce == nonces[holder]++, "Dai/invalid-nonce");
+        _approve(holder, spender, allowed ? uint256(-1) : 0);
+    }
+}
@@ -0,0 +1,16 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+
+import "@openzeppelin/contracts-upgradeable/drafts/ERC20PermitUpgradeable.sol";
+
+contract ERC20PermitMock is ERC20PermitUpgradeable {
+
+    function initialize(string memory _name, string memory _symbol) public initializer {
+        __ERC20_init(_name, _symbol);
+        __ERC20Permit_init(_name);
+    }
+
+    function mint(address to, uint256 amount) public virtual {
+        _mint(to, amount);
+    }
+}
@@ -5,6 +5,7 @@ pragma solidity ^0.7.0;
 // import { GnosisSafeProxyFactory } from "@gnosis.pm/safe-contracts/contracts/proxies/GnosisSafeProxyFactory.sol";
 import { GnosisSafe } from "@gnosis.pm/safe-contracts/contracts/GnosisSafe.sol";
 import { GnosisSafeProxy } from "@gnosis.pm/safe-contracts/contracts/proxies/GnosisSafeProxy.sol";
+import { CompatibilityFallbackHandler } from "@gnosis.pm/safe-contracts/contracts/handler/CompatibilityFallbackHandler.sol";
 import { MultiSend } from "@gnosis.pm/safe-contracts/contracts/libraries/MultiSend.sol";
 // import { AllowanceModule } from "@gnosis.pm/safe-modules/allowances/contracts/AllowanceModule.sol";
 // import { DailyLimitModule } from "@gnosis.pm/safe-contracts/contracts/modules/DailyLimitModule.sol";
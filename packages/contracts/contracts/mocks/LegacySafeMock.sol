@@ -0,0 +1,62 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.7.0;
+
+/// @dev Minimal Safe v1.2.0 (as deployed by the Contract Proxy Kit) that only implements the legacy
+/// EIP-1271 `isValidSignature(bytes,bytes)` and accepts eth_sign owner signatures
+contract LegacySafeMock {
+    bytes4 internal constant EIP1271_MAGIC_VALUE = 0x20c13b0b;
+    bytes32 internal constant DOMAIN_SEPARATOR_TYPEHASH = keccak256("EIP712Domain(address verifyingContract)");
+    bytes32 internal constant SAFE_MSG_TYPEHASH = keccak256("SafeMessage(bytes message)");
+
+    mapping(address => bool) public isOwner;
+    uint256 public getThreshold;
+
+    constructor(address[] memory _owners, uint256 _threshold) {
+        for (uint256 i = 0; i < _owners.length; i++) {
+            isOwner[_owners[i]] = true;
+        }
+        getThreshold = _threshold;
+    }
+
+    /// @dev owners call through the Safe without signatures
+    function execTransaction(address to, bytes calldata data) external {
+        require(isOwner[msg.sender], "LegacySafeMock: Sender is not an owner");
+        (bool success, ) = to.call(data);
+        require(success, "LegacySafeMock: Transaction failed");
+    }
+
+    /// @dev served by the DefaultCallbackHandler of v1.2.0 Safes
+    function onERC721Received(address, address, uint256, bytes calldata) external pure returns (bytes4) {
+        return 0x150b7a02;
+    }
+
+    function getMessageHash(bytes memory message) public view returns (bytes32) {
+        bytes32 domainSeparator = keccak256(abi.encode(DOMAIN_SEPARATOR_TYPEHASH, this));
+        bytes32 safeMessageHash = keccak256(abi.encode(SAFE_MSG_TYPEHASH, keccak256(message)));
+        return keccak256(abi.encodePacked(bytes1(0x19), bytes1(0x01), domainSeparator, safeMessageHash));
+    }
+
+    function isValidSignature(bytes calldata _data, bytes memory _signature) external view returns (bytes4) {
+        bytes32 messageHash = getMessageHash(_data);
+        bytes32 ethSignedHash = keccak256(abi.encodePacked("\x19Ethereum Signed Message:\n32", messageHash));
+        require(_signature.length >= getThreshold * 65, "LegacySafeMock: Signatures data too short");
+        address lastOwner = address(0);
+        for (uint256 i = 0; i < getThreshold; i++) {
+            bytes32 r;
+            bytes32 s;
+            uint8 v;
+            // solhint-disable-next-line no-inline-assembly
+            assembly {
+                let signaturePos := mul(0x41, i)
+                r := mload(add(_signature, add(signaturePos, 0x20)))
+                s := mload(add(_signature, add(signaturePos, 0x40)))
+                v := and(mload(add(_signature, add(signaturePos, 0x41))), 0xff)
+            }
+            require(v > 30, "LegacySafeMock: Only eth_sign signatures are supported");
+            address owner = ecrecover(ethSignedHash, v - 4, r, s);
+            require(owner > lastOwner && isOwner[owner], "LegacySafeMock: Invalid owner provided");
+            lastOwner = owner;
+        }
+        return EIP1271_MAGIC_VALUE;
+    }
+}
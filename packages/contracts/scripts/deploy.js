@@ -18,8 +18,38 @@ const main = async () => {
         await dai.mint(bob.address, ethers.utils.parseEther("100"))
     }
 
-    const GuildAppTemplate = await ethers.getContractFactory("GuildApp");
-    const guildAppTemplate = await GuildAppTemplate.deploy();
+    const GuildTiers = await ethers.getContractFactory("GuildTiers");
+    const guildTiers = await GuildTiers.deploy();
+    const GuildPayments = await ethers.getContractFactory("GuildPayments");
+    const guildPayments = await GuildPayments.deploy();
+    const libraries = {
+        GuildPayments: guildPayments.address,
+        GuildTiers: guildTiers.address,
+    };
+
+    const GuildAppExtension = await ethers.getContractFactory("GuildAppExtension", { libraries });
+    const guildAppExtension = await GuildAppExtension.deploy();
+
+    const GuildVouchers = await ethers.getContractFactory("GuildVouchers");
+    const guildVouchers = await GuildVouchers.deploy();
+    const GuildAppSubscriptionExtension = await ethers.getContractFactory("GuildAppSubscriptionExtension", {
+        libraries: {
+            ...libraries,
+            GuildVouchers: guildVouchers.address,
+        },
+    });
+    const guildAppSubscriptionExtension = await GuildAppSubscriptionExtension.deploy();
+
+    const GuildTokenURI = await ethers.getContractFactory("GuildTokenURI");
+    const guildTokenURI = await GuildTokenURI.deploy();
+
+    const GuildAppTemplate = await ethers.getContractFactory("GuildApp", {
+        libraries: {
+            ...libraries,
+            GuildTokenURI: guildTokenURI.address,
+        },
+    });
+    const guildAppTemplate = await GuildAppTemplate.deploy(guildAppExtension.address, guildAppSubscriptionExtension.address);
 
     const GuildFactory = await ethers.getContractFactory("GuildFactory");
     const guildFactory = await GuildFactory.deploy();
@@ -30,6 +60,12 @@ const main = async () => {
         const json = fs.readFileSync(ADDRESSES_FILE);
         const addresses = JSON.parse(json.length > 0 ? json : "{}");
         addresses[network.name] = {
+            GuildTiers: guildTiers.address,
+            GuildPayments: guildPayments.address,
+            GuildTokenURI: guildTokenURI.address,
+            GuildVouchers: guildVouchers.address,
+            GuildAppExtension: guildAppExtension.address,
+            GuildAppSubscriptionExtension: guildAppSubscriptionExtension.address,
             GuildAppTemplate: guildAppTemplate.address,
             GuildFactory: guildFactory.address,
         };
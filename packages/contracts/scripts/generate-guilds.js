@@ -19,8 +19,14 @@ const createGuild = async (wallet, guildFactory, tokenAddress, guildName, guildS
         await guildAppTemplate.connect(wallet).populateTransaction.initialize(
             wallet.address,
             tokenAddress,
-            SUBSCRIPTION_PRICE,
-            SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+            [
+                [
+                    "supporter", // tier name
+                    SUBSCRIPTION_PRICE,
+                    SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+                    0, // cap
+                ],
+            ],
             [
                 guildName,
                 guildSymbol,
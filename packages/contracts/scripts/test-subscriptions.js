@@ -193,6 +193,8 @@ const subscribe = async (signer, guildApp, allowanceModuleAddr, tokenAddress, de
 
     const args = [
         cpkInstance.address,
+        0, // default tier
+        tokenAddress,
         "", // tokenURI,
         deposit,
         transferSignature,
@@ -0,0 +1,351 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  Overrides,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface AllowanceModuleMockInterface extends ethers.utils.Interface {
+  functions: {
+    "allowances(address,address,address)": FunctionFragment;
+    "executeAllowanceTransfer(address,address,address,uint96,address,uint96,address,bytes)": FunctionFragment;
+    "setAllowance(address,address,uint256)": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "allowances",
+    values: [string, string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "executeAllowanceTransfer",
+    values: [
+      string,
+      string,
+      string,
+      BigNumberish,
+      string,
+      BigNumberish,
+      string,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowance",
+    values: [string, string, BigNumberish]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "allowances", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "executeAllowanceTransfer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowance",
+    data: BytesLike
+  ): Result;
+
+  events: {};
+}
+
+export class AllowanceModuleMock extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: AllowanceModuleMockInterface;
+
+  functions: {
+    allowances(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "allowances(address,address,address)"(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    executeAllowanceTransfer(
+      safe: string,
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      arg4: string,
+      arg5: BigNumberish,
+      delegate: string,
+      arg7: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "executeAllowanceTransfer(address,address,address,uint96,address,uint96,address,bytes)"(
+      safe: string,
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      arg4: string,
+      arg5: BigNumberish,
+      delegate: string,
+      arg7: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setAllowance(
+      delegate: string,
+      token: string,
+      amount: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setAllowance(address,address,uint256)"(
+      delegate: string,
+      token: string,
+      amount: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+  };
+
+  allowances(
+    arg0: string,
+    arg1: string,
+    arg2: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "allowances(address,address,address)"(
+    arg0: string,
+    arg1: string,
+    arg2: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  executeAllowanceTransfer(
+    safe: string,
+    token: string,
+    to: string,
+    amount: BigNumberish,
+    arg4: string,
+    arg5: BigNumberish,
+    delegate: string,
+    arg7: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "executeAllowanceTransfer(address,address,address,uint96,address,uint96,address,bytes)"(
+    safe: string,
+    token: string,
+    to: string,
+    amount: BigNumberish,
+    arg4: string,
+    arg5: BigNumberish,
+    delegate: string,
+    arg7: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setAllowance(
+    delegate: string,
+    token: string,
+    amount: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setAllowance(address,address,uint256)"(
+    delegate: string,
+    token: string,
+    amount: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  callStatic: {
+    allowances(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "allowances(address,address,address)"(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    executeAllowanceTransfer(
+      safe: string,
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      arg4: string,
+      arg5: BigNumberish,
+      delegate: string,
+      arg7: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "executeAllowanceTransfer(address,address,address,uint96,address,uint96,address,bytes)"(
+      safe: string,
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      arg4: string,
+      arg5: BigNumberish,
+      delegate: string,
+      arg7: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setAllowance(
+      delegate: string,
+      token: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setAllowance(address,address,uint256)"(
+      delegate: string,
+      token: string,
+      amount: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    allowances(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "allowances(address,address,address)"(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    executeAllowanceTransfer(
+      safe: string,
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      arg4: string,
+      arg5: BigNumberish,
+      delegate: string,
+      arg7: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "executeAllowanceTransfer(address,address,address,uint96,address,uint96,address,bytes)"(
+      safe: string,
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      arg4: string,
+      arg5: BigNumberish,
+      delegate: string,
+      arg7: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setAllowance(
+      delegate: string,
+      token: string,
+      amount: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setAllowance(address,address,uint256)"(
+      delegate: string,
+      token: string,
+      amount: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    allowances(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "allowances(address,address,address)"(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    executeAllowanceTransfer(
+      safe: string,
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      arg4: string,
+      arg5: BigNumberish,
+      delegate: string,
+      arg7: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "executeAllowanceTransfer(address,address,address,uint96,address,uint96,address,bytes)"(
+      safe: string,
+      token: string,
+      to: string,
+      amount: BigNumberish,
+      arg4: string,
+      arg5: BigNumberish,
+      delegate: string,
+      arg7: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setAllowance(
+      delegate: string,
+      token: string,
+      amount: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setAllowance(address,address,uint256)"(
+      delegate: string,
+      token: string,
+      amount: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
@@ -0,0 +1,140 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { AllowanceModuleMock } from "./AllowanceModuleMock";
+
+export class AllowanceModuleMockFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(overrides?: Overrides): Promise<AllowanceModuleMock> {
+    return super.deploy(overrides || {}) as Promise<AllowanceModuleMock>;
+  }
+  getDeployTransaction(overrides?: Overrides): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  attach(address: string): AllowanceModuleMock {
+    return super.attach(address) as AllowanceModuleMock;
+  }
+  connect(signer: Signer): AllowanceModuleMockFactory {
+    return super.connect(signer) as AllowanceModuleMockFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): AllowanceModuleMock {
+    return new Contract(address, _abi, signerOrProvider) as AllowanceModuleMock;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "allowances",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "safe",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "address payable",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "amount",
+        type: "uint96",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint96",
+        name: "",
+        type: "uint96",
+      },
+      {
+        internalType: "address",
+        name: "delegate",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "executeAllowanceTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "delegate",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "token",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "setAllowance",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b506104b0806100206000396000f3fe608060405234801561001057600080fd5b50600436106100415760003560e01c80634515641a14610046578063b713c9d414610138578063da46098c14610182575b600080fd5b610136600480360361010081101561005d57600080fd5b6001600160a01b038235811692602081013582169260408201358316926001600160601b036060840135811693608081013583169360a08201359092169260c08201351691810190610100810160e08201356401000000008111156100c157600080fd5b8201836020820111156100d357600080fd5b803590602001918460018302840111640100000000831117156100f557600080fd5b91908080601f0160208091040260200160405190810160405280939291908181526020018383808284376000920191909152509295506101b8945050505050565b005b6101706004803603606081101561014e57600080fd5b506001600160a01b038135811691602081013582169160409091013516610371565b60408051918252519081900360200190f35b6101366004803603606081101561019857600080fd5b506001600160a01b03813581169160208101359091169060400135610393565b336001600160a01b038316146101ff5760405162461bcd60e51b815260040180806020018281038252602f815260200180610423602f913960400191505060405180910390fd5b6001600160a01b0380891660009081526020818152604080832086851684528252808320938b16835292905220546001600160601b03861611156102745760405162461bcd60e51b81526004018080602001828103825260298152602001806104526029913960400191505060405180910390fd5b6001600160a01b0380891660009081526020818152604080832086851684528252808320938b16835292905220546102b5906001600160601b0387166103c5565b6001600160a01b03808a16600081815260208181526040808320888616845282528083208d86168085529083528184209690965580516323b872dd60e01b81526004810194909452938b1660248401526001600160601b038a16604484015292516323b872dd936064808501949193918390030190829087803b15801561033b57600080fd5b505af115801561034f573d6000803e3d6000fd5b505050506040513d602081101561036557600080fd5b50505050505050505050565b6000602081815293815260408082208552928152828120909352825290205481565b336000908152602081815260408083206001600160a01b03968716845282528083209490951682529290925291902055565b60008282111561041c576040805162461bcd60e51b815260206004820152601e60248201527f536166654d6174683a207375627472616374696f6e206f766572666c6f770000604482015290519081900360640190fd5b5090039056fe416c6c6f77616e63654d6f64756c654d6f636b3a2053656e646572206973206e6f74207468652064656c6567617465416c6c6f77616e63654d6f64756c654d6f636b3a204e6f7420656e6f75676820616c6c6f77616e6365a26469706673582212206018d18e48851ff90ec70dca59e3deb32c24fa014de3c1b4914c9dbf989df3e564736f6c63430007060033";
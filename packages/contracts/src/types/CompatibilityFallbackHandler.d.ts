@@ -0,0 +1,888 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  Overrides,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface CompatibilityFallbackHandlerInterface extends ethers.utils.Interface {
+  functions: {
+    "NAME()": FunctionFragment;
+    "VERSION()": FunctionFragment;
+    "getMessageHash(bytes)": FunctionFragment;
+    "getMessageHashForSafe(address,bytes)": FunctionFragment;
+    "getModules()": FunctionFragment;
+    "isValidSignature(bytes32,bytes)": FunctionFragment;
+    "onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)": FunctionFragment;
+    "onERC1155Received(address,address,uint256,uint256,bytes)": FunctionFragment;
+    "onERC721Received(address,address,uint256,bytes)": FunctionFragment;
+    "simulate(address,bytes)": FunctionFragment;
+    "supportsInterface(bytes4)": FunctionFragment;
+    "tokensReceived(address,address,address,uint256,bytes,bytes)": FunctionFragment;
+  };
+
+  encodeFunctionData(functionFragment: "NAME", values?: undefined): string;
+  encodeFunctionData(functionFragment: "VERSION", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getMessageHash",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMessageHashForSafe",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getModules",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "isValidSignature",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onERC1155BatchReceived",
+    values: [string, string, BigNumberish[], BigNumberish[], BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onERC1155Received",
+    values: [string, string, BigNumberish, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onERC721Received",
+    values: [string, string, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "simulate",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokensReceived",
+    values: [string, string, string, BigNumberish, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "NAME", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "VERSION", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getMessageHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMessageHashForSafe",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getModules", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isValidSignature",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onERC1155BatchReceived",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onERC1155Received",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onERC721Received",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "simulate", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokensReceived",
+    data: BytesLike
+  ): Result;
+
+  events: {};
+}
+
+export class CompatibilityFallbackHandler extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: CompatibilityFallbackHandlerInterface;
+
+  functions: {
+    NAME(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "NAME()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    VERSION(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "VERSION()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    getMessageHash(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "getMessageHash(bytes)"(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    getMessageHashForSafe(
+      safe: string,
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "getMessageHashForSafe(address,bytes)"(
+      safe: string,
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    getModules(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
+
+    "getModules()"(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
+
+    "isValidSignature(bytes32,bytes)"(
+      _dataHash: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    onERC1155BatchReceived(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish[],
+      arg3: BigNumberish[],
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish[],
+      arg3: BigNumberish[],
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    onERC1155Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "onERC1155Received(address,address,uint256,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    onERC721Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "onERC721Received(address,address,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    simulate(
+      targetContract: string,
+      calldataPayload: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "simulate(address,bytes)"(
+      targetContract: string,
+      calldataPayload: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    tokensReceived(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      arg5: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: void;
+    }>;
+
+    "tokensReceived(address,address,address,uint256,bytes,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      arg5: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: void;
+    }>;
+  };
+
+  NAME(overrides?: CallOverrides): Promise<string>;
+
+  "NAME()"(overrides?: CallOverrides): Promise<string>;
+
+  VERSION(overrides?: CallOverrides): Promise<string>;
+
+  "VERSION()"(overrides?: CallOverrides): Promise<string>;
+
+  getMessageHash(
+    message: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "getMessageHash(bytes)"(
+    message: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  getMessageHashForSafe(
+    safe: string,
+    message: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "getMessageHashForSafe(address,bytes)"(
+    safe: string,
+    message: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  getModules(overrides?: CallOverrides): Promise<string[]>;
+
+  "getModules()"(overrides?: CallOverrides): Promise<string[]>;
+
+  "isValidSignature(bytes32,bytes)"(
+    _dataHash: BytesLike,
+    _signature: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "isValidSignature(bytes,bytes)"(
+    _data: BytesLike,
+    _signature: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  onERC1155BatchReceived(
+    arg0: string,
+    arg1: string,
+    arg2: BigNumberish[],
+    arg3: BigNumberish[],
+    arg4: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)"(
+    arg0: string,
+    arg1: string,
+    arg2: BigNumberish[],
+    arg3: BigNumberish[],
+    arg4: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  onERC1155Received(
+    arg0: string,
+    arg1: string,
+    arg2: BigNumberish,
+    arg3: BigNumberish,
+    arg4: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "onERC1155Received(address,address,uint256,uint256,bytes)"(
+    arg0: string,
+    arg1: string,
+    arg2: BigNumberish,
+    arg3: BigNumberish,
+    arg4: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  onERC721Received(
+    arg0: string,
+    arg1: string,
+    arg2: BigNumberish,
+    arg3: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "onERC721Received(address,address,uint256,bytes)"(
+    arg0: string,
+    arg1: string,
+    arg2: BigNumberish,
+    arg3: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  simulate(
+    targetContract: string,
+    calldataPayload: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "simulate(address,bytes)"(
+    targetContract: string,
+    calldataPayload: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  supportsInterface(
+    interfaceId: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "supportsInterface(bytes4)"(
+    interfaceId: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  tokensReceived(
+    arg0: string,
+    arg1: string,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BytesLike,
+    arg5: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<void>;
+
+  "tokensReceived(address,address,address,uint256,bytes,bytes)"(
+    arg0: string,
+    arg1: string,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BytesLike,
+    arg5: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<void>;
+
+  callStatic: {
+    NAME(overrides?: CallOverrides): Promise<string>;
+
+    "NAME()"(overrides?: CallOverrides): Promise<string>;
+
+    VERSION(overrides?: CallOverrides): Promise<string>;
+
+    "VERSION()"(overrides?: CallOverrides): Promise<string>;
+
+    getMessageHash(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "getMessageHash(bytes)"(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    getMessageHashForSafe(
+      safe: string,
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "getMessageHashForSafe(address,bytes)"(
+      safe: string,
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    getModules(overrides?: CallOverrides): Promise<string[]>;
+
+    "getModules()"(overrides?: CallOverrides): Promise<string[]>;
+
+    "isValidSignature(bytes32,bytes)"(
+      _dataHash: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    onERC1155BatchReceived(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish[],
+      arg3: BigNumberish[],
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish[],
+      arg3: BigNumberish[],
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    onERC1155Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "onERC1155Received(address,address,uint256,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    onERC721Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "onERC721Received(address,address,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    simulate(
+      targetContract: string,
+      calldataPayload: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "simulate(address,bytes)"(
+      targetContract: string,
+      calldataPayload: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    tokensReceived(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      arg5: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "tokensReceived(address,address,address,uint256,bytes,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      arg5: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    NAME(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "NAME()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    VERSION(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "VERSION()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    getMessageHash(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getMessageHash(bytes)"(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getMessageHashForSafe(
+      safe: string,
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getMessageHashForSafe(address,bytes)"(
+      safe: string,
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getModules(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "getModules()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "isValidSignature(bytes32,bytes)"(
+      _dataHash: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    onERC1155BatchReceived(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish[],
+      arg3: BigNumberish[],
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish[],
+      arg3: BigNumberish[],
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    onERC1155Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "onERC1155Received(address,address,uint256,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    onERC721Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "onERC721Received(address,address,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    simulate(
+      targetContract: string,
+      calldataPayload: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "simulate(address,bytes)"(
+      targetContract: string,
+      calldataPayload: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    tokensReceived(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      arg5: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "tokensReceived(address,address,address,uint256,bytes,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      arg5: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    NAME(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "NAME()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    VERSION(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "VERSION()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    getMessageHash(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getMessageHash(bytes)"(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getMessageHashForSafe(
+      safe: string,
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getMessageHashForSafe(address,bytes)"(
+      safe: string,
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getModules(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "getModules()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "isValidSignature(bytes32,bytes)"(
+      _dataHash: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    onERC1155BatchReceived(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish[],
+      arg3: BigNumberish[],
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "onERC1155BatchReceived(address,address,uint256[],uint256[],bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish[],
+      arg3: BigNumberish[],
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    onERC1155Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "onERC1155Received(address,address,uint256,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    onERC721Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "onERC721Received(address,address,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    simulate(
+      targetContract: string,
+      calldataPayload: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "simulate(address,bytes)"(
+      targetContract: string,
+      calldataPayload: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    tokensReceived(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      arg5: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "tokensReceived(address,address,address,uint256,bytes,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BytesLike,
+      arg5: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
@@ -0,0 +1,369 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { CompatibilityFallbackHandler } from "./CompatibilityFallbackHandler";
+
+export class CompatibilityFallbackHandlerFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(overrides?: Overrides): Promise<CompatibilityFallbackHandler> {
+    return super.deploy(
+      overrides || {}
+    ) as Promise<CompatibilityFallbackHandler>;
+  }
+  getDeployTransaction(overrides?: Overrides): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  attach(address: string): CompatibilityFallbackHandler {
+    return super.attach(address) as CompatibilityFallbackHandler;
+  }
+  connect(signer: Signer): CompatibilityFallbackHandlerFactory {
+    return super.connect(signer) as CompatibilityFallbackHandlerFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): CompatibilityFallbackHandler {
+    return new Contract(
+      address,
+      _abi,
+      signerOrProvider
+    ) as CompatibilityFallbackHandler;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [],
+    name: "NAME",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VERSION",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "message",
+        type: "bytes",
+      },
+    ],
+    name: "getMessageHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "contract GnosisSafe",
+        name: "safe",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "message",
+        type: "bytes",
+      },
+    ],
+    name: "getMessageHashForSafe",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getModules",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_dataHash",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    name: "isValidSignature",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    name: "isValidSignature",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "onERC1155BatchReceived",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "onERC1155Received",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "onERC721Received",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "targetContract",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "calldataPayload",
+        type: "bytes",
+      },
+    ],
+    name: "simulate",
+    outputs: [
+      {
+        internalType: "bytes",
+        name: "response",
+        type: "bytes",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "tokensReceived",
+    outputs: [],
+    stateMutability: "pure",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b50610f30806100206000396000f3fe608060405234801561001057600080fd5b50600436106100ce5760003560e01c80636ac247841161008c578063bc197c8111610066578063bc197c8114610613578063bd61951d1461073a578063f23a6e61146107b8578063ffa1ad741461084b576100ce565b80636ac247841461048a578063a3f4df7e1461053e578063b2494df3146105bb576100ce565b806223de29146100d357806301ffc9a7146101bb5780630a1028c4146101f6578063150b7a02146102ac5780631626ba7e1461035757806320c13b0b146103cc575b600080fd5b6101b9600480360360c08110156100e957600080fd5b6001600160a01b03823581169260208101358216926040820135909216916060820135919081019060a081016080820135600160201b81111561012b57600080fd5b82018360208201111561013d57600080fd5b803590602001918460018302840111600160201b8311171561015e57600080fd5b919390929091602081019035600160201b81111561017b57600080fd5b82018360208201111561018d57600080fd5b803590602001918460018302840111600160201b831117156101ae57600080fd5b509092509050610853565b005b6101e2600480360360208110156101d157600080fd5b50356001600160e01b03191661085d565b604080519115158252519081900360200190f35b61029a6004803603602081101561020c57600080fd5b810190602081018135600160201b81111561022657600080fd5b82018360208201111561023857600080fd5b803590602001918460018302840111600160201b8311171561025957600080fd5b91908080601f0160208091040260200160405190810160405280939291908181526020018383808284376000920191909152509295506108af945050505050565b60408051918252519081900360200190f35b61033a600480360360808110156102c257600080fd5b6001600160a01b03823581169260208101359091169160408201359190810190608081016060820135600160201b8111156102fc57600080fd5b82018360208201111561030e57600080fd5b803590602001918460018302840111600160201b8311171561032f57600080fd5b5090925090506108bb565b604080516001600160e01b03199092168252519081900360200190f35b61033a6004803603604081101561036d57600080fd5b81359190810190604081016020820135600160201b81111561038e57600080fd5b8201836020820111156103a057600080fd5b803590602001918460018302840111600160201b831117156103c157600080fd5b5090925090506108cc565b61033a600480360360408110156103e257600080fd5b810190602081018135600160201b8111156103fc57600080fd5b82018360208201111561040e57600080fd5b803590602001918460018302840111600160201b8311171561042f57600080fd5b919390929091602081019035600160201b81111561044c57600080fd5b82018360208201111561045e57600080fd5b803590602001918460018302840111600160201b8311171561047f57600080fd5b509092509050610a1b565b61029a600480360360408110156104a057600080fd5b6001600160a01b038235169190810190604081016020820135600160201b8111156104ca57600080fd5b8201836020820111156104dc57600080fd5b803590602001918460018302840111600160201b831117156104fd57600080fd5b91908080601f016020809104026020016040519081016040528093929190818152602001838380828437600092019190915250929550610bf4945050505050565b610546610d12565b6040805160208082528351818301528351919283929083019185019080838360005b83811015610580578181015183820152602001610568565b50505050905090810190601f1680156105ad5780820380516001836020036101000a031916815260200191505b509250505060405180910390f35b6105c3610d4b565b60408051602080825283518183015283519192839290830191858101910280838360005b838110156105ff5781810151838201526020016105e7565b505050509050019250505060405180910390f35b61033a600480360360a081101561062957600080fd5b6001600160a01b038235811692602081013590911691810190606081016040820135600160201b81111561065c57600080fd5b82018360208201111561066e57600080fd5b803590602001918460208302840111600160201b8311171561068f57600080fd5b919390929091602081019035600160201b8111156106ac57600080fd5b8201836020820111156106be57600080fd5b803590602001918460208302840111600160201b831117156106df57600080fd5b919390929091602081019035600160201b8111156106fc57600080fd5b82018360208201111561070e57600080fd5b803590602001918460018302840111600160201b8311171561072f57600080fd5b509092509050610e69565b6105466004803603604081101561075057600080fd5b6001600160a01b038235169190810190604081016020820135600160201b81111561077a57600080fd5b82018360208201111561078c57600080fd5b803590602001918460018302840111600160201b831117156107ad57600080fd5b509092509050610e7d565b61033a600480360360a08110156107ce57600080fd5b6001600160a01b03823581169260208101359091169160408201359160608101359181019060a081016080820135600160201b81111561080d57600080fd5b82018360208201111561081f57600080fd5b803590602001918460018302840111600160201b8311171561084057600080fd5b509092509050610ec7565b610546610ed9565b5050505050505050565b60006001600160e01b03198216630271189760e51b148061088e57506001600160e01b03198216630a85bd0160e11b145b806108a957506001600160e01b031982166301ffc9a760e01b145b92915050565b60006108a93383610bf4565b630a85bd0160e11b95945050505050565b6040805160208082018690528251808303820181528284018085526320c13b0b60e01b9052604483019384528051608484015280516000943394869486946320c13b0b9490938b938b9391928392606483019260a40191908801908083838e5b8381101561094457818101518382015260200161092c565b50505050905090810190601f1680156109715780820380516001836020036101000a031916815260200191505b508381038252848152602001858580828437600081840152601f19601f8201169050808301925050509550505050505060206040518083038186803b1580156109b957600080fd5b505afa1580156109cd573d6000803e3d6000fd5b505050506040513d60208110156109e357600080fd5b505190506001600160e01b031981166320c13b0b60e01b14610a06576000610a0f565b630b135d3f60e11b5b925050505b9392505050565b6000803390506000610a638288888080601f016020809104026020016040519081016040528093929190818152602001838380828437600092019190915250610bf492505050565b905083610b2457816001600160a01b0316635ae6bd37826040518263ffffffff1660e01b81526004018082815260200191505060206040518083038186803b158015610aae57600080fd5b505afa158015610ac2573d6000803e3d6000fd5b505050506040513d6020811015610ad857600080fd5b5051610b1f576040805162461bcd60e51b815260206004820152601160248201527012185cda081b9bdd08185c1c1c9bdd9959607a1b604482015290519081900360640190fd5b610be1565b816001600160a01b031663934f3a1182898989896040518663ffffffff1660e01b81526004018086815260200180602001806020018381038352878782818152602001925080828437600083820152601f01601f191690910184810383528581526020019050858580828437600081840152601f19601f82011690508083019250505097505050505050505060006040518083038186803b158015610bc857600080fd5b505afa158015610bdc573d6000803e3d6000fd5b505050505b506320c13b0b60e01b9695505050505050565b6000807f60b3cbf8b4a223d68d641b3b6ddf9a298e7f33710cf3d3a9d1146b5a6150fbca60001b83805190602001206040516020018083815260200182815260200192505050604051602081830303815290604052805190602001209050601960f81b600160f81b856001600160a01b031663f698da256040518163ffffffff1660e01b815260040160206040518083038186803b158015610c9557600080fd5b505afa158015610ca9573d6000803e3d6000fd5b505050506040513d6020811015610cbf57600080fd5b5051604080516001600160f81b0319948516602080830191909152939094166021850152602284019190915260428084019490945280518084039094018452606290920190915281519101209392505050565b6040518060400160405280601881526020017f44656661756c742043616c6c6261636b2048616e646c6572000000000000000081525081565b60408051636617c22960e11b815260016004820152600a602482015290516060913391600091839163cc2f8452916044808201928692909190829003018186803b158015610d9857600080fd5b505afa158015610dac573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f191682016040908152811015610dd557600080fd5b8101908080516040519392919084600160201b821115610df457600080fd5b908301906020820185811115610e0957600080fd5b82518660208202830111600160201b82111715610e2557600080fd5b82525081516020918201928201910280838360005b83811015610e52578181015183820152602001610e3a565b505050509190910160405250929550505050505090565b63bc197c8160e01b98975050505050505050565b606060405163b4faba0960e01b8152600436036004808301376020600036836000335af1505060203d036040519150808201604052806020833e50600051610a1457805160208201fd5b63f23a6e6160e01b9695505050505050565b604051806040016040528060058152602001640312e302e360dc1b8152508156fea264697066735822122019872c28d1e18ac0c59f15606652777fa881dc85af233662ff108ca4700adbf564736f6c63430007060033";
@@ -172,6 +172,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "DOMAIN_SEPARATOR",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "MINTER_ROLE",
@@ -185,6 +198,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "PERMIT_TYPEHASH",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -466,6 +492,73 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "holder",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "nonce",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "allowed",
+        type: "bool",
+      },
+      {
+        internalType: "uint8",
+        name: "v",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "r",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "permit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -581,7 +674,20 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "version",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
 ];
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b506117bc806100206000396000f3fe608060405234801561001057600080fd5b50600436106101425760003560e01c806370a08231116100b8578063a457c2d71161007c578063a457c2d71461050f578063a9059cbb1461053b578063ca15c87314610567578063d539139314610584578063d547741f1461058c578063dd62ed3e146105b857610142565b806370a082311461046e5780639010d07c1461049457806391d14854146104d357806395d89b41146104ff578063a217fddf1461050757610142565b80632f2ff15d1161010a5780632f2ff15d14610271578063313ce5671461029f57806336568abe146102bd57806339509351146102e957806340c10f19146103155780634cd88b761461034157610142565b806306fdde0314610147578063095ea7b3146101c457806318160ddd1461020457806323b872dd1461021e578063248a9ca314610254575b600080fd5b61014f6105e6565b6040805160208082528351818301528351919283929083019185019080838360005b83811015610189578181015183820152602001610171565b50505050905090810190601f1680156101b65780820380516001836020036101000a031916815260200191505b509250505060405180910390f35b6101f0600480360360408110156101da57600080fd5b506001600160a01b03813516906020013561067c565b604080519115158252519081900360200190f35b61020c61069a565b60408051918252519081900360200190f35b6101f06004803603606081101561023457600080fd5b506001600160a01b038135811691602081013590911690604001356106a0565b61020c6004803603602081101561026a57600080fd5b5035610727565b61029d6004803603604081101561028757600080fd5b50803590602001356001600160a01b031661073c565b005b6102a76107a8565b6040805160ff9092168252519081900360200190f35b61029d600480360360408110156102d357600080fd5b50803590602001356001600160a01b03166107b1565b6101f0600480360360408110156102ff57600080fd5b506001600160a01b038135169060200135610812565b61029d6004803603604081101561032b57600080fd5b506001600160a01b038135169060200135610860565b61029d6004803603604081101561035757600080fd5b81019060208101813564010000000081111561037257600080fd5b82018360208201111561038457600080fd5b803590602001918460018302840111640100000000831117156103a657600080fd5b91908080601f01602080910402602001604051908101604052809392919081815260200183838082843760009201919091525092959493602081019350359150506401000000008111156103f957600080fd5b82018360208201111561040b57600080fd5b8035906020019184600183028401116401000000008311171561042d57600080fd5b91908080601f0160208091040260200160405190810160405280939291908181526020018383808284376000920191909152509295506108d1945050505050565b61020c6004803603602081101561048457600080fd5b50356001600160a01b03166109c5565b6104b7600480360360408110156104aa57600080fd5b50803590602001356109e0565b604080516001600160a01b039092168252519081900360200190f35b6101f0600480360360408110156104e957600080fd5b50803590602001356001600160a01b03166109ff565b61014f610a17565b61020c610a78565b6101f06004803603604081101561052557600080fd5b506001600160a01b038135169060200135610a7d565b6101f06004803603604081101561055157600080fd5b506001600160a01b038135169060200135610ae5565b61020c6004803603602081101561057d57600080fd5b5035610af9565b61020c610b10565b61029d600480360360408110156105a257600080fd5b50803590602001356001600160a01b0316610b34565b61020c600480360360408110156105ce57600080fd5b506001600160a01b0381358116916020013516610b8d565b60688054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156106725780601f1061064757610100808354040283529160200191610672565b820191906000526020600020905b81548152906001019060200180831161065557829003601f168201915b5050505050905090565b6000610690610689610bb8565b8484610bbc565b5060015b92915050565b60675490565b60006106ad848484610ca8565b61071d846106b9610bb8565b6107188560405180606001604052806028815260200161168c602891396001600160a01b038a166000908152606660205260408120906106f7610bb8565b6001600160a01b031681526020810191909152604001600020549190610e05565b610bbc565b5060019392505050565b60009081526033602052604090206002015490565b60008281526033602052604090206002015461075f9061075a610bb8565b6109ff565b61079a5760405162461bcd60e51b815260040180806020018281038252602f8152602001806115b7602f913960400191505060405180910390fd5b6107a48282610e9c565b5050565b606a5460ff1690565b6107b9610bb8565b6001600160a01b0316816001600160a01b0316146108085760405162461bcd60e51b815260040180806020018281038252602f815260200180611758602f913960400191505060405180910390fd5b6107a48282610f05565b600061069061081f610bb8565b846107188560666000610830610bb8565b6001600160a01b03908116825260208083019390935260409182016000908120918c168152925290205490610f6e565b61088c7f9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a661075a610bb8565b6108c75760405162461bcd60e51b81526004018080602001828103825260368152602001806116b46036913960400191505060405180910390fd5b6107a48282610fc8565b600054610100900460ff16806108ea57506108ea6110ba565b806108f8575060005460ff16155b6109335760405162461bcd60e51b815260040180806020018281038252602e81526020018061165e602e913960400191505060405180910390fd5b600054610100900460ff1615801561095e576000805460ff1961ff0019909116610100171660011790555b61096883836110cb565b61097061116a565b610982600061097d610bb8565b61079a565b6109ae7f9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a661097d610bb8565b80156109c0576000805461ff00191690555b505050565b6001600160a01b031660009081526065602052604090205490565b60008281526033602052604081206109f8908361120c565b9392505050565b60008281526033602052604081206109f89083611218565b60698054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156106725780601f1061064757610100808354040283529160200191610672565b600081565b6000610690610a8a610bb8565b84610718856040518060600160405280602581526020016117336025913960666000610ab4610bb8565b6001600160a01b03908116825260208083019390935260409182016000908120918d16815292529020549190610e05565b6000610690610af2610bb8565b8484610ca8565b60008181526033602052604081206106949061122d565b7f9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a681565b600082815260336020526040902060020154610b529061075a610bb8565b6108085760405162461bcd60e51b815260040180806020018281038252603081526020018061162e6030913960400191505060405180910390fd5b6001600160a01b03918216600090815260666020908152604080832093909416825291909152205490565b3390565b6001600160a01b038316610c015760405162461bcd60e51b815260040180806020018281038252602481526020018061170f6024913960400191505060405180910390fd5b6001600160a01b038216610c465760405162461bcd60e51b81526004018080602001828103825260228152602001806115e66022913960400191505060405180910390fd5b6001600160a01b03808416600081815260666020908152604080832094871680845294825291829020859055815185815291517f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9259281900390910190a3505050565b6001600160a01b038316610ced5760405162461bcd60e51b81526004018080602001828103825260258152602001806116ea6025913960400191505060405180910390fd5b6001600160a01b038216610d325760405162461bcd60e51b81526004018080602001828103825260238152602001806115946023913960400191505060405180910390fd5b610d3d8383836109c0565b610d7a81604051806060016040528060268152602001611608602691396001600160a01b0386166000908152606560205260409020549190610e05565b6001600160a01b038085166000908152606560205260408082209390935590841681522054610da99082610f6e565b6001600160a01b0380841660008181526065602090815260409182902094909455805185815290519193928716927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef92918290030190a3505050565b60008184841115610e945760405162461bcd60e51b81526004018080602001828103825283818151815260200191508051906020019080838360005b83811015610e59578181015183820152602001610e41565b50505050905090810190601f168015610e865780820380516001836020036101000a031916815260200191505b509250505060405180910390fd5b505050900390565b6000828152603360205260409020610eb49082611238565b156107a457610ec1610bb8565b6001600160a01b0316816001600160a01b0316837f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a45050565b6000828152603360205260409020610f1d908261124d565b156107a457610f2a610bb8565b6001600160a01b0316816001600160a01b0316837ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b60405160405180910390a45050565b6000828201838110156109f8576040805162461bcd60e51b815260206004820152601b60248201527f536166654d6174683a206164646974696f6e206f766572666c6f770000000000604482015290519081900360640190fd5b6001600160a01b038216611023576040805162461bcd60e51b815260206004820152601f60248201527f45524332303a206d696e7420746f20746865207a65726f206164647265737300604482015290519081900360640190fd5b61102f600083836109c0565b60675461103c9082610f6e565b6067556001600160a01b0382166000908152606560205260409020546110629082610f6e565b6001600160a01b03831660008181526065602090815260408083209490945583518581529351929391927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9281900390910190a35050565b60006110c530611262565b15905090565b600054610100900460ff16806110e457506110e46110ba565b806110f2575060005460ff16155b61112d5760405162461bcd60e51b815260040180806020018281038252602e81526020018061165e602e913960400191505060405180910390fd5b600054610100900460ff16158015611158576000805460ff1961ff0019909116610100171660011790555b61116061116a565b6109ae8383611268565b600054610100900460ff168061118357506111836110ba565b80611191575060005460ff16155b6111cc5760405162461bcd60e51b815260040180806020018281038252602e81526020018061165e602e913960400191505060405180910390fd5b600054610100900460ff161580156111f7576000805460ff1961ff0019909116610100171660011790555b8015611209576000805461ff00191690555b50565b60006109f88383611340565b60006109f8836001600160a01b0384166113a4565b6000610694826113bc565b60006109f8836001600160a01b0384166113c0565b60006109f8836001600160a01b03841661140a565b3b151590565b600054610100900460ff168061128157506112816110ba565b8061128f575060005460ff16155b6112ca5760405162461bcd60e51b815260040180806020018281038252602e81526020018061165e602e913960400191505060405180910390fd5b600054610100900460ff161580156112f5576000805460ff1961ff0019909116610100171660011790555b82516113089060689060208601906114d0565b50815161131c9060699060208501906114d0565b50606a805460ff1916601217905580156109c0576000805461ff0019169055505050565b815460009082106113825760405162461bcd60e51b81526004018080602001828103825260228152602001806115726022913960400191505060405180910390fd5b82600001828154811061139157fe5b9060005260206000200154905092915050565b60009081526001919091016020526040902054151590565b5490565b60006113cc83836113a4565b61140257508154600181810184556000848152602080822090930184905584548482528286019093526040902091909155610694565b506000610694565b600081815260018301602052604081205480156114c6578354600019808301919081019060009087908390811061143d57fe5b906000526020600020015490508087600001848154811061145a57fe5b60009182526020808320909101929092558281526001898101909252604090209084019055865487908061148a57fe5b60019003818190600052602060002001600090559055866001016000878152602001908152602001600020600090556001945050505050610694565b6000915050610694565b828054600181600116156101000203166002900490600052602060002090601f016020900481019282611506576000855561154c565b82601f1061151f57805160ff191683800117855561154c565b8280016001018555821561154c579182015b8281111561154c578251825591602001919060010190611531565b5061155892915061155c565b5090565b5b80821115611558576000815560010161155d56fe456e756d657261626c655365743a20696e646578206f7574206f6620626f756e647345524332303a207472616e7366657220746f20746865207a65726f2061646472657373416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f206772616e7445524332303a20617070726f766520746f20746865207a65726f206164647265737345524332303a207472616e7366657220616d6f756e7420657863656564732062616c616e6365416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f207265766f6b65496e697469616c697a61626c653a20636f6e747261637420697320616c726561647920696e697469616c697a656445524332303a207472616e7366657220616d6f756e74206578636565647320616c6c6f77616e636545524332305072657365744d696e7465725061757365723a206d7573742068617665206d696e74657220726f6c6520746f206d696e7445524332303a207472616e736665722066726f6d20746865207a65726f206164647265737345524332303a20617070726f76652066726f6d20746865207a65726f206164647265737345524332303a2064656372656173656420616c6c6f77616e63652062656c6f77207a65726f416363657373436f6e74726f6c3a2063616e206f6e6c792072656e6f756e636520726f6c657320666f722073656c66a2646970667358221220ddee9e17c2ddf0bbe608b42177e52a9b06ccf2d5605e235f913fa6b553903d3464736f6c63430007060033";
+  "0x608060405234801561001057600080fd5b50611c65806100206000396000f3fe608060405234801561001057600080fd5b50600436106101a95760003560e01c806354fd4d50116100f9578063a217fddf11610097578063ca15c87311610071578063ca15c87314610666578063d539139314610683578063d547741f1461068b578063dd62ed3e146106b7576101a9565b8063a217fddf14610606578063a457c2d71461060e578063a9059cbb1461063a576101a9565b80638fcbaf0c116100d35780638fcbaf0c146105395780639010d07c1461059357806391d14854146105d257806395d89b41146105fe576101a9565b806354fd4d50146104e557806370a08231146104ed5780637ecebe0014610513576101a9565b806330adf81f1161016657806336568abe1161014057806336568abe14610334578063395093511461036057806340c10f191461038c5780634cd88b76146103b8576101a9565b806330adf81f14610306578063313ce5671461030e5780633644e5151461032c576101a9565b806306fdde03146101ae578063095ea7b31461022b57806318160ddd1461026b57806323b872dd14610285578063248a9ca3146102bb5780632f2ff15d146102d8575b600080fd5b6101b66106e5565b6040805160208082528351818301528351919283929083019185019080838360005b838110156101f05781810151838201526020016101d8565b50505050905090810190601f16801561021d5780820380516001836020036101000a031916815260200191505b509250505060405180910390f35b6102576004803603604081101561024157600080fd5b506001600160a01b03813516906020013561077b565b604080519115158252519081900360200190f35b610273610799565b60408051918252519081900360200190f35b6102576004803603606081101561029b57600080fd5b506001600160a01b0381358116916020810135909116906040013561079f565b610273600480360360208110156102d157600080fd5b5035610826565b610304600480360360408110156102ee57600080fd5b50803590602001356001600160a01b031661083b565b005b6102736108a7565b6103166108cb565b6040805160ff9092168252519081900360200190f35b6102736108d4565b6103046004803603604081101561034a57600080fd5b50803590602001356001600160a01b03166108da565b6102576004803603604081101561037657600080fd5b506001600160a01b03813516906020013561093b565b610304600480360360408110156103a257600080fd5b506001600160a01b038135169060200135610989565b610304600480360360408110156103ce57600080fd5b8101906020810181356401000000008111156103e957600080fd5b8201836020820111156103fb57600080fd5b8035906020019184600183028401116401000000008311171561041d57600080fd5b91908080601f016020809104026020016040519081016040528093929190818152602001838380828437600092019190915250929594936020810193503591505064010000000081111561047057600080fd5b82018360208201111561048257600080fd5b803590602001918460018302840111640100000000831117156104a457600080fd5b91908080601f0160208091040260200160405190810160405280939291908181526020018383808284376000920191909152509295506109fa945050505050565b6101b6610b8c565b6102736004803603602081101561050357600080fd5b50356001600160a01b0316610ba9565b6102736004803603602081101561052957600080fd5b50356001600160a01b0316610bc4565b610304600480360361010081101561055057600080fd5b506001600160a01b038135811691602081013590911690604081013590606081013590608081013515159060ff60a0820135169060c08101359060e00135610bd6565b6105b6600480360360408110156105a957600080fd5b5080359060200135610e73565b604080516001600160a01b039092168252519081900360200190f35b610257600480360360408110156105e857600080fd5b50803590602001356001600160a01b0316610e92565b6101b6610eaa565b610273610f0b565b6102576004803603604081101561062457600080fd5b506001600160a01b038135169060200135610f10565b6102576004803603604081101561065057600080fd5b506001600160a01b038135169060200135610f78565b6102736004803603602081101561067c57600080fd5b5035610f8c565b610273610fa3565b610304600480360360408110156106a157600080fd5b50803590602001356001600160a01b0316610fc7565b610273600480360360408110156106cd57600080fd5b506001600160a01b0381358116916020013516611020565b60688054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156107715780601f1061074657610100808354040283529160200191610771565b820191906000526020600020905b81548152906001019060200180831161075457829003601f168201915b5050505050905090565b600061078f61078861104b565b848461104f565b5060015b92915050565b60675490565b60006107ac84848461113b565b61081c846107b861104b565b61081785604051806060016040528060288152602001611b35602891396001600160a01b038a166000908152606660205260408120906107f661104b565b6001600160a01b031681526020810191909152604001600020549190611298565b61104f565b5060019392505050565b60009081526033602052604090206002015490565b60008281526033602052604090206002015461085e9061085961104b565b610e92565b6108995760405162461bcd60e51b815260040180806020018281038252602f815260200180611a60602f913960400191505060405180910390fd5b6108a3828261132f565b5050565b7fea2aa0a1be11a07ed86d755c93467f4f82362b452371d1ba94d1715123511acb81565b606a5460ff1690565b60975481565b6108e261104b565b6001600160a01b0316816001600160a01b0316146109315760405162461bcd60e51b815260040180806020018281038252602f815260200180611c01602f913960400191505060405180910390fd5b6108a38282611398565b600061078f61094861104b565b84610817856066600061095961104b565b6001600160a01b03908116825260208083019390935260409182016000908120918c168152925290205490611401565b6109b57f9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a661085961104b565b6109f05760405162461bcd60e51b8152600401808060200182810382526036815260200180611b5d6036913960400191505060405180910390fd5b6108a3828261145b565b600054610100900460ff1680610a135750610a1361154d565b80610a21575060005460ff16155b610a5c5760405162461bcd60e51b815260040180806020018281038252602e815260200180611b07602e913960400191505060405180910390fd5b600054610100900460ff16158015610a87576000805460ff1961ff0019909116610100171660011790555b610a91838361155e565b610a99611613565b610aab6000610aa661104b565b610899565b610ad77f9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a6610aa661104b565b825160208085019190912060408051808201825260018152603160f81b9084015280517f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f81850152808201929092527fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc660608301524660808301523060a0808401919091528151808403909101815260c0909201905280519101206097558015610b87576000805461ff00191690555b505050565b604051806040016040528060018152602001603160f81b81525081565b6001600160a01b031660009081526065602052604090205490565b60986020526000908152604090205481565b609754604080517fea2aa0a1be11a07ed86d755c93467f4f82362b452371d1ba94d1715123511acb6020808301919091526001600160a01b03808d16838501819052908c166060840152608083018b905260a083018a905288151560c0808501919091528451808503909101815260e08401855280519083012061190160f01b61010085015261010284019590955261012280840195909552835180840390950185526101429092019092528251929091019190912090610cd6576040805162461bcd60e51b815260206004820152601560248201527404461692f696e76616c69642d616464726573732d3605c1b604482015290519081900360640190fd5b60018185858560405160008152602001604052604051808581526020018460ff1681526020018381526020018281526020019450505050506020604051602081039080840390855afa158015610d30573d6000803e3d6000fd5b505050602060405103516001600160a01b0316896001600160a01b031614610d94576040805162461bcd60e51b815260206004820152601260248201527111185a4bda5b9d985b1a590b5c195c9b5a5d60721b604482015290519081900360640190fd5b851580610da15750854211155b610de7576040805162461bcd60e51b815260206004820152601260248201527111185a4bdc195c9b5a5d0b595e1c1a5c995960721b604482015290519081900360640190fd5b6001600160a01b03891660009081526098602052604090208054600181019091558714610e4f576040805162461bcd60e51b81526020600482015260116024820152704461692f696e76616c69642d6e6f6e636560781b604482015290519081900360640190fd5b610e68898987610e60576000610817565b60001961104f565b505050505050505050565b6000828152603360205260408120610e8b90836116b5565b9392505050565b6000828152603360205260408120610e8b90836116c1565b60698054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156107715780601f1061074657610100808354040283529160200191610771565b600081565b600061078f610f1d61104b565b8461081785604051806060016040528060258152602001611bdc6025913960666000610f4761104b565b6001600160a01b03908116825260208083019390935260409182016000908120918d16815292529020549190611298565b600061078f610f8561104b565b848461113b565b6000818152603360205260408120610793906116d6565b7f9f2df0fed2c77648de5860a4cc508cd0818c85b8b8a1ab4ceeef8d981c8956a681565b600082815260336020526040902060020154610fe59061085961104b565b6109315760405162461bcd60e51b8152600401808060200182810382526030815260200180611ad76030913960400191505060405180910390fd5b6001600160a01b03918216600090815260666020908152604080832093909416825291909152205490565b3390565b6001600160a01b0383166110945760405162461bcd60e51b8152600401808060200182810382526024815260200180611bb86024913960400191505060405180910390fd5b6001600160a01b0382166110d95760405162461bcd60e51b8152600401808060200182810382526022815260200180611a8f6022913960400191505060405180910390fd5b6001600160a01b03808416600081815260666020908152604080832094871680845294825291829020859055815185815291517f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9259281900390910190a3505050565b6001600160a01b0383166111805760405162461bcd60e51b8152600401808060200182810382526025815260200180611b936025913960400191505060405180910390fd5b6001600160a01b0382166111c55760405162461bcd60e51b8152600401808060200182810382526023815260200180611a3d6023913960400191505060405180910390fd5b6111d0838383610b87565b61120d81604051806060016040528060268152602001611ab1602691396001600160a01b0386166000908152606560205260409020549190611298565b6001600160a01b03808516600090815260656020526040808220939093559084168152205461123c9082611401565b6001600160a01b0380841660008181526065602090815260409182902094909455805185815290519193928716927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef92918290030190a3505050565b600081848411156113275760405162461bcd60e51b81526004018080602001828103825283818151815260200191508051906020019080838360005b838110156112ec5781810151838201526020016112d4565b50505050905090810190601f1680156113195780820380516001836020036101000a031916815260200191505b509250505060405180910390fd5b505050900390565b600082815260336020526040902061134790826116e1565b156108a35761135461104b565b6001600160a01b0316816001600160a01b0316837f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a45050565b60008281526033602052604090206113b090826116f6565b156108a3576113bd61104b565b6001600160a01b0316816001600160a01b0316837ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b60405160405180910390a45050565b600082820183811015610e8b576040805162461bcd60e51b815260206004820152601b60248201527f536166654d6174683a206164646974696f6e206f766572666c6f770000000000604482015290519081900360640190fd5b6001600160a01b0382166114b6576040805162461bcd60e51b815260206004820152601f60248201527f45524332303a206d696e7420746f20746865207a65726f206164647265737300604482015290519081900360640190fd5b6114c260008383610b87565b6067546114cf9082611401565b6067556001600160a01b0382166000908152606560205260409020546114f59082611401565b6001600160a01b03831660008181526065602090815260408083209490945583518581529351929391927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9281900390910190a35050565b60006115583061170b565b15905090565b600054610100900460ff1680611577575061157761154d565b80611585575060005460ff16155b6115c05760405162461bcd60e51b815260040180806020018281038252602e815260200180611b07602e913960400191505060405180910390fd5b600054610100900460ff161580156115eb576000805460ff1961ff0019909116610100171660011790555b6115f3611613565b6115fd8383611711565b8015610b87576000805461ff0019169055505050565b600054610100900460ff168061162c575061162c61154d565b8061163a575060005460ff16155b6116755760405162461bcd60e51b815260040180806020018281038252602e815260200180611b07602e913960400191505060405180910390fd5b600054610100900460ff161580156116a0576000805460ff1961ff0019909116610100171660011790555b80156116b2576000805461ff00191690555b50565b6000610e8b83836117e9565b6000610e8b836001600160a01b03841661184d565b600061079382611865565b6000610e8b836001600160a01b038416611869565b6000610e8b836001600160a01b0384166118b3565b3b151590565b600054610100900460ff168061172a575061172a61154d565b80611738575060005460ff16155b6117735760405162461bcd60e51b815260040180806020018281038252602e815260200180611b07602e913960400191505060405180910390fd5b600054610100900460ff1615801561179e576000805460ff1961ff0019909116610100171660011790555b82516117b1906068906020860190611979565b5081516117c5906069906020850190611979565b50606a805460ff191660121790558015610b87576000805461ff0019169055505050565b8154600090821061182b5760405162461bcd60e51b8152600401808060200182810382526022815260200180611a1b6022913960400191505060405180910390fd5b82600001828154811061183a57fe5b9060005260206000200154905092915050565b60009081526001919091016020526040902054151590565b5490565b6000611875838361184d565b6118ab57508154600181810184556000848152602080822090930184905584548482528286019093526040902091909155610793565b506000610793565b6000818152600183016020526040812054801561196f57835460001980830191908101906000908790839081106118e657fe5b906000526020600020015490508087600001848154811061190357fe5b60009182526020808320909101929092558281526001898101909252604090209084019055865487908061193357fe5b60019003818190600052602060002001600090559055866001016000878152602001908152602001600020600090556001945050505050610793565b6000915050610793565b828054600181600116156101000203166002900490600052602060002090601f0160209004810192826119af57600085556119f5565b82601f106119c857805160ff19168380011785556119f5565b828001600101855582156119f5579182015b828111156119f55782518255916020019190600101906119da565b50611a01929150611a05565b5090565b5b80821115611a015760008155600101611a0656fe456e756d657261626c655365743a20696e646578206f7574206f6620626f756e647345524332303a207472616e7366657220746f20746865207a65726f2061646472657373416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f206772616e7445524332303a20617070726f766520746f20746865207a65726f206164647265737345524332303a207472616e7366657220616d6f756e7420657863656564732062616c616e6365416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f207265766f6b65496e697469616c697a61626c653a20636f6e747261637420697320616c726561647920696e697469616c697a656445524332303a207472616e7366657220616d6f756e74206578636565647320616c6c6f77616e636545524332305072657365744d696e7465725061757365723a206d7573742068617665206d696e74657220726f6c6520746f206d696e7445524332303a207472616e736665722066726f6d20746865207a65726f206164647265737345524332303a20617070726f76652066726f6d20746865207a65726f206164647265737345524332303a2064656372656173656420616c6c6f77616e63652062656c6f77207a65726f416363657373436f6e74726f6c3a2063616e206f6e6c792072656e6f756e636520726f6c657320666f722073656c66a26469706673582212209ee0c58721fa9611aeb88c8e9bc7f98c408e993731e0d666bdb82a340f2449c064736f6c63430007060033";
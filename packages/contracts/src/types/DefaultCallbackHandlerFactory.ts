@@ -0,0 +1,239 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { DefaultCallbackHandler } from "./DefaultCallbackHandler";
+
+export class DefaultCallbackHandlerFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(overrides?: Overrides): Promise<DefaultCallbackHandler> {
+    return super.deploy(overrides || {}) as Promise<DefaultCallbackHandler>;
+  }
+  getDeployTransaction(overrides?: Overrides): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  attach(address: string): DefaultCallbackHandler {
+    return super.attach(address) as DefaultCallbackHandler;
+  }
+  connect(signer: Signer): DefaultCallbackHandlerFactory {
+    return super.connect(signer) as DefaultCallbackHandlerFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): DefaultCallbackHandler {
+    return new Contract(
+      address,
+      _abi,
+      signerOrProvider
+    ) as DefaultCallbackHandler;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [],
+    name: "NAME",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "VERSION",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "onERC1155BatchReceived",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "onERC1155Received",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "onERC721Received",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "tokensReceived",
+    outputs: [],
+    stateMutability: "pure",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b506105b1806100206000396000f3fe608060405234801561001057600080fd5b506004361061007c5760003560e01c8063a3f4df7e1161005b578063a3f4df7e1461024f578063bc197c81146102cc578063f23a6e61146103f3578063ffa1ad74146104865761007c565b806223de291461008157806301ffc9a714610169578063150b7a02146101a4575b600080fd5b610167600480360360c081101561009757600080fd5b6001600160a01b03823581169260208101358216926040820135909216916060820135919081019060a081016080820135600160201b8111156100d957600080fd5b8201836020820111156100eb57600080fd5b803590602001918460018302840111600160201b8311171561010c57600080fd5b919390929091602081019035600160201b81111561012957600080fd5b82018360208201111561013b57600080fd5b803590602001918460018302840111600160201b8311171561015c57600080fd5b50909250905061048e565b005b6101906004803603602081101561017f57600080fd5b50356001600160e01b031916610498565b604080519115158252519081900360200190f35b610232600480360360808110156101ba57600080fd5b6001600160a01b03823581169260208101359091169160408201359190810190608081016060820135600160201b8111156101f457600080fd5b82018360208201111561020657600080fd5b803590602001918460018302840111600160201b8311171561022757600080fd5b5090925090506104ea565b604080516001600160e01b03199092168252519081900360200190f35b6102576104fb565b6040805160208082528351818301528351919283929083019185019080838360005b83811015610291578181015183820152602001610279565b50505050905090810190601f1680156102be5780820380516001836020036101000a031916815260200191505b509250505060405180910390f35b610232600480360360a08110156102e257600080fd5b6001600160a01b038235811692602081013590911691810190606081016040820135600160201b81111561031557600080fd5b82018360208201111561032757600080fd5b803590602001918460208302840111600160201b8311171561034857600080fd5b919390929091602081019035600160201b81111561036557600080fd5b82018360208201111561037757600080fd5b803590602001918460208302840111600160201b8311171561039857600080fd5b919390929091602081019035600160201b8111156103b557600080fd5b8201836020820111156103c757600080fd5b803590602001918460018302840111600160201b831117156103e857600080fd5b509092509050610534565b610232600480360360a081101561040957600080fd5b6001600160a01b03823581169260208101359091169160408201359160608101359181019060a081016080820135600160201b81111561044857600080fd5b82018360208201111561045a57600080fd5b803590602001918460018302840111600160201b8311171561047b57600080fd5b509092509050610548565b61025761055a565b5050505050505050565b60006001600160e01b03198216630271189760e51b14806104c957506001600160e01b03198216630a85bd0160e11b145b806104e457506001600160e01b031982166301ffc9a760e01b145b92915050565b630a85bd0160e11b95945050505050565b6040518060400160405280601881526020017f44656661756c742043616c6c6261636b2048616e646c6572000000000000000081525081565b63bc197c8160e01b98975050505050505050565b63f23a6e6160e01b9695505050505050565b604051806040016040528060058152602001640312e302e360dc1b8152508156fea2646970667358221220af94ca152449b8e13634ce8753599ae0ad5119d9fe0a854fa35c99cdbfa9e6d464736f6c63430007060033";
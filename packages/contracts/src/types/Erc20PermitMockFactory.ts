@@ -0,0 +1,421 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { Erc20PermitMock } from "./Erc20PermitMock";
+
+export class Erc20PermitMockFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(overrides?: Overrides): Promise<Erc20PermitMock> {
+    return super.deploy(overrides || {}) as Promise<Erc20PermitMock>;
+  }
+  getDeployTransaction(overrides?: Overrides): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  attach(address: string): Erc20PermitMock {
+    return super.attach(address) as Erc20PermitMock;
+  }
+  connect(signer: Signer): Erc20PermitMockFactory {
+    return super.connect(signer) as Erc20PermitMockFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): Erc20PermitMock {
+    return new Contract(address, _abi, signerOrProvider) as Erc20PermitMock;
+  }
+}
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DOMAIN_SEPARATOR",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+    ],
+    name: "allowance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "decimals",
+    outputs: [
+      {
+        internalType: "uint8",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "subtractedValue",
+        type: "uint256",
+      },
+    ],
+    name: "decreaseAllowance",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "addedValue",
+        type: "uint256",
+      },
+    ],
+    name: "increaseAllowance",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "string",
+        name: "_symbol",
+        type: "string",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "mint",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "nonces",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "spender",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "value",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "deadline",
+        type: "uint256",
+      },
+      {
+        internalType: "uint8",
+        name: "v",
+        type: "uint8",
+      },
+      {
+        internalType: "bytes32",
+        name: "r",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes32",
+        name: "s",
+        type: "bytes32",
+      },
+    ],
+    name: "permit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "transfer",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b506117d3806100206000396000f3fe608060405234801561001057600080fd5b50600436106101005760003560e01c80634cd88b7611610097578063a457c2d711610066578063a457c2d714610413578063a9059cbb1461043f578063d505accf1461046b578063dd62ed3e146104bc57610100565b80634cd88b761461029257806370a08231146103bf5780637ecebe00146103e557806395d89b411461040b57610100565b8063313ce567116100d3578063313ce567146102125780633644e51514610230578063395093511461023857806340c10f191461026457610100565b806306fdde0314610105578063095ea7b31461018257806318160ddd146101c257806323b872dd146101dc575b600080fd5b61010d6104ea565b6040805160208082528351818301528351919283929083019185019080838360005b8381101561014757818101518382015260200161012f565b50505050905090810190601f1680156101745780820380516001836020036101000a031916815260200191505b509250505060405180910390f35b6101ae6004803603604081101561019857600080fd5b506001600160a01b038135169060200135610580565b604080519115158252519081900360200190f35b6101ca61059d565b60408051918252519081900360200190f35b6101ae600480360360608110156101f257600080fd5b506001600160a01b038135811691602081013590911690604001356105a3565b61021a61062a565b6040805160ff9092168252519081900360200190f35b6101ca610633565b6101ae6004803603604081101561024e57600080fd5b506001600160a01b038135169060200135610642565b6102906004803603604081101561027a57600080fd5b506001600160a01b038135169060200135610690565b005b610290600480360360408110156102a857600080fd5b8101906020810181356401000000008111156102c357600080fd5b8201836020820111156102d557600080fd5b803590602001918460018302840111640100000000831117156102f757600080fd5b91908080601f016020809104026020016040519081016040528093929190818152602001838380828437600092019190915250929594936020810193503591505064010000000081111561034a57600080fd5b82018360208201111561035c57600080fd5b8035906020019184600183028401116401000000008311171561037e57600080fd5b91908080601f01602080910402602001604051908101604052809392919081815260200183838082843760009201919091525092955061069e945050505050565b6101ca600480360360208110156103d557600080fd5b50356001600160a01b0316610755565b6101ca600480360360208110156103fb57600080fd5b50356001600160a01b0316610770565b61010d610797565b6101ae6004803603604081101561042957600080fd5b506001600160a01b0381351690602001356107f8565b6101ae6004803603604081101561045557600080fd5b506001600160a01b038135169060200135610860565b610290600480360360e081101561048157600080fd5b506001600160a01b03813581169160208101359091169060408101359060608101359060ff6080820135169060a08101359060c00135610874565b6101ca600480360360408110156104d257600080fd5b506001600160a01b0381358116916020013516610a17565b60368054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156105765780601f1061054b57610100808354040283529160200191610576565b820191906000526020600020905b81548152906001019060200180831161055957829003601f168201915b5050505050905090565b600061059461058d610a42565b8484610a46565b50600192915050565b60355490565b60006105b0848484610b32565b610620846105bc610a42565b61061b85604051806060016040528060288152602001611708602891396001600160a01b038a166000908152603460205260408120906105fa610a42565b6001600160a01b031681526020810191909152604001600020549190610c8f565b610a46565b5060019392505050565b60385460ff1690565b600061063d610d26565b905090565b600061059461064f610a42565b8461061b8560346000610660610a42565b6001600160a01b03908116825260208083019390935260409182016000908120918c168152925290205490610d61565b61069a8282610dc2565b5050565b600054610100900460ff16806106b757506106b7610eb4565b806106c5575060005460ff16155b6107005760405162461bcd60e51b815260040180806020018281038252602e8152602001806116b8602e913960400191505060405180910390fd5b600054610100900460ff1615801561072b576000805460ff1961ff0019909116610100171660011790555b6107358383610ec5565b61073e83610f64565b8015610750576000805461ff00191690555b505050565b6001600160a01b031660009081526033602052604090205490565b6001600160a01b03811660009081526099602052604081206107919061103a565b92915050565b60378054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156105765780601f1061054b57610100808354040283529160200191610576565b6000610594610805610a42565b8461061b85604051806060016040528060258152602001611779602591396034600061082f610a42565b6001600160a01b03908116825260208083019390935260409182016000908120918d16815292529020549190610c8f565b600061059461086d610a42565b8484610b32565b834211156108c9576040805162461bcd60e51b815260206004820152601d60248201527f45524332305065726d69743a206578706972656420646561646c696e65000000604482015290519081900360640190fd5b6000609a548888886108fe609960008e6001600160a01b03166001600160a01b0316815260200190815260200160002061103a565b8960405160200180878152602001866001600160a01b03168152602001856001600160a01b03168152602001848152602001838152602001828152602001965050505050505060405160208183030381529060405280519060200120905060006109678261103e565b905060006109778287878761108a565b9050896001600160a01b0316816001600160a01b0316146109df576040805162461bcd60e51b815260206004820152601e60248201527f45524332305065726d69743a20696e76616c6964207369676e61747572650000604482015290519081900360640190fd5b6001600160a01b038a166000908152609960205260409020610a0090611208565b610a0b8a8a8a610a46565b50505050505050505050565b6001600160a01b03918216600090815260346020908152604080832093909416825291909152205490565b3390565b6001600160a01b038316610a8b5760405162461bcd60e51b81526004018080602001828103825260248152602001806117556024913960400191505060405180910390fd5b6001600160a01b038216610ad05760405162461bcd60e51b815260040180806020018281038252602281526020018061164e6022913960400191505060405180910390fd5b6001600160a01b03808416600081815260346020908152604080832094871680845294825291829020859055815185815291517f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b9259281900390910190a3505050565b6001600160a01b038316610b775760405162461bcd60e51b81526004018080602001828103825260258152602001806117306025913960400191505060405180910390fd5b6001600160a01b038216610bbc5760405162461bcd60e51b815260040180806020018281038252602381526020018061162b6023913960400191505060405180910390fd5b610bc7838383610750565b610c0481604051806060016040528060268152602001611670602691396001600160a01b0386166000908152603360205260409020549190610c8f565b6001600160a01b038085166000908152603360205260408082209390935590841681522054610c339082610d61565b6001600160a01b0380841660008181526033602090815260409182902094909455805185815290519193928716927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef92918290030190a3505050565b60008184841115610d1e5760405162461bcd60e51b81526004018080602001828103825283818151815260200191508051906020019080838360005b83811015610ce3578181015183820152602001610ccb565b50505050905090810190601f168015610d105780820380516001836020036101000a031916815260200191505b509250505060405180910390fd5b505050900390565b600061063d7f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f610d54611211565b610d5c611217565b61121d565b600082820183811015610dbb576040805162461bcd60e51b815260206004820152601b60248201527f536166654d6174683a206164646974696f6e206f766572666c6f770000000000604482015290519081900360640190fd5b9392505050565b6001600160a01b038216610e1d576040805162461bcd60e51b815260206004820152601f60248201527f45524332303a206d696e7420746f20746865207a65726f206164647265737300604482015290519081900360640190fd5b610e2960008383610750565b603554610e369082610d61565b6035556001600160a01b038216600090815260336020526040902054610e5c9082610d61565b6001600160a01b03831660008181526033602090815260408083209490945583518581529351929391927fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef9281900390910190a35050565b6000610ebf3061127f565b15905090565b600054610100900460ff1680610ede5750610ede610eb4565b80610eec575060005460ff16155b610f275760405162461bcd60e51b815260040180806020018281038252602e8152602001806116b8602e913960400191505060405180910390fd5b600054610100900460ff16158015610f52576000805460ff1961ff0019909116610100171660011790555b610f5a611285565b61073e8383611327565b600054610100900460ff1680610f7d5750610f7d610eb4565b80610f8b575060005460ff16155b610fc65760405162461bcd60e51b815260040180806020018281038252602e8152602001806116b8602e913960400191505060405180910390fd5b600054610100900460ff16158015610ff1576000805460ff1961ff0019909116610100171660011790555b610ff9611285565b61101c82604051806040016040528060018152602001603160f81b8152506113ff565b611025826114bf565b801561069a576000805461ff00191690555050565b5490565b6000611048610d26565b82604051602001808061190160f01b81525060020183815260200182815260200192505050604051602081830303815290604052805190602001209050919050565b60007f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08211156110eb5760405162461bcd60e51b81526004018080602001828103825260228152602001806116966022913960400191505060405180910390fd5b8360ff16601b148061110057508360ff16601c145b61113b5760405162461bcd60e51b81526004018080602001828103825260228152602001806116e66022913960400191505060405180910390fd5b600060018686868660405160008152602001604052604051808581526020018460ff1681526020018381526020018281526020019450505050506020604051602081039080840390855afa158015611197573d6000803e3d6000fd5b5050604051601f1901519150506001600160a01b0381166111ff576040805162461bcd60e51b815260206004820152601860248201527f45434453413a20696e76616c6964207369676e61747572650000000000000000604482015290519081900360640190fd5b95945050505050565b80546001019055565b60655490565b60665490565b600083838361122a611585565b3060405160200180868152602001858152602001848152602001838152602001826001600160a01b03168152602001955050505050506040516020818303038152906040528051906020012090509392505050565b3b151590565b600054610100900460ff168061129e575061129e610eb4565b806112ac575060005460ff16155b6112e75760405162461bcd60e51b815260040180806020018281038252602e8152602001806116b8602e913960400191505060405180910390fd5b600054610100900460ff16158015611312576000805460ff1961ff0019909116610100171660011790555b8015611324576000805461ff00191690555b50565b600054610100900460ff16806113405750611340610eb4565b8061134e575060005460ff16155b6113895760405162461bcd60e51b815260040180806020018281038252602e8152602001806116b8602e913960400191505060405180910390fd5b600054610100900460ff161580156113b4576000805460ff1961ff0019909116610100171660011790555b82516113c7906036906020860190611589565b5081516113db906037906020850190611589565b506038805460ff191660121790558015610750576000805461ff0019169055505050565b600054610100900460ff16806114185750611418610eb4565b80611426575060005460ff16155b6114615760405162461bcd60e51b815260040180806020018281038252602e8152602001806116b8602e913960400191505060405180910390fd5b600054610100900460ff1615801561148c576000805460ff1961ff0019909116610100171660011790555b82516020808501919091208351918401919091206065919091556066558015610750576000805461ff0019169055505050565b600054610100900460ff16806114d857506114d8610eb4565b806114e6575060005460ff16155b6115215760405162461bcd60e51b815260040180806020018281038252602e8152602001806116b8602e913960400191505060405180910390fd5b600054610100900460ff1615801561154c576000805460ff1961ff0019909116610100171660011790555b7f6e71edae12b1b97f4d1f60370fef10105fa2faae0126114a169c64845d6126c9609a55801561069a576000805461ff00191690555050565b4690565b828054600181600116156101000203166002900490600052602060002090601f0160209004810192826115bf5760008555611605565b82601f106115d857805160ff1916838001178555611605565b82800160010185558215611605579182015b828111156116055782518255916020019190600101906115ea565b50611611929150611615565b5090565b5b80821115611611576000815560010161161656fe45524332303a207472616e7366657220746f20746865207a65726f206164647265737345524332303a20617070726f766520746f20746865207a65726f206164647265737345524332303a207472616e7366657220616d6f756e7420657863656564732062616c616e636545434453413a20696e76616c6964207369676e6174757265202773272076616c7565496e697469616c697a61626c653a20636f6e747261637420697320616c726561647920696e697469616c697a656445434453413a20696e76616c6964207369676e6174757265202776272076616c756545524332303a207472616e7366657220616d6f756e74206578636565647320616c6c6f77616e636545524332303a207472616e736665722066726f6d20746865207a65726f206164647265737345524332303a20617070726f76652066726f6d20746865207a65726f206164647265737345524332303a2064656372656173656420616c6c6f77616e63652062656c6f77207a65726fa2646970667358221220ac4cb9a95062c015d7f6da19517e28c8053ad284e83d40c901ca4d7c343f277a64736f6c63430007060033";
@@ -0,0 +1,54 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Signer } from "ethers";
+import { Provider } from "@ethersproject/providers";
+
+import type { Erc721TokenReceiver } from "./Erc721TokenReceiver";
+
+export class Erc721TokenReceiverFactory {
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): Erc721TokenReceiver {
+    return new Contract(address, _abi, signerOrProvider) as Erc721TokenReceiver;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_operator",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_from",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "onERC721Received",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
@@ -0,0 +1,163 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  Overrides,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface Erc777TokensRecipientInterface extends ethers.utils.Interface {
+  functions: {
+    "tokensReceived(address,address,address,uint256,bytes,bytes)": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "tokensReceived",
+    values: [string, string, string, BigNumberish, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "tokensReceived",
+    data: BytesLike
+  ): Result;
+
+  events: {};
+}
+
+export class Erc777TokensRecipient extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: Erc777TokensRecipientInterface;
+
+  functions: {
+    tokensReceived(
+      operator: string,
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      data: BytesLike,
+      operatorData: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "tokensReceived(address,address,address,uint256,bytes,bytes)"(
+      operator: string,
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      data: BytesLike,
+      operatorData: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+  };
+
+  tokensReceived(
+    operator: string,
+    from: string,
+    to: string,
+    amount: BigNumberish,
+    data: BytesLike,
+    operatorData: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "tokensReceived(address,address,address,uint256,bytes,bytes)"(
+    operator: string,
+    from: string,
+    to: string,
+    amount: BigNumberish,
+    data: BytesLike,
+    operatorData: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  callStatic: {
+    tokensReceived(
+      operator: string,
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      data: BytesLike,
+      operatorData: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "tokensReceived(address,address,address,uint256,bytes,bytes)"(
+      operator: string,
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      data: BytesLike,
+      operatorData: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    tokensReceived(
+      operator: string,
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      data: BytesLike,
+      operatorData: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "tokensReceived(address,address,address,uint256,bytes,bytes)"(
+      operator: string,
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      data: BytesLike,
+      operatorData: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    tokensReceived(
+      operator: string,
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      data: BytesLike,
+      operatorData: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "tokensReceived(address,address,address,uint256,bytes,bytes)"(
+      operator: string,
+      from: string,
+      to: string,
+      amount: BigNumberish,
+      data: BytesLike,
+      operatorData: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
@@ -0,0 +1,62 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Signer } from "ethers";
+import { Provider } from "@ethersproject/providers";
+
+import type { Erc777TokensRecipient } from "./Erc777TokensRecipient";
+
+export class Erc777TokensRecipientFactory {
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): Erc777TokensRecipient {
+    return new Contract(
+      address,
+      _abi,
+      signerOrProvider
+    ) as Erc777TokensRecipient;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "amount",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "operatorData",
+        type: "bytes",
+      },
+    ],
+    name: "tokensReceived",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
@@ -24,10 +24,33 @@ import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
 interface GuildAppInterface extends ethers.utils.Interface {
   functions: {
     "DEFAULT_ADMIN_ROLE()": FunctionFragment;
+    "METADATA_EDITOR_ROLE()": FunctionFragment;
+    "PAUSER_ROLE()": FunctionFragment;
+    "PRICE_MANAGER_ROLE()": FunctionFragment;
+    "RENEWAL_WINDOW()": FunctionFragment;
+    "TREASURER_ROLE()": FunctionFragment;
+    "acceptedTokens()": FunctionFragment;
+    "addPaymentToken(address,uint256[])": FunctionFragment;
+    "addTier(string,uint256,uint256,uint256)": FunctionFragment;
+    "allowlistRoot()": FunctionFragment;
     "approve(address,uint256)": FunctionFragment;
+    "approveSubscriptionTransfer(uint256,address)": FunctionFragment;
     "approvedTokens()": FunctionFragment;
+    "approvedTransfers(uint256)": FunctionFragment;
     "balanceOf(address)": FunctionFragment;
     "baseURI()": FunctionFragment;
+    "claim(address,address)": FunctionFragment;
+    "claimClosingRefund(uint256)": FunctionFragment;
+    "claimable(address,address)": FunctionFragment;
+    "closeGuild()": FunctionFragment;
+    "closedAt()": FunctionFragment;
+    "closingRefund(uint256)": FunctionFragment;
+    "discountBps()": FunctionFragment;
+    "discountMinPeriods()": FunctionFragment;
+    "distribute(address)": FunctionFragment;
+    "extension()": FunctionFragment;
+    "factory()": FunctionFragment;
+    "freezeSubscription(uint256)": FunctionFragment;
     "getApproved(uint256)": FunctionFragment;
     "getMetadata()": FunctionFragment;
     "getRoleAdmin(bytes32)": FunctionFragment;
@@ -35,38 +58,92 @@ interface GuildAppInterface extends ethers.utils.Interface {
     "getRoleMemberCount(bytes32)": FunctionFragment;
     "getSubscriptionExpiryFor(address)": FunctionFragment;
     "getSubscriptionIdFor(address)": FunctionFragment;
+    "getSubscriptionTierFor(address)": FunctionFragment;
+    "getTier(uint256)": FunctionFragment;
+    "getTierPrice(uint256,address)": FunctionFragment;
+    "giftSubscription(address,uint256,address,uint256,uint256,string)": FunctionFragment;
+    "gracePeriod()": FunctionFragment;
+    "grandfatheredPricing()": FunctionFragment;
     "grantRole(bytes32,address)": FunctionFragment;
     "guildBalance(address)": FunctionFragment;
     "hasActiveSubscription(address)": FunctionFragment;
     "hasRole(bytes32,address)": FunctionFragment;
-    "initialize(address,address,uint256,uint256,tuple,address)": FunctionFragment;
+    "initialize(address,address,tuple[],tuple,address,uint8)": FunctionFragment;
     "initialized()": FunctionFragment;
     "isActive()": FunctionFragment;
     "isApprovedForAll(address,address)": FunctionFragment;
     "isSubscriptionOwner(uint256,address)": FunctionFragment;
+    "joinWaitlist(uint256)": FunctionFragment;
+    "maxFreezeDuration()": FunctionFragment;
+    "maxFreezes()": FunctionFragment;
+    "maxMembers()": FunctionFragment;
     "metadataCID()": FunctionFragment;
     "name()": FunctionFragment;
     "ownerOf(uint256)": FunctionFragment;
     "pauseGuild(bool)": FunctionFragment;
+    "payees()": FunctionFragment;
+    "processClosingRefunds(uint256)": FunctionFragment;
+    "referralBonusDuration()": FunctionFragment;
+    "referralRewardBps()": FunctionFragment;
+    "referrerOf(address)": FunctionFragment;
+    "refundPolicy()": FunctionFragment;
+    "refundWindow()": FunctionFragment;
+    "refundableAmount(uint256)": FunctionFragment;
+    "releaseSeat(uint256)": FunctionFragment;
+    "remainingSeats(uint256)": FunctionFragment;
+    "removePaymentToken(address)": FunctionFragment;
+    "renew(uint256,uint256)": FunctionFragment;
+    "renewBatch(address[])": FunctionFragment;
     "renounceRole(bytes32,address)": FunctionFragment;
     "revokeRole(bytes32,address)": FunctionFragment;
+    "safeSubscriptionHash(address,tuple)": FunctionFragment;
     "safeTransferFrom(address,address,uint256)": FunctionFragment;
+    "setAllowlist(bytes32,string)": FunctionFragment;
     "setApprovalForAll(address,bool)": FunctionFragment;
+    "setFreezePolicy(uint256,uint256)": FunctionFragment;
+    "setGracePeriod(uint256)": FunctionFragment;
+    "setGrandfatheredPricing(bool)": FunctionFragment;
+    "setMaxMembers(uint256)": FunctionFragment;
     "setMetadata(string)": FunctionFragment;
+    "setPayees(address[],uint256[])": FunctionFragment;
+    "setPeriodDiscount(uint256,uint256)": FunctionFragment;
+    "setReferralPolicy(uint256,uint256)": FunctionFragment;
+    "setRefundPolicy(uint8,uint256)": FunctionFragment;
+    "setTokenPrice(uint256,address,uint256)": FunctionFragment;
+    "shares(address)": FunctionFragment;
     "subPrice()": FunctionFragment;
-    "subscribe(address,string,uint256,bytes)": FunctionFragment;
+    "subscribe(address,uint256,address,string,uint256,bytes)": FunctionFragment;
+    "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)": FunctionFragment;
+    "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)": FunctionFragment;
+    "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])": FunctionFragment;
+    "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)": FunctionFragment;
+    "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])": FunctionFragment;
     "subscriptionByOwner(address)": FunctionFragment;
+    "subscriptionCost(uint256,address,uint256)": FunctionFragment;
+    "subscriptionCostFor(address,uint256,address,uint256)": FunctionFragment;
+    "subscriptionExtension()": FunctionFragment;
     "subscriptionPeriod()": FunctionFragment;
+    "subscriptionStatus(address)": FunctionFragment;
     "supportsInterface(bytes4)": FunctionFragment;
     "symbol()": FunctionFragment;
+    "templateVersion()": FunctionFragment;
+    "tierMembers(uint256)": FunctionFragment;
+    "tip(address,uint256,string)": FunctionFragment;
     "tokenAddress()": FunctionFragment;
     "tokenByIndex(uint256)": FunctionFragment;
     "tokenOfOwnerByIndex(address,uint256)": FunctionFragment;
     "tokenURI(uint256)": FunctionFragment;
+    "totalShares()": FunctionFragment;
     "totalSupply()": FunctionFragment;
+    "totalTiers()": FunctionFragment;
     "transferFrom(address,address,uint256)": FunctionFragment;
+    "transferPolicy()": FunctionFragment;
+    "unfreezeSubscription(uint256)": FunctionFragment;
     "unsubscribe(uint256)": FunctionFragment;
     "updateSubscriptionPrice(address,uint256)": FunctionFragment;
+    "updateTier(uint256,string,uint256,uint256,uint256)": FunctionFragment;
+    "upgradeToVersion(uint256)": FunctionFragment;
+    "voucherRedemptions(bytes32)": FunctionFragment;
     "withdraw(address,uint256,address)": FunctionFragment;
   };
 
@@ -74,16 +151,96 @@ interface GuildAppInterface extends ethers.utils.Interface {
     functionFragment: "DEFAULT_ADMIN_ROLE",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "METADATA_EDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PRICE_MANAGER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RENEWAL_WINDOW",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TREASURER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "acceptedTokens",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addPaymentToken",
+    values: [string, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addTier",
+    values: [string, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowlistRoot",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "approve",
     values: [string, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "approveSubscriptionTransfer",
+    values: [BigNumberish, string]
+  ): string;
   encodeFunctionData(
     functionFragment: "approvedTokens",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "approvedTransfers",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(functionFragment: "balanceOf", values: [string]): string;
   encodeFunctionData(functionFragment: "baseURI", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "claim",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimClosingRefund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimable",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeGuild",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "closedAt", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "closingRefund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "discountBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "discountMinPeriods",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "distribute", values: [string]): string;
+  encodeFunctionData(functionFragment: "extension", values?: undefined): string;
+  encodeFunctionData(functionFragment: "factory", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "freezeSubscription",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getApproved",
     values: [BigNumberish]
@@ -112,6 +269,30 @@ interface GuildAppInterface extends ethers.utils.Interface {
     functionFragment: "getSubscriptionIdFor",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getSubscriptionTierFor",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTier",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTierPrice",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "giftSubscription",
+    values: [string, BigNumberish, string, BigNumberish, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "gracePeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grandfatheredPricing",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "grantRole",
     values: [BytesLike, string]
@@ -133,10 +314,15 @@ interface GuildAppInterface extends ethers.utils.Interface {
     values: [
       string,
       string,
-      BigNumberish,
-      BigNumberish,
+      {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       { name: string; symbol: string; baseURI: string; metadataCID: string },
-      string
+      string,
+      BigNumberish
     ]
   ): string;
   encodeFunctionData(
@@ -152,6 +338,22 @@ interface GuildAppInterface extends ethers.utils.Interface {
     functionFragment: "isSubscriptionOwner",
     values: [BigNumberish, string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "joinWaitlist",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxFreezeDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxFreezes",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxMembers",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "metadataCID",
     values?: undefined
@@ -162,6 +364,52 @@ interface GuildAppInterface extends ethers.utils.Interface {
     values: [BigNumberish]
   ): string;
   encodeFunctionData(functionFragment: "pauseGuild", values: [boolean]): string;
+  encodeFunctionData(functionFragment: "payees", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "processClosingRefunds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referralBonusDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referralRewardBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "referrerOf", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "refundPolicy",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundableAmount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseSeat",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "remainingSeats",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removePaymentToken",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renew",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renewBatch",
+    values: [string[]]
+  ): string;
   encodeFunctionData(
     functionFragment: "renounceRole",
     values: [BytesLike, string]
@@ -170,33 +418,193 @@ interface GuildAppInterface extends ethers.utils.Interface {
     functionFragment: "revokeRole",
     values: [BytesLike, string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "safeSubscriptionHash",
+    values: [
+      string,
+      {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      }
+    ]
+  ): string;
   encodeFunctionData(
     functionFragment: "safeTransferFrom",
     values: [string, string, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowlist",
+    values: [BytesLike, string]
+  ): string;
   encodeFunctionData(
     functionFragment: "setApprovalForAll",
     values: [string, boolean]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setFreezePolicy",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setGracePeriod",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setGrandfatheredPricing",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMaxMembers",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(functionFragment: "setMetadata", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "setPayees",
+    values: [string[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPeriodDiscount",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReferralPolicy",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRefundPolicy",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTokenPrice",
+    values: [BigNumberish, string, BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "shares", values: [string]): string;
   encodeFunctionData(functionFragment: "subPrice", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "subscribe",
-    values: [string, string, BigNumberish, BytesLike]
+    values: [string, BigNumberish, string, string, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeForPeriods",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeWithPermit",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BigNumberish,
+      BigNumberish,
+      {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      }
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeWithProof",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeWithReferrer",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      string
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeWithVoucher",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      BytesLike,
+      BytesLike[]
+    ]
   ): string;
   encodeFunctionData(
     functionFragment: "subscriptionByOwner",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionCost",
+    values: [BigNumberish, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionCostFor",
+    values: [string, BigNumberish, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionExtension",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "subscriptionPeriod",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionStatus",
+    values: [string]
+  ): string;
   encodeFunctionData(
     functionFragment: "supportsInterface",
     values: [BytesLike]
   ): string;
   encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "templateVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tierMembers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tip",
+    values: [string, BigNumberish, string]
+  ): string;
   encodeFunctionData(
     functionFragment: "tokenAddress",
     values?: undefined
@@ -213,14 +621,30 @@ interface GuildAppInterface extends ethers.utils.Interface {
     functionFragment: "tokenURI",
     values: [BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "totalShares",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "totalSupply",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "totalTiers",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "transferFrom",
     values: [string, string, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "transferPolicy",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "unfreezeSubscription",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "unsubscribe",
     values: [BigNumberish]
@@ -229,6 +653,18 @@ interface GuildAppInterface extends ethers.utils.Interface {
     functionFragment: "updateSubscriptionPrice",
     values: [string, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "updateTier",
+    values: [BigNumberish, string, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upgradeToVersion",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "voucherRedemptions",
+    values: [BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "withdraw",
     values: [string, BigNumberish, string]
@@ -238,58 +674,147 @@ interface GuildAppInterface extends ethers.utils.Interface {
     functionFragment: "DEFAULT_ADMIN_ROLE",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "approvedTokens",
+    functionFragment: "METADATA_EDITOR_ROLE",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
-  decodeFunctionResult(functionFragment: "baseURI", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "getApproved",
+    functionFragment: "PAUSER_ROLE",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getMetadata",
+    functionFragment: "PRICE_MANAGER_ROLE",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getRoleAdmin",
+    functionFragment: "RENEWAL_WINDOW",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getRoleMember",
+    functionFragment: "TREASURER_ROLE",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getRoleMemberCount",
+    functionFragment: "acceptedTokens",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "getSubscriptionExpiryFor",
+    functionFragment: "addPaymentToken",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "addTier", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "getSubscriptionIdFor",
+    functionFragment: "allowlistRoot",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "guildBalance",
+    functionFragment: "approveSubscriptionTransfer",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "hasActiveSubscription",
+    functionFragment: "approvedTokens",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
-  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "initialized",
+    functionFragment: "approvedTransfers",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "isActive", data: BytesLike): Result;
-  decodeFunctionResult(
+  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "baseURI", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "claim", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimClosingRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "claimable", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "closeGuild", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "closedAt", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "closingRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "discountBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "discountMinPeriods",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "distribute", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "extension", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "factory", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "freezeSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getApproved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMetadata",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMemberCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubscriptionExpiryFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubscriptionIdFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubscriptionTierFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getTier", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getTierPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "giftSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "gracePeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grandfatheredPricing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "guildBalance",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "hasActiveSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "initialized",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isActive", data: BytesLike): Result;
+  decodeFunctionResult(
     functionFragment: "isApprovedForAll",
     data: BytesLike
   ): Result;
@@ -297,6 +822,16 @@ interface GuildAppInterface extends ethers.utils.Interface {
     functionFragment: "isSubscriptionOwner",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "joinWaitlist",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxFreezeDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "maxFreezes", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "maxMembers", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "metadataCID",
     data: BytesLike
@@ -304,38 +839,165 @@ interface GuildAppInterface extends ethers.utils.Interface {
   decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "pauseGuild", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "payees", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "processClosingRefunds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "referralBonusDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "referralRewardBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "referrerOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "refundPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundableAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseSeat",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "remainingSeats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removePaymentToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "renew", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "renewBatch", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "renounceRole",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "safeSubscriptionHash",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "safeTransferFrom",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowlist",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "setApprovalForAll",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setFreezePolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setGracePeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setGrandfatheredPricing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxMembers",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "setMetadata",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "setPayees", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setPeriodDiscount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReferralPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRefundPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTokenPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "shares", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "subPrice", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "subscribe", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "subscribeForPeriods",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscribeWithPermit",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscribeWithProof",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscribeWithReferrer",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscribeWithVoucher",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "subscriptionByOwner",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionCost",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionCostFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionExtension",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "subscriptionPeriod",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionStatus",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "supportsInterface",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "templateVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tierMembers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tip", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "tokenAddress",
     data: BytesLike
@@ -349,14 +1011,27 @@ interface GuildAppInterface extends ethers.utils.Interface {
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalShares",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "totalSupply",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "totalTiers", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "transferFrom",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unfreezeSubscription",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "unsubscribe",
     data: BytesLike
@@ -365,38 +1040,113 @@ interface GuildAppInterface extends ethers.utils.Interface {
     functionFragment: "updateSubscriptionPrice",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "updateTier", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeToVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "voucherRedemptions",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
 
   events: {
+    "AllowlistUpdated(bytes32,string)": EventFragment;
     "Approval(address,address,uint256)": EventFragment;
     "ApprovalForAll(address,address,bool)": EventFragment;
+    "Claimed(address,address,uint256)": EventFragment;
+    "ClosingRefundsProcessed(uint256,uint256)": EventFragment;
+    "Distributed(address,uint256)": EventFragment;
+    "FreezePolicyUpdated(uint256,uint256)": EventFragment;
+    "GracePeriodUpdated(uint256)": EventFragment;
+    "GrandfatheredPricingUpdated(bool)": EventFragment;
+    "GuildClosed(uint256)": EventFragment;
     "InitializedGuild(address,address,uint256,uint256,tuple)": EventFragment;
-    "NewSubscription(address,uint256,uint256,uint256,bytes)": EventFragment;
+    "MaxMembersUpdated(uint256)": EventFragment;
+    "NewSubscription(address,uint256,uint256,address,uint256,uint256,uint256,bytes)": EventFragment;
     "PausedGuild(bool)": EventFragment;
-    "RenewSubscription(address,uint256,uint256,uint256,bytes)": EventFragment;
+    "PayeesUpdated(address[],uint256[])": EventFragment;
+    "PaymentTokenAdded(address)": EventFragment;
+    "PaymentTokenRemoved(address)": EventFragment;
+    "PeriodDiscountUpdated(uint256,uint256)": EventFragment;
+    "PriceLocked(uint256,address,uint256)": EventFragment;
+    "ReferralCredited(address,uint256,address,address,uint256,uint256,uint256)": EventFragment;
+    "ReferralPolicyUpdated(uint256,uint256)": EventFragment;
+    "RefundPolicyUpdated(uint8,uint256)": EventFragment;
+    "Refunded(uint256,address,address,uint256)": EventFragment;
+    "RenewSubscription(address,uint256,uint256,address,uint256,uint256,uint256,bytes)": EventFragment;
+    "RenewalFailed(address,bytes)": EventFragment;
     "RoleAdminChanged(bytes32,bytes32,bytes32)": EventFragment;
     "RoleGranted(bytes32,address,address)": EventFragment;
     "RoleRevoked(bytes32,address,address)": EventFragment;
+    "SeatReleased(uint256,uint256)": EventFragment;
+    "SubscriptionFrozen(uint256,uint256,uint256)": EventFragment;
+    "SubscriptionGifted(address,address,uint256,uint256,string)": EventFragment;
     "SubscriptionPriceChanged(address,uint256)": EventFragment;
+    "SubscriptionTransferApproved(uint256,address)": EventFragment;
+    "SubscriptionUnfrozen(uint256,uint256)": EventFragment;
+    "TierUpdated(uint256,string,uint256,uint256,uint256)": EventFragment;
+    "Tipped(address,address,uint256,uint256,string)": EventFragment;
+    "TokenPriceUpdated(uint256,address,uint256)": EventFragment;
     "Transfer(address,address,uint256)": EventFragment;
+    "TransferPolicyUpdated(uint8)": EventFragment;
     "Unsubscribed(uint256)": EventFragment;
     "UpdatedMetadata(string)": EventFragment;
+    "Upgraded(uint256,address)": EventFragment;
+    "VoucherRedeemed(bytes32,address,uint256)": EventFragment;
+    "WaitlistJoined(address,uint256)": EventFragment;
     "Withdraw(address,address,uint256)": EventFragment;
   };
 
+  getEvent(nameOrSignatureOrTopic: "AllowlistUpdated"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "Approval"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "ApprovalForAll"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Claimed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ClosingRefundsProcessed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Distributed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "FreezePolicyUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "GracePeriodUpdated"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic: "GrandfatheredPricingUpdated"
+  ): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "GuildClosed"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "InitializedGuild"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "MaxMembersUpdated"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "NewSubscription"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "PausedGuild"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PayeesUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PaymentTokenAdded"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PaymentTokenRemoved"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PeriodDiscountUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PriceLocked"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ReferralCredited"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ReferralPolicyUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RefundPolicyUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Refunded"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "RenewSubscription"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RenewalFailed"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "RoleAdminChanged"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "RoleGranted"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "RoleRevoked"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SeatReleased"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SubscriptionFrozen"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SubscriptionGifted"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "SubscriptionPriceChanged"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic: "SubscriptionTransferApproved"
+  ): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SubscriptionUnfrozen"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TierUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Tipped"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TokenPriceUpdated"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "Transfer"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TransferPolicyUpdated"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "Unsubscribed"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "UpdatedMetadata"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Upgraded"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "VoucherRedeemed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "WaitlistJoined"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "Withdraw"): EventFragment;
 }
 
@@ -422,6 +1172,90 @@ export class GuildApp extends Contract {
       0: string;
     }>;
 
+    METADATA_EDITOR_ROLE(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "METADATA_EDITOR_ROLE()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    PAUSER_ROLE(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "PAUSER_ROLE()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    PRICE_MANAGER_ROLE(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "PRICE_MANAGER_ROLE()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    RENEWAL_WINDOW(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "RENEWAL_WINDOW()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    TREASURER_ROLE(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "TREASURER_ROLE()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    acceptedTokens(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
+
+    "acceptedTokens()"(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
+
+    addPaymentToken(
+      arg0: string,
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "addPaymentToken(address,uint256[])"(
+      arg0: string,
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    addTier(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "addTier(string,uint256,uint256,uint256)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    allowlistRoot(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "allowlistRoot()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
     approve(
       to: string,
       tokenId: BigNumberish,
@@ -434,6 +1268,18 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
+    approveSubscriptionTransfer(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "approveSubscriptionTransfer(uint256,address)"(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     approvedTokens(overrides?: CallOverrides): Promise<{
       0: string[];
     }>;
@@ -442,6 +1288,20 @@ export class GuildApp extends Contract {
       0: string[];
     }>;
 
+    approvedTransfers(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "approvedTransfers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
     balanceOf(
       owner: string,
       overrides?: CallOverrides
@@ -464,6 +1324,122 @@ export class GuildApp extends Contract {
       0: string;
     }>;
 
+    claim(
+      arg0: string,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "claim(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    claimClosingRefund(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "claimClosingRefund(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    claimable(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "claimable(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    closeGuild(overrides?: Overrides): Promise<ContractTransaction>;
+
+    "closeGuild()"(overrides?: Overrides): Promise<ContractTransaction>;
+
+    closedAt(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "closedAt()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    closingRefund(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "closingRefund(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    discountBps(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "discountBps()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    discountMinPeriods(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "discountMinPeriods()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    distribute(
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "distribute(address)"(
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    extension(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "extension()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    factory(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "factory()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    freezeSubscription(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "freezeSubscription(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     getApproved(
       tokenId: BigNumberish,
       overrides?: CallOverrides
@@ -558,6 +1534,104 @@ export class GuildApp extends Contract {
       0: BigNumber;
     }>;
 
+    getSubscriptionTierFor(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getSubscriptionTierFor(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    getTier(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: {
+        name: string;
+        price: BigNumber;
+        period: BigNumber;
+        cap: BigNumber;
+        0: string;
+        1: BigNumber;
+        2: BigNumber;
+        3: BigNumber;
+      };
+    }>;
+
+    "getTier(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: {
+        name: string;
+        price: BigNumber;
+        period: BigNumber;
+        cap: BigNumber;
+        0: string;
+        1: BigNumber;
+        2: BigNumber;
+        3: BigNumber;
+      };
+    }>;
+
+    getTierPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getTierPrice(uint256,address)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    giftSubscription(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "giftSubscription(address,uint256,address,uint256,uint256,string)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    gracePeriod(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "gracePeriod()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    grandfatheredPricing(overrides?: CallOverrides): Promise<{
+      0: boolean;
+    }>;
+
+    "grandfatheredPricing()"(overrides?: CallOverrides): Promise<{
+      0: boolean;
+    }>;
+
     grantRole(
       role: BytesLike,
       account: string,
@@ -617,8 +1691,12 @@ export class GuildApp extends Contract {
     initialize(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _guildTiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -626,14 +1704,19 @@ export class GuildApp extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    "initialize(address,address,uint256,uint256,tuple,address)"(
+    "initialize(address,address,tuple[],tuple,address,uint8)"(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _guildTiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -641,6 +1724,7 @@ export class GuildApp extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
@@ -692,6 +1776,40 @@ export class GuildApp extends Contract {
       0: boolean;
     }>;
 
+    joinWaitlist(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "joinWaitlist(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    maxFreezeDuration(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "maxFreezeDuration()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    maxFreezes(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "maxFreezes()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    maxMembers(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "maxMembers()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
     metadataCID(overrides?: CallOverrides): Promise<{
       0: string;
     }>;
@@ -723,12 +1841,146 @@ export class GuildApp extends Contract {
     }>;
 
     pauseGuild(
-      pause: boolean,
+      arg0: boolean,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
     "pauseGuild(bool)"(
-      pause: boolean,
+      arg0: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    payees(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
+
+    "payees()"(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
+
+    processClosingRefunds(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "processClosingRefunds(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    referralBonusDuration(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "referralBonusDuration()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    referralRewardBps(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "referralRewardBps()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    referrerOf(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "referrerOf(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    refundPolicy(overrides?: CallOverrides): Promise<{
+      0: number;
+    }>;
+
+    "refundPolicy()"(overrides?: CallOverrides): Promise<{
+      0: number;
+    }>;
+
+    refundWindow(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "refundWindow()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    refundableAmount(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "refundableAmount(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    releaseSeat(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "releaseSeat(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    remainingSeats(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "remainingSeats(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    removePaymentToken(
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "removePaymentToken(address)"(
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    renew(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "renew(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    renewBatch(
+      arg0: string[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "renewBatch(address[])"(
+      arg0: string[],
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
@@ -756,6 +2008,36 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
+    safeSubscriptionHash(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "safeSubscriptionHash(address,tuple)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
     "safeTransferFrom(address,address,uint256)"(
       from: string,
       to: string,
@@ -771,6 +2053,18 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
+    setAllowlist(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setAllowlist(bytes32,string)"(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     setApprovalForAll(
       operator: string,
       approved: boolean,
@@ -783,37 +2077,303 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
+    setFreezePolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setFreezePolicy(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setGracePeriod(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setGracePeriod(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setGrandfatheredPricing(
+      arg0: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setGrandfatheredPricing(bool)"(
+      arg0: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setMaxMembers(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setMaxMembers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     setMetadata(
-      _metadataCID: string,
+      arg0: string,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
     "setMetadata(string)"(
-      _metadataCID: string,
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setPayees(
+      arg0: string[],
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setPayees(address[],uint256[])"(
+      arg0: string[],
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setPeriodDiscount(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setPeriodDiscount(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setReferralPolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setReferralPolicy(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setRefundPolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setRefundPolicy(uint8,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setTokenPrice(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setTokenPrice(uint256,address,uint256)"(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    shares(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "shares(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    subPrice(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "subPrice()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    subscribe(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "subscribe(address,uint256,address,string,uint256,bytes)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    subscribeForPeriods(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BigNumberish,
+      arg6: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BigNumberish,
+      arg6: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    subscribeWithPermit(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    subPrice(overrides?: CallOverrides): Promise<{
-      0: BigNumber;
-    }>;
-
-    "subPrice()"(overrides?: CallOverrides): Promise<{
-      0: BigNumber;
-    }>;
+    subscribeWithProof(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    subscribeWithReferrer(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
 
-    subscribe(
-      _subscriber: string,
-      _tokenURI: string,
-      _value: BigNumberish,
-      _data: BytesLike,
+    subscribeWithVoucher(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      arg7: BytesLike,
+      arg8: BytesLike[],
       overrides?: PayableOverrides
     ): Promise<ContractTransaction>;
 
-    "subscribe(address,string,uint256,bytes)"(
-      _subscriber: string,
-      _tokenURI: string,
-      _value: BigNumberish,
-      _data: BytesLike,
+    "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      arg7: BytesLike,
+      arg8: BytesLike[],
       overrides?: PayableOverrides
     ): Promise<ContractTransaction>;
 
@@ -823,8 +2383,28 @@ export class GuildApp extends Contract {
     ): Promise<{
       tokenId: BigNumber;
       expirationTimestamp: BigNumber;
+      tierId: BigNumber;
+      paymentToken: string;
+      paidValue: BigNumber;
+      paidFrom: BigNumber;
+      lockedPrice: BigNumber;
+      frozenAt: BigNumber;
+      freezes: BigNumber;
+      seatReleased: boolean;
+      bonusTime: BigNumber;
+      resumeAt: BigNumber;
       0: BigNumber;
       1: BigNumber;
+      2: BigNumber;
+      3: string;
+      4: BigNumber;
+      5: BigNumber;
+      6: BigNumber;
+      7: BigNumber;
+      8: BigNumber;
+      9: boolean;
+      10: BigNumber;
+      11: BigNumber;
     }>;
 
     "subscriptionByOwner(address)"(
@@ -833,8 +2413,74 @@ export class GuildApp extends Contract {
     ): Promise<{
       tokenId: BigNumber;
       expirationTimestamp: BigNumber;
+      tierId: BigNumber;
+      paymentToken: string;
+      paidValue: BigNumber;
+      paidFrom: BigNumber;
+      lockedPrice: BigNumber;
+      frozenAt: BigNumber;
+      freezes: BigNumber;
+      seatReleased: boolean;
+      bonusTime: BigNumber;
+      resumeAt: BigNumber;
       0: BigNumber;
       1: BigNumber;
+      2: BigNumber;
+      3: string;
+      4: BigNumber;
+      5: BigNumber;
+      6: BigNumber;
+      7: BigNumber;
+      8: BigNumber;
+      9: boolean;
+      10: BigNumber;
+      11: BigNumber;
+    }>;
+
+    subscriptionCost(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "subscriptionCost(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    subscriptionCostFor(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "subscriptionCostFor(address,uint256,address,uint256)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    subscriptionExtension(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "subscriptionExtension()"(overrides?: CallOverrides): Promise<{
+      0: string;
     }>;
 
     subscriptionPeriod(overrides?: CallOverrides): Promise<{
@@ -845,6 +2491,20 @@ export class GuildApp extends Contract {
       0: BigNumber;
     }>;
 
+    subscriptionStatus(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: number;
+    }>;
+
+    "subscriptionStatus(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: number;
+    }>;
+
     supportsInterface(
       interfaceId: BytesLike,
       overrides?: CallOverrides
@@ -867,6 +2527,42 @@ export class GuildApp extends Contract {
       0: string;
     }>;
 
+    templateVersion(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "templateVersion()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    tierMembers(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "tierMembers(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    tip(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "tip(address,uint256,string)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
     tokenAddress(overrides?: CallOverrides): Promise<{
       0: string;
     }>;
@@ -906,19 +2602,27 @@ export class GuildApp extends Contract {
     }>;
 
     tokenURI(
-      tokenId: BigNumberish,
+      _tokenId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<{
       0: string;
     }>;
 
     "tokenURI(uint256)"(
-      tokenId: BigNumberish,
+      _tokenId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<{
       0: string;
     }>;
 
+    totalShares(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "totalShares()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
     totalSupply(overrides?: CallOverrides): Promise<{
       0: BigNumber;
     }>;
@@ -927,6 +2631,14 @@ export class GuildApp extends Contract {
       0: BigNumber;
     }>;
 
+    totalTiers(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "totalTiers()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
     transferFrom(
       from: string,
       to: string,
@@ -941,39 +2653,99 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
+    transferPolicy(overrides?: CallOverrides): Promise<{
+      0: number;
+    }>;
+
+    "transferPolicy()"(overrides?: CallOverrides): Promise<{
+      0: number;
+    }>;
+
+    unfreezeSubscription(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "unfreezeSubscription(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     unsubscribe(
-      _tokenId: BigNumberish,
+      arg0: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
     "unsubscribe(uint256)"(
-      _tokenId: BigNumberish,
+      arg0: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
     updateSubscriptionPrice(
-      _tokenAddress: string,
-      _newSubPrice: BigNumberish,
+      arg0: string,
+      arg1: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
     "updateSubscriptionPrice(address,uint256)"(
-      _tokenAddress: string,
-      _newSubPrice: BigNumberish,
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    updateTier(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "updateTier(uint256,string,uint256,uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    upgradeToVersion(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "upgradeToVersion(uint256)"(
+      arg0: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
+    voucherRedemptions(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "voucherRedemptions(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
     withdraw(
-      _tokenAddress: string,
-      _amount: BigNumberish,
-      _beneficiary: string,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
     "withdraw(address,uint256,address)"(
-      _tokenAddress: string,
-      _amount: BigNumberish,
-      _beneficiary: string,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
   };
@@ -982,6 +2754,62 @@ export class GuildApp extends Contract {
 
   "DEFAULT_ADMIN_ROLE()"(overrides?: CallOverrides): Promise<string>;
 
+  METADATA_EDITOR_ROLE(overrides?: CallOverrides): Promise<string>;
+
+  "METADATA_EDITOR_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+  PAUSER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+  "PAUSER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+  PRICE_MANAGER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+  "PRICE_MANAGER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+  RENEWAL_WINDOW(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "RENEWAL_WINDOW()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  TREASURER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+  "TREASURER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+  acceptedTokens(overrides?: CallOverrides): Promise<string[]>;
+
+  "acceptedTokens()"(overrides?: CallOverrides): Promise<string[]>;
+
+  addPaymentToken(
+    arg0: string,
+    arg1: BigNumberish[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "addPaymentToken(address,uint256[])"(
+    arg0: string,
+    arg1: BigNumberish[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  addTier(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: BigNumberish,
+    arg3: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "addTier(string,uint256,uint256,uint256)"(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: BigNumberish,
+    arg3: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  allowlistRoot(overrides?: CallOverrides): Promise<string>;
+
+  "allowlistRoot()"(overrides?: CallOverrides): Promise<string>;
+
   approve(
     to: string,
     tokenId: BigNumberish,
@@ -994,10 +2822,32 @@ export class GuildApp extends Contract {
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
+  approveSubscriptionTransfer(
+    arg0: BigNumberish,
+    arg1: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "approveSubscriptionTransfer(uint256,address)"(
+    arg0: BigNumberish,
+    arg1: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
   approvedTokens(overrides?: CallOverrides): Promise<string[]>;
 
   "approvedTokens()"(overrides?: CallOverrides): Promise<string[]>;
 
+  approvedTransfers(
+    arg0: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "approvedTransfers(uint256)"(
+    arg0: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
   balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
 
   "balanceOf(address)"(
@@ -1009,6 +2859,91 @@ export class GuildApp extends Contract {
 
   "baseURI()"(overrides?: CallOverrides): Promise<string>;
 
+  claim(
+    arg0: string,
+    arg1: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "claim(address,address)"(
+    arg0: string,
+    arg1: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  claimClosingRefund(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "claimClosingRefund(uint256)"(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  claimable(
+    arg0: string,
+    arg1: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "claimable(address,address)"(
+    arg0: string,
+    arg1: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  closeGuild(overrides?: Overrides): Promise<ContractTransaction>;
+
+  "closeGuild()"(overrides?: Overrides): Promise<ContractTransaction>;
+
+  closedAt(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "closedAt()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  closingRefund(
+    _tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "closingRefund(uint256)"(
+    _tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  discountBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "discountBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  discountMinPeriods(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "discountMinPeriods()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  distribute(arg0: string, overrides?: Overrides): Promise<ContractTransaction>;
+
+  "distribute(address)"(
+    arg0: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  extension(overrides?: CallOverrides): Promise<string>;
+
+  "extension()"(overrides?: CallOverrides): Promise<string>;
+
+  factory(overrides?: CallOverrides): Promise<string>;
+
+  "factory()"(overrides?: CallOverrides): Promise<string>;
+
+  freezeSubscription(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "freezeSubscription(uint256)"(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
   getApproved(
     tokenId: BigNumberish,
     overrides?: CallOverrides
@@ -1047,31 +2982,109 @@ export class GuildApp extends Contract {
     overrides?: CallOverrides
   ): Promise<BigNumber>;
 
-  "getRoleMemberCount(bytes32)"(
-    role: BytesLike,
+  "getRoleMemberCount(bytes32)"(
+    role: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getSubscriptionExpiryFor(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "getSubscriptionExpiryFor(address)"(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getSubscriptionIdFor(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "getSubscriptionIdFor(address)"(
+    _account: string,
     overrides?: CallOverrides
   ): Promise<BigNumber>;
 
-  getSubscriptionExpiryFor(
+  getSubscriptionTierFor(
     _account: string,
     overrides?: CallOverrides
   ): Promise<BigNumber>;
 
-  "getSubscriptionExpiryFor(address)"(
+  "getSubscriptionTierFor(address)"(
     _account: string,
     overrides?: CallOverrides
   ): Promise<BigNumber>;
 
-  getSubscriptionIdFor(
-    _account: string,
+  getTier(
+    _tierId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    name: string;
+    price: BigNumber;
+    period: BigNumber;
+    cap: BigNumber;
+    0: string;
+    1: BigNumber;
+    2: BigNumber;
+    3: BigNumber;
+  }>;
+
+  "getTier(uint256)"(
+    _tierId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    name: string;
+    price: BigNumber;
+    period: BigNumber;
+    cap: BigNumber;
+    0: string;
+    1: BigNumber;
+    2: BigNumber;
+    3: BigNumber;
+  }>;
+
+  getTierPrice(
+    _tierId: BigNumberish,
+    _tokenAddress: string,
     overrides?: CallOverrides
   ): Promise<BigNumber>;
 
-  "getSubscriptionIdFor(address)"(
-    _account: string,
+  "getTierPrice(uint256,address)"(
+    _tierId: BigNumberish,
+    _tokenAddress: string,
     overrides?: CallOverrides
   ): Promise<BigNumber>;
 
+  giftSubscription(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    arg5: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "giftSubscription(address,uint256,address,uint256,uint256,string)"(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    arg5: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  gracePeriod(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "gracePeriod()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  grandfatheredPricing(overrides?: CallOverrides): Promise<boolean>;
+
+  "grandfatheredPricing()"(overrides?: CallOverrides): Promise<boolean>;
+
   grantRole(
     role: BytesLike,
     account: string,
@@ -1119,8 +3132,12 @@ export class GuildApp extends Contract {
   initialize(
     _creator: string,
     _tokenAddress: string,
-    _subPrice: BigNumberish,
-    _subscriptionPeriod: BigNumberish,
+    _guildTiers: {
+      name: string;
+      price: BigNumberish;
+      period: BigNumberish;
+      cap: BigNumberish;
+    }[],
     _metadata: {
       name: string;
       symbol: string;
@@ -1128,14 +3145,19 @@ export class GuildApp extends Contract {
       metadataCID: string;
     },
     allowanceModule: string,
+    _transferPolicy: BigNumberish,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
-  "initialize(address,address,uint256,uint256,tuple,address)"(
+  "initialize(address,address,tuple[],tuple,address,uint8)"(
     _creator: string,
     _tokenAddress: string,
-    _subPrice: BigNumberish,
-    _subscriptionPeriod: BigNumberish,
+    _guildTiers: {
+      name: string;
+      price: BigNumberish;
+      period: BigNumberish;
+      cap: BigNumberish;
+    }[],
     _metadata: {
       name: string;
       symbol: string;
@@ -1143,6 +3165,7 @@ export class GuildApp extends Contract {
       metadataCID: string;
     },
     allowanceModule: string,
+    _transferPolicy: BigNumberish,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
@@ -1178,6 +3201,28 @@ export class GuildApp extends Contract {
     overrides?: CallOverrides
   ): Promise<boolean>;
 
+  joinWaitlist(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "joinWaitlist(uint256)"(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  maxFreezeDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "maxFreezeDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  maxFreezes(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "maxFreezes()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  maxMembers(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "maxMembers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
   metadataCID(overrides?: CallOverrides): Promise<string>;
 
   "metadataCID()"(overrides?: CallOverrides): Promise<string>;
@@ -1194,12 +3239,111 @@ export class GuildApp extends Contract {
   ): Promise<string>;
 
   pauseGuild(
-    pause: boolean,
+    arg0: boolean,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
   "pauseGuild(bool)"(
-    pause: boolean,
+    arg0: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  payees(overrides?: CallOverrides): Promise<string[]>;
+
+  "payees()"(overrides?: CallOverrides): Promise<string[]>;
+
+  processClosingRefunds(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "processClosingRefunds(uint256)"(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  referralBonusDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "referralBonusDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  referralRewardBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "referralRewardBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  referrerOf(arg0: string, overrides?: CallOverrides): Promise<string>;
+
+  "referrerOf(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  refundPolicy(overrides?: CallOverrides): Promise<number>;
+
+  "refundPolicy()"(overrides?: CallOverrides): Promise<number>;
+
+  refundWindow(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "refundWindow()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  refundableAmount(
+    _tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "refundableAmount(uint256)"(
+    _tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  releaseSeat(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "releaseSeat(uint256)"(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  remainingSeats(
+    _tierId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "remainingSeats(uint256)"(
+    _tierId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  removePaymentToken(
+    arg0: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "removePaymentToken(address)"(
+    arg0: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  renew(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "renew(uint256,uint256)"(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  renewBatch(
+    arg0: string[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "renewBatch(address[])"(
+    arg0: string[],
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
@@ -1227,6 +3371,32 @@ export class GuildApp extends Contract {
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
+  safeSubscriptionHash(
+    _safe: string,
+    _terms: {
+      entryPoint: BytesLike;
+      tierId: BigNumberish;
+      tokenAddress: string;
+      periods: BigNumberish;
+      value: BigNumberish;
+      referrer: string;
+    },
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "safeSubscriptionHash(address,tuple)"(
+    _safe: string,
+    _terms: {
+      entryPoint: BytesLike;
+      tierId: BigNumberish;
+      tokenAddress: string;
+      periods: BigNumberish;
+      value: BigNumberish;
+      referrer: string;
+    },
+    overrides?: CallOverrides
+  ): Promise<string>;
+
   "safeTransferFrom(address,address,uint256)"(
     from: string,
     to: string,
@@ -1242,6 +3412,18 @@ export class GuildApp extends Contract {
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
+  setAllowlist(
+    arg0: BytesLike,
+    arg1: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setAllowlist(bytes32,string)"(
+    arg0: BytesLike,
+    arg1: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
   setApprovalForAll(
     operator: string,
     approved: boolean,
@@ -1254,33 +3436,292 @@ export class GuildApp extends Contract {
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
+  setFreezePolicy(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setFreezePolicy(uint256,uint256)"(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setGracePeriod(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setGracePeriod(uint256)"(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setGrandfatheredPricing(
+    arg0: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setGrandfatheredPricing(bool)"(
+    arg0: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setMaxMembers(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setMaxMembers(uint256)"(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
   setMetadata(
-    _metadataCID: string,
+    arg0: string,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
   "setMetadata(string)"(
-    _metadataCID: string,
+    arg0: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setPayees(
+    arg0: string[],
+    arg1: BigNumberish[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setPayees(address[],uint256[])"(
+    arg0: string[],
+    arg1: BigNumberish[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setPeriodDiscount(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
+  "setPeriodDiscount(uint256,uint256)"(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setReferralPolicy(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setReferralPolicy(uint256,uint256)"(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setRefundPolicy(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setRefundPolicy(uint8,uint256)"(
+    arg0: BigNumberish,
+    arg1: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setTokenPrice(
+    arg0: BigNumberish,
+    arg1: string,
+    arg2: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setTokenPrice(uint256,address,uint256)"(
+    arg0: BigNumberish,
+    arg1: string,
+    arg2: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  shares(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+  "shares(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
   subPrice(overrides?: CallOverrides): Promise<BigNumber>;
 
   "subPrice()"(overrides?: CallOverrides): Promise<BigNumber>;
 
   subscribe(
-    _subscriber: string,
-    _tokenURI: string,
-    _value: BigNumberish,
-    _data: BytesLike,
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: string,
+    arg4: BigNumberish,
+    arg5: BytesLike,
     overrides?: PayableOverrides
   ): Promise<ContractTransaction>;
 
-  "subscribe(address,string,uint256,bytes)"(
-    _subscriber: string,
-    _tokenURI: string,
-    _value: BigNumberish,
-    _data: BytesLike,
+  "subscribe(address,uint256,address,string,uint256,bytes)"(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: string,
+    arg4: BigNumberish,
+    arg5: BytesLike,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  subscribeForPeriods(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: string,
+    arg4: BigNumberish,
+    arg5: BigNumberish,
+    arg6: BytesLike,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)"(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: string,
+    arg4: BigNumberish,
+    arg5: BigNumberish,
+    arg6: BytesLike,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  subscribeWithPermit(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    arg5: {
+      daiStyle: boolean;
+      nonce: BigNumberish;
+      deadline: BigNumberish;
+      v: BigNumberish;
+      r: BytesLike;
+      s: BytesLike;
+    },
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)"(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    arg5: {
+      daiStyle: boolean;
+      nonce: BigNumberish;
+      deadline: BigNumberish;
+      v: BigNumberish;
+      r: BytesLike;
+      s: BytesLike;
+    },
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  subscribeWithProof(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    arg5: BytesLike,
+    arg6: BytesLike[],
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])"(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    arg5: BytesLike,
+    arg6: BytesLike[],
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  subscribeWithReferrer(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    arg5: BytesLike,
+    arg6: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)"(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    arg5: BytesLike,
+    arg6: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  subscribeWithVoucher(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    arg5: BytesLike,
+    arg6: {
+      tierId: BigNumberish;
+      discountBps: BigNumberish;
+      tokenAddress: string;
+      fixedPrice: BigNumberish;
+      maxUses: BigNumberish;
+      expiry: BigNumberish;
+      recipient: string;
+      salt: BytesLike;
+    },
+    arg7: BytesLike,
+    arg8: BytesLike[],
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])"(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    arg5: BytesLike,
+    arg6: {
+      tierId: BigNumberish;
+      discountBps: BigNumberish;
+      tokenAddress: string;
+      fixedPrice: BigNumberish;
+      maxUses: BigNumberish;
+      expiry: BigNumberish;
+      recipient: string;
+      salt: BytesLike;
+    },
+    arg7: BytesLike,
+    arg8: BytesLike[],
     overrides?: PayableOverrides
   ): Promise<ContractTransaction>;
 
@@ -1290,8 +3731,28 @@ export class GuildApp extends Contract {
   ): Promise<{
     tokenId: BigNumber;
     expirationTimestamp: BigNumber;
+    tierId: BigNumber;
+    paymentToken: string;
+    paidValue: BigNumber;
+    paidFrom: BigNumber;
+    lockedPrice: BigNumber;
+    frozenAt: BigNumber;
+    freezes: BigNumber;
+    seatReleased: boolean;
+    bonusTime: BigNumber;
+    resumeAt: BigNumber;
     0: BigNumber;
     1: BigNumber;
+    2: BigNumber;
+    3: string;
+    4: BigNumber;
+    5: BigNumber;
+    6: BigNumber;
+    7: BigNumber;
+    8: BigNumber;
+    9: boolean;
+    10: BigNumber;
+    11: BigNumber;
   }>;
 
   "subscriptionByOwner(address)"(
@@ -1300,14 +3761,78 @@ export class GuildApp extends Contract {
   ): Promise<{
     tokenId: BigNumber;
     expirationTimestamp: BigNumber;
+    tierId: BigNumber;
+    paymentToken: string;
+    paidValue: BigNumber;
+    paidFrom: BigNumber;
+    lockedPrice: BigNumber;
+    frozenAt: BigNumber;
+    freezes: BigNumber;
+    seatReleased: boolean;
+    bonusTime: BigNumber;
+    resumeAt: BigNumber;
     0: BigNumber;
     1: BigNumber;
+    2: BigNumber;
+    3: string;
+    4: BigNumber;
+    5: BigNumber;
+    6: BigNumber;
+    7: BigNumber;
+    8: BigNumber;
+    9: boolean;
+    10: BigNumber;
+    11: BigNumber;
   }>;
 
+  subscriptionCost(
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "subscriptionCost(uint256,address,uint256)"(
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  subscriptionCostFor(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "subscriptionCostFor(address,uint256,address,uint256)"(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  subscriptionExtension(overrides?: CallOverrides): Promise<string>;
+
+  "subscriptionExtension()"(overrides?: CallOverrides): Promise<string>;
+
   subscriptionPeriod(overrides?: CallOverrides): Promise<BigNumber>;
 
   "subscriptionPeriod()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+  subscriptionStatus(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<number>;
+
+  "subscriptionStatus(address)"(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<number>;
+
   supportsInterface(
     interfaceId: BytesLike,
     overrides?: CallOverrides
@@ -1322,6 +3847,34 @@ export class GuildApp extends Contract {
 
   "symbol()"(overrides?: CallOverrides): Promise<string>;
 
+  templateVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "templateVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  tierMembers(
+    _tierId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "tierMembers(uint256)"(
+    _tierId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  tip(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "tip(address,uint256,string)"(
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
   tokenAddress(overrides?: CallOverrides): Promise<string>;
 
   "tokenAddress()"(overrides?: CallOverrides): Promise<string>;
@@ -1348,17 +3901,25 @@ export class GuildApp extends Contract {
     overrides?: CallOverrides
   ): Promise<BigNumber>;
 
-  tokenURI(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+  tokenURI(_tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
 
   "tokenURI(uint256)"(
-    tokenId: BigNumberish,
+    _tokenId: BigNumberish,
     overrides?: CallOverrides
   ): Promise<string>;
 
+  totalShares(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "totalShares()"(overrides?: CallOverrides): Promise<BigNumber>;
+
   totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
 
   "totalSupply()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+  totalTiers(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "totalTiers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
   transferFrom(
     from: string,
     to: string,
@@ -1373,39 +3934,91 @@ export class GuildApp extends Contract {
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
+  transferPolicy(overrides?: CallOverrides): Promise<number>;
+
+  "transferPolicy()"(overrides?: CallOverrides): Promise<number>;
+
+  unfreezeSubscription(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "unfreezeSubscription(uint256)"(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
   unsubscribe(
-    _tokenId: BigNumberish,
+    arg0: BigNumberish,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
   "unsubscribe(uint256)"(
-    _tokenId: BigNumberish,
+    arg0: BigNumberish,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
   updateSubscriptionPrice(
-    _tokenAddress: string,
-    _newSubPrice: BigNumberish,
+    arg0: string,
+    arg1: BigNumberish,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
   "updateSubscriptionPrice(address,uint256)"(
-    _tokenAddress: string,
-    _newSubPrice: BigNumberish,
+    arg0: string,
+    arg1: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  updateTier(
+    arg0: BigNumberish,
+    arg1: string,
+    arg2: BigNumberish,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "updateTier(uint256,string,uint256,uint256,uint256)"(
+    arg0: BigNumberish,
+    arg1: string,
+    arg2: BigNumberish,
+    arg3: BigNumberish,
+    arg4: BigNumberish,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
+  upgradeToVersion(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "upgradeToVersion(uint256)"(
+    arg0: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  voucherRedemptions(
+    arg0: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "voucherRedemptions(bytes32)"(
+    arg0: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
   withdraw(
-    _tokenAddress: string,
-    _amount: BigNumberish,
-    _beneficiary: string,
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
   "withdraw(address,uint256,address)"(
-    _tokenAddress: string,
-    _amount: BigNumberish,
-    _beneficiary: string,
+    arg0: string,
+    arg1: BigNumberish,
+    arg2: string,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
@@ -1414,6 +4027,62 @@ export class GuildApp extends Contract {
 
     "DEFAULT_ADMIN_ROLE()"(overrides?: CallOverrides): Promise<string>;
 
+    METADATA_EDITOR_ROLE(overrides?: CallOverrides): Promise<string>;
+
+    "METADATA_EDITOR_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+    PAUSER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+    "PAUSER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+    PRICE_MANAGER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+    "PRICE_MANAGER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+    RENEWAL_WINDOW(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "RENEWAL_WINDOW()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    TREASURER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+    "TREASURER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+    acceptedTokens(overrides?: CallOverrides): Promise<string[]>;
+
+    "acceptedTokens()"(overrides?: CallOverrides): Promise<string[]>;
+
+    addPaymentToken(
+      arg0: string,
+      arg1: BigNumberish[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "addPaymentToken(address,uint256[])"(
+      arg0: string,
+      arg1: BigNumberish[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    addTier(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "addTier(string,uint256,uint256,uint256)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    allowlistRoot(overrides?: CallOverrides): Promise<string>;
+
+    "allowlistRoot()"(overrides?: CallOverrides): Promise<string>;
+
     approve(
       to: string,
       tokenId: BigNumberish,
@@ -1426,10 +4095,32 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<void>;
 
+    approveSubscriptionTransfer(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "approveSubscriptionTransfer(uint256,address)"(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     approvedTokens(overrides?: CallOverrides): Promise<string[]>;
 
     "approvedTokens()"(overrides?: CallOverrides): Promise<string[]>;
 
+    approvedTransfers(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "approvedTransfers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
     balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
 
     "balanceOf(address)"(
@@ -1441,6 +4132,87 @@ export class GuildApp extends Contract {
 
     "baseURI()"(overrides?: CallOverrides): Promise<string>;
 
+    claim(arg0: string, arg1: string, overrides?: CallOverrides): Promise<void>;
+
+    "claim(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    claimClosingRefund(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "claimClosingRefund(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    claimable(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "claimable(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    closeGuild(overrides?: CallOverrides): Promise<void>;
+
+    "closeGuild()"(overrides?: CallOverrides): Promise<void>;
+
+    closedAt(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "closedAt()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    closingRefund(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "closingRefund(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    discountBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "discountBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    discountMinPeriods(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "discountMinPeriods()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    distribute(arg0: string, overrides?: CallOverrides): Promise<void>;
+
+    "distribute(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    extension(overrides?: CallOverrides): Promise<string>;
+
+    "extension()"(overrides?: CallOverrides): Promise<string>;
+
+    factory(overrides?: CallOverrides): Promise<string>;
+
+    "factory()"(overrides?: CallOverrides): Promise<string>;
+
+    freezeSubscription(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "freezeSubscription(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     getApproved(
       tokenId: BigNumberish,
       overrides?: CallOverrides
@@ -1504,6 +4276,84 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    getSubscriptionTierFor(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getSubscriptionTierFor(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getTier(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      name: string;
+      price: BigNumber;
+      period: BigNumber;
+      cap: BigNumber;
+      0: string;
+      1: BigNumber;
+      2: BigNumber;
+      3: BigNumber;
+    }>;
+
+    "getTier(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      name: string;
+      price: BigNumber;
+      period: BigNumber;
+      cap: BigNumber;
+      0: string;
+      1: BigNumber;
+      2: BigNumber;
+      3: BigNumber;
+    }>;
+
+    getTierPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getTierPrice(uint256,address)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    giftSubscription(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "giftSubscription(address,uint256,address,uint256,uint256,string)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    gracePeriod(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "gracePeriod()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    grandfatheredPricing(overrides?: CallOverrides): Promise<boolean>;
+
+    "grandfatheredPricing()"(overrides?: CallOverrides): Promise<boolean>;
+
     grantRole(
       role: BytesLike,
       account: string,
@@ -1551,8 +4401,12 @@ export class GuildApp extends Contract {
     initialize(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _guildTiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -1560,14 +4414,19 @@ export class GuildApp extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
-    "initialize(address,address,uint256,uint256,tuple,address)"(
+    "initialize(address,address,tuple[],tuple,address,uint8)"(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _guildTiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -1575,6 +4434,7 @@ export class GuildApp extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
@@ -1596,39 +4456,145 @@ export class GuildApp extends Contract {
       owner: string,
       operator: string,
       overrides?: CallOverrides
-    ): Promise<boolean>;
+    ): Promise<boolean>;
+
+    isSubscriptionOwner(
+      _tokenId: BigNumberish,
+      _holder: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isSubscriptionOwner(uint256,address)"(
+      _tokenId: BigNumberish,
+      _holder: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    joinWaitlist(arg0: BigNumberish, overrides?: CallOverrides): Promise<void>;
+
+    "joinWaitlist(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    maxFreezeDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxFreezeDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    maxFreezes(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxFreezes()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    maxMembers(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxMembers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    metadataCID(overrides?: CallOverrides): Promise<string>;
+
+    "metadataCID()"(overrides?: CallOverrides): Promise<string>;
+
+    name(overrides?: CallOverrides): Promise<string>;
+
+    "name()"(overrides?: CallOverrides): Promise<string>;
+
+    ownerOf(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+
+    "ownerOf(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    pauseGuild(arg0: boolean, overrides?: CallOverrides): Promise<void>;
+
+    "pauseGuild(bool)"(arg0: boolean, overrides?: CallOverrides): Promise<void>;
+
+    payees(overrides?: CallOverrides): Promise<string[]>;
+
+    "payees()"(overrides?: CallOverrides): Promise<string[]>;
+
+    processClosingRefunds(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "processClosingRefunds(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    referralBonusDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "referralBonusDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    referralRewardBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "referralRewardBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    referrerOf(arg0: string, overrides?: CallOverrides): Promise<string>;
+
+    "referrerOf(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<string>;
 
-    isSubscriptionOwner(
+    refundPolicy(overrides?: CallOverrides): Promise<number>;
+
+    "refundPolicy()"(overrides?: CallOverrides): Promise<number>;
+
+    refundWindow(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "refundWindow()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    refundableAmount(
       _tokenId: BigNumberish,
-      _holder: string,
       overrides?: CallOverrides
-    ): Promise<boolean>;
+    ): Promise<BigNumber>;
 
-    "isSubscriptionOwner(uint256,address)"(
+    "refundableAmount(uint256)"(
       _tokenId: BigNumberish,
-      _holder: string,
       overrides?: CallOverrides
-    ): Promise<boolean>;
+    ): Promise<BigNumber>;
 
-    metadataCID(overrides?: CallOverrides): Promise<string>;
+    releaseSeat(arg0: BigNumberish, overrides?: CallOverrides): Promise<void>;
 
-    "metadataCID()"(overrides?: CallOverrides): Promise<string>;
+    "releaseSeat(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-    name(overrides?: CallOverrides): Promise<string>;
+    remainingSeats(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
 
-    "name()"(overrides?: CallOverrides): Promise<string>;
+    "remainingSeats(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
 
-    ownerOf(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+    removePaymentToken(arg0: string, overrides?: CallOverrides): Promise<void>;
 
-    "ownerOf(uint256)"(
-      tokenId: BigNumberish,
+    "removePaymentToken(address)"(
+      arg0: string,
       overrides?: CallOverrides
-    ): Promise<string>;
+    ): Promise<void>;
+
+    renew(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-    pauseGuild(pause: boolean, overrides?: CallOverrides): Promise<void>;
+    "renew(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-    "pauseGuild(bool)"(
-      pause: boolean,
+    renewBatch(arg0: string[], overrides?: CallOverrides): Promise<void>;
+
+    "renewBatch(address[])"(
+      arg0: string[],
       overrides?: CallOverrides
     ): Promise<void>;
 
@@ -1656,6 +4622,32 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<void>;
 
+    safeSubscriptionHash(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "safeSubscriptionHash(address,tuple)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<string>;
+
     "safeTransferFrom(address,address,uint256)"(
       from: string,
       to: string,
@@ -1671,6 +4663,18 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<void>;
 
+    setAllowlist(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setAllowlist(bytes32,string)"(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     setApprovalForAll(
       operator: string,
       approved: boolean,
@@ -1683,30 +4687,286 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<void>;
 
-    setMetadata(_metadataCID: string, overrides?: CallOverrides): Promise<void>;
+    setFreezePolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setFreezePolicy(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setGracePeriod(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setGracePeriod(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setGrandfatheredPricing(
+      arg0: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setGrandfatheredPricing(bool)"(
+      arg0: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setMaxMembers(arg0: BigNumberish, overrides?: CallOverrides): Promise<void>;
+
+    "setMaxMembers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setMetadata(arg0: string, overrides?: CallOverrides): Promise<void>;
 
     "setMetadata(string)"(
-      _metadataCID: string,
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setPayees(
+      arg0: string[],
+      arg1: BigNumberish[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setPayees(address[],uint256[])"(
+      arg0: string[],
+      arg1: BigNumberish[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setPeriodDiscount(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setPeriodDiscount(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setReferralPolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setReferralPolicy(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setRefundPolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setRefundPolicy(uint8,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setTokenPrice(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setTokenPrice(uint256,address,uint256)"(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
+    shares(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "shares(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     subPrice(overrides?: CallOverrides): Promise<BigNumber>;
 
     "subPrice()"(overrides?: CallOverrides): Promise<BigNumber>;
 
     subscribe(
-      _subscriber: string,
-      _tokenURI: string,
-      _value: BigNumberish,
-      _data: BytesLike,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BytesLike,
       overrides?: CallOverrides
     ): Promise<void>;
 
-    "subscribe(address,string,uint256,bytes)"(
-      _subscriber: string,
-      _tokenURI: string,
-      _value: BigNumberish,
-      _data: BytesLike,
+    "subscribe(address,uint256,address,string,uint256,bytes)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    subscribeForPeriods(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BigNumberish,
+      arg6: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BigNumberish,
+      arg6: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    subscribeWithPermit(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    subscribeWithProof(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: BytesLike[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: BytesLike[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    subscribeWithReferrer(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    subscribeWithVoucher(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      arg7: BytesLike,
+      arg8: BytesLike[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      arg7: BytesLike,
+      arg8: BytesLike[],
       overrides?: CallOverrides
     ): Promise<void>;
 
@@ -1716,8 +4976,28 @@ export class GuildApp extends Contract {
     ): Promise<{
       tokenId: BigNumber;
       expirationTimestamp: BigNumber;
+      tierId: BigNumber;
+      paymentToken: string;
+      paidValue: BigNumber;
+      paidFrom: BigNumber;
+      lockedPrice: BigNumber;
+      frozenAt: BigNumber;
+      freezes: BigNumber;
+      seatReleased: boolean;
+      bonusTime: BigNumber;
+      resumeAt: BigNumber;
       0: BigNumber;
       1: BigNumber;
+      2: BigNumber;
+      3: string;
+      4: BigNumber;
+      5: BigNumber;
+      6: BigNumber;
+      7: BigNumber;
+      8: BigNumber;
+      9: boolean;
+      10: BigNumber;
+      11: BigNumber;
     }>;
 
     "subscriptionByOwner(address)"(
@@ -1726,14 +5006,78 @@ export class GuildApp extends Contract {
     ): Promise<{
       tokenId: BigNumber;
       expirationTimestamp: BigNumber;
+      tierId: BigNumber;
+      paymentToken: string;
+      paidValue: BigNumber;
+      paidFrom: BigNumber;
+      lockedPrice: BigNumber;
+      frozenAt: BigNumber;
+      freezes: BigNumber;
+      seatReleased: boolean;
+      bonusTime: BigNumber;
+      resumeAt: BigNumber;
       0: BigNumber;
       1: BigNumber;
+      2: BigNumber;
+      3: string;
+      4: BigNumber;
+      5: BigNumber;
+      6: BigNumber;
+      7: BigNumber;
+      8: BigNumber;
+      9: boolean;
+      10: BigNumber;
+      11: BigNumber;
     }>;
 
+    subscriptionCost(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionCost(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    subscriptionCostFor(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionCostFor(address,uint256,address,uint256)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    subscriptionExtension(overrides?: CallOverrides): Promise<string>;
+
+    "subscriptionExtension()"(overrides?: CallOverrides): Promise<string>;
+
     subscriptionPeriod(overrides?: CallOverrides): Promise<BigNumber>;
 
     "subscriptionPeriod()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+    subscriptionStatus(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<number>;
+
+    "subscriptionStatus(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<number>;
+
     supportsInterface(
       interfaceId: BytesLike,
       overrides?: CallOverrides
@@ -1748,6 +5092,34 @@ export class GuildApp extends Contract {
 
     "symbol()"(overrides?: CallOverrides): Promise<string>;
 
+    templateVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "templateVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tierMembers(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "tierMembers(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    tip(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "tip(address,uint256,string)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     tokenAddress(overrides?: CallOverrides): Promise<string>;
 
     "tokenAddress()"(overrides?: CallOverrides): Promise<string>;
@@ -1774,17 +5146,28 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
-    tokenURI(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+    tokenURI(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
 
     "tokenURI(uint256)"(
-      tokenId: BigNumberish,
+      _tokenId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<string>;
 
+    totalShares(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "totalShares()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
 
     "totalSupply()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+    totalTiers(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "totalTiers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     transferFrom(
       from: string,
       to: string,
@@ -1799,56 +5182,127 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<void>;
 
-    unsubscribe(
-      _tokenId: BigNumberish,
+    transferPolicy(overrides?: CallOverrides): Promise<number>;
+
+    "transferPolicy()"(overrides?: CallOverrides): Promise<number>;
+
+    unfreezeSubscription(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "unfreezeSubscription(uint256)"(
+      arg0: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
+    unsubscribe(arg0: BigNumberish, overrides?: CallOverrides): Promise<void>;
+
     "unsubscribe(uint256)"(
-      _tokenId: BigNumberish,
+      arg0: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
     updateSubscriptionPrice(
-      _tokenAddress: string,
-      _newSubPrice: BigNumberish,
+      arg0: string,
+      arg1: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
     "updateSubscriptionPrice(address,uint256)"(
-      _tokenAddress: string,
-      _newSubPrice: BigNumberish,
+      arg0: string,
+      arg1: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
+    updateTier(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "updateTier(uint256,string,uint256,uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    upgradeToVersion(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "upgradeToVersion(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    voucherRedemptions(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "voucherRedemptions(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     withdraw(
-      _tokenAddress: string,
-      _amount: BigNumberish,
-      _beneficiary: string,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
       overrides?: CallOverrides
     ): Promise<void>;
 
     "withdraw(address,uint256,address)"(
-      _tokenAddress: string,
-      _amount: BigNumberish,
-      _beneficiary: string,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
       overrides?: CallOverrides
     ): Promise<void>;
   };
 
   filters: {
+    AllowlistUpdated(_root: null, _listCID: null): EventFilter;
+
     Approval(
       owner: string | null,
       approved: string | null,
       tokenId: BigNumberish | null
     ): EventFilter;
 
-    ApprovalForAll(
-      owner: string | null,
-      operator: string | null,
-      approved: null
+    ApprovalForAll(
+      owner: string | null,
+      operator: string | null,
+      approved: null
+    ): EventFilter;
+
+    Claimed(_tokenAddress: null, _payee: null, _amount: null): EventFilter;
+
+    ClosingRefundsProcessed(
+      _lastTokenId: null,
+      _totalTokens: null
+    ): EventFilter;
+
+    Distributed(_tokenAddress: null, _amount: null): EventFilter;
+
+    FreezePolicyUpdated(
+      _maxFreezeDuration: null,
+      _maxFreezes: null
     ): EventFilter;
 
+    GracePeriodUpdated(_gracePeriod: null): EventFilter;
+
+    GrandfatheredPricingUpdated(_enabled: null): EventFilter;
+
+    GuildClosed(_closedAt: null): EventFilter;
+
     InitializedGuild(
       _creator: null,
       _tokenAddress: null,
@@ -1857,24 +5311,65 @@ export class GuildApp extends Contract {
       _metadata: null
     ): EventFilter;
 
+    MaxMembersUpdated(_maxMembers: null): EventFilter;
+
     NewSubscription(
       _subscriber: null,
       _tokenId: null,
+      _tierId: null,
+      _tokenAddress: null,
       _value: null,
+      _fee: null,
       expiry: null,
       _data: null
     ): EventFilter;
 
     PausedGuild(_isPaused: null): EventFilter;
 
+    PayeesUpdated(_payees: null, _shares: null): EventFilter;
+
+    PaymentTokenAdded(_tokenAddress: null): EventFilter;
+
+    PaymentTokenRemoved(_tokenAddress: null): EventFilter;
+
+    PeriodDiscountUpdated(_minPeriods: null, _discountBps: null): EventFilter;
+
+    PriceLocked(_tokenId: null, _tokenAddress: null, _price: null): EventFilter;
+
+    ReferralCredited(
+      _referrer: null,
+      _referrerTokenId: null,
+      _subscriber: null,
+      _tokenAddress: null,
+      _reward: null,
+      _bonusDuration: null,
+      _referrerExpiry: null
+    ): EventFilter;
+
+    ReferralPolicyUpdated(_rewardBps: null, _bonusDuration: null): EventFilter;
+
+    RefundPolicyUpdated(_policy: null, _refundWindow: null): EventFilter;
+
+    Refunded(
+      _tokenId: null,
+      _subscriber: null,
+      _tokenAddress: null,
+      _value: null
+    ): EventFilter;
+
     RenewSubscription(
       _subscriber: null,
       _tokenId: null,
+      _tierId: null,
+      _tokenAddress: null,
       _value: null,
+      _fee: null,
       expiry: null,
       _data: null
     ): EventFilter;
 
+    RenewalFailed(_subscriber: null, _reason: null): EventFilter;
+
     RoleAdminChanged(
       role: BytesLike | null,
       previousAdminRole: BytesLike | null,
@@ -1893,18 +5388,75 @@ export class GuildApp extends Contract {
       sender: string | null
     ): EventFilter;
 
+    SeatReleased(_tokenId: null, _tierId: null): EventFilter;
+
+    SubscriptionFrozen(
+      _tokenId: null,
+      _remaining: null,
+      _resumeAt: null
+    ): EventFilter;
+
+    SubscriptionGifted(
+      _payer: null,
+      _recipient: null,
+      _tokenId: null,
+      expiry: null,
+      _messageCID: null
+    ): EventFilter;
+
     SubscriptionPriceChanged(_tokenAddress: null, _subPrice: null): EventFilter;
 
+    SubscriptionTransferApproved(_tokenId: null, _to: null): EventFilter;
+
+    SubscriptionUnfrozen(
+      _tokenId: null,
+      _expirationTimestamp: null
+    ): EventFilter;
+
+    TierUpdated(
+      _tierId: null,
+      _name: null,
+      _price: null,
+      _period: null,
+      _cap: null
+    ): EventFilter;
+
+    Tipped(
+      _tipper: null,
+      _tokenAddress: null,
+      _value: null,
+      _fee: null,
+      _messageCID: null
+    ): EventFilter;
+
+    TokenPriceUpdated(
+      _tierId: null,
+      _tokenAddress: null,
+      _price: null
+    ): EventFilter;
+
     Transfer(
       from: string | null,
       to: string | null,
       tokenId: BigNumberish | null
     ): EventFilter;
 
+    TransferPolicyUpdated(_policy: null): EventFilter;
+
     Unsubscribed(_tokenId: null): EventFilter;
 
     UpdatedMetadata(_metadataURI: null): EventFilter;
 
+    Upgraded(_version: null, _template: null): EventFilter;
+
+    VoucherRedeemed(
+      _voucher: null,
+      _subscriber: null,
+      _cost: null
+    ): EventFilter;
+
+    WaitlistJoined(_account: null, _tierId: null): EventFilter;
+
     Withdraw(
       _tokenAddress: null,
       beneficiary: null,
@@ -1917,6 +5469,62 @@ export class GuildApp extends Contract {
 
     "DEFAULT_ADMIN_ROLE()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+    METADATA_EDITOR_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "METADATA_EDITOR_ROLE()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    PAUSER_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "PAUSER_ROLE()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    PRICE_MANAGER_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "PRICE_MANAGER_ROLE()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    RENEWAL_WINDOW(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "RENEWAL_WINDOW()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    TREASURER_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "TREASURER_ROLE()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    acceptedTokens(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "acceptedTokens()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    addPaymentToken(
+      arg0: string,
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "addPaymentToken(address,uint256[])"(
+      arg0: string,
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    addTier(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "addTier(string,uint256,uint256,uint256)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    allowlistRoot(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "allowlistRoot()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     approve(
       to: string,
       tokenId: BigNumberish,
@@ -1929,10 +5537,32 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    approveSubscriptionTransfer(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "approveSubscriptionTransfer(uint256,address)"(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     approvedTokens(overrides?: CallOverrides): Promise<BigNumber>;
 
     "approvedTokens()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+    approvedTransfers(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "approvedTransfers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
 
     "balanceOf(address)"(
@@ -1944,6 +5574,91 @@ export class GuildApp extends Contract {
 
     "baseURI()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+    claim(
+      arg0: string,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "claim(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    claimClosingRefund(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "claimClosingRefund(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    claimable(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "claimable(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    closeGuild(overrides?: Overrides): Promise<BigNumber>;
+
+    "closeGuild()"(overrides?: Overrides): Promise<BigNumber>;
+
+    closedAt(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "closedAt()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    closingRefund(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "closingRefund(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    discountBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "discountBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    discountMinPeriods(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "discountMinPeriods()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    distribute(arg0: string, overrides?: Overrides): Promise<BigNumber>;
+
+    "distribute(address)"(
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    extension(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "extension()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    factory(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "factory()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    freezeSubscription(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "freezeSubscription(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     getApproved(
       tokenId: BigNumberish,
       overrides?: CallOverrides
@@ -2010,6 +5725,66 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    getSubscriptionTierFor(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getSubscriptionTierFor(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getTier(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getTier(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getTierPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getTierPrice(uint256,address)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    giftSubscription(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: string,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "giftSubscription(address,uint256,address,uint256,uint256,string)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: string,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    gracePeriod(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "gracePeriod()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    grandfatheredPricing(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "grandfatheredPricing()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     grantRole(
       role: BytesLike,
       account: string,
@@ -2057,8 +5832,12 @@ export class GuildApp extends Contract {
     initialize(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _guildTiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -2066,14 +5845,19 @@ export class GuildApp extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    "initialize(address,address,uint256,uint256,tuple,address)"(
+    "initialize(address,address,tuple[],tuple,address,uint8)"(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _guildTiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -2081,63 +5865,173 @@ export class GuildApp extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    initialized(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "initialized()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    isActive(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "isActive()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    isApprovedForAll(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isApprovedForAll(address,address)"(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isSubscriptionOwner(
+      _tokenId: BigNumberish,
+      _holder: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isSubscriptionOwner(uint256,address)"(
+      _tokenId: BigNumberish,
+      _holder: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    joinWaitlist(arg0: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+
+    "joinWaitlist(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    maxFreezeDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxFreezeDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    maxFreezes(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxFreezes()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    maxMembers(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxMembers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    metadataCID(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "metadataCID()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    name(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "name()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    ownerOf(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "ownerOf(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    pauseGuild(arg0: boolean, overrides?: Overrides): Promise<BigNumber>;
+
+    "pauseGuild(bool)"(
+      arg0: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    payees(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "payees()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    processClosingRefunds(
+      arg0: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    initialized(overrides?: CallOverrides): Promise<BigNumber>;
+    "processClosingRefunds(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
 
-    "initialized()"(overrides?: CallOverrides): Promise<BigNumber>;
+    referralBonusDuration(overrides?: CallOverrides): Promise<BigNumber>;
 
-    isActive(overrides?: CallOverrides): Promise<BigNumber>;
+    "referralBonusDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
 
-    "isActive()"(overrides?: CallOverrides): Promise<BigNumber>;
+    referralRewardBps(overrides?: CallOverrides): Promise<BigNumber>;
 
-    isApprovedForAll(
-      owner: string,
-      operator: string,
-      overrides?: CallOverrides
-    ): Promise<BigNumber>;
+    "referralRewardBps()"(overrides?: CallOverrides): Promise<BigNumber>;
 
-    "isApprovedForAll(address,address)"(
-      owner: string,
-      operator: string,
+    referrerOf(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "referrerOf(address)"(
+      arg0: string,
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
-    isSubscriptionOwner(
+    refundPolicy(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "refundPolicy()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    refundWindow(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "refundWindow()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    refundableAmount(
       _tokenId: BigNumberish,
-      _holder: string,
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
-    "isSubscriptionOwner(uint256,address)"(
+    "refundableAmount(uint256)"(
       _tokenId: BigNumberish,
-      _holder: string,
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
-    metadataCID(overrides?: CallOverrides): Promise<BigNumber>;
-
-    "metadataCID()"(overrides?: CallOverrides): Promise<BigNumber>;
-
-    name(overrides?: CallOverrides): Promise<BigNumber>;
+    releaseSeat(arg0: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
 
-    "name()"(overrides?: CallOverrides): Promise<BigNumber>;
+    "releaseSeat(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
 
-    ownerOf(
-      tokenId: BigNumberish,
+    remainingSeats(
+      _tierId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
-    "ownerOf(uint256)"(
-      tokenId: BigNumberish,
+    "remainingSeats(uint256)"(
+      _tierId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
-    pauseGuild(pause: boolean, overrides?: Overrides): Promise<BigNumber>;
+    removePaymentToken(arg0: string, overrides?: Overrides): Promise<BigNumber>;
 
-    "pauseGuild(bool)"(
-      pause: boolean,
+    "removePaymentToken(address)"(
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    renew(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "renew(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    renewBatch(arg0: string[], overrides?: Overrides): Promise<BigNumber>;
+
+    "renewBatch(address[])"(
+      arg0: string[],
       overrides?: Overrides
     ): Promise<BigNumber>;
 
@@ -2165,6 +6059,32 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    safeSubscriptionHash(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "safeSubscriptionHash(address,tuple)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     "safeTransferFrom(address,address,uint256)"(
       from: string,
       to: string,
@@ -2180,6 +6100,18 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    setAllowlist(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setAllowlist(bytes32,string)"(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     setApprovalForAll(
       operator: string,
       approved: boolean,
@@ -2192,33 +6124,289 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    setMetadata(
-      _metadataCID: string,
+    setFreezePolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setFreezePolicy(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setGracePeriod(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setGracePeriod(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setGrandfatheredPricing(
+      arg0: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setGrandfatheredPricing(bool)"(
+      arg0: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setMaxMembers(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setMaxMembers(uint256)"(
+      arg0: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    setMetadata(arg0: string, overrides?: Overrides): Promise<BigNumber>;
+
     "setMetadata(string)"(
-      _metadataCID: string,
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setPayees(
+      arg0: string[],
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setPayees(address[],uint256[])"(
+      arg0: string[],
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setPeriodDiscount(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setPeriodDiscount(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setReferralPolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setReferralPolicy(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setRefundPolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setRefundPolicy(uint8,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setTokenPrice(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setTokenPrice(uint256,address,uint256)"(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    shares(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "shares(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     subPrice(overrides?: CallOverrides): Promise<BigNumber>;
 
     "subPrice()"(overrides?: CallOverrides): Promise<BigNumber>;
 
     subscribe(
-      _subscriber: string,
-      _tokenURI: string,
-      _value: BigNumberish,
-      _data: BytesLike,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BytesLike,
       overrides?: PayableOverrides
     ): Promise<BigNumber>;
 
-    "subscribe(address,string,uint256,bytes)"(
-      _subscriber: string,
-      _tokenURI: string,
-      _value: BigNumberish,
-      _data: BytesLike,
+    "subscribe(address,uint256,address,string,uint256,bytes)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    subscribeForPeriods(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BigNumberish,
+      arg6: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BigNumberish,
+      arg6: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    subscribeWithPermit(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    subscribeWithProof(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    subscribeWithReferrer(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: string,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: string,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    subscribeWithVoucher(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      arg7: BytesLike,
+      arg8: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      arg7: BytesLike,
+      arg8: BytesLike[],
       overrides?: PayableOverrides
     ): Promise<BigNumber>;
 
@@ -2232,10 +6420,54 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    subscriptionCost(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionCost(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    subscriptionCostFor(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionCostFor(address,uint256,address,uint256)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    subscriptionExtension(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "subscriptionExtension()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     subscriptionPeriod(overrides?: CallOverrides): Promise<BigNumber>;
 
     "subscriptionPeriod()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+    subscriptionStatus(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionStatus(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     supportsInterface(
       interfaceId: BytesLike,
       overrides?: CallOverrides
@@ -2250,6 +6482,34 @@ export class GuildApp extends Contract {
 
     "symbol()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+    templateVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "templateVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tierMembers(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "tierMembers(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    tip(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "tip(address,uint256,string)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
     tokenAddress(overrides?: CallOverrides): Promise<BigNumber>;
 
     "tokenAddress()"(overrides?: CallOverrides): Promise<BigNumber>;
@@ -2277,19 +6537,27 @@ export class GuildApp extends Contract {
     ): Promise<BigNumber>;
 
     tokenURI(
-      tokenId: BigNumberish,
+      _tokenId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
     "tokenURI(uint256)"(
-      tokenId: BigNumberish,
+      _tokenId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    totalShares(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "totalShares()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
 
     "totalSupply()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+    totalTiers(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "totalTiers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     transferFrom(
       from: string,
       to: string,
@@ -2297,46 +6565,95 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    "transferFrom(address,address,uint256)"(
-      from: string,
-      to: string,
-      tokenId: BigNumberish,
+    "transferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    transferPolicy(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "transferPolicy()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    unfreezeSubscription(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "unfreezeSubscription(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    unsubscribe(arg0: BigNumberish, overrides?: Overrides): Promise<BigNumber>;
+
+    "unsubscribe(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    updateSubscriptionPrice(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "updateSubscriptionPrice(address,uint256)"(
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    updateTier(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "updateTier(uint256,string,uint256,uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    unsubscribe(
-      _tokenId: BigNumberish,
+    upgradeToVersion(
+      arg0: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    "unsubscribe(uint256)"(
-      _tokenId: BigNumberish,
+    "upgradeToVersion(uint256)"(
+      arg0: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    updateSubscriptionPrice(
-      _tokenAddress: string,
-      _newSubPrice: BigNumberish,
-      overrides?: Overrides
+    voucherRedemptions(
+      arg0: BytesLike,
+      overrides?: CallOverrides
     ): Promise<BigNumber>;
 
-    "updateSubscriptionPrice(address,uint256)"(
-      _tokenAddress: string,
-      _newSubPrice: BigNumberish,
-      overrides?: Overrides
+    "voucherRedemptions(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
     ): Promise<BigNumber>;
 
     withdraw(
-      _tokenAddress: string,
-      _amount: BigNumberish,
-      _beneficiary: string,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
     "withdraw(address,uint256,address)"(
-      _tokenAddress: string,
-      _amount: BigNumberish,
-      _beneficiary: string,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
       overrides?: Overrides
     ): Promise<BigNumber>;
   };
@@ -2350,6 +6667,76 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    METADATA_EDITOR_ROLE(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "METADATA_EDITOR_ROLE()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    PAUSER_ROLE(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "PAUSER_ROLE()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    PRICE_MANAGER_ROLE(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "PRICE_MANAGER_ROLE()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    RENEWAL_WINDOW(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "RENEWAL_WINDOW()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    TREASURER_ROLE(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "TREASURER_ROLE()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    acceptedTokens(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "acceptedTokens()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    addPaymentToken(
+      arg0: string,
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "addPaymentToken(address,uint256[])"(
+      arg0: string,
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    addTier(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "addTier(string,uint256,uint256,uint256)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    allowlistRoot(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "allowlistRoot()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     approve(
       to: string,
       tokenId: BigNumberish,
@@ -2362,12 +6749,34 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    approveSubscriptionTransfer(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "approveSubscriptionTransfer(uint256,address)"(
+      arg0: BigNumberish,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     approvedTokens(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     "approvedTokens()"(
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    approvedTransfers(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "approvedTransfers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     balanceOf(
       owner: string,
       overrides?: CallOverrides
@@ -2382,6 +6791,98 @@ export class GuildApp extends Contract {
 
     "baseURI()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
+    claim(
+      arg0: string,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "claim(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    claimClosingRefund(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "claimClosingRefund(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    claimable(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "claimable(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    closeGuild(overrides?: Overrides): Promise<PopulatedTransaction>;
+
+    "closeGuild()"(overrides?: Overrides): Promise<PopulatedTransaction>;
+
+    closedAt(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "closedAt()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    closingRefund(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "closingRefund(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    discountBps(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "discountBps()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    discountMinPeriods(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "discountMinPeriods()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    distribute(
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "distribute(address)"(
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    extension(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "extension()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    factory(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "factory()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    freezeSubscription(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "freezeSubscription(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     getApproved(
       tokenId: BigNumberish,
       overrides?: CallOverrides
@@ -2448,6 +6949,70 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    getSubscriptionTierFor(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getSubscriptionTierFor(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getTier(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getTier(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getTierPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getTierPrice(uint256,address)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    giftSubscription(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "giftSubscription(address,uint256,address,uint256,uint256,string)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    gracePeriod(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "gracePeriod()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    grandfatheredPricing(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "grandfatheredPricing()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     grantRole(
       role: BytesLike,
       account: string,
@@ -2495,8 +7060,12 @@ export class GuildApp extends Contract {
     initialize(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _guildTiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -2504,14 +7073,19 @@ export class GuildApp extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
-    "initialize(address,address,uint256,uint256,tuple,address)"(
+    "initialize(address,address,tuple[],tuple,address,uint8)"(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _guildTiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -2519,6 +7093,7 @@ export class GuildApp extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
@@ -2548,37 +7123,169 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
-    "isSubscriptionOwner(uint256,address)"(
+    "isSubscriptionOwner(uint256,address)"(
+      _tokenId: BigNumberish,
+      _holder: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    joinWaitlist(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "joinWaitlist(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    maxFreezeDuration(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "maxFreezeDuration()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    maxFreezes(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "maxFreezes()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    maxMembers(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "maxMembers()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    metadataCID(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "metadataCID()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    name(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "name()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    ownerOf(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "ownerOf(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    pauseGuild(
+      arg0: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "pauseGuild(bool)"(
+      arg0: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    payees(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "payees()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    processClosingRefunds(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "processClosingRefunds(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    referralBonusDuration(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "referralBonusDuration()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    referralRewardBps(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "referralRewardBps()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    referrerOf(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "referrerOf(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    refundPolicy(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "refundPolicy()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    refundWindow(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "refundWindow()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    refundableAmount(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "refundableAmount(uint256)"(
       _tokenId: BigNumberish,
-      _holder: string,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
-    metadataCID(overrides?: CallOverrides): Promise<PopulatedTransaction>;
-
-    "metadataCID()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
-
-    name(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    releaseSeat(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
 
-    "name()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    "releaseSeat(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
 
-    ownerOf(
-      tokenId: BigNumberish,
+    remainingSeats(
+      _tierId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
-    "ownerOf(uint256)"(
-      tokenId: BigNumberish,
+    "remainingSeats(uint256)"(
+      _tierId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
-    pauseGuild(
-      pause: boolean,
+    removePaymentToken(
+      arg0: string,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
-    "pauseGuild(bool)"(
-      pause: boolean,
+    "removePaymentToken(address)"(
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    renew(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "renew(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    renewBatch(
+      arg0: string[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "renewBatch(address[])"(
+      arg0: string[],
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
@@ -2606,6 +7313,32 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    safeSubscriptionHash(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "safeSubscriptionHash(address,tuple)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     "safeTransferFrom(address,address,uint256)"(
       from: string,
       to: string,
@@ -2621,6 +7354,18 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    setAllowlist(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setAllowlist(bytes32,string)"(
+      arg0: BytesLike,
+      arg1: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     setApprovalForAll(
       operator: string,
       approved: boolean,
@@ -2633,33 +7378,295 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    setFreezePolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setFreezePolicy(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setGracePeriod(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setGracePeriod(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setGrandfatheredPricing(
+      arg0: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setGrandfatheredPricing(bool)"(
+      arg0: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setMaxMembers(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setMaxMembers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     setMetadata(
-      _metadataCID: string,
+      arg0: string,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
     "setMetadata(string)"(
-      _metadataCID: string,
+      arg0: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setPayees(
+      arg0: string[],
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setPayees(address[],uint256[])"(
+      arg0: string[],
+      arg1: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setPeriodDiscount(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setPeriodDiscount(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setReferralPolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setReferralPolicy(uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setRefundPolicy(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setRefundPolicy(uint8,uint256)"(
+      arg0: BigNumberish,
+      arg1: BigNumberish,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    setTokenPrice(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setTokenPrice(uint256,address,uint256)"(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    shares(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "shares(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     subPrice(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     "subPrice()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     subscribe(
-      _subscriber: string,
-      _tokenURI: string,
-      _value: BigNumberish,
-      _data: BytesLike,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BytesLike,
       overrides?: PayableOverrides
     ): Promise<PopulatedTransaction>;
 
-    "subscribe(address,string,uint256,bytes)"(
-      _subscriber: string,
-      _tokenURI: string,
-      _value: BigNumberish,
-      _data: BytesLike,
+    "subscribe(address,uint256,address,string,uint256,bytes)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscribeForPeriods(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BigNumberish,
+      arg6: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: string,
+      arg4: BigNumberish,
+      arg5: BigNumberish,
+      arg6: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscribeWithPermit(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    subscribeWithProof(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscribeWithReferrer(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscribeWithVoucher(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      arg7: BytesLike,
+      arg8: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      arg5: BytesLike,
+      arg6: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      arg7: BytesLike,
+      arg8: BytesLike[],
       overrides?: PayableOverrides
     ): Promise<PopulatedTransaction>;
 
@@ -2673,6 +7680,44 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    subscriptionCost(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscriptionCost(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscriptionCostFor(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscriptionCostFor(address,uint256,address,uint256)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscriptionExtension(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscriptionExtension()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     subscriptionPeriod(
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
@@ -2681,6 +7726,16 @@ export class GuildApp extends Contract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    subscriptionStatus(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscriptionStatus(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     supportsInterface(
       interfaceId: BytesLike,
       overrides?: CallOverrides
@@ -2695,6 +7750,36 @@ export class GuildApp extends Contract {
 
     "symbol()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
+    templateVersion(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "templateVersion()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    tierMembers(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "tierMembers(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    tip(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "tip(address,uint256,string)"(
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
     tokenAddress(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     "tokenAddress()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
@@ -2722,19 +7807,27 @@ export class GuildApp extends Contract {
     ): Promise<PopulatedTransaction>;
 
     tokenURI(
-      tokenId: BigNumberish,
+      _tokenId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
     "tokenURI(uint256)"(
-      tokenId: BigNumberish,
+      _tokenId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    totalShares(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "totalShares()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     totalSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     "totalSupply()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
+    totalTiers(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "totalTiers()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     transferFrom(
       from: string,
       to: string,
@@ -2749,39 +7842,93 @@ export class GuildApp extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    transferPolicy(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "transferPolicy()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    unfreezeSubscription(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "unfreezeSubscription(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     unsubscribe(
-      _tokenId: BigNumberish,
+      arg0: BigNumberish,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
     "unsubscribe(uint256)"(
-      _tokenId: BigNumberish,
+      arg0: BigNumberish,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
     updateSubscriptionPrice(
-      _tokenAddress: string,
-      _newSubPrice: BigNumberish,
+      arg0: string,
+      arg1: BigNumberish,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
     "updateSubscriptionPrice(address,uint256)"(
-      _tokenAddress: string,
-      _newSubPrice: BigNumberish,
+      arg0: string,
+      arg1: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    updateTier(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "updateTier(uint256,string,uint256,uint256,uint256)"(
+      arg0: BigNumberish,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BigNumberish,
+      arg4: BigNumberish,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    upgradeToVersion(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "upgradeToVersion(uint256)"(
+      arg0: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    voucherRedemptions(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "voucherRedemptions(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     withdraw(
-      _tokenAddress: string,
-      _amount: BigNumberish,
-      _beneficiary: string,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
     "withdraw(address,uint256,address)"(
-      _tokenAddress: string,
-      _amount: BigNumberish,
-      _beneficiary: string,
+      arg0: string,
+      arg1: BigNumberish,
+      arg2: string,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
   };
@@ -0,0 +1,2977 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  Overrides,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface GuildAppBaseInterface extends ethers.utils.Interface {
+  functions: {
+    "DEFAULT_ADMIN_ROLE()": FunctionFragment;
+    "METADATA_EDITOR_ROLE()": FunctionFragment;
+    "PAUSER_ROLE()": FunctionFragment;
+    "PRICE_MANAGER_ROLE()": FunctionFragment;
+    "RENEWAL_WINDOW()": FunctionFragment;
+    "TREASURER_ROLE()": FunctionFragment;
+    "allowlistRoot()": FunctionFragment;
+    "approve(address,uint256)": FunctionFragment;
+    "approvedTransfers(uint256)": FunctionFragment;
+    "balanceOf(address)": FunctionFragment;
+    "baseURI()": FunctionFragment;
+    "claimable(address,address)": FunctionFragment;
+    "closedAt()": FunctionFragment;
+    "factory()": FunctionFragment;
+    "getApproved(uint256)": FunctionFragment;
+    "getRoleAdmin(bytes32)": FunctionFragment;
+    "getRoleMember(bytes32,uint256)": FunctionFragment;
+    "getRoleMemberCount(bytes32)": FunctionFragment;
+    "gracePeriod()": FunctionFragment;
+    "grandfatheredPricing()": FunctionFragment;
+    "grantRole(bytes32,address)": FunctionFragment;
+    "hasRole(bytes32,address)": FunctionFragment;
+    "isActive()": FunctionFragment;
+    "isApprovedForAll(address,address)": FunctionFragment;
+    "maxFreezeDuration()": FunctionFragment;
+    "maxFreezes()": FunctionFragment;
+    "maxMembers()": FunctionFragment;
+    "metadataCID()": FunctionFragment;
+    "name()": FunctionFragment;
+    "ownerOf(uint256)": FunctionFragment;
+    "referralBonusDuration()": FunctionFragment;
+    "referralRewardBps()": FunctionFragment;
+    "referrerOf(address)": FunctionFragment;
+    "refundPolicy()": FunctionFragment;
+    "refundWindow()": FunctionFragment;
+    "renounceRole(bytes32,address)": FunctionFragment;
+    "revokeRole(bytes32,address)": FunctionFragment;
+    "safeTransferFrom(address,address,uint256)": FunctionFragment;
+    "setApprovalForAll(address,bool)": FunctionFragment;
+    "shares(address)": FunctionFragment;
+    "subscriptionByOwner(address)": FunctionFragment;
+    "supportsInterface(bytes4)": FunctionFragment;
+    "symbol()": FunctionFragment;
+    "tokenAddress()": FunctionFragment;
+    "tokenByIndex(uint256)": FunctionFragment;
+    "tokenOfOwnerByIndex(address,uint256)": FunctionFragment;
+    "tokenURI(uint256)": FunctionFragment;
+    "totalShares()": FunctionFragment;
+    "totalSupply()": FunctionFragment;
+    "transferFrom(address,address,uint256)": FunctionFragment;
+    "transferPolicy()": FunctionFragment;
+    "voucherRedemptions(bytes32)": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "METADATA_EDITOR_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PAUSER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "PRICE_MANAGER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "RENEWAL_WINDOW",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "TREASURER_ROLE",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "allowlistRoot",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approve",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "approvedTransfers",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "balanceOf", values: [string]): string;
+  encodeFunctionData(functionFragment: "baseURI", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "claimable",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(functionFragment: "closedAt", values?: undefined): string;
+  encodeFunctionData(functionFragment: "factory", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getApproved",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleAdmin",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMember",
+    values: [BytesLike, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getRoleMemberCount",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "gracePeriod",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grandfatheredPricing",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "grantRole",
+    values: [BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "hasRole",
+    values: [BytesLike, string]
+  ): string;
+  encodeFunctionData(functionFragment: "isActive", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "isApprovedForAll",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxFreezeDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxFreezes",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "maxMembers",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "metadataCID",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "name", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "ownerOf",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referralBonusDuration",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "referralRewardBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "referrerOf", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "refundPolicy",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundWindow",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renounceRole",
+    values: [BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "revokeRole",
+    values: [BytesLike, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeTransferFrom",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setApprovalForAll",
+    values: [string, boolean]
+  ): string;
+  encodeFunctionData(functionFragment: "shares", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionByOwner",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "supportsInterface",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(functionFragment: "symbol", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "tokenAddress",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenByIndex",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenOfOwnerByIndex",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tokenURI",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalShares",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalSupply",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferFrom",
+    values: [string, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "transferPolicy",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "voucherRedemptions",
+    values: [BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "DEFAULT_ADMIN_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "METADATA_EDITOR_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PAUSER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "PRICE_MANAGER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "RENEWAL_WINDOW",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "TREASURER_ROLE",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "allowlistRoot",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "approvedTransfers",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "baseURI", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "claimable", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "closedAt", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "factory", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getApproved",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleAdmin",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMember",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getRoleMemberCount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "gracePeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "grandfatheredPricing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "grantRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "hasRole", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "isActive", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isApprovedForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "maxFreezeDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "maxFreezes", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "maxMembers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "metadataCID",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "name", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "referralBonusDuration",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "referralRewardBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "referrerOf", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "refundPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundWindow",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "renounceRole",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "revokeRole", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "safeTransferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setApprovalForAll",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "shares", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionByOwner",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "symbol", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenByIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "tokenOfOwnerByIndex",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "totalShares",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "totalSupply",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "voucherRedemptions",
+    data: BytesLike
+  ): Result;
+
+  events: {
+    "AllowlistUpdated(bytes32,string)": EventFragment;
+    "Approval(address,address,uint256)": EventFragment;
+    "ApprovalForAll(address,address,bool)": EventFragment;
+    "Claimed(address,address,uint256)": EventFragment;
+    "ClosingRefundsProcessed(uint256,uint256)": EventFragment;
+    "Distributed(address,uint256)": EventFragment;
+    "FreezePolicyUpdated(uint256,uint256)": EventFragment;
+    "GracePeriodUpdated(uint256)": EventFragment;
+    "GrandfatheredPricingUpdated(bool)": EventFragment;
+    "GuildClosed(uint256)": EventFragment;
+    "InitializedGuild(address,address,uint256,uint256,tuple)": EventFragment;
+    "MaxMembersUpdated(uint256)": EventFragment;
+    "NewSubscription(address,uint256,uint256,address,uint256,uint256,uint256,bytes)": EventFragment;
+    "PausedGuild(bool)": EventFragment;
+    "PayeesUpdated(address[],uint256[])": EventFragment;
+    "PaymentTokenAdded(address)": EventFragment;
+    "PaymentTokenRemoved(address)": EventFragment;
+    "PeriodDiscountUpdated(uint256,uint256)": EventFragment;
+    "PriceLocked(uint256,address,uint256)": EventFragment;
+    "ReferralCredited(address,uint256,address,address,uint256,uint256,uint256)": EventFragment;
+    "ReferralPolicyUpdated(uint256,uint256)": EventFragment;
+    "RefundPolicyUpdated(uint8,uint256)": EventFragment;
+    "Refunded(uint256,address,address,uint256)": EventFragment;
+    "RenewSubscription(address,uint256,uint256,address,uint256,uint256,uint256,bytes)": EventFragment;
+    "RenewalFailed(address,bytes)": EventFragment;
+    "RoleAdminChanged(bytes32,bytes32,bytes32)": EventFragment;
+    "RoleGranted(bytes32,address,address)": EventFragment;
+    "RoleRevoked(bytes32,address,address)": EventFragment;
+    "SeatReleased(uint256,uint256)": EventFragment;
+    "SubscriptionFrozen(uint256,uint256,uint256)": EventFragment;
+    "SubscriptionGifted(address,address,uint256,uint256,string)": EventFragment;
+    "SubscriptionPriceChanged(address,uint256)": EventFragment;
+    "SubscriptionTransferApproved(uint256,address)": EventFragment;
+    "SubscriptionUnfrozen(uint256,uint256)": EventFragment;
+    "TierUpdated(uint256,string,uint256,uint256,uint256)": EventFragment;
+    "Tipped(address,address,uint256,uint256,string)": EventFragment;
+    "TokenPriceUpdated(uint256,address,uint256)": EventFragment;
+    "Transfer(address,address,uint256)": EventFragment;
+    "TransferPolicyUpdated(uint8)": EventFragment;
+    "Unsubscribed(uint256)": EventFragment;
+    "UpdatedMetadata(string)": EventFragment;
+    "Upgraded(uint256,address)": EventFragment;
+    "VoucherRedeemed(bytes32,address,uint256)": EventFragment;
+    "WaitlistJoined(address,uint256)": EventFragment;
+    "Withdraw(address,address,uint256)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "AllowlistUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Approval"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ApprovalForAll"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Claimed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ClosingRefundsProcessed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Distributed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "FreezePolicyUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "GracePeriodUpdated"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic: "GrandfatheredPricingUpdated"
+  ): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "GuildClosed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "InitializedGuild"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "MaxMembersUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "NewSubscription"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PausedGuild"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PayeesUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PaymentTokenAdded"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PaymentTokenRemoved"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PeriodDiscountUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PriceLocked"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ReferralCredited"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ReferralPolicyUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RefundPolicyUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Refunded"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RenewSubscription"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RenewalFailed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RoleAdminChanged"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RoleGranted"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "RoleRevoked"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SeatReleased"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SubscriptionFrozen"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SubscriptionGifted"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SubscriptionPriceChanged"): EventFragment;
+  getEvent(
+    nameOrSignatureOrTopic: "SubscriptionTransferApproved"
+  ): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "SubscriptionUnfrozen"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TierUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Tipped"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TokenPriceUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Transfer"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TransferPolicyUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Unsubscribed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "UpdatedMetadata"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Upgraded"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "VoucherRedeemed"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "WaitlistJoined"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Withdraw"): EventFragment;
+}
+
+export class GuildAppBase extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: GuildAppBaseInterface;
+
+  functions: {
+    DEFAULT_ADMIN_ROLE(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "DEFAULT_ADMIN_ROLE()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    METADATA_EDITOR_ROLE(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "METADATA_EDITOR_ROLE()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    PAUSER_ROLE(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "PAUSER_ROLE()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    PRICE_MANAGER_ROLE(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "PRICE_MANAGER_ROLE()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    RENEWAL_WINDOW(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "RENEWAL_WINDOW()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    TREASURER_ROLE(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "TREASURER_ROLE()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    allowlistRoot(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "allowlistRoot()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    approve(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "approve(address,uint256)"(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    approvedTransfers(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "approvedTransfers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    balanceOf(
+      owner: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "balanceOf(address)"(
+      owner: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    baseURI(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "baseURI()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    claimable(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "claimable(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    closedAt(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "closedAt()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    factory(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "factory()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    getApproved(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "getApproved(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    getRoleAdmin(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "getRoleAdmin(bytes32)"(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    getRoleMember(
+      role: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "getRoleMember(bytes32,uint256)"(
+      role: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    getRoleMemberCount(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getRoleMemberCount(bytes32)"(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    gracePeriod(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "gracePeriod()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    grandfatheredPricing(overrides?: CallOverrides): Promise<{
+      0: boolean;
+    }>;
+
+    "grandfatheredPricing()"(overrides?: CallOverrides): Promise<{
+      0: boolean;
+    }>;
+
+    grantRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "grantRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    hasRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "hasRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isActive(overrides?: CallOverrides): Promise<{
+      0: boolean;
+    }>;
+
+    "isActive()"(overrides?: CallOverrides): Promise<{
+      0: boolean;
+    }>;
+
+    isApprovedForAll(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isApprovedForAll(address,address)"(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    maxFreezeDuration(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "maxFreezeDuration()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    maxFreezes(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "maxFreezes()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    maxMembers(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "maxMembers()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    metadataCID(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "metadataCID()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    name(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "name()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    ownerOf(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "ownerOf(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    referralBonusDuration(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "referralBonusDuration()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    referralRewardBps(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "referralRewardBps()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    referrerOf(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "referrerOf(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    refundPolicy(overrides?: CallOverrides): Promise<{
+      0: number;
+    }>;
+
+    "refundPolicy()"(overrides?: CallOverrides): Promise<{
+      0: number;
+    }>;
+
+    refundWindow(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "refundWindow()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    renounceRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "renounceRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    revokeRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "revokeRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "safeTransferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "safeTransferFrom(address,address,uint256,bytes)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      _data: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setApprovalForAll(
+      operator: string,
+      approved: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setApprovalForAll(address,bool)"(
+      operator: string,
+      approved: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    shares(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "shares(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    subscriptionByOwner(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      tokenId: BigNumber;
+      expirationTimestamp: BigNumber;
+      tierId: BigNumber;
+      paymentToken: string;
+      paidValue: BigNumber;
+      paidFrom: BigNumber;
+      lockedPrice: BigNumber;
+      frozenAt: BigNumber;
+      freezes: BigNumber;
+      seatReleased: boolean;
+      bonusTime: BigNumber;
+      resumeAt: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+      2: BigNumber;
+      3: string;
+      4: BigNumber;
+      5: BigNumber;
+      6: BigNumber;
+      7: BigNumber;
+      8: BigNumber;
+      9: boolean;
+      10: BigNumber;
+      11: BigNumber;
+    }>;
+
+    "subscriptionByOwner(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      tokenId: BigNumber;
+      expirationTimestamp: BigNumber;
+      tierId: BigNumber;
+      paymentToken: string;
+      paidValue: BigNumber;
+      paidFrom: BigNumber;
+      lockedPrice: BigNumber;
+      frozenAt: BigNumber;
+      freezes: BigNumber;
+      seatReleased: boolean;
+      bonusTime: BigNumber;
+      resumeAt: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+      2: BigNumber;
+      3: string;
+      4: BigNumber;
+      5: BigNumber;
+      6: BigNumber;
+      7: BigNumber;
+      8: BigNumber;
+      9: boolean;
+      10: BigNumber;
+      11: BigNumber;
+    }>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    symbol(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "symbol()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    tokenAddress(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "tokenAddress()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    tokenByIndex(
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "tokenByIndex(uint256)"(
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    tokenOfOwnerByIndex(
+      owner: string,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "tokenOfOwnerByIndex(address,uint256)"(
+      owner: string,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    tokenURI(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "tokenURI(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    totalShares(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "totalShares()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    totalSupply(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "totalSupply()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    transferFrom(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "transferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    transferPolicy(overrides?: CallOverrides): Promise<{
+      0: number;
+    }>;
+
+    "transferPolicy()"(overrides?: CallOverrides): Promise<{
+      0: number;
+    }>;
+
+    voucherRedemptions(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "voucherRedemptions(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+  };
+
+  DEFAULT_ADMIN_ROLE(overrides?: CallOverrides): Promise<string>;
+
+  "DEFAULT_ADMIN_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+  METADATA_EDITOR_ROLE(overrides?: CallOverrides): Promise<string>;
+
+  "METADATA_EDITOR_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+  PAUSER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+  "PAUSER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+  PRICE_MANAGER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+  "PRICE_MANAGER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+  RENEWAL_WINDOW(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "RENEWAL_WINDOW()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  TREASURER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+  "TREASURER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+  allowlistRoot(overrides?: CallOverrides): Promise<string>;
+
+  "allowlistRoot()"(overrides?: CallOverrides): Promise<string>;
+
+  approve(
+    to: string,
+    tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "approve(address,uint256)"(
+    to: string,
+    tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  approvedTransfers(
+    arg0: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "approvedTransfers(uint256)"(
+    arg0: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+  "balanceOf(address)"(
+    owner: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  baseURI(overrides?: CallOverrides): Promise<string>;
+
+  "baseURI()"(overrides?: CallOverrides): Promise<string>;
+
+  claimable(
+    arg0: string,
+    arg1: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "claimable(address,address)"(
+    arg0: string,
+    arg1: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  closedAt(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "closedAt()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  factory(overrides?: CallOverrides): Promise<string>;
+
+  "factory()"(overrides?: CallOverrides): Promise<string>;
+
+  getApproved(
+    tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "getApproved(uint256)"(
+    tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  getRoleAdmin(role: BytesLike, overrides?: CallOverrides): Promise<string>;
+
+  "getRoleAdmin(bytes32)"(
+    role: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  getRoleMember(
+    role: BytesLike,
+    index: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "getRoleMember(bytes32,uint256)"(
+    role: BytesLike,
+    index: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  getRoleMemberCount(
+    role: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "getRoleMemberCount(bytes32)"(
+    role: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  gracePeriod(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "gracePeriod()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  grandfatheredPricing(overrides?: CallOverrides): Promise<boolean>;
+
+  "grandfatheredPricing()"(overrides?: CallOverrides): Promise<boolean>;
+
+  grantRole(
+    role: BytesLike,
+    account: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "grantRole(bytes32,address)"(
+    role: BytesLike,
+    account: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  hasRole(
+    role: BytesLike,
+    account: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "hasRole(bytes32,address)"(
+    role: BytesLike,
+    account: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isActive(overrides?: CallOverrides): Promise<boolean>;
+
+  "isActive()"(overrides?: CallOverrides): Promise<boolean>;
+
+  isApprovedForAll(
+    owner: string,
+    operator: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isApprovedForAll(address,address)"(
+    owner: string,
+    operator: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  maxFreezeDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "maxFreezeDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  maxFreezes(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "maxFreezes()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  maxMembers(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "maxMembers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  metadataCID(overrides?: CallOverrides): Promise<string>;
+
+  "metadataCID()"(overrides?: CallOverrides): Promise<string>;
+
+  name(overrides?: CallOverrides): Promise<string>;
+
+  "name()"(overrides?: CallOverrides): Promise<string>;
+
+  ownerOf(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+
+  "ownerOf(uint256)"(
+    tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  referralBonusDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "referralBonusDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  referralRewardBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "referralRewardBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  referrerOf(arg0: string, overrides?: CallOverrides): Promise<string>;
+
+  "referrerOf(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  refundPolicy(overrides?: CallOverrides): Promise<number>;
+
+  "refundPolicy()"(overrides?: CallOverrides): Promise<number>;
+
+  refundWindow(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "refundWindow()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  renounceRole(
+    role: BytesLike,
+    account: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "renounceRole(bytes32,address)"(
+    role: BytesLike,
+    account: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  revokeRole(
+    role: BytesLike,
+    account: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "revokeRole(bytes32,address)"(
+    role: BytesLike,
+    account: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "safeTransferFrom(address,address,uint256)"(
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "safeTransferFrom(address,address,uint256,bytes)"(
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    _data: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setApprovalForAll(
+    operator: string,
+    approved: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setApprovalForAll(address,bool)"(
+    operator: string,
+    approved: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  shares(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+  "shares(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  subscriptionByOwner(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<{
+    tokenId: BigNumber;
+    expirationTimestamp: BigNumber;
+    tierId: BigNumber;
+    paymentToken: string;
+    paidValue: BigNumber;
+    paidFrom: BigNumber;
+    lockedPrice: BigNumber;
+    frozenAt: BigNumber;
+    freezes: BigNumber;
+    seatReleased: boolean;
+    bonusTime: BigNumber;
+    resumeAt: BigNumber;
+    0: BigNumber;
+    1: BigNumber;
+    2: BigNumber;
+    3: string;
+    4: BigNumber;
+    5: BigNumber;
+    6: BigNumber;
+    7: BigNumber;
+    8: BigNumber;
+    9: boolean;
+    10: BigNumber;
+    11: BigNumber;
+  }>;
+
+  "subscriptionByOwner(address)"(
+    arg0: string,
+    overrides?: CallOverrides
+  ): Promise<{
+    tokenId: BigNumber;
+    expirationTimestamp: BigNumber;
+    tierId: BigNumber;
+    paymentToken: string;
+    paidValue: BigNumber;
+    paidFrom: BigNumber;
+    lockedPrice: BigNumber;
+    frozenAt: BigNumber;
+    freezes: BigNumber;
+    seatReleased: boolean;
+    bonusTime: BigNumber;
+    resumeAt: BigNumber;
+    0: BigNumber;
+    1: BigNumber;
+    2: BigNumber;
+    3: string;
+    4: BigNumber;
+    5: BigNumber;
+    6: BigNumber;
+    7: BigNumber;
+    8: BigNumber;
+    9: boolean;
+    10: BigNumber;
+    11: BigNumber;
+  }>;
+
+  supportsInterface(
+    interfaceId: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "supportsInterface(bytes4)"(
+    interfaceId: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  symbol(overrides?: CallOverrides): Promise<string>;
+
+  "symbol()"(overrides?: CallOverrides): Promise<string>;
+
+  tokenAddress(overrides?: CallOverrides): Promise<string>;
+
+  "tokenAddress()"(overrides?: CallOverrides): Promise<string>;
+
+  tokenByIndex(
+    index: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "tokenByIndex(uint256)"(
+    index: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  tokenOfOwnerByIndex(
+    owner: string,
+    index: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "tokenOfOwnerByIndex(address,uint256)"(
+    owner: string,
+    index: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  tokenURI(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+
+  "tokenURI(uint256)"(
+    tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  totalShares(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "totalShares()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "totalSupply()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  transferFrom(
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "transferFrom(address,address,uint256)"(
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  transferPolicy(overrides?: CallOverrides): Promise<number>;
+
+  "transferPolicy()"(overrides?: CallOverrides): Promise<number>;
+
+  voucherRedemptions(
+    arg0: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "voucherRedemptions(bytes32)"(
+    arg0: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  callStatic: {
+    DEFAULT_ADMIN_ROLE(overrides?: CallOverrides): Promise<string>;
+
+    "DEFAULT_ADMIN_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+    METADATA_EDITOR_ROLE(overrides?: CallOverrides): Promise<string>;
+
+    "METADATA_EDITOR_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+    PAUSER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+    "PAUSER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+    PRICE_MANAGER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+    "PRICE_MANAGER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+    RENEWAL_WINDOW(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "RENEWAL_WINDOW()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    TREASURER_ROLE(overrides?: CallOverrides): Promise<string>;
+
+    "TREASURER_ROLE()"(overrides?: CallOverrides): Promise<string>;
+
+    allowlistRoot(overrides?: CallOverrides): Promise<string>;
+
+    "allowlistRoot()"(overrides?: CallOverrides): Promise<string>;
+
+    approve(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "approve(address,uint256)"(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    approvedTransfers(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "approvedTransfers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "balanceOf(address)"(
+      owner: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    baseURI(overrides?: CallOverrides): Promise<string>;
+
+    "baseURI()"(overrides?: CallOverrides): Promise<string>;
+
+    claimable(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "claimable(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    closedAt(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "closedAt()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    factory(overrides?: CallOverrides): Promise<string>;
+
+    "factory()"(overrides?: CallOverrides): Promise<string>;
+
+    getApproved(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "getApproved(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    getRoleAdmin(role: BytesLike, overrides?: CallOverrides): Promise<string>;
+
+    "getRoleAdmin(bytes32)"(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    getRoleMember(
+      role: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "getRoleMember(bytes32,uint256)"(
+      role: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    getRoleMemberCount(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getRoleMemberCount(bytes32)"(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    gracePeriod(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "gracePeriod()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    grandfatheredPricing(overrides?: CallOverrides): Promise<boolean>;
+
+    "grandfatheredPricing()"(overrides?: CallOverrides): Promise<boolean>;
+
+    grantRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "grantRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    hasRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "hasRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isActive(overrides?: CallOverrides): Promise<boolean>;
+
+    "isActive()"(overrides?: CallOverrides): Promise<boolean>;
+
+    isApprovedForAll(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isApprovedForAll(address,address)"(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    maxFreezeDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxFreezeDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    maxFreezes(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxFreezes()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    maxMembers(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxMembers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    metadataCID(overrides?: CallOverrides): Promise<string>;
+
+    "metadataCID()"(overrides?: CallOverrides): Promise<string>;
+
+    name(overrides?: CallOverrides): Promise<string>;
+
+    "name()"(overrides?: CallOverrides): Promise<string>;
+
+    ownerOf(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+
+    "ownerOf(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    referralBonusDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "referralBonusDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    referralRewardBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "referralRewardBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    referrerOf(arg0: string, overrides?: CallOverrides): Promise<string>;
+
+    "referrerOf(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    refundPolicy(overrides?: CallOverrides): Promise<number>;
+
+    "refundPolicy()"(overrides?: CallOverrides): Promise<number>;
+
+    refundWindow(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "refundWindow()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    renounceRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "renounceRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    revokeRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "revokeRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "safeTransferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "safeTransferFrom(address,address,uint256,bytes)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      _data: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setApprovalForAll(
+      operator: string,
+      approved: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setApprovalForAll(address,bool)"(
+      operator: string,
+      approved: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    shares(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "shares(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    subscriptionByOwner(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      tokenId: BigNumber;
+      expirationTimestamp: BigNumber;
+      tierId: BigNumber;
+      paymentToken: string;
+      paidValue: BigNumber;
+      paidFrom: BigNumber;
+      lockedPrice: BigNumber;
+      frozenAt: BigNumber;
+      freezes: BigNumber;
+      seatReleased: boolean;
+      bonusTime: BigNumber;
+      resumeAt: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+      2: BigNumber;
+      3: string;
+      4: BigNumber;
+      5: BigNumber;
+      6: BigNumber;
+      7: BigNumber;
+      8: BigNumber;
+      9: boolean;
+      10: BigNumber;
+      11: BigNumber;
+    }>;
+
+    "subscriptionByOwner(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      tokenId: BigNumber;
+      expirationTimestamp: BigNumber;
+      tierId: BigNumber;
+      paymentToken: string;
+      paidValue: BigNumber;
+      paidFrom: BigNumber;
+      lockedPrice: BigNumber;
+      frozenAt: BigNumber;
+      freezes: BigNumber;
+      seatReleased: boolean;
+      bonusTime: BigNumber;
+      resumeAt: BigNumber;
+      0: BigNumber;
+      1: BigNumber;
+      2: BigNumber;
+      3: string;
+      4: BigNumber;
+      5: BigNumber;
+      6: BigNumber;
+      7: BigNumber;
+      8: BigNumber;
+      9: boolean;
+      10: BigNumber;
+      11: BigNumber;
+    }>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    symbol(overrides?: CallOverrides): Promise<string>;
+
+    "symbol()"(overrides?: CallOverrides): Promise<string>;
+
+    tokenAddress(overrides?: CallOverrides): Promise<string>;
+
+    "tokenAddress()"(overrides?: CallOverrides): Promise<string>;
+
+    tokenByIndex(
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "tokenByIndex(uint256)"(
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    tokenOfOwnerByIndex(
+      owner: string,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "tokenOfOwnerByIndex(address,uint256)"(
+      owner: string,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    tokenURI(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+
+    "tokenURI(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    totalShares(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "totalShares()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "totalSupply()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    transferFrom(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "transferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    transferPolicy(overrides?: CallOverrides): Promise<number>;
+
+    "transferPolicy()"(overrides?: CallOverrides): Promise<number>;
+
+    voucherRedemptions(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "voucherRedemptions(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  filters: {
+    AllowlistUpdated(_root: null, _listCID: null): EventFilter;
+
+    Approval(
+      owner: string | null,
+      approved: string | null,
+      tokenId: BigNumberish | null
+    ): EventFilter;
+
+    ApprovalForAll(
+      owner: string | null,
+      operator: string | null,
+      approved: null
+    ): EventFilter;
+
+    Claimed(_tokenAddress: null, _payee: null, _amount: null): EventFilter;
+
+    ClosingRefundsProcessed(
+      _lastTokenId: null,
+      _totalTokens: null
+    ): EventFilter;
+
+    Distributed(_tokenAddress: null, _amount: null): EventFilter;
+
+    FreezePolicyUpdated(
+      _maxFreezeDuration: null,
+      _maxFreezes: null
+    ): EventFilter;
+
+    GracePeriodUpdated(_gracePeriod: null): EventFilter;
+
+    GrandfatheredPricingUpdated(_enabled: null): EventFilter;
+
+    GuildClosed(_closedAt: null): EventFilter;
+
+    InitializedGuild(
+      _creator: null,
+      _tokenAddress: null,
+      _subPrice: null,
+      _subscriptionPeriod: null,
+      _metadata: null
+    ): EventFilter;
+
+    MaxMembersUpdated(_maxMembers: null): EventFilter;
+
+    NewSubscription(
+      _subscriber: null,
+      _tokenId: null,
+      _tierId: null,
+      _tokenAddress: null,
+      _value: null,
+      _fee: null,
+      expiry: null,
+      _data: null
+    ): EventFilter;
+
+    PausedGuild(_isPaused: null): EventFilter;
+
+    PayeesUpdated(_payees: null, _shares: null): EventFilter;
+
+    PaymentTokenAdded(_tokenAddress: null): EventFilter;
+
+    PaymentTokenRemoved(_tokenAddress: null): EventFilter;
+
+    PeriodDiscountUpdated(_minPeriods: null, _discountBps: null): EventFilter;
+
+    PriceLocked(_tokenId: null, _tokenAddress: null, _price: null): EventFilter;
+
+    ReferralCredited(
+      _referrer: null,
+      _referrerTokenId: null,
+      _subscriber: null,
+      _tokenAddress: null,
+      _reward: null,
+      _bonusDuration: null,
+      _referrerExpiry: null
+    ): EventFilter;
+
+    ReferralPolicyUpdated(_rewardBps: null, _bonusDuration: null): EventFilter;
+
+    RefundPolicyUpdated(_policy: null, _refundWindow: null): EventFilter;
+
+    Refunded(
+      _tokenId: null,
+      _subscriber: null,
+      _tokenAddress: null,
+      _value: null
+    ): EventFilter;
+
+    RenewSubscription(
+      _subscriber: null,
+      _tokenId: null,
+      _tierId: null,
+      _tokenAddress: null,
+      _value: null,
+      _fee: null,
+      expiry: null,
+      _data: null
+    ): EventFilter;
+
+    RenewalFailed(_subscriber: null, _reason: null): EventFilter;
+
+    RoleAdminChanged(
+      role: BytesLike | null,
+      previousAdminRole: BytesLike | null,
+      newAdminRole: BytesLike | null
+    ): EventFilter;
+
+    RoleGranted(
+      role: BytesLike | null,
+      account: string | null,
+      sender: string | null
+    ): EventFilter;
+
+    RoleRevoked(
+      role: BytesLike | null,
+      account: string | null,
+      sender: string | null
+    ): EventFilter;
+
+    SeatReleased(_tokenId: null, _tierId: null): EventFilter;
+
+    SubscriptionFrozen(
+      _tokenId: null,
+      _remaining: null,
+      _resumeAt: null
+    ): EventFilter;
+
+    SubscriptionGifted(
+      _payer: null,
+      _recipient: null,
+      _tokenId: null,
+      expiry: null,
+      _messageCID: null
+    ): EventFilter;
+
+    SubscriptionPriceChanged(_tokenAddress: null, _subPrice: null): EventFilter;
+
+    SubscriptionTransferApproved(_tokenId: null, _to: null): EventFilter;
+
+    SubscriptionUnfrozen(
+      _tokenId: null,
+      _expirationTimestamp: null
+    ): EventFilter;
+
+    TierUpdated(
+      _tierId: null,
+      _name: null,
+      _price: null,
+      _period: null,
+      _cap: null
+    ): EventFilter;
+
+    Tipped(
+      _tipper: null,
+      _tokenAddress: null,
+      _value: null,
+      _fee: null,
+      _messageCID: null
+    ): EventFilter;
+
+    TokenPriceUpdated(
+      _tierId: null,
+      _tokenAddress: null,
+      _price: null
+    ): EventFilter;
+
+    Transfer(
+      from: string | null,
+      to: string | null,
+      tokenId: BigNumberish | null
+    ): EventFilter;
+
+    TransferPolicyUpdated(_policy: null): EventFilter;
+
+    Unsubscribed(_tokenId: null): EventFilter;
+
+    UpdatedMetadata(_metadataURI: null): EventFilter;
+
+    Upgraded(_version: null, _template: null): EventFilter;
+
+    VoucherRedeemed(
+      _voucher: null,
+      _subscriber: null,
+      _cost: null
+    ): EventFilter;
+
+    WaitlistJoined(_account: null, _tierId: null): EventFilter;
+
+    Withdraw(
+      _tokenAddress: null,
+      beneficiary: null,
+      _amount: null
+    ): EventFilter;
+  };
+
+  estimateGas: {
+    DEFAULT_ADMIN_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "DEFAULT_ADMIN_ROLE()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    METADATA_EDITOR_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "METADATA_EDITOR_ROLE()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    PAUSER_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "PAUSER_ROLE()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    PRICE_MANAGER_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "PRICE_MANAGER_ROLE()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    RENEWAL_WINDOW(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "RENEWAL_WINDOW()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    TREASURER_ROLE(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "TREASURER_ROLE()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    allowlistRoot(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "allowlistRoot()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    approve(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "approve(address,uint256)"(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    approvedTransfers(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "approvedTransfers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "balanceOf(address)"(
+      owner: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    baseURI(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "baseURI()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    claimable(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "claimable(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    closedAt(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "closedAt()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    factory(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "factory()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    getApproved(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getApproved(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getRoleAdmin(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getRoleAdmin(bytes32)"(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getRoleMember(
+      role: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getRoleMember(bytes32,uint256)"(
+      role: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getRoleMemberCount(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getRoleMemberCount(bytes32)"(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    gracePeriod(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "gracePeriod()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    grandfatheredPricing(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "grandfatheredPricing()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    grantRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "grantRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    hasRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "hasRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isActive(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "isActive()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    isApprovedForAll(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isApprovedForAll(address,address)"(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    maxFreezeDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxFreezeDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    maxFreezes(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxFreezes()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    maxMembers(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "maxMembers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    metadataCID(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "metadataCID()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    name(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "name()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    ownerOf(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "ownerOf(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    referralBonusDuration(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "referralBonusDuration()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    referralRewardBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "referralRewardBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    referrerOf(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "referrerOf(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    refundPolicy(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "refundPolicy()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    refundWindow(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "refundWindow()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    renounceRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "renounceRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    revokeRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "revokeRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "safeTransferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "safeTransferFrom(address,address,uint256,bytes)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      _data: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setApprovalForAll(
+      operator: string,
+      approved: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setApprovalForAll(address,bool)"(
+      operator: string,
+      approved: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    shares(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "shares(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    subscriptionByOwner(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionByOwner(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    symbol(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "symbol()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tokenAddress(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "tokenAddress()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tokenByIndex(
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "tokenByIndex(uint256)"(
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    tokenOfOwnerByIndex(
+      owner: string,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "tokenOfOwnerByIndex(address,uint256)"(
+      owner: string,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    tokenURI(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "tokenURI(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    totalShares(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "totalShares()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    totalSupply(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "totalSupply()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    transferFrom(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "transferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    transferPolicy(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "transferPolicy()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    voucherRedemptions(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "voucherRedemptions(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    DEFAULT_ADMIN_ROLE(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "DEFAULT_ADMIN_ROLE()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    METADATA_EDITOR_ROLE(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "METADATA_EDITOR_ROLE()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    PAUSER_ROLE(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "PAUSER_ROLE()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    PRICE_MANAGER_ROLE(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "PRICE_MANAGER_ROLE()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    RENEWAL_WINDOW(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "RENEWAL_WINDOW()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    TREASURER_ROLE(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "TREASURER_ROLE()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    allowlistRoot(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "allowlistRoot()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    approve(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "approve(address,uint256)"(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    approvedTransfers(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "approvedTransfers(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    balanceOf(
+      owner: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "balanceOf(address)"(
+      owner: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    baseURI(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "baseURI()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    claimable(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "claimable(address,address)"(
+      arg0: string,
+      arg1: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    closedAt(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "closedAt()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    factory(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "factory()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    getApproved(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getApproved(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getRoleAdmin(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getRoleAdmin(bytes32)"(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getRoleMember(
+      role: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getRoleMember(bytes32,uint256)"(
+      role: BytesLike,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getRoleMemberCount(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getRoleMemberCount(bytes32)"(
+      role: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    gracePeriod(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "gracePeriod()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    grandfatheredPricing(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "grandfatheredPricing()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    grantRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "grantRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    hasRole(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "hasRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isActive(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "isActive()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    isApprovedForAll(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isApprovedForAll(address,address)"(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    maxFreezeDuration(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "maxFreezeDuration()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    maxFreezes(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "maxFreezes()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    maxMembers(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "maxMembers()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    metadataCID(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "metadataCID()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    name(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "name()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    ownerOf(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "ownerOf(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    referralBonusDuration(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "referralBonusDuration()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    referralRewardBps(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "referralRewardBps()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    referrerOf(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "referrerOf(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    refundPolicy(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "refundPolicy()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    refundWindow(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "refundWindow()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    renounceRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "renounceRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    revokeRole(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "revokeRole(bytes32,address)"(
+      role: BytesLike,
+      account: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "safeTransferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "safeTransferFrom(address,address,uint256,bytes)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      _data: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setApprovalForAll(
+      operator: string,
+      approved: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setApprovalForAll(address,bool)"(
+      operator: string,
+      approved: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    shares(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "shares(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscriptionByOwner(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscriptionByOwner(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    symbol(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "symbol()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    tokenAddress(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "tokenAddress()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    tokenByIndex(
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "tokenByIndex(uint256)"(
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    tokenOfOwnerByIndex(
+      owner: string,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "tokenOfOwnerByIndex(address,uint256)"(
+      owner: string,
+      index: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    tokenURI(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "tokenURI(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    totalShares(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "totalShares()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    totalSupply(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "totalSupply()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    transferFrom(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "transferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    transferPolicy(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "transferPolicy()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    voucherRedemptions(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "voucherRedemptions(bytes32)"(
+      arg0: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
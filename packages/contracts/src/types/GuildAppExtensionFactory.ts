@@ -0,0 +1,2549 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { GuildAppExtension } from "./GuildAppExtension";
+
+export class GuildAppExtensionFactory extends ContractFactory {
+  constructor(
+    linkLibraryAddresses: GuildAppExtensionLibraryAddresses,
+    signer?: Signer
+  ) {
+    super(
+      _abi,
+      GuildAppExtensionFactory.linkBytecode(linkLibraryAddresses),
+      signer
+    );
+  }
+
+  static linkBytecode(
+    linkLibraryAddresses: GuildAppExtensionLibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$32cef4f64e636500be99c33a0d18eaccc8\\$__", "g"),
+      linkLibraryAddresses["__$32cef4f64e636500be99c33a0d18eaccc8$__"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$f989dde10ffb2e16f493e0f9c7e8ffd1bd\\$__", "g"),
+      linkLibraryAddresses["__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
+  deploy(overrides?: Overrides): Promise<GuildAppExtension> {
+    return super.deploy(overrides || {}) as Promise<GuildAppExtension>;
+  }
+  getDeployTransaction(overrides?: Overrides): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  attach(address: string): GuildAppExtension {
+    return super.attach(address) as GuildAppExtension;
+  }
+  connect(signer: Signer): GuildAppExtensionFactory {
+    return super.connect(signer) as GuildAppExtensionFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): GuildAppExtension {
+    return new Contract(address, _abi, signerOrProvider) as GuildAppExtension;
+  }
+}
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "_root",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_listCID",
+        type: "string",
+      },
+    ],
+    name: "AllowlistUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_payee",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+    ],
+    name: "Claimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_lastTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_totalTokens",
+        type: "uint256",
+      },
+    ],
+    name: "ClosingRefundsProcessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+    ],
+    name: "Distributed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_maxFreezeDuration",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_maxFreezes",
+        type: "uint256",
+      },
+    ],
+    name: "FreezePolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_gracePeriod",
+        type: "uint256",
+      },
+    ],
+    name: "GracePeriodUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "_enabled",
+        type: "bool",
+      },
+    ],
+    name: "GrandfatheredPricingUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_closedAt",
+        type: "uint256",
+      },
+    ],
+    name: "GuildClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_subPrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_subscriptionPeriod",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "symbol",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "baseURI",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "metadataCID",
+            type: "string",
+          },
+        ],
+        indexed: false,
+        internalType: "struct IGuild.GuildMetadata",
+        name: "_metadata",
+        type: "tuple",
+      },
+    ],
+    name: "InitializedGuild",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_maxMembers",
+        type: "uint256",
+      },
+    ],
+    name: "MaxMembersUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "NewSubscription",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "_isPaused",
+        type: "bool",
+      },
+    ],
+    name: "PausedGuild",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address[]",
+        name: "_payees",
+        type: "address[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "_shares",
+        type: "uint256[]",
+      },
+    ],
+    name: "PayeesUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "PaymentTokenAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "PaymentTokenRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_minPeriods",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_discountBps",
+        type: "uint256",
+      },
+    ],
+    name: "PeriodDiscountUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "PriceLocked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_referrer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_referrerTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_reward",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_bonusDuration",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_referrerExpiry",
+        type: "uint256",
+      },
+    ],
+    name: "ReferralCredited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_rewardBps",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_bonusDuration",
+        type: "uint256",
+      },
+    ],
+    name: "ReferralPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum IGuild.RefundPolicy",
+        name: "_policy",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_refundWindow",
+        type: "uint256",
+      },
+    ],
+    name: "RefundPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+    ],
+    name: "Refunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "RenewSubscription",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "_reason",
+        type: "bytes",
+      },
+    ],
+    name: "RenewalFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "previousAdminRole",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "newAdminRole",
+        type: "bytes32",
+      },
+    ],
+    name: "RoleAdminChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "SeatReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_remaining",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_resumeAt",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionFrozen",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_payer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_messageCID",
+        type: "string",
+      },
+    ],
+    name: "SubscriptionGifted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_subPrice",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionPriceChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+    ],
+    name: "SubscriptionTransferApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_expirationTimestamp",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionUnfrozen",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_period",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_cap",
+        type: "uint256",
+      },
+    ],
+    name: "TierUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tipper",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_messageCID",
+        type: "string",
+      },
+    ],
+    name: "Tipped",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "TokenPriceUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum IGuild.TransferPolicy",
+        name: "_policy",
+        type: "uint8",
+      },
+    ],
+    name: "TransferPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Unsubscribed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_metadataURI",
+        type: "string",
+      },
+    ],
+    name: "UpdatedMetadata",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_template",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "_voucher",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_cost",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherRedeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "WaitlistJoined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "beneficiary",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdraw",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "METADATA_EDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PRICE_MANAGER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RENEWAL_WINDOW",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TREASURER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_prices",
+        type: "uint256[]",
+      },
+    ],
+    name: "addPaymentToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_period",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_cap",
+        type: "uint256",
+      },
+    ],
+    name: "addTier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "allowlistRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+    ],
+    name: "approveSubscriptionTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "approvedTransfers",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "baseURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_payee",
+        type: "address",
+      },
+    ],
+    name: "claim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "claimClosingRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "claimable",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeGuild",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "distribute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "factory",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "freezeSubscription",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleAdmin",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getRoleMember",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "gracePeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "grandfatheredPricing",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxFreezeDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxFreezes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxMembers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "metadataCID",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "pause",
+        type: "bool",
+      },
+    ],
+    name: "pauseGuild",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_count",
+        type: "uint256",
+      },
+    ],
+    name: "processClosingRefunds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "referralBonusDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "referralRewardBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "referrerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "refundPolicy",
+    outputs: [
+      {
+        internalType: "enum IGuild.RefundPolicy",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "refundWindow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "removePaymentToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_root",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "_listCID",
+        type: "string",
+      },
+    ],
+    name: "setAllowlist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_maxFreezeDuration",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_maxFreezes",
+        type: "uint256",
+      },
+    ],
+    name: "setFreezePolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_gracePeriod",
+        type: "uint256",
+      },
+    ],
+    name: "setGracePeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_enabled",
+        type: "bool",
+      },
+    ],
+    name: "setGrandfatheredPricing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_maxMembers",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxMembers",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_metadataCID",
+        type: "string",
+      },
+    ],
+    name: "setMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "_newPayees",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_shares",
+        type: "uint256[]",
+      },
+    ],
+    name: "setPayees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_minPeriods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_discountBps",
+        type: "uint256",
+      },
+    ],
+    name: "setPeriodDiscount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_rewardBps",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_bonusDuration",
+        type: "uint256",
+      },
+    ],
+    name: "setReferralPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum IGuild.RefundPolicy",
+        name: "_policy",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_refundWindow",
+        type: "uint256",
+      },
+    ],
+    name: "setRefundPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "setTokenPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "shares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "subscriptionByOwner",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "expirationTimestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "paidValue",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "paidFrom",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lockedPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "frozenAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "freezes",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "seatReleased",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "bonusTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "resumeAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "tokenAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenOfOwnerByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalShares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "transferPolicy",
+    outputs: [
+      {
+        internalType: "enum IGuild.TransferPolicy",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "unfreezeSubscription",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "unsubscribe",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_newSubPrice",
+        type: "uint256",
+      },
+    ],
+    name: "updateSubscriptionPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_period",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_cap",
+        type: "uint256",
+      },
+    ],
+    name: "updateTier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_version",
+        type: "uint256",
+      },
+    ],
+    name: "upgradeToVersion",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "voucherRedemptions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_beneficiary",
+        type: "address",
+      },
+    ],
+    name: "withdraw",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b50615fc780620000216000396000f3fe608060405234801561001057600080fd5b506004361061048b5760003560e01c80639c9c666911610262578063ca93c83a11610151578063e3cdc04b116100ce578063f0a3a97c11610092578063f0a3a97c14610972578063f2f659601461097a578063f546ffa41461098d578063f6539e4a146109a0578063f9dfaf5b146109a8578063fe8c41ce146109bb5761048b565b8063e3cdc04b14610934578063e63ab1e91461093c578063e6f2fa6214610944578063e855f8c91461094c578063e985e9c51461095f5761048b565b8063d547741f11610115578063d547741f146108e0578063dc532a2b146108f3578063dcebbd4514610906578063ddca0ce614610919578063e2c097831461092c5761048b565b8063ca93c83a14610874578063cdd8946e1461089f578063ce7c2ac2146108a7578063d21cacdf146108ba578063d4570c1c146108cd5761048b565b8063b88d4fde116101df578063c2b758e1116101a3578063c2b758e11461082b578063c44010b914610833578063c45a015514610846578063c87b56dd1461084e578063ca15c873146108615761048b565b8063b88d4fde146107d7578063ba444dda146107ea578063bcc7445f146107fd578063bf4386a014610810578063c0b2f52a146108185761048b565b8063a22cb46511610226578063a22cb46514610778578063a49a1e7d1461078b578063a51254211461079e578063ad0b27fb146107b1578063b79e5ba4146107c45761048b565b80639c9c6669146107505780639d76ea58146107585780639ef27b0014610760578063a06db7dc14610768578063a217fddf146107705761048b565b8063483525261161037e57806370a08231116102fb5780638ad821f3116102bf5780638ad821f3146106fc5780639010d07c1461070f57806391d14854146107225780639498623e1461073557806395d89b41146107485761048b565b806370a08231146106b357806373643527146106c65780637425ef2e146106ce57806375f4c059146106e15780637cab7082146106e95761048b565b806363453ae11161034257806363453ae11461065f5780636352211e14610672578063638db3771461068557806369328dec146106985780636c0360eb146106ab5761048b565b806348352526146106145780634e7dac13146106295780634f6ccce71461063c57806358871c461461064f5780635c101e66146106575761048b565b8063248a9ca31161040c57806331aab759116103d057806331aab759146105cb57806336568abe146105d35780633a98ef39146105e65780633f341912146105ee57806342842e0e146106015761048b565b8063248a9ca31461056c5780632615a2701461057f5780632800c09d146105925780632f2ff15d146105a55780632f745c59146105b85761048b565b806318160ddd1161045357806318160ddd1461051657806321c0b3421461052b57806322f3e2d41461053e57806323a162ed1461054657806323b872dd146105595761048b565b806301ffc9a7146104905780630352c149146104b957806306fdde03146104ce578063081812fc146104e3578063095ea7b314610503575b600080fd5b6104a361049e366004614e07565b6109c3565b6040516104b09190615128565b60405180910390f35b6104cc6104c7366004614d33565b6109e6565b005b6104d6610b5a565b6040516104b0919061519c565b6104f66104f1366004614d33565b610bf1565b6040516104b09190615061565b6104cc610511366004614bf7565b610c53565b61051e610d29565b6040516104b09190615133565b6104cc610539366004614a80565b610d3a565b6104a3610e83565b6104cc610554366004614d33565b610e91565b6104cc610567366004614ab8565b611024565b61051e61057a366004614d33565b61107b565b6104cc61058d366004614e2f565b611090565b61051e6105a0366004614d33565b611141565b6104cc6105b3366004614d4b565b611153565b61051e6105c6366004614bf7565b6111ba565b61051e6111e5565b6104cc6105e1366004614d4b565b6111f7565b61051e611258565b6104cc6105fc366004614de6565b61125e565b6104cc61060f366004614ab8565b6112bf565b61061c6112da565b6040516104b09190615172565b6104cc610637366004614f12565b6112e3565b61051e61064a366004614d33565b6113b1565b6104d66113c7565b61061c611455565b6104cc61066d366004614a48565b611465565b6104f6610680366004614d33565b611643565b6104cc610693366004614d19565b61166b565b6104cc6106a6366004614c22565b6116d9565b6104d661184d565b61051e6106c1366004614a48565b6118ae565b61051e611916565b6104cc6106dc366004614e82565b61191c565b61051e611a05565b6104cc6106f7366004614d33565b611a0b565b6104cc61070a366004614b75565b611c42565b6104f661071d366004614de6565b611cef565b6104a3610730366004614d4b565b611d07565b6104cc610743366004614d33565b611d1f565b6104d6611e5a565b61051e611ebb565b6104f6611ec1565b61051e611ed0565b61051e611ed6565b61051e611edc565b6104cc610786366004614bc3565b611ee1565b6104cc610799366004614e4f565b611fe6565b6104cc6107ac366004614a48565b61207c565b6104cc6107bf366004614d33565b612114565b6104cc6107d2366004614d6f565b61231d565b6104cc6107e5366004614af8565b61237b565b6104cc6107f8366004614d19565b6123d3565b6104cc61080b366004614c63565b6124b5565b61051e612734565b6104cc610826366004614d33565b61273a565b61051e612878565b6104f6610841366004614d33565b61287e565b6104f6612899565b6104d661085c366004614d33565b6128a8565b61051e61086f366004614d33565b612b29565b610887610882366004614a48565b612b40565b6040516104b09c9b9a99989796959493929190615ac5565b61051e612bad565b61051e6108b5366004614a48565b612bb3565b6104f66108c8366004614a48565b612bc5565b61051e6108db366004614a80565b612be0565b6104cc6108ee366004614d4b565b612bfd565b6104cc610901366004614d4b565b612c56565b6104cc610914366004614eec565b612d30565b6104cc610927366004614de6565b612da8565b61051e612e1e565b6104a3612e25565b61051e612e2e565b61051e612e52565b6104cc61095a366004614d33565b612e76565b6104a361096d366004614a80565b612ed0565b61051e612efe565b6104cc610988366004614d33565b612f22565b6104cc61099b366004614de6565b612f7c565b6104cc612fff565b6104cc6109b6366004614bf7565b61308d565b61051e61320f565b6001600160e01b0319811660009081526033602052604090205460ff165b919050565b610a0b6000801b6040518060600160405280602b8152602001615f38602b9139613215565b6000610a15613240565b90506001600160a01b038116610a465760405162461bcd60e51b8152600401610a3d90615507565b60405180910390fd5b610a4e613265565b8211610a6c5760405162461bcd60e51b8152600401610a3d906155cd565b60405163200f062b60e21b81526000906001600160a01b0383169063803c18ac90610a9b908690600401615133565b60206040518083038186803b158015610ab357600080fd5b505afa158015610ac7573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610aeb9190614a64565b90506001600160a01b038116610b135760405162461bcd60e51b8152600401610a3d906155cd565b610b1c83613289565b7f4289d6195cf3c2d2174adf98d0e19d4d2d08887995b99cb7b100e7ffe795820e8382604051610b4d92919061595a565b60405180910390a1505050565b606a8054604080516020601f6002600019610100600188161502019095169490940493840181900481028201810190925282815260609390929091830182828015610be65780601f10610bbb57610100808354040283529160200191610be6565b820191906000526020600020905b815481529060010190602001808311610bc957829003601f168201915b505050505090505b90565b6000610bfc826132ac565b610c375760405162461bcd60e51b815260040180806020018281038252602c815260200180615e00602c913960400191505060405180910390fd5b506000908152606860205260409020546001600160a01b031690565b6000610c5e82611643565b9050806001600160a01b0316836001600160a01b03161415610cb15760405162461bcd60e51b8152600401808060200182810382526021815260200180615e846021913960400191505060405180910390fd5b806001600160a01b0316610cc36132b9565b6001600160a01b03161480610cdf5750610cdf8161096d6132b9565b610d1a5760405162461bcd60e51b8152600401808060200182810382526038815260200180615d006038913960400191505060405180910390fd5b610d2483836132bd565b505050565b6000610d35606661332b565b905090565b6001600160a01b03808316600090815260de602090815260408083209385168352929052205480610d7d5760405162461bcd60e51b8152600401610a3d90615549565b6001600160a01b03808416600081815260de60209081526040808320948716835293815283822082905591815260df9091522054610dbb9082613336565b6001600160a01b038416600090815260df60205260409081902091909155517ff7a40077ff7a04c7e61f6f26fb13774259ddf1b6bce9ecf26a8276cdd399268390610e0b90859085908590615075565b60405180910390a16040516303bcd7f360e11b815273__$32cef4f64e636500be99c33a0d18eaccc8$__90630779afe690610e4e90869086908690600401615075565b60006040518083038186803b158015610e6657600080fd5b505af4158015610e7a573d6000803e3d6000fd5b50505050505050565b60c954610100900460ff1681565b610e99613393565b610ea281611643565b6001600160a01b0316610eb36132b9565b6001600160a01b031614610ed95760405162461bcd60e51b8152600401610a3d9061564e565b600060eb5411610efb5760405162461bcd60e51b8152600401610a3d90615369565b600060d36000610f096132b9565b6001600160a01b03166001600160a01b0316815260200190815260200160002090508060070154600014610f4f5760405162461bcd60e51b8152600401610a3d906153a0565b42816001015411610f725760405162461bcd60e51b8152600401610a3d906156a3565b60ec541580610f86575060ec548160080154105b610fa25760405162461bcd60e51b8152600401610a3d90615923565b426007820181905560eb54610fb791906133bc565b600b8201556008810154610fcc9060016133bc565b600882015560018101547f02818e26dda3d47ddd5fb5d25a6263c5c514367450299cdbbb72d2c0db27ecf59083906110049042613336565b83600b015460405161101893929190615a8a565b60405180910390a15050565b61103561102f6132b9565b82613416565b6110705760405162461bcd60e51b8152600401808060200182810382526031815260200180615ed36031913960400191505060405180910390fd5b610d248383836134ba565b60009081526097602052604090206002015490565b6110b56000801b6040518060600160405280602b8152602001615f38602b9139613215565b60028260028111156110c357fe5b1415806110d05750600081115b6110ec5760405162461bcd60e51b8152600401610a3d906158ec565b60d9805483919060ff1916600183600281111561110557fe5b021790555060da8190556040517f7b7c7e6c7dca11572ce245350cd290bdef8c18dbc633efc67d169b09c117b87b906110189084908490615185565b60e26020526000908152604090205481565b600082815260976020526040902060020154611171906107306132b9565b6111ac5760405162461bcd60e51b815260040180806020018281038252602f815260200180615bd4602f913960400191505060405180910390fd5b6111b68282613606565b5050565b6001600160a01b03821660009081526065602052604081206111dc908361366f565b90505b92915050565b600080516020615c0383398151915281565b6111ff6132b9565b6001600160a01b0316816001600160a01b03161461124e5760405162461bcd60e51b815260040180806020018281038252602f815260200180615f63602f913960400191505060405180910390fd5b6111b6828261367b565b60dd5481565b6112836000801b6040518060600160405280602b8152602001615f38602b9139613215565b60eb82905560ec8190556040517fdf5eeab91954a5203b343ea9244d8d3bab160beca7e668e0064fe1a13f200e8e906110189084908490615a44565b610d248383836040518060200160405280600081525061237b565b60d95460ff1681565b6113086000801b6040518060600160405280602b8152602001615f38602b9139613215565b611310613393565b60408051608081018252858152602081018590528082018490526060810183905260cb54915163156408ab60e21b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9263559022ac9261137a9260cc928b92916001600160a01b0390911690600401615a52565b60006040518083038186803b15801561139257600080fd5b505af41580156113a6573d6000803e3d6000fd5b505050505050505050565b6000806113bf6066846136e4565b509392505050565b60ca805460408051602060026001851615610100026000190190941693909304601f8101849004840282018401909252818152929183018282801561144d5780601f106114225761010080835404028352916020019161144d565b820191906000526020600020905b81548152906001019060200180831161143057829003601f168201915b505050505081565b60e054600160a01b900460ff1681565b7f3496e2e73c4d42b75d702e60d9e48102720b8691234415963a5a857b86425d076040518060600160405280602e8152602001615ea5602e91396114a98282613215565b60db546114c85760405162461bcd60e51b8152600401610a3d906152fb565b60006114d384613700565b9050600081116114f55760405162461bcd60e51b8152600401610a3d90615499565b6000805b60db548110156115c257600060db828154811061151257fe5b600091825260208083209091015460dd546001600160a01b0390911680845260dc90925260408320549193506115539161154d9088906137f4565b9061384d565b6001600160a01b03808a16600090815260de602090815260408083209387168352929052205490915061158690826133bc565b6001600160a01b03808a16600090815260de60209081526040808320938716835292905220556115b684826133bc565b935050506001016114f9565b506001600160a01b038516600090815260df60205260409020546115e690826133bc565b6001600160a01b038616600090815260df60205260409081902091909155517fb649c98f58055c520df0dcb5709eff2e931217ff2fb1e21376130d31bbb1c0af906116349087908490615099565b60405180910390a15050505050565b60006111df82604051806060016040528060298152602001615d6260299139606691906138b4565b6116906000801b6040518060600160405280602b8152602001615f38602b9139613215565b60e5805460ff19168215151790556040517f71b52eea84bb6d01a0cd82d485ef097a5123b45239ead61e22971befc11fa544906116ce908390615128565b60405180910390a150565b7f3496e2e73c4d42b75d702e60d9e48102720b8691234415963a5a857b86425d076040518060600160405280602e8152602001615ea5602e913961171d8282613215565b61172860d4866138cb565b6117445760405162461bcd60e51b8152600401610a3d906151af565b600061174f86613700565b90506000851180156117615750848110155b61177d5760405162461bcd60e51b8152600401610a3d9061573c565b60006001600160a01b03851661179a576117956132b9565b61179c565b845b90507f9b1bfa7fa9ee420a16e124f794c35ac9f90472acc99140eb2f6447c714cad8eb8782886040516117d193929190615075565b60405180910390a16040516303bcd7f360e11b815273__$32cef4f64e636500be99c33a0d18eaccc8$__90630779afe690611814908a9085908b90600401615075565b60006040518083038186803b15801561182c57600080fd5b505af4158015611840573d6000803e3d6000fd5b5050505050505050505050565b606d8054604080516020601f6002600019610100600188161502019095169490940493840181900481028201810190925282815260609390929091830182828015610be65780601f10610bbb57610100808354040283529160200191610be6565b60006001600160a01b0382166118f55760405162461bcd60e51b815260040180806020018281038252602a815260200180615d38602a913960400191505060405180910390fd5b6001600160a01b03821660009081526065602052604090206111df9061332b565b60da5481565b6119416000801b6040518060600160405280602b8152602001615f38602b9139613215565b611949613393565b60408051608081018252858152602081018590528082018490526060810183905260cb549151631bdbd26f60e11b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__926337b7a4de926119ae9260cc926001600160a01b031690600401615a13565b60206040518083038186803b1580156119c657600080fd5b505af41580156119da573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906119fe9190614ed4565b5050505050565b60ed5481565b600060e654118015611a20575060d75460f054105b611a3c5760405162461bcd60e51b8152600401610a3d906158a5565b60f054600090611a4c90836133bc565b905060d754811115611a5d575060d7545b60f054600090611a6e9060016133bc565b90505b818111611b4357611a81816132ac565b15611b3b57600060d36000611a9584611643565b6001600160a01b03166001600160a01b0316815260200190815260200160002090506000611adc826000846007015411611ad15760e654611ad7565b83600701545b6138e0565b90508015611b3857600083815260e76020908152604080832084905560038501546001600160a01b0316835260e8909152902054611b1a90826133bc565b60038301546001600160a01b0316600090815260e860205260409020555b50505b600101611a71565b5060f081905560d754811415611c0f5760005b611b6060d461332b565b811015611c0d576000611b7460d48361366f565b6001600160a01b038116600090815260e860205260409020549091508015611c03576000611ba183613700565b90506000828210611bb25782611bb4565b815b6001600160a01b038516600090815260e96020908152604080832084905560df909152902054909150611be790826133bc565b6001600160a01b038516600090815260df602052604090205550505b5050600101611b56565b505b7f39d33c518e5dd126d91a86f46e40dd7ae376385b82a8156301565c73144cd1df8160d754604051611018929190615a44565b611c676000801b6040518060600160405280602b8152602001615f38602b9139613215565b611c6f613393565b604051639662367360e01b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__90639662367390611cab9060cc9086908690600401615990565b60006040518083038186803b158015611cc357600080fd5b505af4158015611cd7573d6000803e3d6000fd5b50505050610d248260d461396890919063ffffffff16565b60008281526097602052604081206111dc908361366f565b60008281526097602052604081206111dc90836138cb565b600060d36000611d2e84611643565b6001600160a01b03166001600160a01b0316815260200190815260200160002090506000816007015411611d745760405162461bcd60e51b8152600401610a3d9061526c565b600b81015442811115611dc457611d8a83611643565b6001600160a01b0316611d9b6132b9565b6001600160a01b031614611dc15760405162461bcd60e51b8152600401610a3d9061564e565b50425b6000611ddd83600701548361333690919063ffffffff16565b6001840154909150611def90826133bc565b60018401556005830154611e0390826133bc565b6005840155600060078401819055600b84015560018301546040517f03d318e248a9af29d7519b8731a2d34f314bd24cd214c2e45a17537ce386373a91611e4c91879190615a44565b60405180910390a150505050565b606b8054604080516020601f6002600019610100600188161502019095169490940493840181900481028201810190925282815260609390929091830182828015610be65780601f10610bbb57610100808354040283529160200191610be6565b60e35481565b60cb546001600160a01b031681565b60e65481565b60d85481565b600081565b611ee96132b9565b6001600160a01b0316826001600160a01b03161415611f4f576040805162461bcd60e51b815260206004820152601960248201527f4552433732313a20617070726f766520746f2063616c6c657200000000000000604482015290519081900360640190fd5b8060696000611f5c6132b9565b6001600160a01b03908116825260208083019390935260409182016000908120918716808252919093529120805460ff191692151592909217909155611fa06132b9565b6001600160a01b03167f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c318360405180821515815260200191505060405180910390a35050565b7f83451201604d3a4d256ddd2d5af33f39d62710ad0a1aef34d36f5aa8cf91ed1d604051806060016040528060348152602001615f046034913961202a8282613215565b612032613393565b82516120459060ca906020860190614859565b507fca030fe07743250f91f8aa21bd3663b4bf8dec23fa1190e2aef94dd1afcf7bf661206f61397d565b604051610b4d919061519c565b6120a16000801b6040518060600160405280602b8152602001615f38602b9139613215565b60cb5460405163bf18650f60e01b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9163bf18650f916120e89160cc9186916001600160a01b031690600401615971565b60006040518083038186803b15801561210057600080fd5b505af41580156119fe573d6000803e3d6000fd5b61211d816132ac565b6121395760405162461bcd60e51b8152600401610a3d90615784565b60006121436132b9565b905061214e82611643565b6001600160a01b0316816001600160a01b03161461217e5760405162461bcd60e51b8152600401610a3d9061564e565b600082815260e760205260409020541580156121a7575060e65415806121a7575060d75460f054145b6121c35760405162461bcd60e51b8152600401610a3d90615580565b6001600160a01b038116600090815260d36020526040902060070154156121fc5760405162461bcd60e51b8152600401610a3d906153a0565b600061220783613a51565b6001600160a01b03808416600090815260d360205260409020600301549192501661223184613b25565b7fb76f7b6b44867ac49b1c08f88d6199064db4caa56ecbd1cbfd67f44c0616200e846040516122609190615133565b60405180910390a18115612317577f1c26abe6289671e3a9d493647349673af828abb9dbadff1e81762387f7cd99a3848483856040516122a39493929190615aa0565b60405180910390a16040516303bcd7f360e11b815273__$32cef4f64e636500be99c33a0d18eaccc8$__90630779afe6906122e690849087908790600401615075565b60006040518083038186803b1580156122fe57600080fd5b505af4158015612312573d6000803e3d6000fd5b505050505b50505050565b6123426000801b6040518060600160405280602b8152602001615f38602b9139613215565b60e38390556040517f9869f812ad6f00b12064ae969e05479aaa6489457f0fa486bbe4879effa7db9d90610b4d9085908590859061513c565b61238c6123866132b9565b83613416565b6123c75760405162461bcd60e51b8152600401808060200182810382526031815260200180615ed36031913960400191505060405180910390fd5b61231784848484613bf2565b7f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a6040518060600160405280602b8152602001615c55602b91396124178282613215565b60e654156124375760405162461bcd60e51b8152600401610a3d9061540c565b60c95460ff610100909104161515831515146124655760405162461bcd60e51b8152600401610a3d906157c9565b7f6b2deb1d0589684576772a76959fa048161c8f0e5d0f33f95f5aa9b3ac252f24836040516124949190615128565b60405180910390a1505060c9805461ff001916911561010002919091179055565b6124da6000801b6040518060600160405280602b8152602001615f38602b9139613215565b80518251146124fb5760405162461bcd60e51b8152600401610a3d906152b0565b60005b60db548110156125465760dc600060db838154811061251957fe5b60009182526020808320909101546001600160a01b031683528201929092526040018120556001016124fe565b5061255360db60006148e5565b6000805b83518110156126fc5760006001600160a01b031684828151811061257757fe5b60200260200101516001600160a01b031614156125a65760405162461bcd60e51b8152600401610a3d906154d0565b60008382815181106125b457fe5b6020026020010151116125d95760405162461bcd60e51b8152600401610a3d90615604565b60dc60008583815181106125e957fe5b60200260200101516001600160a01b03166001600160a01b03168152602001908152602001600020546000146126315760405162461bcd60e51b8152600401610a3d90615235565b60db84828151811061263f57fe5b60209081029190910181015182546001810184556000938452919092200180546001600160a01b0319166001600160a01b03909216919091179055825183908290811061268857fe5b602002602001015160dc60008684815181106126a057fe5b60200260200101516001600160a01b03166001600160a01b03168152602001908152602001600020819055506126f28382815181106126db57fe5b6020026020010151836133bc90919063ffffffff16565b9150600101612557565b5060dd8190556040517fe513d216117f51d2e3f1d22d007ed71d23a52c0bcc410e8258732d682fe3db9390610b4d90859085906150b2565b60e45481565b600081815260e760205260409020541580159061275a575060d75460f054145b6127765760405162461bcd60e51b8152600401610a3d90615332565b600061278182611643565b6001600160a01b03808216600090815260d360205260408120600301549293509116906127ae8483613c44565b600085815260e7602090815260408083208390556001600160a01b038616835260df9091529020549091506127e39082613336565b6001600160a01b038316600090815260df60205260409081902091909155517f1c26abe6289671e3a9d493647349673af828abb9dbadff1e81762387f7cd99a390612835908690869086908690615aa0565b60405180910390a16040516303bcd7f360e11b815273__$32cef4f64e636500be99c33a0d18eaccc8$__90630779afe6906122e690859087908690600401615075565b60eb5481565b60e1602052600090815260409020546001600160a01b031681565b60e0546001600160a01b031681565b60606128b3826132ac565b6128ee5760405162461bcd60e51b815260040180806020018281038252602f815260200180615e55602f913960400191505060405180910390fd5b6000828152606c602090815260408083208054825160026001831615610100026000190190921691909104601f8101859004850282018501909352828152929091908301828280156129815780601f1061295657610100808354040283529160200191612981565b820191906000526020600020905b81548152906001019060200180831161296457829003601f168201915b50505050509050600061299261184d565b90508051600014156129a6575090506109e1565b815115612a675780826040516020018083805190602001908083835b602083106129e15780518252601f1990920191602091820191016129c2565b51815160209384036101000a600019018019909216911617905285519190930192850191508083835b60208310612a295780518252601f199092019160209182019101612a0a565b6001836020036101000a03801982511681845116808217855250505050505090500192505050604051602081830303815290604052925050506109e1565b80612a7185613c97565b6040516020018083805190602001908083835b60208310612aa35780518252601f199092019160209182019101612a84565b51815160209384036101000a600019018019909216911617905285519190930192850191508083835b60208310612aeb5780518252601f199092019160209182019101612acc565b6001836020036101000a0380198251168184511680821785525050505050509050019250505060405160208183030381529060405292505050919050565b60008181526097602052604081206111df9061332b565b60d360205260009081526040902080546001820154600283015460038401546004850154600586015460068701546007880154600889015460098a0154600a8b0154600b909b0154999a989997986001600160a01b03909716979596949593949293919260ff909116918c565b60ee5481565b60dc6020526000908152604090205481565b60ef602052600090815260409020546001600160a01b031681565b60de60209081526000928352604080842090915290825290205481565b600082815260976020526040902060020154612c1b906107306132b9565b61124e5760405162461bcd60e51b8152600401808060200182810382526030815260200180615cd06030913960400191505060405180910390fd5b612c7b6000801b6040518060600160405280602b8152602001615f38602b9139613215565b600160e054600160a01b900460ff166002811115612c9557fe5b14612cb25760405162461bcd60e51b8152600401610a3d9061585a565b612cbb826132ac565b612cd75760405162461bcd60e51b8152600401610a3d90615784565b600082815260e160205260409081902080546001600160a01b0319166001600160a01b038416179055517f021d57e7a1d47d8767efbf8c38d337de3e52dca04669f260fbf27c9b98d8482390611018908490849061595a565b600080516020615c03833981519152604051806060016040528060328152602001615dad60329139612d628282613215565b612d6a613393565b60405163a32e1d0360e01b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063a32e1d039061137a9060cc908990899089906004016159ef565b600080516020615c03833981519152604051806060016040528060328152602001615dad60329139612dda8282613215565b612de2613393565b6040516376603e3160e11b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063ecc07c62906122e69060cc9088908890600401615a8a565b6201518081565b60e55460ff1681565b7f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a81565b7f83451201604d3a4d256ddd2d5af33f39d62710ad0a1aef34d36f5aa8cf91ed1d81565b612e9b6000801b6040518060600160405280602b8152602001615f38602b9139613215565b60e48190556040517fb63bcc75a862434e97db3146b78681478a2692253df1de5623d497ee61fac799906116ce908390615133565b6001600160a01b03918216600090815260696020908152604080832093909416825291909152205460ff1690565b7f3496e2e73c4d42b75d702e60d9e48102720b8691234415963a5a857b86425d0781565b612f476000801b6040518060600160405280602b8152602001615f38602b9139613215565b60d88190556040517f33d1191f5a3abfe19d468d51bb5ece97489f1277a912a5b5c65992fc279ad3d4906116ce908390615133565b612fa16000801b6040518060600160405280602b8152602001615f38602b9139613215565b612710821115612fc35760405162461bcd60e51b8152600401610a3d906151f4565b60ed82905560ee8190556040517ff281a872be158f0f9a90c28d3297b69e32b39148c821e3ba44d60957e261c385906110189084908490615a44565b6130246000801b6040518060600160405280602b8152602001615f38602b9139613215565b60e654156130445760405162461bcd60e51b8152600401610a3d9061540c565b4260e681905560c9805461ff00191690556040517fae360e08cd0caf154c6c34c94b64e8e15abdd03faeddc29777f9d80508144b579161308391615133565b60405180910390a1565b600080516020615c03833981519152604051806060016040528060328152602001615dad603291396130bf8282613215565b6130c7613393565b60405163745d99bf60e11b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063e8bb337e906131019060cc90889060040161595a565b60006040518083038186803b15801561311957600080fd5b505af415801561312d573d6000803e3d6000fd5b505050506131458460d461396890919063ffffffff16565b5060cb80546001600160a01b0319166001600160a01b03861617905560405163a32e1d0360e01b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063a32e1d03906131a09060cc90600090899089906004016159ef565b60006040518083038186803b1580156131b857600080fd5b505af41580156131cc573d6000803e3d6000fd5b505060cb546040517fb615278182d549b7e1f4ef08385ecfaf277899905cb93aa6a47e1d6f0af100d29350611e4c92506001600160a01b03909116908690615099565b60ec5481565b613221826107306132b9565b8190610d245760405162461bcd60e51b8152600401610a3d919061519c565b7fa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d505490565b7e35d03d5b7ec8a5dc47a052514222f4cf7ee219e90726e32aa4974b03574c9c5490565b7e35d03d5b7ec8a5dc47a052514222f4cf7ee219e90726e32aa4974b03574c9c55565b60006111df606683613d72565b3390565b600081815260686020526040902080546001600160a01b0319166001600160a01b03841690811790915581906132f282611643565b6001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45050565b60006111df82613d7e565b60008282111561338d576040805162461bcd60e51b815260206004820152601e60248201527f536166654d6174683a207375627472616374696f6e206f766572666c6f770000604482015290519081900360640190fd5b50900390565b60c954610100900460ff166133ba5760405162461bcd60e51b8152600401610a3d906153d5565b565b6000828201838110156111dc576040805162461bcd60e51b815260206004820152601b60248201527f536166654d6174683a206164646974696f6e206f766572666c6f770000000000604482015290519081900360640190fd5b6000613421826132ac565b61345c5760405162461bcd60e51b815260040180806020018281038252602c815260200180615ca4602c913960400191505060405180910390fd5b600061346783611643565b9050806001600160a01b0316846001600160a01b031614806134a25750836001600160a01b031661349784610bf1565b6001600160a01b0316145b806134b257506134b28185612ed0565b949350505050565b826001600160a01b03166134cd82611643565b6001600160a01b0316146135125760405162461bcd60e51b8152600401808060200182810382526029815260200180615e2c6029913960400191505060405180910390fd5b6001600160a01b0382166135575760405162461bcd60e51b8152600401808060200182810382526024815260200180615c806024913960400191505060405180910390fd5b613562838383613d82565b61356d6000826132bd565b6001600160a01b038316600090815260656020526040902061358f90826140d5565b506001600160a01b03821660009081526065602052604090206135b290826140e1565b506135bf606682846140ed565b5080826001600160a01b0316846001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a4505050565b600082815260976020526040902061361e9082613968565b156111b65761362b6132b9565b6001600160a01b0316816001600160a01b0316837f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a45050565b60006111dc8383614103565b60008281526097602052604090206136939082614167565b156111b6576136a06132b9565b6001600160a01b0316816001600160a01b0316837ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b60405160405180910390a45050565b60008080806136f3868661417c565b9097909650945050505050565b600061370d60d4836138cb565b8015613726575060e6541580613726575060d75460f054145b156137ec5760006001600160a01b03831661374157476137bd565b6040516370a0823160e01b81526001600160a01b038416906370a082319061376d903090600401615061565b60206040518083038186803b15801561378557600080fd5b505afa158015613799573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906137bd9190614ed4565b6001600160a01b038416600090815260df60205260409020549091506137e4908290613336565b9150506109e1565b506000919050565b600082613803575060006111df565b8282028284828161381057fe5b04146111dc5760405162461bcd60e51b8152600401808060200182810382526021815260200180615ddf6021913960400191505060405180910390fd5b60008082116138a3576040805162461bcd60e51b815260206004820152601a60248201527f536166654d6174683a206469766973696f6e206279207a65726f000000000000604482015290519081900360640190fd5b8183816138ac57fe5b049392505050565b60006138c18484846141f7565b90505b9392505050565b60006111dc836001600160a01b0384166142c1565b600080828460050154116138f457826138fa565b83600501545b9050600061391985600a0154866001015461333690919063ffffffff16565b905081811161392d576000925050506111df565b61395f61394786600501548361333690919063ffffffff16565b61154d6139548486613336565b6004890154906137f4565b95945050505050565b60006111dc836001600160a01b0384166142d9565b6060600061398961184d565b9050805160001415613a285760ca805460408051602060026001851615610100026000190190941693909304601f81018490048402820184019092528181529291830182828015613a1b5780601f106139f057610100808354040283529160200191613a1b565b820191906000526020600020905b8154815290600101906020018083116139fe57829003601f168201915b5050505050915050610bee565b8060ca604051602001613a3c929190614fdd565b60405160208183030381529060405291505090565b60008060d36000613a6185611643565b6001600160a01b03168152602081019190915260400160002060e65490915015613a8f5760009150506109e1565b600160d95460ff166002811115613aa257fe5b1415613ab957613ab281426138e0565b9150613af6565b600260d95460ff166002811115613acc57fe5b148015613ae9575060da546005820154613ae5916133bc565b4211155b15613af657806004015491505b6003810154600090613b10906001600160a01b0316613700565b905080831115613b1e578092505b5050919050565b6000613b3082611643565b9050613b3e81600084613d82565b613b496000836132bd565b6000828152606c60205260409020546002600019610100600184161502019091160415613b87576000828152606c60205260408120613b8791614906565b6001600160a01b0381166000908152606560205260409020613ba990836140d5565b50613bb5606683614323565b5060405182906000906001600160a01b038416907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef908390a45050565b613bfd8484846134ba565b613c098484848461432f565b6123175760405162461bcd60e51b8152600401808060200182810382526032815260200180615c236032913960400191505060405180910390fd5b600082815260e7602052604081205480613c625760009150506111df565b6001600160a01b038316600090815260e8602090815260408083205460e9909252909120546134b2919061154d9084906137f4565b606081613cbc57506040805180820190915260018152600360fc1b60208201526109e1565b8160005b8115613cd457600101600a82049150613cc0565b60008167ffffffffffffffff81118015613ced57600080fd5b506040519080825280601f01601f191660200182016040528015613d18576020820181803683370190505b50859350905060001982015b8315613d6957600a840660300160f81b82828060019003935081518110613d4757fe5b60200101906001600160f81b031916908160001a905350600a84049350613d24565b50949350505050565b60006111dc83836142c1565b5490565b6001600160a01b03831615801590613da257506001600160a01b03821615155b15613fa657600260e054600160a01b900460ff166002811115613dc157fe5b1415613ddf5760405162461bcd60e51b8152600401610a3d9061580e565b600160e054600160a01b900460ff166002811115613df957fe5b1415613e5557600081815260e160205260409020546001600160a01b03838116911614613e385760405162461bcd60e51b8152600401610a3d906156e7565b600081815260e16020526040902080546001600160a01b03191690555b6001600160a01b038216600090815260d3602052604090206001015415613e8e5760405162461bcd60e51b8152600401610a3d90615443565b6001600160a01b03808416600081815260d36020526040808220868516835290822081548155600180830180549183019190915560028084018054918401919091556003808501805491850180546001600160a01b031990811693909a169290921790915560048086018054918601919091556005808701805491870191909155600680880180549188019190915560078089018054918901919091556008808a018054918a01919091556009808b018054918b01805460ff909316151560ff19938416179055600a808d018054918d0191909155600b808e01805491909d01559d8d529a8c9055978b9055958a90558454909b16909355908790558690558590559584905594839055815490941690559081905590555b6001600160a01b038216610d24576001600160a01b038316600090815260d3602052604090206009015460ff1661405d576001600160a01b038316600090815260d36020526040908190206002015490516303093b1b60e21b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__91630c24ec6c9161402c9160cc91600401615a44565b60006040518083038186803b15801561404457600080fd5b505af4158015614058573d6000803e3d6000fd5b505050505b50506001600160a01b0316600090815260d36020526040812081815560018101829055600281018290556003810180546001600160a01b0319169055600481018290556005810182905560068101829055600781018290556008810182905560098101805460ff19169055600a8101829055600b0155565b60006111dc8383614497565b60006111dc83836142d9565b60006138c184846001600160a01b03851661455d565b815460009082106141455760405162461bcd60e51b8152600401808060200182810382526022815260200180615bb26022913960400191505060405180910390fd5b82600001828154811061415457fe5b9060005260206000200154905092915050565b60006111dc836001600160a01b038416614497565b8154600090819083106141c05760405162461bcd60e51b8152600401808060200182810382526022815260200180615d8b6022913960400191505060405180910390fd5b60008460000184815481106141d157fe5b906000526020600020906002020190508060000154816001015492509250509250929050565b600082815260018401602052604081205482816142925760405162461bcd60e51b81526004018080602001828103825283818151815260200191508051906020019080838360005b8381101561425757818101518382015260200161423f565b50505050905090810190601f1680156142845780820380516001836020036101000a031916815260200191505b509250505060405180910390fd5b508460000160018203815481106142a557fe5b9060005260206000209060020201600101549150509392505050565b60009081526001919091016020526040902054151590565b60006142e583836142c1565b61431b575081546001818101845560008481526020808220909301849055845484825282860190935260409020919091556111df565b5060006111df565b60006111dc83836145f4565b6000614343846001600160a01b03166146c8565b61434f575060016134b2565b600061445d630a85bd0160e11b6143646132b9565b88878760405160240180856001600160a01b03168152602001846001600160a01b0316815260200183815260200180602001828103825283818151815260200191508051906020019080838360005b838110156143cb5781810151838201526020016143b3565b50505050905090810190601f1680156143f85780820380516001836020036101000a031916815260200191505b5095505050505050604051602081830303815290604052906001600160e01b0319166020820180516001600160e01b038381831617835250505050604051806060016040528060328152602001615c23603291396001600160a01b03881691906146ce565b9050600081806020019051602081101561447657600080fd5b50516001600160e01b031916630a85bd0160e11b1492505050949350505050565b6000818152600183016020526040812054801561455357835460001980830191908101906000908790839081106144ca57fe5b90600052602060002001549050808760000184815481106144e757fe5b60009182526020808320909101929092558281526001898101909252604090209084019055865487908061451757fe5b600190038181906000526020600020016000905590558660010160008781526020019081526020016000206000905560019450505050506111df565b60009150506111df565b6000828152600184016020526040812054806145c25750506040805180820182528381526020808201848152865460018181018955600089815284812095516002909302909501918255915190820155865486845281880190925292909120556138c4565b828560000160018303815481106145d557fe5b90600052602060002090600202016001018190555060009150506138c4565b60008181526001830160205260408120548015614553578354600019808301919081019060009087908390811061462757fe5b906000526020600020906002020190508087600001848154811061464757fe5b60009182526020808320845460029093020191825560019384015491840191909155835482528983019052604090209084019055865487908061468657fe5b60008281526020808220600260001990940193840201828155600190810183905592909355888152898201909252604082209190915594506111df9350505050565b3b151590565b60606138c18484600085856146e2856146c8565b614733576040805162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e7472616374000000604482015290519081900360640190fd5b600080866001600160a01b031685876040518082805190602001908083835b602083106147715780518252601f199092019160209182019101614752565b6001836020036101000a03801982511681845116808217855250505050505090500191505060006040518083038185875af1925050503d80600081146147d3576040519150601f19603f3d011682016040523d82523d6000602084013e6147d8565b606091505b50915091506147e88282866147f3565b979650505050505050565b606083156148025750816138c4565b8251156148125782518084602001fd5b60405162461bcd60e51b815260206004820181815284516024840152845185939192839260440191908501908083836000831561425757818101518382015260200161423f565b828054600181600116156101000203166002900490600052602060002090601f01602090048101928261488f57600085556148d5565b82601f106148a857805160ff19168380011785556148d5565b828001600101855582156148d5579182015b828111156148d55782518255916020019190600101906148ba565b506148e1929150614946565b5090565b50805460008255906000526020600020908101906149039190614946565b50565b50805460018160011615610100020316600290046000825580601f1061492c5750614903565b601f01602090049060005260206000209081019061490391905b5b808211156148e15760008155600101614947565b600067ffffffffffffffff83111561496f57fe5b614982601f8401601f1916602001615b24565b905082815283838301111561499657600080fd5b828260208301376000602084830101529392505050565b600082601f8301126149bd578081fd5b813560206149d26149cd83615b48565b615b24565b82815281810190858301838502870184018810156149ee578586fd5b855b85811015614a0c578135845292840192908401906001016149f0565b5090979650505050505050565b803580151581146109e157600080fd5b600082601f830112614a39578081fd5b6111dc8383356020850161495b565b600060208284031215614a59578081fd5b81356111dc81615b9c565b600060208284031215614a75578081fd5b81516111dc81615b9c565b60008060408385031215614a92578081fd5b8235614a9d81615b9c565b91506020830135614aad81615b9c565b809150509250929050565b600080600060608486031215614acc578081fd5b8335614ad781615b9c565b92506020840135614ae781615b9c565b929592945050506040919091013590565b60008060008060808587031215614b0d578081fd5b8435614b1881615b9c565b93506020850135614b2881615b9c565b925060408501359150606085013567ffffffffffffffff811115614b4a578182fd5b8501601f81018713614b5a578182fd5b614b698782356020840161495b565b91505092959194509250565b60008060408385031215614b87578182fd5b8235614b9281615b9c565b9150602083013567ffffffffffffffff811115614bad578182fd5b614bb9858286016149ad565b9150509250929050565b60008060408385031215614bd5578182fd5b8235614be081615b9c565b9150614bee60208401614a19565b90509250929050565b60008060408385031215614c09578182fd5b8235614c1481615b9c565b946020939093013593505050565b600080600060608486031215614c36578081fd5b8335614c4181615b9c565b9250602084013591506040840135614c5881615b9c565b809150509250925092565b60008060408385031215614c75578182fd5b823567ffffffffffffffff80821115614c8c578384fd5b818501915085601f830112614c9f578384fd5b81356020614caf6149cd83615b48565b82815281810190858301838502870184018b1015614ccb578889fd5b8896505b84871015614cf6578035614ce281615b9c565b835260019690960195918301918301614ccf565b5096505086013592505080821115614d0c578283fd5b50614bb9858286016149ad565b600060208284031215614d2a578081fd5b6111dc82614a19565b600060208284031215614d44578081fd5b5035919050565b60008060408385031215614d5d578182fd5b823591506020830135614aad81615b9c565b600080600060408486031215614d83578081fd5b83359250602084013567ffffffffffffffff80821115614da1578283fd5b818601915086601f830112614db4578283fd5b813581811115614dc2578384fd5b876020828501011115614dd3578384fd5b6020830194508093505050509250925092565b60008060408385031215614df8578182fd5b50508035926020909101359150565b600060208284031215614e18578081fd5b81356001600160e01b0319811681146111dc578182fd5b60008060408385031215614e41578182fd5b823560038110614c14578283fd5b600060208284031215614e60578081fd5b813567ffffffffffffffff811115614e76578182fd5b6134b284828501614a29565b60008060008060808587031215614e97578182fd5b843567ffffffffffffffff811115614ead578283fd5b614eb987828801614a29565b97602087013597506040870135966060013595509350505050565b600060208284031215614ee5578081fd5b5051919050565b600080600060608486031215614f00578081fd5b833592506020840135614ae781615b9c565b600080600080600060a08688031215614f29578283fd5b85359450602086013567ffffffffffffffff811115614f46578384fd5b614f5288828901614a29565b959895975050505060408401359360608101359360809091013592509050565b60008151808452614f8a816020860160208601615b66565b601f01601f19169290920160200192915050565b6000815160808452614fb36080850182614f72565b90506020830151602085015260408301516040850152606083015160608501528091505092915050565b600083516020614ff08285838901615b66565b845491840191839060018082168015615010576001811461502757615053565b60ff198316865260028304607f1686019350615053565b60028304898852858820885b8281101561504c57815489820152908401908701615033565b5050860193505b509198975050505050505050565b6001600160a01b0391909116815260200190565b6001600160a01b039384168152919092166020820152604081019190915260600190565b6001600160a01b03929092168252602082015260400190565b604080825283519082018190526000906020906060840190828701845b828110156150f45781516001600160a01b0316845292840192908401906001016150cf565b50505083810382850152845180825285830191830190845b81811015614a0c5783518352928401929184019160010161510c565b901515815260200190565b90815260200190565b60008482526040602083015282604083015282846060840137818301606090810191909152601f909201601f1916010192915050565b6020810161517f83615b92565b91905290565b6040810161519284615b92565b9281526020015290565b6000602082526111dc6020830184614f72565b60208082526025908201527f4775696c644170703a20546f6b656e20686173206e6f74206265656e206170706040820152641c9bdd995960da1b606082015260800190565b60208082526021908201527f4775696c644170703a20496e76616c696420726566657272616c2072657761726040820152601960fa1b606082015260800190565b6020808252601a908201527f4775696c644170703a204475706c696361746564207061796565000000000000604082015260600190565b60208082526024908201527f4775696c644170703a20537562736372697074696f6e206973206e6f7420667260408201526337bd32b760e11b606082015260800190565b6020808252602b908201527f4775696c644170703a2050617965657320616e6420736861726573206c656e6760408201526a0e8d040dad2e6dac2e8c6d60ab1b606082015260800190565b6020808252601e908201527f4775696c644170703a204e6f2070617965657320636f6e666967757265640000604082015260600190565b6020808252601b908201527f4775696c644170703a204e6f7468696e6720746f20726566756e640000000000604082015260600190565b6020808252601e908201527f4775696c644170703a20467265657a696e672069732064697361626c65640000604082015260600190565b6020808252818101527f4775696c644170703a20537562736372697074696f6e2069732066726f7a656e604082015260600190565b6020808252601f908201527f4775696c644170703a20546865204775696c642069732064697361626c656400604082015260600190565b60208082526019908201527f4775696c644170703a204775696c6420697320636c6f73656400000000000000604082015260600190565b60208082526036908201527f4775696c644170703a20526563697069656e7420616c7265616479206861732060408201527530b71030b1ba34bb329039bab139b1b934b83a34b7b760511b606082015260800190565b6020808252601f908201527f4775696c644170703a204e6f7468696e6720746f206469737472696275746500604082015260600190565b60208082526017908201527f4775696c644170703a20496e76616c6964207061796565000000000000000000604082015260600190565b60208082526022908201527f4775696c644170703a204775696c64206973206e6f74207570677261646561626040820152616c6560f01b606082015260800190565b6020808252601a908201527f4775696c644170703a204e6f7468696e6720746f20636c61696d000000000000604082015260600190565b6020808252602d908201527f4775696c644170703a20436c6f73696e6720726566756e6420686173206e6f7460408201526c081899595b8818db185a5b5959609a1b606082015260800190565b60208082526019908201527f4775696c644170703a20496e76616c69642076657273696f6e00000000000000604082015260600190565b6020808252602a908201527f4775696c644170703a20536861726573206d7573742062652067726561746572604082015269207468616e207a65726f60b01b606082015260800190565b60208082526035908201527f4775696c644170703a2043616c6c6572206973206e6f7420746865206f776e65604082015274391037b3103a34329039bab139b1b934b83a34b7b760591b606082015260800190565b60208082526024908201527f4775696c644170703a20537562736372697074696f6e206973206e6f742061636040820152637469766560e01b606082015260800190565b60208082526035908201527f4775696c644170703a205472616e7366657220686173206e6f74206265656e20604082015274185c1c1c9bdd995908189e481d1a194819dd5a5b19605a1b606082015260800190565b60208082526028908201527f4775696c644170703a204e6f7420656e6f7567682062616c616e636520746f20604082015267776974686472617760c01b606082015260800190565b60208082526025908201527f4775696c644170703a20537562736372697074696f6e20646f6573206e6f7420604082015264195e1a5cdd60da1b606082015260800190565b60208082526025908201527f4775696c644170703a204775696c6420616c726561647920696e207468617420604082015264737461746560d81b606082015260800190565b6020808252602c908201527f4775696c644170703a20537562736372697074696f6e7320617265206e6f6e2d60408201526b7472616e7366657261626c6560a01b606082015260800190565b6020808252602b908201527f4775696c644170703a205472616e736665727320646f206e6f7420726571756960408201526a1c9948185c1c1c9bdd985b60aa1b606082015260800190565b60208082526027908201527f4775696c644170703a204e6f20636c6f73696e6720726566756e647320746f2060408201526670726f6365737360c81b606082015260800190565b6020808252601f908201527f4775696c644170703a20496e76616c696420726566756e642077696e646f7700604082015260600190565b6020808252601e908201527f4775696c644170703a20467265657a65206c696d697420726561636865640000604082015260600190565b9182526001600160a01b0316602082015260400190565b9283526001600160a01b03918216602084015216604082015260600190565b8381526001600160a01b0383166020808301919091526060604083018190528351908301819052600091848101916080850190845b818110156159e1578451835293830193918301916001016159c5565b509098975050505050505050565b93845260208401929092526001600160a01b03166040830152606082015260800190565b600084825260606020830152615a2c6060830185614f9e565b905060018060a01b0383166040830152949350505050565b918252602082015260400190565b600085825284602083015260806040830152615a716080830185614f9e565b905060018060a01b038316606083015295945050505050565b9283526020830191909152604082015260600190565b9384526001600160a01b03928316602085015291166040830152606082015260800190565b9b8c5260208c019a909a5260408b01989098526001600160a01b039690961660608a0152608089019490945260a088019290925260c087015260e086015261010085015215156101208401526101408301526101608201526101800190565b60405181810167ffffffffffffffff81118282101715615b4057fe5b604052919050565b600067ffffffffffffffff821115615b5c57fe5b5060209081020190565b60005b83811015615b81578181015183820152602001615b69565b838111156123175750506000910152565b6003811061490357fe5b6001600160a01b038116811461490357600080fdfe456e756d657261626c655365743a20696e646578206f7574206f6620626f756e6473416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f206772616e743515f38d031dcbca5f1dac4c5afc1efca2020e42efdd9c5806ae7e963d18435a4552433732313a207472616e7366657220746f206e6f6e20455243373231526563656976657220696d706c656d656e7465724775696c644170703a2053656e64657220646f65736e2774206861766520612050617573657220726f6c654552433732313a207472616e7366657220746f20746865207a65726f20616464726573734552433732313a206f70657261746f7220717565727920666f72206e6f6e6578697374656e7420746f6b656e416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f207265766f6b654552433732313a20617070726f76652063616c6c6572206973206e6f74206f776e6572206e6f7220617070726f76656420666f7220616c6c4552433732313a2062616c616e636520717565727920666f7220746865207a65726f20616464726573734552433732313a206f776e657220717565727920666f72206e6f6e6578697374656e7420746f6b656e456e756d657261626c654d61703a20696e646578206f7574206f6620626f756e64734775696c644170703a2053656e64657220646f65736e277420686176652061205072696365204d616e6167657220726f6c65536166654d6174683a206d756c7469706c69636174696f6e206f766572666c6f774552433732313a20617070726f76656420717565727920666f72206e6f6e6578697374656e7420746f6b656e4552433732313a207472616e73666572206f6620746f6b656e2074686174206973206e6f74206f776e4552433732314d657461646174613a2055524920717565727920666f72206e6f6e6578697374656e7420746f6b656e4552433732313a20617070726f76616c20746f2063757272656e74206f776e65724775696c644170703a2053656e64657220646f65736e2774206861766520612054726561737572657220726f6c654552433732313a207472616e736665722063616c6c6572206973206e6f74206f776e6572206e6f7220617070726f7665644775696c644170703a2053656e64657220646f65736e277420686176652061204d6574616461746120456469746f7220726f6c654775696c644170703a2053656e64657220646f65736e2774206861766520616e2041646d696e20726f6c65416363657373436f6e74726f6c3a2063616e206f6e6c792072656e6f756e636520726f6c657320666f722073656c66a2646970667358221220443cb6142b67876144a2f9a9cc650a6020f5ae688aac9d4d7adcc638fdb1c20964736f6c63430007060033";
+
+export interface GuildAppExtensionLibraryAddresses {
+  ["__$32cef4f64e636500be99c33a0d18eaccc8$__"]: string;
+  ["__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__"]: string;
+}
@@ -9,15 +9,58 @@ import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
 import type { GuildApp } from "./GuildApp";
 
 export class GuildAppFactory extends ContractFactory {
-  constructor(signer?: Signer) {
-    super(_abi, _bytecode, signer);
+  constructor(linkLibraryAddresses: GuildAppLibraryAddresses, signer?: Signer) {
+    super(_abi, GuildAppFactory.linkBytecode(linkLibraryAddresses), signer);
   }
 
-  deploy(overrides?: Overrides): Promise<GuildApp> {
-    return super.deploy(overrides || {}) as Promise<GuildApp>;
+  static linkBytecode(linkLibraryAddresses: GuildAppLibraryAddresses): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$32cef4f64e636500be99c33a0d18eaccc8\\$__", "g"),
+      linkLibraryAddresses["__$32cef4f64e636500be99c33a0d18eaccc8$__"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$f989dde10ffb2e16f493e0f9c7e8ffd1bd\\$__", "g"),
+      linkLibraryAddresses["__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$173becb9e29ecfdfd3a85bafd10ca6e8d6\\$__", "g"),
+      linkLibraryAddresses["__$173becb9e29ecfdfd3a85bafd10ca6e8d6$__"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
   }
-  getDeployTransaction(overrides?: Overrides): TransactionRequest {
-    return super.getDeployTransaction(overrides || {});
+
+  deploy(
+    _extension: string,
+    _subscriptionExtension: string,
+    overrides?: Overrides
+  ): Promise<GuildApp> {
+    return super.deploy(
+      _extension,
+      _subscriptionExtension,
+      overrides || {}
+    ) as Promise<GuildApp>;
+  }
+  getDeployTransaction(
+    _extension: string,
+    _subscriptionExtension: string,
+    overrides?: Overrides
+  ): TransactionRequest {
+    return super.getDeployTransaction(
+      _extension,
+      _subscriptionExtension,
+      overrides || {}
+    );
   }
   attach(address: string): GuildApp {
     return super.attach(address) as GuildApp;
@@ -34,6 +77,41 @@ export class GuildAppFactory extends ContractFactory {
 }
 
 const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_extension",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_subscriptionExtension",
+        type: "address",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "_root",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_listCID",
+        type: "string",
+      },
+    ],
+    name: "AllowlistUpdated",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -84,6 +162,127 @@ const _abi = [
     name: "ApprovalForAll",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_payee",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+    ],
+    name: "Claimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_lastTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_totalTokens",
+        type: "uint256",
+      },
+    ],
+    name: "ClosingRefundsProcessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+    ],
+    name: "Distributed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_maxFreezeDuration",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_maxFreezes",
+        type: "uint256",
+      },
+    ],
+    name: "FreezePolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_gracePeriod",
+        type: "uint256",
+      },
+    ],
+    name: "GracePeriodUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "_enabled",
+        type: "bool",
+      },
+    ],
+    name: "GrandfatheredPricingUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_closedAt",
+        type: "uint256",
+      },
+    ],
+    name: "GuildClosed",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -143,6 +342,19 @@ const _abi = [
     name: "InitializedGuild",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_maxMembers",
+        type: "uint256",
+      },
+    ],
+    name: "MaxMembersUpdated",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -158,12 +370,30 @@ const _abi = [
         name: "_tokenId",
         type: "uint256",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
       {
         indexed: false,
         internalType: "uint256",
         name: "_value",
         type: "uint256",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fee",
+        type: "uint256",
+      },
       {
         indexed: false,
         internalType: "uint256",
@@ -193,116 +423,142 @@ const _abi = [
     name: "PausedGuild",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address[]",
+        name: "_payees",
+        type: "address[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "_shares",
+        type: "uint256[]",
+      },
+    ],
+    name: "PayeesUpdated",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
       {
         indexed: false,
         internalType: "address",
-        name: "_subscriber",
+        name: "_tokenAddress",
         type: "address",
       },
+    ],
+    name: "PaymentTokenAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
         indexed: false,
-        internalType: "uint256",
-        name: "_tokenId",
-        type: "uint256",
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
       },
+    ],
+    name: "PaymentTokenRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
       {
         indexed: false,
         internalType: "uint256",
-        name: "_value",
+        name: "_minPeriods",
         type: "uint256",
       },
       {
         indexed: false,
         internalType: "uint256",
-        name: "expiry",
+        name: "_discountBps",
         type: "uint256",
       },
-      {
-        indexed: false,
-        internalType: "bytes",
-        name: "_data",
-        type: "bytes",
-      },
     ],
-    name: "RenewSubscription",
+    name: "PeriodDiscountUpdated",
     type: "event",
   },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
       },
       {
-        indexed: true,
-        internalType: "bytes32",
-        name: "previousAdminRole",
-        type: "bytes32",
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
       },
       {
-        indexed: true,
-        internalType: "bytes32",
-        name: "newAdminRole",
-        type: "bytes32",
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
       },
     ],
-    name: "RoleAdminChanged",
+    name: "PriceLocked",
     type: "event",
   },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        indexed: false,
+        internalType: "address",
+        name: "_referrer",
+        type: "address",
       },
       {
-        indexed: true,
+        indexed: false,
+        internalType: "uint256",
+        name: "_referrerTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
         internalType: "address",
-        name: "account",
+        name: "_subscriber",
         type: "address",
       },
       {
-        indexed: true,
+        indexed: false,
         internalType: "address",
-        name: "sender",
+        name: "_tokenAddress",
         type: "address",
       },
-    ],
-    name: "RoleGranted",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
       {
-        indexed: true,
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        indexed: false,
+        internalType: "uint256",
+        name: "_reward",
+        type: "uint256",
       },
       {
-        indexed: true,
-        internalType: "address",
-        name: "account",
-        type: "address",
+        indexed: false,
+        internalType: "uint256",
+        name: "_bonusDuration",
+        type: "uint256",
       },
       {
-        indexed: true,
-        internalType: "address",
-        name: "sender",
-        type: "address",
+        indexed: false,
+        internalType: "uint256",
+        name: "_referrerExpiry",
+        type: "uint256",
       },
     ],
-    name: "RoleRevoked",
+    name: "ReferralCredited",
     type: "event",
   },
   {
@@ -310,43 +566,37 @@ const _abi = [
     inputs: [
       {
         indexed: false,
-        internalType: "address",
-        name: "_tokenAddress",
-        type: "address",
+        internalType: "uint256",
+        name: "_rewardBps",
+        type: "uint256",
       },
       {
         indexed: false,
         internalType: "uint256",
-        name: "_subPrice",
+        name: "_bonusDuration",
         type: "uint256",
       },
     ],
-    name: "SubscriptionPriceChanged",
+    name: "ReferralPolicyUpdated",
     type: "event",
   },
   {
     anonymous: false,
     inputs: [
       {
-        indexed: true,
-        internalType: "address",
-        name: "from",
-        type: "address",
-      },
-      {
-        indexed: true,
-        internalType: "address",
-        name: "to",
-        type: "address",
+        indexed: false,
+        internalType: "enum IGuild.RefundPolicy",
+        name: "_policy",
+        type: "uint8",
       },
       {
-        indexed: true,
+        indexed: false,
         internalType: "uint256",
-        name: "tokenId",
+        name: "_refundWindow",
         type: "uint256",
       },
     ],
-    name: "Transfer",
+    name: "RefundPolicyUpdated",
     type: "event",
   },
   {
@@ -358,246 +608,2172 @@ const _abi = [
         name: "_tokenId",
         type: "uint256",
       },
-    ],
-    name: "Unsubscribed",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
-      {
-        indexed: false,
-        internalType: "string",
-        name: "_metadataURI",
-        type: "string",
-      },
-    ],
-    name: "UpdatedMetadata",
-    type: "event",
-  },
-  {
-    anonymous: false,
-    inputs: [
       {
         indexed: false,
         internalType: "address",
-        name: "_tokenAddress",
+        name: "_subscriber",
         type: "address",
       },
       {
         indexed: false,
         internalType: "address",
-        name: "beneficiary",
+        name: "_tokenAddress",
         type: "address",
       },
       {
         indexed: false,
         internalType: "uint256",
-        name: "_amount",
+        name: "_value",
         type: "uint256",
       },
     ],
-    name: "Withdraw",
+    name: "Refunded",
     type: "event",
   },
   {
-    inputs: [],
-    name: "DEFAULT_ADMIN_ROLE",
-    outputs: [
-      {
-        internalType: "bytes32",
-        name: "",
-        type: "bytes32",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
+    anonymous: false,
     inputs: [
       {
+        indexed: false,
         internalType: "address",
-        name: "to",
+        name: "_subscriber",
         type: "address",
       },
       {
+        indexed: false,
         internalType: "uint256",
-        name: "tokenId",
+        name: "_tokenId",
         type: "uint256",
       },
-    ],
-    name: "approve",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "approvedTokens",
-    outputs: [
       {
-        internalType: "address[]",
-        name: "",
-        type: "address[]",
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
       {
+        indexed: false,
         internalType: "address",
-        name: "owner",
+        name: "_tokenAddress",
         type: "address",
       },
-    ],
-    name: "balanceOf",
-    outputs: [
       {
+        indexed: false,
         internalType: "uint256",
-        name: "",
+        name: "_value",
         type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "baseURI",
-    outputs: [
       {
-        internalType: "string",
-        name: "",
-        type: "string",
+        indexed: false,
+        internalType: "uint256",
+        name: "_fee",
+        type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
       {
+        indexed: false,
         internalType: "uint256",
-        name: "tokenId",
+        name: "expiry",
         type: "uint256",
       },
-    ],
-    name: "getApproved",
-    outputs: [
       {
-        internalType: "address",
-        name: "",
-        type: "address",
+        indexed: false,
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "RenewSubscription",
+    type: "event",
   },
   {
-    inputs: [],
-    name: "getMetadata",
-    outputs: [
+    anonymous: false,
+    inputs: [
       {
-        internalType: "string",
-        name: "",
-        type: "string",
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "_reason",
+        type: "bytes",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "RenewalFailed",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: true,
         internalType: "bytes32",
         name: "role",
         type: "bytes32",
       },
-    ],
-    name: "getRoleAdmin",
-    outputs: [
       {
+        indexed: true,
         internalType: "bytes32",
-        name: "",
+        name: "previousAdminRole",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "newAdminRole",
         type: "bytes32",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "RoleAdminChanged",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: true,
         internalType: "bytes32",
         name: "role",
         type: "bytes32",
       },
       {
-        internalType: "uint256",
-        name: "index",
-        type: "uint256",
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
       },
-    ],
-    name: "getRoleMember",
-    outputs: [
       {
+        indexed: true,
         internalType: "address",
-        name: "",
+        name: "sender",
         type: "address",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "RoleGranted",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
       {
+        indexed: true,
         internalType: "bytes32",
         name: "role",
         type: "bytes32",
       },
-    ],
-    name: "getRoleMemberCount",
-    outputs: [
-      {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
-      },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
       {
+        indexed: true,
         internalType: "address",
-        name: "_account",
+        name: "account",
         type: "address",
       },
-    ],
-    name: "getSubscriptionExpiryFor",
-    outputs: [
       {
-        internalType: "uint256",
-        name: "",
-        type: "uint256",
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
       },
     ],
-    stateMutability: "view",
-    type: "function",
+    name: "RoleRevoked",
+    type: "event",
   },
   {
+    anonymous: false,
     inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "SeatReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_remaining",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_resumeAt",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionFrozen",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_payer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_messageCID",
+        type: "string",
+      },
+    ],
+    name: "SubscriptionGifted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_subPrice",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionPriceChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+    ],
+    name: "SubscriptionTransferApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_expirationTimestamp",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionUnfrozen",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_period",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_cap",
+        type: "uint256",
+      },
+    ],
+    name: "TierUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tipper",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_messageCID",
+        type: "string",
+      },
+    ],
+    name: "Tipped",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "TokenPriceUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum IGuild.TransferPolicy",
+        name: "_policy",
+        type: "uint8",
+      },
+    ],
+    name: "TransferPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Unsubscribed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_metadataURI",
+        type: "string",
+      },
+    ],
+    name: "UpdatedMetadata",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_template",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "_voucher",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_cost",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherRedeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "WaitlistJoined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "beneficiary",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdraw",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "METADATA_EDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PRICE_MANAGER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RENEWAL_WINDOW",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TREASURER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "acceptedTokens",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    name: "addPaymentToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "addTier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "allowlistRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "approveSubscriptionTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "approvedTokens",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "approvedTransfers",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "baseURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "claim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "claimClosingRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "claimable",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closeGuild",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "closingRefund",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "discountBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "discountMinPeriods",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "distribute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "extension",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "factory",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "freezeSubscription",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMetadata",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleAdmin",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getRoleMember",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "getSubscriptionExpiryFor",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "getSubscriptionIdFor",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "getSubscriptionTierFor",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "getTier",
+    outputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "period",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "cap",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IGuild.Tier",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "getTierPrice",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "giftSubscription",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "gracePeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "grandfatheredPricing",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "guildBalance",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "hasActiveSubscription",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_creator",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "period",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "cap",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IGuild.Tier[]",
+        name: "_guildTiers",
+        type: "tuple[]",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "symbol",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "baseURI",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "metadataCID",
+            type: "string",
+          },
+        ],
+        internalType: "struct IGuild.GuildMetadata",
+        name: "_metadata",
+        type: "tuple",
+      },
+      {
+        internalType: "address",
+        name: "allowanceModule",
+        type: "address",
+      },
+      {
+        internalType: "enum IGuild.TransferPolicy",
+        name: "_transferPolicy",
+        type: "uint8",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "initialized",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_holder",
+        type: "address",
+      },
+    ],
+    name: "isSubscriptionOwner",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "joinWaitlist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxFreezeDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxFreezes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxMembers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "metadataCID",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    name: "pauseGuild",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "payees",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "processClosingRefunds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "referralBonusDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "referralRewardBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "referrerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "refundPolicy",
+    outputs: [
+      {
+        internalType: "enum IGuild.RefundPolicy",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "refundWindow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "refundableAmount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "releaseSeat",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "remainingSeats",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "removePaymentToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "renew",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    name: "renewBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_safe",
+        type: "address",
+      },
+      {
+        components: [
+          {
+            internalType: "bytes4",
+            name: "entryPoint",
+            type: "bytes4",
+          },
+          {
+            internalType: "uint256",
+            name: "tierId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "tokenAddress",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "periods",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "referrer",
+            type: "address",
+          },
+        ],
+        internalType: "struct IGuild.SafeSubscription",
+        name: "_terms",
+        type: "tuple",
+      },
+    ],
+    name: "safeSubscriptionHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "setAllowlist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "setFreezePolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "setGracePeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    name: "setGrandfatheredPricing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxMembers",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    name: "setMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "",
+        type: "uint256[]",
+      },
+    ],
+    name: "setPayees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "setPeriodDiscount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "setReferralPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum IGuild.RefundPolicy",
+        name: "",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "setRefundPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
       {
         internalType: "address",
-        name: "_account",
+        name: "",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
     ],
-    name: "getSubscriptionIdFor",
+    name: "setTokenPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "shares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "subPrice",
     outputs: [
       {
         internalType: "uint256",
@@ -611,396 +2787,488 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
       {
         internalType: "address",
-        name: "account",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "subscribe",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "subscribeForPeriods",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "daiStyle",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+          {
+            internalType: "uint8",
+            name: "v",
+            type: "uint8",
+          },
+          {
+            internalType: "bytes32",
+            name: "r",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "s",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct IGuild.Permit",
+        name: "",
+        type: "tuple",
+      },
+    ],
+    name: "subscribeWithPermit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "",
+        type: "bytes32[]",
+      },
     ],
-    name: "grantRole",
+    name: "subscribeWithProof",
     outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "payable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "_tokenAddress",
+        name: "",
         type: "address",
       },
-    ],
-    name: "guildBalance",
-    outputs: [
       {
         internalType: "uint256",
         name: "",
         type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
       {
         internalType: "address",
-        name: "_account",
+        name: "",
         type: "address",
       },
-    ],
-    name: "hasActiveSubscription",
-    outputs: [
       {
-        internalType: "bool",
+        internalType: "uint256",
         name: "",
-        type: "bool",
+        type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
       {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
       {
-        internalType: "address",
-        name: "account",
-        type: "address",
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
       },
-    ],
-    name: "hasRole",
-    outputs: [
       {
-        internalType: "bool",
+        internalType: "address",
         name: "",
-        type: "bool",
+        type: "address",
       },
     ],
-    stateMutability: "view",
+    name: "subscribeWithReferrer",
+    outputs: [],
+    stateMutability: "payable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "_creator",
+        name: "",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
       {
         internalType: "address",
-        name: "_tokenAddress",
+        name: "",
         type: "address",
       },
       {
         internalType: "uint256",
-        name: "_subPrice",
+        name: "",
         type: "uint256",
       },
       {
         internalType: "uint256",
-        name: "_subscriptionPeriod",
+        name: "",
         type: "uint256",
       },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
       {
         components: [
           {
-            internalType: "string",
-            name: "name",
-            type: "string",
+            internalType: "uint256",
+            name: "tierId",
+            type: "uint256",
           },
           {
-            internalType: "string",
-            name: "symbol",
-            type: "string",
+            internalType: "uint256",
+            name: "discountBps",
+            type: "uint256",
           },
           {
-            internalType: "string",
-            name: "baseURI",
-            type: "string",
+            internalType: "address",
+            name: "tokenAddress",
+            type: "address",
           },
           {
-            internalType: "string",
-            name: "metadataCID",
-            type: "string",
+            internalType: "uint256",
+            name: "fixedPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxUses",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiry",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "recipient",
+            type: "address",
+          },
+          {
+            internalType: "bytes32",
+            name: "salt",
+            type: "bytes32",
           },
         ],
-        internalType: "struct IGuild.GuildMetadata",
-        name: "_metadata",
+        internalType: "struct IGuild.Voucher",
+        name: "",
         type: "tuple",
       },
       {
-        internalType: "address",
-        name: "allowanceModule",
-        type: "address",
-      },
-    ],
-    name: "initialize",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "initialized",
-    outputs: [
-      {
-        internalType: "bool",
+        internalType: "bytes",
         name: "",
-        type: "bool",
+        type: "bytes",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "isActive",
-    outputs: [
       {
-        internalType: "bool",
+        internalType: "bytes32[]",
         name: "",
-        type: "bool",
+        type: "bytes32[]",
       },
     ],
-    stateMutability: "view",
+    name: "subscribeWithVoucher",
+    outputs: [],
+    stateMutability: "payable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "owner",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "operator",
+        name: "",
         type: "address",
       },
     ],
-    name: "isApprovedForAll",
+    name: "subscriptionByOwner",
     outputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
       {
         internalType: "uint256",
-        name: "_tokenId",
+        name: "expirationTimestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "tierId",
         type: "uint256",
       },
       {
         internalType: "address",
-        name: "_holder",
+        name: "paymentToken",
         type: "address",
       },
-    ],
-    name: "isSubscriptionOwner",
-    outputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "uint256",
+        name: "paidValue",
+        type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "metadataCID",
-    outputs: [
       {
-        internalType: "string",
-        name: "",
-        type: "string",
+        internalType: "uint256",
+        name: "paidFrom",
+        type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "name",
-    outputs: [
       {
-        internalType: "string",
-        name: "",
-        type: "string",
+        internalType: "uint256",
+        name: "lockedPrice",
+        type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "frozenAt",
         type: "uint256",
       },
-    ],
-    name: "ownerOf",
-    outputs: [
       {
-        internalType: "address",
-        name: "",
-        type: "address",
+        internalType: "uint256",
+        name: "freezes",
+        type: "uint256",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
       {
         internalType: "bool",
-        name: "pause",
+        name: "seatReleased",
         type: "bool",
       },
-    ],
-    name: "pauseGuild",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
       {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
+        internalType: "uint256",
+        name: "bonusTime",
+        type: "uint256",
       },
       {
-        internalType: "address",
-        name: "account",
-        type: "address",
+        internalType: "uint256",
+        name: "resumeAt",
+        type: "uint256",
       },
     ],
-    name: "renounceRole",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "bytes32",
-        name: "role",
-        type: "bytes32",
-      },
-      {
-        internalType: "address",
-        name: "account",
-        type: "address",
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
       },
-    ],
-    name: "revokeRole",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
       {
         internalType: "address",
-        name: "from",
+        name: "_tokenAddress",
         type: "address",
       },
       {
-        internalType: "address",
-        name: "to",
-        type: "address",
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
       },
+    ],
+    name: "subscriptionCost",
+    outputs: [
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "",
         type: "uint256",
       },
     ],
-    name: "safeTransferFrom",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "from",
+        name: "_subscriber",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
       {
         internalType: "address",
-        name: "to",
+        name: "_tokenAddress",
         type: "address",
       },
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "_periods",
         type: "uint256",
       },
+    ],
+    name: "subscriptionCostFor",
+    outputs: [
       {
-        internalType: "bytes",
-        name: "_data",
-        type: "bytes",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
     ],
-    name: "safeTransferFrom",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [
+    inputs: [],
+    name: "subscriptionExtension",
+    outputs: [
       {
         internalType: "address",
-        name: "operator",
+        name: "",
         type: "address",
       },
-      {
-        internalType: "bool",
-        name: "approved",
-        type: "bool",
-      },
-    ],
-    name: "setApprovalForAll",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
-      {
-        internalType: "string",
-        name: "_metadataCID",
-        type: "string",
-      },
     ],
-    name: "setMetadata",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [],
-    name: "subPrice",
+    name: "subscriptionPeriod",
     outputs: [
       {
         internalType: "uint256",
@@ -1015,49 +3283,48 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "_subscriber",
+        name: "_account",
         type: "address",
       },
+    ],
+    name: "subscriptionStatus",
+    outputs: [
       {
-        internalType: "string",
-        name: "_tokenURI",
-        type: "string",
-      },
-      {
-        internalType: "uint256",
-        name: "_value",
-        type: "uint256",
-      },
-      {
-        internalType: "bytes",
-        name: "_data",
-        type: "bytes",
+        internalType: "enum IGuild.SubscriptionStatus",
+        name: "",
+        type: "uint8",
       },
     ],
-    name: "subscribe",
-    outputs: [],
-    stateMutability: "payable",
+    stateMutability: "view",
     type: "function",
   },
   {
     inputs: [
       {
-        internalType: "address",
-        name: "",
-        type: "address",
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
       },
     ],
-    name: "subscriptionByOwner",
+    name: "supportsInterface",
     outputs: [
       {
-        internalType: "uint256",
-        name: "tokenId",
-        type: "uint256",
+        internalType: "bool",
+        name: "",
+        type: "bool",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
       {
-        internalType: "uint256",
-        name: "expirationTimestamp",
-        type: "uint256",
+        internalType: "string",
+        name: "",
+        type: "string",
       },
     ],
     stateMutability: "view",
@@ -1065,7 +3332,7 @@ const _abi = [
   },
   {
     inputs: [],
-    name: "subscriptionPeriod",
+    name: "templateVersion",
     outputs: [
       {
         internalType: "uint256",
@@ -1079,33 +3346,43 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "bytes4",
-        name: "interfaceId",
-        type: "bytes4",
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
       },
     ],
-    name: "supportsInterface",
+    name: "tierMembers",
     outputs: [
       {
-        internalType: "bool",
+        internalType: "uint256",
         name: "",
-        type: "bool",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
     type: "function",
   },
   {
-    inputs: [],
-    name: "symbol",
-    outputs: [
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
       {
         internalType: "string",
         name: "",
         type: "string",
       },
     ],
-    stateMutability: "view",
+    name: "tip",
+    outputs: [],
+    stateMutability: "payable",
     type: "function",
   },
   {
@@ -1168,7 +3445,7 @@ const _abi = [
     inputs: [
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "_tokenId",
         type: "uint256",
       },
     ],
@@ -1183,6 +3460,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "totalShares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "totalSupply",
@@ -1196,6 +3486,19 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "totalTiers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -1219,11 +3522,37 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "transferPolicy",
+    outputs: [
+      {
+        internalType: "enum IGuild.TransferPolicy",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
         internalType: "uint256",
-        name: "_tokenId",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "unfreezeSubscription",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
         type: "uint256",
       },
     ],
@@ -1236,12 +3565,12 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "_tokenAddress",
+        name: "",
         type: "address",
       },
       {
         internalType: "uint256",
-        name: "_newSubPrice",
+        name: "",
         type: "uint256",
       },
     ],
@@ -1250,21 +3579,86 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "updateTier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "upgradeToVersion",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "voucherRedemptions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
         internalType: "address",
-        name: "_tokenAddress",
+        name: "",
         type: "address",
       },
       {
         internalType: "uint256",
-        name: "_amount",
+        name: "",
         type: "uint256",
       },
       {
         internalType: "address",
-        name: "_beneficiary",
+        name: "",
         type: "address",
       },
     ],
@@ -1280,4 +3674,10 @@ const _abi = [
 ];
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b50614668806100206000396000f3fe6080604052600436106102815760003560e01c80637a5b4f591161014f578063ad0b27fb116100c1578063c87b56dd1161007a578063c87b56dd1461073d578063ca15c8731461075d578063ca93c83a1461077d578063d547741f146107ab578063e985e9c5146107cb578063f9dfaf5b146107eb57610288565b8063ad0b27fb14610688578063b5f2bd7e146106a8578063b88d4fde146106bd578063ba444dda146106dd578063bebe4a57146106fd578063c6939d831461071d57610288565b806395d89b411161011357806395d89b41146105e757806396c705e5146105fc5780639d76ea581461061e578063a217fddf14610633578063a22cb46514610648578063a49a1e7d1461066857610288565b80637a5b4f591461055257806381513f6e1461056757806388a7af08146105875780639010d07c146105a757806391d14854146105c757610288565b80632f2ff15d116101f35780634f6ccce7116101ac5780634f6ccce7146104a857806358871c46146104c85780636352211e146104dd57806369328dec146104fd5780636c0360eb1461051d57806370a082311461053257610288565b80632f2ff15d146103e85780632f745c591461040857806336568abe1461042857806342842e0e1461044857806342e9656a146104685780634857569e1461048857610288565b80631002fa02116102455780631002fa0214610356578063158ef93e1461036957806318160ddd1461037e57806322f3e2d41461039357806323b872dd146103a8578063248a9ca3146103c857610288565b806301ffc9a71461028d57806306fdde03146102c3578063081812fc146102e5578063095ea7b3146103125780630ca2822c1461033457610288565b3661028857005b600080fd5b34801561029957600080fd5b506102ad6102a8366004613aad565b61080b565b6040516102ba9190613de6565b60405180910390f35b3480156102cf57600080fd5b506102d861082e565b6040516102ba9190613dfa565b3480156102f157600080fd5b50610305610300366004613a52565b6108c5565b6040516102ba9190613c0c565b34801561031e57600080fd5b5061033261032d3660046139d4565b610927565b005b34801561034057600080fd5b506103496109fd565b6040516102ba9190613df1565b610332610364366004613965565b610a03565b34801561037557600080fd5b506102ad610d28565b34801561038a57600080fd5b50610349610d31565b34801561039f57600080fd5b506102ad610d42565b3480156103b457600080fd5b506103326103c3366004613782565b610d50565b3480156103d457600080fd5b506103496103e3366004613a52565b610da7565b3480156103f457600080fd5b50610332610403366004613a6a565b610dbc565b34801561041457600080fd5b506103496104233660046139d4565b610e23565b34801561043457600080fd5b50610332610443366004613a6a565b610e4e565b34801561045457600080fd5b50610332610463366004613782565b610eaf565b34801561047457600080fd5b506102ad610483366004613a6a565b610eca565b34801561049457600080fd5b506103326104a3366004613823565b610ef0565b3480156104b457600080fd5b506103496104c3366004613a52565b611008565b3480156104d457600080fd5b506102d861101e565b3480156104e957600080fd5b506103056104f8366004613a52565b6110ac565b34801561050957600080fd5b506103326105183660046139fd565b6110d4565b34801561052957600080fd5b506102d8611266565b34801561053e57600080fd5b5061034961054d366004613736565b6112c7565b34801561055e57600080fd5b506102d861132f565b34801561057357600080fd5b50610349610582366004613736565b611403565b34801561059357600080fd5b506103496105a2366004613736565b611421565b3480156105b357600080fd5b506103056105c2366004613a8c565b6114d4565b3480156105d357600080fd5b506102ad6105e2366004613a6a565b6114ec565b3480156105f357600080fd5b506102d8611504565b34801561060857600080fd5b50610611611565565b6040516102ba9190613d99565b34801561062a57600080fd5b50610305611607565b34801561063f57600080fd5b50610349611616565b34801561065457600080fd5b5061033261066336600461393c565b61161b565b34801561067457600080fd5b50610332610683366004613ad5565b611720565b34801561069457600080fd5b506103326106a3366004613a52565b6117c5565b3480156106b457600080fd5b50610349611873565b3480156106c957600080fd5b506103326106d83660046137bd565b611879565b3480156106e957600080fd5b506103326106f8366004613a38565b6118d1565b34801561070957600080fd5b506102ad610718366004613736565b611976565b34801561072957600080fd5b50610349610738366004613736565b611996565b34801561074957600080fd5b506102d8610758366004613a52565b6119b1565b34801561076957600080fd5b50610349610778366004613a52565b611c32565b34801561078957600080fd5b5061079d610798366004613736565b611c49565b6040516102ba929190614275565b3480156107b757600080fd5b506103326107c6366004613a6a565b611c62565b3480156107d757600080fd5b506102ad6107e6366004613750565b611cbb565b3480156107f757600080fd5b506103326108063660046139d4565b611ce9565b6001600160e01b0319811660009081526033602052604090205460ff165b919050565b606a8054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156108ba5780601f1061088f576101008083540402835291602001916108ba565b820191906000526020600020905b81548152906001019060200180831161089d57829003601f168201915b505050505090505b90565b60006108d082611da4565b61090b5760405162461bcd60e51b815260040180806020018281038252602c8152602001806144d8602c913960400191505060405180910390fd5b506000908152606860205260409020546001600160a01b031690565b6000610932826110ac565b9050806001600160a01b0316836001600160a01b031614156109855760405162461bcd60e51b81526004018080602001828103825260218152602001806145886021913960400191505060405180910390fd5b806001600160a01b0316610997611db1565b6001600160a01b031614806109b357506109b3816107e6611db1565b6109ee5760405162461bcd60e51b81526004018080602001828103825260388152602001806143fd6038913960400191505060405180910390fd5b6109f88383611db5565b505050565b60cd5481565b60c954610100900460ff16610a335760405162461bcd60e51b8152600401610a2a90613f06565b60405180910390fd5b8051610ac857610a41611db1565b6001600160a01b0316846001600160a01b031614610a715760405162461bcd60e51b8152600401610a2a90614182565b60cb546001600160a01b031615801590610a89575034155b80610aa7575060cb546001600160a01b0316158015610aa757508134145b610ac35760405162461bcd60e51b8152600401610a2a90613e98565b610ae6565b3415610ae65760405162461bcd60e51b8152600401610a2a90614218565b60cc54821015610b085760405162461bcd60e51b8152600401610a2a90613fe8565b6001600160a01b038416600090815260ce602052604090208054610bd55760d254610b34906001611e23565b60d2819055808255610b47908690611e7d565b8054610b7c9085610b5782611e97565b604051602001610b68929190613bd0565b604051602081830303815290604052611f72565b60cd54610b899042611e23565b6001820181905581546040517fe5a59d0ecc078607268d9b5ac6fcfc1eb4a61368d7953ea30187e03cfe5ef37a92610bc8928992909188918890613d66565b60405180910390a1610c4e565b42816001015410610bf85760405162461bcd60e51b8152600401610a2a90613e52565b60cd54610c06904290611e23565b6001820181905581546040517fecd0a1fd807be93cb1a3bcfade1d04b19e6a919349318f8a16fa5898afdbc09b92610c45928992909188918890613d66565b60405180910390a15b8151610c835760cb546001600160a01b031615610c7d5760cb54610c7d906001600160a01b0316863086611fd5565b50610d22565b60d1546001600160a01b0316610cab5760405162461bcd60e51b8152600401610a2a90614029565b60d15460cb5460405163228ab20d60e11b81526001600160a01b03928316928392634515641a92610ced928b92169030908a9060009081908490600401613c20565b600060405180830381600087803b158015610d0757600080fd5b505af1158015610d1b573d6000803e3d6000fd5b5050505050505b50505050565b60c95460ff1681565b6000610d3d606661202f565b905090565b60c954610100900460ff1681565b610d61610d5b611db1565b8261203a565b610d9c5760405162461bcd60e51b81526004018080602001828103825260318152602001806145a96031913960400191505060405180910390fd5b6109f88383836120de565b60009081526097602052604090206002015490565b600082815260976020526040902060020154610dda906105e2611db1565b610e155760405162461bcd60e51b815260040180806020018281038252602f8152602001806142f6602f913960400191505060405180910390fd5b610e1f828261222a565b5050565b6001600160a01b0382166000908152606560205260408120610e459083612293565b90505b92915050565b610e56611db1565b6001600160a01b0316816001600160a01b031614610ea55760405162461bcd60e51b815260040180806020018281038252602f815260200180614604602f913960400191505060405180910390fd5b610e1f828261229f565b6109f883838360405180602001604052806000815250611879565b6000816001600160a01b0316610edf846110ac565b6001600160a01b0316149392505050565b600054610100900460ff1680610f095750610f09612308565b80610f17575060005460ff16155b610f525760405162461bcd60e51b815260040180806020018281038252602e815260200180614488602e913960400191505060405180910390fd5b600054610100900460ff16158015610f7d576000805460ff1961ff0019909116610100171660011790555b610f85612319565b610f97836000015184602001516123cb565b610fae878460400151856060015189898988612488565b7ff0fe10bbf97ca1ba4b94c1adb155880339e8e75e602d0be877aa184cf51246418787878787604051610fe5959493929190613ca3565b60405180910390a18015610fff576000805461ff00191690555b50505050505050565b60008061101660668461267b565b509392505050565b60ca805460408051602060026001851615610100026000190190941693909304601f810184900484028201840190925281815292918301828280156110a45780601f10611079576101008083540402835291602001916110a4565b820191906000526020600020905b81548152906001019060200180831161108757829003601f168201915b505050505081565b6000610e488260405180606001604052806029815260200161445f6029913960669190612697565b6110e160006105e2611db1565b6110fd5760405162461bcd60e51b8152600401610a2a906141cd565b61110860cf846126ae565b6111245760405162461bcd60e51b8152600401610a2a90613e0d565b600061112f84611421565b90506000831180156111415750828110155b61115d5760405162461bcd60e51b8152600401610a2a90614079565b60006001600160a01b03831661117a57611175611db1565b61117c565b825b90507f9b1bfa7fa9ee420a16e124f794c35ac9f90472acc99140eb2f6447c714cad8eb8582866040516111b193929190613c7f565b60405180910390a16001600160a01b038516156111e1576111dc6001600160a01b03861682866126c3565b61125f565b6000816001600160a01b0316856040516111fa906108c2565b60006040518083038185875af1925050503d8060008114611237576040519150601f19603f3d011682016040523d82523d6000602084013e61123c565b606091505b505090508061125d5760405162461bcd60e51b8152600401610a2a906140c1565b505b5050505050565b606d8054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156108ba5780601f1061088f576101008083540402835291602001916108ba565b60006001600160a01b03821661130e5760405162461bcd60e51b815260040180806020018281038252602a815260200180614435602a913960400191505060405180910390fd5b6001600160a01b0382166000908152606560205260409020610e489061202f565b6060600061133b611266565b90508051600014156113da5760ca805460408051602060026001851615610100026000190190941693909304601f810184900484028201840190925281815292918301828280156113cd5780601f106113a2576101008083540402835291602001916113cd565b820191906000526020600020905b8154815290600101906020018083116113b057829003601f168201915b50505050509150506108c2565b8060ca6040516020016113ee929190613b4c565b60405160208183030381529060405291505090565b6001600160a01b0316600090815260ce602052604090206001015490565b600061142e60cf836126ae565b156114cc576001600160a01b038216156114c5576040516370a0823160e01b81526001600160a01b038316906370a082319061146e903090600401613c0c565b60206040518083038186803b15801561148657600080fd5b505afa15801561149a573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906114be9190613b08565b9050610829565b5047610829565b506000919050565b6000828152609760205260408120610e459083612293565b6000828152609760205260408120610e4590836126ae565b606b8054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156108ba5780601f1061088f576101008083540402835291602001916108ba565b6060600061157360cf61202f565b67ffffffffffffffff8111801561158957600080fd5b506040519080825280602002602001820160405280156115b3578160200160208202803683370190505b50905060005b6115c360cf61202f565b811015611601576115d560cf82612293565b8282815181106115e157fe5b6001600160a01b03909216602092830291909101909101526001016115b9565b50905090565b60cb546001600160a01b031681565b600081565b611623611db1565b6001600160a01b0316826001600160a01b03161415611689576040805162461bcd60e51b815260206004820152601960248201527f4552433732313a20617070726f766520746f2063616c6c657200000000000000604482015290519081900360640190fd5b8060696000611696611db1565b6001600160a01b03908116825260208083019390935260409182016000908120918716808252919093529120805460ff1916921515929092179091556116da611db1565b6001600160a01b03167f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c318360405180821515815260200191505060405180910390a35050565b61172d60006105e2611db1565b6117495760405162461bcd60e51b8152600401610a2a906141cd565b60c954610100900460ff166117705760405162461bcd60e51b8152600401610a2a90613f06565b80516117839060ca9060208401906135c9565b507fca030fe07743250f91f8aa21bd3663b4bf8dec23fa1190e2aef94dd1afcf7bf66117ad61132f565b6040516117ba9190613dfa565b60405180910390a150565b6117ce81611da4565b6117ea5760405162461bcd60e51b8152600401610a2a906140f8565b60006117f4611db1565b90506117ff826110ac565b6001600160a01b0316816001600160a01b03161461182f5760405162461bcd60e51b8152600401610a2a90613f93565b61183882612715565b7fb76f7b6b44867ac49b1c08f88d6199064db4caa56ecbd1cbfd67f44c0616200e826040516118679190613df1565b60405180910390a15050565b60cc5481565b61188a611884611db1565b8361203a565b6118c55760405162461bcd60e51b81526004018080602001828103825260318152602001806145a96031913960400191505060405180910390fd5b610d22848484846127e2565b6118de60006105e2611db1565b6118fa5760405162461bcd60e51b8152600401610a2a906141cd565b60c95460ff610100909104161515811515146119285760405162461bcd60e51b8152600401610a2a9061413d565b7f6b2deb1d0589684576772a76959fa048161c8f0e5d0f33f95f5aa9b3ac252f24816040516119579190613de6565b60405180910390a160c9805461ff001916911561010002919091179055565b6001600160a01b0316600090815260ce6020526040902060010154421090565b6001600160a01b0316600090815260ce602052604090205490565b60606119bc82611da4565b6119f75760405162461bcd60e51b815260040180806020018281038252602f815260200180614559602f913960400191505060405180910390fd5b6000828152606c602090815260408083208054825160026001831615610100026000190190921691909104601f810185900485028201850190935282815292909190830182828015611a8a5780601f10611a5f57610100808354040283529160200191611a8a565b820191906000526020600020905b815481529060010190602001808311611a6d57829003601f168201915b505050505090506000611a9b611266565b9050805160001415611aaf57509050610829565b815115611b705780826040516020018083805190602001908083835b60208310611aea5780518252601f199092019160209182019101611acb565b51815160209384036101000a600019018019909216911617905285519190930192850191508083835b60208310611b325780518252601f199092019160209182019101611b13565b6001836020036101000a0380198251168184511680821785525050505050509050019250505060405160208183030381529060405292505050610829565b80611b7a85611e97565b6040516020018083805190602001908083835b60208310611bac5780518252601f199092019160209182019101611b8d565b51815160209384036101000a600019018019909216911617905285519190930192850191508083835b60208310611bf45780518252601f199092019160209182019101611bd5565b6001836020036101000a0380198251168184511680821785525050505050509050019250505060405160208183030381529060405292505050919050565b6000818152609760205260408120610e489061202f565b60ce602052600090815260409020805460019091015482565b600082815260976020526040902060020154611c80906105e2611db1565b610ea55760405162461bcd60e51b81526004018080602001828103825260308152602001806143cd6030913960400191505060405180910390fd5b6001600160a01b03918216600090815260696020908152604080832093909416825291909152205460ff1690565b611cf660006105e2611db1565b611d125760405162461bcd60e51b8152600401610a2a906141cd565b60c954610100900460ff16611d395760405162461bcd60e51b8152600401610a2a90613f06565b60cb80546001600160a01b0319166001600160a01b038416179055611d5f60cf83612834565b5060cc81905560cb546040517fb615278182d549b7e1f4ef08385ecfaf277899905cb93aa6a47e1d6f0af100d291611867916001600160a01b03909116908490613d4d565b6000610e48606683612849565b3390565b600081815260686020526040902080546001600160a01b0319166001600160a01b0384169081179091558190611dea826110ac565b6001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45050565b600082820183811015610e45576040805162461bcd60e51b815260206004820152601b60248201527f536166654d6174683a206164646974696f6e206f766572666c6f770000000000604482015290519081900360640190fd5b610e1f828260405180602001604052806000815250612855565b606081611ebc57506040805180820190915260018152600360fc1b6020820152610829565b8160005b8115611ed457600101600a82049150611ec0565b60008167ffffffffffffffff81118015611eed57600080fd5b506040519080825280601f01601f191660200182016040528015611f18576020820181803683370190505b50859350905060001982015b8315611f6957600a840660300160f81b82828060019003935081518110611f4757fe5b60200101906001600160f81b031916908160001a905350600a84049350611f24565b50949350505050565b611f7b82611da4565b611fb65760405162461bcd60e51b815260040180806020018281038252602c815260200180614504602c913960400191505060405180910390fd5b6000828152606c6020908152604090912082516109f8928401906135c9565b604080516001600160a01b0380861660248301528416604482015260648082018490528251808303909101815260849091019091526020810180516001600160e01b03166323b872dd60e01b179052610d229085906128a7565b6000610e4882612958565b600061204582611da4565b6120805760405162461bcd60e51b815260040180806020018281038252602c8152602001806143a1602c913960400191505060405180910390fd5b600061208b836110ac565b9050806001600160a01b0316846001600160a01b031614806120c65750836001600160a01b03166120bb846108c5565b6001600160a01b0316145b806120d657506120d68185611cbb565b949350505050565b826001600160a01b03166120f1826110ac565b6001600160a01b0316146121365760405162461bcd60e51b81526004018080602001828103825260298152602001806145306029913960400191505060405180910390fd5b6001600160a01b03821661217b5760405162461bcd60e51b81526004018080602001828103825260248152602001806143576024913960400191505060405180910390fd5b61218683838361295c565b612191600082611db5565b6001600160a01b03831660009081526065602052604090206121b39082612a19565b506001600160a01b03821660009081526065602052604090206121d69082612a25565b506121e360668284612a31565b5080826001600160a01b0316846001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a4505050565b60008281526097602052604090206122429082612834565b15610e1f5761224f611db1565b6001600160a01b0316816001600160a01b0316837f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a45050565b6000610e458383612a47565b60008281526097602052604090206122b79082612aab565b15610e1f576122c4611db1565b6001600160a01b0316816001600160a01b0316837ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b60405160405180910390a45050565b600061231330612ac0565b15905090565b600054610100900460ff16806123325750612332612308565b80612340575060005460ff16155b61237b5760405162461bcd60e51b815260040180806020018281038252602e815260200180614488602e913960400191505060405180910390fd5b600054610100900460ff161580156123a6576000805460ff1961ff0019909116610100171660011790555b6123ae612ac6565b6123b6612ac6565b80156123c8576000805461ff00191690555b50565b600054610100900460ff16806123e457506123e4612308565b806123f2575060005460ff16155b61242d5760405162461bcd60e51b815260040180806020018281038252602e815260200180614488602e913960400191505060405180910390fd5b600054610100900460ff16158015612458576000805460ff1961ff0019909116610100171660011790555b612460612ac6565b612468612b66565b6124728383612c03565b80156109f8576000805461ff0019169055505050565b600054610100900460ff16806124a157506124a1612308565b806124af575060005460ff16155b6124ea5760405162461bcd60e51b815260040180806020018281038252602e815260200180614488602e913960400191505060405180910390fd5b600054610100900460ff16158015612515576000805460ff1961ff0019909116610100171660011790555b6001600160a01b03851615806125ae57506001600160a01b038516158015906125ae57506000856001600160a01b03166318160ddd6040518163ffffffff1660e01b815260040160206040518083038186803b15801561257457600080fd5b505afa158015612588573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906125ac9190613b08565b115b6125ca5760405162461bcd60e51b8152600401610a2a90613ecf565b60c9805461ff00191661010017905585516125ec9060ca9060208901906135c9565b5060cb80546001600160a01b0319166001600160a01b03871617905561261360cf86612834565b5060cc84905560cd83905561262787612ce8565b612632600089610e15565b600060d25560d180546001600160a01b0319166001600160a01b03841617905560c9805460ff191660011790558015612671576000805461ff00191690555b5050505050505050565b600080808061268a8686612cfb565b9097909650945050505050565b60006126a4848484612d76565b90505b9392505050565b6000610e45836001600160a01b038416612e40565b604080516001600160a01b038416602482015260448082018490528251808303909101815260649091019091526020810180516001600160e01b031663a9059cbb60e01b1790526109f89084906128a7565b6000612720826110ac565b905061272e8160008461295c565b612739600083611db5565b6000828152606c60205260409020546002600019610100600184161502019091160415612777576000828152606c6020526040812061277791613655565b6001600160a01b03811660009081526065602052604090206127999083612a19565b506127a5606683612e58565b5060405182906000906001600160a01b038416907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef908390a45050565b6127ed8484846120de565b6127f984848484612e64565b610d225760405162461bcd60e51b81526004018080602001828103825260328152602001806143256032913960400191505060405180910390fd5b6000610e45836001600160a01b038416612fcc565b6000610e458383612e40565b61285f8383613016565b61286c6000848484612e64565b6109f85760405162461bcd60e51b81526004018080602001828103825260328152602001806143256032913960400191505060405180910390fd5b60006128fc826040518060400160405280602081526020017f5361666545524332303a206c6f772d6c6576656c2063616c6c206661696c6564815250856001600160a01b03166131449092919063ffffffff16565b8051909150156109f85780806020019051602081101561291b57600080fd5b50516109f85760405162461bcd60e51b815260040180806020018281038252602a8152602001806145da602a913960400191505060405180910390fd5b5490565b6001600160a01b0383161580159061297c57506001600160a01b03821615155b156129e9576001600160a01b038216600090815260ce602052604090206001810154156129bb5760405162461bcd60e51b8152600401610a2a90613f3d565b6001600160a01b038416600090815260ce602052604081208054835560018082018054919094015581905590555b6001600160a01b0382166109f85750506001600160a01b0316600090815260ce6020526040812081815560010155565b6000610e458383613153565b6000610e458383612fcc565b60006126a484846001600160a01b038516613219565b81546000908210612a895760405162461bcd60e51b81526004018080602001828103825260228152602001806142d46022913960400191505060405180910390fd5b826000018281548110612a9857fe5b9060005260206000200154905092915050565b6000610e45836001600160a01b038416613153565b3b151590565b600054610100900460ff1680612adf5750612adf612308565b80612aed575060005460ff16155b612b285760405162461bcd60e51b815260040180806020018281038252602e815260200180614488602e913960400191505060405180910390fd5b600054610100900460ff161580156123b6576000805460ff1961ff00199091166101001716600117905580156123c8576000805461ff001916905550565b600054610100900460ff1680612b7f5750612b7f612308565b80612b8d575060005460ff16155b612bc85760405162461bcd60e51b815260040180806020018281038252602e815260200180614488602e913960400191505060405180910390fd5b600054610100900460ff16158015612bf3576000805460ff1961ff0019909116610100171660011790555b6123b66301ffc9a760e01b6132b0565b600054610100900460ff1680612c1c5750612c1c612308565b80612c2a575060005460ff16155b612c655760405162461bcd60e51b815260040180806020018281038252602e815260200180614488602e913960400191505060405180910390fd5b600054610100900460ff16158015612c90576000805460ff1961ff0019909116610100171660011790555b8251612ca390606a9060208601906135c9565b508151612cb790606b9060208501906135c9565b50612cc86380ac58cd60e01b6132b0565b612cd8635b5e139f60e01b6132b0565b61247263780e9d6360e01b6132b0565b8051610e1f90606d9060208401906135c9565b815460009081908310612d3f5760405162461bcd60e51b81526004018080602001828103825260228152602001806144b66022913960400191505060405180910390fd5b6000846000018481548110612d5057fe5b906000526020600020906002020190508060000154816001015492509250509250929050565b60008281526001840160205260408120548281612e115760405162461bcd60e51b81526004018080602001828103825283818151815260200191508051906020019080838360005b83811015612dd6578181015183820152602001612dbe565b50505050905090810190601f168015612e035780820380516001836020036101000a031916815260200191505b509250505060405180910390fd5b50846000016001820381548110612e2457fe5b9060005260206000209060020201600101549150509392505050565b60009081526001919091016020526040902054151590565b6000610e458383613334565b6000612e78846001600160a01b0316612ac0565b612e84575060016120d6565b6000612f92630a85bd0160e11b612e99611db1565b88878760405160240180856001600160a01b03168152602001846001600160a01b0316815260200183815260200180602001828103825283818151815260200191508051906020019080838360005b83811015612f00578181015183820152602001612ee8565b50505050905090810190601f168015612f2d5780820380516001836020036101000a031916815260200191505b5095505050505050604051602081830303815290604052906001600160e01b0319166020820180516001600160e01b038381831617835250505050604051806060016040528060328152602001614325603291396001600160a01b0388169190613144565b90506000818060200190516020811015612fab57600080fd5b50516001600160e01b031916630a85bd0160e11b1492505050949350505050565b6000612fd88383612e40565b61300e57508154600181810184556000848152602080822090930184905584548482528286019093526040902091909155610e48565b506000610e48565b6001600160a01b038216613071576040805162461bcd60e51b815260206004820181905260248201527f4552433732313a206d696e7420746f20746865207a65726f2061646472657373604482015290519081900360640190fd5b61307a81611da4565b156130cc576040805162461bcd60e51b815260206004820152601c60248201527f4552433732313a20746f6b656e20616c7265616479206d696e74656400000000604482015290519081900360640190fd5b6130d86000838361295c565b6001600160a01b03821660009081526065602052604090206130fa9082612a25565b5061310760668284612a31565b5060405181906001600160a01b038416906000907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef908290a45050565b60606126a48484600085613408565b6000818152600183016020526040812054801561320f578354600019808301919081019060009087908390811061318657fe5b90600052602060002001549050808760000184815481106131a357fe5b6000918252602080832090910192909255828152600189810190925260409020908401905586548790806131d357fe5b60019003818190600052602060002001600090559055866001016000878152602001908152602001600020600090556001945050505050610e48565b6000915050610e48565b60008281526001840160205260408120548061327e5750506040805180820182528381526020808201848152865460018181018955600089815284812095516002909302909501918255915190820155865486845281880190925292909120556126a7565b8285600001600183038154811061329157fe5b90600052602060002090600202016001018190555060009150506126a7565b6001600160e01b0319808216141561330f576040805162461bcd60e51b815260206004820152601c60248201527f4552433136353a20696e76616c696420696e7465726661636520696400000000604482015290519081900360640190fd5b6001600160e01b0319166000908152603360205260409020805460ff19166001179055565b6000818152600183016020526040812054801561320f578354600019808301919081019060009087908390811061336757fe5b906000526020600020906002020190508087600001848154811061338757fe5b6000918252602080832084546002909302019182556001938401549184019190915583548252898301905260409020908401905586548790806133c657fe5b6000828152602080822060026000199094019384020182815560019081018390559290935588815289820190925260408220919091559450610e489350505050565b6060824710156134495760405162461bcd60e51b815260040180806020018281038252602681526020018061437b6026913960400191505060405180910390fd5b61345285612ac0565b6134a3576040805162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e7472616374000000604482015290519081900360640190fd5b600080866001600160a01b031685876040518082805190602001908083835b602083106134e15780518252601f1990920191602091820191016134c2565b6001836020036101000a03801982511681845116808217855250505050505090500191505060006040518083038185875af1925050503d8060008114613543576040519150601f19603f3d011682016040523d82523d6000602084013e613548565b606091505b5091509150613558828286613563565b979650505050505050565b606083156135725750816126a7565b8251156135825782518084602001fd5b60405162461bcd60e51b8152602060048201818152845160248401528451859391928392604401919085019080838360008315612dd6578181015183820152602001612dbe565b828054600181600116156101000203166002900490600052602060002090601f0160209004810192826135ff5760008555613645565b82601f1061361857805160ff1916838001178555613645565b82800160010185558215613645579182015b8281111561364557825182559160200191906001019061362a565b50613651929150613695565b5090565b50805460018160011615610100020316600290046000825580601f1061367b57506123c8565b601f0160209004906000526020600020908101906123c891905b5b808211156136515760008155600101613696565b80356001600160a01b038116811461082957600080fd5b8035801515811461082957600080fd5b600082601f8301126136e1578081fd5b813567ffffffffffffffff8111156136f557fe5b613708601f8201601f1916602001614283565b81815284602083860101111561371c578283fd5b816020850160208301379081016020019190915292915050565b600060208284031215613747578081fd5b610e45826136aa565b60008060408385031215613762578081fd5b61376b836136aa565b9150613779602084016136aa565b90509250929050565b600080600060608486031215613796578081fd5b61379f846136aa565b92506137ad602085016136aa565b9150604084013590509250925092565b600080600080608085870312156137d2578081fd5b6137db856136aa565b93506137e9602086016136aa565b925060408501359150606085013567ffffffffffffffff81111561380b578182fd5b613817878288016136d1565b91505092959194509250565b60008060008060008060c0878903121561383b578182fd5b613844876136aa565b9550613852602088016136aa565b94506040870135935060608701359250608087013567ffffffffffffffff8082111561387c578384fd5b908801906080828b03121561388f578384fd5b6138996080614283565b8235828111156138a7578586fd5b6138b38c8286016136d1565b8252506020830135828111156138c7578586fd5b6138d38c8286016136d1565b6020830152506040830135828111156138ea578586fd5b6138f68c8286016136d1565b60408301525060608301358281111561390d578586fd5b6139198c8286016136d1565b606083015250935061393091505060a088016136aa565b90509295509295509295565b6000806040838503121561394e578182fd5b613957836136aa565b9150613779602084016136c1565b6000806000806080858703121561397a578384fd5b613983856136aa565b9350602085013567ffffffffffffffff8082111561399f578485fd5b6139ab888389016136d1565b94506040870135935060608701359150808211156139c7578283fd5b50613817878288016136d1565b600080604083850312156139e6578182fd5b6139ef836136aa565b946020939093013593505050565b600080600060608486031215613a11578283fd5b613a1a846136aa565b925060208401359150613a2f604085016136aa565b90509250925092565b600060208284031215613a49578081fd5b610e45826136c1565b600060208284031215613a63578081fd5b5035919050565b60008060408385031215613a7c578182fd5b82359150613779602084016136aa565b60008060408385031215613a9e578182fd5b50508035926020909101359150565b600060208284031215613abe578081fd5b81356001600160e01b031981168114610e45578182fd5b600060208284031215613ae6578081fd5b813567ffffffffffffffff811115613afc578182fd5b6120d6848285016136d1565b600060208284031215613b19578081fd5b5051919050565b60008151808452613b388160208601602086016142a7565b601f01601f19169290920160200192915050565b600083516020613b5f82858389016142a7565b845491840191839060018082168015613b7f5760018114613b9657613bc2565b60ff198316865260028304607f1686019350613bc2565b60028304898852858820885b82811015613bbb57815489820152908401908701613ba2565b5050860193505b509198975050505050505050565b60008351613be28184602088016142a7565b602360f81b9083019081528351613c008160018401602088016142a7565b01600101949350505050565b6001600160a01b0391909116815260200190565b6001600160a01b039788168152958716602087015293861660408601526bffffffffffffffffffffffff928316606086015290851660808501521660a083015290911660c082015261010060e082018190526000908201526101200190565b6001600160a01b039384168152919092166020820152604081019190915260600190565b6001600160a01b03868116825285166020820152604081018490526060810183905260a06080808301829052835191830152600090613ce6610120840182613b20565b90506020840151609f19808584030160c0860152613d048383613b20565b925060408601519150808584030160e0860152613d218383613b20565b925060608601519150808584030161010086015250613d408282613b20565b9998505050505050505050565b6001600160a01b03929092168252602082015260400190565b600060018060a01b038716825285602083015284604083015283606083015260a0608083015261355860a0830184613b20565b6020808252825182820181905260009190848201906040850190845b81811015613dda5783516001600160a01b031683529284019291840191600101613db5565b50909695505050505050565b901515815260200190565b90815260200190565b600060208252610e456020830184613b20565b60208082526025908201527f4775696c644170703a20546f6b656e20686173206e6f74206265656e206170706040820152641c9bdd995960da1b606082015260800190565b60208082526026908201527f4775696c644170703a207374696c6c20616e206163746976652073756273637260408201526534b83a34b7b760d11b606082015260800190565b6020808252601d908201527f4775696c644170703a20696e636f7272656374206d73672e76616c7565000000604082015260600190565b60208082526017908201527f4775696c644170703a20496e76616c696420746f6b656e000000000000000000604082015260600190565b6020808252601f908201527f4775696c644170703a20546865204775696c642069732064697361626c656400604082015260600190565b60208082526036908201527f4775696c644170703a20526563697069656e7420616c7265616479206861732060408201527530b71030b1ba34bb329039bab139b1b934b83a34b7b760511b606082015260800190565b60208082526035908201527f4775696c644170703a2043616c6c6572206973206e6f7420746865206f776e65604082015274391037b3103a34329039bab139b1b934b83a34b7b760591b606082015260800190565b60208082526021908201527f4775696c644170703a20496e73756666696369656e742076616c75652073656e6040820152601d60fa1b606082015260800190565b60208082526030908201527f4775696c644170703a204775696c6420646f6573206e6f7420737570706f727460408201526f205361666520416c6c6f77616e63657360801b606082015260800190565b60208082526028908201527f4775696c644170703a204e6f7420656e6f7567682062616c616e636520746f20604082015267776974686472617760c01b606082015260800190565b6020808252601e908201527f4775696c644170703a204661696c656420746f2073656e642045746865720000604082015260600190565b60208082526025908201527f4775696c644170703a20537562736372697074696f6e20646f6573206e6f7420604082015264195e1a5cdd60da1b606082015260800190565b60208082526025908201527f4775696c644170703a204775696c6420616c726561647920696e207468617420604082015264737461746560d81b606082015260800190565b6020808252602b908201527f4775696c644170703a206d73672e73656e646572206d7573742062652074686560408201526a1039bab139b1b934b132b960a91b606082015260800190565b6020808252602b908201527f4775696c644170703a2053656e64657220646f65736e2774206861766520616e60408201526a2041646d696e20726f6c6560a81b606082015260800190565b60208082526037908201527f4775696c644170703a204554482073686f756c64206265207472616e7366657260408201527f7265642076696120416c6c6f77616e63654d6f64756c65000000000000000000606082015260800190565b918252602082015260400190565b60405181810167ffffffffffffffff8111828210171561429f57fe5b604052919050565b60005b838110156142c25781810151838201526020016142aa565b83811115610d22575050600091015256fe456e756d657261626c655365743a20696e646578206f7574206f6620626f756e6473416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f206772616e744552433732313a207472616e7366657220746f206e6f6e20455243373231526563656976657220696d706c656d656e7465724552433732313a207472616e7366657220746f20746865207a65726f2061646472657373416464726573733a20696e73756666696369656e742062616c616e636520666f722063616c6c4552433732313a206f70657261746f7220717565727920666f72206e6f6e6578697374656e7420746f6b656e416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f207265766f6b654552433732313a20617070726f76652063616c6c6572206973206e6f74206f776e6572206e6f7220617070726f76656420666f7220616c6c4552433732313a2062616c616e636520717565727920666f7220746865207a65726f20616464726573734552433732313a206f776e657220717565727920666f72206e6f6e6578697374656e7420746f6b656e496e697469616c697a61626c653a20636f6e747261637420697320616c726561647920696e697469616c697a6564456e756d657261626c654d61703a20696e646578206f7574206f6620626f756e64734552433732313a20617070726f76656420717565727920666f72206e6f6e6578697374656e7420746f6b656e4552433732314d657461646174613a2055524920736574206f66206e6f6e6578697374656e7420746f6b656e4552433732313a207472616e73666572206f6620746f6b656e2074686174206973206e6f74206f776e4552433732314d657461646174613a2055524920717565727920666f72206e6f6e6578697374656e7420746f6b656e4552433732313a20617070726f76616c20746f2063757272656e74206f776e65724552433732313a207472616e736665722063616c6c6572206973206e6f74206f776e6572206e6f7220617070726f7665645361666545524332303a204552433230206f7065726174696f6e20646964206e6f742073756363656564416363657373436f6e74726f6c3a2063616e206f6e6c792072656e6f756e636520726f6c657320666f722073656c66a264697066735822122020e13e2123d6cf7c256ae717382dd8b2047ff06b887dce5ed5f1db186ba3e55c64736f6c63430007060033";
+  "0x60c06040523480156200001157600080fd5b506040516200611b3803806200611b833981016040819052620000349162000070565b6001600160601b0319606092831b8116608052911b1660a052620000a7565b80516001600160a01b03811681146200006b57600080fd5b919050565b6000806040838503121562000083578182fd5b6200008e8362000053565b91506200009e6020840162000053565b90509250929050565b60805160601c60a05160601c615fff6200011c6000398061143952806117ff5280611b6d5280611bc75280611e405280612160528061218752806123555280612399525080611376528061169252806117d8528061198c5280611bfb5280611d12528061224b52806127f15250615fff6000f3fe6080604052600436106107505760003560e01c806396291e43116103bc578063c6f642fb116101f2578063e3cdc04b11610118578063f49296df116100ab578063fb9d1f281161007a578063fb9d1f281461130b578063fbb07e2d14611086578063fe8c41ce14611319578063ff782b4f1461132e57610757565b8063f49296df146112bb578063f546ffa414610a31578063f6539e4a146112db578063f9dfaf5b146112f057610757565b8063e985e9c5116100e7578063e985e9c51461126b578063ec97d7131461128b578063f0a3a97c146112a6578063f2f659601461079257610757565b8063e3cdc04b1461122c578063e63ab1e914611241578063e6f2fa6214611256578063e855f8c91461079257610757565b8063d4570c1c11610190578063dce096651161015f578063dce09665146111dc578063dcebbd45146111fc578063ddca0ce614610a31578063e2c097831461121757610757565b8063d4570c1c14611173578063d547741f14611193578063d873453b146111b3578063dc532a2b146111c157610757565b8063ca93c83a116101cc578063ca93c83a146110e6578063cdd8946e1461111e578063ce7c2ac214611133578063d21cacdf1461115357610757565b8063c6f642fb14611086578063c87b56dd146110a6578063ca15c873146110c657610757565b8063b008c34e116102e2578063bf4386a011610275578063c44010b911610244578063c44010b91461101e578063c45a01551461103e578063c475abff14611053578063c6939d831461106657610757565b8063bf4386a014610fd4578063c01a93d214610fe9578063c0b2f52a14610792578063c2b758e11461100957610757565b8063ba444dda116102b1578063ba444dda14610bb5578063bcc7445f14610f74578063bd878ac114610f94578063bebe4a5714610fb457610757565b8063b008c34e14610f11578063b5f2bd7e14610f24578063b79e5ba414610f39578063b88d4fde14610f5457610757565b8063a06db7dc1161035a578063a49a1e7d11610329578063a49a1e7d14610ee1578063a512542114610b7a578063a9d435f314610efc578063ad0b27fb1461079257610757565b8063a06db7dc14610e77578063a1c5c87114610e8c578063a217fddf14610eac578063a22cb46514610ec157610757565b80639d508501116103965780639d50850114610e185780639d76ea5814610e385780639e471af014610e4d5780639ef27b0014610e6257610757565b806396291e4314610ddb57806396c705e514610dee5780639c9c666914610e0357610757565b80634e8086aa1161059157806373643527116104b757806381bd7b241161044a5780639010d07c116104195780639010d07c14610d8657806391d1485414610da65780639498623e1461079257806395d89b4114610dc657610757565b806381bd7b2414610d215780638672569a14610d3657806388a7af0814610d4b5780638ad821f314610d6b57610757565b80637a5b4f59116104865780637a5b4f5914610ccc5780637cab7082146107925780638130deb814610ce157806381513f6e14610d0157610757565b80637364352714610c6d5780637425ef2e14610c8257806375f4c05914610ca257806379eaaf6114610cb757610757565b80636352211e1161052f5780636c0360eb116104fe5780636c0360eb14610c035780636c1f563314610c1857806370a0823114610c2d5780637254ddad14610c4d57610757565b80636352211e14610b95578063638db37714610bb557806363ca4ebd14610bd057806369328dec14610be357610757565b806358871c461161056b57806358871c4614610b3d5780635c101e6614610b525780635c18dde314610b6757806363453ae114610b7a57610757565b80634e8086aa14610ace5780634f062c5a14610af05780634f6ccce714610b1d57610757565b80632615a2701161067657806331aab7591161061457806342842e0e116105e357806342842e0e14610a4c57806342e9656a14610a6c5780634835252614610a8c5780634e7dac1314610aae57610757565b806331aab759146109e757806336568abe146109fc5780633a98ef3914610a1c5780633f34191214610a3157610757565b80632d5537b0116106505780632d5537b01461097f5780632d5cf6c9146109945780632f2ff15d146109a75780632f745c59146109c757610757565b80632615a270146109245780632800c09d1461093f578063293f628f1461095f57610757565b806310cc191b116106ee57806322f3e2d4116106bd57806322f3e2d4146108cf57806323a162ed1461079257806323b872dd146108e4578063248a9ca31461090457610757565b806310cc191b14610865578063158ef93e1461088557806318160ddd1461089a57806321c0b342146108af57610757565b80630743ba401161072a5780630743ba40146107d6578063081812fc146107f6578063095ea7b3146108235780630ca2822c1461084357610757565b806301ffc9a71461075c5780630352c1491461079257806306fdde03146107b457610757565b3661075757005b600080fd5b34801561076857600080fd5b5061077c61077736600461543d565b61134e565b6040516107899190615890565b60405180910390f35b34801561079e57600080fd5b506107b26107ad36600461538c565b611371565b005b3480156107c057600080fd5b506107c961139d565b60405161078991906158b7565b3480156107e257600080fd5b506107b26107f136600461518e565b611434565b34801561080257600080fd5b5061081661081136600461538c565b611465565b6040516107899190615702565b34801561082f57600080fd5b506107b261083e366004614cdb565b6114c7565b34801561084f57600080fd5b5061085861159d565b604051610789919061589b565b34801561087157600080fd5b50610858610880366004614caf565b6115c7565b34801561089157600080fd5b5061077c611673565b3480156108a657600080fd5b5061085861167c565b3480156108bb57600080fd5b506107b26108ca3660046149aa565b61168d565b3480156108db57600080fd5b5061077c6116ba565b3480156108f057600080fd5b506107b26108ff366004614b6d565b6116c8565b34801561091057600080fd5b5061085861091f36600461538c565b61171f565b34801561093057600080fd5b506107b26108ca366004615457565b34801561094b57600080fd5b5061085861095a36600461538c565b611734565b34801561096b57600080fd5b5061085861097a36600461538c565b611746565b34801561098b57600080fd5b506108166117d6565b6107b26109a2366004614d47565b6117fa565b3480156109b357600080fd5b506107b26109c23660046153bc565b61182d565b3480156109d357600080fd5b506108586109e2366004614cdb565b611890565b3480156109f357600080fd5b506108586118b2565b348015610a0857600080fd5b506107b2610a173660046153bc565b6118d6565b348015610a2857600080fd5b50610858611937565b348015610a3d57600080fd5b506107b26108ca36600461541c565b348015610a5857600080fd5b506107b2610a67366004614b6d565b61193d565b348015610a7857600080fd5b5061077c610a873660046153bc565b611958565b348015610a9857600080fd5b50610aa161197e565b60405161078991906158a4565b348015610aba57600080fd5b506107b2610ac93660046155ef565b611987565b348015610ada57600080fd5b50610ae36119b0565b6040516107899190615843565b348015610afc57600080fd5b50610b10610b0b36600461538c565b611a11565b6040516107899190615b70565b348015610b2957600080fd5b50610858610b3836600461538c565b611ab4565b348015610b4957600080fd5b506107c9611aca565b348015610b5e57600080fd5b50610aa1611b58565b6107b2610b7536600461510b565b611b68565b348015610b8657600080fd5b506107b26107ad36600461498e565b348015610ba157600080fd5b50610816610bb036600461538c565b611b9a565b348015610bc157600080fd5b506107b26107ad366004615372565b6107b2610bde366004614f78565b611bc2565b348015610bef57600080fd5b506107b2610bfe366004614d06565b611bf6565b348015610c0f57600080fd5b506107c9611c1f565b348015610c2457600080fd5b50610858611c80565b348015610c3957600080fd5b50610858610c4836600461498e565b611c86565b348015610c5957600080fd5b50610858610c68366004614e9b565b611cee565b348015610c7957600080fd5b50610858611d07565b348015610c8e57600080fd5b506107b2610c9d3660046154a7565b611d0d565b348015610cae57600080fd5b50610858611d3d565b348015610cc357600080fd5b50610858611d43565b348015610cd857600080fd5b506107c9611d49565b348015610ced57600080fd5b50610858610cfc36600461498e565b611d53565b348015610d0d57600080fd5b50610858610d1c36600461498e565b611d71565b348015610d2d57600080fd5b50610858611d8f565b348015610d4257600080fd5b50610858611d99565b348015610d5757600080fd5b50610858610d6636600461498e565b611d9f565b348015610d7757600080fd5b506107b2610bfe366004614c29565b348015610d9257600080fd5b50610816610da136600461541c565b611daa565b348015610db257600080fd5b5061077c610dc13660046153bc565b611dc2565b348015610dd257600080fd5b506107c9611dda565b6107b2610de9366004615011565b611e3b565b348015610dfa57600080fd5b50610ae3611e72565b348015610e0f57600080fd5b50610858611f13565b348015610e2457600080fd5b50610858610e3336600461538c565b611f19565b348015610e4457600080fd5b50610816611f2b565b348015610e5957600080fd5b50610ae3611f3a565b348015610e6e57600080fd5b50610858611fc9565b348015610e8357600080fd5b50610858611fcf565b348015610e9857600080fd5b50610aa1610ea736600461498e565b611fd5565b348015610eb857600080fd5b50610858612054565b348015610ecd57600080fd5b506107b2610edc366004614c7b565b612059565b348015610eed57600080fd5b506107b26108ca366004615474565b348015610f0857600080fd5b5061081661215e565b6107b2610f1f3660046151e6565b612182565b348015610f3057600080fd5b506108586121b1565b348015610f4557600080fd5b506107b2610bfe3660046153e0565b348015610f6057600080fd5b506107b2610f6f366004614bad565b6121ee565b348015610f8057600080fd5b506107b2610f8f36600461527e565b612246565b348015610fa057600080fd5b50610858610faf3660046153bc565b61226f565b348015610fc057600080fd5b5061077c610fcf36600461498e565b6122ae565b348015610fe057600080fd5b506108586122cd565b348015610ff557600080fd5b5061085861100436600461538c565b6122d3565b34801561101557600080fd5b50610858612320565b34801561102a57600080fd5b5061081661103936600461538c565b612326565b34801561104a57600080fd5b50610816612341565b6107b261106136600461541c565b612350565b34801561107257600080fd5b5061085861108136600461498e565b612379565b34801561109257600080fd5b506107b26110a136600461538c565b612394565b3480156110b257600080fd5b506107c96110c136600461538c565b6123bd565b3480156110d257600080fd5b506108586110e136600461538c565b61256f565b3480156110f257600080fd5b5061110661110136600461498e565b612586565b6040516107899c9b9a99989796959493929190615bb6565b34801561112a57600080fd5b506108586125f3565b34801561113f57600080fd5b5061085861114e36600461498e565b6125f9565b34801561115f57600080fd5b5061081661116e36600461498e565b61260b565b34801561117f57600080fd5b5061085861118e3660046149aa565b612626565b34801561119f57600080fd5b506107b26111ae3660046153bc565b612643565b6107b26109a2366004614ee2565b3480156111cd57600080fd5b506107b26108ca3660046153bc565b3480156111e857600080fd5b506108586111f736600461538c565b61269c565b34801561120857600080fd5b506107b2610bfe3660046155c9565b34801561122357600080fd5b506108586126a7565b34801561123857600080fd5b5061077c6126ae565b34801561124d57600080fd5b506108586126b7565b34801561126257600080fd5b506108586126db565b34801561127757600080fd5b5061077c6112863660046149aa565b6126ff565b34801561129757600080fd5b506107b261106136600461523f565b3480156112b257600080fd5b5061085861272d565b3480156112c757600080fd5b506108586112d63660046155c9565b612751565b3480156112e757600080fd5b506107b26127ec565b3480156112fc57600080fd5b506107b26108ca366004614cdb565b6107b2610bde366004614deb565b34801561132557600080fd5b50610858612817565b34801561133a57600080fd5b506107b26113493660046149e2565b61281d565b6001600160e01b0319811660009081526033602052604090205460ff165b919050565b61139a7f00000000000000000000000000000000000000000000000000000000000000006128ec565b50565b606a8054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156114295780601f106113fe57610100808354040283529160200191611429565b820191906000526020600020905b81548152906001019060200180831161140c57829003601f168201915b505050505090505b90565b61145d7f00000000000000000000000000000000000000000000000000000000000000006128ec565b505050505050565b600061147082612910565b6114ab5760405162461bcd60e51b815260040180806020018281038252602c815260200180615ef4602c913960400191505060405180910390fd5b506000908152606860205260409020546001600160a01b031690565b60006114d282611b9a565b9050806001600160a01b0316836001600160a01b031614156115255760405162461bcd60e51b8152600401808060200182810382526021815260200180615f496021913960400191505060405180910390fd5b806001600160a01b031661153761291d565b6001600160a01b0316148061155357506115538161128661291d565b61158e5760405162461bcd60e51b8152600401808060200182810382526038815260200180615df86038913960400191505060405180910390fd5b6115988383612921565b505050565b600060cc6000016000815481106115b057fe5b906000526020600020906003020160010154905090565b6001600160a01b038216600090815260ea6020526040808220549051630ee6506d60e01b815273__$32cef4f64e636500be99c33a0d18eaccc8$__91630ee6506d9161161a9187918791906004016157c0565b60206040518083038186803b15801561163257600080fd5b505af4158015611646573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061166a91906153a4565b90505b92915050565b60c95460ff1690565b6000611688606661298f565b905090565b6116b67f00000000000000000000000000000000000000000000000000000000000000006128ec565b5050565b60c954610100900460ff1681565b6116d96116d361291d565b8261299a565b6117145760405162461bcd60e51b8152600401808060200182810382526031815260200180615f6a6031913960400191505060405180910390fd5b611598838383612a36565b60009081526097602052604090206002015490565b60e26020526000908152604090205481565b60e45460405163e26dffd760e01b815260009173__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9163e26dffd7916117869160cc918791600401615acd565b60206040518083038186803b15801561179e57600080fd5b505af41580156117b2573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061166d91906153a4565b7f000000000000000000000000000000000000000000000000000000000000000081565b6118237f00000000000000000000000000000000000000000000000000000000000000006128ec565b5050505050505050565b60008281526097602052604090206002015461184b90610dc161291d565b6118865760405162461bcd60e51b815260040180806020018281038252602f815260200180615cf1602f913960400191505060405180910390fd5b6116b68282612b82565b6001600160a01b038216600090815260656020526040812061166a9083612beb565b7f3515f38d031dcbca5f1dac4c5afc1efca2020e42efdd9c5806ae7e963d18435a81565b6118de61291d565b6001600160a01b0316816001600160a01b03161461192d5760405162461bcd60e51b815260040180806020018281038252602f815260200180615f9b602f913960400191505060405180910390fd5b6116b68282612bf7565b60dd5481565b611598838383604051806020016040528060008152506121ee565b6000816001600160a01b031661196d84611b9a565b6001600160a01b0316149392505050565b60d95460ff1681565b61145d7f00000000000000000000000000000000000000000000000000000000000000006128ec565b606060db80548060200260200160405190810160405280929190818152602001828054801561142957602002820191906000526020600020905b81546001600160a01b031681526001909101906020018083116119ea575050505050905090565b611a19614685565b60cb5460405163908f827960e01b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9163908f827991611a609160cc9187916001600160a01b031690600401615a8a565b60006040518083038186803b158015611a7857600080fd5b505af4158015611a8c573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f1916820160405261166d9190810190615530565b600080611ac2606684612c60565b509392505050565b60ca805460408051602060026001851615610100026000190190941693909304601f81018490048402820184019092528181529291830182828015611b505780601f10611b2557610100808354040283529160200191611b50565b820191906000526020600020905b815481529060010190602001808311611b3357829003601f168201915b505050505081565b60e054600160a01b900460ff1681565b611b917f00000000000000000000000000000000000000000000000000000000000000006128ec565b50505050505050565b600061166d82604051806060016040528060298152602001615e5a6029913960669190612c7e565b611beb7f00000000000000000000000000000000000000000000000000000000000000006128ec565b505050505050505050565b6115987f00000000000000000000000000000000000000000000000000000000000000006128ec565b606d8054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156114295780601f106113fe57610100808354040283529160200191611429565b60d25490565b60006001600160a01b038216611ccd5760405162461bcd60e51b815260040180806020018281038252602a815260200180615e30602a913960400191505060405180910390fd5b6001600160a01b038216600090815260656020526040902061166d9061298f565b6000611cfc85858585612c8b565b90505b949350505050565b60da5481565b611d367f00000000000000000000000000000000000000000000000000000000000000006128ec565b5050505050565b60ed5481565b60cc5490565b6060611688612e4c565b6001600160a01b0316600090815260d3602052604090206002015490565b6001600160a01b0316600090815260d3602052604090206001015490565b6000611688612f20565b60d15490565b600061166d82612f44565b600082815260976020526040812061166a9083612beb565b600082815260976020526040812061166a9083613038565b606b8054604080516020601f60026000196101006001881615020190951694909404938401819004810282018101909252828152606093909290918301828280156114295780601f106113fe57610100808354040283529160200191611429565b611e647f00000000000000000000000000000000000000000000000000000000000000006128ec565b505050505050505050505050565b60606000611e8060d461298f565b6001600160401b0381118015611e9557600080fd5b50604051908082528060200260200182016040528015611ebf578160200160208202803683370190505b50905060005b611ecf60d461298f565b811015611f0d57611ee160d482612beb565b828281518110611eed57fe5b6001600160a01b0390921660209283029190910190910152600101611ec5565b50905090565b60e35481565b600090815260ce602052604090205490565b60cb546001600160a01b031681565b6040516366da5e9360e01b815260609073__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__906366da5e9390611f759060cc9060040161589b565b60006040518083038186803b158015611f8d57600080fd5b505af4158015611fa1573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f1916820160405261168891908101906152da565b60e65481565b60d85481565b6001600160a01b038116600090815260d36020526040812060018101546007909101541561200757600091505061136c565b4281111561201957600191505061136c565b60008111801561203c57504261203a60d8548361304d90919063ffffffff16565b115b1561204b57600291505061136c565b50600092915050565b600081565b61206161291d565b6001600160a01b0316826001600160a01b031614156120c7576040805162461bcd60e51b815260206004820152601960248201527f4552433732313a20617070726f766520746f2063616c6c657200000000000000604482015290519081900360640190fd5b80606960006120d461291d565b6001600160a01b03908116825260208083019390935260409182016000908120918716808252919093529120805460ff19169215159290921790915561211861291d565b6001600160a01b03167f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c318360405180821515815260200191505060405180910390a35050565b7f000000000000000000000000000000000000000000000000000000000000000081565b6121ab7f00000000000000000000000000000000000000000000000000000000000000006128ec565b50505050565b60cb546001600160a01b031660009081527fcd565b10a72538d86f6d352f37ebc5dff31587960b12c0afe00fd03947a6932a602052604090205490565b6121ff6121f961291d565b8361299a565b61223a5760405162461bcd60e51b8152600401808060200182810382526031815260200180615f6a6031913960400191505060405180910390fd5b6121ab848484846130a7565b6121ab7f00000000000000000000000000000000000000000000000000000000000000006128ec565b6040516321bb13d360e11b815260009073__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063437627a69061161a9060cc9087908790600401615a8a565b6000806122ba83611fd5565b60028111156122c557fe5b141592915050565b60e45481565b60006122de82612910565b6122ea5750600061136c565b61166d8260d360006122fb86611b9a565b6001600160a01b039081168252602082019290925260400160002060030154166130f9565b60eb5481565b60e1602052600090815260409020546001600160a01b031681565b60e0546001600160a01b031681565b6116b67f00000000000000000000000000000000000000000000000000000000000000006128ec565b6001600160a01b0316600090815260d3602052604090205490565b61139a7f00000000000000000000000000000000000000000000000000000000000000006128ec565b606060006123ca83611b9a565b6001600160a01b038116600090815260d3602052604090819020815160c0810190925291925073__$173becb9e29ecfdfd3a85bafd10ca6e8d6$__90634a65dbeb908061241561139d565b8152602001612422611dda565b815260200187815260200160cc60000185600201548154811061244157fe5b6000918252602091829020600390910201805460408051601f60026000196101006001871615020190941693909304928301859004850281018501909152818152928301828280156124d45780601f106124a9576101008083540402835291602001916124d4565b820191906000526020600020905b8154815290600101906020018083116124b757829003601f168201915b50505050508152602001846001015481526020016124f186611fd5565b60028111156124fc57fe5b8152506040518263ffffffff1660e01b815260040161251b9190615ae3565b60006040518083038186803b15801561253357600080fd5b505af4158015612547573d6000803e3d6000fd5b505050506040513d6000823e601f3d908101601f19168201604052611cff91908101906154fe565b600081815260976020526040812061166d9061298f565b60d360205260009081526040902080546001820154600283015460038401546004850154600586015460068701546007880154600889015460098a0154600a8b0154600b909b0154999a989997986001600160a01b03909716979596949593949293919260ff909116918c565b60ee5481565b60dc6020526000908152604090205481565b60ef602052600090815260409020546001600160a01b031681565b60de60209081526000928352604080842090915290825290205481565b60008281526097602052604090206002015461266190610dc161291d565b61192d5760405162461bcd60e51b8152600401808060200182810382526030815260200180615dc86030913960400191505060405180910390fd5b600061166d82613152565b6201518081565b60e55460ff1681565b7f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a81565b7f83451201604d3a4d256ddd2d5af33f39d62710ad0a1aef34d36f5aa8cf91ed1d81565b6001600160a01b03918216600090815260696020908152604080832093909416825291909152205460ff1690565b7f3496e2e73c4d42b75d702e60d9e48102720b8691234415963a5a857b86425d0781565b60405163d05118ad60e01b815260009073__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063d05118ad906127929060cc90889088908890600401615aa9565b60206040518083038186803b1580156127aa57600080fd5b505af41580156127be573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906127e291906153a4565b90505b9392505050565b6128157f00000000000000000000000000000000000000000000000000000000000000006128ec565b565b60ec5481565b600054610100900460ff16806128365750612836613226565b80612844575060005460ff16155b61287f5760405162461bcd60e51b815260040180806020018281038252602e815260200180615e83602e913960400191505060405180910390fd5b600054610100900460ff161580156128aa576000805460ff1961ff0019909116610100171660011790555b6128b2613237565b6128c4846000015185602001516132e8565b6128d28785888887876133a5565b8015611b91576000805461ff001916905550505050505050565b3660008037600080366000845af43d6000803e80801561290b573d6000f35b3d6000fd5b600061166d6066836137c6565b3390565b600081815260686020526040902080546001600160a01b0319166001600160a01b038416908117909155819061295682611b9a565b6001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45050565b600061166d826137d2565b60006129a582612910565b6129e05760405162461bcd60e51b815260040180806020018281038252602c815260200180615d9c602c913960400191505060405180910390fd5b60006129eb83611b9a565b9050806001600160a01b0316846001600160a01b03161480612a265750836001600160a01b0316612a1b84611465565b6001600160a01b0316145b80611cff5750611cff81856126ff565b826001600160a01b0316612a4982611b9a565b6001600160a01b031614612a8e5760405162461bcd60e51b8152600401808060200182810382526029815260200180615f206029913960400191505060405180910390fd5b6001600160a01b038216612ad35760405162461bcd60e51b8152600401808060200182810382526024815260200180615d526024913960400191505060405180910390fd5b612ade8383836137d6565b612ae9600082612921565b6001600160a01b0383166000908152606560205260409020612b0b9082613b29565b506001600160a01b0382166000908152606560205260409020612b2e9082613b35565b50612b3b60668284613b41565b5080826001600160a01b0316846001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a4505050565b6000828152609760205260409020612b9a9082613b57565b156116b657612ba761291d565b6001600160a01b0316816001600160a01b0316837f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a45050565b600061166a8383613b6c565b6000828152609760205260409020612c0f9082613bd0565b156116b657612c1c61291d565b6001600160a01b0316816001600160a01b0316837ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b60405160405180910390a45050565b6000808080612c6f8686613be5565b909450925050505b9250929050565b60006127e2848484613c60565b60405163d05118ad60e01b815260009073__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063d05118ad90612ccc9060cc90889088908890600401615aa9565b60206040518083038186803b158015612ce457600080fd5b505af4158015612cf8573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612d1c91906153a4565b6001600160a01b038616600090815260d36020526040902060e5549192509060ff168015612d4e575060008160060154115b8015612d5d5750848160020154145b8015612d78575060038101546001600160a01b038581169116145b8015612d9b575042612d9960d854836001015461304d90919063ffffffff16565b115b15612e43576006810154604051631123866360e01b815260009173__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__91631123866391612de39160cc91908990600401615acd565b60206040518083038186803b158015612dfb57600080fd5b505af4158015612e0f573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612e3391906153a4565b905082811015612e41578092505b505b50949350505050565b60606000612e58611c1f565b9050805160001415612ef75760ca805460408051602060026001851615610100026000190190941693909304601f81018490048402820184019092528181529291830182828015612eea5780601f10612ebf57610100808354040283529160200191612eea565b820191906000526020600020905b815481529060010190602001808311612ecd57829003601f168201915b5050505050915050611431565b8060ca604051602001612f0b92919061567e565b60405160208183030381529060405291505090565b7e35d03d5b7ec8a5dc47a052514222f4cf7ee219e90726e32aa4974b03574c9c5490565b6000612f5160d483613038565b8015612f6a575060e6541580612f6a575060d75460f054145b156130305760006001600160a01b038316612f855747613001565b6040516370a0823160e01b81526001600160a01b038416906370a0823190612fb1903090600401615702565b60206040518083038186803b158015612fc957600080fd5b505afa158015612fdd573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061300191906153a4565b6001600160a01b038416600090815260df6020526040902054909150613028908290613d2a565b91505061136c565b506000919050565b600061166a836001600160a01b038416613d87565b60008282018381101561166a576040805162461bcd60e51b815260206004820152601b60248201527f536166654d6174683a206164646974696f6e206f766572666c6f770000000000604482015290519081900360640190fd5b6130b2848484612a36565b6130be84848484613d9f565b6121ab5760405162461bcd60e51b8152600401808060200182810382526032815260200180615d206032913960400191505060405180910390fd5b600082815260e760205260408120548061311757600091505061166d565b6001600160a01b038316600090815260e8602090815260408083205460e990925290912054611cff919061314c908490613f07565b90613f60565b60008060d3600061316285611b9a565b6001600160a01b03168152602081019190915260400160002060e6549091501561319057600091505061136c565b600160d95460ff1660028111156131a357fe5b14156131ba576131b38142613fc7565b91506131f7565b600260d95460ff1660028111156131cd57fe5b1480156131ea575060da5460058201546131e69161304d565b4211155b156131f757806004015491505b6003810154600090613211906001600160a01b0316612f44565b90508083111561321f578092505b5050919050565b60006132313061404f565b15905090565b600054610100900460ff16806132505750613250613226565b8061325e575060005460ff16155b6132995760405162461bcd60e51b815260040180806020018281038252602e815260200180615e83602e913960400191505060405180910390fd5b600054610100900460ff161580156132c4576000805460ff1961ff0019909116610100171660011790555b6132cc614055565b6132d4614055565b801561139a576000805461ff001916905550565b600054610100900460ff16806133015750613301613226565b8061330f575060005460ff16155b61334a5760405162461bcd60e51b815260040180806020018281038252602e815260200180615e83602e913960400191505060405180910390fd5b600054610100900460ff16158015613375576000805460ff1961ff0019909116610100171660011790555b61337d614055565b6133856140f5565b61338f8383614192565b8015611598576000805461ff0019169055505050565b600054610100900460ff16806133be57506133be613226565b806133cc575060005460ff16155b6134075760405162461bcd60e51b815260040180806020018281038252602e815260200180615e83602e913960400191505060405180910390fd5b600054610100900460ff16158015613432576000805460ff1961ff0019909116610100171660011790555b600084511161345c5760405162461bcd60e51b8152600401613453906158ca565b60405180910390fd5b7ff0fe10bbf97ca1ba4b94c1adb155880339e8e75e602d0be877aa184cf512464187868660008151811061348c57fe5b602002602001015160200151876000815181106134a557fe5b6020026020010151604001518a6040516134c3959493929190615716565b60405180910390a160c9805461ff001916610100179055606086015180516134f39160ca916020909101906146ad565b5060cb80546001600160a01b0319166001600160a01b03871617905561351a60d486613b57565b5060405163745d99bf60e11b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063e8bb337e906135559060cc908990600401615a08565b60006040518083038186803b15801561356d57600080fd5b505af4158015613581573d6000803e3d6000fd5b5050505060005b845181101561363b5760cc73__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__6337b7a4de90918784815181106135bb57fe5b6020026020010151896040518463ffffffff1660e01b81526004016135e293929190615a1f565b60206040518083038186803b1580156135fa57600080fd5b505af415801561360e573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061363291906153a4565b50600101613588565b506136498660400151614277565b613654600088611886565b61367e7f83451201604d3a4d256ddd2d5af33f39d62710ad0a1aef34d36f5aa8cf91ed1d88611886565b6136a87f3496e2e73c4d42b75d702e60d9e48102720b8691234415963a5a857b86425d0788611886565b6136d27f3515f38d031dcbca5f1dac4c5afc1efca2020e42efdd9c5806ae7e963d18435a88611886565b6136fc7f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a88611886565b600060d75560d680546001600160a01b0319166001600160a01b03851617905560e0805483919060ff60a01b1916600160a01b83600281111561373b57fe5b02179055507fe45c63f46f71a8b33fff50d51c2a920ad3b3bb99089d9769af6ac2b0454276698260405161376f91906158a4565b60405180910390a161377f61291d565b60e080546001600160a01b0319166001600160a01b039290921691909117905560c9805460ff191660011790558015611b91576000805461ff001916905550505050505050565b600061166a8383613d87565b5490565b6001600160a01b038316158015906137f657506001600160a01b03821615155b156139fa57600260e054600160a01b900460ff16600281111561381557fe5b14156138335760405162461bcd60e51b8152600401613453906159bc565b600160e054600160a01b900460ff16600281111561384d57fe5b14156138a957600081815260e160205260409020546001600160a01b0383811691161461388c5760405162461bcd60e51b815260040161345390615967565b600081815260e16020526040902080546001600160a01b03191690555b6001600160a01b038216600090815260d36020526040902060010154156138e25760405162461bcd60e51b815260040161345390615911565b6001600160a01b03808416600081815260d36020526040808220868516835290822081548155600180830180549183019190915560028084018054918401919091556003808501805491850180546001600160a01b031990811693909a169290921790915560048086018054918601919091556005808701805491870191909155600680880180549188019190915560078089018054918901919091556008808a018054918a01919091556009808b018054918b01805460ff909316151560ff19938416179055600a808d018054918d0191909155600b808e01805491909d01559d8d529a8c9055978b9055958a90558454909b16909355908790558690558590559584905594839055815490941690559081905590555b6001600160a01b038216611598576001600160a01b038316600090815260d3602052604090206009015460ff16613ab1576001600160a01b038316600090815260d36020526040908190206002015490516303093b1b60e21b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__91630c24ec6c91613a809160cc91600401615a7c565b60006040518083038186803b158015613a9857600080fd5b505af4158015613aac573d6000803e3d6000fd5b505050505b50506001600160a01b0316600090815260d36020526040812081815560018101829055600281018290556003810180546001600160a01b0319169055600481018290556005810182905560068101829055600781018290556008810182905560098101805460ff19169055600a8101829055600b0155565b600061166a838361428a565b600061166a8383614350565b60006127e284846001600160a01b03851661439a565b600061166a836001600160a01b038416614350565b81546000908210613bae5760405162461bcd60e51b8152600401808060200182810382526022815260200180615ccf6022913960400191505060405180910390fd5b826000018281548110613bbd57fe5b9060005260206000200154905092915050565b600061166a836001600160a01b03841661428a565b815460009081908310613c295760405162461bcd60e51b8152600401808060200182810382526022815260200180615eb16022913960400191505060405180910390fd5b6000846000018481548110613c3a57fe5b906000526020600020906002020190508060000154816001015492509250509250929050565b60008281526001840160205260408120548281613cfb5760405162461bcd60e51b81526004018080602001828103825283818151815260200191508051906020019080838360005b83811015613cc0578181015183820152602001613ca8565b50505050905090810190601f168015613ced5780820380516001836020036101000a031916815260200191505b509250505060405180910390fd5b50846000016001820381548110613d0e57fe5b9060005260206000209060020201600101549150509392505050565b600082821115613d81576040805162461bcd60e51b815260206004820152601e60248201527f536166654d6174683a207375627472616374696f6e206f766572666c6f770000604482015290519081900360640190fd5b50900390565b60009081526001919091016020526040902054151590565b6000613db3846001600160a01b031661404f565b613dbf57506001611cff565b6000613ecd630a85bd0160e11b613dd461291d565b88878760405160240180856001600160a01b03168152602001846001600160a01b0316815260200183815260200180602001828103825283818151815260200191508051906020019080838360005b83811015613e3b578181015183820152602001613e23565b50505050905090810190601f168015613e685780820380516001836020036101000a031916815260200191505b5095505050505050604051602081830303815290604052906001600160e01b0319166020820180516001600160e01b038381831617835250505050604051806060016040528060328152602001615d20603291396001600160a01b0388169190614431565b90506000818060200190516020811015613ee657600080fd5b50516001600160e01b031916630a85bd0160e11b1492505050949350505050565b600082613f165750600061166d565b82820282848281613f2357fe5b041461166a5760405162461bcd60e51b8152600401808060200182810382526021815260200180615ed36021913960400191505060405180910390fd5b6000808211613fb6576040805162461bcd60e51b815260206004820152601a60248201527f536166654d6174683a206469766973696f6e206279207a65726f000000000000604482015290519081900360640190fd5b818381613fbf57fe5b049392505050565b60008082846005015411613fdb5782613fe1565b83600501545b9050600061400085600a01548660010154613d2a90919063ffffffff16565b90508181116140145760009250505061166d565b61404661402e866005015483613d2a90919063ffffffff16565b61314c61403b8486613d2a565b600489015490613f07565b95945050505050565b3b151590565b600054610100900460ff168061406e575061406e613226565b8061407c575060005460ff16155b6140b75760405162461bcd60e51b815260040180806020018281038252602e815260200180615e83602e913960400191505060405180910390fd5b600054610100900460ff161580156132d4576000805460ff1961ff001990911661010017166001179055801561139a576000805461ff001916905550565b600054610100900460ff168061410e575061410e613226565b8061411c575060005460ff16155b6141575760405162461bcd60e51b815260040180806020018281038252602e815260200180615e83602e913960400191505060405180910390fd5b600054610100900460ff16158015614182576000805460ff1961ff0019909116610100171660011790555b6132d46301ffc9a760e01b614440565b600054610100900460ff16806141ab57506141ab613226565b806141b9575060005460ff16155b6141f45760405162461bcd60e51b815260040180806020018281038252602e815260200180615e83602e913960400191505060405180910390fd5b600054610100900460ff1615801561421f576000805460ff1961ff0019909116610100171660011790555b825161423290606a9060208601906146ad565b50815161424690606b9060208501906146ad565b506142576380ac58cd60e01b614440565b614267635b5e139f60e01b614440565b61338f63780e9d6360e01b614440565b80516116b690606d9060208401906146ad565b6000818152600183016020526040812054801561434657835460001980830191908101906000908790839081106142bd57fe5b90600052602060002001549050808760000184815481106142da57fe5b60009182526020808320909101929092558281526001898101909252604090209084019055865487908061430a57fe5b6001900381819060005260206000200160009055905586600101600087815260200190815260200160002060009055600194505050505061166d565b600091505061166d565b600061435c8383613d87565b6143925750815460018181018455600084815260208082209093018490558454848252828601909352604090209190915561166d565b50600061166d565b6000828152600184016020526040812054806143ff5750506040805180820182528381526020808201848152865460018181018955600089815284812095516002909302909501918255915190820155865486845281880190925292909120556127e5565b8285600001600183038154811061441257fe5b90600052602060002090600202016001018190555060009150506127e5565b60606127e284846000856144c4565b6001600160e01b0319808216141561449f576040805162461bcd60e51b815260206004820152601c60248201527f4552433136353a20696e76616c696420696e7465726661636520696400000000604482015290519081900360640190fd5b6001600160e01b0319166000908152603360205260409020805460ff19166001179055565b6060824710156145055760405162461bcd60e51b8152600401808060200182810382526026815260200180615d766026913960400191505060405180910390fd5b61450e8561404f565b61455f576040805162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e7472616374000000604482015290519081900360640190fd5b600080866001600160a01b031685876040518082805190602001908083835b6020831061459d5780518252601f19909201916020918201910161457e565b6001836020036101000a03801982511681845116808217855250505050505090500191505060006040518083038185875af1925050503d80600081146145ff576040519150601f19603f3d011682016040523d82523d6000602084013e614604565b606091505b509150915061461482828661461f565b979650505050505050565b6060831561462e5750816127e5565b82511561463e5782518084602001fd5b60405162461bcd60e51b8152602060048201818152845160248401528451859391928392604401919085019080838360008315613cc0578181015183820152602001613ca8565b6040518060800160405280606081526020016000815260200160008152602001600081525090565b828054600181600116156101000203166002900490600052602060002090601f0160209004810192826146e35760008555614729565b82601f106146fc57805160ff1916838001178555614729565b82800160010185558215614729579182015b8281111561472957825182559160200191906001019061470e565b50614735929150614739565b5090565b5b80821115614735576000815560010161473a565b600061476161475c84615c55565b615c15565b905082815283838301111561477557600080fd5b828260208301376000602084830101529392505050565b803561136c81615cac565b60008083601f8401126147a8578182fd5b5081356001600160401b038111156147be578182fd5b6020830191508360208083028501011115612c7757600080fd5b8035801515811461136c57600080fd5b80356001600160e01b03198116811461136c57600080fd5b60008083601f840112614811578182fd5b5081356001600160401b03811115614827578182fd5b602083019150836020828501011115612c7757600080fd5b803561136c81615cc1565b600082601f83011261485a578081fd5b61166a8383356020850161474e565b600082601f830112614879578081fd5b815161488761475c82615c55565b81815284602083860101111561489b578283fd5b611cff826020830160208701615c76565b6000608082840312156148bd578081fd5b6148c76080615c15565b905081356001600160401b03808211156148e057600080fd5b6148ec8583860161484a565b8352602084013591508082111561490257600080fd5b61490e8583860161484a565b6020840152604084013591508082111561492757600080fd5b6149338583860161484a565b6040840152606084013591508082111561494c57600080fd5b506149598482850161484a565b60608301525092915050565b600060c08284031215614976578081fd5b50919050565b60006101008284031215614976578081fd5b60006020828403121561499f578081fd5b813561166a81615cac565b600080604083850312156149bc578081fd5b82356149c781615cac565b915060208301356149d781615cac565b809150509250929050565b60008060008060008060c087890312156149fa578182fd5b614a048735615cac565b86359550614a156020880135615cac565b602087013594506001600160401b0360408801351115614a33578182fd5b6040870135870188601f820112614a48578283fd5b614a5561475c8235615c38565b81358152602080820191908301855b8435811015614b16576080823586018e03601f19011215614a83578687fd5b6040518060808201106001600160401b0360808301111715614aa157fe5b608081016040526001600160401b0360208435880101351115614ac2578788fd5b614ad78e60208535890181810135010161484a565b81528235860160408181013560208085019190915260608084013592850192909252608090920135908301529085529384019390910190600101614a64565b50508096505050506001600160401b0360608801351115614b35578182fd5b614b4588606089013589016148ac565b9250614b536080880161478c565b9150614b6160a0880161483f565b90509295509295509295565b600080600060608486031215614b81578081fd5b8335614b8c81615cac565b92506020840135614b9c81615cac565b929592945050506040919091013590565b60008060008060808587031215614bc2578182fd5b8435614bcd81615cac565b93506020850135614bdd81615cac565b92506040850135915060608501356001600160401b03811115614bfe578182fd5b8501601f81018713614c0e578182fd5b614c1d8782356020840161474e565b91505092959194509250565b600080600060408486031215614c3d578081fd5b8335614c4881615cac565b925060208401356001600160401b03811115614c62578182fd5b614c6e86828701614797565b9497909650939450505050565b60008060408385031215614c8d578182fd5b8235614c9881615cac565b9150614ca6602084016147d8565b90509250929050565b60008060e08385031215614cc1578182fd5b8235614ccc81615cac565b9150614ca68460208501614965565b60008060408385031215614ced578182fd5b8235614cf881615cac565b946020939093013593505050565b600080600060608486031215614d1a578081fd5b8335614d2581615cac565b9250602084013591506040840135614d3c81615cac565b809150509250925092565b60008060008060008060008060c0898b031215614d62578586fd5b8835614d6d81615cac565b9750602089013596506040890135614d8481615cac565b955060608901356001600160401b0380821115614d9f578384fd5b614dab8c838d01614800565b909750955060808b0135945060a08b0135915080821115614dca578384fd5b50614dd78b828c01614800565b999c989b5096995094979396929594505050565b600080600080600080600080600060e08a8c031215614e08578283fd5b8935614e1381615cac565b985060208a0135975060408a0135614e2a81615cac565b965060608a01356001600160401b0380821115614e45578485fd5b614e518d838e01614800565b909850965060808c0135955060a08c0135945060c08c0135915080821115614e77578283fd5b50614e848c828d01614800565b915080935050809150509295985092959850929598565b60008060008060808587031215614eb0578182fd5b8435614ebb81615cac565b9350602085013592506040850135614ed281615cac565b9396929550929360600135925050565b60008060008060008060008060e0898b031215614efd578182fd5b8835614f0881615cac565b9750602089013596506040890135614f1f81615cac565b9550606089013594506080890135935060a08901356001600160401b03811115614f47578283fd5b614f538b828c01614800565b90945092505060c0890135614f6781615cac565b809150509295985092959890939650565b600080600080600080600080600060e08a8c031215614f95578283fd5b8935614fa081615cac565b985060208a0135975060408a0135614fb781615cac565b965060608a0135955060808a0135945060a08a01356001600160401b0380821115614fe0578485fd5b614fec8d838e01614800565b909650945060c08c0135915080821115615004578384fd5b50614e848c828d01614797565b6000806000806000806000806000806000806102008d8f031215615033578586fd5b61503c8d61478c565b9b5060208d01359a5061505160408e0161478c565b995060608d0135985060808d013597506001600160401b0360a08e01351115615078578586fd5b6150888e60a08f01358f01614800565b909750955061509a8e60c08f0161497c565b94506001600160401b036101c08e013511156150b4578283fd5b6150c58e6101c08f01358f01614800565b90945092506001600160401b036101e08e013511156150e2578081fd5b6150f38e6101e08f01358f01614797565b81935080925050509295989b509295989b509295989b565b600080600080600080600060c0888a031215615125578081fd5b873561513081615cac565b965060208801359550604088013561514781615cac565b9450606088013593506080880135925060a08801356001600160401b0381111561516f578182fd5b61517b8a828b01614800565b989b979a50959850939692959293505050565b60008060008060008061016087890312156151a7578384fd5b86356151b281615cac565b95506020870135945060408701356151c981615cac565b93506060870135925060808701359150614b618860a08901614965565b600080600080606085870312156151fb578182fd5b843561520681615cac565b93506020850135925060408501356001600160401b03811115615227578283fd5b61523387828801614800565b95989497509550505050565b60008060208385031215615251578182fd5b82356001600160401b03811115615266578283fd5b61527285828601614797565b90969095509350505050565b60008060008060408587031215615293578182fd5b84356001600160401b03808211156152a9578384fd5b6152b588838901614797565b909650945060208701359150808211156152cd578384fd5b5061523387828801614797565b600060208083850312156152ec578182fd5b82516001600160401b03811115615301578283fd5b8301601f81018513615311578283fd5b805161531f61475c82615c38565b818152838101908385018584028501860189101561533b578687fd5b8694505b8385101561536657805161535281615cac565b83526001949094019391850191850161533f565b50979650505050505050565b600060208284031215615383578081fd5b61166a826147d8565b60006020828403121561539d578081fd5b5035919050565b6000602082840312156153b5578081fd5b5051919050565b600080604083850312156153ce578182fd5b8235915060208301356149d781615cac565b6000806000604084860312156153f4578081fd5b8335925060208401356001600160401b03811115615410578182fd5b614c6e86828701614800565b6000806040838503121561542e578182fd5b50508035926020909101359150565b60006020828403121561544e578081fd5b61166a826147e8565b60008060408385031215615469578182fd5b8235614cf881615cc1565b60008060208385031215615486578182fd5b82356001600160401b0381111561549b578283fd5b61527285828601614800565b6000806000806000608086880312156154be578283fd5b85356001600160401b038111156154d3578384fd5b6154df88828901614800565b9099909850602088013597604081013597506060013595509350505050565b60006020828403121561550f578081fd5b81516001600160401b03811115615524578182fd5b611cff84828501614869565b600060208284031215615541578081fd5b81516001600160401b0380821115615557578283fd5b908301906080828603121561556a578283fd5b60405160808101818110838211171561557f57fe5b604052825182811115615590578485fd5b61559c87828601614869565b82525060208301516020820152604083015160408201526060830151606082015280935050505092915050565b6000806000606084860312156155dd578081fd5b833592506020840135614b9c81615cac565b60008060008060008060a08789031215615607578384fd5b8635955060208701356001600160401b03811115615623578485fd5b61562f89828a01614800565b979a90995096976040810135976060820135975060809091013595509350505050565b6000815180845261566a816020860160208601615c76565b601f01601f19169290920160200192915050565b6000835160206156918285838901615c76565b8454918401918390600180821680156156b157600181146156c8576156f4565b60ff198316865260028304607f16860193506156f4565b60028304898852858820885b828110156156ed578154898201529084019087016156d4565b5050860193505b509198975050505050505050565b6001600160a01b0391909116815260200190565b6001600160a01b03868116825285166020820152604081018490526060810183905260a06080808301829052835191830152600090615759610120840182615652565b90506020840151609f19808584030160c08601526157778383615652565b925060408601519150808584030160e08601526157948383615652565b9250606086015191508085840301610100860152506157b38282615652565b9998505050505050505050565b6001600160a01b0384811682526101008201906001600160e01b03196157e5866147e8565b16602084015260208501356040840152604085013561580381615cac565b81811660608501525060608501356080840152608085013560a084015260a085013561582e81615cac565b1660c083015260e09091019190915292915050565b6020808252825182820181905260009190848201906040850190845b818110156158845783516001600160a01b03168352928401929184019160010161585f565b50909695505050505050565b901515815260200190565b90815260200190565b602081016158b183615ca2565b91905290565b60006020825261166a6020830184615652565b60208082526027908201527f4775696c644170703a204174206c65617374206f6e6520746965722069732072604082015266195c5d5a5c995960ca1b606082015260800190565b60208082526036908201527f4775696c644170703a20526563697069656e7420616c7265616479206861732060408201527530b71030b1ba34bb329039bab139b1b934b83a34b7b760511b606082015260800190565b60208082526035908201527f4775696c644170703a205472616e7366657220686173206e6f74206265656e20604082015274185c1c1c9bdd995908189e481d1a194819dd5a5b19605a1b606082015260800190565b6020808252602c908201527f4775696c644170703a20537562736372697074696f6e7320617265206e6f6e2d60408201526b7472616e7366657261626c6560a01b606082015260800190565b9182526001600160a01b0316602082015260400190565b600084825260606020830152835160806060840152615a4160e0840182615652565b6020860151608085015260408087015160a086015260609096015160c08501526001600160a01b039490941694909201939093525092915050565b918252602082015260400190565b92835260208301919091526001600160a01b0316604082015260600190565b93845260208401929092526001600160a01b03166040830152606082015260800190565b9283526020830191909152604082015260600190565b600060208252825160c06020840152615aff60e0840182615652565b90506020840151601f1980858403016040860152615b1d8383615652565b925060408601516060860152606086015191508085840301608086015250615b458282615652565b915050608084015160a084015260a0840151615b6081615ca2565b60c0939093019290925250919050565b600060208252825160806020840152615b8c60a0840182615652565b90506020840151604084015260408401516060840152606084015160808401528091505092915050565b9b8c5260208c019a909a5260408b01989098526001600160a01b039690961660608a0152608089019490945260a088019290925260c087015260e086015261010085015215156101208401526101408301526101608201526101800190565b6040518181016001600160401b0381118282101715615c3057fe5b604052919050565b60006001600160401b03821115615c4b57fe5b5060209081020190565b60006001600160401b03821115615c6857fe5b50601f01601f191660200190565b60005b83811015615c91578181015183820152602001615c79565b838111156121ab5750506000910152565b6003811061139a57fe5b6001600160a01b038116811461139a57600080fd5b6003811061139a57600080fdfe456e756d657261626c655365743a20696e646578206f7574206f6620626f756e6473416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f206772616e744552433732313a207472616e7366657220746f206e6f6e20455243373231526563656976657220696d706c656d656e7465724552433732313a207472616e7366657220746f20746865207a65726f2061646472657373416464726573733a20696e73756666696369656e742062616c616e636520666f722063616c6c4552433732313a206f70657261746f7220717565727920666f72206e6f6e6578697374656e7420746f6b656e416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f207265766f6b654552433732313a20617070726f76652063616c6c6572206973206e6f74206f776e6572206e6f7220617070726f76656420666f7220616c6c4552433732313a2062616c616e636520717565727920666f7220746865207a65726f20616464726573734552433732313a206f776e657220717565727920666f72206e6f6e6578697374656e7420746f6b656e496e697469616c697a61626c653a20636f6e747261637420697320616c726561647920696e697469616c697a6564456e756d657261626c654d61703a20696e646578206f7574206f6620626f756e6473536166654d6174683a206d756c7469706c69636174696f6e206f766572666c6f774552433732313a20617070726f76656420717565727920666f72206e6f6e6578697374656e7420746f6b656e4552433732313a207472616e73666572206f6620746f6b656e2074686174206973206e6f74206f776e4552433732313a20617070726f76616c20746f2063757272656e74206f776e65724552433732313a207472616e736665722063616c6c6572206973206e6f74206f776e6572206e6f7220617070726f766564416363657373436f6e74726f6c3a2063616e206f6e6c792072656e6f756e636520726f6c657320666f722073656c66a26469706673582212208325f230a5333182582ea4a2262db08b603f6ec13ba71d7d5b876b97f44e70e064736f6c63430007060033";
+
+export interface GuildAppLibraryAddresses {
+  ["__$32cef4f64e636500be99c33a0d18eaccc8$__"]: string;
+  ["__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__"]: string;
+  ["__$173becb9e29ecfdfd3a85bafd10ca6e8d6$__"]: string;
+}
@@ -0,0 +1,2550 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { GuildAppSubscriptionExtension } from "./GuildAppSubscriptionExtension";
+
+export class GuildAppSubscriptionExtensionFactory extends ContractFactory {
+  constructor(
+    linkLibraryAddresses: GuildAppSubscriptionExtensionLibraryAddresses,
+    signer?: Signer
+  ) {
+    super(
+      _abi,
+      GuildAppSubscriptionExtensionFactory.linkBytecode(linkLibraryAddresses),
+      signer
+    );
+  }
+
+  static linkBytecode(
+    linkLibraryAddresses: GuildAppSubscriptionExtensionLibraryAddresses
+  ): string {
+    let linkedBytecode = _bytecode;
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$32cef4f64e636500be99c33a0d18eaccc8\\$__", "g"),
+      linkLibraryAddresses["__$32cef4f64e636500be99c33a0d18eaccc8$__"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$f989dde10ffb2e16f493e0f9c7e8ffd1bd\\$__", "g"),
+      linkLibraryAddresses["__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    linkedBytecode = linkedBytecode.replace(
+      new RegExp("__\\$79ea29588deb50a07829d76714340cd9c6\\$__", "g"),
+      linkLibraryAddresses["__$79ea29588deb50a07829d76714340cd9c6$__"]
+        .replace(/^0x/, "")
+        .toLowerCase()
+    );
+
+    return linkedBytecode;
+  }
+
+  deploy(overrides?: Overrides): Promise<GuildAppSubscriptionExtension> {
+    return super.deploy(
+      overrides || {}
+    ) as Promise<GuildAppSubscriptionExtension>;
+  }
+  getDeployTransaction(overrides?: Overrides): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  attach(address: string): GuildAppSubscriptionExtension {
+    return super.attach(address) as GuildAppSubscriptionExtension;
+  }
+  connect(signer: Signer): GuildAppSubscriptionExtensionFactory {
+    return super.connect(signer) as GuildAppSubscriptionExtensionFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): GuildAppSubscriptionExtension {
+    return new Contract(
+      address,
+      _abi,
+      signerOrProvider
+    ) as GuildAppSubscriptionExtension;
+  }
+}
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "_root",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_listCID",
+        type: "string",
+      },
+    ],
+    name: "AllowlistUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "approved",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Approval",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "ApprovalForAll",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_payee",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+    ],
+    name: "Claimed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_lastTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_totalTokens",
+        type: "uint256",
+      },
+    ],
+    name: "ClosingRefundsProcessed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+    ],
+    name: "Distributed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_maxFreezeDuration",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_maxFreezes",
+        type: "uint256",
+      },
+    ],
+    name: "FreezePolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_gracePeriod",
+        type: "uint256",
+      },
+    ],
+    name: "GracePeriodUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "_enabled",
+        type: "bool",
+      },
+    ],
+    name: "GrandfatheredPricingUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_closedAt",
+        type: "uint256",
+      },
+    ],
+    name: "GuildClosed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_creator",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_subPrice",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_subscriptionPeriod",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "symbol",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "baseURI",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "metadataCID",
+            type: "string",
+          },
+        ],
+        indexed: false,
+        internalType: "struct IGuild.GuildMetadata",
+        name: "_metadata",
+        type: "tuple",
+      },
+    ],
+    name: "InitializedGuild",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_maxMembers",
+        type: "uint256",
+      },
+    ],
+    name: "MaxMembersUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "NewSubscription",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "_isPaused",
+        type: "bool",
+      },
+    ],
+    name: "PausedGuild",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address[]",
+        name: "_payees",
+        type: "address[]",
+      },
+      {
+        indexed: false,
+        internalType: "uint256[]",
+        name: "_shares",
+        type: "uint256[]",
+      },
+    ],
+    name: "PayeesUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "PaymentTokenAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "PaymentTokenRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_minPeriods",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_discountBps",
+        type: "uint256",
+      },
+    ],
+    name: "PeriodDiscountUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "PriceLocked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_referrer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_referrerTokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_reward",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_bonusDuration",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_referrerExpiry",
+        type: "uint256",
+      },
+    ],
+    name: "ReferralCredited",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_rewardBps",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_bonusDuration",
+        type: "uint256",
+      },
+    ],
+    name: "ReferralPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum IGuild.RefundPolicy",
+        name: "_policy",
+        type: "uint8",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_refundWindow",
+        type: "uint256",
+      },
+    ],
+    name: "RefundPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+    ],
+    name: "Refunded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "RenewSubscription",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "_reason",
+        type: "bytes",
+      },
+    ],
+    name: "RenewalFailed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "previousAdminRole",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "newAdminRole",
+        type: "bytes32",
+      },
+    ],
+    name: "RoleAdminChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleGranted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "sender",
+        type: "address",
+      },
+    ],
+    name: "RoleRevoked",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "SeatReleased",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_remaining",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_resumeAt",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionFrozen",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_payer",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_recipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "expiry",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_messageCID",
+        type: "string",
+      },
+    ],
+    name: "SubscriptionGifted",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_subPrice",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionPriceChanged",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+    ],
+    name: "SubscriptionTransferApproved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_expirationTimestamp",
+        type: "uint256",
+      },
+    ],
+    name: "SubscriptionUnfrozen",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_period",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_cap",
+        type: "uint256",
+      },
+    ],
+    name: "TierUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tipper",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_fee",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_messageCID",
+        type: "string",
+      },
+    ],
+    name: "Tipped",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "TokenPriceUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Transfer",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "enum IGuild.TransferPolicy",
+        name: "_policy",
+        type: "uint8",
+      },
+    ],
+    name: "TransferPolicyUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "Unsubscribed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_metadataURI",
+        type: "string",
+      },
+    ],
+    name: "UpdatedMetadata",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_template",
+        type: "address",
+      },
+    ],
+    name: "Upgraded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "bytes32",
+        name: "_voucher",
+        type: "bytes32",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_cost",
+        type: "uint256",
+      },
+    ],
+    name: "VoucherRedeemed",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "WaitlistJoined",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "beneficiary",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+    ],
+    name: "Withdraw",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "DEFAULT_ADMIN_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "METADATA_EDITOR_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PAUSER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "PRICE_MANAGER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "RENEWAL_WINDOW",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "TREASURER_ROLE",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "allowlistRoot",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "approve",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "approvedTransfers",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    name: "balanceOf",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "baseURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "claimable",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "closedAt",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "factory",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleAdmin",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "getRoleMember",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+    ],
+    name: "getRoleMemberCount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_messageCID",
+        type: "string",
+      },
+    ],
+    name: "giftSubscription",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "gracePeriod",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "grandfatheredPricing",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "grantRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "hasRole",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "isActive",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "joinWaitlist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxFreezeDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxFreezes",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "maxMembers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "metadataCID",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "name",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "referralBonusDuration",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "referralRewardBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "referrerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "refundPolicy",
+    outputs: [
+      {
+        internalType: "enum IGuild.RefundPolicy",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "refundWindow",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseSeat",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+    ],
+    name: "renew",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "_subscribers",
+        type: "address[]",
+      },
+    ],
+    name: "renewBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "renounceRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "role",
+        type: "bytes32",
+      },
+      {
+        internalType: "address",
+        name: "account",
+        type: "address",
+      },
+    ],
+    name: "revokeRole",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "shares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "subscribe",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "subscribeForPeriods",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "daiStyle",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+          {
+            internalType: "uint8",
+            name: "v",
+            type: "uint8",
+          },
+          {
+            internalType: "bytes32",
+            name: "r",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "s",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct IGuild.Permit",
+        name: "_permit",
+        type: "tuple",
+      },
+    ],
+    name: "subscribeWithPermit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "_proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "subscribeWithProof",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+      {
+        internalType: "address",
+        name: "_referrer",
+        type: "address",
+      },
+    ],
+    name: "subscribeWithReferrer",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "tierId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "discountBps",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "tokenAddress",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "fixedPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxUses",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiry",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "recipient",
+            type: "address",
+          },
+          {
+            internalType: "bytes32",
+            name: "salt",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct IGuild.Voucher",
+        name: "_voucher",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes32[]",
+        name: "_proof",
+        type: "bytes32[]",
+      },
+    ],
+    name: "subscribeWithVoucher",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "subscriptionByOwner",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "expirationTimestamp",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "paymentToken",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "paidValue",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "paidFrom",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "lockedPrice",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "frozenAt",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "freezes",
+        type: "uint256",
+      },
+      {
+        internalType: "bool",
+        name: "seatReleased",
+        type: "bool",
+      },
+      {
+        internalType: "uint256",
+        name: "bonusTime",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "resumeAt",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes4",
+        name: "interfaceId",
+        type: "bytes4",
+      },
+    ],
+    name: "supportsInterface",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "symbol",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_messageCID",
+        type: "string",
+      },
+    ],
+    name: "tip",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "tokenAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "index",
+        type: "uint256",
+      },
+    ],
+    name: "tokenOfOwnerByIndex",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalShares",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalSupply",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "transferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "transferPolicy",
+    outputs: [
+      {
+        internalType: "enum IGuild.TransferPolicy",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    name: "voucherRedemptions",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b50615ea280620000216000396000f3fe6080604052600436106103ce5760003560e01c80639c9c6669116101fd578063ca93c83a11610118578063e3cdc04b116100ab578063ec97d7131161007a578063ec97d71314610a49578063f0a3a97c14610a69578063fb9d1f2814610a7e578063fbb07e2d14610a91578063fe8c41ce14610ab1576103ce565b8063e3cdc04b146109ea578063e63ab1e9146109ff578063e6f2fa6214610a14578063e985e9c514610a29576103ce565b8063d4570c1c116100e7578063d4570c1c14610982578063d547741f146109a2578063d873453b146109c2578063e2c09783146109d5576103ce565b8063ca93c83a146108f5578063cdd8946e1461092d578063ce7c2ac214610942578063d21cacdf14610962576103ce565b8063bf4386a011610190578063c475abff1161015f578063c475abff14610882578063c6f642fb14610895578063c87b56dd146108b5578063ca15c873146108d5576103ce565b8063bf4386a014610823578063c2b758e114610838578063c44010b91461084d578063c45a01551461086d576103ce565b8063a217fddf116101cc578063a217fddf146107bb578063a22cb465146107d0578063b008c34e146107f0578063b88d4fde14610803576103ce565b80639c9c6669146107675780639d76ea581461077c5780639ef27b0014610791578063a06db7dc146107a6576103ce565b806342842e0e116102ed5780636c0360eb116102805780639010d07c1161024f5780639010d07c146106ff57806391d148541461071f57806395d89b411461073f57806396291e4314610754576103ce565b80636c0360eb146106a057806370a08231146106b557806373643527146106d557806375f4c059146106ea576103ce565b80635c101e66116102bc5780635c101e66146106455780635c18dde31461065a5780636352211e1461066d57806363ca4ebd1461068d576103ce565b806342842e0e146105ce57806348352526146105ee5780634f6ccce71461061057806358871c4614610630576103ce565b8063248a9ca3116103655780632f745c59116103345780632f745c591461056457806331aab7591461058457806336568abe146105995780633a98ef39146105b9576103ce565b8063248a9ca3146104f15780632800c09d146105115780632d5cf6c9146105315780632f2ff15d14610544576103ce565b8063095ea7b3116103a1578063095ea7b31461047a57806318160ddd1461049a57806322f3e2d4146104bc57806323b872dd146104d1576103ce565b806301ffc9a7146103d357806306fdde03146104095780630743ba401461042b578063081812fc1461044d575b600080fd5b3480156103df57600080fd5b506103f36103ee366004614f18565b610ac6565b604051610400919061529d565b60405180910390f35b34801561041557600080fd5b5061041e610ae9565b6040516104009190615401565b34801561043757600080fd5b5061044b610446366004614ce7565b610b7f565b005b34801561045957600080fd5b5061046d610468366004614e83565b610c3a565b6040516104009190614fcd565b34801561048657600080fd5b5061044b6104953660046148da565b610c9c565b3480156104a657600080fd5b506104af610d72565b60405161040091906152a8565b3480156104c857600080fd5b506103f3610d83565b3480156104dd57600080fd5b5061044b6104ec3660046147fd565b610d91565b3480156104fd57600080fd5b506104af61050c366004614e83565b610de8565b34801561051d57600080fd5b506104af61052c366004614e83565b610dfd565b61044b61053f366004614932565b610e0f565b34801561055057600080fd5b5061044b61055f366004614e9b565b610e45565b34801561057057600080fd5b506104af61057f3660046148da565b610eac565b34801561059057600080fd5b506104af610ed7565b3480156105a557600080fd5b5061044b6105b4366004614e9b565b610efb565b3480156105c557600080fd5b506104af610f5c565b3480156105da57600080fd5b5061044b6105e93660046147fd565b610f62565b3480156105fa57600080fd5b50610603610f7d565b60405161040091906152d0565b34801561061c57600080fd5b506104af61062b366004614e83565b610f86565b34801561063c57600080fd5b5061041e610f9c565b34801561065157600080fd5b5061060361102a565b61044b610668366004614c64565b61103a565b34801561067957600080fd5b5061046d610688366004614e83565b6110f2565b61044b61069b366004614afc565b61111a565b3480156106ac57600080fd5b5061041e61114e565b3480156106c157600080fd5b506104af6106d03660046147a9565b6111af565b3480156106e157600080fd5b506104af611217565b3480156106f657600080fd5b506104af61121d565b34801561070b57600080fd5b5061046d61071a366004614ef7565b611223565b34801561072b57600080fd5b506103f361073a366004614e9b565b61123b565b34801561074b57600080fd5b5061041e611253565b61044b610762366004614b8f565b6112b4565b34801561077357600080fd5b506104af6112f7565b34801561078857600080fd5b5061046d6112fd565b34801561079d57600080fd5b506104af61130c565b3480156107b257600080fd5b506104af611312565b3480156107c757600080fd5b506104af611318565b3480156107dc57600080fd5b5061044b6107eb3660046148a6565b61131d565b61044b6107fe366004614dbc565b611422565b34801561080f57600080fd5b5061044b61081e36600461483d565b611508565b34801561082f57600080fd5b506104af611566565b34801561084457600080fd5b506104af61156c565b34801561085957600080fd5b5061046d610868366004614e83565b611572565b34801561087957600080fd5b5061046d61158d565b61044b610890366004614ef7565b61159c565b3480156108a157600080fd5b5061044b6108b0366004614e83565b611717565b3480156108c157600080fd5b5061041e6108d0366004614e83565b611856565b3480156108e157600080fd5b506104af6108f0366004614e83565b611ad7565b34801561090157600080fd5b506109156109103660046147a9565b611aee565b6040516104009c9b9a99989796959493929190615a54565b34801561093957600080fd5b506104af611b5b565b34801561094e57600080fd5b506104af61095d3660046147a9565b611b61565b34801561096e57600080fd5b5061046d61097d3660046147a9565b611b73565b34801561098e57600080fd5b506104af61099d3660046147c5565b611b8e565b3480156109ae57600080fd5b5061044b6109bd366004614e9b565b611bab565b61044b6109d0366004614a6b565b611c04565b3480156109e157600080fd5b506104af611cd6565b3480156109f657600080fd5b506103f3611cdd565b348015610a0b57600080fd5b506104af611ce6565b348015610a2057600080fd5b506104af611d0a565b348015610a3557600080fd5b506103f3610a443660046147c5565b611d2e565b348015610a5557600080fd5b5061044b610a64366004614e15565b611d5c565b348015610a7557600080fd5b506104af611dc8565b61044b610a8c3660046149c9565b611dec565b348015610a9d57600080fd5b5061044b610aac366004614e83565b611e20565b348015610abd57600080fd5b506104af611f16565b6001600160e01b0319811660009081526033602052604090205460ff165b919050565b606a8054604080516020601f6002600019610100600188161502019095169490940493840181900481028201810190925282815260609390929091830182828015610b755780601f10610b4a57610100808354040283529160200191610b75565b820191906000526020600020905b815481529060010190602001808311610b5857829003601f168201915b5050505050905090565b610b87611f1c565b85610b9181611f45565b604051637119402160e11b815273__$32cef4f64e636500be99c33a0d18eaccc8$__9063e232804290610bce9088908b908890889060040161511b565b60006040518083038186803b158015610be657600080fd5b505af4158015610bfa573d6000803e3d6000fd5b505050506000610c0c88888888611f8a565b9050610c2f8889898989896040518060200160405280600081525088600061214b565b505050505050505050565b6000610c458261261c565b610c805760405162461bcd60e51b815260040180806020018281038252602c815260200180615d1a602c913960400191505060405180910390fd5b506000908152606860205260409020546001600160a01b031690565b6000610ca7826110f2565b9050806001600160a01b0316836001600160a01b03161415610cfa5760405162461bcd60e51b8152600401808060200182810382526021815260200180615d9e6021913960400191505060405180910390fd5b806001600160a01b0316610d0c612629565b6001600160a01b03161480610d285750610d2881610a44612629565b610d635760405162461bcd60e51b8152600401808060200182810382526038815260200180615c1f6038913960400191505060405180910390fd5b610d6d838361262d565b505050565b6000610d7e606661269b565b905090565b60c954610100900460ff1681565b610da2610d9c612629565b826126a6565b610ddd5760405162461bcd60e51b8152600401808060200182810382526031815260200180615e0d6031913960400191505060405180910390fd5b610d6d83838361274a565b60009081526097602052604090206002015490565b60e26020526000908152604090205481565b610e17611f1c565b85610e2181611f45565b6000610e308888886001611f8a565b9050610c2f888989896001898988600061214b565b600082815260976020526040902060020154610e639061073a612629565b610e9e5760405162461bcd60e51b815260040180806020018281038252602f815260200180615b18602f913960400191505060405180910390fd5b610ea88282612896565b5050565b6001600160a01b0382166000908152606560205260408120610ece90836128ff565b90505b92915050565b7f3515f38d031dcbca5f1dac4c5afc1efca2020e42efdd9c5806ae7e963d18435a81565b610f03612629565b6001600160a01b0316816001600160a01b031614610f525760405162461bcd60e51b815260040180806020018281038252602f815260200180615e3e602f913960400191505060405180910390fd5b610ea8828261290b565b60dd5481565b610d6d83838360405180602001604052806000815250611508565b60d95460ff1681565b600080610f94606684612974565b509392505050565b60ca805460408051602060026001851615610100026000190190941693909304601f810184900484028201840190925281815292918301828280156110225780601f10610ff757610100808354040283529160200191611022565b820191906000526020600020905b81548152906001019060200180831161100557829003601f168201915b505050505081565b60e054600160a01b900460ff1681565b611042611f1c565b61104b87611f45565b600061105988888888611f8a565b90506000611085611068612629565b8a8a8a8a8a6040518060200160405280600081525089600061214b565b90507fbbb063bbb2b3a4f62b8eeb495ecf7d59d93ecb147ffeefac95a9c4cb5ef2c23b6110b0612629565b6001600160a01b038b16600090815260d36020526040908190205490516110df92918d9186908a908a90614fe1565b60405180910390a1505050505050505050565b6000610ed182604051806060016040528060298152602001615c816029913960669190612992565b611122611f1c565b61112c87826129a9565b600061113a88888888611f8a565b9050610c2f8889898989898988600061214b565b606d8054604080516020601f6002600019610100600188161502019095169490940493840181900481028201810190925282815260609390929091830182828015610b755780601f10610b4a57610100808354040283529160200191610b75565b60006001600160a01b0382166111f65760405162461bcd60e51b815260040180806020018281038252602a815260200180615c57602a913960400191505060405180910390fd5b6001600160a01b0382166000908152606560205260409020610ed19061269b565b60da5481565b60ed5481565b6000828152609760205260408120610ece90836128ff565b6000828152609760205260408120610ece9083612a24565b606b8054604080516020601f6002600019610100600188161502019095169490940493840181900481028201810190925282815260609390929091830182828015610b755780601f10610b4a57610100808354040283529160200191610b75565b6112bc611f1c565b6112c689826129a9565b60006112d684848c8c8c8c612a39565b90506112ea8a8b8b8b8b8b8b88600061214b565b5050505050505050505050565b60e35481565b60cb546001600160a01b031681565b60e65481565b60d85481565b600081565b611325612629565b6001600160a01b0316826001600160a01b0316141561138b576040805162461bcd60e51b815260206004820152601960248201527f4552433732313a20617070726f766520746f2063616c6c657200000000000000604482015290519081900360640190fd5b8060696000611398612629565b6001600160a01b03908116825260208083019390935260409182016000908120918716808252919093529120805460ff1916921515929092179091556113dc612629565b6001600160a01b03167f17307eab39ab6107e8899845ad3d59bd9653f200f220920489ca2b5937696c318360405180821515815260200191505060405180910390a35050565b61142a611f1c565b61143560d485612a24565b61145a5760405162461bcd60e51b815260040161145190615414565b60405180910390fd5b6000831161147a5760405162461bcd60e51b815260040161145190615659565b6114848484612b73565b60008061149085612bc1565b915091507f8ce6873c40c71fdf4f43d1b7dee7bf155a9fde4c56da12de3bf6d4af4c87113b6114bd612629565b87878488886040516114d496959493929190614fe1565b60405180910390a16115006114e7612629565b8787604051806020016040528060008152508686612c62565b505050505050565b611519611513612629565b836126a6565b6115545760405162461bcd60e51b8152600401808060200182810382526031815260200180615e0d6031913960400191505060405180910390fd5b61156084848484612d4c565b50505050565b60e45481565b60eb5481565b60e1602052600090815260409020546001600160a01b031681565b60e0546001600160a01b031681565b6115a4611f1c565b6115ad8261261c565b6115c95760405162461bcd60e51b815260040161145190615846565b60006115d4836110f2565b6001600160a01b03808216600090815260d3602052604081206002015460cb5493945092909161160991859185911687611f8a565b60cb54909150611622906001600160a01b031682612b73565b60008061162e83612bc1565b9150915060006116878661166c8960cc600001898154811061164c57fe5b906000526020600020906003020160010154612d9e90919063ffffffff16565b60cb546001600160a01b03166116828887612df7565b612e54565b60cb546040519192507fa497ecddc7ed871ecc32379521be872217843ad22510d64baae40febd3e5f66e916116d39189918c918a916001600160a01b03909116908a9089908990615248565b60405180910390a161170d6116e6612629565b60cb546040805160208101909152600081526001600160a01b039091169087908787612c62565b5050505050505050565b600060d36000611726846110f2565b6001600160a01b031681526020810191909152604001600020600981015490915060ff1615801561175957506007810154155b801561177d57504261177a60d854836001015461312190919063ffffffff16565b11155b6117995760405162461bcd60e51b8152600401611451906159cb565b60098101805460ff1916600117905560028101546040516303093b1b60e21b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__91630c24ec6c916117e59160cc91600401615a0c565b60006040518083038186803b1580156117fd57600080fd5b505af4158015611811573d6000803e3d6000fd5b505050507fd608f4ea67dc5c6646afc0ff041066cbe9391b53bcf7e8a16791d041a92e63ee82826002015460405161184a929190615a0c565b60405180910390a15050565b60606118618261261c565b61189c5760405162461bcd60e51b815260040180806020018281038252602f815260200180615d6f602f913960400191505060405180910390fd5b6000828152606c602090815260408083208054825160026001831615610100026000190190921691909104601f81018590048502820185019093528281529290919083018282801561192f5780601f106119045761010080835404028352916020019161192f565b820191906000526020600020905b81548152906001019060200180831161191257829003601f168201915b50505050509050600061194061114e565b905080516000141561195457509050610ae4565b815115611a155780826040516020018083805190602001908083835b6020831061198f5780518252601f199092019160209182019101611970565b51815160209384036101000a600019018019909216911617905285519190930192850191508083835b602083106119d75780518252601f1990920191602091820191016119b8565b6001836020036101000a0380198251168184511680821785525050505050509050019250505060405160208183030381529060405292505050610ae4565b80611a1f8561317b565b6040516020018083805190602001908083835b60208310611a515780518252601f199092019160209182019101611a32565b51815160209384036101000a600019018019909216911617905285519190930192850191508083835b60208310611a995780518252601f199092019160209182019101611a7a565b6001836020036101000a0380198251168184511680821785525050505050509050019250505060405160208183030381529060405292505050919050565b6000818152609760205260408120610ed19061269b565b60d360205260009081526040902080546001820154600283015460038401546004850154600586015460068701546007880154600889015460098a0154600a8b0154600b909b0154999a989997986001600160a01b03909716979596949593949293919260ff909116918c565b60ee5481565b60dc6020526000908152604090205481565b60ef602052600090815260409020546001600160a01b031681565b60de60209081526000928352604080842090915290825290205481565b600082815260976020526040902060020154611bc99061073a612629565b610f525760405162461bcd60e51b8152600401808060200182810382526030815260200180615bef6030913960400191505060405180910390fd5b611c0c611f1c565b86611c1681611f45565b6001600160a01b038816600090815260d36020526040812054158015611c5457506001600160a01b03898116600090815260ef602052604090205416155b8015611c725750886001600160a01b0316836001600160a01b031614155b8015611c9557506001600160a01b038316600090815260d3602052604090205415155b90506000611ca58a8a8a8a611f8a565b9050611cb88a8b8b8b8b8b8b888c61214b565b508115611cca57611cca848b8a61324c565b50505050505050505050565b6201518081565b60e55460ff1681565b7f65d7a28e3265b37a6474929f336521b332c1681b933f6cb9f3376673440d862a81565b7f83451201604d3a4d256ddd2d5af33f39d62710ad0a1aef34d36f5aa8cf91ed1d81565b6001600160a01b03918216600090815260696020908152604080832093909416825291909152205460ff1690565b611d64611f1c565b60d6546001600160a01b0316611d8c5760405162461bcd60e51b81526004016114519061576f565b60005b81811015610d6d57611dc0838383818110611da657fe5b9050602002016020810190611dbb91906147a9565b613408565b600101611d8f565b7f3496e2e73c4d42b75d702e60d9e48102720b8691234415963a5a857b86425d0781565b611df4611f1c565b86611dfe81611f45565b6000611e0c89898988611f8a565b9050611cca898a8a8a89898988600061214b565b611e28611f1c565b60e45460405163e26dffd760e01b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9163e26dffd791611e669160cc91869190600401615a3e565b60206040518083038186803b158015611e7e57600080fd5b505af4158015611e92573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190611eb69190614f40565b15611ed35760405162461bcd60e51b81526004016114519061556a565b7f677d69b171b7046ed4e1f11355c98571ec7e8ddc16fa67f82ce9e1e0be4d310b611efc612629565b82604051611f0b92919061503a565b60405180910390a150565b60ec5481565b60c954610100900460ff16611f435760405162461bcd60e51b815260040161145190615533565b565b60e3541580611f6b57506001600160a01b038116600090815260d3602052604090205415155b611f875760405162461bcd60e51b815260040161145190615459565b50565b60405163d05118ad60e01b815260009073__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063d05118ad90611fcb9060cc90889088908890600401615a1a565b60206040518083038186803b158015611fe357600080fd5b505af4158015611ff7573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061201b9190614f40565b6001600160a01b038616600090815260d36020526040902060e5549192509060ff16801561204d575060008160060154115b801561205c5750848160020154145b8015612077575060038101546001600160a01b038581169116145b801561209a57504261209860d854836001015461312190919063ffffffff16565b115b15612142576006810154604051631123866360e01b815260009173__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__916311238663916120e29160cc91908990600401615a3e565b60206040518083038186803b1580156120fa57600080fd5b505af415801561210e573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906121329190614f40565b905082811015612140578092505b505b50949350505050565b600083516000141561219e5761215f612629565b6001600160a01b03168a6001600160a01b03161461218f5760405162461bcd60e51b8152600401611451906158d7565b6121998786612b73565b61226d565b34156121bc5760405162461bcd60e51b81526004016114519061596e565b6040805160c0810182526001600160e01b0319600035168152602081018a90526001600160a01b03808a16828401526060820189905260808201889052841660a082015290516378a1857560e11b815273__$32cef4f64e636500be99c33a0d18eaccc8$__9163f1430aea9161223c9160ea918f91908a906004016152e3565b60006040518083038186803b15801561225457600080fd5b505af4158015612268573d6000803e3d6000fd5b505050505b8285101561228d5760405162461bcd60e51b8152600401611451906156d9565b60006122a38760cc6000018b8154811061164c57fe5b90506000806122b188612bc1565b6001600160a01b038e16600090815260d36020526040902080549294509092509061247e5760e454158061236d575060e4546040516364f5a93960e11b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063c9eb52729061231b9060cc906004016152a8565b60206040518083038186803b15801561233357600080fd5b505af4158015612347573d6000803e3d6000fd5b505050506040513d601f19601f8201168201806040525081019061236b9190614f40565b105b6123895760405162461bcd60e51b8152600401611451906154c7565b60cc73__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__6347490f8e90918e6040518363ffffffff1660e01b81526004016123c5929190615a0c565b60006040518083038186803b1580156123dd57600080fd5b505af41580156123f1573d6000803e3d6000fd5b505060d754612404925090506001613121565b60d7819055808255600282018d905561241e908e906138be565b61242e8d858d6116828d87612df7565b94507feb69a380e74f311dbfa775fe47e3fe6914d334536f5e0395bf1dec654b5a03f08d82600001548e8e8d878b8f6040516124719897969594939291906151ef565b60405180910390a16125fd565b8b8160020154146125a157428160010154106124ac5760405162461bcd60e51b8152600401611451906155ad565b600981015460ff166125925760028101546040516303093b1b60e21b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__91630c24ec6c916124f59160cc91600401615a0c565b60006040518083038186803b15801561250d57600080fd5b505af4158015612521573d6000803e3d6000fd5b5050505060cc73__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__6347490f8e90918e6040518363ffffffff1660e01b8152600401612561929190615a0c565b60006040518083038186803b15801561257957600080fd5b505af415801561258d573d6000803e3d6000fd5b505050505b600281018c9055600060068201555b6125b18d858d6116828d87612df7565b94507fa497ecddc7ed871ecc32379521be872217843ad22510d64baae40febd3e5f66e8d82600001548e8e8d878b8f6040516125f49897969594939291906151ef565b60405180910390a15b61260b8e8c8b8b8787612c62565b505050509998505050505050505050565b6000610ed16066836138d8565b3390565b600081815260686020526040902080546001600160a01b0319166001600160a01b0384169081179091558190612662826110f2565b6001600160a01b03167f8c5be1e5ebec7d5bd14f71427d1e84f3dd0314c0f7b2291e5b200ac8c7c3b92560405160405180910390a45050565b6000610ed1826138e4565b60006126b18261261c565b6126ec5760405162461bcd60e51b815260040180806020018281038252602c815260200180615bc3602c913960400191505060405180910390fd5b60006126f7836110f2565b9050806001600160a01b0316846001600160a01b031614806127325750836001600160a01b031661272784610c3a565b6001600160a01b0316145b8061274257506127428185611d2e565b949350505050565b826001600160a01b031661275d826110f2565b6001600160a01b0316146127a25760405162461bcd60e51b8152600401808060200182810382526029815260200180615d466029913960400191505060405180910390fd5b6001600160a01b0382166127e75760405162461bcd60e51b8152600401808060200182810382526024815260200180615b796024913960400191505060405180910390fd5b6127f28383836138e8565b6127fd60008261262d565b6001600160a01b038316600090815260656020526040902061281f9082613c3b565b506001600160a01b03821660009081526065602052604090206128429082613c47565b5061284f60668284613c53565b5080826001600160a01b0316846001600160a01b03167fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef60405160405180910390a4505050565b60008281526097602052604090206128ae9082613c69565b15610ea8576128bb612629565b6001600160a01b0316816001600160a01b0316837f2f8788117e7eff1d82e926ec794901d17c78024a50270940304540a733656f0d60405160405180910390a45050565b6000610ece8383613c7e565b60008281526097602052604090206129239082613ce2565b15610ea857612930612629565b6001600160a01b0316816001600160a01b0316837ff6391f5c32d9c69d2a47ea670b442974b53935d1edc7fd64eb21e047a839171b60405160405180910390a45050565b60008080806129838686613cf7565b909450925050505b9250929050565b600061299f848484613d72565b90505b9392505050565b60e354158015906129d057506001600160a01b038216600090815260d36020526040902054155b15610ea857612a088160e354846040516020016129ed9190614fb0565b60405160208183030381529060405280519060200120613e3c565b610ea85760405162461bcd60e51b8152600401611451906156a4565b6000610ece836001600160a01b038416613ee5565b85516000908414612a5c5760405162461bcd60e51b815260040161145190615922565b60008073__$79ea29588deb50a07829d76714340cd9c6$__634f07db2060e28b8b8b8a8a612a8c8f8f8f8f611f8a565b6040518863ffffffff1660e01b8152600401612aae9796959493929190615354565b60606040518083038186803b158015612ac657600080fd5b505af4158015612ada573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612afe9190614ebf565b94509092509050612b1060008261123b565b612b2c5760405162461bcd60e51b8152600401611451906157bf565b7f6e656e1d709d111f5d911e969da4c43a3d602aa41f533df902d960c033ea235f828885604051612b5f939291906152b1565b60405180910390a150509695505050505050565b6001600160a01b03821615801590612b89575034155b80612ba557506001600160a01b038216158015612ba557508034145b610ea85760405162461bcd60e51b815260040161145190615490565b60e05460405163185b948360e11b8152600091829173__$32cef4f64e636500be99c33a0d18eaccc8$__916330b7290691612c0a916001600160a01b031690879060040161503a565b604080518083038186803b158015612c2157600080fd5b505af4158015612c35573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612c599190614905565b91509150915091565b60d65460405163a4b1322160e01b815273__$32cef4f64e636500be99c33a0d18eaccc8$__9163a4b1322191612cac918a918a918a918a916001600160a01b0316906004016150d6565b60006040518083038186803b158015612cc457600080fd5b505af4158015612cd8573d6000803e3d6000fd5b505050506000811115611500576040516303bcd7f360e11b815273__$32cef4f64e636500be99c33a0d18eaccc8$__90630779afe690612d20908890869086906004016150b2565b60006040518083038186803b158015612d3857600080fd5b505af4158015611cca573d6000803e3d6000fd5b612d5784848461274a565b612d6384848484613efd565b6115605760405162461bcd60e51b8152600401808060200182810382526032815260200180615b476032913960400191505060405180910390fd5b600082612dad57506000610ed1565b82820282848281612dba57fe5b0414610ece5760405162461bcd60e51b8152600401808060200182810382526021815260200180615cf96021913960400191505060405180910390fd5b600082821115612e4e576040805162461bcd60e51b815260206004820152601e60248201527f536166654d6174683a207375627472616374696f6e206f766572666c6f770000604482015290519081900360640190fd5b50900390565b6001600160a01b038416600090815260d360205260408120600781015415612e8e5760405162461bcd60e51b8152600401611451906154fe565b600981015460ff1615612fc85760e4541580612f32575060e4546040516364f5a93960e11b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9063c9eb527290612ee09060cc906004016152a8565b60206040518083038186803b158015612ef857600080fd5b505af4158015612f0c573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190612f309190614f40565b105b612f4e5760405162461bcd60e51b8152600401611451906154c7565b60028101546040516323a487c760e11b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__916347490f8e91612f8b9160cc91600401615a0c565b60006040518083038186803b158015612fa357600080fd5b505af4158015612fb7573d6000803e3d6000fd5b50505060098201805460ff19169055505b600042612fe460d854846001015461312190919063ffffffff16565b11612fef5742612ff5565b81600101545b905042811480613015575060038201546001600160a01b03868116911614155b8061302257506006820154155b15613095576002820154600090815260cd602090815260408083206001600160a01b0389168452909152908190205460068401819055835491517f960b90b3ee28ae99c4ea15b2dff474cbc2d79ab99998535ef075cd694b71b4c69261308c9290918991906152b1565b60405180910390a15b428114806130b3575060038201546001600160a01b03868116911614155b156130ef576003820180546001600160a01b0319166001600160a01b03871617905560048201849055600582018190556000600a830155613104565b60048201546130fe9085613121565b60048301555b61310e8187613121565b6001909201829055509050949350505050565b600082820183811015610ece576040805162461bcd60e51b815260206004820152601b60248201527f536166654d6174683a206164646974696f6e206f766572666c6f770000000000604482015290519081900360640190fd5b6060816131a057506040805180820190915260018152600360fc1b6020820152610ae4565b8160005b81156131b857600101600a820491506131a4565b6000816001600160401b03811180156131d057600080fd5b506040519080825280601f01601f1916602001820160405280156131fb576020820181803683370190505b50859350905060001982015b831561214257600a840660300160f81b8282806001900393508151811061322a57fe5b60200101906001600160f81b031916908160001a905350600a84049350613207565b6001600160a01b03828116600090815260ef6020908152604080832080546001600160a01b0319169488169490941790935560d3905290812060ed5460048201549192916132a791612710916132a191612d9e565b90614065565b60048301549091506132b99082612df7565b60048301556001600160a01b038516600090815260d36020526040812060078101549091901580156132ee5750428260010154115b6132f95760006132fd565b60ee545b600183015490915061330f9082613121565b6001830155600a8201546133239082613121565b600a8301556001600160a01b03808616600090815260de60209081526040808320938b16835292905220546133589084613121565b6001600160a01b03808716600081815260de60209081526040808320948d1683529381528382209490945590815260df9092529020546133989084613121565b6001600160a01b038616600090815260df602052604090819020919091558254600184015491517f054cc567d76f4ff4c4550eae881b11d9d15b2eed8a7744bbc327e08de847910d926133f7928b9290918b918b918a918991906151ab565b60405180910390a150505050505050565b6001600160a01b03808216600090815260d360205260409020600381015481549192169060609061345357604051806060016040528060258152602001615de860259139905061360a565b60078301541561349a576040518060400160405280602081526020017f4775696c644170703a20537562736372697074696f6e2069732066726f7a656e815250905061360a565b6134a74262015180613121565b836001015411156134d2576040518060600160405280602d8152602001615caa602d9139905061360a565b6134dd60cf83612a24565b158061350e57506002830154600090815260cd602090815260408083206001600160a01b0386168452909152902054155b1561353357604051806060016040528060298152602001615dbf60299139905061360a565b600983015460ff1680156135d65750600283015460e45460405163e26dffd760e01b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__9263e26dffd7926135849260cc929190600401615a3e565b60206040518083038186803b15801561359c57600080fd5b505af41580156135b0573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906135d49190614f40565b155b1561360a575060408051808201909152601681527511dd5a5b19105c1c0e88151a595c881a5cc8199d5b1b60521b60208201525b805115613689577f993bab118acbe1c7158fbaa2c4d8ace138e36ebf96dbdf6289301e95d258de6584826040516024016136449190615401565b60408051601f198184030181529181526020820180516001600160e01b031662461bcd60e51b17905251613679929190615187565b60405180910390a1505050611f87565b600061369c858560020154856001611f8a565b90506bffffffffffffffffffffffff8111156136ca5760405162461bcd60e51b81526004016114519061580f565b60d65460405163228ab20d60e11b81526001600160a01b0390911690634515641a9061370790889087903090879060009081908490600401615053565b600060405180830381600087803b15801561372157600080fd5b505af1925050508015613732575060015b6137a5573d808015613760576040519150601f19603f3d011682016040523d82523d6000602084013e613765565b606091505b507f993bab118acbe1c7158fbaa2c4d8ace138e36ebf96dbdf6289301e95d258de658682604051613797929190615187565b60405180910390a1506138b7565b6000806137b183612bc1565b9150915060006137f58860cc6000018960020154815481106137cf57fe5b906000526020600020906003020160010154886116828689612df790919063ffffffff16565b90507fa497ecddc7ed871ecc32379521be872217843ad22510d64baae40febd3e5f66e88886000015489600201548988878760405161383a9796959493929190615248565b60405180910390a1811561170d576040516303bcd7f360e11b815273__$32cef4f64e636500be99c33a0d18eaccc8$__90630779afe690613883908990879087906004016150b2565b60006040518083038186803b15801561389b57600080fd5b505af41580156138af573d6000803e3d6000fd5b505050505050505b5050505050565b610ea88282604051806020016040528060008152506140cc565b6000610ece8383613ee5565b5490565b6001600160a01b0383161580159061390857506001600160a01b03821615155b15613b0c57600260e054600160a01b900460ff16600281111561392757fe5b14156139455760405162461bcd60e51b81526004016114519061588b565b600160e054600160a01b900460ff16600281111561395f57fe5b14156139bb57600081815260e160205260409020546001600160a01b0383811691161461399e5760405162461bcd60e51b81526004016114519061571a565b600081815260e16020526040902080546001600160a01b03191690555b6001600160a01b038216600090815260d36020526040902060010154156139f45760405162461bcd60e51b815260040161145190615603565b6001600160a01b03808416600081815260d36020526040808220868516835290822081548155600180830180549183019190915560028084018054918401919091556003808501805491850180546001600160a01b031990811693909a169290921790915560048086018054918601919091556005808701805491870191909155600680880180549188019190915560078089018054918901919091556008808a018054918a01919091556009808b018054918b01805460ff909316151560ff19938416179055600a808d018054918d0191909155600b808e01805491909d01559d8d529a8c9055978b9055958a90558454909b16909355908790558690558590559584905594839055815490941690559081905590555b6001600160a01b038216610d6d576001600160a01b038316600090815260d3602052604090206009015460ff16613bc3576001600160a01b038316600090815260d36020526040908190206002015490516303093b1b60e21b815273__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__91630c24ec6c91613b929160cc91600401615a0c565b60006040518083038186803b158015613baa57600080fd5b505af4158015613bbe573d6000803e3d6000fd5b505050505b50506001600160a01b0316600090815260d36020526040812081815560018101829055600281018290556003810180546001600160a01b0319169055600481018290556005810182905560068101829055600781018290556008810182905560098101805460ff19169055600a8101829055600b0155565b6000610ece838361411e565b6000610ece83836141e4565b600061299f84846001600160a01b03851661422e565b6000610ece836001600160a01b0384166141e4565b81546000908210613cc05760405162461bcd60e51b8152600401808060200182810382526022815260200180615af66022913960400191505060405180910390fd5b826000018281548110613ccf57fe5b9060005260206000200154905092915050565b6000610ece836001600160a01b03841661411e565b815460009081908310613d3b5760405162461bcd60e51b8152600401808060200182810382526022815260200180615cd76022913960400191505060405180910390fd5b6000846000018481548110613d4c57fe5b906000526020600020906002020190508060000154816001015492509250509250929050565b60008281526001840160205260408120548281613e0d5760405162461bcd60e51b81526004018080602001828103825283818151815260200191508051906020019080838360005b83811015613dd2578181015183820152602001613dba565b50505050905090810190601f168015613dff5780820380516001836020036101000a031916815260200191505b509250505060405180910390fd5b50846000016001820381548110613e2057fe5b9060005260206000209060020201600101549150509392505050565b600081815b8551811015613eda576000868281518110613e5857fe5b60200260200101519050808311613e9f5782816040516020018083815260200182815260200192505050604051602081830303815290604052805190602001209250613ed1565b808360405160200180838152602001828152602001925050506040516020818303038152906040528051906020012092505b50600101613e41565b509092149392505050565b60009081526001919091016020526040902054151590565b6000613f11846001600160a01b03166142c5565b613f1d57506001612742565b600061402b630a85bd0160e11b613f32612629565b88878760405160240180856001600160a01b03168152602001846001600160a01b0316815260200183815260200180602001828103825283818151815260200191508051906020019080838360005b83811015613f99578181015183820152602001613f81565b50505050905090810190601f168015613fc65780820380516001836020036101000a031916815260200191505b5095505050505050604051602081830303815290604052906001600160e01b0319166020820180516001600160e01b038381831617835250505050604051806060016040528060328152602001615b47603291396001600160a01b03881691906142cb565b9050600081806020019051602081101561404457600080fd5b50516001600160e01b031916630a85bd0160e11b1492505050949350505050565b60008082116140bb576040805162461bcd60e51b815260206004820152601a60248201527f536166654d6174683a206469766973696f6e206279207a65726f000000000000604482015290519081900360640190fd5b8183816140c457fe5b049392505050565b6140d683836142da565b6140e36000848484613efd565b610d6d5760405162461bcd60e51b8152600401808060200182810382526032815260200180615b476032913960400191505060405180910390fd5b600081815260018301602052604081205480156141da578354600019808301919081019060009087908390811061415157fe5b906000526020600020015490508087600001848154811061416e57fe5b60009182526020808320909101929092558281526001898101909252604090209084019055865487908061419e57fe5b60019003818190600052602060002001600090559055866001016000878152602001908152602001600020600090556001945050505050610ed1565b6000915050610ed1565b60006141f08383613ee5565b61422657508154600181810184556000848152602080822090930184905584548482528286019093526040902091909155610ed1565b506000610ed1565b6000828152600184016020526040812054806142935750506040805180820182528381526020808201848152865460018181018955600089815284812095516002909302909501918255915190820155865486845281880190925292909120556129a2565b828560000160018303815481106142a657fe5b90600052602060002090600202016001018190555060009150506129a2565b3b151590565b606061299f8484600085614408565b6001600160a01b038216614335576040805162461bcd60e51b815260206004820181905260248201527f4552433732313a206d696e7420746f20746865207a65726f2061646472657373604482015290519081900360640190fd5b61433e8161261c565b15614390576040805162461bcd60e51b815260206004820152601c60248201527f4552433732313a20746f6b656e20616c7265616479206d696e74656400000000604482015290519081900360640190fd5b61439c600083836138e8565b6001600160a01b03821660009081526065602052604090206143be9082613c47565b506143cb60668284613c53565b5060405181906001600160a01b038416906000907fddf252ad1be2c89b69c2b068fc378daa952ba7f163c4a11628f55a4df523b3ef908290a45050565b6060824710156144495760405162461bcd60e51b8152600401808060200182810382526026815260200180615b9d6026913960400191505060405180910390fd5b614452856142c5565b6144a3576040805162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e7472616374000000604482015290519081900360640190fd5b600080866001600160a01b031685876040518082805190602001908083835b602083106144e15780518252601f1990920191602091820191016144c2565b6001836020036101000a03801982511681845116808217855250505050505090500191505060006040518083038185875af1925050503d8060008114614543576040519150601f19603f3d011682016040523d82523d6000602084013e614548565b606091505b5091509150614558828286614563565b979650505050505050565b606083156145725750816129a2565b8251156145825782518084602001fd5b60405162461bcd60e51b8152602060048201818152845160248401528451859391928392604401919085019080838360008315613dd2578181015183820152602001613dba565b8035610ae481615ae0565b600082601f8301126145e4578081fd5b813560206001600160401b038211156145f957fe5b808202614607828201615ab3565b838152828101908684018388018501891015614621578687fd5b8693505b85841015614643578035835260019390930192918401918401614625565b50979650505050505050565b80358015158114610ae457600080fd5b600082601f83011261466f578081fd5b81356001600160401b0381111561468257fe5b614695601f8201601f1916602001615ab3565b8181528460208386010111156146a9578283fd5b816020850160208301379081016020019190915292915050565b60008083601f8401126146d4578182fd5b5081356001600160401b038111156146ea578182fd5b60208301915083602082850101111561298b57600080fd5b6000610100808385031215614715578182fd5b604051908101906001600160401b038211818310171561473157fe5b816040528092508335815260208401356020820152614752604085016145c9565b6040820152606084013560608201526080840135608082015260a084013560a082015261478160c085016145c9565b60c082015260e084013560e0820152505092915050565b803560ff81168114610ae457600080fd5b6000602082840312156147ba578081fd5b8135610ece81615ae0565b600080604083850312156147d7578081fd5b82356147e281615ae0565b915060208301356147f281615ae0565b809150509250929050565b600080600060608486031215614811578081fd5b833561481c81615ae0565b9250602084013561482c81615ae0565b929592945050506040919091013590565b60008060008060808587031215614852578081fd5b843561485d81615ae0565b9350602085013561486d81615ae0565b92506040850135915060608501356001600160401b0381111561488e578182fd5b61489a8782880161465f565b91505092959194509250565b600080604083850312156148b8578182fd5b82356148c381615ae0565b91506148d16020840161464f565b90509250929050565b600080604083850312156148ec578182fd5b82356148f781615ae0565b946020939093013593505050565b60008060408385031215614917578182fd5b825161492281615ae0565b6020939093015192949293505050565b60008060008060008060c0878903121561494a578384fd5b863561495581615ae0565b955060208701359450604087013561496c81615ae0565b935060608701356001600160401b0380821115614987578384fd5b6149938a838b0161465f565b94506080890135935060a08901359150808211156149af578283fd5b506149bc89828a0161465f565b9150509295509295509295565b600080600080600080600060e0888a0312156149e3578485fd5b87356149ee81615ae0565b9650602088013595506040880135614a0581615ae0565b945060608801356001600160401b0380821115614a20578283fd5b614a2c8b838c0161465f565b955060808a0135945060a08a0135935060c08a0135915080821115614a4f578283fd5b50614a5c8a828b0161465f565b91505092959891949750929550565b600080600080600080600060e0888a031215614a85578081fd5b8735614a9081615ae0565b9650602088013595506040880135614aa781615ae0565b9450606088013593506080880135925060a08801356001600160401b03811115614acf578182fd5b614adb8a828b0161465f565b92505060c0880135614aec81615ae0565b8091505092959891949750929550565b600080600080600080600060e0888a031215614b16578081fd5b8735614b2181615ae0565b9650602088013595506040880135614b3881615ae0565b9450606088013593506080880135925060a08801356001600160401b0380821115614b61578283fd5b614b6d8b838c0161465f565b935060c08a0135915080821115614b82578283fd5b50614a5c8a828b016145d4565b60008060008060008060008060006102008a8c031215614bad578283fd5b614bb68a6145c9565b985060208a01359750614bcb60408b016145c9565b965060608a0135955060808a0135945060a08a01356001600160401b0380821115614bf4578485fd5b614c008d838e0161465f565b9550614c0f8d60c08e01614702565b94506101c08c0135915080821115614c25578384fd5b614c318d838e0161465f565b93506101e08c0135915080821115614c47578283fd5b50614c548c828d016145d4565b9150509295985092959850929598565b600080600080600080600060c0888a031215614c7e578081fd5b8735614c8981615ae0565b9650602088013595506040880135614ca081615ae0565b9450606088013593506080880135925060a08801356001600160401b03811115614cc8578182fd5b614cd48a828b016146c3565b989b979a50959850939692959293505050565b600080600080600080868803610160811215614d01578485fd5b8735614d0c81615ae0565b9650602088013595506040880135614d2381615ae0565b9450606088013593506080880135925060c0609f1982011215614d44578182fd5b5060405160c081018181106001600160401b0382111715614d6157fe5b604052614d7060a0890161464f565b815260c0880135602082015260e08801356040820152614d936101008901614798565b6060820152610120880135608082015261014088013560a0820152809150509295509295509295565b60008060008060608587031215614dd1578182fd5b8435614ddc81615ae0565b93506020850135925060408501356001600160401b03811115614dfd578283fd5b614e09878288016146c3565b95989497509550505050565b60008060208385031215614e27578182fd5b82356001600160401b0380821115614e3d578384fd5b818501915085601f830112614e50578384fd5b813581811115614e5e578485fd5b8660208083028501011115614e71578485fd5b60209290920196919550909350505050565b600060208284031215614e94578081fd5b5035919050565b60008060408385031215614ead578182fd5b8235915060208301356147f281615ae0565b600080600060608486031215614ed3578081fd5b835192506020840151614ee581615ae0565b80925050604084015190509250925092565b60008060408385031215614f09578182fd5b50508035926020909101359150565b600060208284031215614f29578081fd5b81356001600160e01b031981168114610ece578182fd5b600060208284031215614f51578081fd5b5051919050565b6001600160a01b03169052565b60008151808452815b81811015614f8a57602081850181015186830182015201614f6e565b81811115614f9b5782602083870101525b50601f01601f19169290920160200192915050565b60609190911b6bffffffffffffffffffffffff1916815260140190565b6001600160a01b0391909116815260200190565b6001600160a01b03878116825286166020820152604081018590526060810184905260a06080820181905281018290526000828460c084013781830160c090810191909152601f909201601f1916010195945050505050565b6001600160a01b03929092168252602082015260400190565b6001600160a01b039788168152958716602087015293861660408601526bffffffffffffffffffffffff928316606086015290851660808501521660a083015290911660c082015261010060e082018190526000908201526101200190565b6001600160a01b039384168152919092166020820152604081019190915260600190565b600060018060a01b038088168352808716602084015285604084015260a0606084015261510660a0840186614f65565b91508084166080840152509695505050505050565b60006101208201905060018060a01b03808716835280861660208401525083604083015282511515606083015260208301516080830152604083015160a083015260ff60608401511660c0830152608083015160e083015260a083015161010083015295945050505050565b6001600160a01b038316815260406020820181905260009061299f90830184614f65565b6001600160a01b03978816815260208101969096529386166040860152919094166060840152608083019390935260a082019290925260c081019190915260e00190565b600061010060018060a01b03808c1684528a60208501528960408501528089166060850152508660808401528560a08401528460c08401528060e084015261523981840185614f65565b9b9a5050505050505050505050565b6001600160a01b03978816815260208101969096526040860194909452919094166060840152608083019390935260a082019290925260c081019190915261010060e082018190526000908201526101200190565b901515815260200190565b90815260200190565b9283526001600160a01b03919091166020830152604082015260600190565b602081016152dd83615ad6565b91905290565b600061012086835260018060a01b03808716602085015263ffffffff60e01b865116604085015260208601516060850152806040870151166080850152606086015160a0850152608086015160c08501528060a08701511660e0850152508061010084015261455881840185614f65565b60006101c08983528851602084015260208901516040840152604089015160018060a01b03808216606086015260608b0151608086015260808b015160a086015260a08b015160c08601528060c08c01511660e0860152505060e0890151610100840152806101208401526153cb81840189614f65565b9150506153dc610140830187614f58565b6153ea610160830186614f58565b6101808201939093526101a0015295945050505050565b600060208252610ece6020830184614f65565b60208082526025908201527f4775696c644170703a20546f6b656e20686173206e6f74206265656e206170706040820152641c9bdd995960da1b606082015260800190565b6020808252601e908201527f4775696c644170703a204775696c6420697320696e766974652d6f6e6c790000604082015260600190565b6020808252601d908201527f4775696c644170703a20696e636f7272656374206d73672e76616c7565000000604082015260600190565b60208082526017908201527f4775696c644170703a204775696c642069732066756c6c000000000000000000604082015260600190565b6020808252818101527f4775696c644170703a20537562736372697074696f6e2069732066726f7a656e604082015260600190565b6020808252601f908201527f4775696c644170703a20546865204775696c642069732064697361626c656400604082015260600190565b60208082526023908201527f4775696c644170703a20536561747320617265207374696c6c20617661696c61604082015262626c6560e81b606082015260800190565b60208082526036908201527f4775696c644170703a2043616e6e6f74206368616e67652074696572206f6e2060408201527530b71030b1ba34bb329039bab139b1b934b83a34b7b760511b606082015260800190565b60208082526036908201527f4775696c644170703a20526563697069656e7420616c7265616479206861732060408201527530b71030b1ba34bb329039bab139b1b934b83a34b7b760511b606082015260800190565b6020808252602b908201527f4775696c644170703a2054697020616d6f756e74206d7573742062652067726560408201526a061746572207468616e20360ac1b606082015260800190565b6020808252818101527f4775696c644170703a204163636f756e74206973206e6f7420696e7669746564604082015260600190565b60208082526021908201527f4775696c644170703a20496e73756666696369656e742076616c75652073656e6040820152601d60fa1b606082015260800190565b60208082526035908201527f4775696c644170703a205472616e7366657220686173206e6f74206265656e20604082015274185c1c1c9bdd995908189e481d1a194819dd5a5b19605a1b606082015260800190565b60208082526030908201527f4775696c644170703a204775696c6420646f6573206e6f7420737570706f727460408201526f205361666520416c6c6f77616e63657360801b606082015260800190565b60208082526030908201527f4775696c644170703a20566f7563686572206973206e6f74207369676e65642060408201526f313c90309033bab4b6321030b236b4b760811b606082015260800190565b6020808252601e908201527f4775696c644170703a2056616c756520657863656564732075696e7439360000604082015260600190565b60208082526025908201527f4775696c644170703a20537562736372697074696f6e20646f6573206e6f7420604082015264195e1a5cdd60da1b606082015260800190565b6020808252602c908201527f4775696c644170703a20537562736372697074696f6e7320617265206e6f6e2d60408201526b7472616e7366657261626c6560a01b606082015260800190565b6020808252602b908201527f4775696c644170703a206d73672e73656e646572206d7573742062652074686560408201526a1039bab139b1b934b132b960a91b606082015260800190565b6020808252602c908201527f4775696c644170703a20566f7563686572206973206e6f742076616c6964206660408201526b37b9103a3434b9903a34b2b960a11b606082015260800190565b60208082526037908201527f4775696c644170703a204554482073686f756c64206265207472616e7366657260408201527f7265642076696120416c6c6f77616e63654d6f64756c65000000000000000000606082015260800190565b60208082526021908201527f4775696c644170703a20536561742063616e6e6f742062652072656c656173656040820152601960fa1b606082015260800190565b918252602082015260400190565b93845260208401929092526001600160a01b03166040830152606082015260800190565b9283526020830191909152604082015260600190565b9b8c5260208c019a909a5260408b01989098526001600160a01b039690961660608a0152608089019490945260a088019290925260c087015260e086015261010085015215156101208401526101408301526101608201526101800190565b6040518181016001600160401b0381118282101715615ace57fe5b604052919050565b60038110611f8757fe5b6001600160a01b0381168114611f8757600080fdfe456e756d657261626c655365743a20696e646578206f7574206f6620626f756e6473416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f206772616e744552433732313a207472616e7366657220746f206e6f6e20455243373231526563656976657220696d706c656d656e7465724552433732313a207472616e7366657220746f20746865207a65726f2061646472657373416464726573733a20696e73756666696369656e742062616c616e636520666f722063616c6c4552433732313a206f70657261746f7220717565727920666f72206e6f6e6578697374656e7420746f6b656e416363657373436f6e74726f6c3a2073656e646572206d75737420626520616e2061646d696e20746f207265766f6b654552433732313a20617070726f76652063616c6c6572206973206e6f74206f776e6572206e6f7220617070726f76656420666f7220616c6c4552433732313a2062616c616e636520717565727920666f7220746865207a65726f20616464726573734552433732313a206f776e657220717565727920666f72206e6f6e6578697374656e7420746f6b656e4775696c644170703a20537562736372697074696f6e206973206e6f742064756520666f722072656e6577616c456e756d657261626c654d61703a20696e646578206f7574206f6620626f756e6473536166654d6174683a206d756c7469706c69636174696f6e206f766572666c6f774552433732313a20617070726f76656420717565727920666f72206e6f6e6578697374656e7420746f6b656e4552433732313a207472616e73666572206f6620746f6b656e2074686174206973206e6f74206f776e4552433732314d657461646174613a2055524920717565727920666f72206e6f6e6578697374656e7420746f6b656e4552433732313a20617070726f76616c20746f2063757272656e74206f776e65724775696c644170703a2054696572206973206e6f7420617661696c61626c6520666f7220746f6b656e4775696c644170703a20537562736372697074696f6e20646f6573206e6f742065786973744552433732313a207472616e736665722063616c6c6572206973206e6f74206f776e6572206e6f7220617070726f766564416363657373436f6e74726f6c3a2063616e206f6e6c792072656e6f756e636520726f6c657320666f722073656c66a2646970667358221220c80f250f9c152cfe695324f6fbb300cb054a017cbbcc464c9a3b12487af4d95464736f6c63430007060033";
+
+export interface GuildAppSubscriptionExtensionLibraryAddresses {
+  ["__$32cef4f64e636500be99c33a0d18eaccc8$__"]: string;
+  ["__$f989dde10ffb2e16f493e0f9c7e8ffd1bd$__"]: string;
+  ["__$79ea29588deb50a07829d76714340cd9c6$__"]: string;
+}
@@ -0,0 +1,76 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer, BigNumberish } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { GuildBeaconProxy } from "./GuildBeaconProxy";
+
+export class GuildBeaconProxyFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(
+    _beacon: string,
+    _version: BigNumberish,
+    overrides?: Overrides
+  ): Promise<GuildBeaconProxy> {
+    return super.deploy(
+      _beacon,
+      _version,
+      overrides || {}
+    ) as Promise<GuildBeaconProxy>;
+  }
+  getDeployTransaction(
+    _beacon: string,
+    _version: BigNumberish,
+    overrides?: Overrides
+  ): TransactionRequest {
+    return super.getDeployTransaction(_beacon, _version, overrides || {});
+  }
+  attach(address: string): GuildBeaconProxy {
+    return super.attach(address) as GuildBeaconProxy;
+  }
+  connect(signer: Signer): GuildBeaconProxyFactory {
+    return super.connect(signer) as GuildBeaconProxyFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): GuildBeaconProxy {
+    return new Contract(address, _abi, signerOrProvider) as GuildBeaconProxy;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_beacon",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_version",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    stateMutability: "payable",
+    type: "fallback",
+  },
+  {
+    stateMutability: "payable",
+    type: "receive",
+  },
+];
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b506040516102533803806102538339818101604052604081101561003357600080fd5b508051602091820151909161005190839061004761006b821b17901c565b6100648161008f60201b61006b1760201c565b50506100b2565b7fa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d5055565b7e35d03d5b7ec8a5dc47a052514222f4cf7ee219e90726e32aa4974b03574c9c55565b610192806100c16000396000f3fe60806040523661001357610011610017565b005b6100115b600061002161008e565b90503660008037600080366000845af43d6000803e808015610042573d6000f35b3d6000fd5b7fa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d5055565b7e35d03d5b7ec8a5dc47a052514222f4cf7ee219e90726e32aa4974b03574c9c55565b6000610098610113565b6001600160a01b031663803c18ac6100ae610138565b6040518263ffffffff1660e01b81526004018082815260200191505060206040518083038186803b1580156100e257600080fd5b505afa1580156100f6573d6000803e3d6000fd5b505050506040513d602081101561010c57600080fd5b5051905090565b7fa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d505490565b7e35d03d5b7ec8a5dc47a052514222f4cf7ee219e90726e32aa4974b03574c9c549056fea2646970667358221220b426b9152756df3b1a62ce37371640a481238f904f20e4faa23e9ccf9ab07a9e64736f6c63430007060033";
@@ -22,51 +22,176 @@ import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
 
 interface GuildFactoryInterface extends ethers.utils.Interface {
   functions: {
+    "MAX_PROTOCOL_FEE_BPS()": FunctionFragment;
     "createGuild(bytes)": FunctionFragment;
+    "createGuildDeterministic(bytes,bytes32)": FunctionFragment;
+    "createUpgradeableGuild(bytes)": FunctionFragment;
+    "feeRecipient()": FunctionFragment;
     "guildsOf(address)": FunctionFragment;
     "initialize(address)": FunctionFragment;
+    "latestVersion()": FunctionFragment;
+    "owner()": FunctionFragment;
     "predictDeterministicAddress(bytes32)": FunctionFragment;
+    "predictGuildAddress(address,bytes32)": FunctionFragment;
+    "protocolFee()": FunctionFragment;
+    "protocolFeeBps()": FunctionFragment;
+    "publishTemplateVersion(address)": FunctionFragment;
+    "renewBatch(address[],address[])": FunctionFragment;
+    "setProtocolFee(address,uint256)": FunctionFragment;
     "template()": FunctionFragment;
+    "templateVersions(uint256)": FunctionFragment;
     "totalGuilds()": FunctionFragment;
+    "transferOwnership(address)": FunctionFragment;
   };
 
+  encodeFunctionData(
+    functionFragment: "MAX_PROTOCOL_FEE_BPS",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "createGuild",
     values: [BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "createGuildDeterministic",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "createUpgradeableGuild",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "feeRecipient",
+    values?: undefined
+  ): string;
   encodeFunctionData(functionFragment: "guildsOf", values: [string]): string;
   encodeFunctionData(functionFragment: "initialize", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "latestVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "owner", values?: undefined): string;
   encodeFunctionData(
     functionFragment: "predictDeterministicAddress",
     values: [BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "predictGuildAddress",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolFee",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolFeeBps",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "publishTemplateVersion",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renewBatch",
+    values: [string[], string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setProtocolFee",
+    values: [string, BigNumberish]
+  ): string;
   encodeFunctionData(functionFragment: "template", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "templateVersions",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "totalGuilds",
     values?: undefined
   ): string;
+  encodeFunctionData(
+    functionFragment: "transferOwnership",
+    values: [string]
+  ): string;
 
+  decodeFunctionResult(
+    functionFragment: "MAX_PROTOCOL_FEE_BPS",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "createGuild",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "createGuildDeterministic",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "createUpgradeableGuild",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "feeRecipient",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "guildsOf", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "initialize", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "latestVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "owner", data: BytesLike): Result;
   decodeFunctionResult(
     functionFragment: "predictDeterministicAddress",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "predictGuildAddress",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "protocolFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "protocolFeeBps",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "publishTemplateVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "renewBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setProtocolFee",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "template", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "templateVersions",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "totalGuilds",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "transferOwnership",
+    data: BytesLike
+  ): Result;
 
   events: {
-    "NewGuild(address,address)": EventFragment;
+    "GuildRenewalFailed(address,bytes)": EventFragment;
+    "NewGuild(address,address,uint256,bool)": EventFragment;
+    "OwnershipTransferred(address,address)": EventFragment;
+    "ProtocolFeeUpdated(address,uint256)": EventFragment;
+    "TemplateVersionPublished(uint256,address)": EventFragment;
   };
 
+  getEvent(nameOrSignatureOrTopic: "GuildRenewalFailed"): EventFragment;
   getEvent(nameOrSignatureOrTopic: "NewGuild"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "OwnershipTransferred"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ProtocolFeeUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TemplateVersionPublished"): EventFragment;
 }
 
 export class GuildFactory extends Contract {
@@ -83,17 +208,54 @@ export class GuildFactory extends Contract {
   interface: GuildFactoryInterface;
 
   functions: {
+    MAX_PROTOCOL_FEE_BPS(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "MAX_PROTOCOL_FEE_BPS()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    createGuild(
+      _initData: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     "createGuild(bytes)"(
       _initData: BytesLike,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    "createGuild(bytes,bytes32)"(
+    createGuildDeterministic(
       _initData: BytesLike,
       _salt: BytesLike,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
+    "createGuildDeterministic(bytes,bytes32)"(
+      _initData: BytesLike,
+      _salt: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    createUpgradeableGuild(
+      _initData: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "createUpgradeableGuild(bytes)"(
+      _initData: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    feeRecipient(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "feeRecipient()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
     guildsOf(
       _owner: string,
       overrides?: CallOverrides
@@ -118,6 +280,22 @@ export class GuildFactory extends Contract {
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
+    latestVersion(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "latestVersion()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    owner(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
+    "owner()"(overrides?: CallOverrides): Promise<{
+      0: string;
+    }>;
+
     predictDeterministicAddress(
       _salt: BytesLike,
       overrides?: CallOverrides
@@ -134,6 +312,78 @@ export class GuildFactory extends Contract {
       0: string;
     }>;
 
+    predictGuildAddress(
+      _creator: string,
+      _salt: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "predictGuildAddress(address,bytes32)"(
+      _creator: string,
+      _salt: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    protocolFee(overrides?: CallOverrides): Promise<{
+      _recipient: string;
+      _feeBps: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+
+    "protocolFee()"(overrides?: CallOverrides): Promise<{
+      _recipient: string;
+      _feeBps: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+
+    protocolFeeBps(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "protocolFeeBps()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    publishTemplateVersion(
+      _template: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "publishTemplateVersion(address)"(
+      _template: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    renewBatch(
+      _guildList: string[],
+      _subscribers: string[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "renewBatch(address[],address[])"(
+      _guildList: string[],
+      _subscribers: string[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    setProtocolFee(
+      _feeRecipient: string,
+      _feeBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "setProtocolFee(address,uint256)"(
+      _feeRecipient: string,
+      _feeBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     template(overrides?: CallOverrides): Promise<{
       0: string;
     }>;
@@ -142,6 +392,20 @@ export class GuildFactory extends Contract {
       0: string;
     }>;
 
+    templateVersions(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "templateVersions(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
     totalGuilds(overrides?: CallOverrides): Promise<{
       0: BigNumber;
     }>;
@@ -149,19 +413,58 @@ export class GuildFactory extends Contract {
     "totalGuilds()"(overrides?: CallOverrides): Promise<{
       0: BigNumber;
     }>;
+
+    transferOwnership(
+      _newOwner: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "transferOwnership(address)"(
+      _newOwner: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
   };
 
+  MAX_PROTOCOL_FEE_BPS(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "MAX_PROTOCOL_FEE_BPS()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  createGuild(
+    _initData: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
   "createGuild(bytes)"(
     _initData: BytesLike,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
-  "createGuild(bytes,bytes32)"(
+  createGuildDeterministic(
+    _initData: BytesLike,
+    _salt: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "createGuildDeterministic(bytes,bytes32)"(
     _initData: BytesLike,
     _salt: BytesLike,
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
+  createUpgradeableGuild(
+    _initData: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "createUpgradeableGuild(bytes)"(
+    _initData: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  feeRecipient(overrides?: CallOverrides): Promise<string>;
+
+  "feeRecipient()"(overrides?: CallOverrides): Promise<string>;
+
   guildsOf(_owner: string, overrides?: CallOverrides): Promise<string[]>;
 
   "guildsOf(address)"(
@@ -179,6 +482,14 @@ export class GuildFactory extends Contract {
     overrides?: Overrides
   ): Promise<ContractTransaction>;
 
+  latestVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "latestVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  owner(overrides?: CallOverrides): Promise<string>;
+
+  "owner()"(overrides?: CallOverrides): Promise<string>;
+
   predictDeterministicAddress(
     _salt: BytesLike,
     overrides?: CallOverrides
@@ -189,26 +500,136 @@ export class GuildFactory extends Contract {
     overrides?: CallOverrides
   ): Promise<string>;
 
+  predictGuildAddress(
+    _creator: string,
+    _salt: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "predictGuildAddress(address,bytes32)"(
+    _creator: string,
+    _salt: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  protocolFee(overrides?: CallOverrides): Promise<{
+    _recipient: string;
+    _feeBps: BigNumber;
+    0: string;
+    1: BigNumber;
+  }>;
+
+  "protocolFee()"(overrides?: CallOverrides): Promise<{
+    _recipient: string;
+    _feeBps: BigNumber;
+    0: string;
+    1: BigNumber;
+  }>;
+
+  protocolFeeBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "protocolFeeBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  publishTemplateVersion(
+    _template: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "publishTemplateVersion(address)"(
+    _template: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  renewBatch(
+    _guildList: string[],
+    _subscribers: string[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "renewBatch(address[],address[])"(
+    _guildList: string[],
+    _subscribers: string[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setProtocolFee(
+    _feeRecipient: string,
+    _feeBps: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setProtocolFee(address,uint256)"(
+    _feeRecipient: string,
+    _feeBps: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
   template(overrides?: CallOverrides): Promise<string>;
 
   "template()"(overrides?: CallOverrides): Promise<string>;
 
+  templateVersions(
+    arg0: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "templateVersions(uint256)"(
+    arg0: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
   totalGuilds(overrides?: CallOverrides): Promise<BigNumber>;
 
   "totalGuilds()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+  transferOwnership(
+    _newOwner: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "transferOwnership(address)"(
+    _newOwner: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
   callStatic: {
+    MAX_PROTOCOL_FEE_BPS(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "MAX_PROTOCOL_FEE_BPS()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    createGuild(_initData: BytesLike, overrides?: CallOverrides): Promise<void>;
+
     "createGuild(bytes)"(
       _initData: BytesLike,
       overrides?: CallOverrides
     ): Promise<void>;
 
-    "createGuild(bytes,bytes32)"(
+    createGuildDeterministic(
       _initData: BytesLike,
       _salt: BytesLike,
       overrides?: CallOverrides
     ): Promise<void>;
 
+    "createGuildDeterministic(bytes,bytes32)"(
+      _initData: BytesLike,
+      _salt: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    createUpgradeableGuild(
+      _initData: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "createUpgradeableGuild(bytes)"(
+      _initData: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    feeRecipient(overrides?: CallOverrides): Promise<string>;
+
+    "feeRecipient()"(overrides?: CallOverrides): Promise<string>;
+
     guildsOf(_owner: string, overrides?: CallOverrides): Promise<string[]>;
 
     "guildsOf(address)"(
@@ -223,6 +644,14 @@ export class GuildFactory extends Contract {
       overrides?: CallOverrides
     ): Promise<void>;
 
+    latestVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "latestVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    owner(overrides?: CallOverrides): Promise<string>;
+
+    "owner()"(overrides?: CallOverrides): Promise<string>;
+
     predictDeterministicAddress(
       _salt: BytesLike,
       overrides?: CallOverrides
@@ -233,31 +662,163 @@ export class GuildFactory extends Contract {
       overrides?: CallOverrides
     ): Promise<string>;
 
+    predictGuildAddress(
+      _creator: string,
+      _salt: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "predictGuildAddress(address,bytes32)"(
+      _creator: string,
+      _salt: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    protocolFee(overrides?: CallOverrides): Promise<{
+      _recipient: string;
+      _feeBps: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+
+    "protocolFee()"(overrides?: CallOverrides): Promise<{
+      _recipient: string;
+      _feeBps: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+
+    protocolFeeBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "protocolFeeBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    publishTemplateVersion(
+      _template: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "publishTemplateVersion(address)"(
+      _template: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    renewBatch(
+      _guildList: string[],
+      _subscribers: string[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "renewBatch(address[],address[])"(
+      _guildList: string[],
+      _subscribers: string[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setProtocolFee(
+      _feeRecipient: string,
+      _feeBps: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setProtocolFee(address,uint256)"(
+      _feeRecipient: string,
+      _feeBps: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     template(overrides?: CallOverrides): Promise<string>;
 
     "template()"(overrides?: CallOverrides): Promise<string>;
 
+    templateVersions(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "templateVersions(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
     totalGuilds(overrides?: CallOverrides): Promise<BigNumber>;
 
     "totalGuilds()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    transferOwnership(
+      _newOwner: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "transferOwnership(address)"(
+      _newOwner: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
   };
 
   filters: {
-    NewGuild(guildOwner: string | null, guild: string | null): EventFilter;
+    GuildRenewalFailed(guild: string | null, reason: null): EventFilter;
+
+    NewGuild(
+      guildOwner: string | null,
+      guild: string | null,
+      version: null,
+      upgradeable: null
+    ): EventFilter;
+
+    OwnershipTransferred(
+      previousOwner: string | null,
+      newOwner: string | null
+    ): EventFilter;
+
+    ProtocolFeeUpdated(feeRecipient: null, feeBps: null): EventFilter;
+
+    TemplateVersionPublished(
+      version: BigNumberish | null,
+      template: null
+    ): EventFilter;
   };
 
   estimateGas: {
+    MAX_PROTOCOL_FEE_BPS(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "MAX_PROTOCOL_FEE_BPS()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    createGuild(
+      _initData: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     "createGuild(bytes)"(
       _initData: BytesLike,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    "createGuild(bytes,bytes32)"(
+    createGuildDeterministic(
+      _initData: BytesLike,
+      _salt: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "createGuildDeterministic(bytes,bytes32)"(
       _initData: BytesLike,
       _salt: BytesLike,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    createUpgradeableGuild(
+      _initData: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "createUpgradeableGuild(bytes)"(
+      _initData: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    feeRecipient(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "feeRecipient()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     guildsOf(_owner: string, overrides?: CallOverrides): Promise<BigNumber>;
 
     "guildsOf(address)"(
@@ -272,6 +833,14 @@ export class GuildFactory extends Contract {
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    latestVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "latestVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    owner(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "owner()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     predictDeterministicAddress(
       _salt: BytesLike,
       overrides?: CallOverrides
@@ -282,27 +851,134 @@ export class GuildFactory extends Contract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    predictGuildAddress(
+      _creator: string,
+      _salt: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "predictGuildAddress(address,bytes32)"(
+      _creator: string,
+      _salt: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    protocolFee(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "protocolFee()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    protocolFeeBps(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "protocolFeeBps()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    publishTemplateVersion(
+      _template: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "publishTemplateVersion(address)"(
+      _template: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    renewBatch(
+      _guildList: string[],
+      _subscribers: string[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "renewBatch(address[],address[])"(
+      _guildList: string[],
+      _subscribers: string[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setProtocolFee(
+      _feeRecipient: string,
+      _feeBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setProtocolFee(address,uint256)"(
+      _feeRecipient: string,
+      _feeBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     template(overrides?: CallOverrides): Promise<BigNumber>;
 
     "template()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+    templateVersions(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "templateVersions(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     totalGuilds(overrides?: CallOverrides): Promise<BigNumber>;
 
     "totalGuilds()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    transferOwnership(
+      _newOwner: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "transferOwnership(address)"(
+      _newOwner: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
   };
 
   populateTransaction: {
+    MAX_PROTOCOL_FEE_BPS(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "MAX_PROTOCOL_FEE_BPS()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    createGuild(
+      _initData: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     "createGuild(bytes)"(
       _initData: BytesLike,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
-    "createGuild(bytes,bytes32)"(
+    createGuildDeterministic(
+      _initData: BytesLike,
+      _salt: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "createGuildDeterministic(bytes,bytes32)"(
       _initData: BytesLike,
       _salt: BytesLike,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    createUpgradeableGuild(
+      _initData: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "createUpgradeableGuild(bytes)"(
+      _initData: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    feeRecipient(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "feeRecipient()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     guildsOf(
       _owner: string,
       overrides?: CallOverrides
@@ -323,6 +999,14 @@ export class GuildFactory extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    latestVersion(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "latestVersion()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    owner(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "owner()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     predictDeterministicAddress(
       _salt: BytesLike,
       overrides?: CallOverrides
@@ -333,12 +1017,88 @@ export class GuildFactory extends Contract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    predictGuildAddress(
+      _creator: string,
+      _salt: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "predictGuildAddress(address,bytes32)"(
+      _creator: string,
+      _salt: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    protocolFee(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "protocolFee()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    protocolFeeBps(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "protocolFeeBps()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    publishTemplateVersion(
+      _template: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "publishTemplateVersion(address)"(
+      _template: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    renewBatch(
+      _guildList: string[],
+      _subscribers: string[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "renewBatch(address[],address[])"(
+      _guildList: string[],
+      _subscribers: string[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setProtocolFee(
+      _feeRecipient: string,
+      _feeBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setProtocolFee(address,uint256)"(
+      _feeRecipient: string,
+      _feeBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     template(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     "template()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
+    templateVersions(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "templateVersions(uint256)"(
+      arg0: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     totalGuilds(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     "totalGuilds()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    transferOwnership(
+      _newOwner: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "transferOwnership(address)"(
+      _newOwner: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
   };
 }
@@ -34,6 +34,30 @@ export class GuildFactoryFactory extends ContractFactory {
 }
 
 const _abi = [
+  {
+    inputs: [],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "guild",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "bytes",
+        name: "reason",
+        type: "bytes",
+      },
+    ],
+    name: "GuildRenewalFailed",
+    type: "event",
+  },
   {
     anonymous: false,
     inputs: [
@@ -49,10 +73,92 @@ const _abi = [
         name: "guild",
         type: "address",
       },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "bool",
+        name: "upgradeable",
+        type: "bool",
+      },
     ],
     name: "NewGuild",
     type: "event",
   },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "address",
+        name: "previousOwner",
+        type: "address",
+      },
+      {
+        indexed: true,
+        internalType: "address",
+        name: "newOwner",
+        type: "address",
+      },
+    ],
+    name: "OwnershipTransferred",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "feeRecipient",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "feeBps",
+        type: "uint256",
+      },
+    ],
+    name: "ProtocolFeeUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: true,
+        internalType: "uint256",
+        name: "version",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "template",
+        type: "address",
+      },
+    ],
+    name: "TemplateVersionPublished",
+    type: "event",
+  },
+  {
+    inputs: [],
+    name: "MAX_PROTOCOL_FEE_BPS",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -79,11 +185,37 @@ const _abi = [
         type: "bytes32",
       },
     ],
-    name: "createGuild",
+    name: "createGuildDeterministic",
     outputs: [],
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "_initData",
+        type: "bytes",
+      },
+    ],
+    name: "createUpgradeableGuild",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "feeRecipient",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -116,6 +248,32 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "latestVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "owner",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -135,6 +293,110 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_creator",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "_salt",
+        type: "bytes32",
+      },
+    ],
+    name: "predictGuildAddress",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolFee",
+    outputs: [
+      {
+        internalType: "address",
+        name: "_recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_feeBps",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "protocolFeeBps",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_template",
+        type: "address",
+      },
+    ],
+    name: "publishTemplateVersion",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "_guildList",
+        type: "address[]",
+      },
+      {
+        internalType: "address[]",
+        name: "_subscribers",
+        type: "address[]",
+      },
+    ],
+    name: "renewBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_feeRecipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_feeBps",
+        type: "uint256",
+      },
+    ],
+    name: "setProtocolFee",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [],
     name: "template",
@@ -148,6 +410,25 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    name: "templateVersions",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [],
     name: "totalGuilds",
@@ -161,7 +442,20 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_newOwner",
+        type: "address",
+      },
+    ],
+    name: "transferOwnership",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
 ];
 
 const _bytecode =
-  "0x608060405234801561001057600080fd5b50610dfb806100206000396000f3fe608060405234801561001057600080fd5b506004361061007d5760003560e01c80635fee5cfd1161005b5780635fee5cfd146100d35780636f2ddd93146100e8578063afd58143146100f0578063c4d66de8146101105761007d565b80631d2fccc61461008257806339b04852146100975780635414dff0146100aa575b600080fd5b610095610090366004610bd1565b610123565b005b6100956100a5366004610c11565b610168565b6100bd6100b8366004610bb9565b6101a6565b6040516100ca9190610c5b565b60405180910390f35b6100db6101cb565b6040516100ca9190610d46565b6100bd6101dc565b6101036100fe366004610b72565b6101f1565b6040516100ca9190610c6f565b61009561011e366004610b72565b6102d9565b6000546201000090046001600160a01b031661015a5760405162461bcd60e51b815260040161015190610cbc565b60405180910390fd5b61016482826102e5565b5050565b6000546201000090046001600160a01b03166101965760405162461bcd60e51b815260040161015190610cbc565b6101a183838361030e565b505050565b600080546101c3906201000090046001600160a01b03168361033e565b90505b919050565b60006101d76001610354565b905090565b6000546201000090046001600160a01b031681565b6001600160a01b03811660009081526002602052604081206060919061021690610358565b67ffffffffffffffff8111801561022c57600080fd5b50604051908082528060200260200182016040528015610256578160200160208202803683370190505b50905060005b6001600160a01b038416600090815260026020526040902061027d90610358565b8110156102d2576001600160a01b03841660009081526002602052604090206102a69082610363565b8282815181106102b257fe5b6001600160a01b039092166020928302919091019091015260010161025c565b5092915050565b6102e28161036f565b50565b60005433906101a190610306906201000090046001600160a01b031661041a565b8285856104b7565b600054339061033890610330906201000090046001600160a01b03168461060f565b8286866104b7565b50505050565b600061034b8383306106b4565b90505b92915050565b5490565b60006101c382610354565b600061034b8383610712565b600054610100900460ff16806103885750610388610776565b80610396575060005460ff16155b6103d15760405162461bcd60e51b815260040180806020018281038252602e815260200180610d98602e913960400191505060405180910390fd5b600054610100900460ff161580156103fc576000805460ff1961ff0019909116610100171660011790555b61040582610787565b8015610164576000805461ff00191690555050565b6000604051733d602d80600a3d3981f3363d3d373d3d3d363d7360601b81528260601b60148201526e5af43d82803e903d91602b57fd5bf360881b60288201526037816000f09150506001600160a01b0381166101c6576040805162461bcd60e51b8152602060048201526016602482015275115490cc4c4d8dce8818dc99585d194819985a5b195960521b604482015290519081900360640190fd5b6104c1600161084b565b836001600160a01b0316836001600160a01b03167f2421772b9a2bfe82afb99bffc50912fd043b36c18b6b33dea404672d33d7e91d60405160405180910390a380156105535761055182828080601f016020809104026020016040519081016040528093929190818152602001838380828437600092019190915250506001600160a01b03881692915050610854565b505b6000849050806001600160a01b031663158ef93e6040518163ffffffff1660e01b815260040160206040518083038186803b15801561059157600080fd5b505afa1580156105a5573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906105c99190610b99565b6105e55760405162461bcd60e51b815260040161015190610d00565b6001600160a01b03841660009081526002602052604090206106079086610896565b505050505050565b6000604051733d602d80600a3d3981f3363d3d373d3d3d363d7360601b81528360601b60148201526e5af43d82803e903d91602b57fd5bf360881b6028820152826037826000f59150506001600160a01b03811661034e576040805162461bcd60e51b815260206004820152601760248201527f455243313136373a2063726561746532206661696c6564000000000000000000604482015290519081900360640190fd5b604051733d602d80600a3d3981f3363d3d373d3d3d363d7360601b8152606093841b60148201526f5af43d82803e903d91602b57fd5bf3ff60801b6028820152921b6038830152604c8201526037808220606c830152605591012090565b815460009082106107545760405162461bcd60e51b8152600401808060200182810382526022815260200180610d506022913960400191505060405180910390fd5b82600001828154811061076357fe5b9060005260206000200154905092915050565b6000610781306108ab565b15905090565b600054610100900460ff16806107a057506107a0610776565b806107ae575060005460ff16155b6107e95760405162461bcd60e51b815260040180806020018281038252602e815260200180610d98602e913960400191505060405180910390fd5b600054610100900460ff16158015610814576000805460ff1961ff0019909116610100171660011790555b6000805462010000600160b01b031916620100006001600160a01b038516021790558015610164576000805461ff00191690555050565b80546001019055565b606061034b83836040518060400160405280601e81526020017f416464726573733a206c6f772d6c6576656c2063616c6c206661696c656400008152506108b1565b600061034b836001600160a01b0384166108ca565b3b151590565b60606108c08484600085610914565b90505b9392505050565b60006108d68383610a6f565b61090c5750815460018181018455600084815260208082209093018490558454848252828601909352604090209190915561034e565b50600061034e565b6060824710156109555760405162461bcd60e51b8152600401808060200182810382526026815260200180610d726026913960400191505060405180910390fd5b61095e856108ab565b6109af576040805162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e7472616374000000604482015290519081900360640190fd5b600080866001600160a01b031685876040518082805190602001908083835b602083106109ed5780518252601f1990920191602091820191016109ce565b6001836020036101000a03801982511681845116808217855250505050505090500191505060006040518083038185875af1925050503d8060008114610a4f576040519150601f19603f3d011682016040523d82523d6000602084013e610a54565b606091505b5091509150610a64828286610a87565b979650505050505050565b60009081526001919091016020526040902054151590565b60608315610a965750816108c3565b825115610aa65782518084602001fd5b8160405162461bcd60e51b81526004018080602001828103825283818151815260200191508051906020019080838360005b83811015610af0578181015183820152602001610ad8565b50505050905090810190601f168015610b1d5780820380516001836020036101000a031916815260200191505b509250505060405180910390fd5b60008083601f840112610b3c578182fd5b50813567ffffffffffffffff811115610b53578182fd5b602083019150836020828501011115610b6b57600080fd5b9250929050565b600060208284031215610b83578081fd5b81356001600160a01b03811681146108c3578182fd5b600060208284031215610baa578081fd5b815180151581146108c3578182fd5b600060208284031215610bca578081fd5b5035919050565b60008060208385031215610be3578081fd5b823567ffffffffffffffff811115610bf9578182fd5b610c0585828601610b2b565b90969095509350505050565b600080600060408486031215610c25578081fd5b833567ffffffffffffffff811115610c3b578182fd5b610c4786828701610b2b565b909790965060209590950135949350505050565b6001600160a01b0391909116815260200190565b6020808252825182820181905260009190848201906040850190845b81811015610cb05783516001600160a01b031683529284019291840191600101610c8b565b50909695505050505050565b60208082526024908201527f4775696c64466163746f72793a204d697373696e67204775696c642054656d706040820152636c61746560e01b606082015260800190565b60208082526026908201527f4775696c64466163746f72793a204775696c64417070206e6f7420696e697469604082015265185b1a5e995960d21b606082015260800190565b9081526020019056fe456e756d657261626c655365743a20696e646578206f7574206f6620626f756e6473416464726573733a20696e73756666696369656e742062616c616e636520666f722063616c6c496e697469616c697a61626c653a20636f6e747261637420697320616c726561647920696e697469616c697a6564a2646970667358221220ad3d68ba3b878de2ad38e8e1f59142fff8a899df8833135c3d337b9c852fab9b64736f6c63430007060033";
+  "0x60a060405234801561001057600080fd5b5033606081901b608052611b12610031600039806107ec5250611b126000f3fe608060405234801561001057600080fd5b506004361061012c5760003560e01c8063803c18ac116100ad578063b0e21e8a11610071578063b0e21e8a1461023e578063b5b3ca2c14610254578063c07f47d414610267578063c4d66de81461026f578063f2fde38b146102825761012c565b8063803c18ac146101dd578063830ec864146101f05780638839d6eb146102035780638da5cb5b14610216578063afd581431461021e5761012c565b806346904840116100f457806346904840146101aa5780635414dff0146101b25780635fee5cfd146101c55780636d947e4b146101cd5780636f2ddd93146101d55761012c565b80631763c9eb146101315780631d2fccc61461014657806328f144511461015957806335659fb81461016c57806342a10d211461018a575b600080fd5b61014461013f3660046113cf565b610295565b005b6101446101543660046113cf565b61031b565b6101446101673660046112d9565b610357565b61017461038d565b60405161018191906117cf565b60405180910390f35b61019d6101983660046112f3565b610393565b604051610181919061147b565b61019d6103ab565b61019d6101c03660046113b7565b6103ba565b6101746103df565b6101746103f0565b61019d6103f6565b61019d6101eb3660046113b7565b61040b565b6101446101fe36600461140f565b610426565b61014461021136600461132e565b610468565b61019d610626565b61023161022c3660046112d9565b610635565b60405161018191906114f4565b61024661071d565b60405161018192919061148f565b61014461026236600461131c565b610731565b6101746107db565b61014461027d3660046112d9565b6107e1565b6101446102903660046112d9565b610832565b6000546201000090046001600160a01b03166102cc5760405162461bcd60e51b81526004016102c3906116f1565b60405180910390fd5b6000306004546040516102de9061122c565b6102e992919061148f565b604051809103906000f080158015610305573d6000803e3d6000fd5b5090506103168133858560016108de565b505050565b6000546201000090046001600160a01b03166103495760405162461bcd60e51b81526004016102c3906116f1565b6103538282610a46565b5050565b6003546001600160a01b031633146103815760405162461bcd60e51b81526004016102c3906116ac565b61038a81610a71565b50565b60075481565b60006103a26101c08484610b29565b90505b92915050565b6006546001600160a01b031681565b600080546103d7906201000090046001600160a01b031683610b5c565b90505b919050565b60006103eb6001610b69565b905090565b6103e881565b6000546201000090046001600160a01b031681565b6005602052600090815260409020546001600160a01b031681565b6000546201000090046001600160a01b03166104545760405162461bcd60e51b81526004016102c3906116f1565b61031683836104633385610b29565b610b6d565b8281146104875760405162461bcd60e51b81526004016102c390611735565b600060015b84811161061e57808514806104f357508585838181106104a857fe5b90506020020160208101906104bd91906112d9565b6001600160a01b03168686838181106104d257fe5b90506020020160208101906104e791906112d9565b6001600160a01b031614155b156106165785858381811061050457fe5b905060200201602081019061051991906112d9565b6001600160a01b031663ec97d713610533838587896117e8565b6040518363ffffffff1660e01b81526004016105509291906114a8565b600060405180830381600087803b15801561056a57600080fd5b505af192505050801561057b575060015b610612573d8080156105a9576040519150601f19603f3d011682016040523d82523d6000602084013e6105ae565b606091505b508686848181106105bb57fe5b90506020020160208101906105d091906112d9565b6001600160a01b03167fad6481fa12517db09ee67f3925fea071077a6d27d9849c336348db32f4e678ae826040516106089190611541565b60405180910390a2505b8091505b60010161048c565b505050505050565b6003546001600160a01b031681565b6001600160a01b03811660009081526002602052604081206060919061065a90610b9f565b67ffffffffffffffff8111801561067057600080fd5b5060405190808252806020026020018201604052801561069a578160200160208202803683370190505b50905060005b6001600160a01b03841660009081526002602052604090206106c190610b9f565b811015610716576001600160a01b03841660009081526002602052604090206106ea9082610baa565b8282815181106106f657fe5b6001600160a01b03909216602092830291909101909101526001016106a0565b5092915050565b6006546007546001600160a01b0390911691565b6003546001600160a01b0316331461075b5760405162461bcd60e51b81526004016102c3906116ac565b6103e881111561077d5760405162461bcd60e51b81526004016102c39061165e565b600680546001600160a01b0319166001600160a01b03841617905560078190556040517f389f6e01d911ce2a6919bdcf4e57d270003243ca9c54e7911454a70f89aee19e906107cf908490849061148f565b60405180910390a15050565b60045481565b336001600160a01b037f000000000000000000000000000000000000000000000000000000000000000016146108295760405162461bcd60e51b81526004016102c3906115cb565b61038a81610bb6565b6003546001600160a01b0316331461085c5760405162461bcd60e51b81526004016102c3906116ac565b6001600160a01b0381166108825760405162461bcd60e51b81526004016102c390611613565b6003546040516001600160a01b038084169216907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e090600090a3600380546001600160a01b0319166001600160a01b0392909216919091179055565b6108e86001610c61565b846001600160a01b0316846001600160a01b03167fef58b4a0fa38aac844ddcfdaf2bf6811f5b82857cf641141b62a192819e5bbec6004548460405161092f9291906117d8565b60405180910390a381156109895761098783838080601f016020809104026020016040519081016040528093929190818152602001838380828437600092019190915250506001600160a01b03891692915050610c6a565b505b6000859050806001600160a01b031663158ef93e6040518163ffffffff1660e01b815260040160206040518083038186803b1580156109c757600080fd5b505afa1580156109db573d6000803e3d6000fd5b505050506040513d601f19601f820116820180604052508101906109ff9190611397565b610a1b5760405162461bcd60e51b81526004016102c390611789565b6001600160a01b0385166000908152600260205260409020610a3d9087610cac565b50505050505050565b600054339061031690610a67906201000090046001600160a01b0316610cc1565b82858560006108de565b610a83816001600160a01b0316610d5e565b610a9f5760405162461bcd60e51b81526004016102c390611594565b6004805460010180825560009081526005602052604080822080546001600160a01b0319166001600160a01b038616908117909155825462010000600160b01b0319166201000090910217909155905490517ff2b960dc9dd3621ffc35ae9856a9f91e7a6d9d80da4781c03c6657b19f572dfb90610b1e90849061147b565b60405180910390a250565b60008282604051602001610b3e929190611459565b60405160208183030381529060405280519060200120905092915050565b60006103a2838330610d64565b5490565b6000543390610b9990610b8f906201000090046001600160a01b031684610dc2565b82868660006108de565b50505050565b60006103d782610b69565b60006103a28383610e67565b600054610100900460ff1680610bcf5750610bcf610ecb565b80610bdd575060005460ff16155b610c185760405162461bcd60e51b815260040180806020018281038252602e815260200180611aaf602e913960400191505060405180910390fd5b600054610100900460ff16158015610c43576000805460ff1961ff0019909116610100171660011790555b610c4c82610edc565b8015610353576000805461ff00191690555050565b80546001019055565b60606103a283836040518060400160405280601e81526020017f416464726573733a206c6f772d6c6576656c2063616c6c206661696c65640000815250610fb2565b60006103a2836001600160a01b038416610fcb565b6000604051733d602d80600a3d3981f3363d3d373d3d3d363d7360601b81528260601b60148201526e5af43d82803e903d91602b57fd5bf360881b60288201526037816000f09150506001600160a01b0381166103da576040805162461bcd60e51b8152602060048201526016602482015275115490cc4c4d8dce8818dc99585d194819985a5b195960521b604482015290519081900360640190fd5b3b151590565b604051733d602d80600a3d3981f3363d3d373d3d3d363d7360601b8152606093841b60148201526f5af43d82803e903d91602b57fd5bf3ff60801b6028820152921b6038830152604c8201526037808220606c830152605591012090565b6000604051733d602d80600a3d3981f3363d3d373d3d3d363d7360601b81528360601b60148201526e5af43d82803e903d91602b57fd5bf360881b6028820152826037826000f59150506001600160a01b0381166103a5576040805162461bcd60e51b815260206004820152601760248201527f455243313136373a2063726561746532206661696c6564000000000000000000604482015290519081900360640190fd5b81546000908210610ea95760405162461bcd60e51b8152600401808060200182810382526022815260200180611a676022913960400191505060405180910390fd5b826000018281548110610eb857fe5b9060005260206000200154905092915050565b6000610ed630610d5e565b15905090565b600054610100900460ff1680610ef55750610ef5610ecb565b80610f03575060005460ff16155b610f3e5760405162461bcd60e51b815260040180806020018281038252602e815260200180611aaf602e913960400191505060405180910390fd5b600054610100900460ff16158015610f69576000805460ff1961ff0019909116610100171660011790555b600380546001600160a01b031916339081179091556040516000907f8be0079c531659141344cd1fd0a4f28419497f9722a3daafe3b4186f6b6457e0908290a3610c4c82610a71565b6060610fc18484600085611015565b90505b9392505050565b6000610fd78383611170565b61100d575081546001818101845560008481526020808220909301849055845484825282860190935260409020919091556103a5565b5060006103a5565b6060824710156110565760405162461bcd60e51b8152600401808060200182810382526026815260200180611a896026913960400191505060405180910390fd5b61105f85610d5e565b6110b0576040805162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e7472616374000000604482015290519081900360640190fd5b600080866001600160a01b031685876040518082805190602001908083835b602083106110ee5780518252601f1990920191602091820191016110cf565b6001836020036101000a03801982511681845116808217855250505050505090500191505060006040518083038185875af1925050503d8060008114611150576040519150601f19603f3d011682016040523d82523d6000602084013e611155565b606091505b5091509150611165828286611188565b979650505050505050565b60009081526001919091016020526040902054151590565b60608315611197575081610fc4565b8251156111a75782518084602001fd5b8160405162461bcd60e51b81526004018080602001828103825283818151815260200191508051906020019080838360005b838110156111f15781810151838201526020016111d9565b50505050905090810190601f16801561121e5780820380516001836020036101000a031916815260200191505b509250505060405180910390fd5b6102538061181483390190565b80356001600160a01b03811681146103da57600080fd5b60008083601f840112611261578182fd5b50813567ffffffffffffffff811115611278578182fd5b602083019150836020808302850101111561129257600080fd5b9250929050565b60008083601f8401126112aa578182fd5b50813567ffffffffffffffff8111156112c1578182fd5b60208301915083602082850101111561129257600080fd5b6000602082840312156112ea578081fd5b6103a282611239565b60008060408385031215611305578081fd5b61130e83611239565b946020939093013593505050565b60008060408385031215611305578182fd5b60008060008060408587031215611343578182fd5b843567ffffffffffffffff8082111561135a578384fd5b61136688838901611250565b9096509450602087013591508082111561137e578384fd5b5061138b87828801611250565b95989497509550505050565b6000602082840312156113a8578081fd5b81518015158114610fc4578182fd5b6000602082840312156113c8578081fd5b5035919050565b600080602083850312156113e1578182fd5b823567ffffffffffffffff8111156113f7578283fd5b61140385828601611299565b90969095509350505050565b600080600060408486031215611423578283fd5b833567ffffffffffffffff811115611439578384fd5b61144586828701611299565b909790965060209590950135949350505050565b60609290921b6bffffffffffffffffffffffff19168252601482015260340190565b6001600160a01b0391909116815260200190565b6001600160a01b03929092168252602082015260400190565b60208082528181018390526000908460408401835b868110156114e9576001600160a01b036114d684611239565b16825291830191908301906001016114bd565b509695505050505050565b6020808252825182820181905260009190848201906040850190845b818110156115355783516001600160a01b031683529284019291840191600101611510565b50909695505050505050565b6000602080835283518082850152825b8181101561156d57858101830151858201604001528201611551565b8181111561157e5783604083870101525b50601f01601f1916929092016040019392505050565b6020808252601e908201527f4775696c64466163746f72793a20496e76616c69642074656d706c6174650000604082015260600190565b60208082526028908201527f4775696c64466163746f72793a2063616c6c6572206973206e6f7420746865206040820152673232b83637bcb2b960c11b606082015260800190565b6020808252602b908201527f4775696c64466163746f72793a206e6577206f776e657220697320746865207a60408201526a65726f206164647265737360a81b606082015260800190565b6020808252602e908201527f4775696c64466163746f72793a20466565206578636565647320746865206d6160408201526d782070726f746f636f6c2066656560901b606082015260800190565b60208082526025908201527f4775696c64466163746f72793a2063616c6c6572206973206e6f74207468652060408201526437bbb732b960d91b606082015260800190565b60208082526024908201527f4775696c64466163746f72793a204d697373696e67204775696c642054656d706040820152636c61746560e01b606082015260800190565b60208082526034908201527f4775696c64466163746f72793a204775696c647320616e6420737562736372696040820152730c4cae4e640d8cadccee8d040dad2e6dac2e8c6d60631b606082015260800190565b60208082526026908201527f4775696c64466163746f72793a204775696c64417070206e6f7420696e697469604082015265185b1a5e995960d21b606082015260800190565b90815260200190565b9182521515602082015260400190565b600080858511156117f7578182fd5b83861115611803578182fd5b505060208302019391909203915056fe608060405234801561001057600080fd5b506040516102533803806102538339818101604052604081101561003357600080fd5b508051602091820151909161005190839061004761006b821b17901c565b6100648161008f60201b61006b1760201c565b50506100b2565b7fa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d5055565b7e35d03d5b7ec8a5dc47a052514222f4cf7ee219e90726e32aa4974b03574c9c55565b610192806100c16000396000f3fe60806040523661001357610011610017565b005b6100115b600061002161008e565b90503660008037600080366000845af43d6000803e808015610042573d6000f35b3d6000fd5b7fa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d5055565b7e35d03d5b7ec8a5dc47a052514222f4cf7ee219e90726e32aa4974b03574c9c55565b6000610098610113565b6001600160a01b031663803c18ac6100ae610138565b6040518263ffffffff1660e01b81526004018082815260200191505060206040518083038186803b1580156100e257600080fd5b505afa1580156100f6573d6000803e3d6000fd5b505050506040513d602081101561010c57600080fd5b5051905090565b7fa3f0ad74e5423aebfd80d3ef4346578335a9a72aeaee59ff6cb3582b35133d505490565b7e35d03d5b7ec8a5dc47a052514222f4cf7ee219e90726e32aa4974b03574c9c549056fea2646970667358221220b426b9152756df3b1a62ce37371640a481238f904f20e4faa23e9ccf9ab07a9e64736f6c63430007060033456e756d657261626c655365743a20696e646578206f7574206f6620626f756e6473416464726573733a20696e73756666696369656e742062616c616e636520666f722063616c6c496e697469616c697a61626c653a20636f6e747261637420697320616c726561647920696e697469616c697a6564a2646970667358221220a7a2a6708e9af6dd193532d089983b447073c0b1203bafc94f46c267ac6030ac64736f6c63430007060033";
@@ -0,0 +1,399 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface GuildPaymentsInterface extends ethers.utils.Interface {
+  functions: {
+    "hashSafeSubscription(address,tuple,uint256)": FunctionFragment;
+    "protocolFee(address,uint256)": FunctionFragment;
+    "verifySafeSignature(address,bytes32,bytes)": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "hashSafeSubscription",
+    values: [
+      string,
+      {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      BigNumberish
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "protocolFee",
+    values: [string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "verifySafeSignature",
+    values: [string, BytesLike, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "hashSafeSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "protocolFee",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "verifySafeSignature",
+    data: BytesLike
+  ): Result;
+
+  events: {};
+}
+
+export class GuildPayments extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: GuildPaymentsInterface;
+
+  functions: {
+    hashSafeSubscription(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      _nonce: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "hashSafeSubscription(address,tuple,uint256)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      _nonce: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    protocolFee(
+      _factory: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      recipient: string;
+      fee: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+
+    "protocolFee(address,uint256)"(
+      _factory: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      recipient: string;
+      fee: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+
+    verifySafeSignature(
+      _safe: string,
+      _digest: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: void;
+    }>;
+
+    "verifySafeSignature(address,bytes32,bytes)"(
+      _safe: string,
+      _digest: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: void;
+    }>;
+  };
+
+  hashSafeSubscription(
+    _safe: string,
+    _terms: {
+      entryPoint: BytesLike;
+      tierId: BigNumberish;
+      tokenAddress: string;
+      periods: BigNumberish;
+      value: BigNumberish;
+      referrer: string;
+    },
+    _nonce: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "hashSafeSubscription(address,tuple,uint256)"(
+    _safe: string,
+    _terms: {
+      entryPoint: BytesLike;
+      tierId: BigNumberish;
+      tokenAddress: string;
+      periods: BigNumberish;
+      value: BigNumberish;
+      referrer: string;
+    },
+    _nonce: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  protocolFee(
+    _factory: string,
+    _value: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    recipient: string;
+    fee: BigNumber;
+    0: string;
+    1: BigNumber;
+  }>;
+
+  "protocolFee(address,uint256)"(
+    _factory: string,
+    _value: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    recipient: string;
+    fee: BigNumber;
+    0: string;
+    1: BigNumber;
+  }>;
+
+  verifySafeSignature(
+    _safe: string,
+    _digest: BytesLike,
+    _signature: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<void>;
+
+  "verifySafeSignature(address,bytes32,bytes)"(
+    _safe: string,
+    _digest: BytesLike,
+    _signature: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<void>;
+
+  callStatic: {
+    hashSafeSubscription(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      _nonce: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "hashSafeSubscription(address,tuple,uint256)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      _nonce: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    protocolFee(
+      _factory: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      recipient: string;
+      fee: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+
+    "protocolFee(address,uint256)"(
+      _factory: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      recipient: string;
+      fee: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+
+    verifySafeSignature(
+      _safe: string,
+      _digest: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "verifySafeSignature(address,bytes32,bytes)"(
+      _safe: string,
+      _digest: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    hashSafeSubscription(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      _nonce: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "hashSafeSubscription(address,tuple,uint256)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      _nonce: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    protocolFee(
+      _factory: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "protocolFee(address,uint256)"(
+      _factory: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    verifySafeSignature(
+      _safe: string,
+      _digest: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "verifySafeSignature(address,bytes32,bytes)"(
+      _safe: string,
+      _digest: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    hashSafeSubscription(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      _nonce: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "hashSafeSubscription(address,tuple,uint256)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      _nonce: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    protocolFee(
+      _factory: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "protocolFee(address,uint256)"(
+      _factory: string,
+      _value: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    verifySafeSignature(
+      _safe: string,
+      _digest: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "verifySafeSignature(address,bytes32,bytes)"(
+      _safe: string,
+      _digest: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
@@ -0,0 +1,153 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { GuildPayments } from "./GuildPayments";
+
+export class GuildPaymentsFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(overrides?: Overrides): Promise<GuildPayments> {
+    return super.deploy(overrides || {}) as Promise<GuildPayments>;
+  }
+  getDeployTransaction(overrides?: Overrides): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  attach(address: string): GuildPayments {
+    return super.attach(address) as GuildPayments;
+  }
+  connect(signer: Signer): GuildPaymentsFactory {
+    return super.connect(signer) as GuildPaymentsFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): GuildPayments {
+    return new Contract(address, _abi, signerOrProvider) as GuildPayments;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_safe",
+        type: "address",
+      },
+      {
+        components: [
+          {
+            internalType: "bytes4",
+            name: "entryPoint",
+            type: "bytes4",
+          },
+          {
+            internalType: "uint256",
+            name: "tierId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "tokenAddress",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "periods",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "referrer",
+            type: "address",
+          },
+        ],
+        internalType: "struct IGuild.SafeSubscription",
+        name: "_terms",
+        type: "tuple",
+      },
+      {
+        internalType: "uint256",
+        name: "_nonce",
+        type: "uint256",
+      },
+    ],
+    name: "hashSafeSubscription",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_factory",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+    ],
+    name: "protocolFee",
+    outputs: [
+      {
+        internalType: "address",
+        name: "recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "fee",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_safe",
+        type: "address",
+      },
+      {
+        internalType: "bytes32",
+        name: "_digest",
+        type: "bytes32",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    name: "verifySafeSignature",
+    outputs: [],
+    stateMutability: "view",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x611670610026600b82828239805160001a60731461001957fe5b30600052607381538281f3fe73000000000000000000000000000000000000000030146080604052600436106100875760003560e01c80634e4b040b116100655780634e4b040b146100f8578063a4b132211461010b578063e23280421461012b578063f1430aea1461014b57610087565b80630779afe61461008c5780630ee6506d146100ae57806330b72906146100d7575b600080fd5b81801561009857600080fd5b506100ac6100a7366004610ecc565b61016b565b005b6100c16100bc3660046110a9565b61021f565b6040516100ce91906111de565b60405180910390f35b6100ea6100e53660046110e8565b610361565b6040516100ce92919061130a565b6100ac610106366004611052565b61044e565b81801561011757600080fd5b506100ac610126366004610f0c565b6105e1565b81801561013757600080fd5b506100ac610146366004610f8b565b6106d8565b81801561015757600080fd5b506100ac61016636600461112f565b6107fe565b6001600160a01b038316156101935761018e6001600160a01b0384168383610858565b61021a565b6000826001600160a01b0316826040516101ac9061121e565b60006040518083038185875af1925050503d80600081146101e9576040519150601f19603f3d011682016040523d82523d6000602084013e6101ee565b606091505b50509050806102185760405162461bcd60e51b815260040161020f90611503565b60405180910390fd5b505b505050565b60008046905060007f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f7f79717e7972dca1f9fe5d2d9ca100864b25dc5b261dcb2f7591107c19c56a85a97fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc684306040516020016102a0959493929190611377565b60405160208183030381529060405280519060200120905060007f1470f05b27d2e997a1e46e8e806c1fdd799110daeec84b16c48a7141fcbd6a41878760000151886020015189604001518a606001518b608001518c60a001518c60405160200161031399989796959493929190611323565b604051602081830303815290604052805190602001209050818160405160200161033e929190611203565b6040516020818303038152906040528051906020012093505050505b9392505050565b60408051600481526024810182526020810180516001600160e01b03166358710f4560e11b17905290516000918291829182916001600160a01b038816916103a8916111e7565b600060405180830381855afa9150503d80600081146103e3576040519150601f19603f3d011682016040523d82523d6000602084013e6103e8565b606091505b50915091508180156103fb575080516040145b15610445576000818060200190518101906104169190610e9f565b90955090506001600160a01b038516156104435761044061271061043a88846108aa565b9061090c565b93505b505b50509250929050565b61045783610973565b6104735760405162461bcd60e51b815260040161020f90611437565b604051630b135d3f60e11b81526000906001600160a01b03851690631626ba7e906104a490869086906004016113a3565b60206040518083038186803b1580156104bc57600080fd5b505afa9250505080156104ec575060408051601f3d908101601f191682019092526104e991810190611113565b60015b6104f55761050b565b6001600160e01b031916630b135d3f60e11b1490505b806105c457836001600160a01b03166320c13b0b8460405160200161053091906111de565b604051602081830303815290604052846040518363ffffffff1660e01b815260040161055d9291906113bc565b60206040518083038186803b15801561057557600080fd5b505afa9250505080156105a5575060408051601f3d908101601f191682019092526105a291810190611113565b60015b6105ae576105c4565b6001600160e01b0319166320c13b0b60e01b1490505b806102185760405162461bcd60e51b815260040161020f9061153a565b8151610610576001600160a01b0384161561060b5761060b6001600160a01b038516863086610a09565b6106d1565b6001600160a01b0381166106365760405162461bcd60e51b815260040161020f9061147c565b6bffffffffffffffffffffffff8311156106625760405162461bcd60e51b815260040161020f906114cc565b60405163228ab20d60e11b815281906001600160a01b03821690634515641a9061069d908990899030908a9060009081908490600401611221565b600060405180830381600087803b1580156106b757600080fd5b505af11580156106cb573d6000803e3d6000fd5b50505050505b5050505050565b6001600160a01b0384166106fe5760405162461bcd60e51b815260040161020f906113ea565b80511561078557836001600160a01b0316638fcbaf0c8430846020015185604001516001876060015188608001518960a001516040518963ffffffff1660e01b8152600401610754989796959493929190611280565b600060405180830381600087803b15801561076e57600080fd5b505af192505050801561077f575060015b50610218565b6040808201516060830151608084015160a0850151935163d505accf60e01b81526001600160a01b0389169463d505accf946107ca948a9430948b94906004016112c9565b600060405180830381600087803b1580156107e457600080fd5b505af19250505080156107f5575060015b61021857610218565b6001600160a01b03831660009081526020859052604090205461082c8461082681868561021f565b8461044e565b610837816001610a63565b6001600160a01b039094166000908152602095909552505060409092205550565b604080516001600160a01b038416602482015260448082018490528251808303909101815260649091019091526020810180516001600160e01b031663a9059cbb60e01b17905261021a908490610abd565b6000826108b957506000610906565b828202828482816108c657fe5b04146109035760405162461bcd60e51b81526004018080602001828103825260218152602001806115f06021913960400191505060405180910390fd5b90505b92915050565b6000808211610962576040805162461bcd60e51b815260206004820152601a60248201527f536166654d6174683a206469766973696f6e206279207a65726f000000000000604482015290519081900360640190fd5b81838161096b57fe5b049392505050565b600061097e82610b6e565b61098a57506000610a04565b816001600160a01b031663e75235b86040518163ffffffff1660e01b815260040160206040518083038186803b1580156109c357600080fd5b505afa9250505080156109f3575060408051601f3d908101601f191682019092526109f09181019061119a565b60015b6109ff57506000610a04565b151590505b919050565b604080516001600160a01b0380861660248301528416604482015260648082018490528251808303909101815260849091019091526020810180516001600160e01b03166323b872dd60e01b179052610218908590610abd565b600082820183811015610903576040805162461bcd60e51b815260206004820152601b60248201527f536166654d6174683a206164646974696f6e206f766572666c6f770000000000604482015290519081900360640190fd5b6000610b12826040518060400160405280602081526020017f5361666545524332303a206c6f772d6c6576656c2063616c6c206661696c6564815250856001600160a01b0316610b749092919063ffffffff16565b80519091501561021a57808060200190516020811015610b3157600080fd5b505161021a5760405162461bcd60e51b815260040180806020018281038252602a815260200180611611602a913960400191505060405180910390fd5b3b151590565b6060610b838484600085610b8b565b949350505050565b606082471015610bcc5760405162461bcd60e51b81526004018080602001828103825260268152602001806115ca6026913960400191505060405180910390fd5b610bd585610b6e565b610c26576040805162461bcd60e51b815260206004820152601d60248201527f416464726573733a2063616c6c20746f206e6f6e2d636f6e7472616374000000604482015290519081900360640190fd5b600080866001600160a01b031685876040518082805190602001908083835b60208310610c645780518252601f199092019160209182019101610c45565b6001836020036101000a03801982511681845116808217855250505050505090500191505060006040518083038185875af1925050503d8060008114610cc6576040519150601f19603f3d011682016040523d82523d6000602084013e610ccb565b606091505b5091509150610cdb828286610ce6565b979650505050505050565b60608315610cf557508161035a565b825115610d055782518084602001fd5b8160405162461bcd60e51b81526004018080602001828103825283818151815260200191508051906020019080838360005b83811015610d4f578181015183820152602001610d37565b50505050905090810190601f168015610d7c5780820380516001836020036101000a031916815260200191505b509250505060405180910390fd5b600082601f830112610d9a578081fd5b813567ffffffffffffffff80821115610daf57fe5b604051601f8301601f191681016020018281118282101715610dcd57fe5b604052828152848301602001861015610de4578384fd5b82602086016020830137918201602001929092529392505050565b600060c08284031215610e10578081fd5b60405160c0810181811067ffffffffffffffff82111715610e2d57fe5b6040529050808235610e3e816115b3565b8152602083810135908201526040830135610e588161159b565b80604083015250606083013560608201526080830135608082015260a0830135610e818161159b565b60a0919091015292915050565b803560ff81168114610a0457600080fd5b60008060408385031215610eb1578182fd5b8251610ebc8161159b565b6020939093015192949293505050565b600080600060608486031215610ee0578081fd5b8335610eeb8161159b565b92506020840135610efb8161159b565b929592945050506040919091013590565b600080600080600060a08688031215610f23578081fd5b8535610f2e8161159b565b94506020860135610f3e8161159b565b935060408601359250606086013567ffffffffffffffff811115610f60578182fd5b610f6c88828901610d8a565b9250506080860135610f7d8161159b565b809150509295509295909350565b600080600080848603610120811215610fa2578485fd5b8535610fad8161159b565b94506020860135610fbd8161159b565b93506040860135925060c0605f1982011215610fd7578182fd5b5060405160c0810181811067ffffffffffffffff82111715610ff557fe5b6040526060860135801515811461100a578283fd5b81526080860135602082015260a0860135604082015261102c60c08701610e8e565b606082015260e086013560808201526101009095013560a0860152509194909350909190565b600080600060608486031215611066578283fd5b83356110718161159b565b925060208401359150604084013567ffffffffffffffff811115611093578182fd5b61109f86828701610d8a565b9150509250925092565b600080600061010084860312156110be578283fd5b83356110c98161159b565b92506110d88560208601610dff565b915060e084013590509250925092565b600080604083850312156110fa578182fd5b82356111058161159b565b946020939093013593505050565b600060208284031215611124578081fd5b8151610903816115b3565b6000806000806101208587031215611145578182fd5b8435935060208501356111578161159b565b92506111668660408701610dff565b915061010085013567ffffffffffffffff811115611182578182fd5b61118e87828801610d8a565b91505092959194509250565b6000602082840312156111ab578081fd5b5051919050565b600081518084526111ca81602086016020860161156f565b601f01601f19169290920160200192915050565b90815260200190565b600082516111f981846020870161156f565b9190910192915050565b61190160f01b81526002810192909252602282015260420190565b90565b6001600160a01b039788168152958716602087015293861660408601526bffffffffffffffffffffffff928316606086015290851660808501521660a083015290911660c082015261010060e082018190526000908201526101200190565b6001600160a01b039889168152969097166020870152604086019490945260608501929092521515608084015260ff1660a083015260c082015260e08101919091526101000190565b6001600160a01b0397881681529590961660208601526040850193909352606084019190915260ff16608083015260a082015260c081019190915260e00190565b6001600160a01b03929092168252602082015260400190565b9889526001600160a01b0397881660208a01526001600160e01b03199690961660408901526060880194909452918516608087015260a086015260c085015290911660e08301526101008201526101200190565b9485526020850193909352604084019190915260608301526001600160a01b0316608082015260a00190565b600083825260406020830152610b8360408301846111b2565b6000604082526113cf60408301856111b2565b82810360208401526113e181856111b2565b95945050505050565b6020808252602d908201527f4775696c644170703a20455448207061796d656e747320646f206e6f7420737560408201526c70706f7274207065726d69747360981b606082015260800190565b60208082526025908201527f4775696c644170703a2053656e646572206973206e6f74206120476e6f736973604082015264205361666560d81b606082015260800190565b60208082526030908201527f4775696c644170703a204775696c6420646f6573206e6f7420737570706f727460408201526f205361666520416c6c6f77616e63657360801b606082015260800190565b6020808252601e908201527f4775696c644170703a2056616c756520657863656564732075696e7439360000604082015260600190565b6020808252601e908201527f4775696c644170703a204661696c656420746f2073656e642045746865720000604082015260600190565b6020808252818101527f4775696c644170703a20496e76616c69642053616665207369676e6174757265604082015260600190565b60005b8381101561158a578181015183820152602001611572565b838111156102185750506000910152565b6001600160a01b03811681146115b057600080fd5b50565b6001600160e01b0319811681146115b057600080fdfe416464726573733a20696e73756666696369656e742062616c616e636520666f722063616c6c536166654d6174683a206d756c7469706c69636174696f6e206f766572666c6f775361666545524332303a204552433230206f7065726174696f6e20646964206e6f742073756363656564a264697066735822122075a7e41b507a6a9f4d8f8ba9277127ee4b756a9b480d9b984a68ca21d297053664736f6c63430007060033";
@@ -0,0 +1,78 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import { Contract, ContractTransaction } from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface GuildTiersInterface extends ethers.utils.Interface {
+  functions: {};
+
+  events: {
+    "PaymentTokenAdded(address)": EventFragment;
+    "PaymentTokenRemoved(address)": EventFragment;
+    "PeriodDiscountUpdated(uint256,uint256)": EventFragment;
+    "TierUpdated(uint256,string,uint256,uint256,uint256)": EventFragment;
+    "TokenPriceUpdated(uint256,address,uint256)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "PaymentTokenAdded"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PaymentTokenRemoved"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "PeriodDiscountUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TierUpdated"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "TokenPriceUpdated"): EventFragment;
+}
+
+export class GuildTiers extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: GuildTiersInterface;
+
+  functions: {};
+
+  callStatic: {};
+
+  filters: {
+    PaymentTokenAdded(_tokenAddress: null): EventFilter;
+
+    PaymentTokenRemoved(_tokenAddress: null): EventFilter;
+
+    PeriodDiscountUpdated(_minPeriods: null, _discountBps: null): EventFilter;
+
+    TierUpdated(
+      _tierId: null,
+      _name: null,
+      _price: null,
+      _period: null,
+      _cap: null
+    ): EventFilter;
+
+    TokenPriceUpdated(
+      _tierId: null,
+      _tokenAddress: null,
+      _price: null
+    ): EventFilter;
+  };
+
+  estimateGas: {};
+
+  populateTransaction: {};
+}
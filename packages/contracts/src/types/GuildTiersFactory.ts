@@ -0,0 +1,147 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { GuildTiers } from "./GuildTiers";
+
+export class GuildTiersFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(overrides?: Overrides): Promise<GuildTiers> {
+    return super.deploy(overrides || {}) as Promise<GuildTiers>;
+  }
+  getDeployTransaction(overrides?: Overrides): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  attach(address: string): GuildTiers {
+    return super.attach(address) as GuildTiers;
+  }
+  connect(signer: Signer): GuildTiersFactory {
+    return super.connect(signer) as GuildTiersFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): GuildTiers {
+    return new Contract(address, _abi, signerOrProvider) as GuildTiers;
+  }
+}
+
+const _abi = [
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "PaymentTokenAdded",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "PaymentTokenRemoved",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_minPeriods",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_discountBps",
+        type: "uint256",
+      },
+    ],
+    name: "PeriodDiscountUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_period",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_cap",
+        type: "uint256",
+      },
+    ],
+    name: "TierUpdated",
+    type: "event",
+  },
+  {
+    anonymous: false,
+    inputs: [
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        indexed: false,
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        indexed: false,
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "TokenPriceUpdated",
+    type: "event",
+  },
+];
+
+const _bytecode =
+  "0x6119a2610026600b82828239805160001a60731461001957fe5b30600052607381538281f3fe730000000000000000000000000000000000000000301460806040526004361061010a5760003560e01c806396623673116100a1578063d05118ad11610070578063d05118ad14610280578063e26dffd714610293578063e8bb337e146102a6578063ecc07c62146102c65761010a565b8063966236731461020d578063a32e1d031461022d578063bf18650f1461024d578063c9eb52721461026d5761010a565b806347490f8e116100dd57806347490f8e1461018d578063559022ac146101ad57806366da5e93146101cd578063908f8279146101ed5761010a565b80630c24ec6c1461010f578063112386631461013157806337b7a4de1461015a578063437627a61461017a575b600080fd5b81801561011b57600080fd5b5061012f61012a3660046113bc565b6102e6565b005b61014461013f3660046114a3565b610316565b6040516101519190611899565b60405180910390f35b81801561016657600080fd5b50610144610175366004611370565b61037c565b6101446101883660046113dd565b610480565b81801561019957600080fd5b5061012f6101a83660046113bc565b6104c6565b8180156101b957600080fd5b5061012f6101c8366004611444565b610556565b6101e06101db366004611235565b610677565b6040516101519190611545565b6102006101fb3660046113dd565b610718565b6040516101519190611853565b81801561021957600080fd5b5061012f6102283660046112b3565b610847565b81801561023957600080fd5b5061012f610248366004611408565b6108a5565b81801561025957600080fd5b5061012f610268366004611278565b610957565b61014461027b366004611235565b6109ee565b61014461028e366004611408565b610a27565b6101446102a13660046114a3565b610ae9565b8180156102b257600080fd5b5061012f6102c136600461124d565b610ba4565b8180156102d257600080fd5b5061012f6102e13660046114a3565b610ca7565b6000818152600283016020526040902054610302906001610d28565b600091825260029092016020526040902055565b6000806103238484610d8a565b90506000856006015411801561033d575084600501548310155b156103725761036f610368612710610362886006015485610d8a90919063ffffffff16565b90610de3565b8290610d28565b90505b90505b9392505050565b6000808360400151116103aa5760405162461bcd60e51b81526004016103a190611757565b60405180910390fd5b604080516060808201835285518252858301516020808401919091529086015192820192909252855460018101875560008781528390208251805193946003909302909101926103fd928492019061108a565b5060208201518160010155604082015181600201555050600184600001805490500390507f10cbe35548d32e0c21ef24dd9f012d29453dfb4bd2c914c9b1a921cc8b8548498184600001518560200151866040015187606001516040516104689594939291906118c1565b60405180910390a161037584828486602001516108a5565b600061048f6003850183610e4a565b61049b57506000610375565b506000918252600192909201602090815260408083206001600160a01b039094168352929052205490565b60008260000182815481106104d757fe5b906000526020600020906003020160020154905080600014806105095750600082815260028401602052604090205481115b6105255760405162461bcd60e51b81526004016103a190611727565b6000828152600284016020526040902054610541906001610e5f565b60009283526002909301602052506040902055565b835483106105765760405162461bcd60e51b81526004016103a19061179c565b600082604001511161059a5760405162461bcd60e51b81526004016103a190611757565b6040518060600160405280836000015181526020018360400151815260200183606001518152508460000184815481106105d057fe5b906000526020600020906003020160008201518160000190805190602001906105fa92919061108a565b5060208201518160010155604082015181600201559050507f10cbe35548d32e0c21ef24dd9f012d29453dfb4bd2c914c9b1a921cc8b8548498383600001518460200151856040015186606001516040516106599594939291906118c1565b60405180910390a161067184848385602001516108a5565b50505050565b6060600061068783600301610eb9565b67ffffffffffffffff8111801561069d57600080fd5b506040519080825280602002602001820160405280156106c7578160200160208202803683370190505b50905060005b815181101561070f576106e36003850182610ec4565b8282815181106106ef57fe5b6001600160a01b03909216602092830291909101909101526001016106cd565b5090505b919050565b610720611116565b835483106107405760405162461bcd60e51b81526004016103a19061179c565b600084600001848154811061075157fe5b600091825260209182902060408051600393909302909101805460026001821615610100026000190190911604601f8101859004909402830160a09081019092526080830184815290945091928392918591908401828280156107f55780601f106107ca576101008083540402835291602001916107f5565b820191906000526020600020905b8154815290600101906020018083116107d857829003601f168201915b505050918352505060008681526001808901602090815260408084206001600160a01b038a16855282529283902054908401528401549082015260029092015460609092019190915290509392505050565b82548151146108685760405162461bcd60e51b81526004016103a190611592565b6108728383610ba4565b60005b81518110156106715761089d84828585858151811061089057fe5b60200260200101516108a5565b600101610875565b835483106108c55760405162461bcd60e51b81526004016103a19061179c565b6108d26003850183610e4a565b6108ee5760405162461bcd60e51b81526004016103a1906115dd565b600083815260018501602090815260408083206001600160a01b038616845290915290819020829055517f376716bd86293ff8b34061b9af3cac5116f15e0f2cbf689d822b6d6d7b1eeca990610949908590859085906118a2565b60405180910390a150505050565b806001600160a01b0316826001600160a01b031614156109895760405162461bcd60e51b81526004016103a19061164b565b6109966003840183610ed0565b6109b25760405162461bcd60e51b81526004016103a1906115dd565b7f85a3e72f8dd6db3794f93109c3c5f5b79d6112f6979431c45f98b26134b42af2826040516109e19190611531565b60405180910390a1505050565b6000805b8254811015610a21576000818152600284016020526040902054610a17908390610e5f565b91506001016109f2565b50919050565b6000610a366003860184610e4a565b610a525760405162461bcd60e51b81526004016103a1906115dd565b84548410610a725760405162461bcd60e51b81526004016103a19061179c565b60008211610a925760405162461bcd60e51b81526004016103a190611694565b600084815260018601602090815260408083206001600160a01b038716845290915290205480610ad45760405162461bcd60e51b81526004016103a19061180a565b610adf868285610316565b9695505050505050565b82546000908310610b0c5760405162461bcd60e51b81526004016103a19061179c565b506000198115610b39576000610b21856109ee565b9050828110610b31576000610b35565b8083035b9150505b6000846000018481548110610b4a57fe5b90600052602060002090600302016002015490506000811115610b9c57600084815260028601602052604081205490828210610b87576000610b8b565b8183035b905083811015610b99578093505b50505b509392505050565b6001600160a01b0381161580610c3d57506001600160a01b03811615801590610c3d57506000816001600160a01b03166318160ddd6040518163ffffffff1660e01b815260040160206040518083038186803b158015610c0357600080fd5b505afa158015610c17573d6000803e3d6000fd5b505050506040513d601f19601f82011682018060405250810190610c3b91906114ce565b115b610c595760405162461bcd60e51b81526004016103a190611614565b610c666003830182610ee5565b15610ca3577fa317c10673baf4f03b3c1041bd5ddbb537d0333a86fec3607c75f9dbb630f48f81604051610c9a9190611531565b60405180910390a15b5050565b60018211610cc75760405162461bcd60e51b81526004016103a1906116d7565b6127108110610ce85760405162461bcd60e51b81526004016103a1906117d3565b60058301829055600683018190556040517fb12d5e2c974c0f76a04336517ee3e4f1fb3559f5725702cf9c699101b1710cd0906109e190849084906118f7565b600082821115610d7f576040805162461bcd60e51b815260206004820152601e60248201527f536166654d6174683a207375627472616374696f6e206f766572666c6f770000604482015290519081900360640190fd5b508082035b92915050565b600082610d9957506000610d84565b82820282848281610da657fe5b04146103755760405162461bcd60e51b815260040180806020018281038252602181526020018061194c6021913960400191505060405180910390fd5b6000808211610e39576040805162461bcd60e51b815260206004820152601a60248201527f536166654d6174683a206469766973696f6e206279207a65726f000000000000604482015290519081900360640190fd5b818381610e4257fe5b049392505050565b6000610375836001600160a01b038416610efa565b600082820183811015610375576040805162461bcd60e51b815260206004820152601b60248201527f536166654d6174683a206164646974696f6e206f766572666c6f770000000000604482015290519081900360640190fd5b6000610d8482610f12565b60006103758383610f16565b6000610375836001600160a01b038416610f7a565b6000610375836001600160a01b038416611040565b60009081526001919091016020526040902054151590565b5490565b81546000908210610f585760405162461bcd60e51b815260040180806020018281038252602281526020018061192a6022913960400191505060405180910390fd5b826000018281548110610f6757fe5b9060005260206000200154905092915050565b600081815260018301602052604081205480156110365783546000198083019190810190600090879083908110610fad57fe5b9060005260206000200154905080876000018481548110610fca57fe5b600091825260208083209091019290925582815260018981019092526040902090840190558654879080610ffa57fe5b60019003818190600052602060002001600090559055866001016000878152602001908152602001600020600090556001945050505050610d84565b6000915050610d84565b600061104c8383610efa565b61108257508154600181810184556000848152602080822090930184905584548482528286019093526040902091909155610d84565b506000610d84565b828054600181600116156101000203166002900490600052602060002090601f0160209004810192826110c05760008555611106565b82601f106110d957805160ff1916838001178555611106565b82800160010185558215611106579182015b828111156111065782518255916020019190600101906110eb565b5061111292915061113e565b5090565b6040518060800160405280606081526020016000815260200160008152602001600081525090565b5b80821115611112576000815560010161113f565b80356001600160a01b038116811461071357600080fd5b60006080828403121561117b578081fd5b6040516080810167ffffffffffffffff828210818311171561119957fe5b8160405282935084359150808211156111b157600080fd5b818501915085601f8301126111c557600080fd5b81356020828211156111d357fe5b6111e5601f8301601f19168201611905565b925081835287818386010111156111fb57600080fd5b8181850182850137600081838501015282855280870135818601525050505060408301356040820152606083013560608201525092915050565b600060208284031215611246578081fd5b5035919050565b6000806040838503121561125f578081fd5b8235915061126f60208401611153565b90509250929050565b60008060006060848603121561128c578081fd5b8335925061129c60208501611153565b91506112aa60408501611153565b90509250925092565b6000806000606084860312156112c7578283fd5b8335925060206112d8818601611153565b9250604085013567ffffffffffffffff808211156112f4578384fd5b818701915087601f830112611307578384fd5b81358181111561131357fe5b8381029150611323848301611905565b8181528481019084860184860187018c101561133d578788fd5b8795505b8386101561135f578035835260019590950194918601918601611341565b508096505050505050509250925092565b600080600060608486031215611384578283fd5b83359250602084013567ffffffffffffffff8111156113a1578283fd5b6113ad8682870161116a565b9250506112aa60408501611153565b600080604083850312156113ce578182fd5b50508035926020909101359150565b6000806000606084860312156113f1578283fd5b83359250602084013591506112aa60408501611153565b6000806000806080858703121561141d578081fd5b843593506020850135925061143460408601611153565b9396929550929360600135925050565b60008060008060808587031215611459578384fd5b8435935060208501359250604085013567ffffffffffffffff81111561147d578283fd5b6114898782880161116a565b92505061149860608601611153565b905092959194509250565b6000806000606084860312156114b7578283fd5b505081359360208301359350604090920135919050565b6000602082840312156114df578081fd5b5051919050565b60008151808452815b8181101561150b576020818501810151868301820152016114ef565b8181111561151c5782602083870101525b50601f01601f19169290920160200192915050565b6001600160a01b0391909116815260200190565b6020808252825182820181905260009190848201906040850190845b818110156115865783516001600160a01b031683529284019291840191600101611561565b50909695505050505050565b6020808252602b908201527f4775696c644170703a204120707269636520666f72206561636820746965722060408201526a1a5cc81c995c5d5a5c995960aa1b606082015260800190565b6020808252601f908201527f4775696c644170703a20546f6b656e206973206e6f7420616363657074656400604082015260600190565b60208082526017908201527f4775696c644170703a20496e76616c696420746f6b656e000000000000000000604082015260600190565b60208082526029908201527f4775696c644170703a2043616e6e6f742072656d6f76652074686520646566616040820152683ab63a103a37b5b2b760b91b606082015260800190565b60208082526023908201527f4775696c644170703a20496e76616c6964206e756d626572206f6620706572696040820152626f647360e81b606082015260800190565b60208082526030908201527f4775696c644170703a20446973636f756e74207265717569726573206d6f726560408201526f081d1a185b881bdb99481c195c9a5bd960821b606082015260800190565b60208082526016908201527511dd5a5b19105c1c0e88151a595c881a5cc8199d5b1b60521b604082015260600190565b60208082526025908201527f4775696c644170703a20496e76616c696420737562736372697074696f6e2070604082015264195c9a5bd960da1b606082015260800190565b6020808252601d908201527f4775696c644170703a205469657220646f6573206e6f74206578697374000000604082015260600190565b6020808252601a908201527f4775696c644170703a20496e76616c696420646973636f756e74000000000000604082015260600190565b60208082526029908201527f4775696c644170703a2054696572206973206e6f7420617661696c61626c65206040820152683337b9103a37b5b2b760b91b606082015260800190565b60006020825282516080602084015261186f60a08401826114e6565b90506020840151604084015260408401516060840152606084015160808401528091505092915050565b90815260200190565b9283526001600160a01b03919091166020830152604082015260600190565b600086825260a060208301526118da60a08301876114e6565b604083019590955250606081019290925260809091015292915050565b918252602082015260400190565b60405181810167ffffffffffffffff8111828210171561192157fe5b60405291905056fe456e756d657261626c655365743a20696e646578206f7574206f6620626f756e6473536166654d6174683a206d756c7469706c69636174696f6e206f766572666c6f77a2646970667358221220087c8dffbe635ebed52cc2eba933d09403e2662fee59fdd5c5a1c7b84bfd2e0464736f6c63430007060033";
@@ -0,0 +1,192 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface GuildTokenUriInterface extends ethers.utils.Interface {
+  functions: {
+    "tokenURI(tuple)": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "tokenURI",
+    values: [
+      {
+        guildName: string;
+        guildSymbol: string;
+        tokenId: BigNumberish;
+        tierName: string;
+        expirationTimestamp: BigNumberish;
+        status: BigNumberish;
+      }
+    ]
+  ): string;
+
+  decodeFunctionResult(functionFragment: "tokenURI", data: BytesLike): Result;
+
+  events: {};
+}
+
+export class GuildTokenUri extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: GuildTokenUriInterface;
+
+  functions: {
+    tokenURI(
+      _membership: {
+        guildName: string;
+        guildSymbol: string;
+        tokenId: BigNumberish;
+        tierName: string;
+        expirationTimestamp: BigNumberish;
+        status: BigNumberish;
+      },
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "tokenURI(tuple)"(
+      _membership: {
+        guildName: string;
+        guildSymbol: string;
+        tokenId: BigNumberish;
+        tierName: string;
+        expirationTimestamp: BigNumberish;
+        status: BigNumberish;
+      },
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+  };
+
+  tokenURI(
+    _membership: {
+      guildName: string;
+      guildSymbol: string;
+      tokenId: BigNumberish;
+      tierName: string;
+      expirationTimestamp: BigNumberish;
+      status: BigNumberish;
+    },
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "tokenURI(tuple)"(
+    _membership: {
+      guildName: string;
+      guildSymbol: string;
+      tokenId: BigNumberish;
+      tierName: string;
+      expirationTimestamp: BigNumberish;
+      status: BigNumberish;
+    },
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  callStatic: {
+    tokenURI(
+      _membership: {
+        guildName: string;
+        guildSymbol: string;
+        tokenId: BigNumberish;
+        tierName: string;
+        expirationTimestamp: BigNumberish;
+        status: BigNumberish;
+      },
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "tokenURI(tuple)"(
+      _membership: {
+        guildName: string;
+        guildSymbol: string;
+        tokenId: BigNumberish;
+        tierName: string;
+        expirationTimestamp: BigNumberish;
+        status: BigNumberish;
+      },
+      overrides?: CallOverrides
+    ): Promise<string>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    tokenURI(
+      _membership: {
+        guildName: string;
+        guildSymbol: string;
+        tokenId: BigNumberish;
+        tierName: string;
+        expirationTimestamp: BigNumberish;
+        status: BigNumberish;
+      },
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "tokenURI(tuple)"(
+      _membership: {
+        guildName: string;
+        guildSymbol: string;
+        tokenId: BigNumberish;
+        tierName: string;
+        expirationTimestamp: BigNumberish;
+        status: BigNumberish;
+      },
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    tokenURI(
+      _membership: {
+        guildName: string;
+        guildSymbol: string;
+        tokenId: BigNumberish;
+        tierName: string;
+        expirationTimestamp: BigNumberish;
+        status: BigNumberish;
+      },
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "tokenURI(tuple)"(
+      _membership: {
+        guildName: string;
+        guildSymbol: string;
+        tokenId: BigNumberish;
+        tierName: string;
+        expirationTimestamp: BigNumberish;
+        status: BigNumberish;
+      },
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
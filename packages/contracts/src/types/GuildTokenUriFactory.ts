@@ -0,0 +1,91 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { GuildTokenUri } from "./GuildTokenUri";
+
+export class GuildTokenUriFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(overrides?: Overrides): Promise<GuildTokenUri> {
+    return super.deploy(overrides || {}) as Promise<GuildTokenUri>;
+  }
+  getDeployTransaction(overrides?: Overrides): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  attach(address: string): GuildTokenUri {
+    return super.attach(address) as GuildTokenUri;
+  }
+  connect(signer: Signer): GuildTokenUriFactory {
+    return super.connect(signer) as GuildTokenUriFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): GuildTokenUri {
+    return new Contract(address, _abi, signerOrProvider) as GuildTokenUri;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "guildName",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "guildSymbol",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "tokenId",
+            type: "uint256",
+          },
+          {
+            internalType: "string",
+            name: "tierName",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "expirationTimestamp",
+            type: "uint256",
+          },
+          {
+            internalType: "enum IGuild.SubscriptionStatus",
+            name: "status",
+            type: "IGuild.SubscriptionStatus",
+          },
+        ],
+        internalType: "struct GuildTokenURI.Membership",
+        name: "_membership",
+        type: "tuple",
+      },
+    ],
+    name: "tokenURI",
+    outputs: [
+      {
+        internalType: "string",
+        name: "",
+        type: "string",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x6113eb610026600b82828239805160001a60731461001957fe5b30600052607381538281f3fe73000000000000000000000000000000000000000030146080604052600436106100355760003560e01c80634a65dbeb1461003a575b600080fd5b61004d610048366004610bec565b610063565b60405161005a91906112ee565b60405180910390f35b6060600061007483600001516101c1565b9050600061008584606001516101c1565b905060006100968560800151610309565b905060006100a78660a00151610482565b905060006100c06100bb8887878787610522565b610800565b90506000856100d28960400151610a6e565b878560008c60a0015160028111156100e657fe5b1461011057604051806040016040528060078152602001660103ab73a34b6160cd1b81525061012e565b6040518060400160405280600481526020016301037b7160e51b8152505b88876040516020016101469796959493929190610fa5565b60405160208183030381529060405290508085846101678b60800151610a6e565b60405160200161017a9493929190610dce565b604051602081830303815290604052905061019481610800565b6040516020016101a491906110f0565b60405160208183030381529060405296505050505050505b919050565b606060008290506000815167ffffffffffffffff811180156101e257600080fd5b506040519080825280601f01601f19166020018201604052801561020d576020820181803683370190505b5090506000805b83518110156102ff57600084828151811061022b57fe5b01602001516001600160f81b0319169050600160fd1b811080159061025e5750601160f91b6001600160f81b0319821614155b80156102785750601760fa1b6001600160f81b0319821614155b80156102925750600f60fa1b6001600160f81b0319821614155b80156102ac5750601f60f91b6001600160f81b0319821614155b80156102c65750601360f91b6001600160f81b0319821614155b156102f657808484806001019550815181106102de57fe5b60200101906001600160f81b031916908160001a9053505b50600101610214565b5081529392505050565b6060620afa6c62015180830401600062023ab18204905062023ab181028203600061016d62023ab083046105b484048403618eac850401030490506064810461016d8202600483040103820360006099600260058402010490506001600560998302600201048303016000600a8310610385576009830361038a565b826003015b90506000600282111561039e5760006103a1565b60015b60ff16886101900287010190506103b781610a6e565b600a83106103de57604051806040016040528060018152602001602d60f81b8152506103fa565b6040518060400160405280600281526020016102d360f41b8152505b61040384610a6e565b600a861061042a57604051806040016040528060018152602001602d60f81b815250610446565b6040518060400160405280600281526020016102d360f41b8152505b61044f87610a6e565b604051602001610463959493929190610efc565b6040516020818303038152906040529950505050505050505050919050565b6060600182600281111561049257fe5b14156104bb575060408051808201909152600681526541637469766560d01b60208201526101bc565b60028260028111156104c957fe5b146104f35760405180604001604052806007815260200166115e1c1a5c995960ca1b81525061051c565b6040518060400160405280600f81526020016e125b8819dc9858d9481c195c9a5bd9608a1b8152505b92915050565b60606000808760a00151600281111561053757fe5b149050600081610566576040518060400160405280600781526020016611a3232323232360c91b815250610587565b604051806040016040528060078152602001662338433843384360c81b8152505b826105b157604051806040016040528060078152602001662330453045324360c81b8152506105d2565b604051806040016040528060078152602001662333413341334160c81b8152505b6040516020016105e39291906111d2565b604051602081830303815290604052905080610634604051806040016040528060028152602001611a9b60f11b815250604051806040016040528060028152602001610c8d60f21b8152508a610b49565b61067f604051806040016040528060028152602001610e0d60f21b815250604051806040016040528060028152602001610c4d60f21b81525061067a8d602001516101c1565b610b49565b6106ea6040518060400160405280600381526020016203230360ec1b81525060405180604001604052806002815260200161199960f11b8152506106c68e60400151610a6e565b6040516020016106d691906110c7565b604051602081830303815290604052610b49565b6040516020016106fd9493929190610d23565b60405160208183030381529060405290508061075a6040518060400160405280600381526020016203234360ec1b81525060405180604001604052806002815260200161189b60f11b815250896040516020016106d69190611099565b6107d26040518060400160405280600381526020016203330360ec1b81525060405180604001604052806002815260200161189b60f11b8152508661079f57886107c0565b604051806040016040528060078152602001661156141254915160ca1b8152505b8a6040516020016106d6929190610f67565b6040516020016107e493929190610d7a565b6040516020818303038152906040529250505095945050505050565b606081516000141561082157506040805160208101909152600081526101bc565b60006040518060600160405280604081526020016113766040913990506000600384516002018161084e57fe5b0460040267ffffffffffffffff8111801561086857600080fd5b506040519080825280601f01601f191660200182016040528015610893576020820181803683370190505b5090506000805b8551811015610a6457600060108783815181106108b357fe5b0160200151885160f89190911c90911b91506001830110156108ec5760088783600101815181106108e057fe5b016020015160f81c901b175b86518260020110156109115786826002018151811061090757fe5b016020015160f81c175b84601282901c603f168151811061092457fe5b602001015160f81c60f81b84848060010195508151811061094157fe5b60200101906001600160f81b031916908160001a90535084600c82901c603f168151811061096b57fe5b602001015160f81c60f81b84848060010195508151811061098857fe5b60200101906001600160f81b031916908160001a905350865182600101106109b457603d60f81b6109d7565b84600682901c603f16815181106109c757fe5b01602001516001600160f81b0319165b84516001850194869181106109e857fe5b60200101906001600160f81b031916908160001a90535086518260020110610a1457603d60f81b610a33565b8481603f1681518110610a2357fe5b01602001516001600160f81b0319165b8451600185019486918110610a4457fe5b60200101906001600160f81b031916908160001a9053505060030161089a565b5090949350505050565b606081610a9357506040805180820190915260018152600360fc1b60208201526101bc565b8160005b8115610aab57600101600a82049150610a97565b60008167ffffffffffffffff81118015610ac457600080fd5b506040519080825280601f01601f191660200182016040528015610aef576020820181803683370190505b50859350905060001982015b8315610b4057600a840660300160f81b82828060019003935081518110610b1e57fe5b60200101906001600160f81b031916908160001a905350600a84049350610afb565b50949350505050565b6060838383604051602001610b6093929190611135565b60405160208183030381529060405290509392505050565b8035600381106101bc57600080fd5b600082601f830112610b97578081fd5b813567ffffffffffffffff811115610bab57fe5b610bbe601f8201601f1916602001611321565b818152846020838601011115610bd2578283fd5b816020850160208301379081016020019190915292915050565b600060208284031215610bfd578081fd5b813567ffffffffffffffff80821115610c14578283fd5b9083019060c08286031215610c27578283fd5b610c3160c0611321565b823582811115610c3f578485fd5b610c4b87828601610b87565b825250602083013582811115610c5f578485fd5b610c6b87828601610b87565b60208301525060408301356040820152606083013582811115610c8c578485fd5b610c9887828601610b87565b60608301525060808301356080820152610cb460a08401610b78565b60a082015295945050505050565b60008151610cd4818560208601611345565b9290920192915050565b7f222c22696d616765223a22646174613a696d6167652f7376672b786d6c3b62618152641cd94d8d0b60da1b602082015260250190565b61088b60f21b815260020190565b60008551610d35818460208a01611345565b855190830190610d49818360208a01611345565b8551910190610d5c818360208901611345565b8451910190610d6f818360208801611345565b019695505050505050565b60008451610d8c818460208901611345565b845190830190610da0818360208901611345565b8451910190610db3818360208801611345565b651e17b9bb339f60d11b910190815260060195945050505050565b60008551610de0818460208a01611345565b80830190507f2261747472696275746573223a5b7b2274726169745f74797065223a2254696581526b391116113b30b63ab2911d1160a11b60208201528551610e3081602c840160208a01611345565b7f227d2c7b2274726169745f74797065223a22537461747573222c2276616c7565602c929091019182015262111d1160e91b604c8201528451610e7a81604f840160208901611345565b7f227d2c7b22646973706c61795f74797065223a2264617465222c227472616974604f92909101918201527f5f74797065223a22457870697279222c2276616c7565223a0000000000000000606f8201528351610ede816087840160208801611345565b627d5d7d60e81b60879290910191820152608a019695505050505050565b60008651610f0e818460208b01611345565b865190830190610f22818360208b01611345565b8651910190610f35818360208a01611345565b8551910190610f48818360208901611345565b8451910190610f5b818360208801611345565b01979650505050505050565b60008351610f79818460208801611345565b6201016960ed1b9083019081528351610f99816003840160208801611345565b01600301949350505050565b683d913730b6b2911d1160b91b81528751600090610fca816009850160208d01611345565b61202360f01b6009918401918201528851610fec81600b840160208d01611345565b701116113232b9b1b934b83a34b7b7111d1160791b600b9290910191820152875161101e81601c840160208c01611345565b6c01036b2b6b132b939b434b8171609d1b601c9290910191820152865161104c816029840160208b01611345565b8651910190611062816029840160208a01611345565b61108a61108561107f61107a6029858701018a610cc2565b610cde565b87610cc2565b610d15565b9b9a5050505050505050505050565b60006502a34b2b91d160d51b825282516110ba816006850160208701611345565b9190910160060192915050565b6000602360f81b825282516110e3816001850160208701611345565b9190910160010192915050565b60007f646174613a6170706c69636174696f6e2f6a736f6e3b6261736536342c0000008252825161112881601d850160208701611345565b91909101601d0192915050565b6f1e3a32bc3a103c1e91191a11103c9e9160811b81528351600090611161816010850160208901611345565b6c11103337b73a16b9b4bd329e9160991b601091840191820152845161118e81601d840160208901611345565b61111f60f11b601d929091019182015283516111b181601f840160208801611345565b661e17ba32bc3a1f60c91b601f929091019182015260260195945050505050565b60007f3c73766720786d6c6e733d22687474703a2f2f7777772e77332e6f72672f323082527f30302f737667222077696474683d2233353022206865696768743d223335302260208301527f2076696577426f783d223020302033353020333530222000000000000000000060408301527f666f6e742d66616d696c793d226d6f6e6f7370616365222066696c6c3d2200006057830152835161127c816075850160208801611345565b61111f60f11b6075918401918201527f3c726563742077696474683d2233353022206865696768743d2233353022206660778201526434b6361e9160d91b609782015283516112d281609c840160208801611345565b6211179f60e91b609c9290910191820152609f01949350505050565b600060208252825180602084015261130d816040850160208701611345565b601f01601f19169190910160400192915050565b60405181810167ffffffffffffffff8111828210171561133d57fe5b604052919050565b60005b83811015611360578181015183820152602001611348565b8381111561136f576000848401525b5050505056fe4142434445464748494a4b4c4d4e4f505152535455565758595a6162636465666768696a6b6c6d6e6f707172737475767778797a303132333435363738392b2fa2646970667358221220237aa7e0fb96c51e473c538232bc815cba8390bbdb51d5bb500b9b7012e11c3664736f6c63430007060033";
@@ -0,0 +1,217 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface GuildVouchersInterface extends ethers.utils.Interface {
+  functions: {
+    "hashVoucher(tuple)": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "hashVoucher",
+    values: [
+      {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      }
+    ]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "hashVoucher",
+    data: BytesLike
+  ): Result;
+
+  events: {};
+}
+
+export class GuildVouchers extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: GuildVouchersInterface;
+
+  functions: {
+    hashVoucher(
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "hashVoucher(tuple)"(
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+  };
+
+  hashVoucher(
+    _voucher: {
+      tierId: BigNumberish;
+      discountBps: BigNumberish;
+      tokenAddress: string;
+      fixedPrice: BigNumberish;
+      maxUses: BigNumberish;
+      expiry: BigNumberish;
+      recipient: string;
+      salt: BytesLike;
+    },
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "hashVoucher(tuple)"(
+    _voucher: {
+      tierId: BigNumberish;
+      discountBps: BigNumberish;
+      tokenAddress: string;
+      fixedPrice: BigNumberish;
+      maxUses: BigNumberish;
+      expiry: BigNumberish;
+      recipient: string;
+      salt: BytesLike;
+    },
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  callStatic: {
+    hashVoucher(
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "hashVoucher(tuple)"(
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      overrides?: CallOverrides
+    ): Promise<string>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    hashVoucher(
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "hashVoucher(tuple)"(
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    hashVoucher(
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "hashVoucher(tuple)"(
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
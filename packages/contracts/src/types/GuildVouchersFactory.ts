@@ -0,0 +1,101 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { GuildVouchers } from "./GuildVouchers";
+
+export class GuildVouchersFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(overrides?: Overrides): Promise<GuildVouchers> {
+    return super.deploy(overrides || {}) as Promise<GuildVouchers>;
+  }
+  getDeployTransaction(overrides?: Overrides): TransactionRequest {
+    return super.getDeployTransaction(overrides || {});
+  }
+  attach(address: string): GuildVouchers {
+    return super.attach(address) as GuildVouchers;
+  }
+  connect(signer: Signer): GuildVouchersFactory {
+    return super.connect(signer) as GuildVouchersFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): GuildVouchers {
+    return new Contract(address, _abi, signerOrProvider) as GuildVouchers;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "tierId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "discountBps",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "tokenAddress",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "fixedPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxUses",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiry",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "recipient",
+            type: "address",
+          },
+          {
+            internalType: "bytes32",
+            name: "salt",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct IGuild.Voucher",
+        name: "_voucher",
+        type: "tuple",
+      },
+    ],
+    name: "hashVoucher",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x610b7e610026600b82828239805160001a60731461001957fe5b30600052607381538281f3fe73000000000000000000000000000000000000000030146080604052600436106100405760003560e01c80630c26fbca146100455780634f07db201461006e575b600080fd5b61005861005336600461088e565b61009d565b60405161006591906108cc565b60405180910390f35b81801561007a57600080fd5b5061008e6100893660046107b1565b6101dd565b604051610065939291906108d5565b60008046905060007f8b73c3c69bb8fe3d512ecc4cf759cc79239f7b179b0ffacaa9a75d522b39400f7f79717e7972dca1f9fe5d2d9ca100864b25dc5b261dcb2f7591107c19c56a85a97fc89efdaa54c0f20c7adf612882df0950f5a951637e0307cdcb4c672f298b8bc6843060405160200161011e9594939291906108f4565b60408051601f1981840301815282825280516020918201208751888301519389015160608a015160808b015160a08c015160c08d015160e08e0151969a50600099610191997f5fa0cb5b5eafde21ccb703e3240cf048106c520087f5782ce6de194299b1676e9997989097909101610920565b60405160208183030381529060405280519060200120905081816040516020016101bc9291906108b1565b6040516020818303038152906040528051906020012093505050505b919050565b6000806000428960a00151101561020f5760405162461bcd60e51b8152600401610206906109b7565b60405180910390fd5b60c08901516001600160a01b0316158061023e5750866001600160a01b03168960c001516001600160a01b0316145b61025a5760405162461bcd60e51b815260040161020690610968565b6102638961009d565b60808a0151600082815260208d90526040902054919450116102975760405162461bcd60e51b815260040161020690610a7d565b600083815260208b905260409020546102b1906001610385565b600084815260208c905260409020556102ca83896103e8565b60208a01519092501561033157612710896020015111156102fd5760405162461bcd60e51b815260040161020690610a3b565b61032a61032361271061031d8c602001518861046890919063ffffffff16565b906104c1565b8590610528565b9050610378565b856001600160a01b031689604001516001600160a01b0316146103665760405162461bcd60e51b8152600401610206906109ee565b60608901516103759086610468565b90505b9750975097945050505050565b6000828201838110156103df576040805162461bcd60e51b815260206004820152601b60248201527f536166654d6174683a206164646974696f6e206f766572666c6f770000000000604482015290519081900360640190fd5b90505b92915050565b60008151604114610440576040805162461bcd60e51b815260206004820152601f60248201527f45434453413a20696e76616c6964207369676e6174757265206c656e67746800604482015290519081900360640190fd5b60208201516040830151606084015160001a61045e86828585610585565b9695505050505050565b600082610477575060006103e2565b8282028284828161048457fe5b04146103df5760405162461bcd60e51b8152600401808060200182810382526021815260200180610b286021913960400191505060405180910390fd5b6000808211610517576040805162461bcd60e51b815260206004820152601a60248201527f536166654d6174683a206469766973696f6e206279207a65726f000000000000604482015290519081900360640190fd5b81838161052057fe5b049392505050565b60008282111561057f576040805162461bcd60e51b815260206004820152601e60248201527f536166654d6174683a207375627472616374696f6e206f766572666c6f770000604482015290519081900360640190fd5b50900390565b60007f7fffffffffffffffffffffffffffffff5d576e7357a4501ddfe92f46681b20a08211156105e65760405162461bcd60e51b8152600401808060200182810382526022815260200180610ae46022913960400191505060405180910390fd5b8360ff16601b14806105fb57508360ff16601c145b6106365760405162461bcd60e51b8152600401808060200182810382526022815260200180610b066022913960400191505060405180910390fd5b600060018686868660405160008152602001604052604051808581526020018460ff1681526020018381526020018281526020019450505050506020604051602081039080840390855afa158015610692573d6000803e3d6000fd5b5050604051601f1901519150506001600160a01b0381166106fa576040805162461bcd60e51b815260206004820152601860248201527f45434453413a20696e76616c6964207369676e61747572650000000000000000604482015290519081900360640190fd5b95945050505050565b80356001600160a01b03811681146101d857600080fd5b600061010080838503121561072d578182fd5b6040519081019067ffffffffffffffff8211818310171561074a57fe5b81604052809250833581526020840135602082015261076b60408501610703565b6040820152606084013560608201526080840135608082015260a084013560a082015261079a60c08501610703565b60c082015260e084013560e0820152505092915050565b60008060008060008060006101c0888a0312156107cc578283fd5b8735965060206107de8a828b0161071a565b965061012089013567ffffffffffffffff808211156107fb578586fd5b818b0191508b601f83011261080e578586fd5b81358181111561081a57fe5b61082c601f8201601f19168501610abf565b91508082528c84828501011115610841578687fd5b808484018584013781019092018590525094506108616101408901610703565b93506108706101608901610703565b925061018088013591506101a0880135905092959891949750929550565b600061010082840312156108a0578081fd5b6108aa838361071a565b9392505050565b61190160f01b81526002810192909252602282015260420190565b90815260200190565b9283526001600160a01b03919091166020830152604082015260600190565b9485526020850193909352604084019190915260608301526001600160a01b0316608082015260a00190565b988952602089019790975260408801959095526001600160a01b039384166060880152608087019290925260a086015260c08501521660e08301526101008201526101200190565b6020808252602f908201527f4775696c644170703a20566f756368657220697320626f756e6420746f20616e60408201526e1bdd1a195c881c9958da5c1a595b9d608a1b606082015260800190565b6020808252601d908201527f4775696c644170703a20566f7563686572206861732065787069726564000000604082015260600190565b6020808252602d908201527f4775696c644170703a20566f7563686572206973206e6f742076616c6964206660408201526c37b9103a3434b9903a37b5b2b760991b606082015260800190565b60208082526022908201527f4775696c644170703a20496e76616c696420766f756368657220646973636f756040820152611b9d60f21b606082015260800190565b60208082526022908201527f4775696c644170703a20566f756368657220686173206e6f2075736573206c65604082015261199d60f21b606082015260800190565b60405181810167ffffffffffffffff81118282101715610adb57fe5b60405291905056fe45434453413a20696e76616c6964207369676e6174757265202773272076616c756545434453413a20696e76616c6964207369676e6174757265202776272076616c7565536166654d6174683a206d756c7469706c69636174696f6e206f766572666c6f77a2646970667358221220a62ea228e58842c0928f759c275c50b4ea5b812e97178f574641a1ad083865e764736f6c63430007060033";
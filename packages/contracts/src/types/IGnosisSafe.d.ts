@@ -22,19 +22,37 @@ import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
 interface IGnosisSafeInterface extends ethers.utils.Interface {
   functions: {
     "NAME()": FunctionFragment;
+    "getThreshold()": FunctionFragment;
     "isOwner(address)": FunctionFragment;
+    "isValidSignature(bytes32,bytes)": FunctionFragment;
     "signatureSplit(bytes,uint256)": FunctionFragment;
   };
 
   encodeFunctionData(functionFragment: "NAME", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "getThreshold",
+    values?: undefined
+  ): string;
   encodeFunctionData(functionFragment: "isOwner", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "isValidSignature",
+    values: [BytesLike, BytesLike]
+  ): string;
   encodeFunctionData(
     functionFragment: "signatureSplit",
     values: [BytesLike, BigNumberish]
   ): string;
 
   decodeFunctionResult(functionFragment: "NAME", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getThreshold",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "isOwner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isValidSignature",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "signatureSplit",
     data: BytesLike
@@ -65,6 +83,14 @@ export class IGnosisSafe extends Contract {
       0: string;
     }>;
 
+    getThreshold(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getThreshold()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
     isOwner(
       owner: string,
       overrides?: CallOverrides
@@ -79,6 +105,22 @@ export class IGnosisSafe extends Contract {
       0: boolean;
     }>;
 
+    "isValidSignature(bytes32,bytes)"(
+      _dataHash: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
     signatureSplit(
       signatures: BytesLike,
       pos: BigNumberish,
@@ -104,6 +146,10 @@ export class IGnosisSafe extends Contract {
 
   "NAME()"(overrides?: CallOverrides): Promise<string>;
 
+  getThreshold(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "getThreshold()"(overrides?: CallOverrides): Promise<BigNumber>;
+
   isOwner(owner: string, overrides?: CallOverrides): Promise<boolean>;
 
   "isOwner(address)"(
@@ -111,6 +157,18 @@ export class IGnosisSafe extends Contract {
     overrides?: CallOverrides
   ): Promise<boolean>;
 
+  "isValidSignature(bytes32,bytes)"(
+    _dataHash: BytesLike,
+    _signature: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "isValidSignature(bytes,bytes)"(
+    _data: BytesLike,
+    _signature: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
   signatureSplit(
     signatures: BytesLike,
     pos: BigNumberish,
@@ -136,6 +194,10 @@ export class IGnosisSafe extends Contract {
 
     "NAME()"(overrides?: CallOverrides): Promise<string>;
 
+    getThreshold(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "getThreshold()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     isOwner(owner: string, overrides?: CallOverrides): Promise<boolean>;
 
     "isOwner(address)"(
@@ -143,6 +205,18 @@ export class IGnosisSafe extends Contract {
       overrides?: CallOverrides
     ): Promise<boolean>;
 
+    "isValidSignature(bytes32,bytes)"(
+      _dataHash: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
     signatureSplit(
       signatures: BytesLike,
       pos: BigNumberish,
@@ -171,6 +245,10 @@ export class IGnosisSafe extends Contract {
 
     "NAME()"(overrides?: CallOverrides): Promise<BigNumber>;
 
+    getThreshold(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "getThreshold()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     isOwner(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
 
     "isOwner(address)"(
@@ -178,6 +256,18 @@ export class IGnosisSafe extends Contract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    "isValidSignature(bytes32,bytes)"(
+      _dataHash: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     signatureSplit(
       signatures: BytesLike,
       pos: BigNumberish,
@@ -196,6 +286,10 @@ export class IGnosisSafe extends Contract {
 
     "NAME()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
+    getThreshold(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "getThreshold()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     isOwner(
       owner: string,
       overrides?: CallOverrides
@@ -206,6 +300,18 @@ export class IGnosisSafe extends Contract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    "isValidSignature(bytes32,bytes)"(
+      _dataHash: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     signatureSplit(
       signatures: BytesLike,
       pos: BigNumberish,
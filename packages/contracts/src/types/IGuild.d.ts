@@ -23,41 +23,126 @@ import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
 
 interface IGuildInterface extends ethers.utils.Interface {
   functions: {
+    "acceptedTokens()": FunctionFragment;
+    "addPaymentToken(address,uint256[])": FunctionFragment;
+    "addTier(string,uint256,uint256,uint256)": FunctionFragment;
     "approve(address,uint256)": FunctionFragment;
+    "approveSubscriptionTransfer(uint256,address)": FunctionFragment;
     "approvedTokens()": FunctionFragment;
     "balanceOf(address)": FunctionFragment;
+    "claim(address,address)": FunctionFragment;
+    "claimClosingRefund(uint256)": FunctionFragment;
+    "closeGuild()": FunctionFragment;
+    "closingRefund(uint256)": FunctionFragment;
+    "distribute(address)": FunctionFragment;
+    "freezeSubscription(uint256)": FunctionFragment;
     "getApproved(uint256)": FunctionFragment;
     "getMetadata()": FunctionFragment;
     "getSubscriptionExpiryFor(address)": FunctionFragment;
     "getSubscriptionIdFor(address)": FunctionFragment;
+    "getSubscriptionTierFor(address)": FunctionFragment;
+    "getTier(uint256)": FunctionFragment;
+    "getTierPrice(uint256,address)": FunctionFragment;
+    "giftSubscription(address,uint256,address,uint256,uint256,string)": FunctionFragment;
     "guildBalance(address)": FunctionFragment;
     "hasActiveSubscription(address)": FunctionFragment;
-    "initialize(address,address,uint256,uint256,tuple,address)": FunctionFragment;
+    "initialize(address,address,tuple[],tuple,address,uint8)": FunctionFragment;
     "initialized()": FunctionFragment;
     "isApprovedForAll(address,address)": FunctionFragment;
     "isSubscriptionOwner(uint256,address)": FunctionFragment;
+    "joinWaitlist(uint256)": FunctionFragment;
     "ownerOf(uint256)": FunctionFragment;
     "pauseGuild(bool)": FunctionFragment;
+    "payees()": FunctionFragment;
+    "processClosingRefunds(uint256)": FunctionFragment;
+    "refundableAmount(uint256)": FunctionFragment;
+    "releaseSeat(uint256)": FunctionFragment;
+    "remainingSeats(uint256)": FunctionFragment;
+    "removePaymentToken(address)": FunctionFragment;
+    "renew(uint256,uint256)": FunctionFragment;
+    "renewBatch(address[])": FunctionFragment;
+    "safeSubscriptionHash(address,tuple)": FunctionFragment;
     "safeTransferFrom(address,address,uint256)": FunctionFragment;
+    "setAllowlist(bytes32,string)": FunctionFragment;
     "setApprovalForAll(address,bool)": FunctionFragment;
+    "setFreezePolicy(uint256,uint256)": FunctionFragment;
+    "setGracePeriod(uint256)": FunctionFragment;
+    "setGrandfatheredPricing(bool)": FunctionFragment;
+    "setMaxMembers(uint256)": FunctionFragment;
     "setMetadata(string)": FunctionFragment;
-    "subscribe(address,string,uint256,bytes)": FunctionFragment;
+    "setPayees(address[],uint256[])": FunctionFragment;
+    "setPeriodDiscount(uint256,uint256)": FunctionFragment;
+    "setReferralPolicy(uint256,uint256)": FunctionFragment;
+    "setRefundPolicy(uint8,uint256)": FunctionFragment;
+    "setTokenPrice(uint256,address,uint256)": FunctionFragment;
+    "subscribe(address,uint256,address,string,uint256,bytes)": FunctionFragment;
+    "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)": FunctionFragment;
+    "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)": FunctionFragment;
+    "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])": FunctionFragment;
+    "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)": FunctionFragment;
+    "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])": FunctionFragment;
+    "subscriptionCost(uint256,address,uint256)": FunctionFragment;
+    "subscriptionCostFor(address,uint256,address,uint256)": FunctionFragment;
+    "subscriptionStatus(address)": FunctionFragment;
     "supportsInterface(bytes4)": FunctionFragment;
+    "templateVersion()": FunctionFragment;
+    "tip(address,uint256,string)": FunctionFragment;
+    "totalTiers()": FunctionFragment;
     "transferFrom(address,address,uint256)": FunctionFragment;
+    "unfreezeSubscription(uint256)": FunctionFragment;
     "unsubscribe(uint256)": FunctionFragment;
     "updateSubscriptionPrice(address,uint256)": FunctionFragment;
+    "updateTier(uint256,string,uint256,uint256,uint256)": FunctionFragment;
+    "upgradeToVersion(uint256)": FunctionFragment;
     "withdraw(address,uint256,address)": FunctionFragment;
   };
 
+  encodeFunctionData(
+    functionFragment: "acceptedTokens",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addPaymentToken",
+    values: [string, BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "addTier",
+    values: [string, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "approve",
     values: [string, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "approveSubscriptionTransfer",
+    values: [BigNumberish, string]
+  ): string;
   encodeFunctionData(
     functionFragment: "approvedTokens",
     values?: undefined
   ): string;
   encodeFunctionData(functionFragment: "balanceOf", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "claim",
+    values: [string, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "claimClosingRefund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closeGuild",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "closingRefund",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(functionFragment: "distribute", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "freezeSubscription",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "getApproved",
     values: [BigNumberish]
@@ -74,6 +159,22 @@ interface IGuildInterface extends ethers.utils.Interface {
     functionFragment: "getSubscriptionIdFor",
     values: [string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "getSubscriptionTierFor",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTier",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getTierPrice",
+    values: [BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "giftSubscription",
+    values: [string, BigNumberish, string, BigNumberish, BigNumberish, string]
+  ): string;
   encodeFunctionData(
     functionFragment: "guildBalance",
     values: [string]
@@ -87,10 +188,15 @@ interface IGuildInterface extends ethers.utils.Interface {
     values: [
       string,
       string,
-      BigNumberish,
-      BigNumberish,
+      {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       { name: string; symbol: string; baseURI: string; metadataCID: string },
-      string
+      string,
+      BigNumberish
     ]
   ): string;
   encodeFunctionData(
@@ -105,32 +211,224 @@ interface IGuildInterface extends ethers.utils.Interface {
     functionFragment: "isSubscriptionOwner",
     values: [BigNumberish, string]
   ): string;
+  encodeFunctionData(
+    functionFragment: "joinWaitlist",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "ownerOf",
     values: [BigNumberish]
   ): string;
   encodeFunctionData(functionFragment: "pauseGuild", values: [boolean]): string;
+  encodeFunctionData(functionFragment: "payees", values?: undefined): string;
+  encodeFunctionData(
+    functionFragment: "processClosingRefunds",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "refundableAmount",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "releaseSeat",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "remainingSeats",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "removePaymentToken",
+    values: [string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renew",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "renewBatch",
+    values: [string[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "safeSubscriptionHash",
+    values: [
+      string,
+      {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      }
+    ]
+  ): string;
   encodeFunctionData(
     functionFragment: "safeTransferFrom",
     values: [string, string, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setAllowlist",
+    values: [BytesLike, string]
+  ): string;
   encodeFunctionData(
     functionFragment: "setApprovalForAll",
     values: [string, boolean]
   ): string;
+  encodeFunctionData(
+    functionFragment: "setFreezePolicy",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setGracePeriod",
+    values: [BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setGrandfatheredPricing",
+    values: [boolean]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setMaxMembers",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(functionFragment: "setMetadata", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "setPayees",
+    values: [string[], BigNumberish[]]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setPeriodDiscount",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setReferralPolicy",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setRefundPolicy",
+    values: [BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "setTokenPrice",
+    values: [BigNumberish, string, BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "subscribe",
-    values: [string, string, BigNumberish, BytesLike]
+    values: [string, BigNumberish, string, string, BigNumberish, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeForPeriods",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BytesLike
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeWithPermit",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BigNumberish,
+      BigNumberish,
+      {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      }
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeWithProof",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      BytesLike[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeWithReferrer",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      string
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscribeWithVoucher",
+    values: [
+      string,
+      BigNumberish,
+      string,
+      BigNumberish,
+      BigNumberish,
+      BytesLike,
+      {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      BytesLike,
+      BytesLike[]
+    ]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionCost",
+    values: [BigNumberish, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionCostFor",
+    values: [string, BigNumberish, string, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "subscriptionStatus",
+    values: [string]
   ): string;
   encodeFunctionData(
     functionFragment: "supportsInterface",
     values: [BytesLike]
   ): string;
+  encodeFunctionData(
+    functionFragment: "templateVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "tip",
+    values: [string, BigNumberish, string]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "totalTiers",
+    values?: undefined
+  ): string;
   encodeFunctionData(
     functionFragment: "transferFrom",
     values: [string, string, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "unfreezeSubscription",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "unsubscribe",
     values: [BigNumberish]
@@ -139,17 +437,53 @@ interface IGuildInterface extends ethers.utils.Interface {
     functionFragment: "updateSubscriptionPrice",
     values: [string, BigNumberish]
   ): string;
+  encodeFunctionData(
+    functionFragment: "updateTier",
+    values: [BigNumberish, string, BigNumberish, BigNumberish, BigNumberish]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "upgradeToVersion",
+    values: [BigNumberish]
+  ): string;
   encodeFunctionData(
     functionFragment: "withdraw",
     values: [string, BigNumberish, string]
   ): string;
 
+  decodeFunctionResult(
+    functionFragment: "acceptedTokens",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "addPaymentToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "addTier", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "approve", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "approveSubscriptionTransfer",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "approvedTokens",
     data: BytesLike
   ): Result;
   decodeFunctionResult(functionFragment: "balanceOf", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "claim", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "claimClosingRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "closeGuild", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "closingRefund",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "distribute", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "freezeSubscription",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "getApproved",
     data: BytesLike
@@ -166,6 +500,19 @@ interface IGuildInterface extends ethers.utils.Interface {
     functionFragment: "getSubscriptionIdFor",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "getSubscriptionTierFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "getTier", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "getTierPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "giftSubscription",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "guildBalance",
     data: BytesLike
@@ -187,52 +534,167 @@ interface IGuildInterface extends ethers.utils.Interface {
     functionFragment: "isSubscriptionOwner",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "joinWaitlist",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "ownerOf", data: BytesLike): Result;
   decodeFunctionResult(functionFragment: "pauseGuild", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "payees", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "processClosingRefunds",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "refundableAmount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "releaseSeat",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "remainingSeats",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "removePaymentToken",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "renew", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "renewBatch", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "safeSubscriptionHash",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "safeTransferFrom",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setAllowlist",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "setApprovalForAll",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(
+    functionFragment: "setFreezePolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setGracePeriod",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setGrandfatheredPricing",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setMaxMembers",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(
     functionFragment: "setMetadata",
     data: BytesLike
   ): Result;
+  decodeFunctionResult(functionFragment: "setPayees", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "setPeriodDiscount",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setReferralPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setRefundPolicy",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "setTokenPrice",
+    data: BytesLike
+  ): Result;
   decodeFunctionResult(functionFragment: "subscribe", data: BytesLike): Result;
   decodeFunctionResult(
-    functionFragment: "supportsInterface",
+    functionFragment: "subscribeForPeriods",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "transferFrom",
+    functionFragment: "subscribeWithPermit",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "unsubscribe",
+    functionFragment: "subscribeWithProof",
     data: BytesLike
   ): Result;
   decodeFunctionResult(
-    functionFragment: "updateSubscriptionPrice",
+    functionFragment: "subscribeWithReferrer",
     data: BytesLike
   ): Result;
-  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
-
-  events: {
-    "Approval(address,address,uint256)": EventFragment;
-    "ApprovalForAll(address,address,bool)": EventFragment;
-    "Transfer(address,address,uint256)": EventFragment;
-  };
-
-  getEvent(nameOrSignatureOrTopic: "Approval"): EventFragment;
-  getEvent(nameOrSignatureOrTopic: "ApprovalForAll"): EventFragment;
-  getEvent(nameOrSignatureOrTopic: "Transfer"): EventFragment;
-}
-
-export class IGuild extends Contract {
-  connect(signerOrProvider: Signer | Provider | string): this;
+  decodeFunctionResult(
+    functionFragment: "subscribeWithVoucher",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionCost",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionCostFor",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "subscriptionStatus",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "supportsInterface",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "templateVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "tip", data: BytesLike): Result;
+  decodeFunctionResult(functionFragment: "totalTiers", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "transferFrom",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unfreezeSubscription",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "unsubscribe",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "updateSubscriptionPrice",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "updateTier", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "upgradeToVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "withdraw", data: BytesLike): Result;
+
+  events: {
+    "Approval(address,address,uint256)": EventFragment;
+    "ApprovalForAll(address,address,bool)": EventFragment;
+    "Transfer(address,address,uint256)": EventFragment;
+  };
+
+  getEvent(nameOrSignatureOrTopic: "Approval"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "ApprovalForAll"): EventFragment;
+  getEvent(nameOrSignatureOrTopic: "Transfer"): EventFragment;
+}
+
+export class IGuild extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
   attach(addressOrName: string): this;
   deployed(): Promise<this>;
 
@@ -245,6 +707,42 @@ export class IGuild extends Contract {
   interface: IGuildInterface;
 
   functions: {
+    acceptedTokens(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
+
+    "acceptedTokens()"(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
+
+    addPaymentToken(
+      _tokenAddress: string,
+      _prices: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "addPaymentToken(address,uint256[])"(
+      _tokenAddress: string,
+      _prices: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    addTier(
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "addTier(string,uint256,uint256,uint256)"(
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     approve(
       to: string,
       tokenId: BigNumberish,
@@ -257,6 +755,18 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
+    approveSubscriptionTransfer(
+      _tokenId: BigNumberish,
+      _to: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "approveSubscriptionTransfer(uint256,address)"(
+      _tokenId: BigNumberish,
+      _to: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     approvedTokens(overrides?: CallOverrides): Promise<{
       0: string[];
     }>;
@@ -281,6 +791,66 @@ export class IGuild extends Contract {
       0: BigNumber;
     }>;
 
+    claim(
+      _tokenAddress: string,
+      _payee: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "claim(address,address)"(
+      _tokenAddress: string,
+      _payee: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    claimClosingRefund(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "claimClosingRefund(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    closeGuild(overrides?: Overrides): Promise<ContractTransaction>;
+
+    "closeGuild()"(overrides?: Overrides): Promise<ContractTransaction>;
+
+    closingRefund(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "closingRefund(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    distribute(
+      _tokenAddress: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "distribute(address)"(
+      _tokenAddress: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    freezeSubscription(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "freezeSubscription(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     getApproved(
       tokenId: BigNumberish,
       overrides?: CallOverrides
@@ -333,6 +903,88 @@ export class IGuild extends Contract {
       0: BigNumber;
     }>;
 
+    getSubscriptionTierFor(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getSubscriptionTierFor(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    getTier(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: {
+        name: string;
+        price: BigNumber;
+        period: BigNumber;
+        cap: BigNumber;
+        0: string;
+        1: BigNumber;
+        2: BigNumber;
+        3: BigNumber;
+      };
+    }>;
+
+    "getTier(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: {
+        name: string;
+        price: BigNumber;
+        period: BigNumber;
+        cap: BigNumber;
+        0: string;
+        1: BigNumber;
+        2: BigNumber;
+        3: BigNumber;
+      };
+    }>;
+
+    getTierPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getTierPrice(uint256,address)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    giftSubscription(
+      _recipient: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "giftSubscription(address,uint256,address,uint256,uint256,string)"(
+      _recipient: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
     guildBalance(
       _tokenAddress: string,
       overrides?: CallOverrides
@@ -364,8 +1016,12 @@ export class IGuild extends Contract {
     initialize(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _tiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -373,14 +1029,19 @@ export class IGuild extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    "initialize(address,address,uint256,uint256,tuple,address)"(
+    "initialize(address,address,tuple[],tuple,address,uint8)"(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _tiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -388,6 +1049,7 @@ export class IGuild extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
@@ -431,6 +1093,16 @@ export class IGuild extends Contract {
       0: boolean;
     }>;
 
+    joinWaitlist(
+      _tierId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "joinWaitlist(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
     ownerOf(
       tokenId: BigNumberish,
       overrides?: CallOverrides
@@ -457,589 +1129,2340 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    "safeTransferFrom(address,address,uint256)"(
-      from: string,
-      to: string,
-      tokenId: BigNumberish,
-      overrides?: Overrides
-    ): Promise<ContractTransaction>;
+    payees(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
 
-    "safeTransferFrom(address,address,uint256,bytes)"(
-      from: string,
-      to: string,
-      tokenId: BigNumberish,
-      data: BytesLike,
-      overrides?: Overrides
-    ): Promise<ContractTransaction>;
+    "payees()"(overrides?: CallOverrides): Promise<{
+      0: string[];
+    }>;
 
-    setApprovalForAll(
-      operator: string,
-      _approved: boolean,
+    processClosingRefunds(
+      _count: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    "setApprovalForAll(address,bool)"(
-      operator: string,
-      _approved: boolean,
+    "processClosingRefunds(uint256)"(
+      _count: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    setMetadata(
-      _metadataCID: string,
-      overrides?: Overrides
-    ): Promise<ContractTransaction>;
+    refundableAmount(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
 
-    "setMetadata(string)"(
-      _metadataCID: string,
-      overrides?: Overrides
-    ): Promise<ContractTransaction>;
+    "refundableAmount(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
 
-    subscribe(
-      _subscriber: string,
-      _tokenURI: string,
-      _value: BigNumberish,
-      _data: BytesLike,
-      overrides?: PayableOverrides
+    releaseSeat(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    "subscribe(address,string,uint256,bytes)"(
-      _subscriber: string,
-      _tokenURI: string,
-      _value: BigNumberish,
-      _data: BytesLike,
-      overrides?: PayableOverrides
+    "releaseSeat(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    supportsInterface(
-      interfaceId: BytesLike,
+    remainingSeats(
+      _tierId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<{
-      0: boolean;
+      0: BigNumber;
     }>;
 
-    "supportsInterface(bytes4)"(
-      interfaceId: BytesLike,
+    "remainingSeats(uint256)"(
+      _tierId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<{
-      0: boolean;
+      0: BigNumber;
     }>;
 
-    transferFrom(
-      from: string,
-      to: string,
-      tokenId: BigNumberish,
+    removePaymentToken(
+      _tokenAddress: string,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    "transferFrom(address,address,uint256)"(
-      from: string,
-      to: string,
-      tokenId: BigNumberish,
+    "removePaymentToken(address)"(
+      _tokenAddress: string,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    unsubscribe(
+    renew(
       _tokenId: BigNumberish,
-      overrides?: Overrides
+      _periods: BigNumberish,
+      overrides?: PayableOverrides
     ): Promise<ContractTransaction>;
 
-    "unsubscribe(uint256)"(
+    "renew(uint256,uint256)"(
       _tokenId: BigNumberish,
+      _periods: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    renewBatch(
+      _subscribers: string[],
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    updateSubscriptionPrice(
-      _tokenAddress: string,
-      _newSubPrice: BigNumberish,
+    "renewBatch(address[])"(
+      _subscribers: string[],
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    "updateSubscriptionPrice(address,uint256)"(
-      _tokenAddress: string,
-      _newSubPrice: BigNumberish,
+    safeSubscriptionHash(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "safeSubscriptionHash(address,tuple)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "safeTransferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    withdraw(
-      _tokenAddress: string,
-      _amount: BigNumberish,
-      _beneficiary: string,
+    "safeTransferFrom(address,address,uint256,bytes)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      data: BytesLike,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
 
-    "withdraw(address,uint256,address)"(
-      _tokenAddress: string,
-      _amount: BigNumberish,
-      _beneficiary: string,
+    setAllowlist(
+      _root: BytesLike,
+      _listCID: string,
       overrides?: Overrides
     ): Promise<ContractTransaction>;
-  };
 
-  approve(
-    to: string,
-    tokenId: BigNumberish,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    "setAllowlist(bytes32,string)"(
+      _root: BytesLike,
+      _listCID: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "approve(address,uint256)"(
-    to: string,
-    tokenId: BigNumberish,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    setApprovalForAll(
+      operator: string,
+      _approved: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  approvedTokens(overrides?: CallOverrides): Promise<string[]>;
+    "setApprovalForAll(address,bool)"(
+      operator: string,
+      _approved: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "approvedTokens()"(overrides?: CallOverrides): Promise<string[]>;
+    setFreezePolicy(
+      _maxFreezeDuration: BigNumberish,
+      _maxFreezes: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+    "setFreezePolicy(uint256,uint256)"(
+      _maxFreezeDuration: BigNumberish,
+      _maxFreezes: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "balanceOf(address)"(
-    owner: string,
-    overrides?: CallOverrides
-  ): Promise<BigNumber>;
+    setGracePeriod(
+      _gracePeriod: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  getApproved(
-    tokenId: BigNumberish,
-    overrides?: CallOverrides
-  ): Promise<string>;
+    "setGracePeriod(uint256)"(
+      _gracePeriod: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "getApproved(uint256)"(
-    tokenId: BigNumberish,
-    overrides?: CallOverrides
-  ): Promise<string>;
+    setGrandfatheredPricing(
+      _enabled: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  getMetadata(overrides?: CallOverrides): Promise<string>;
+    "setGrandfatheredPricing(bool)"(
+      _enabled: boolean,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "getMetadata()"(overrides?: CallOverrides): Promise<string>;
+    setMaxMembers(
+      _maxMembers: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  getSubscriptionExpiryFor(
-    _account: string,
-    overrides?: CallOverrides
-  ): Promise<BigNumber>;
+    "setMaxMembers(uint256)"(
+      _maxMembers: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "getSubscriptionExpiryFor(address)"(
-    _account: string,
-    overrides?: CallOverrides
-  ): Promise<BigNumber>;
+    setMetadata(
+      _metadataCID: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  getSubscriptionIdFor(
-    _account: string,
-    overrides?: CallOverrides
-  ): Promise<BigNumber>;
+    "setMetadata(string)"(
+      _metadataCID: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "getSubscriptionIdFor(address)"(
-    _account: string,
-    overrides?: CallOverrides
-  ): Promise<BigNumber>;
+    setPayees(
+      _payees: string[],
+      _shares: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  guildBalance(
-    _tokenAddress: string,
-    overrides?: CallOverrides
-  ): Promise<BigNumber>;
+    "setPayees(address[],uint256[])"(
+      _payees: string[],
+      _shares: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "guildBalance(address)"(
-    _tokenAddress: string,
-    overrides?: CallOverrides
-  ): Promise<BigNumber>;
+    setPeriodDiscount(
+      _minPeriods: BigNumberish,
+      _discountBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  hasActiveSubscription(
-    _account: string,
-    overrides?: CallOverrides
-  ): Promise<boolean>;
+    "setPeriodDiscount(uint256,uint256)"(
+      _minPeriods: BigNumberish,
+      _discountBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "hasActiveSubscription(address)"(
-    _account: string,
-    overrides?: CallOverrides
-  ): Promise<boolean>;
+    setReferralPolicy(
+      _rewardBps: BigNumberish,
+      _bonusDuration: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  initialize(
-    _creator: string,
-    _tokenAddress: string,
-    _subPrice: BigNumberish,
-    _subscriptionPeriod: BigNumberish,
-    _metadata: {
-      name: string;
-      symbol: string;
-      baseURI: string;
-      metadataCID: string;
-    },
-    allowanceModule: string,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    "setReferralPolicy(uint256,uint256)"(
+      _rewardBps: BigNumberish,
+      _bonusDuration: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "initialize(address,address,uint256,uint256,tuple,address)"(
-    _creator: string,
-    _tokenAddress: string,
-    _subPrice: BigNumberish,
-    _subscriptionPeriod: BigNumberish,
-    _metadata: {
-      name: string;
-      symbol: string;
-      baseURI: string;
-      metadataCID: string;
-    },
-    allowanceModule: string,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    setRefundPolicy(
+      _policy: BigNumberish,
+      _refundWindow: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  initialized(overrides?: CallOverrides): Promise<boolean>;
+    "setRefundPolicy(uint8,uint256)"(
+      _policy: BigNumberish,
+      _refundWindow: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  "initialized()"(overrides?: CallOverrides): Promise<boolean>;
+    setTokenPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _price: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
 
-  isApprovedForAll(
-    owner: string,
-    operator: string,
-    overrides?: CallOverrides
-  ): Promise<boolean>;
+    "setTokenPrice(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _price: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    subscribe(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "subscribe(address,uint256,address,string,uint256,bytes)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    subscribeForPeriods(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    subscribeWithPermit(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _permit: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _permit: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    subscribeWithProof(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _proof: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _proof: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    subscribeWithReferrer(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _referrer: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _referrer: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    subscribeWithVoucher(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      _signature: BytesLike,
+      _proof: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      _signature: BytesLike,
+      _proof: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    subscriptionCost(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "subscriptionCost(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    subscriptionCostFor(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    "subscriptionCostFor(address,uint256,address,uint256)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: BigNumber;
+    }>;
+
+    subscriptionStatus(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: number;
+    }>;
+
+    "subscriptionStatus(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: number;
+    }>;
+
+    supportsInterface(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "supportsInterface(bytes4)"(
+      interfaceId: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    templateVersion(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "templateVersion()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    tip(
+      _tokenAddress: string,
+      _amount: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    "tip(address,uint256,string)"(
+      _tokenAddress: string,
+      _amount: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<ContractTransaction>;
+
+    totalTiers(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "totalTiers()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    transferFrom(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "transferFrom(address,address,uint256)"(
+      from: string,
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    unfreezeSubscription(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "unfreezeSubscription(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    unsubscribe(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "unsubscribe(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    updateSubscriptionPrice(
+      _tokenAddress: string,
+      _newSubPrice: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "updateSubscriptionPrice(address,uint256)"(
+      _tokenAddress: string,
+      _newSubPrice: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    updateTier(
+      _tierId: BigNumberish,
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "updateTier(uint256,string,uint256,uint256,uint256)"(
+      _tierId: BigNumberish,
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    upgradeToVersion(
+      _version: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "upgradeToVersion(uint256)"(
+      _version: BigNumberish,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    withdraw(
+      _tokenAddress: string,
+      _amount: BigNumberish,
+      _beneficiary: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "withdraw(address,uint256,address)"(
+      _tokenAddress: string,
+      _amount: BigNumberish,
+      _beneficiary: string,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+  };
+
+  acceptedTokens(overrides?: CallOverrides): Promise<string[]>;
+
+  "acceptedTokens()"(overrides?: CallOverrides): Promise<string[]>;
+
+  addPaymentToken(
+    _tokenAddress: string,
+    _prices: BigNumberish[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "addPaymentToken(address,uint256[])"(
+    _tokenAddress: string,
+    _prices: BigNumberish[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  addTier(
+    _name: string,
+    _price: BigNumberish,
+    _period: BigNumberish,
+    _cap: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "addTier(string,uint256,uint256,uint256)"(
+    _name: string,
+    _price: BigNumberish,
+    _period: BigNumberish,
+    _cap: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  approve(
+    to: string,
+    tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "approve(address,uint256)"(
+    to: string,
+    tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  approveSubscriptionTransfer(
+    _tokenId: BigNumberish,
+    _to: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "approveSubscriptionTransfer(uint256,address)"(
+    _tokenId: BigNumberish,
+    _to: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  approvedTokens(overrides?: CallOverrides): Promise<string[]>;
+
+  "approvedTokens()"(overrides?: CallOverrides): Promise<string[]>;
+
+  balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+  "balanceOf(address)"(
+    owner: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  claim(
+    _tokenAddress: string,
+    _payee: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "claim(address,address)"(
+    _tokenAddress: string,
+    _payee: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  claimClosingRefund(
+    _tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "claimClosingRefund(uint256)"(
+    _tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  closeGuild(overrides?: Overrides): Promise<ContractTransaction>;
+
+  "closeGuild()"(overrides?: Overrides): Promise<ContractTransaction>;
+
+  closingRefund(
+    _tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "closingRefund(uint256)"(
+    _tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  distribute(
+    _tokenAddress: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "distribute(address)"(
+    _tokenAddress: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  freezeSubscription(
+    _tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "freezeSubscription(uint256)"(
+    _tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  getApproved(
+    tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "getApproved(uint256)"(
+    tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  getMetadata(overrides?: CallOverrides): Promise<string>;
+
+  "getMetadata()"(overrides?: CallOverrides): Promise<string>;
+
+  getSubscriptionExpiryFor(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "getSubscriptionExpiryFor(address)"(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getSubscriptionIdFor(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "getSubscriptionIdFor(address)"(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getSubscriptionTierFor(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "getSubscriptionTierFor(address)"(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  getTier(
+    _tierId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    name: string;
+    price: BigNumber;
+    period: BigNumber;
+    cap: BigNumber;
+    0: string;
+    1: BigNumber;
+    2: BigNumber;
+    3: BigNumber;
+  }>;
+
+  "getTier(uint256)"(
+    _tierId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<{
+    name: string;
+    price: BigNumber;
+    period: BigNumber;
+    cap: BigNumber;
+    0: string;
+    1: BigNumber;
+    2: BigNumber;
+    3: BigNumber;
+  }>;
+
+  getTierPrice(
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "getTierPrice(uint256,address)"(
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  giftSubscription(
+    _recipient: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _messageCID: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "giftSubscription(address,uint256,address,uint256,uint256,string)"(
+    _recipient: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _messageCID: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  guildBalance(
+    _tokenAddress: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "guildBalance(address)"(
+    _tokenAddress: string,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  hasActiveSubscription(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "hasActiveSubscription(address)"(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  initialize(
+    _creator: string,
+    _tokenAddress: string,
+    _tiers: {
+      name: string;
+      price: BigNumberish;
+      period: BigNumberish;
+      cap: BigNumberish;
+    }[],
+    _metadata: {
+      name: string;
+      symbol: string;
+      baseURI: string;
+      metadataCID: string;
+    },
+    allowanceModule: string,
+    _transferPolicy: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "initialize(address,address,tuple[],tuple,address,uint8)"(
+    _creator: string,
+    _tokenAddress: string,
+    _tiers: {
+      name: string;
+      price: BigNumberish;
+      period: BigNumberish;
+      cap: BigNumberish;
+    }[],
+    _metadata: {
+      name: string;
+      symbol: string;
+      baseURI: string;
+      metadataCID: string;
+    },
+    allowanceModule: string,
+    _transferPolicy: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  initialized(overrides?: CallOverrides): Promise<boolean>;
+
+  "initialized()"(overrides?: CallOverrides): Promise<boolean>;
+
+  isApprovedForAll(
+    owner: string,
+    operator: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isApprovedForAll(address,address)"(
+    owner: string,
+    operator: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  isSubscriptionOwner(
+    _tokenId: BigNumberish,
+    _holder: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "isSubscriptionOwner(uint256,address)"(
+    _tokenId: BigNumberish,
+    _holder: string,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  joinWaitlist(
+    _tierId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "joinWaitlist(uint256)"(
+    _tierId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  ownerOf(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+
+  "ownerOf(uint256)"(
+    tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  pauseGuild(
+    pause: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "pauseGuild(bool)"(
+    pause: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  payees(overrides?: CallOverrides): Promise<string[]>;
+
+  "payees()"(overrides?: CallOverrides): Promise<string[]>;
+
+  processClosingRefunds(
+    _count: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "processClosingRefunds(uint256)"(
+    _count: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  refundableAmount(
+    _tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "refundableAmount(uint256)"(
+    _tokenId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  releaseSeat(
+    _tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "releaseSeat(uint256)"(
+    _tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  remainingSeats(
+    _tierId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "remainingSeats(uint256)"(
+    _tierId: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  removePaymentToken(
+    _tokenAddress: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "removePaymentToken(address)"(
+    _tokenAddress: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  renew(
+    _tokenId: BigNumberish,
+    _periods: BigNumberish,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "renew(uint256,uint256)"(
+    _tokenId: BigNumberish,
+    _periods: BigNumberish,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  renewBatch(
+    _subscribers: string[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "renewBatch(address[])"(
+    _subscribers: string[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  safeSubscriptionHash(
+    _safe: string,
+    _terms: {
+      entryPoint: BytesLike;
+      tierId: BigNumberish;
+      tokenAddress: string;
+      periods: BigNumberish;
+      value: BigNumberish;
+      referrer: string;
+    },
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "safeSubscriptionHash(address,tuple)"(
+    _safe: string,
+    _terms: {
+      entryPoint: BytesLike;
+      tierId: BigNumberish;
+      tokenAddress: string;
+      periods: BigNumberish;
+      value: BigNumberish;
+      referrer: string;
+    },
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "safeTransferFrom(address,address,uint256)"(
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "safeTransferFrom(address,address,uint256,bytes)"(
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    data: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setAllowlist(
+    _root: BytesLike,
+    _listCID: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setAllowlist(bytes32,string)"(
+    _root: BytesLike,
+    _listCID: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setApprovalForAll(
+    operator: string,
+    _approved: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setApprovalForAll(address,bool)"(
+    operator: string,
+    _approved: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setFreezePolicy(
+    _maxFreezeDuration: BigNumberish,
+    _maxFreezes: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setFreezePolicy(uint256,uint256)"(
+    _maxFreezeDuration: BigNumberish,
+    _maxFreezes: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setGracePeriod(
+    _gracePeriod: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setGracePeriod(uint256)"(
+    _gracePeriod: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setGrandfatheredPricing(
+    _enabled: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setGrandfatheredPricing(bool)"(
+    _enabled: boolean,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setMaxMembers(
+    _maxMembers: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setMaxMembers(uint256)"(
+    _maxMembers: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setMetadata(
+    _metadataCID: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setMetadata(string)"(
+    _metadataCID: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setPayees(
+    _payees: string[],
+    _shares: BigNumberish[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setPayees(address[],uint256[])"(
+    _payees: string[],
+    _shares: BigNumberish[],
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setPeriodDiscount(
+    _minPeriods: BigNumberish,
+    _discountBps: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setPeriodDiscount(uint256,uint256)"(
+    _minPeriods: BigNumberish,
+    _discountBps: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setReferralPolicy(
+    _rewardBps: BigNumberish,
+    _bonusDuration: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setReferralPolicy(uint256,uint256)"(
+    _rewardBps: BigNumberish,
+    _bonusDuration: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setRefundPolicy(
+    _policy: BigNumberish,
+    _refundWindow: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setRefundPolicy(uint8,uint256)"(
+    _policy: BigNumberish,
+    _refundWindow: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  setTokenPrice(
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _price: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "setTokenPrice(uint256,address,uint256)"(
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _price: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  subscribe(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _tokenURI: string,
+    _value: BigNumberish,
+    _data: BytesLike,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "subscribe(address,uint256,address,string,uint256,bytes)"(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _tokenURI: string,
+    _value: BigNumberish,
+    _data: BytesLike,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  subscribeForPeriods(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _tokenURI: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _data: BytesLike,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)"(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _tokenURI: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _data: BytesLike,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  subscribeWithPermit(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _permit: {
+      daiStyle: boolean;
+      nonce: BigNumberish;
+      deadline: BigNumberish;
+      v: BigNumberish;
+      r: BytesLike;
+      s: BytesLike;
+    },
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)"(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _permit: {
+      daiStyle: boolean;
+      nonce: BigNumberish;
+      deadline: BigNumberish;
+      v: BigNumberish;
+      r: BytesLike;
+      s: BytesLike;
+    },
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  subscribeWithProof(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _data: BytesLike,
+    _proof: BytesLike[],
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])"(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _data: BytesLike,
+    _proof: BytesLike[],
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  subscribeWithReferrer(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _data: BytesLike,
+    _referrer: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)"(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _data: BytesLike,
+    _referrer: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  subscribeWithVoucher(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _data: BytesLike,
+    _voucher: {
+      tierId: BigNumberish;
+      discountBps: BigNumberish;
+      tokenAddress: string;
+      fixedPrice: BigNumberish;
+      maxUses: BigNumberish;
+      expiry: BigNumberish;
+      recipient: string;
+      salt: BytesLike;
+    },
+    _signature: BytesLike,
+    _proof: BytesLike[],
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])"(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    _value: BigNumberish,
+    _data: BytesLike,
+    _voucher: {
+      tierId: BigNumberish;
+      discountBps: BigNumberish;
+      tokenAddress: string;
+      fixedPrice: BigNumberish;
+      maxUses: BigNumberish;
+      expiry: BigNumberish;
+      recipient: string;
+      salt: BytesLike;
+    },
+    _signature: BytesLike,
+    _proof: BytesLike[],
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  subscriptionCost(
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "subscriptionCost(uint256,address,uint256)"(
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  subscriptionCostFor(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  "subscriptionCostFor(address,uint256,address,uint256)"(
+    _subscriber: string,
+    _tierId: BigNumberish,
+    _tokenAddress: string,
+    _periods: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<BigNumber>;
+
+  subscriptionStatus(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<number>;
+
+  "subscriptionStatus(address)"(
+    _account: string,
+    overrides?: CallOverrides
+  ): Promise<number>;
+
+  supportsInterface(
+    interfaceId: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  "supportsInterface(bytes4)"(
+    interfaceId: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<boolean>;
+
+  templateVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "templateVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  tip(
+    _tokenAddress: string,
+    _amount: BigNumberish,
+    _messageCID: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  "tip(address,uint256,string)"(
+    _tokenAddress: string,
+    _amount: BigNumberish,
+    _messageCID: string,
+    overrides?: PayableOverrides
+  ): Promise<ContractTransaction>;
+
+  totalTiers(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "totalTiers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  transferFrom(
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "transferFrom(address,address,uint256)"(
+    from: string,
+    to: string,
+    tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  unfreezeSubscription(
+    _tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "unfreezeSubscription(uint256)"(
+    _tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  unsubscribe(
+    _tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "unsubscribe(uint256)"(
+    _tokenId: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  updateSubscriptionPrice(
+    _tokenAddress: string,
+    _newSubPrice: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "updateSubscriptionPrice(address,uint256)"(
+    _tokenAddress: string,
+    _newSubPrice: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  updateTier(
+    _tierId: BigNumberish,
+    _name: string,
+    _price: BigNumberish,
+    _period: BigNumberish,
+    _cap: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "updateTier(uint256,string,uint256,uint256,uint256)"(
+    _tierId: BigNumberish,
+    _name: string,
+    _price: BigNumberish,
+    _period: BigNumberish,
+    _cap: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  upgradeToVersion(
+    _version: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "upgradeToVersion(uint256)"(
+    _version: BigNumberish,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  withdraw(
+    _tokenAddress: string,
+    _amount: BigNumberish,
+    _beneficiary: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "withdraw(address,uint256,address)"(
+    _tokenAddress: string,
+    _amount: BigNumberish,
+    _beneficiary: string,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  callStatic: {
+    acceptedTokens(overrides?: CallOverrides): Promise<string[]>;
+
+    "acceptedTokens()"(overrides?: CallOverrides): Promise<string[]>;
+
+    addPaymentToken(
+      _tokenAddress: string,
+      _prices: BigNumberish[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "addPaymentToken(address,uint256[])"(
+      _tokenAddress: string,
+      _prices: BigNumberish[],
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    addTier(
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "addTier(string,uint256,uint256,uint256)"(
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    approve(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "approve(address,uint256)"(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    approveSubscriptionTransfer(
+      _tokenId: BigNumberish,
+      _to: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "approveSubscriptionTransfer(uint256,address)"(
+      _tokenId: BigNumberish,
+      _to: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    approvedTokens(overrides?: CallOverrides): Promise<string[]>;
+
+    "approvedTokens()"(overrides?: CallOverrides): Promise<string[]>;
+
+    balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "balanceOf(address)"(
+      owner: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    claim(
+      _tokenAddress: string,
+      _payee: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "claim(address,address)"(
+      _tokenAddress: string,
+      _payee: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    claimClosingRefund(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "claimClosingRefund(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    closeGuild(overrides?: CallOverrides): Promise<void>;
+
+    "closeGuild()"(overrides?: CallOverrides): Promise<void>;
+
+    closingRefund(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "closingRefund(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    distribute(_tokenAddress: string, overrides?: CallOverrides): Promise<void>;
+
+    "distribute(address)"(
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    freezeSubscription(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "freezeSubscription(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    getApproved(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "getApproved(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    getMetadata(overrides?: CallOverrides): Promise<string>;
+
+    "getMetadata()"(overrides?: CallOverrides): Promise<string>;
+
+    getSubscriptionExpiryFor(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getSubscriptionExpiryFor(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getSubscriptionIdFor(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getSubscriptionIdFor(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getSubscriptionTierFor(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getSubscriptionTierFor(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getTier(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      name: string;
+      price: BigNumber;
+      period: BigNumber;
+      cap: BigNumber;
+      0: string;
+      1: BigNumber;
+      2: BigNumber;
+      3: BigNumber;
+    }>;
+
+    "getTier(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      name: string;
+      price: BigNumber;
+      period: BigNumber;
+      cap: BigNumber;
+      0: string;
+      1: BigNumber;
+      2: BigNumber;
+      3: BigNumber;
+    }>;
+
+    getTierPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getTierPrice(uint256,address)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    giftSubscription(
+      _recipient: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _messageCID: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "giftSubscription(address,uint256,address,uint256,uint256,string)"(
+      _recipient: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _messageCID: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    guildBalance(
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "guildBalance(address)"(
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    hasActiveSubscription(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "hasActiveSubscription(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    initialize(
+      _creator: string,
+      _tokenAddress: string,
+      _tiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
+      _metadata: {
+        name: string;
+        symbol: string;
+        baseURI: string;
+        metadataCID: string;
+      },
+      allowanceModule: string,
+      _transferPolicy: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "initialize(address,address,tuple[],tuple,address,uint8)"(
+      _creator: string,
+      _tokenAddress: string,
+      _tiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
+      _metadata: {
+        name: string;
+        symbol: string;
+        baseURI: string;
+        metadataCID: string;
+      },
+      allowanceModule: string,
+      _transferPolicy: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    initialized(overrides?: CallOverrides): Promise<boolean>;
+
+    "initialized()"(overrides?: CallOverrides): Promise<boolean>;
+
+    isApprovedForAll(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    "isApprovedForAll(address,address)"(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
 
-  "isApprovedForAll(address,address)"(
-    owner: string,
-    operator: string,
-    overrides?: CallOverrides
-  ): Promise<boolean>;
+    isSubscriptionOwner(
+      _tokenId: BigNumberish,
+      _holder: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
 
-  isSubscriptionOwner(
-    _tokenId: BigNumberish,
-    _holder: string,
-    overrides?: CallOverrides
-  ): Promise<boolean>;
+    "isSubscriptionOwner(uint256,address)"(
+      _tokenId: BigNumberish,
+      _holder: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
 
-  "isSubscriptionOwner(uint256,address)"(
-    _tokenId: BigNumberish,
-    _holder: string,
-    overrides?: CallOverrides
-  ): Promise<boolean>;
+    joinWaitlist(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  ownerOf(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+    "joinWaitlist(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  "ownerOf(uint256)"(
-    tokenId: BigNumberish,
-    overrides?: CallOverrides
-  ): Promise<string>;
+    ownerOf(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
 
-  pauseGuild(
-    pause: boolean,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    "ownerOf(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
 
-  "pauseGuild(bool)"(
-    pause: boolean,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    pauseGuild(pause: boolean, overrides?: CallOverrides): Promise<void>;
 
-  "safeTransferFrom(address,address,uint256)"(
-    from: string,
-    to: string,
-    tokenId: BigNumberish,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    "pauseGuild(bool)"(
+      pause: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  "safeTransferFrom(address,address,uint256,bytes)"(
-    from: string,
-    to: string,
-    tokenId: BigNumberish,
-    data: BytesLike,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    payees(overrides?: CallOverrides): Promise<string[]>;
 
-  setApprovalForAll(
-    operator: string,
-    _approved: boolean,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    "payees()"(overrides?: CallOverrides): Promise<string[]>;
 
-  "setApprovalForAll(address,bool)"(
-    operator: string,
-    _approved: boolean,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    processClosingRefunds(
+      _count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  setMetadata(
-    _metadataCID: string,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    "processClosingRefunds(uint256)"(
+      _count: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  "setMetadata(string)"(
-    _metadataCID: string,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    refundableAmount(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
 
-  subscribe(
-    _subscriber: string,
-    _tokenURI: string,
-    _value: BigNumberish,
-    _data: BytesLike,
-    overrides?: PayableOverrides
-  ): Promise<ContractTransaction>;
+    "refundableAmount(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
 
-  "subscribe(address,string,uint256,bytes)"(
-    _subscriber: string,
-    _tokenURI: string,
-    _value: BigNumberish,
-    _data: BytesLike,
-    overrides?: PayableOverrides
-  ): Promise<ContractTransaction>;
+    releaseSeat(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  supportsInterface(
-    interfaceId: BytesLike,
-    overrides?: CallOverrides
-  ): Promise<boolean>;
+    "releaseSeat(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  "supportsInterface(bytes4)"(
-    interfaceId: BytesLike,
-    overrides?: CallOverrides
-  ): Promise<boolean>;
+    remainingSeats(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
 
-  transferFrom(
-    from: string,
-    to: string,
-    tokenId: BigNumberish,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    "remainingSeats(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
 
-  "transferFrom(address,address,uint256)"(
-    from: string,
-    to: string,
-    tokenId: BigNumberish,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    removePaymentToken(
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  unsubscribe(
-    _tokenId: BigNumberish,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    "removePaymentToken(address)"(
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  "unsubscribe(uint256)"(
-    _tokenId: BigNumberish,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    renew(
+      _tokenId: BigNumberish,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  updateSubscriptionPrice(
-    _tokenAddress: string,
-    _newSubPrice: BigNumberish,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    "renew(uint256,uint256)"(
+      _tokenId: BigNumberish,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  "updateSubscriptionPrice(address,uint256)"(
-    _tokenAddress: string,
-    _newSubPrice: BigNumberish,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    renewBatch(
+      _subscribers: string[],
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  withdraw(
-    _tokenAddress: string,
-    _amount: BigNumberish,
-    _beneficiary: string,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    "renewBatch(address[])"(
+      _subscribers: string[],
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-  "withdraw(address,uint256,address)"(
-    _tokenAddress: string,
-    _amount: BigNumberish,
-    _beneficiary: string,
-    overrides?: Overrides
-  ): Promise<ContractTransaction>;
+    safeSubscriptionHash(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<string>;
 
-  callStatic: {
-    approve(
+    "safeSubscriptionHash(address,tuple)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "safeTransferFrom(address,address,uint256)"(
+      from: string,
       to: string,
       tokenId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
-    "approve(address,uint256)"(
+    "safeTransferFrom(address,address,uint256,bytes)"(
+      from: string,
       to: string,
       tokenId: BigNumberish,
+      data: BytesLike,
       overrides?: CallOverrides
     ): Promise<void>;
 
-    approvedTokens(overrides?: CallOverrides): Promise<string[]>;
+    setAllowlist(
+      _root: BytesLike,
+      _listCID: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-    "approvedTokens()"(overrides?: CallOverrides): Promise<string[]>;
+    "setAllowlist(bytes32,string)"(
+      _root: BytesLike,
+      _listCID: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-    balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+    setApprovalForAll(
+      operator: string,
+      _approved: boolean,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-    "balanceOf(address)"(
-      owner: string,
+    "setApprovalForAll(address,bool)"(
+      operator: string,
+      _approved: boolean,
       overrides?: CallOverrides
-    ): Promise<BigNumber>;
+    ): Promise<void>;
 
-    getApproved(
-      tokenId: BigNumberish,
+    setFreezePolicy(
+      _maxFreezeDuration: BigNumberish,
+      _maxFreezes: BigNumberish,
       overrides?: CallOverrides
-    ): Promise<string>;
+    ): Promise<void>;
 
-    "getApproved(uint256)"(
-      tokenId: BigNumberish,
+    "setFreezePolicy(uint256,uint256)"(
+      _maxFreezeDuration: BigNumberish,
+      _maxFreezes: BigNumberish,
       overrides?: CallOverrides
-    ): Promise<string>;
+    ): Promise<void>;
 
-    getMetadata(overrides?: CallOverrides): Promise<string>;
+    setGracePeriod(
+      _gracePeriod: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-    "getMetadata()"(overrides?: CallOverrides): Promise<string>;
+    "setGracePeriod(uint256)"(
+      _gracePeriod: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-    getSubscriptionExpiryFor(
-      _account: string,
+    setGrandfatheredPricing(
+      _enabled: boolean,
       overrides?: CallOverrides
-    ): Promise<BigNumber>;
+    ): Promise<void>;
 
-    "getSubscriptionExpiryFor(address)"(
-      _account: string,
+    "setGrandfatheredPricing(bool)"(
+      _enabled: boolean,
       overrides?: CallOverrides
-    ): Promise<BigNumber>;
+    ): Promise<void>;
+
+    setMaxMembers(
+      _maxMembers: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "setMaxMembers(uint256)"(
+      _maxMembers: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setMetadata(_metadataCID: string, overrides?: CallOverrides): Promise<void>;
+
+    "setMetadata(string)"(
+      _metadataCID: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    setPayees(
+      _payees: string[],
+      _shares: BigNumberish[],
+      overrides?: CallOverrides
+    ): Promise<void>;
 
-    getSubscriptionIdFor(
-      _account: string,
+    "setPayees(address[],uint256[])"(
+      _payees: string[],
+      _shares: BigNumberish[],
       overrides?: CallOverrides
-    ): Promise<BigNumber>;
+    ): Promise<void>;
 
-    "getSubscriptionIdFor(address)"(
-      _account: string,
+    setPeriodDiscount(
+      _minPeriods: BigNumberish,
+      _discountBps: BigNumberish,
       overrides?: CallOverrides
-    ): Promise<BigNumber>;
+    ): Promise<void>;
 
-    guildBalance(
-      _tokenAddress: string,
+    "setPeriodDiscount(uint256,uint256)"(
+      _minPeriods: BigNumberish,
+      _discountBps: BigNumberish,
       overrides?: CallOverrides
-    ): Promise<BigNumber>;
+    ): Promise<void>;
 
-    "guildBalance(address)"(
-      _tokenAddress: string,
+    setReferralPolicy(
+      _rewardBps: BigNumberish,
+      _bonusDuration: BigNumberish,
       overrides?: CallOverrides
-    ): Promise<BigNumber>;
+    ): Promise<void>;
 
-    hasActiveSubscription(
-      _account: string,
+    "setReferralPolicy(uint256,uint256)"(
+      _rewardBps: BigNumberish,
+      _bonusDuration: BigNumberish,
       overrides?: CallOverrides
-    ): Promise<boolean>;
+    ): Promise<void>;
 
-    "hasActiveSubscription(address)"(
-      _account: string,
+    setRefundPolicy(
+      _policy: BigNumberish,
+      _refundWindow: BigNumberish,
       overrides?: CallOverrides
-    ): Promise<boolean>;
+    ): Promise<void>;
 
-    initialize(
-      _creator: string,
-      _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
-      _metadata: {
-        name: string;
-        symbol: string;
-        baseURI: string;
-        metadataCID: string;
-      },
-      allowanceModule: string,
+    "setRefundPolicy(uint8,uint256)"(
+      _policy: BigNumberish,
+      _refundWindow: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
-    "initialize(address,address,uint256,uint256,tuple,address)"(
-      _creator: string,
+    setTokenPrice(
+      _tierId: BigNumberish,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
-      _metadata: {
-        name: string;
-        symbol: string;
-        baseURI: string;
-        metadataCID: string;
-      },
-      allowanceModule: string,
+      _price: BigNumberish,
       overrides?: CallOverrides
     ): Promise<void>;
 
-    initialized(overrides?: CallOverrides): Promise<boolean>;
-
-    "initialized()"(overrides?: CallOverrides): Promise<boolean>;
-
-    isApprovedForAll(
-      owner: string,
-      operator: string,
+    "setTokenPrice(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _price: BigNumberish,
       overrides?: CallOverrides
-    ): Promise<boolean>;
+    ): Promise<void>;
 
-    "isApprovedForAll(address,address)"(
-      owner: string,
-      operator: string,
+    subscribe(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _value: BigNumberish,
+      _data: BytesLike,
       overrides?: CallOverrides
-    ): Promise<boolean>;
+    ): Promise<void>;
 
-    isSubscriptionOwner(
-      _tokenId: BigNumberish,
-      _holder: string,
+    "subscribe(address,uint256,address,string,uint256,bytes)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _value: BigNumberish,
+      _data: BytesLike,
       overrides?: CallOverrides
-    ): Promise<boolean>;
+    ): Promise<void>;
 
-    "isSubscriptionOwner(uint256,address)"(
-      _tokenId: BigNumberish,
-      _holder: string,
+    subscribeForPeriods(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
       overrides?: CallOverrides
-    ): Promise<boolean>;
-
-    ownerOf(tokenId: BigNumberish, overrides?: CallOverrides): Promise<string>;
+    ): Promise<void>;
 
-    "ownerOf(uint256)"(
-      tokenId: BigNumberish,
+    "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
       overrides?: CallOverrides
-    ): Promise<string>;
-
-    pauseGuild(pause: boolean, overrides?: CallOverrides): Promise<void>;
+    ): Promise<void>;
 
-    "pauseGuild(bool)"(
-      pause: boolean,
+    subscribeWithPermit(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _permit: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
       overrides?: CallOverrides
     ): Promise<void>;
 
-    "safeTransferFrom(address,address,uint256)"(
-      from: string,
-      to: string,
-      tokenId: BigNumberish,
+    "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _permit: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
       overrides?: CallOverrides
     ): Promise<void>;
 
-    "safeTransferFrom(address,address,uint256,bytes)"(
-      from: string,
-      to: string,
-      tokenId: BigNumberish,
-      data: BytesLike,
+    subscribeWithProof(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _proof: BytesLike[],
       overrides?: CallOverrides
     ): Promise<void>;
 
-    setApprovalForAll(
-      operator: string,
-      _approved: boolean,
+    "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _proof: BytesLike[],
       overrides?: CallOverrides
     ): Promise<void>;
 
-    "setApprovalForAll(address,bool)"(
-      operator: string,
-      _approved: boolean,
+    subscribeWithReferrer(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _referrer: string,
       overrides?: CallOverrides
     ): Promise<void>;
 
-    setMetadata(_metadataCID: string, overrides?: CallOverrides): Promise<void>;
-
-    "setMetadata(string)"(
-      _metadataCID: string,
+    "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _referrer: string,
       overrides?: CallOverrides
     ): Promise<void>;
 
-    subscribe(
+    subscribeWithVoucher(
       _subscriber: string,
-      _tokenURI: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
       _value: BigNumberish,
       _data: BytesLike,
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      _signature: BytesLike,
+      _proof: BytesLike[],
       overrides?: CallOverrides
     ): Promise<void>;
 
-    "subscribe(address,string,uint256,bytes)"(
+    "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])"(
       _subscriber: string,
-      _tokenURI: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
       _value: BigNumberish,
       _data: BytesLike,
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      _signature: BytesLike,
+      _proof: BytesLike[],
       overrides?: CallOverrides
     ): Promise<void>;
 
+    subscriptionCost(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionCost(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    subscriptionCostFor(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionCostFor(address,uint256,address,uint256)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    subscriptionStatus(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<number>;
+
+    "subscriptionStatus(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<number>;
+
     supportsInterface(
       interfaceId: BytesLike,
       overrides?: CallOverrides
@@ -1050,6 +3473,28 @@ export class IGuild extends Contract {
       overrides?: CallOverrides
     ): Promise<boolean>;
 
+    templateVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "templateVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tip(
+      _tokenAddress: string,
+      _amount: BigNumberish,
+      _messageCID: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "tip(address,uint256,string)"(
+      _tokenAddress: string,
+      _amount: BigNumberish,
+      _messageCID: string,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    totalTiers(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "totalTiers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     transferFrom(
       from: string,
       to: string,
@@ -1064,6 +3509,16 @@ export class IGuild extends Contract {
       overrides?: CallOverrides
     ): Promise<void>;
 
+    unfreezeSubscription(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "unfreezeSubscription(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     unsubscribe(
       _tokenId: BigNumberish,
       overrides?: CallOverrides
@@ -1086,6 +3541,34 @@ export class IGuild extends Contract {
       overrides?: CallOverrides
     ): Promise<void>;
 
+    updateTier(
+      _tierId: BigNumberish,
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "updateTier(uint256,string,uint256,uint256,uint256)"(
+      _tierId: BigNumberish,
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    upgradeToVersion(
+      _version: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "upgradeToVersion(uint256)"(
+      _version: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
     withdraw(
       _tokenAddress: string,
       _amount: BigNumberish,
@@ -1122,29 +3605,129 @@ export class IGuild extends Contract {
   };
 
   estimateGas: {
+    acceptedTokens(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "acceptedTokens()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    addPaymentToken(
+      _tokenAddress: string,
+      _prices: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "addPaymentToken(address,uint256[])"(
+      _tokenAddress: string,
+      _prices: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    addTier(
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "addTier(string,uint256,uint256,uint256)"(
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     approve(
       to: string,
       tokenId: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    "approve(address,uint256)"(
-      to: string,
-      tokenId: BigNumberish,
+    "approve(address,uint256)"(
+      to: string,
+      tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    approveSubscriptionTransfer(
+      _tokenId: BigNumberish,
+      _to: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "approveSubscriptionTransfer(uint256,address)"(
+      _tokenId: BigNumberish,
+      _to: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    approvedTokens(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "approvedTokens()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "balanceOf(address)"(
+      owner: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    claim(
+      _tokenAddress: string,
+      _payee: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "claim(address,address)"(
+      _tokenAddress: string,
+      _payee: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    claimClosingRefund(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "claimClosingRefund(uint256)"(
+      _tokenId: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    approvedTokens(overrides?: CallOverrides): Promise<BigNumber>;
+    closeGuild(overrides?: Overrides): Promise<BigNumber>;
 
-    "approvedTokens()"(overrides?: CallOverrides): Promise<BigNumber>;
+    "closeGuild()"(overrides?: Overrides): Promise<BigNumber>;
 
-    balanceOf(owner: string, overrides?: CallOverrides): Promise<BigNumber>;
+    closingRefund(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
 
-    "balanceOf(address)"(
-      owner: string,
+    "closingRefund(uint256)"(
+      _tokenId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    distribute(
+      _tokenAddress: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "distribute(address)"(
+      _tokenAddress: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    freezeSubscription(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "freezeSubscription(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     getApproved(
       tokenId: BigNumberish,
       overrides?: CallOverrides
@@ -1179,6 +3762,58 @@ export class IGuild extends Contract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    getSubscriptionTierFor(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getSubscriptionTierFor(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getTier(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getTier(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getTierPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getTierPrice(uint256,address)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    giftSubscription(
+      _recipient: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "giftSubscription(address,uint256,address,uint256,uint256,string)"(
+      _recipient: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
     guildBalance(
       _tokenAddress: string,
       overrides?: CallOverrides
@@ -1202,8 +3837,12 @@ export class IGuild extends Contract {
     initialize(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _tiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -1211,14 +3850,19 @@ export class IGuild extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    "initialize(address,address,uint256,uint256,tuple,address)"(
+    "initialize(address,address,tuple[],tuple,address,uint8)"(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _tiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -1226,6 +3870,7 @@ export class IGuild extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
@@ -1257,6 +3902,16 @@ export class IGuild extends Contract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    joinWaitlist(
+      _tierId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "joinWaitlist(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     ownerOf(
       tokenId: BigNumberish,
       overrides?: CallOverrides
@@ -1274,6 +3929,108 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    payees(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "payees()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    processClosingRefunds(
+      _count: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "processClosingRefunds(uint256)"(
+      _count: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    refundableAmount(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "refundableAmount(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    releaseSeat(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "releaseSeat(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    remainingSeats(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "remainingSeats(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    removePaymentToken(
+      _tokenAddress: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "removePaymentToken(address)"(
+      _tokenAddress: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    renew(
+      _tokenId: BigNumberish,
+      _periods: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "renew(uint256,uint256)"(
+      _tokenId: BigNumberish,
+      _periods: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    renewBatch(
+      _subscribers: string[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "renewBatch(address[])"(
+      _subscribers: string[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    safeSubscriptionHash(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "safeSubscriptionHash(address,tuple)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     "safeTransferFrom(address,address,uint256)"(
       from: string,
       to: string,
@@ -1289,44 +4046,348 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    setAllowlist(
+      _root: BytesLike,
+      _listCID: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setAllowlist(bytes32,string)"(
+      _root: BytesLike,
+      _listCID: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     setApprovalForAll(
       operator: string,
       _approved: boolean,
       overrides?: Overrides
     ): Promise<BigNumber>;
 
-    "setApprovalForAll(address,bool)"(
-      operator: string,
-      _approved: boolean,
-      overrides?: Overrides
+    "setApprovalForAll(address,bool)"(
+      operator: string,
+      _approved: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setFreezePolicy(
+      _maxFreezeDuration: BigNumberish,
+      _maxFreezes: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setFreezePolicy(uint256,uint256)"(
+      _maxFreezeDuration: BigNumberish,
+      _maxFreezes: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setGracePeriod(
+      _gracePeriod: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setGracePeriod(uint256)"(
+      _gracePeriod: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setGrandfatheredPricing(
+      _enabled: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setGrandfatheredPricing(bool)"(
+      _enabled: boolean,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setMaxMembers(
+      _maxMembers: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setMaxMembers(uint256)"(
+      _maxMembers: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setMetadata(
+      _metadataCID: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setMetadata(string)"(
+      _metadataCID: string,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setPayees(
+      _payees: string[],
+      _shares: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setPayees(address[],uint256[])"(
+      _payees: string[],
+      _shares: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setPeriodDiscount(
+      _minPeriods: BigNumberish,
+      _discountBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setPeriodDiscount(uint256,uint256)"(
+      _minPeriods: BigNumberish,
+      _discountBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setReferralPolicy(
+      _rewardBps: BigNumberish,
+      _bonusDuration: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setReferralPolicy(uint256,uint256)"(
+      _rewardBps: BigNumberish,
+      _bonusDuration: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setRefundPolicy(
+      _policy: BigNumberish,
+      _refundWindow: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setRefundPolicy(uint8,uint256)"(
+      _policy: BigNumberish,
+      _refundWindow: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    setTokenPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _price: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "setTokenPrice(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _price: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    subscribe(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "subscribe(address,uint256,address,string,uint256,bytes)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    subscribeForPeriods(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    subscribeWithPermit(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _permit: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _permit: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    subscribeWithProof(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _proof: BytesLike[],
+      overrides?: PayableOverrides
     ): Promise<BigNumber>;
 
-    setMetadata(
-      _metadataCID: string,
-      overrides?: Overrides
+    "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _proof: BytesLike[],
+      overrides?: PayableOverrides
     ): Promise<BigNumber>;
 
-    "setMetadata(string)"(
-      _metadataCID: string,
-      overrides?: Overrides
+    subscribeWithReferrer(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _referrer: string,
+      overrides?: PayableOverrides
     ): Promise<BigNumber>;
 
-    subscribe(
+    "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)"(
       _subscriber: string,
-      _tokenURI: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
       _value: BigNumberish,
       _data: BytesLike,
+      _referrer: string,
       overrides?: PayableOverrides
     ): Promise<BigNumber>;
 
-    "subscribe(address,string,uint256,bytes)"(
+    subscribeWithVoucher(
       _subscriber: string,
-      _tokenURI: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      _signature: BytesLike,
+      _proof: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
       _value: BigNumberish,
       _data: BytesLike,
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      _signature: BytesLike,
+      _proof: BytesLike[],
       overrides?: PayableOverrides
     ): Promise<BigNumber>;
 
+    subscriptionCost(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionCost(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    subscriptionCostFor(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionCostFor(address,uint256,address,uint256)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    subscriptionStatus(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "subscriptionStatus(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
     supportsInterface(
       interfaceId: BytesLike,
       overrides?: CallOverrides
@@ -1337,6 +4398,28 @@ export class IGuild extends Contract {
       overrides?: CallOverrides
     ): Promise<BigNumber>;
 
+    templateVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "templateVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    tip(
+      _tokenAddress: string,
+      _amount: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    "tip(address,uint256,string)"(
+      _tokenAddress: string,
+      _amount: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<BigNumber>;
+
+    totalTiers(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "totalTiers()"(overrides?: CallOverrides): Promise<BigNumber>;
+
     transferFrom(
       from: string,
       to: string,
@@ -1351,6 +4434,16 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    unfreezeSubscription(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "unfreezeSubscription(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     unsubscribe(
       _tokenId: BigNumberish,
       overrides?: Overrides
@@ -1373,6 +4466,34 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<BigNumber>;
 
+    updateTier(
+      _tierId: BigNumberish,
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "updateTier(uint256,string,uint256,uint256,uint256)"(
+      _tierId: BigNumberish,
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    upgradeToVersion(
+      _version: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "upgradeToVersion(uint256)"(
+      _version: BigNumberish,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
     withdraw(
       _tokenAddress: string,
       _amount: BigNumberish,
@@ -1389,6 +4510,40 @@ export class IGuild extends Contract {
   };
 
   populateTransaction: {
+    acceptedTokens(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "acceptedTokens()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    addPaymentToken(
+      _tokenAddress: string,
+      _prices: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "addPaymentToken(address,uint256[])"(
+      _tokenAddress: string,
+      _prices: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    addTier(
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "addTier(string,uint256,uint256,uint256)"(
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     approve(
       to: string,
       tokenId: BigNumberish,
@@ -1401,6 +4556,18 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    approveSubscriptionTransfer(
+      _tokenId: BigNumberish,
+      _to: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "approveSubscriptionTransfer(uint256,address)"(
+      _tokenId: BigNumberish,
+      _to: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     approvedTokens(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
     "approvedTokens()"(
@@ -1417,6 +4584,62 @@ export class IGuild extends Contract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    claim(
+      _tokenAddress: string,
+      _payee: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "claim(address,address)"(
+      _tokenAddress: string,
+      _payee: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    claimClosingRefund(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "claimClosingRefund(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    closeGuild(overrides?: Overrides): Promise<PopulatedTransaction>;
+
+    "closeGuild()"(overrides?: Overrides): Promise<PopulatedTransaction>;
+
+    closingRefund(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "closingRefund(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    distribute(
+      _tokenAddress: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "distribute(address)"(
+      _tokenAddress: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    freezeSubscription(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "freezeSubscription(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     getApproved(
       tokenId: BigNumberish,
       overrides?: CallOverrides
@@ -1451,6 +4674,58 @@ export class IGuild extends Contract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    getSubscriptionTierFor(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getSubscriptionTierFor(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getTier(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getTier(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getTierPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getTierPrice(uint256,address)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    giftSubscription(
+      _recipient: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "giftSubscription(address,uint256,address,uint256,uint256,string)"(
+      _recipient: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
     guildBalance(
       _tokenAddress: string,
       overrides?: CallOverrides
@@ -1474,8 +4749,12 @@ export class IGuild extends Contract {
     initialize(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _tiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -1483,14 +4762,19 @@ export class IGuild extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
-    "initialize(address,address,uint256,uint256,tuple,address)"(
+    "initialize(address,address,tuple[],tuple,address,uint8)"(
       _creator: string,
       _tokenAddress: string,
-      _subPrice: BigNumberish,
-      _subscriptionPeriod: BigNumberish,
+      _tiers: {
+        name: string;
+        price: BigNumberish;
+        period: BigNumberish;
+        cap: BigNumberish;
+      }[],
       _metadata: {
         name: string;
         symbol: string;
@@ -1498,57 +4782,170 @@ export class IGuild extends Contract {
         metadataCID: string;
       },
       allowanceModule: string,
+      _transferPolicy: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    initialized(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "initialized()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    isApprovedForAll(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isApprovedForAll(address,address)"(
+      owner: string,
+      operator: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isSubscriptionOwner(
+      _tokenId: BigNumberish,
+      _holder: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isSubscriptionOwner(uint256,address)"(
+      _tokenId: BigNumberish,
+      _holder: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    joinWaitlist(
+      _tierId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "joinWaitlist(uint256)"(
+      _tierId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    ownerOf(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "ownerOf(uint256)"(
+      tokenId: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    pauseGuild(
+      pause: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "pauseGuild(bool)"(
+      pause: boolean,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
-    initialized(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    payees(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
-    "initialized()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+    "payees()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
 
-    isApprovedForAll(
-      owner: string,
-      operator: string,
-      overrides?: CallOverrides
+    processClosingRefunds(
+      _count: BigNumberish,
+      overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
-    "isApprovedForAll(address,address)"(
-      owner: string,
-      operator: string,
-      overrides?: CallOverrides
+    "processClosingRefunds(uint256)"(
+      _count: BigNumberish,
+      overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
-    isSubscriptionOwner(
+    refundableAmount(
       _tokenId: BigNumberish,
-      _holder: string,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
-    "isSubscriptionOwner(uint256,address)"(
+    "refundableAmount(uint256)"(
       _tokenId: BigNumberish,
-      _holder: string,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
-    ownerOf(
-      tokenId: BigNumberish,
+    releaseSeat(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "releaseSeat(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    remainingSeats(
+      _tierId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
-    "ownerOf(uint256)"(
-      tokenId: BigNumberish,
+    "remainingSeats(uint256)"(
+      _tierId: BigNumberish,
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
-    pauseGuild(
-      pause: boolean,
+    removePaymentToken(
+      _tokenAddress: string,
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
-    "pauseGuild(bool)"(
-      pause: boolean,
+    "removePaymentToken(address)"(
+      _tokenAddress: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    renew(
+      _tokenId: BigNumberish,
+      _periods: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "renew(uint256,uint256)"(
+      _tokenId: BigNumberish,
+      _periods: BigNumberish,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    renewBatch(
+      _subscribers: string[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "renewBatch(address[])"(
+      _subscribers: string[],
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    safeSubscriptionHash(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "safeSubscriptionHash(address,tuple)"(
+      _safe: string,
+      _terms: {
+        entryPoint: BytesLike;
+        tierId: BigNumberish;
+        tokenAddress: string;
+        periods: BigNumberish;
+        value: BigNumberish;
+        referrer: string;
+      },
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     "safeTransferFrom(address,address,uint256)"(
       from: string,
       to: string,
@@ -1564,6 +4961,18 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    setAllowlist(
+      _root: BytesLike,
+      _listCID: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setAllowlist(bytes32,string)"(
+      _root: BytesLike,
+      _listCID: string,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     setApprovalForAll(
       operator: string,
       _approved: boolean,
@@ -1576,6 +4985,48 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    setFreezePolicy(
+      _maxFreezeDuration: BigNumberish,
+      _maxFreezes: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setFreezePolicy(uint256,uint256)"(
+      _maxFreezeDuration: BigNumberish,
+      _maxFreezes: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setGracePeriod(
+      _gracePeriod: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setGracePeriod(uint256)"(
+      _gracePeriod: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setGrandfatheredPricing(
+      _enabled: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setGrandfatheredPricing(bool)"(
+      _enabled: boolean,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setMaxMembers(
+      _maxMembers: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setMaxMembers(uint256)"(
+      _maxMembers: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     setMetadata(
       _metadataCID: string,
       overrides?: Overrides
@@ -1586,22 +5037,272 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    setPayees(
+      _payees: string[],
+      _shares: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setPayees(address[],uint256[])"(
+      _payees: string[],
+      _shares: BigNumberish[],
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setPeriodDiscount(
+      _minPeriods: BigNumberish,
+      _discountBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setPeriodDiscount(uint256,uint256)"(
+      _minPeriods: BigNumberish,
+      _discountBps: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setReferralPolicy(
+      _rewardBps: BigNumberish,
+      _bonusDuration: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setReferralPolicy(uint256,uint256)"(
+      _rewardBps: BigNumberish,
+      _bonusDuration: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setRefundPolicy(
+      _policy: BigNumberish,
+      _refundWindow: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setRefundPolicy(uint8,uint256)"(
+      _policy: BigNumberish,
+      _refundWindow: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    setTokenPrice(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _price: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "setTokenPrice(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _price: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     subscribe(
       _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscribe(address,uint256,address,string,uint256,bytes)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _tokenURI: string,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscribeForPeriods(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
       _tokenURI: string,
+      _periods: BigNumberish,
       _value: BigNumberish,
       _data: BytesLike,
       overrides?: PayableOverrides
     ): Promise<PopulatedTransaction>;
 
-    "subscribe(address,string,uint256,bytes)"(
+    "subscribeForPeriods(address,uint256,address,string,uint256,uint256,bytes)"(
       _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
       _tokenURI: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscribeWithPermit(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _permit: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscribeWithPermit(address,uint256,address,uint256,uint256,tuple)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _permit: {
+        daiStyle: boolean;
+        nonce: BigNumberish;
+        deadline: BigNumberish;
+        v: BigNumberish;
+        r: BytesLike;
+        s: BytesLike;
+      },
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    subscribeWithProof(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _proof: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscribeWithProof(address,uint256,address,uint256,uint256,bytes,bytes32[])"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _proof: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscribeWithReferrer(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _referrer: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscribeWithReferrer(address,uint256,address,uint256,uint256,bytes,address)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _referrer: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscribeWithVoucher(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      _value: BigNumberish,
+      _data: BytesLike,
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      _signature: BytesLike,
+      _proof: BytesLike[],
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscribeWithVoucher(address,uint256,address,uint256,uint256,bytes,tuple,bytes,bytes32[])"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
       _value: BigNumberish,
       _data: BytesLike,
+      _voucher: {
+        tierId: BigNumberish;
+        discountBps: BigNumberish;
+        tokenAddress: string;
+        fixedPrice: BigNumberish;
+        maxUses: BigNumberish;
+        expiry: BigNumberish;
+        recipient: string;
+        salt: BytesLike;
+      },
+      _signature: BytesLike,
+      _proof: BytesLike[],
       overrides?: PayableOverrides
     ): Promise<PopulatedTransaction>;
 
+    subscriptionCost(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscriptionCost(uint256,address,uint256)"(
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscriptionCostFor(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscriptionCostFor(address,uint256,address,uint256)"(
+      _subscriber: string,
+      _tierId: BigNumberish,
+      _tokenAddress: string,
+      _periods: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    subscriptionStatus(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "subscriptionStatus(address)"(
+      _account: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
     supportsInterface(
       interfaceId: BytesLike,
       overrides?: CallOverrides
@@ -1612,6 +5313,30 @@ export class IGuild extends Contract {
       overrides?: CallOverrides
     ): Promise<PopulatedTransaction>;
 
+    templateVersion(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "templateVersion()"(
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    tip(
+      _tokenAddress: string,
+      _amount: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "tip(address,uint256,string)"(
+      _tokenAddress: string,
+      _amount: BigNumberish,
+      _messageCID: string,
+      overrides?: PayableOverrides
+    ): Promise<PopulatedTransaction>;
+
+    totalTiers(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "totalTiers()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
     transferFrom(
       from: string,
       to: string,
@@ -1626,6 +5351,16 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    unfreezeSubscription(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "unfreezeSubscription(uint256)"(
+      _tokenId: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     unsubscribe(
       _tokenId: BigNumberish,
       overrides?: Overrides
@@ -1648,6 +5383,34 @@ export class IGuild extends Contract {
       overrides?: Overrides
     ): Promise<PopulatedTransaction>;
 
+    updateTier(
+      _tierId: BigNumberish,
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "updateTier(uint256,string,uint256,uint256,uint256)"(
+      _tierId: BigNumberish,
+      _name: string,
+      _price: BigNumberish,
+      _period: BigNumberish,
+      _cap: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    upgradeToVersion(
+      _version: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "upgradeToVersion(uint256)"(
+      _version: BigNumberish,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
     withdraw(
       _tokenAddress: string,
       _amount: BigNumberish,
@@ -89,6 +89,65 @@ const _abi = [
     name: "Transfer",
     type: "event",
   },
+  {
+    inputs: [],
+    name: "acceptedTokens",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_prices",
+        type: "uint256[]",
+      },
+    ],
+    name: "addPaymentToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_period",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_cap",
+        type: "uint256",
+      },
+    ],
+    name: "addTier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -107,6 +166,24 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_to",
+        type: "address",
+      },
+    ],
+    name: "approveSubscriptionTransfer",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [],
     name: "approvedTokens",
@@ -142,30 +219,55 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "uint256",
-        name: "tokenId",
-        type: "uint256",
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
       },
-    ],
-    name: "getApproved",
-    outputs: [
       {
         internalType: "address",
-        name: "operator",
+        name: "_payee",
         type: "address",
       },
     ],
-    stateMutability: "view",
+    name: "claim",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "claimClosingRefund",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [],
-    name: "getMetadata",
+    name: "closeGuild",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "closingRefund",
     outputs: [
       {
-        internalType: "string",
+        internalType: "uint256",
         name: "",
-        type: "string",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
@@ -175,35 +277,55 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "_account",
+        name: "_tokenAddress",
         type: "address",
       },
     ],
-    name: "getSubscriptionExpiryFor",
-    outputs: [
+    name: "distribute",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "",
+        name: "_tokenId",
         type: "uint256",
       },
     ],
-    stateMutability: "view",
+    name: "freezeSubscription",
+    outputs: [],
+    stateMutability: "nonpayable",
     type: "function",
   },
   {
     inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "getApproved",
+    outputs: [
       {
         internalType: "address",
-        name: "_account",
+        name: "operator",
         type: "address",
       },
     ],
-    name: "getSubscriptionIdFor",
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getMetadata",
     outputs: [
       {
-        internalType: "uint256",
+        internalType: "string",
         name: "",
-        type: "uint256",
+        type: "string",
       },
     ],
     stateMutability: "view",
@@ -213,11 +335,11 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "_tokenAddress",
+        name: "_account",
         type: "address",
       },
     ],
-    name: "guildBalance",
+    name: "getSubscriptionExpiryFor",
     outputs: [
       {
         internalType: "uint256",
@@ -236,12 +358,12 @@ const _abi = [
         type: "address",
       },
     ],
-    name: "hasActiveSubscription",
+    name: "getSubscriptionIdFor",
     outputs: [
       {
-        internalType: "bool",
+        internalType: "uint256",
         name: "",
-        type: "bool",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
@@ -251,24 +373,31 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "_creator",
-        type: "address",
-      },
-      {
-        internalType: "address",
-        name: "_tokenAddress",
+        name: "_account",
         type: "address",
       },
+    ],
+    name: "getSubscriptionTierFor",
+    outputs: [
       {
         internalType: "uint256",
-        name: "_subPrice",
+        name: "",
         type: "uint256",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "uint256",
-        name: "_subscriptionPeriod",
+        name: "_tierId",
         type: "uint256",
       },
+    ],
+    name: "getTier",
+    outputs: [
       {
         components: [
           {
@@ -277,44 +406,48 @@ const _abi = [
             type: "string",
           },
           {
-            internalType: "string",
-            name: "symbol",
-            type: "string",
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
           },
           {
-            internalType: "string",
-            name: "baseURI",
-            type: "string",
+            internalType: "uint256",
+            name: "period",
+            type: "uint256",
           },
           {
-            internalType: "string",
-            name: "metadataCID",
-            type: "string",
+            internalType: "uint256",
+            name: "cap",
+            type: "uint256",
           },
         ],
-        internalType: "struct IGuild.GuildMetadata",
-        name: "_metadata",
+        internalType: "struct IGuild.Tier",
+        name: "",
         type: "tuple",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
       {
         internalType: "address",
-        name: "allowanceModule",
+        name: "_tokenAddress",
         type: "address",
       },
     ],
-    name: "initialize",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [],
-    name: "initialized",
+    name: "getTierPrice",
     outputs: [
       {
-        internalType: "bool",
+        internalType: "uint256",
         name: "",
-        type: "bool",
+        type: "uint256",
       },
     ],
     stateMutability: "view",
@@ -324,40 +457,68 @@ const _abi = [
     inputs: [
       {
         internalType: "address",
-        name: "owner",
+        name: "_recipient",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
       {
         internalType: "address",
-        name: "operator",
+        name: "_tokenAddress",
         type: "address",
       },
-    ],
-    name: "isApprovedForAll",
-    outputs: [
       {
-        internalType: "bool",
-        name: "",
-        type: "bool",
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_messageCID",
+        type: "string",
       },
     ],
-    stateMutability: "view",
+    name: "giftSubscription",
+    outputs: [],
+    stateMutability: "payable",
     type: "function",
   },
   {
     inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "guildBalance",
+    outputs: [
       {
         internalType: "uint256",
-        name: "_tokenId",
+        name: "",
         type: "uint256",
       },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
       {
         internalType: "address",
-        name: "_holder",
+        name: "_account",
         type: "address",
       },
     ],
-    name: "isSubscriptionOwner",
+    name: "hasActiveSubscription",
     outputs: [
       {
         internalType: "bool",
@@ -371,115 +532,979 @@ const _abi = [
   {
     inputs: [
       {
-        internalType: "uint256",
-        name: "tokenId",
+        internalType: "address",
+        name: "_creator",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "uint256",
+            name: "price",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "period",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "cap",
+            type: "uint256",
+          },
+        ],
+        internalType: "struct IGuild.Tier[]",
+        name: "_tiers",
+        type: "tuple[]",
+      },
+      {
+        components: [
+          {
+            internalType: "string",
+            name: "name",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "symbol",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "baseURI",
+            type: "string",
+          },
+          {
+            internalType: "string",
+            name: "metadataCID",
+            type: "string",
+          },
+        ],
+        internalType: "struct IGuild.GuildMetadata",
+        name: "_metadata",
+        type: "tuple",
+      },
+      {
+        internalType: "address",
+        name: "allowanceModule",
+        type: "address",
+      },
+      {
+        internalType: "enum IGuild.TransferPolicy",
+        name: "_transferPolicy",
+        type: "uint8",
+      },
+    ],
+    name: "initialize",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "initialized",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+    ],
+    name: "isApprovedForAll",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_holder",
+        type: "address",
+      },
+    ],
+    name: "isSubscriptionOwner",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "joinWaitlist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "ownerOf",
+    outputs: [
+      {
+        internalType: "address",
+        name: "owner",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "pause",
+        type: "bool",
+      },
+    ],
+    name: "pauseGuild",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "payees",
+    outputs: [
+      {
+        internalType: "address[]",
+        name: "",
+        type: "address[]",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_count",
+        type: "uint256",
+      },
+    ],
+    name: "processClosingRefunds",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "refundableAmount",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "releaseSeat",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+    ],
+    name: "remainingSeats",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+    ],
+    name: "removePaymentToken",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+    ],
+    name: "renew",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "_subscribers",
+        type: "address[]",
+      },
+    ],
+    name: "renewBatch",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_safe",
+        type: "address",
+      },
+      {
+        components: [
+          {
+            internalType: "bytes4",
+            name: "entryPoint",
+            type: "bytes4",
+          },
+          {
+            internalType: "uint256",
+            name: "tierId",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "tokenAddress",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "periods",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "value",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "referrer",
+            type: "address",
+          },
+        ],
+        internalType: "struct IGuild.SafeSubscription",
+        name: "_terms",
+        type: "tuple",
+      },
+    ],
+    name: "safeSubscriptionHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "from",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "tokenId",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "safeTransferFrom",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes32",
+        name: "_root",
+        type: "bytes32",
+      },
+      {
+        internalType: "string",
+        name: "_listCID",
+        type: "string",
+      },
+    ],
+    name: "setAllowlist",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "operator",
+        type: "address",
+      },
+      {
+        internalType: "bool",
+        name: "_approved",
+        type: "bool",
+      },
+    ],
+    name: "setApprovalForAll",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_maxFreezeDuration",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_maxFreezes",
+        type: "uint256",
+      },
+    ],
+    name: "setFreezePolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_gracePeriod",
+        type: "uint256",
+      },
+    ],
+    name: "setGracePeriod",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bool",
+        name: "_enabled",
+        type: "bool",
+      },
+    ],
+    name: "setGrandfatheredPricing",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_maxMembers",
+        type: "uint256",
+      },
+    ],
+    name: "setMaxMembers",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "string",
+        name: "_metadataCID",
+        type: "string",
+      },
+    ],
+    name: "setMetadata",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "_payees",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256[]",
+        name: "_shares",
+        type: "uint256[]",
+      },
+    ],
+    name: "setPayees",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_minPeriods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_discountBps",
+        type: "uint256",
+      },
+    ],
+    name: "setPeriodDiscount",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_rewardBps",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_bonusDuration",
+        type: "uint256",
+      },
+    ],
+    name: "setReferralPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "enum IGuild.RefundPolicy",
+        name: "_policy",
+        type: "uint8",
+      },
+      {
+        internalType: "uint256",
+        name: "_refundWindow",
+        type: "uint256",
+      },
+    ],
+    name: "setRefundPolicy",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+    ],
+    name: "setTokenPrice",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "_tokenURI",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "subscribe",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "string",
+        name: "_tokenURI",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+    ],
+    name: "subscribeForPeriods",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
+        type: "uint256",
+      },
+      {
+        components: [
+          {
+            internalType: "bool",
+            name: "daiStyle",
+            type: "bool",
+          },
+          {
+            internalType: "uint256",
+            name: "nonce",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "deadline",
+            type: "uint256",
+          },
+          {
+            internalType: "uint8",
+            name: "v",
+            type: "uint8",
+          },
+          {
+            internalType: "bytes32",
+            name: "r",
+            type: "bytes32",
+          },
+          {
+            internalType: "bytes32",
+            name: "s",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct IGuild.Permit",
+        name: "_permit",
+        type: "tuple",
+      },
+    ],
+    name: "subscribeWithPermit",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_subscriber",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
         type: "uint256",
       },
-    ],
-    name: "ownerOf",
-    outputs: [
       {
-        internalType: "address",
-        name: "owner",
-        type: "address",
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
       },
-    ],
-    stateMutability: "view",
-    type: "function",
-  },
-  {
-    inputs: [
       {
-        internalType: "bool",
-        name: "pause",
-        type: "bool",
+        internalType: "bytes32[]",
+        name: "_proof",
+        type: "bytes32[]",
       },
     ],
-    name: "pauseGuild",
+    name: "subscribeWithProof",
     outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "payable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "from",
+        name: "_subscriber",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
       {
         internalType: "address",
-        name: "to",
+        name: "_tokenAddress",
         type: "address",
       },
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
         type: "uint256",
       },
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+      {
+        internalType: "address",
+        name: "_referrer",
+        type: "address",
+      },
     ],
-    name: "safeTransferFrom",
+    name: "subscribeWithReferrer",
     outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "payable",
     type: "function",
   },
   {
     inputs: [
       {
         internalType: "address",
-        name: "from",
+        name: "_subscriber",
         type: "address",
       },
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
       {
         internalType: "address",
-        name: "to",
+        name: "_tokenAddress",
         type: "address",
       },
       {
         internalType: "uint256",
-        name: "tokenId",
+        name: "_periods",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_value",
         type: "uint256",
       },
       {
         internalType: "bytes",
-        name: "data",
+        name: "_data",
+        type: "bytes",
+      },
+      {
+        components: [
+          {
+            internalType: "uint256",
+            name: "tierId",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "discountBps",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "tokenAddress",
+            type: "address",
+          },
+          {
+            internalType: "uint256",
+            name: "fixedPrice",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "maxUses",
+            type: "uint256",
+          },
+          {
+            internalType: "uint256",
+            name: "expiry",
+            type: "uint256",
+          },
+          {
+            internalType: "address",
+            name: "recipient",
+            type: "address",
+          },
+          {
+            internalType: "bytes32",
+            name: "salt",
+            type: "bytes32",
+          },
+        ],
+        internalType: "struct IGuild.Voucher",
+        name: "_voucher",
+        type: "tuple",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
         type: "bytes",
       },
+      {
+        internalType: "bytes32[]",
+        name: "_proof",
+        type: "bytes32[]",
+      },
     ],
-    name: "safeTransferFrom",
+    name: "subscribeWithVoucher",
     outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "payable",
     type: "function",
   },
   {
     inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
       {
         internalType: "address",
-        name: "operator",
+        name: "_tokenAddress",
         type: "address",
       },
       {
-        internalType: "bool",
-        name: "_approved",
-        type: "bool",
+        internalType: "uint256",
+        name: "_periods",
+        type: "uint256",
       },
     ],
-    name: "setApprovalForAll",
-    outputs: [],
-    stateMutability: "nonpayable",
-    type: "function",
-  },
-  {
-    inputs: [
+    name: "subscriptionCost",
+    outputs: [
       {
-        internalType: "string",
-        name: "_metadataCID",
-        type: "string",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
     ],
-    name: "setMetadata",
-    outputs: [],
-    stateMutability: "nonpayable",
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -490,24 +1515,49 @@ const _abi = [
         type: "address",
       },
       {
-        internalType: "string",
-        name: "_tokenURI",
-        type: "string",
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
       },
       {
         internalType: "uint256",
-        name: "_value",
+        name: "_periods",
         type: "uint256",
       },
+    ],
+    name: "subscriptionCostFor",
+    outputs: [
       {
-        internalType: "bytes",
-        name: "_data",
-        type: "bytes",
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
       },
     ],
-    name: "subscribe",
-    outputs: [],
-    stateMutability: "payable",
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_account",
+        type: "address",
+      },
+    ],
+    name: "subscriptionStatus",
+    outputs: [
+      {
+        internalType: "enum IGuild.SubscriptionStatus",
+        name: "",
+        type: "uint8",
+      },
+    ],
+    stateMutability: "view",
     type: "function",
   },
   {
@@ -529,6 +1579,55 @@ const _abi = [
     stateMutability: "view",
     type: "function",
   },
+  {
+    inputs: [],
+    name: "templateVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "_tokenAddress",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_amount",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_messageCID",
+        type: "string",
+      },
+    ],
+    name: "tip",
+    outputs: [],
+    stateMutability: "payable",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "totalTiers",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -552,6 +1651,19 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tokenId",
+        type: "uint256",
+      },
+    ],
+    name: "unfreezeSubscription",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -583,6 +1695,52 @@ const _abi = [
     stateMutability: "nonpayable",
     type: "function",
   },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_tierId",
+        type: "uint256",
+      },
+      {
+        internalType: "string",
+        name: "_name",
+        type: "string",
+      },
+      {
+        internalType: "uint256",
+        name: "_price",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_period",
+        type: "uint256",
+      },
+      {
+        internalType: "uint256",
+        name: "_cap",
+        type: "uint256",
+      },
+    ],
+    name: "updateTier",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_version",
+        type: "uint256",
+      },
+    ],
+    name: "upgradeToVersion",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
   {
     inputs: [
       {
@@ -0,0 +1,112 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface IGuildProtocolFeeInterface extends ethers.utils.Interface {
+  functions: {
+    "protocolFee()": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "protocolFee",
+    values?: undefined
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "protocolFee",
+    data: BytesLike
+  ): Result;
+
+  events: {};
+}
+
+export class IGuildProtocolFee extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: IGuildProtocolFeeInterface;
+
+  functions: {
+    protocolFee(overrides?: CallOverrides): Promise<{
+      _recipient: string;
+      _feeBps: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+
+    "protocolFee()"(overrides?: CallOverrides): Promise<{
+      _recipient: string;
+      _feeBps: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+  };
+
+  protocolFee(overrides?: CallOverrides): Promise<{
+    _recipient: string;
+    _feeBps: BigNumber;
+    0: string;
+    1: BigNumber;
+  }>;
+
+  "protocolFee()"(overrides?: CallOverrides): Promise<{
+    _recipient: string;
+    _feeBps: BigNumber;
+    0: string;
+    1: BigNumber;
+  }>;
+
+  callStatic: {
+    protocolFee(overrides?: CallOverrides): Promise<{
+      _recipient: string;
+      _feeBps: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+
+    "protocolFee()"(overrides?: CallOverrides): Promise<{
+      _recipient: string;
+      _feeBps: BigNumber;
+      0: string;
+      1: BigNumber;
+    }>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    protocolFee(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "protocolFee()"(overrides?: CallOverrides): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    protocolFee(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "protocolFee()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+  };
+}
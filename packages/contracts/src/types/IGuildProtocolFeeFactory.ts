@@ -0,0 +1,38 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Signer } from "ethers";
+import { Provider } from "@ethersproject/providers";
+
+import type { IGuildProtocolFee } from "./IGuildProtocolFee";
+
+export class IGuildProtocolFeeFactory {
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): IGuildProtocolFee {
+    return new Contract(address, _abi, signerOrProvider) as IGuildProtocolFee;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [],
+    name: "protocolFee",
+    outputs: [
+      {
+        internalType: "address",
+        name: "_recipient",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "_feeBps",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+];
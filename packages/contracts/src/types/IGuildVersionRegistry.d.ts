@@ -0,0 +1,149 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface IGuildVersionRegistryInterface extends ethers.utils.Interface {
+  functions: {
+    "latestVersion()": FunctionFragment;
+    "templateVersions(uint256)": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "latestVersion",
+    values?: undefined
+  ): string;
+  encodeFunctionData(
+    functionFragment: "templateVersions",
+    values: [BigNumberish]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "latestVersion",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "templateVersions",
+    data: BytesLike
+  ): Result;
+
+  events: {};
+}
+
+export class IGuildVersionRegistry extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: IGuildVersionRegistryInterface;
+
+  functions: {
+    latestVersion(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "latestVersion()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    templateVersions(
+      _version: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "templateVersions(uint256)"(
+      _version: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+  };
+
+  latestVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "latestVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  templateVersions(
+    _version: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "templateVersions(uint256)"(
+    _version: BigNumberish,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  callStatic: {
+    latestVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "latestVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    templateVersions(
+      _version: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "templateVersions(uint256)"(
+      _version: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<string>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    latestVersion(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "latestVersion()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    templateVersions(
+      _version: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "templateVersions(uint256)"(
+      _version: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    latestVersion(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "latestVersion()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    templateVersions(
+      _version: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "templateVersions(uint256)"(
+      _version: BigNumberish,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
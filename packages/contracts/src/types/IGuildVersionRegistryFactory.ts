@@ -0,0 +1,56 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Contract, Signer } from "ethers";
+import { Provider } from "@ethersproject/providers";
+
+import type { IGuildVersionRegistry } from "./IGuildVersionRegistry";
+
+export class IGuildVersionRegistryFactory {
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): IGuildVersionRegistry {
+    return new Contract(
+      address,
+      _abi,
+      signerOrProvider
+    ) as IGuildVersionRegistry;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [],
+    name: "latestVersion",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "uint256",
+        name: "_version",
+        type: "uint256",
+      },
+    ],
+    name: "templateVersions",
+    outputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+];
@@ -0,0 +1,430 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import {
+  ethers,
+  EventFilter,
+  Signer,
+  BigNumber,
+  BigNumberish,
+  PopulatedTransaction,
+} from "ethers";
+import {
+  Contract,
+  ContractTransaction,
+  Overrides,
+  CallOverrides,
+} from "@ethersproject/contracts";
+import { BytesLike } from "@ethersproject/bytes";
+import { Listener, Provider } from "@ethersproject/providers";
+import { FunctionFragment, EventFragment, Result } from "@ethersproject/abi";
+
+interface LegacySafeMockInterface extends ethers.utils.Interface {
+  functions: {
+    "execTransaction(address,bytes)": FunctionFragment;
+    "getMessageHash(bytes)": FunctionFragment;
+    "getThreshold()": FunctionFragment;
+    "isOwner(address)": FunctionFragment;
+    "isValidSignature(bytes,bytes)": FunctionFragment;
+    "onERC721Received(address,address,uint256,bytes)": FunctionFragment;
+  };
+
+  encodeFunctionData(
+    functionFragment: "execTransaction",
+    values: [string, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getMessageHash",
+    values: [BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "getThreshold",
+    values?: undefined
+  ): string;
+  encodeFunctionData(functionFragment: "isOwner", values: [string]): string;
+  encodeFunctionData(
+    functionFragment: "isValidSignature",
+    values: [BytesLike, BytesLike]
+  ): string;
+  encodeFunctionData(
+    functionFragment: "onERC721Received",
+    values: [string, string, BigNumberish, BytesLike]
+  ): string;
+
+  decodeFunctionResult(
+    functionFragment: "execTransaction",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getMessageHash",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "getThreshold",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(functionFragment: "isOwner", data: BytesLike): Result;
+  decodeFunctionResult(
+    functionFragment: "isValidSignature",
+    data: BytesLike
+  ): Result;
+  decodeFunctionResult(
+    functionFragment: "onERC721Received",
+    data: BytesLike
+  ): Result;
+
+  events: {};
+}
+
+export class LegacySafeMock extends Contract {
+  connect(signerOrProvider: Signer | Provider | string): this;
+  attach(addressOrName: string): this;
+  deployed(): Promise<this>;
+
+  on(event: EventFilter | string, listener: Listener): this;
+  once(event: EventFilter | string, listener: Listener): this;
+  addListener(eventName: EventFilter | string, listener: Listener): this;
+  removeAllListeners(eventName: EventFilter | string): this;
+  removeListener(eventName: any, listener: Listener): this;
+
+  interface: LegacySafeMockInterface;
+
+  functions: {
+    execTransaction(
+      to: string,
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    "execTransaction(address,bytes)"(
+      to: string,
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<ContractTransaction>;
+
+    getMessageHash(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "getMessageHash(bytes)"(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    getThreshold(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    "getThreshold()"(overrides?: CallOverrides): Promise<{
+      0: BigNumber;
+    }>;
+
+    isOwner(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    "isOwner(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: boolean;
+    }>;
+
+    isValidSignature(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    onERC721Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+
+    "onERC721Received(address,address,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<{
+      0: string;
+    }>;
+  };
+
+  execTransaction(
+    to: string,
+    data: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  "execTransaction(address,bytes)"(
+    to: string,
+    data: BytesLike,
+    overrides?: Overrides
+  ): Promise<ContractTransaction>;
+
+  getMessageHash(
+    message: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "getMessageHash(bytes)"(
+    message: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  getThreshold(overrides?: CallOverrides): Promise<BigNumber>;
+
+  "getThreshold()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+  isOwner(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+
+  "isOwner(address)"(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+
+  isValidSignature(
+    _data: BytesLike,
+    _signature: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "isValidSignature(bytes,bytes)"(
+    _data: BytesLike,
+    _signature: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  onERC721Received(
+    arg0: string,
+    arg1: string,
+    arg2: BigNumberish,
+    arg3: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  "onERC721Received(address,address,uint256,bytes)"(
+    arg0: string,
+    arg1: string,
+    arg2: BigNumberish,
+    arg3: BytesLike,
+    overrides?: CallOverrides
+  ): Promise<string>;
+
+  callStatic: {
+    execTransaction(
+      to: string,
+      data: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    "execTransaction(address,bytes)"(
+      to: string,
+      data: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<void>;
+
+    getMessageHash(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "getMessageHash(bytes)"(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    getThreshold(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "getThreshold()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    isOwner(arg0: string, overrides?: CallOverrides): Promise<boolean>;
+
+    "isOwner(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<boolean>;
+
+    isValidSignature(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    onERC721Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+
+    "onERC721Received(address,address,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<string>;
+  };
+
+  filters: {};
+
+  estimateGas: {
+    execTransaction(
+      to: string,
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    "execTransaction(address,bytes)"(
+      to: string,
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<BigNumber>;
+
+    getMessageHash(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "getMessageHash(bytes)"(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    getThreshold(overrides?: CallOverrides): Promise<BigNumber>;
+
+    "getThreshold()"(overrides?: CallOverrides): Promise<BigNumber>;
+
+    isOwner(arg0: string, overrides?: CallOverrides): Promise<BigNumber>;
+
+    "isOwner(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    isValidSignature(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    onERC721Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+
+    "onERC721Received(address,address,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<BigNumber>;
+  };
+
+  populateTransaction: {
+    execTransaction(
+      to: string,
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    "execTransaction(address,bytes)"(
+      to: string,
+      data: BytesLike,
+      overrides?: Overrides
+    ): Promise<PopulatedTransaction>;
+
+    getMessageHash(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "getMessageHash(bytes)"(
+      message: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    getThreshold(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    "getThreshold()"(overrides?: CallOverrides): Promise<PopulatedTransaction>;
+
+    isOwner(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isOwner(address)"(
+      arg0: string,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    isValidSignature(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "isValidSignature(bytes,bytes)"(
+      _data: BytesLike,
+      _signature: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    onERC721Received(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+
+    "onERC721Received(address,address,uint256,bytes)"(
+      arg0: string,
+      arg1: string,
+      arg2: BigNumberish,
+      arg3: BytesLike,
+      overrides?: CallOverrides
+    ): Promise<PopulatedTransaction>;
+  };
+}
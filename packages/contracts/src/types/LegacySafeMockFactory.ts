@@ -0,0 +1,195 @@
+/* Autogenerated file. Do not edit manually. */
+/* tslint:disable */
+/* eslint-disable */
+
+import { Signer, BigNumberish } from "ethers";
+import { Provider, TransactionRequest } from "@ethersproject/providers";
+import { Contract, ContractFactory, Overrides } from "@ethersproject/contracts";
+
+import type { LegacySafeMock } from "./LegacySafeMock";
+
+export class LegacySafeMockFactory extends ContractFactory {
+  constructor(signer?: Signer) {
+    super(_abi, _bytecode, signer);
+  }
+
+  deploy(
+    _owners: string[],
+    _threshold: BigNumberish,
+    overrides?: Overrides
+  ): Promise<LegacySafeMock> {
+    return super.deploy(
+      _owners,
+      _threshold,
+      overrides || {}
+    ) as Promise<LegacySafeMock>;
+  }
+  getDeployTransaction(
+    _owners: string[],
+    _threshold: BigNumberish,
+    overrides?: Overrides
+  ): TransactionRequest {
+    return super.getDeployTransaction(_owners, _threshold, overrides || {});
+  }
+  attach(address: string): LegacySafeMock {
+    return super.attach(address) as LegacySafeMock;
+  }
+  connect(signer: Signer): LegacySafeMockFactory {
+    return super.connect(signer) as LegacySafeMockFactory;
+  }
+  static connect(
+    address: string,
+    signerOrProvider: Signer | Provider
+  ): LegacySafeMock {
+    return new Contract(address, _abi, signerOrProvider) as LegacySafeMock;
+  }
+}
+
+const _abi = [
+  {
+    inputs: [
+      {
+        internalType: "address[]",
+        name: "_owners",
+        type: "address[]",
+      },
+      {
+        internalType: "uint256",
+        name: "_threshold",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "nonpayable",
+    type: "constructor",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "to",
+        type: "address",
+      },
+      {
+        internalType: "bytes",
+        name: "data",
+        type: "bytes",
+      },
+    ],
+    name: "execTransaction",
+    outputs: [],
+    stateMutability: "nonpayable",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "message",
+        type: "bytes",
+      },
+    ],
+    name: "getMessageHash",
+    outputs: [
+      {
+        internalType: "bytes32",
+        name: "",
+        type: "bytes32",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [],
+    name: "getThreshold",
+    outputs: [
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+    ],
+    name: "isOwner",
+    outputs: [
+      {
+        internalType: "bool",
+        name: "",
+        type: "bool",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "bytes",
+        name: "_data",
+        type: "bytes",
+      },
+      {
+        internalType: "bytes",
+        name: "_signature",
+        type: "bytes",
+      },
+    ],
+    name: "isValidSignature",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "view",
+    type: "function",
+  },
+  {
+    inputs: [
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "address",
+        name: "",
+        type: "address",
+      },
+      {
+        internalType: "uint256",
+        name: "",
+        type: "uint256",
+      },
+      {
+        internalType: "bytes",
+        name: "",
+        type: "bytes",
+      },
+    ],
+    name: "onERC721Received",
+    outputs: [
+      {
+        internalType: "bytes4",
+        name: "",
+        type: "bytes4",
+      },
+    ],
+    stateMutability: "pure",
+    type: "function",
+  },
+];
+
+const _bytecode =
+  "0x608060405234801561001057600080fd5b506040516109f13803806109f18339818101604052604081101561003357600080fd5b810190808051604051939291908464010000000082111561005357600080fd5b90830190602082018581111561006857600080fd5b825186602082028301116401000000008211171561008557600080fd5b82525081516020918201928201910280838360005b838110156100b257818101518382015260200161009a565b505050509190910160405250602001519150600090505b825181101561011d5760016000808584815181106100e357fe5b6020908102919091018101516001600160a01b03168252810191909152604001600020805460ff19169115159190911790556001016100c9565b50600155506108c0806101316000396000f3fe608060405234801561001057600080fd5b50600436106100625760003560e01c80630a1028c414610067578063150b7a021461011d57806320c13b0b146101c85780632f54bf6e146102bc5780637ae7cfb5146102f6578063e75235b814610376575b600080fd5b61010b6004803603602081101561007d57600080fd5b810190602081018135600160201b81111561009757600080fd5b8201836020820111156100a957600080fd5b803590602001918460018302840111600160201b831117156100ca57600080fd5b91908080601f01602080910402602001604051908101604052809392919081815260200183838082843760009201919091525092955061037e945050505050565b60408051918252519081900360200190f35b6101ab6004803603608081101561013357600080fd5b6001600160a01b03823581169260208101359091169160408201359190810190608081016060820135600160201b81111561016d57600080fd5b82018360208201111561017f57600080fd5b803590602001918460018302840111600160201b831117156101a057600080fd5b509092509050610454565b604080516001600160e01b03199092168252519081900360200190f35b6101ab600480360360408110156101de57600080fd5b810190602081018135600160201b8111156101f857600080fd5b82018360208201111561020a57600080fd5b803590602001918460018302840111600160201b8311171561022b57600080fd5b919390929091602081019035600160201b81111561024857600080fd5b82018360208201111561025a57600080fd5b803590602001918460018302840111600160201b8311171561027b57600080fd5b91908080601f016020809104026020016040519081016040528093929190818152602001838380828437600092019190915250929550610465945050505050565b6102e2600480360360208110156102d257600080fd5b50356001600160a01b03166106ab565b604080519115158252519081900360200190f35b6103746004803603604081101561030c57600080fd5b6001600160a01b038235169190810190604081016020820135600160201b81111561033657600080fd5b82018360208201111561034857600080fd5b803590602001918460018302840111600160201b8311171561036957600080fd5b5090925090506106c0565b005b61010b6107b7565b604080517f035aff83d86937d35b32e04f0ddc6ff469290eef2f1b692d8a815c89404d474960208083019190915230828401528251808303840181526060830184528051908201208451858301207f60b3cbf8b4a223d68d641b3b6ddf9a298e7f33710cf3d3a9d1146b5a6150fbca608085015260a0808501919091528451808503909101815260c084018552805190830120601960f81b60e0850152600160f81b60e185015260e284019190915261010280840191909152835180840390910181526101229092019092528051910120919050565b630a85bd0160e11b95945050505050565b6000806104a785858080601f01602080910402602001604051908101604052809392919081815260200183838082843760009201919091525061037e92505050565b905060008160405160200180807f19457468657265756d205369676e6564204d6573736167653a0a333200000000815250601c01828152602001915050604051602081830303815290604052805190602001209050600154604102845110156105415760405162461bcd60e51b81526004018080602001828103825260298152602001806108166029913960400191505060405180910390fd5b6000805b600154811015610697576041808202870160208101516040820151919092015160ff16601e81116105a75760405162461bcd60e51b81526004018080602001828103825260368152602001806107e06036913960400191505060405180910390fd5b600060018760048403868660405160008152602001604052604051808581526020018460ff1681526020018381526020018281526020019450505050506020604051602081039080840390855afa158015610606573d6000803e3d6000fd5b505050602060405103519050856001600160a01b0316816001600160a01b031611801561064b57506001600160a01b03811660009081526020819052604090205460ff165b6106865760405162461bcd60e51b815260040180806020018281038252602681526020018061083f6026913960400191505060405180910390fd5b945050600190920191506105459050565b506320c13b0b60e01b979650505050505050565b60006020819052908152604090205460ff1681565b3360009081526020819052604090205460ff1661070e5760405162461bcd60e51b81526004018080602001828103825260268152602001806108656026913960400191505060405180910390fd5b6000836001600160a01b03168383604051808383808284376040519201945060009350909150508083038183865af19150503d806000811461076c576040519150601f19603f3d011682016040523d82523d6000602084013e610771565b606091505b50509050806107b15760405162461bcd60e51b81526004018080602001828103825260228152602001806107be6022913960400191505060405180910390fd5b50505050565b6001548156fe4c6567616379536166654d6f636b3a205472616e73616374696f6e206661696c65644c6567616379536166654d6f636b3a204f6e6c79206574685f7369676e207369676e6174757265732061726520737570706f727465644c6567616379536166654d6f636b3a205369676e617475726573206461746120746f6f2073686f72744c6567616379536166654d6f636b3a20496e76616c6964206f776e65722070726f76696465644c6567616379536166654d6f636b3a2053656e646572206973206e6f7420616e206f776e6572a2646970667358221220053695a1e20dbbf2b58bc93a167ebdb24e87b37a68454ee9b02f34147a5aafb064736f6c63430007060033";
@@ -15,19 +15,41 @@ export { StorageAccessibleFactory } from "./StorageAccessibleFactory";
 export type { StorageAccessible } from "./StorageAccessible";
 export { GnosisSafeFactory } from "./GnosisSafeFactory";
 export type { GnosisSafe } from "./GnosisSafe";
+export { CompatibilityFallbackHandlerFactory } from "./CompatibilityFallbackHandlerFactory";
+export type { CompatibilityFallbackHandler } from "./CompatibilityFallbackHandler";
+export { DefaultCallbackHandlerFactory } from "./DefaultCallbackHandlerFactory";
+export type { DefaultCallbackHandler } from "./DefaultCallbackHandler";
 export { MultiSendFactory } from "./MultiSendFactory";
 export type { MultiSend } from "./MultiSend";
 export { GnosisSafeProxyFactory } from "./GnosisSafeProxyFactory";
 export type { GnosisSafeProxy } from "./GnosisSafeProxy";
-export { Erc20PresetMinterPauserUpgradeableFactory } from "./Erc20PresetMinterPauserUpgradeableFactory";
-export type { Erc20PresetMinterPauserUpgradeable } from "./Erc20PresetMinterPauserUpgradeable";
 export { Erc20UpgradeableFactory } from "./Erc20UpgradeableFactory";
 export type { Erc20Upgradeable } from "./Erc20Upgradeable";
 export { Erc721UpgradeableFactory } from "./Erc721UpgradeableFactory";
 export type { Erc721Upgradeable } from "./Erc721Upgradeable";
+export { GuildBeaconProxyFactory } from "./GuildBeaconProxyFactory";
+export type { GuildBeaconProxy } from "./GuildBeaconProxy";
 export { GuildFactoryFactory } from "./GuildFactoryFactory";
 export type { GuildFactory } from "./GuildFactory";
 export { GuildAppFactory } from "./GuildAppFactory";
 export type { GuildApp } from "./GuildApp";
+export { GuildAppExtensionFactory } from "./GuildAppExtensionFactory";
+export type { GuildAppExtension } from "./GuildAppExtension";
+export { GuildAppSubscriptionExtensionFactory } from "./GuildAppSubscriptionExtensionFactory";
+export type { GuildAppSubscriptionExtension } from "./GuildAppSubscriptionExtension";
+export { GuildPaymentsFactory } from "./GuildPaymentsFactory";
+export type { GuildPayments } from "./GuildPayments";
+export { GuildTiersFactory } from "./GuildTiersFactory";
+export type { GuildTiers } from "./GuildTiers";
+export { GuildTokenUriFactory } from "./GuildTokenUriFactory";
+export type { GuildTokenUri } from "./GuildTokenUri";
+export { GuildVouchersFactory } from "./GuildVouchersFactory";
+export type { GuildVouchers } from "./GuildVouchers";
+export { AllowanceModuleMockFactory } from "./AllowanceModuleMockFactory";
+export type { AllowanceModuleMock } from "./AllowanceModuleMock";
 export { DaiMockFactory } from "./DaiMockFactory";
 export type { DaiMock } from "./DaiMock";
+export { Erc20PermitMockFactory } from "./Erc20PermitMockFactory";
+export type { Erc20PermitMock } from "./Erc20PermitMock";
+export { LegacySafeMockFactory } from "./LegacySafeMockFactory";
+export type { LegacySafeMock } from "./LegacySafeMock";
@@ -1,4 +1,5 @@
 import { ethers, network, waffle } from "hardhat";
+import { ContractTransaction } from "ethers";
 import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 import { solidity } from 'ethereum-waffle';
 import { expect, use } from "chai";
@@ -9,6 +10,7 @@ import GuildAppABI from "../artifacts/contracts/guild/GuildApp.sol/GuildApp.json
 import * as testUtils from "./utils";
 
 import { DaiMock } from "../src/types/DaiMock";
+import { Erc20PermitMock } from "../src/types/Erc20PermitMock";
 // import { GnosisSafe } from "../src/types/GnosisSafe";
 // import { GnosisSafeProxy } from "../src/types/GnosisSafeProxy";
 import { GuildFactory } from "../src/types/GuildFactory";
@@ -18,8 +20,13 @@ import { GuildApp } from "../src/types/GuildApp";
 const SUBSCRIPTION_PRICE = ethers.utils.parseEther("5");
 const SUBSCRIPTION_PRICE_ETH = ethers.utils.parseEther("0.1");
 const SUBSCRIPTION_PERIOD_DEFAULT = 3600 * 24 * 30;
+const DEFAULT_TIER_NAME = "supporter";
 const NFT_BASE_URI = 'ipfs://';
 
+enum SubscriptionStatus { Expired, Active, InGrace }
+enum RefundPolicy { None, Prorated, FullWithinWindow }
+enum TransferPolicy { Transferable, OwnerApproved, Soulbound }
+
 use(solidity);
 
 describe("GuildApp", () => {
@@ -61,10 +68,34 @@ describe("GuildApp", () => {
         await dai.connect(admin).mint(carl.address, ethers.utils.parseEther("100"));
         await dai.connect(admin).mint(diana.address, ethers.utils.parseEther("100"));
         await dai.connect(admin).mint(degen.address, ethers.utils.parseEther("100"));
+        await dai.connect(admin).mint(regen.address, ethers.utils.parseEther("100"));
 
         // Deploy GuildFactory
-        const GuildAppTemplateContract = await ethers.getContractFactory("GuildApp");
-        guildAppTemplate = (await GuildAppTemplateContract.deploy()) as GuildApp;
+        const GuildTiersLibrary = await ethers.getContractFactory("GuildTiers");
+        const guildTiers = await GuildTiersLibrary.deploy();
+        const GuildPaymentsLibrary = await ethers.getContractFactory("GuildPayments");
+        const guildPayments = await GuildPaymentsLibrary.deploy();
+        const libraries = {
+            GuildPayments: guildPayments.address,
+            GuildTiers: guildTiers.address,
+        };
+        const GuildAppExtensionContract = await ethers.getContractFactory("GuildAppExtension", { libraries });
+        const guildAppExtension = await GuildAppExtensionContract.deploy();
+        const GuildVouchersLibrary = await ethers.getContractFactory("GuildVouchers");
+        const guildVouchers = await GuildVouchersLibrary.deploy();
+        const GuildAppSubscriptionExtensionContract = await ethers.getContractFactory("GuildAppSubscriptionExtension", {
+            libraries: { ...libraries, GuildVouchers: guildVouchers.address },
+        });
+        const guildAppSubscriptionExtension = await GuildAppSubscriptionExtensionContract.deploy();
+        const GuildTokenURILibrary = await ethers.getContractFactory("GuildTokenURI");
+        const guildTokenURI = await GuildTokenURILibrary.deploy();
+        const GuildAppTemplateContract = await ethers.getContractFactory("GuildApp", {
+            libraries: { ...libraries, GuildTokenURI: guildTokenURI.address },
+        });
+        guildAppTemplate = (await GuildAppTemplateContract.deploy(
+            guildAppExtension.address,
+            guildAppSubscriptionExtension.address,
+        )) as GuildApp;
         console.log('GuildApp template', guildAppTemplate.address);
 
         const GuildFactoryContract = await ethers.getContractFactory("GuildFactory");
@@ -94,6 +125,16 @@ describe("GuildApp", () => {
         expect(await guildFactory.template()).to.equal(guildAppTemplate.address);
     });
 
+    it("Setup: Should only let the deployer initialize the factory", async () => {
+        const GuildFactoryContract = await ethers.getContractFactory("GuildFactory");
+        const factory = (await GuildFactoryContract.connect(admin).deploy()) as GuildFactory;
+        await expect(factory.connect(carl).initialize(guildAppTemplate.address))
+            .to.be.revertedWith("GuildFactory: caller is not the deployer");
+        await expect(factory.initialize(guildAppTemplate.address))
+            .to.emit(factory, 'OwnershipTransferred')
+            .withArgs(ethers.constants.AddressZero, admin.address);
+    });
+
     it("Setup: Should verify if participants have some ERC20 token balance", async () => {
         expect(await dai.balanceOf(alice.address)).to.equal(ethers.utils.parseEther("100"));
         expect(await dai.balanceOf(bob.address)).to.equal(ethers.utils.parseEther("100"));
@@ -115,8 +156,14 @@ describe("GuildApp", () => {
             await guildAppTemplate.connect(alice).populateTransaction.initialize(
                 alice.address,
                 dai.address,
-                SUBSCRIPTION_PRICE,
-                SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+                [
+                    {
+                        name: DEFAULT_TIER_NAME,
+                        price: SUBSCRIPTION_PRICE,
+                        period: SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+                        cap: 0,
+                    },
+                ],
                 {
                     name: guildName,
                     symbol: guildSymbol,
@@ -124,6 +171,7 @@ describe("GuildApp", () => {
                     metadataCID,
                 },
                 allowanceModule,
+                TransferPolicy.Transferable,
             )
         ).data!;
         const rs = await factory.functions['createGuild(bytes)'](initData);
@@ -138,6 +186,116 @@ describe("GuildApp", () => {
         expect(await guildA.baseURI()).to.equal(NFT_BASE_URI);
         expect(await guildA.getMetadata()).to.equal(`${NFT_BASE_URI}${metadataCID}`);
         expect(await guildA.hasRole(await guildA.DEFAULT_ADMIN_ROLE(), alice.address)).to.equal(true);
+        expect(await guildA.totalTiers()).to.equal(ethers.BigNumber.from(1));
+        const tier = await guildA.getTier(0);
+        expect(tier.name).to.equal(DEFAULT_TIER_NAME);
+        expect(tier.price).to.equal(SUBSCRIPTION_PRICE);
+        expect(tier.period).to.equal(ethers.BigNumber.from(SUBSCRIPTION_PERIOD_DEFAULT));
+        expect(await guildA.subPrice()).to.equal(SUBSCRIPTION_PRICE);
+        expect(await guildA.subscriptionPeriod()).to.equal(ethers.BigNumber.from(SUBSCRIPTION_PERIOD_DEFAULT));
+    });
+
+    it("Guild: Should deploy a new Guild to a predicted address", async () => {
+        const salt = ethers.utils.id("bob-guild");
+        const predicted = await guildFactory.predictGuildAddress(bob.address, salt);
+        // salts are scoped to the creator
+        expect(await guildFactory.predictGuildAddress(alice.address, salt)).to.not.equal(predicted);
+
+        const initData = (
+            await guildAppTemplate.populateTransaction.initialize(
+                bob.address,
+                ethers.constants.AddressZero,
+                [
+                    {
+                        name: DEFAULT_TIER_NAME,
+                        price: SUBSCRIPTION_PRICE_ETH,
+                        period: SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+                        cap: 0,
+                    },
+                ],
+                {
+                    name: "Bob Guild",
+                    symbol: "GUILD1",
+                    baseURI: NFT_BASE_URI,
+                    metadataCID: "bobMetadataHash",
+                },
+                ethers.constants.AddressZero,
+                TransferPolicy.Transferable,
+            )
+        ).data!;
+        await expect(guildFactory.connect(bob).createGuildDeterministic(initData, salt))
+            .to.emit(guildFactory, 'NewGuild')
+            .withArgs(bob.address, predicted, 1, false);
+        const guildB = new ethers.Contract(predicted, GuildAppABI.abi, bob) as GuildApp;
+        expect(await guildB.initialized()).to.equal(true);
+        expect(await guildB.hasRole(await guildB.DEFAULT_ADMIN_ROLE(), bob.address)).to.equal(true);
+        expect(await guildFactory.guildsOf(bob.address)).to.deep.equal([predicted]);
+
+        await expect(guildFactory.connect(bob).createGuildDeterministic(initData, salt))
+            .to.be.revertedWith("ERC1167: create2 failed");
+    });
+
+    it("Guild: Should deploy an upgradeable Guild that opts in to new template versions", async () => {
+        expect(await guildFactory.owner()).to.equal(admin.address);
+        expect(await guildFactory.latestVersion()).to.equal(ethers.BigNumber.from(1));
+        expect(await guildFactory.templateVersions(1)).to.equal(guildAppTemplate.address);
+
+        const initData = (
+            await guildAppTemplate.populateTransaction.initialize(
+                carl.address,
+                ethers.constants.AddressZero,
+                [
+                    {
+                        name: DEFAULT_TIER_NAME,
+                        price: SUBSCRIPTION_PRICE_ETH,
+                        period: SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+                        cap: 0,
+                    },
+                ],
+                {
+                    name: "Carl Guild",
+                    symbol: "GUILD2",
+                    baseURI: NFT_BASE_URI,
+                    metadataCID: "carlMetadataHash",
+                },
+                ethers.constants.AddressZero,
+                TransferPolicy.Transferable,
+            )
+        ).data!;
+        const receipt = await (await guildFactory.connect(carl).createUpgradeableGuild(initData)).wait();
+        const [ guildOwner, guild, version, upgradeable ] = receipt?.events?.find(e => e.event === 'NewGuild')?.args!;
+        expect(guildOwner).to.equal(carl.address);
+        expect(version).to.equal(ethers.BigNumber.from(1));
+        expect(upgradeable).to.equal(true);
+        const guildC = new ethers.Contract(guild, GuildAppABI.abi, carl) as GuildApp;
+        expect(await guildC.initialized()).to.equal(true);
+        expect(await guildC.name()).to.equal("Carl Guild");
+        expect(await guildC.templateVersion()).to.equal(ethers.BigNumber.from(1));
+
+        // clones can't be upgraded
+        expect(await guildA.templateVersion()).to.equal(ethers.BigNumber.from(0));
+        await expect(guildA.upgradeToVersion(1)).to.be.revertedWith("GuildApp: Guild is not upgradeable");
+
+        await expect(guildFactory.connect(carl).publishTemplateVersion(guildAppTemplate.address))
+            .to.be.revertedWith("GuildFactory: caller is not the owner");
+        await expect(guildFactory.publishTemplateVersion(carl.address))
+            .to.be.revertedWith("GuildFactory: Invalid template");
+        await expect(guildFactory.publishTemplateVersion(guildAppTemplate.address))
+            .to.emit(guildFactory, 'TemplateVersionPublished')
+            .withArgs(2, guildAppTemplate.address);
+        // existing guilds keep running their version until they opt in
+        expect(await guildC.templateVersion()).to.equal(ethers.BigNumber.from(1));
+
+        await expect(guildC.connect(bob).upgradeToVersion(2))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(guildC.upgradeToVersion(3)).to.be.revertedWith("GuildApp: Invalid version");
+        await expect(guildC.upgradeToVersion(2))
+            .to.emit(guildC, 'Upgraded')
+            .withArgs(2, guildAppTemplate.address);
+        expect(await guildC.templateVersion()).to.equal(ethers.BigNumber.from(2));
+        await expect(guildC.upgradeToVersion(1)).to.be.revertedWith("GuildApp: Invalid version");
+        expect(await guildC.name()).to.equal("Carl Guild");
+        expect(await guildC.hasRole(await guildC.DEFAULT_ADMIN_ROLE(), carl.address)).to.equal(true);
     });
 
     // TODO:
@@ -150,7 +308,44 @@ describe("GuildApp", () => {
             .to.emit(guildA, 'UpdatedMetadata')
             .withArgs(`${NFT_BASE_URI}${newMetadataHash}`);
 
-        await expect(guildA.connect(bob).setMetadata(newMetadataHash)).to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(guildA.connect(bob).setMetadata(newMetadataHash)).to.be.revertedWith("GuildApp: Sender doesn't have a Metadata Editor role");
+    });
+
+    it("Guild: Should allow guild admins to grant & revoke guild roles", async () => {
+        const metadataEditorRole = await guildA.METADATA_EDITOR_ROLE();
+        const roles = [
+            metadataEditorRole,
+            await guildA.TREASURER_ROLE(),
+            await guildA.PRICE_MANAGER_ROLE(),
+            await guildA.PAUSER_ROLE(),
+        ];
+        for (const role of roles) {
+            expect(await guildA.hasRole(role, alice.address)).to.equal(true);
+        }
+
+        await expect(guildA.connect(bob).grantRole(metadataEditorRole, bob.address))
+            .to.be.revertedWith("AccessControl: sender must be an admin to grant");
+        await expect(guildA.connect(alice).grantRole(metadataEditorRole, bob.address))
+            .to.emit(guildA, 'RoleGranted')
+            .withArgs(metadataEditorRole, bob.address, alice.address);
+
+        const newMetadataHash = 'editorDummyIPFSHash';
+        await expect(guildA.connect(bob).setMetadata(newMetadataHash))
+            .to.emit(guildA, 'UpdatedMetadata')
+            .withArgs(`${NFT_BASE_URI}${newMetadataHash}`);
+        // other roles are not granted
+        await expect(guildA.connect(bob).pauseGuild(true))
+            .to.be.revertedWith("GuildApp: Sender doesn't have a Pauser role");
+        await expect(guildA.connect(bob).withdraw(dai.address, 1, bob.address))
+            .to.be.revertedWith("GuildApp: Sender doesn't have a Treasurer role");
+        await expect(guildA.connect(bob).updateSubscriptionPrice(dai.address, SUBSCRIPTION_PRICE))
+            .to.be.revertedWith("GuildApp: Sender doesn't have a Price Manager role");
+
+        await expect(guildA.connect(alice).revokeRole(metadataEditorRole, bob.address))
+            .to.emit(guildA, 'RoleRevoked')
+            .withArgs(metadataEditorRole, bob.address, alice.address);
+        await expect(guildA.connect(bob).setMetadata(newMetadataHash))
+            .to.be.revertedWith("GuildApp: Sender doesn't have a Metadata Editor role");
     });
 
     it("EOA accounts: Should allow new subscriptions", async () => {
@@ -165,7 +360,8 @@ describe("GuildApp", () => {
         const subscription = await guildA.subscriptionByOwner(bob.address);
         expect(+subscription.tokenId.toString()).to.equal(+lastTokenId.toString() + mintedSubs);
 
-        expect(await guildA.tokenURI(tokenId)).to.equal(`${NFT_BASE_URI}${tokenURI}#${tokenId}`);
+        const metadata = testUtils.decodeTokenURI(await guildA.tokenURI(tokenId));
+        expect(metadata.name).to.equal(`Alice Guild #${tokenId}`);
 
         const balanceAfter = await guildA.guildBalance(dai.address);
 
@@ -174,25 +370,61 @@ describe("GuildApp", () => {
         activeSubId = tokenId;
     });
 
+    it("Guild: Should render subscription metadata on chain", async () => {
+        const { expirationTimestamp } = await guildA.subscriptionByOwner(bob.address);
+        const expiry = new Date(expirationTimestamp.toNumber() * 1000).toISOString().slice(0, 10);
+        let metadata = testUtils.decodeTokenURI(await guildA.tokenURI(activeSubId));
+        expect(metadata.attributes).to.deep.equal([
+            { trait_type: "Tier", value: DEFAULT_TIER_NAME },
+            { trait_type: "Status", value: "Active" },
+            { display_type: "date", trait_type: "Expiry", value: expirationTimestamp.toNumber() },
+        ]);
+        expect(metadata.description).to.equal(`Alice Guild membership. Active until ${expiry}`);
+        let image = Buffer.from(metadata.image.split(",")[1], "base64").toString();
+        expect(image).to.contain(`#${activeSubId}</text>`);
+        expect(image).to.contain(`Tier: ${DEFAULT_TIER_NAME}</text>`);
+        expect(image).to.contain(`Active - ${expiry}</text>`);
+
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        await testUtils.increaseTimeTo(expirationTimestamp.toNumber() + 1);
+        metadata = testUtils.decodeTokenURI(await guildA.tokenURI(activeSubId));
+        image = Buffer.from(metadata.image.split(",")[1], "base64").toString();
+        expect(metadata.attributes[1].value).to.equal("Expired");
+        expect(metadata.description).to.equal(`Alice Guild membership. Expired on ${expiry}`);
+        expect(image).to.contain(`EXPIRED - ${expiry}</text>`);
+
+        // control characters are dropped so the metadata is still valid JSON
+        const { price, period, cap } = await guildA.getTier(0);
+        await guildA.connect(alice).updateTier(0, "Gold\n\t\"Tier\"", price, period, cap);
+        metadata = testUtils.decodeTokenURI(await guildA.tokenURI(activeSubId));
+        expect(metadata.attributes[0].value).to.equal("GoldTier");
+        await ethers.provider.send("evm_revert", [snapshot]);
+
+        await expect(guildA.tokenURI(9999)).to.be.revertedWith("ERC721: owner query for nonexistent token");
+    });
+
     it("Guild: Should send correct subscriber params", async () => {
         const tokenURI = '';
         await expect(guildA.connect(bob)
-            .subscribe(diana.address, tokenURI, SUBSCRIPTION_PRICE, "0x"))
+            .subscribe(diana.address, 0, dai.address, tokenURI, SUBSCRIPTION_PRICE, "0x"))
             .to.be.revertedWith("GuildApp: msg.sender must be the subscriber");
     });
 
     it("Guild: Should send correct value params", async () => {
         const tokenURI = '';
         await expect(guildA.connect(bob)
-            .subscribe(bob.address, tokenURI, SUBSCRIPTION_PRICE, "0x", {value: SUBSCRIPTION_PRICE}))
+            .subscribe(bob.address, 0, dai.address, tokenURI, SUBSCRIPTION_PRICE, "0x", {value: SUBSCRIPTION_PRICE}))
             .to.be.revertedWith("GuildApp: incorrect msg.value");
     });
 
-    it("Guild: Should not allow to subscribe if already own an active subscription", async () => {
-        const tokenURI = '';
+    it("EOA accounts: Should allow to renew an active subscription stacking the new period", async () => {
+        const { tokenId, expirationTimestamp } = await guildA.subscriptionByOwner(bob.address);
+        await dai.connect(bob).approve(guildA.address, SUBSCRIPTION_PRICE);
         await expect(guildA.connect(bob)
-            .subscribe(bob.address, tokenURI, SUBSCRIPTION_PRICE, "0x"))
-            .to.be.revertedWith("GuildApp: still an active subscription");
+            .subscribe(bob.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.emit(guildA, 'RenewSubscription')
+            .withArgs(bob.address, tokenId, 0, dai.address, SUBSCRIPTION_PRICE, 0, expirationTimestamp.add(SUBSCRIPTION_PERIOD_DEFAULT), "0x");
+        expect(await guildA.getSubscriptionExpiryFor(bob.address)).to.equal(expirationTimestamp.add(SUBSCRIPTION_PERIOD_DEFAULT));
     });
 
     // TODO:
@@ -282,8 +514,952 @@ describe("GuildApp", () => {
 
     });
 
+    it("Guild: Should enforce the guild transfer policy", async () => {
+        expect(await guildA.transferPolicy()).to.equal(TransferPolicy.Transferable);
+        await expect(guildA.approveSubscriptionTransfer(activeSubId, regen.address))
+            .to.be.revertedWith("GuildApp: Transfers do not require approval");
+
+        const createGuild = async (policy: TransferPolicy) => {
+            const initData = (
+                await guildAppTemplate.populateTransaction.initialize(
+                    alice.address,
+                    ethers.constants.AddressZero,
+                    [
+                        {
+                            name: DEFAULT_TIER_NAME,
+                            price: SUBSCRIPTION_PRICE_ETH,
+                            period: SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+                            cap: 0,
+                        },
+                    ],
+                    {
+                        name: `Alice Guild ${policy}`,
+                        symbol: `GUILDP${policy}`,
+                        baseURI: NFT_BASE_URI,
+                        metadataCID: "dummyMetadataHash",
+                    },
+                    ethers.constants.AddressZero,
+                    policy,
+                )
+            ).data!;
+            const receipt = await (await guildFactory.connect(alice).createGuild(initData)).wait();
+            const [ , guild ] = receipt?.events?.find(e => e.event === 'NewGuild')?.args!;
+            return new ethers.Contract(guild, GuildAppABI.abi, alice) as GuildApp;
+        };
+
+        const soulboundGuild = await createGuild(TransferPolicy.Soulbound);
+        expect(await soulboundGuild.transferPolicy()).to.equal(TransferPolicy.Soulbound);
+        let { tokenId } = await testUtils.newSubscription(soulboundGuild, degen, '', SUBSCRIPTION_PRICE_ETH);
+        await expect(soulboundGuild.connect(degen)['transferFrom(address,address,uint256)'](degen.address, regen.address, tokenId))
+            .to.be.revertedWith("GuildApp: Subscriptions are non-transferable");
+        // memberships can still be cancelled
+        await soulboundGuild.connect(degen).unsubscribe(tokenId);
+
+        const approvedGuild = await createGuild(TransferPolicy.OwnerApproved);
+        ({ tokenId } = await testUtils.newSubscription(approvedGuild, degen, '', SUBSCRIPTION_PRICE_ETH));
+        await expect(approvedGuild.connect(degen)['transferFrom(address,address,uint256)'](degen.address, regen.address, tokenId))
+            .to.be.revertedWith("GuildApp: Transfer has not been approved by the guild");
+        await expect(approvedGuild.connect(degen).approveSubscriptionTransfer(tokenId, regen.address))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(approvedGuild.approveSubscriptionTransfer(tokenId, regen.address))
+            .to.emit(approvedGuild, 'SubscriptionTransferApproved')
+            .withArgs(tokenId, regen.address);
+        await expect(approvedGuild.connect(degen)['transferFrom(address,address,uint256)'](degen.address, carl.address, tokenId))
+            .to.be.revertedWith("GuildApp: Transfer has not been approved by the guild");
+        await approvedGuild.connect(degen)['transferFrom(address,address,uint256)'](degen.address, regen.address, tokenId);
+        expect(await approvedGuild.ownerOf(tokenId)).to.equal(regen.address);
+        // approvals are consumed by the transfer
+        expect(await approvedGuild.approvedTransfers(tokenId)).to.equal(ethers.constants.AddressZero);
+        await expect(approvedGuild.connect(regen)['transferFrom(address,address,uint256)'](regen.address, degen.address, tokenId))
+            .to.be.revertedWith("GuildApp: Transfer has not been approved by the guild");
+    });
+
     it("Guild: Should fetch approved tokens", async () => {
         expect(await guildA.approvedTokens()).to.have.members([dai.address]);
+        expect(await guildA.acceptedTokens()).to.have.members([dai.address]);
+    });
+
+    it("Guild: Should not allow to subscribe with a token that is not accepted", async () => {
+        await expect(guildA.connect(diana).subscribe(diana.address, 0, carl.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.be.revertedWith("GuildApp: Token is not accepted");
+    });
+
+    it("Guild: Should not allow to add subscription tiers if not an admin", async () => {
+        await expect(guildA.connect(bob).addTier("patron", SUBSCRIPTION_PRICE.mul(2), SUBSCRIPTION_PERIOD_DEFAULT, 1))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+    });
+
+    it("Guild: Should allow to add subscription tiers", async () => {
+        await expect(guildA.connect(alice).addTier("patron", SUBSCRIPTION_PRICE.mul(2), SUBSCRIPTION_PERIOD_DEFAULT, 1))
+            .to.emit(guildA, 'TierUpdated')
+            .withArgs(1, "patron", SUBSCRIPTION_PRICE.mul(2), SUBSCRIPTION_PERIOD_DEFAULT, 1);
+        expect(await guildA.totalTiers()).to.equal(ethers.BigNumber.from(2));
+        expect(await guildA.getTierPrice(1, dai.address)).to.equal(SUBSCRIPTION_PRICE.mul(2));
+
+        await expect(guildA.connect(alice).addTier("sponsor", SUBSCRIPTION_PRICE.mul(3), 0, 0))
+            .to.be.revertedWith("GuildApp: Invalid subscription period");
+    });
+
+    it("Guild: Should not allow to subscribe to a non-existent tier", async () => {
+        await expect(guildA.connect(diana).subscribe(diana.address, 5, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.be.revertedWith("GuildApp: Tier does not exist");
+    });
+
+    it("Guild: Should not allow to subscribe to a tier with an insufficient value", async () => {
+        await dai.connect(diana).approve(guildA.address, SUBSCRIPTION_PRICE);
+        await expect(guildA.connect(diana).subscribe(diana.address, 1, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.be.revertedWith("GuildApp: Insufficient value sent");
+    });
+
+    it("EOA accounts: Should allow to subscribe to a specific tier", async () => {
+        const price = SUBSCRIPTION_PRICE.mul(2);
+        const { tokenId } = await testUtils.newSubscription(guildA, diana, '', price, dai, 1);
+        mintedSubs++;
+
+        expect(await guildA.getSubscriptionTierFor(diana.address)).to.equal(ethers.BigNumber.from(1));
+        expect(await guildA.tierMembers(1)).to.equal(ethers.BigNumber.from(1));
+        expect(await guildA.ownerOf(tokenId)).to.equal(diana.address);
+    });
+
+    it("Guild: Should not allow to subscribe to a tier that is full", async () => {
+        const price = SUBSCRIPTION_PRICE.mul(2);
+        await dai.connect(carl).approve(guildA.address, price);
+        await expect(guildA.connect(carl).subscribe(carl.address, 1, dai.address, '', price, "0x"))
+            .to.be.revertedWith("GuildApp: Tier is full");
+    });
+
+    it("Guild: Should allow to update a subscription tier", async () => {
+        await expect(guildA.connect(bob).updateTier(1, "patron", SUBSCRIPTION_PRICE.mul(2), SUBSCRIPTION_PERIOD_DEFAULT, 2))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+
+        await expect(guildA.connect(alice).updateTier(1, "patron", SUBSCRIPTION_PRICE.mul(2), SUBSCRIPTION_PERIOD_DEFAULT, 2))
+            .to.emit(guildA, 'TierUpdated')
+            .withArgs(1, "patron", SUBSCRIPTION_PRICE.mul(2), SUBSCRIPTION_PERIOD_DEFAULT, 2);
+        expect((await guildA.getTier(1)).cap).to.equal(ethers.BigNumber.from(2));
+
+        await expect(guildA.connect(alice).updateTier(3, "patron", SUBSCRIPTION_PRICE, SUBSCRIPTION_PERIOD_DEFAULT, 0))
+            .to.be.revertedWith("GuildApp: Tier does not exist");
+    });
+
+    it("Guild: Should allow to configure a multi-period discount", async () => {
+        await expect(guildA.connect(bob).setPeriodDiscount(12, 1000))
+            .to.be.revertedWith("GuildApp: Sender doesn't have a Price Manager role");
+
+        await expect(guildA.connect(alice).setPeriodDiscount(1, 1000))
+            .to.be.revertedWith("GuildApp: Discount requires more than one period");
+
+        await expect(guildA.connect(alice).setPeriodDiscount(12, 10000))
+            .to.be.revertedWith("GuildApp: Invalid discount");
+
+        await expect(guildA.connect(alice).setPeriodDiscount(12, 1000))
+            .to.emit(guildA, 'PeriodDiscountUpdated')
+            .withArgs(12, 1000);
+
+        expect(await guildA.subscriptionCost(0, dai.address, 3)).to.equal(SUBSCRIPTION_PRICE.mul(3));
+        // 10% off when paying for a year upfront
+        expect(await guildA.subscriptionCost(0, dai.address, 12)).to.equal(SUBSCRIPTION_PRICE.mul(12).mul(9).div(10));
+
+        await expect(guildA.subscriptionCost(0, dai.address, 0))
+            .to.be.revertedWith("GuildApp: Invalid number of periods");
+    });
+
+    it("Guild: Should not allow to prepay several periods with an insufficient value", async () => {
+        const cost = await guildA.subscriptionCost(0, dai.address, 12);
+        await dai.connect(alice).approve(guildA.address, cost);
+        await expect(guildA.connect(alice).subscribeForPeriods(alice.address, 0, dai.address, '', 12, cost.sub(1), "0x"))
+            .to.be.revertedWith("GuildApp: Insufficient value sent");
+    });
+
+    it("EOA accounts: Should allow to prepay several periods", async () => {
+        const cost = await guildA.subscriptionCost(0, dai.address, 12);
+        const balanceBefore = await guildA.guildBalance(dai.address);
+        await testUtils.newSubscription(guildA, alice, '', cost, dai, 0, 12);
+        mintedSubs++;
+
+        const balanceAfter = await guildA.guildBalance(dai.address);
+        expect(balanceBefore.add(cost)).to.equal(balanceAfter);
+    });
+
+    it("Guild: Should not allow to change tier on an active subscription", async () => {
+        const price = SUBSCRIPTION_PRICE.mul(2);
+        await dai.connect(alice).approve(guildA.address, price);
+        await expect(guildA.connect(alice).subscribe(alice.address, 1, dai.address, '', price, "0x"))
+            .to.be.revertedWith("GuildApp: Cannot change tier on an active subscription");
+    });
+
+    it("Guild: Should not allow to renew a subscription that does not exist", async () => {
+        await expect(guildA.connect(carl).renew(100, 1))
+            .to.be.revertedWith("GuildApp: Subscription does not exist");
+    });
+
+    it("EOA accounts: Should allow anyone to renew a subscription", async () => {
+        const { tokenId, expirationTimestamp } = await guildA.subscriptionByOwner(alice.address);
+        const cost = await guildA.subscriptionCost(0, dai.address, 2);
+        const balanceBefore = await guildA.guildBalance(dai.address);
+        const carlBalanceBefore = await dai.balanceOf(carl.address);
+        // Carl gifts Alice two more periods
+        await dai.connect(carl).approve(guildA.address, cost);
+        await expect(guildA.connect(carl).renew(tokenId, 2))
+            .to.emit(guildA, 'RenewSubscription')
+            .withArgs(alice.address, tokenId, 0, dai.address, cost, 0, expirationTimestamp.add(SUBSCRIPTION_PERIOD_DEFAULT * 2), "0x");
+
+        expect(await guildA.getSubscriptionExpiryFor(alice.address)).to.equal(expirationTimestamp.add(SUBSCRIPTION_PERIOD_DEFAULT * 2));
+        expect(await guildA.guildBalance(dai.address)).to.equal(balanceBefore.add(cost));
+        expect(await dai.balanceOf(carl.address)).to.equal(carlBalanceBefore.sub(cost));
+    });
+
+    it("EOA accounts: Should allow to gift a subscription", async () => {
+        const friend = (await ethers.getSigners())[7];
+        const cost = await guildA.subscriptionCost(0, dai.address, 1);
+        const carlBalanceBefore = await dai.balanceOf(carl.address);
+        const friendBalanceBefore = await dai.balanceOf(friend.address);
+        await dai.connect(carl).approve(guildA.address, cost);
+        await expect(guildA.connect(carl).giftSubscription(friend.address, 0, dai.address, 1, cost.sub(1), "giftMessageCID"))
+            .to.be.revertedWith("GuildApp: Insufficient value sent");
+
+        const rs = await guildA.connect(carl).giftSubscription(friend.address, 0, dai.address, 1, cost, "giftMessageCID");
+        const receipt = await rs.wait();
+        const [ subscriber, tokenId, , , value ] = receipt?.events?.find(e => e.event === 'NewSubscription')?.args!;
+        expect(subscriber).to.equal(friend.address);
+        expect(value).to.equal(cost);
+        const { expirationTimestamp } = await guildA.subscriptionByOwner(friend.address);
+        await expect(rs)
+            .to.emit(guildA, 'SubscriptionGifted')
+            .withArgs(carl.address, friend.address, tokenId, expirationTimestamp, "giftMessageCID");
+        expect(await guildA.ownerOf(tokenId)).to.equal(friend.address);
+        expect(await dai.balanceOf(carl.address)).to.equal(carlBalanceBefore.sub(cost));
+        expect(await dai.balanceOf(friend.address)).to.equal(friendBalanceBefore);
+
+        // gifting to an existing subscriber renews the subscription
+        await dai.connect(carl).approve(guildA.address, cost);
+        await expect(guildA.connect(carl).giftSubscription(friend.address, 0, dai.address, 1, cost, ""))
+            .to.emit(guildA, 'RenewSubscription')
+            .withArgs(friend.address, tokenId, 0, dai.address, cost, 0, expirationTimestamp.add(SUBSCRIPTION_PERIOD_DEFAULT), "0x");
+    });
+
+    it("EOA accounts: Should allow to subscribe with a discount voucher signed by a guild admin", async () => {
+        const [ , , , , , , , , fan, otherFan ] = await ethers.getSigners();
+        await dai.connect(admin).mint(fan.address, ethers.utils.parseEther("100"));
+        await dai.connect(admin).mint(otherFan.address, ethers.utils.parseEther("100"));
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        const cost = await guildA.subscriptionCost(0, dai.address, 1);
+        const voucher: testUtils.Voucher = {
+            tierId: 0,
+            discountBps: 5000,
+            tokenAddress: ethers.constants.AddressZero,
+            fixedPrice: ethers.BigNumber.from(0),
+            maxUses: 1,
+            expiry: timestamp + 3600,
+            recipient: ethers.constants.AddressZero,
+            salt: ethers.utils.formatBytes32String("HALFOFF"),
+        };
+        const { signature, digest } = await testUtils.signVoucher(guildA, alice, voucher);
+        await dai.connect(fan).approve(guildA.address, cost);
+
+        const forged = await testUtils.signVoucher(guildA, bob, voucher);
+        await expect(guildA.connect(fan).subscribeWithVoucher(fan.address, 0, dai.address, 1, cost.div(2), "0x", voucher, forged.signature, []))
+            .to.be.revertedWith("GuildApp: Voucher is not signed by a guild admin");
+        await expect(guildA.connect(fan).subscribeWithVoucher(fan.address, 0, dai.address, 1, cost.div(2).sub(1), "0x", voucher, signature, []))
+            .to.be.revertedWith("GuildApp: Insufficient value sent");
+
+        await expect(guildA.connect(fan).subscribeWithVoucher(fan.address, 0, dai.address, 1, cost.div(2), "0x", voucher, signature, []))
+            .to.emit(guildA, 'VoucherRedeemed')
+            .withArgs(digest, fan.address, cost.div(2));
+        expect(await guildA.voucherRedemptions(digest)).to.equal(1);
+        expect(await guildA.hasActiveSubscription(fan.address)).to.equal(true);
+
+        await dai.connect(otherFan).approve(guildA.address, cost);
+        await expect(guildA.connect(otherFan).subscribeWithVoucher(otherFan.address, 0, dai.address, 1, cost.div(2), "0x", voucher, signature, []))
+            .to.be.revertedWith("GuildApp: Voucher has no uses left");
+
+        const boundVoucher = { ...voucher, discountBps: 0, tokenAddress: dai.address, fixedPrice: cost.div(4), maxUses: 5, recipient: fan.address };
+        const bound = await testUtils.signVoucher(guildA, alice, boundVoucher);
+        await expect(guildA.connect(otherFan).subscribeWithVoucher(otherFan.address, 0, dai.address, 1, cost, "0x", boundVoucher, bound.signature, []))
+            .to.be.revertedWith("GuildApp: Voucher is bound to another recipient");
+        const ethVoucher = { ...boundVoucher, tokenAddress: ethers.constants.AddressZero };
+        const eth = await testUtils.signVoucher(guildA, alice, ethVoucher);
+        await expect(guildA.connect(fan).subscribeWithVoucher(fan.address, 0, dai.address, 1, cost, "0x", ethVoucher, eth.signature, []))
+            .to.be.revertedWith("GuildApp: Voucher is not valid for this token");
+        const tierVoucher = { ...boundVoucher, tierId: 1 };
+        const tier = await testUtils.signVoucher(guildA, alice, tierVoucher);
+        await expect(guildA.connect(fan).subscribeWithVoucher(fan.address, 0, dai.address, 1, cost, "0x", tierVoucher, tier.signature, []))
+            .to.be.revertedWith("GuildApp: Voucher is not valid for this tier");
+        // fixed price vouchers are charged per period
+        await dai.connect(fan).approve(guildA.address, cost.div(2));
+        await expect(guildA.connect(fan).subscribeWithVoucher(fan.address, 0, dai.address, 2, cost.div(2), "0x", boundVoucher, bound.signature, []))
+            .to.emit(guildA, 'RenewSubscription');
+
+        await network.provider.send("evm_increaseTime", [3601]);
+        await expect(guildA.connect(fan).subscribeWithVoucher(fan.address, 0, dai.address, 1, cost, "0x", boundVoucher, bound.signature, []))
+            .to.be.revertedWith("GuildApp: Voucher has expired");
+    });
+
+    it("EOA accounts: Should allow to subscribe with a signed token permit", async () => {
+        const [ , , , , , , , , , , daiHolder, permitHolder ] = await ethers.getSigners();
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        const deadline = timestamp + 3600 * 24;
+        const cost = await guildA.subscriptionCost(0, dai.address, 1);
+        await dai.connect(admin).mint(daiHolder.address, cost);
+
+        // DAI-style permit
+        const daiPermit = await testUtils.signPermit(dai, daiHolder, guildA.address, cost, deadline, true);
+        await expect(guildA.connect(daiHolder).subscribeWithPermit(daiHolder.address, 0, ethers.constants.AddressZero, 1, cost, daiPermit))
+            .to.be.revertedWith("GuildApp: ETH payments do not support permits");
+        await expect(guildA.connect(bob).subscribeWithPermit(daiHolder.address, 0, dai.address, 1, cost, daiPermit))
+            .to.be.revertedWith("GuildApp: msg.sender must be the subscriber");
+        await expect(guildA.connect(daiHolder).subscribeWithPermit(daiHolder.address, 0, dai.address, 1, cost, daiPermit))
+            .to.emit(guildA, 'NewSubscription');
+        expect(await dai.balanceOf(daiHolder.address)).to.equal(0);
+        expect(await dai.nonces(daiHolder.address)).to.equal(1);
+
+        // EIP-2612 permit
+        const ERC20PermitMockContract = await ethers.getContractFactory("ERC20PermitMock");
+        const permitToken = (await ERC20PermitMockContract.deploy()) as Erc20PermitMock;
+        await permitToken.initialize("Permit Token", "PRMT");
+        await permitToken.mint(permitHolder.address, SUBSCRIPTION_PRICE);
+        const initData = (
+            await guildAppTemplate.populateTransaction.initialize(
+                alice.address,
+                permitToken.address,
+                [
+                    {
+                        name: DEFAULT_TIER_NAME,
+                        price: SUBSCRIPTION_PRICE,
+                        period: SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+                        cap: 0,
+                    },
+                ],
+                {
+                    name: "Permit Guild",
+                    symbol: "GUILDPRMT",
+                    baseURI: NFT_BASE_URI,
+                    metadataCID: "dummyMetadataHash",
+                },
+                ethers.constants.AddressZero,
+                TransferPolicy.Transferable,
+            )
+        ).data!;
+        const receipt = await (await guildFactory.connect(alice).createGuild(initData)).wait();
+        const [ , guildAddress ] = receipt?.events?.find(e => e.event === 'NewGuild')?.args!;
+        const permitGuild = new ethers.Contract(guildAddress, GuildAppABI.abi, permitHolder) as GuildApp;
+        const forged = await testUtils.signPermit(permitToken, bob, permitGuild.address, SUBSCRIPTION_PRICE, deadline);
+        await expect(permitGuild.subscribeWithPermit(permitHolder.address, 0, permitToken.address, 1, SUBSCRIPTION_PRICE, forged))
+            .to.be.revertedWith("ERC20: transfer amount exceeds allowance");
+        const permit = await testUtils.signPermit(permitToken, permitHolder, permitGuild.address, SUBSCRIPTION_PRICE, deadline);
+        // permits front-run by anyone else are consumed but the subscription still goes through
+        await permitToken.connect(bob).permit(
+            permitHolder.address, permitGuild.address, SUBSCRIPTION_PRICE, deadline, permit.v, permit.r, permit.s
+        );
+        await expect(permitGuild.subscribeWithPermit(permitHolder.address, 0, permitToken.address, 1, SUBSCRIPTION_PRICE, permit))
+            .to.emit(permitGuild, 'NewSubscription');
+        expect(await permitToken.balanceOf(permitHolder.address)).to.equal(0);
+        expect(await permitGuild.hasActiveSubscription(permitHolder.address)).to.equal(true);
+    });
+
+    it("Safe accounts: Should renew subscriptions in batch through the AllowanceModule", async () => {
+        const [ , , , , , , , , , , , , ownerA, ownerB, stranger ] = await ethers.getSigners();
+        const safeA = await testUtils.deploySafe([ownerA], 1);
+        const safeB = await testUtils.deploySafe([ownerA, ownerB], 2);
+        const owners = new Map([[safeA.address, [ownerA]], [safeB.address, [ownerA, ownerB]]]);
+        const AllowanceModuleMockContract = await ethers.getContractFactory("AllowanceModuleMock");
+        const allowanceModule = await AllowanceModuleMockContract.deploy();
+        const initData = (
+            await guildAppTemplate.populateTransaction.initialize(
+                alice.address,
+                dai.address,
+                [
+                    {
+                        name: DEFAULT_TIER_NAME,
+                        price: SUBSCRIPTION_PRICE,
+                        period: SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+                        cap: 0,
+                    },
+                ],
+                {
+                    name: "Safe Guild",
+                    symbol: "GUILDSAFE",
+                    baseURI: NFT_BASE_URI,
+                    metadataCID: "dummyMetadataHash",
+                },
+                allowanceModule.address,
+                TransferPolicy.Transferable,
+            )
+        ).data!;
+        const receipt = await (await guildFactory.connect(alice).createGuild(initData)).wait();
+        const [ , guildAddress ] = receipt?.events?.find(e => e.event === 'NewGuild')?.args!;
+        // subscriptions are relayed by bob
+        const safeGuild = new ethers.Contract(guildAddress, GuildAppABI.abi, bob) as GuildApp;
+        for (const safe of [safeA, safeB]) {
+            const safeOwners = owners.get(safe.address)!;
+            await dai.connect(admin).mint(safe.address, SUBSCRIPTION_PRICE.mul(2));
+            await testUtils.execSafeTx(safe, safeOwners, dai.address,
+                dai.interface.encodeFunctionData("approve", [allowanceModule.address, SUBSCRIPTION_PRICE.mul(2)]));
+            await testUtils.execSafeTx(safe, safeOwners, allowanceModule.address,
+                allowanceModule.interface.encodeFunctionData("setAllowance", [safeGuild.address, dai.address, SUBSCRIPTION_PRICE.mul(2)]));
+            const digest = await testUtils.safeSubscriptionHash(safeGuild, safe.address, "subscribe", 0, dai.address, 1, SUBSCRIPTION_PRICE);
+            const signature = await testUtils.signSafeSubscription(safe, safeOwners, digest);
+            await safeGuild.subscribe(safe.address, 0, dai.address, "", SUBSCRIPTION_PRICE, signature);
+        }
+
+        let events = (await (await safeGuild.renewBatch([safeA.address, stranger.address])).wait()).events!;
+        expect(events.filter(e => e.event === 'RenewalFailed').map(e => [e.args?._subscriber, e.args?._reason])).to.deep.equal([
+            [safeA.address, testUtils.encodeRevertReason("GuildApp: Subscription is not due for renewal")],
+            [stranger.address, testUtils.encodeRevertReason("GuildApp: Subscription does not exist")],
+        ]);
+
+        const expiryA = await safeGuild.getSubscriptionExpiryFor(safeA.address);
+        const expiryB = await safeGuild.getSubscriptionExpiryFor(safeB.address);
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        await testUtils.increaseTimeTo(+expiryA - 3600);
+        await testUtils.execSafeTx(safeB, [ownerA, ownerB], allowanceModule.address,
+            allowanceModule.interface.encodeFunctionData("setAllowance", [safeGuild.address, dai.address, 0]));
+        const rs = await guildFactory.connect(bob)
+            .renewBatch([safeGuild.address, safeGuild.address, guildA.address], [safeA.address, safeB.address, safeA.address]);
+        await expect(rs)
+            .to.emit(safeGuild, 'RenewSubscription')
+            .withArgs(safeA.address, 1, 0, dai.address, SUBSCRIPTION_PRICE, 0, expiryA.add(SUBSCRIPTION_PERIOD_DEFAULT), "0x");
+        await expect(rs)
+            .to.emit(safeGuild, 'RenewalFailed')
+            .withArgs(safeB.address, testUtils.encodeRevertReason("AllowanceModuleMock: Not enough allowance"));
+        await expect(rs)
+            .to.emit(guildFactory, 'GuildRenewalFailed')
+            .withArgs(guildA.address, testUtils.encodeRevertReason("GuildApp: Guild does not support Safe Allowances"));
+        expect(await safeGuild.getSubscriptionExpiryFor(safeB.address)).to.equal(expiryB);
+        expect(await dai.balanceOf(safeGuild.address)).to.equal(SUBSCRIPTION_PRICE.mul(3));
+        await expect(guildFactory.renewBatch([safeGuild.address], []))
+            .to.be.revertedWith("GuildFactory: Guilds and subscribers length mismatch");
+
+        // allowance transfers are limited to uint96 values
+        const maxAllowance = ethers.BigNumber.from(2).pow(96);
+        await safeGuild.connect(alice).updateTier(0, DEFAULT_TIER_NAME, maxAllowance, SUBSCRIPTION_PERIOD_DEFAULT, 0);
+        await expect(safeGuild.renewBatch([safeB.address]))
+            .to.be.revertedWith("GuildApp: Value exceeds uint96");
+        const digest = await testUtils.safeSubscriptionHash(safeGuild, safeB.address, "subscribe", 0, dai.address, 1, maxAllowance);
+        const signature = await testUtils.signSafeSubscription(safeB, [ownerA, ownerB], digest);
+        await expect(safeGuild.subscribe(safeB.address, 0, dai.address, "", maxAllowance, signature))
+            .to.be.revertedWith("GuildApp: Value exceeds uint96");
+        await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Safe accounts: Should only subscribe through the AllowanceModule with a valid EIP-1271 Safe signature", async () => {
+        const [ , , , , , , , , , , , , ownerA, ownerB, ownerC ] = await ethers.getSigners();
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        const AllowanceModuleMockContract = await ethers.getContractFactory("AllowanceModuleMock");
+        const allowanceModule = await AllowanceModuleMockContract.deploy();
+        const initData = (
+            await guildAppTemplate.populateTransaction.initialize(
+                alice.address,
+                dai.address,
+                [
+                    {
+                        name: DEFAULT_TIER_NAME,
+                        price: SUBSCRIPTION_PRICE,
+                        period: SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+                        cap: 0,
+                    },
+                ],
+                {
+                    name: "Safe Guild",
+                    symbol: "GUILDSAFE",
+                    baseURI: NFT_BASE_URI,
+                    metadataCID: "dummyMetadataHash",
+                },
+                allowanceModule.address,
+                TransferPolicy.Transferable,
+            )
+        ).data!;
+        const receipt = await (await guildFactory.connect(alice).createGuild(initData)).wait();
+        const [ , guildAddress ] = receipt?.events?.find(e => e.event === 'NewGuild')?.args!;
+        const safeGuild = new ethers.Contract(guildAddress, GuildAppABI.abi, bob) as GuildApp;
+
+        // 2 out of 3 Safe
+        const safe = await testUtils.deploySafe([ownerA, ownerB, ownerC], 2);
+        await dai.connect(admin).mint(safe.address, SUBSCRIPTION_PRICE.mul(2));
+        await testUtils.execSafeTx(safe, [ownerA, ownerC], dai.address,
+            dai.interface.encodeFunctionData("approve", [allowanceModule.address, SUBSCRIPTION_PRICE.mul(2)]));
+        await testUtils.execSafeTx(safe, [ownerA, ownerC], allowanceModule.address,
+            allowanceModule.interface.encodeFunctionData("setAllowance", [safeGuild.address, dai.address, SUBSCRIPTION_PRICE.mul(2)]));
+
+        const digest = await testUtils.safeSubscriptionHash(safeGuild, safe.address, "subscribe", 0, dai.address, 1, SUBSCRIPTION_PRICE);
+        await expect(safeGuild.subscribe(safe.address, 0, dai.address, "", SUBSCRIPTION_PRICE,
+                                         await testUtils.signSafeSubscription(safe, [ownerB], digest)))
+            .to.be.revertedWith("GuildApp: Invalid Safe signature");
+        await expect(safeGuild.subscribe(safe.address, 0, dai.address, "", SUBSCRIPTION_PRICE,
+                                         await testUtils.signSafeSubscription(safe, [ownerA, bob], digest)))
+            .to.be.revertedWith("GuildApp: Invalid Safe signature");
+        // signature is bound to the subscription terms
+        const signature = await testUtils.signSafeSubscription(safe, [ownerB, ownerC], digest);
+        await expect(safeGuild.subscribeForPeriods(safe.address, 0, dai.address, "", 2, SUBSCRIPTION_PRICE.mul(2), signature))
+            .to.be.revertedWith("GuildApp: Invalid Safe signature");
+        // nor replayed through another entry point or with another referrer
+        await expect(safeGuild.subscribeWithReferrer(safe.address, 0, dai.address, 1, SUBSCRIPTION_PRICE, signature, bob.address))
+            .to.be.revertedWith("GuildApp: Invalid Safe signature");
+        const referredDigest = await testUtils.safeSubscriptionHash(safeGuild, safe.address, "subscribeWithReferrer", 0, dai.address, 1,
+                                                                    SUBSCRIPTION_PRICE, ownerA.address);
+        const referredSignature = await testUtils.signSafeSubscription(safe, [ownerB, ownerC], referredDigest);
+        await expect(safeGuild.subscribeWithReferrer(safe.address, 0, dai.address, 1, SUBSCRIPTION_PRICE, referredSignature, bob.address))
+            .to.be.revertedWith("GuildApp: Invalid Safe signature");
+        await expect(safeGuild.subscribe(safe.address, 0, dai.address, "", SUBSCRIPTION_PRICE, referredSignature))
+            .to.be.revertedWith("GuildApp: Invalid Safe signature");
+        // non-Safe accounts cannot pay through the AllowanceModule
+        await expect(safeGuild.subscribe(ownerA.address, 0, dai.address, "", SUBSCRIPTION_PRICE, signature))
+            .to.be.revertedWith("GuildApp: Sender is not a Gnosis Safe");
+        await expect(safeGuild.subscribe(dai.address, 0, dai.address, "", SUBSCRIPTION_PRICE, signature))
+            .to.be.revertedWith("GuildApp: Sender is not a Gnosis Safe");
+
+        await expect(safeGuild.subscribe(safe.address, 0, dai.address, "", SUBSCRIPTION_PRICE, signature))
+            .to.emit(safeGuild, 'NewSubscription');
+        expect(await safeGuild.hasActiveSubscription(safe.address)).to.equal(true);
+        expect(await dai.balanceOf(safeGuild.address)).to.equal(SUBSCRIPTION_PRICE);
+        // signatures cannot be replayed
+        await expect(safeGuild.subscribe(safe.address, 0, dai.address, "", SUBSCRIPTION_PRICE, signature))
+            .to.be.revertedWith("GuildApp: Invalid Safe signature");
+        expect(await testUtils.safeSubscriptionHash(safeGuild, safe.address, "subscribe", 0, dai.address, 1, SUBSCRIPTION_PRICE)).to.not.equal(digest);
+
+        // CPK Safes (v1.2.0) only implement the legacy EIP-1271 isValidSignature(bytes,bytes)
+        const legacySafe = await testUtils.deployLegacySafe([ownerA, ownerB, ownerC], 2);
+        await dai.connect(admin).mint(legacySafe.address, SUBSCRIPTION_PRICE);
+        await legacySafe.connect(ownerA).execTransaction(dai.address,
+            dai.interface.encodeFunctionData("approve", [allowanceModule.address, SUBSCRIPTION_PRICE]));
+        await legacySafe.connect(ownerA).execTransaction(allowanceModule.address,
+            allowanceModule.interface.encodeFunctionData("setAllowance", [safeGuild.address, dai.address, SUBSCRIPTION_PRICE]));
+        const legacyDigest = await testUtils.safeSubscriptionHash(safeGuild, legacySafe.address, "subscribe", 0, dai.address, 1, SUBSCRIPTION_PRICE);
+        await expect(safeGuild.subscribe(legacySafe.address, 0, dai.address, "", SUBSCRIPTION_PRICE,
+                                         await testUtils.signSafeSubscription(legacySafe, [ownerA, bob], legacyDigest)))
+            .to.be.revertedWith("GuildApp: Invalid Safe signature");
+        await expect(safeGuild.subscribe(legacySafe.address, 0, dai.address, "", SUBSCRIPTION_PRICE,
+                                         await testUtils.signSafeSubscription(legacySafe, [ownerA, ownerC], legacyDigest)))
+            .to.emit(safeGuild, 'NewSubscription');
+        expect(await safeGuild.hasActiveSubscription(legacySafe.address)).to.equal(true);
+        await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Guild: Should only allow invited accounts to join an invite-only guild", async () => {
+        const [ , , , , , , , , , , , , , , , invitee, stranger, , guest ] = await ethers.getSigners();
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        const allowlist = testUtils.buildAllowlist([alice.address, invitee.address, carl.address, guest.address]);
+        await expect(guildA.connect(bob).setAllowlist(allowlist.root, "allowlistCID"))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(guildA.setAllowlist(allowlist.root, "allowlistCID"))
+            .to.emit(guildA, 'AllowlistUpdated')
+            .withArgs(allowlist.root, "allowlistCID");
+        expect(await guildA.allowlistRoot()).to.equal(allowlist.root);
+
+        for (const account of [invitee, stranger, guest]) {
+            await dai.connect(admin).mint(account.address, SUBSCRIPTION_PRICE.mul(2));
+            await dai.connect(account).approve(guildA.address, SUBSCRIPTION_PRICE.mul(2));
+        }
+        await expect(guildA.connect(invitee).subscribe(invitee.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.be.revertedWith("GuildApp: Guild is invite-only");
+        await expect(guildA.connect(stranger).giftSubscription(invitee.address, 0, dai.address, 1, SUBSCRIPTION_PRICE, ""))
+            .to.be.revertedWith("GuildApp: Guild is invite-only");
+        await expect(guildA.connect(stranger)
+            .subscribeWithProof(stranger.address, 0, dai.address, 1, SUBSCRIPTION_PRICE, "0x", allowlist.getProof(invitee.address)))
+            .to.be.revertedWith("GuildApp: Account is not invited");
+        await expect(guildA.connect(invitee)
+            .subscribeWithProof(invitee.address, 0, dai.address, 1, SUBSCRIPTION_PRICE, "0x", allowlist.getProof(invitee.address)))
+            .to.emit(guildA, 'NewSubscription');
+        // members can renew without a proof
+        await expect(guildA.connect(invitee).subscribe(invitee.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.emit(guildA, 'RenewSubscription');
+
+        // invited accounts can join with a voucher
+        const { timestamp } = await ethers.provider.getBlock("latest");
+        const voucher: testUtils.Voucher = {
+            tierId: 0,
+            discountBps: 5000,
+            tokenAddress: ethers.constants.AddressZero,
+            fixedPrice: ethers.BigNumber.from(0),
+            maxUses: 2,
+            expiry: timestamp + 3600,
+            recipient: ethers.constants.AddressZero,
+            salt: ethers.utils.formatBytes32String("INVITED"),
+        };
+        const { signature } = await testUtils.signVoucher(guildA, alice, voucher);
+        const discounted = SUBSCRIPTION_PRICE.div(2);
+        await expect(guildA.connect(stranger)
+            .subscribeWithVoucher(stranger.address, 0, dai.address, 1, discounted, "0x", voucher, signature, []))
+            .to.be.revertedWith("GuildApp: Account is not invited");
+        await expect(guildA.connect(stranger)
+            .subscribeWithVoucher(stranger.address, 0, dai.address, 1, discounted, "0x", voucher, signature,
+                                  allowlist.getProof(guest.address)))
+            .to.be.revertedWith("GuildApp: Account is not invited");
+        await expect(guildA.connect(guest)
+            .subscribeWithVoucher(guest.address, 0, dai.address, 1, discounted, "0x", voucher, signature,
+                                  allowlist.getProof(guest.address)))
+            .to.emit(guildA, 'NewSubscription');
+
+        await guildA.setAllowlist(ethers.constants.HashZero, "");
+        await expect(guildA.connect(stranger).subscribe(stranger.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.emit(guildA, 'NewSubscription');
+        await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Guild: Should not allow new members once the guild is full", async () => {
+        const [ , , , , , , , , , , , , , , , , , latecomer, waiter ] = await ethers.getSigners();
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        const members = (await guildA.tierMembers(0)).add(await guildA.tierMembers(1));
+        expect(await guildA.remainingSeats(0)).to.equal(ethers.constants.MaxUint256);
+
+        await expect(guildA.connect(bob).setMaxMembers(members))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(guildA.setMaxMembers(members.add(1)))
+            .to.emit(guildA, 'MaxMembersUpdated')
+            .withArgs(members.add(1));
+        expect(await guildA.remainingSeats(0)).to.equal(ethers.BigNumber.from(1));
+        await expect(guildA.connect(waiter).joinWaitlist(0))
+            .to.be.revertedWith("GuildApp: Seats are still available");
+
+        for (const account of [latecomer, waiter]) {
+            await dai.connect(admin).mint(account.address, SUBSCRIPTION_PRICE);
+            await dai.connect(account).approve(guildA.address, SUBSCRIPTION_PRICE);
+        }
+        await expect(guildA.connect(latecomer).subscribe(latecomer.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.emit(guildA, 'NewSubscription');
+        expect(await guildA.remainingSeats(0)).to.equal(ethers.BigNumber.from(0));
+        await expect(guildA.connect(waiter).subscribe(waiter.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.be.revertedWith("GuildApp: Guild is full");
+        await expect(guildA.connect(waiter).joinWaitlist(0))
+            .to.emit(guildA, 'WaitlistJoined')
+            .withArgs(waiter.address, 0);
+
+        // a released seat can be taken again
+        const { tokenId } = await guildA.subscriptionByOwner(latecomer.address);
+        await guildA.connect(latecomer).unsubscribe(tokenId);
+        await expect(guildA.connect(waiter).subscribe(waiter.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.emit(guildA, 'NewSubscription');
+        await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Guild: Should release the seats of lapsed members", async () => {
+        const [ , , , , , , , , , , , , , , , , , latecomer, waiter ] = await ethers.getSigners();
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        const members = (await guildA.tierMembers(0)).add(await guildA.tierMembers(1));
+        await guildA.setMaxMembers(members.add(1));
+        for (const account of [latecomer, waiter]) {
+            await dai.connect(admin).mint(account.address, SUBSCRIPTION_PRICE.mul(2));
+            await dai.connect(account).approve(guildA.address, SUBSCRIPTION_PRICE.mul(2));
+        }
+        await guildA.connect(latecomer).subscribe(latecomer.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x");
+        const { tokenId } = await guildA.subscriptionByOwner(latecomer.address);
+        await expect(guildA.connect(waiter).releaseSeat(tokenId))
+            .to.be.revertedWith("GuildApp: Seat cannot be released");
+
+        const gracePeriod = await guildA.gracePeriod();
+        await network.provider.send("evm_increaseTime", [gracePeriod.add(SUBSCRIPTION_PERIOD_DEFAULT).toNumber()]);
+        await network.provider.send("evm_mine", []);
+        expect(await guildA.remainingSeats(0)).to.equal(ethers.BigNumber.from(0));
+        await expect(guildA.connect(waiter).releaseSeat(tokenId))
+            .to.emit(guildA, 'SeatReleased')
+            .withArgs(tokenId, 0);
+        await expect(guildA.connect(waiter).releaseSeat(tokenId))
+            .to.be.revertedWith("GuildApp: Seat cannot be released");
+        expect(await guildA.remainingSeats(0)).to.equal(ethers.BigNumber.from(1));
+        await expect(guildA.connect(waiter).joinWaitlist(0))
+            .to.be.revertedWith("GuildApp: Seats are still available");
+
+        await expect(guildA.connect(waiter).subscribe(waiter.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.emit(guildA, 'NewSubscription');
+        // lapsed members need a free seat to renew
+        await expect(guildA.connect(latecomer).subscribe(latecomer.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.be.revertedWith("GuildApp: Guild is full");
+        await guildA.setMaxMembers(members.add(2));
+        await expect(guildA.connect(latecomer).subscribe(latecomer.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.emit(guildA, 'RenewSubscription');
+        expect(await guildA.remainingSeats(0)).to.equal(ethers.BigNumber.from(0));
+        await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Guild: Should honour locked prices on renewals until the subscription lapses", async () => {
+        const [ , , , , , , , , , , , , , , , , , , , supporter ] = await ethers.getSigners();
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        const newPrice = SUBSCRIPTION_PRICE.mul(2);
+        await dai.connect(admin).mint(supporter.address, newPrice.mul(3));
+        await dai.connect(supporter).approve(guildA.address, newPrice.mul(3));
+
+        await expect(guildA.connect(bob).setGrandfatheredPricing(true))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(guildA.setGrandfatheredPricing(true))
+            .to.emit(guildA, 'GrandfatheredPricingUpdated')
+            .withArgs(true);
+
+        const tx = guildA.connect(supporter).subscribe(supporter.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x");
+        await expect(tx).to.emit(guildA, 'NewSubscription');
+        const { tokenId, lockedPrice } = await guildA.subscriptionByOwner(supporter.address);
+        await expect(tx).to.emit(guildA, 'PriceLocked').withArgs(tokenId, dai.address, SUBSCRIPTION_PRICE);
+        expect(lockedPrice).to.equal(SUBSCRIPTION_PRICE);
+
+        await guildA.connect(alice).setTokenPrice(0, dai.address, newPrice);
+        expect(await guildA.subscriptionCost(0, dai.address, 1)).to.equal(newPrice);
+        expect(await guildA.subscriptionCostFor(supporter.address, 0, dai.address, 1)).to.equal(SUBSCRIPTION_PRICE);
+        await expect(guildA.connect(supporter).subscribe(supporter.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.emit(guildA, 'RenewSubscription')
+            .and.not.to.emit(guildA, 'PriceLocked');
+
+        await guildA.setGrandfatheredPricing(false);
+        expect(await guildA.subscriptionCostFor(supporter.address, 0, dai.address, 1)).to.equal(newPrice);
+        await guildA.setGrandfatheredPricing(true);
+
+        // lapsed subscriptions lock the current price
+        const { expirationTimestamp } = await guildA.subscriptionByOwner(supporter.address);
+        const { timestamp } = await ethers.provider.getBlock('latest');
+        const gracePeriod = await guildA.gracePeriod();
+        await ethers.provider.send("evm_increaseTime", [expirationTimestamp.add(gracePeriod).sub(timestamp).toNumber() + 1]);
+        await ethers.provider.send("evm_mine", []);
+        expect(await guildA.subscriptionCostFor(supporter.address, 0, dai.address, 1)).to.equal(newPrice);
+        await expect(guildA.connect(supporter).subscribe(supporter.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.be.revertedWith("GuildApp: Insufficient value sent");
+        await expect(guildA.connect(supporter).subscribe(supporter.address, 0, dai.address, '', newPrice, "0x"))
+            .to.emit(guildA, 'PriceLocked')
+            .withArgs(tokenId, dai.address, newPrice);
+        await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Guild: Should let members freeze & unfreeze their subscription within the guild limits", async () => {
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        const { tokenId, expirationTimestamp } = await guildA.subscriptionByOwner(bob.address);
+        const timestampOf = async (rs: ContractTransaction) => (await ethers.provider.getBlock((await rs.wait()).blockNumber)).timestamp;
+        await expect(guildA.connect(bob).freezeSubscription(tokenId))
+            .to.be.revertedWith("GuildApp: Freezing is disabled");
+        await expect(guildA.connect(bob).setFreezePolicy(SUBSCRIPTION_PERIOD_DEFAULT, 1))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(guildA.connect(alice).setFreezePolicy(SUBSCRIPTION_PERIOD_DEFAULT, 1))
+            .to.emit(guildA, 'FreezePolicyUpdated')
+            .withArgs(SUBSCRIPTION_PERIOD_DEFAULT, 1);
+
+        await expect(guildA.connect(carl).freezeSubscription(tokenId))
+            .to.be.revertedWith("GuildApp: Caller is not the owner of the subscription");
+        let rs = await guildA.connect(bob).freezeSubscription(tokenId);
+        const frozenAt = await timestampOf(rs);
+        await expect(rs)
+            .to.emit(guildA, 'SubscriptionFrozen')
+            .withArgs(tokenId, expirationTimestamp.sub(frozenAt), frozenAt + SUBSCRIPTION_PERIOD_DEFAULT);
+        expect(await guildA.subscriptionStatus(bob.address)).to.equal(SubscriptionStatus.Expired);
+        await expect(guildA.connect(bob).freezeSubscription(tokenId))
+            .to.be.revertedWith("GuildApp: Subscription is frozen");
+        await dai.connect(bob).approve(guildA.address, SUBSCRIPTION_PRICE);
+        await expect(guildA.connect(bob).renew(tokenId, 1))
+            .to.be.revertedWith("GuildApp: Subscription is frozen");
+        await expect(guildA.connect(bob).unsubscribe(tokenId))
+            .to.be.revertedWith("GuildApp: Subscription is frozen");
+
+        // remaining time is restored from the moment the subscription is unfrozen
+        await testUtils.increaseTimeTo(frozenAt + 3600 * 24 * 10);
+        await expect(guildA.connect(carl).unfreezeSubscription(tokenId))
+            .to.be.revertedWith("GuildApp: Caller is not the owner of the subscription");
+        rs = await guildA.connect(bob).unfreezeSubscription(tokenId);
+        let expiry = expirationTimestamp.add(await timestampOf(rs) - frozenAt);
+        await expect(rs)
+            .to.emit(guildA, 'SubscriptionUnfrozen')
+            .withArgs(tokenId, expiry);
+        expect((await guildA.subscriptionByOwner(bob.address)).expirationTimestamp).to.equal(expiry);
+        expect(await guildA.subscriptionStatus(bob.address)).to.equal(SubscriptionStatus.Active);
+        await expect(guildA.connect(bob).unfreezeSubscription(tokenId))
+            .to.be.revertedWith("GuildApp: Subscription is not frozen");
+        await expect(guildA.connect(bob).freezeSubscription(tokenId))
+            .to.be.revertedWith("GuildApp: Freeze limit reached");
+
+        // subscriptions frozen for longer than allowed resume once the max duration is reached
+        const maxFreezeDuration = 3600 * 24 * 7;
+        await guildA.connect(alice).setFreezePolicy(maxFreezeDuration, 0);
+        const secondFrozenAt = await timestampOf(await guildA.connect(bob).freezeSubscription(tokenId));
+        // policy updates don't apply to subscriptions already frozen
+        await guildA.connect(alice).setFreezePolicy(0, 0);
+        await testUtils.increaseTimeTo(secondFrozenAt + maxFreezeDuration / 2);
+        await expect(guildA.connect(carl).unfreezeSubscription(tokenId))
+            .to.be.revertedWith("GuildApp: Caller is not the owner of the subscription");
+        await testUtils.increaseTimeTo(secondFrozenAt + maxFreezeDuration * 2);
+        await expect(guildA.connect(carl).unfreezeSubscription(tokenId))
+            .to.emit(guildA, 'SubscriptionUnfrozen')
+            .withArgs(tokenId, expiry.add(maxFreezeDuration));
+        await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Guild: Should credit referrers on the first subscription of referred members", async () => {
+        const [ , , , , , , , , , , , , , , , newcomer, friend, referred ] = await ethers.getSigners();
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        const rewardBps = 1000;
+        const bonusDuration = 3600 * 24 * 7;
+        await expect(guildA.connect(bob).setReferralPolicy(rewardBps, bonusDuration))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(guildA.setReferralPolicy(10001, bonusDuration))
+            .to.be.revertedWith("GuildApp: Invalid referral reward");
+        await expect(guildA.setReferralPolicy(rewardBps, bonusDuration))
+            .to.emit(guildA, 'ReferralPolicyUpdated')
+            .withArgs(rewardBps, bonusDuration);
+        for (const account of [newcomer, friend, referred]) {
+            await dai.connect(admin).mint(account.address, SUBSCRIPTION_PRICE.mul(2));
+            await dai.connect(account).approve(guildA.address, SUBSCRIPTION_PRICE.mul(2));
+        }
+
+        // referrers without a subscription are ignored
+        await expect(guildA.connect(friend)
+            .subscribeWithReferrer(friend.address, 0, dai.address, 1, SUBSCRIPTION_PRICE, "0x", newcomer.address))
+            .to.emit(guildA, 'NewSubscription')
+            .and.not.to.emit(guildA, 'ReferralCredited');
+        expect(await guildA.referrerOf(friend.address)).to.equal(ethers.constants.AddressZero);
+
+        const reward = SUBSCRIPTION_PRICE.mul(rewardBps).div(10000);
+        const { tokenId, expirationTimestamp } = await guildA.subscriptionByOwner(bob.address);
+        const bobBalance = await dai.balanceOf(bob.address);
+        await expect(guildA.connect(newcomer)
+            .subscribeWithReferrer(newcomer.address, 0, dai.address, 1, SUBSCRIPTION_PRICE, "0x", bob.address))
+            .to.emit(guildA, 'ReferralCredited')
+            .withArgs(bob.address, tokenId, newcomer.address, dai.address, reward, bonusDuration, expirationTimestamp.add(bonusDuration));
+        expect(await guildA.referrerOf(newcomer.address)).to.equal(bob.address);
+        // rewards are claimed by the referrer
+        expect(await dai.balanceOf(bob.address)).to.equal(bobBalance);
+        expect(await guildA.claimable(dai.address, bob.address)).to.equal(reward);
+        await expect(guildA.claim(dai.address, bob.address))
+            .to.emit(guildA, 'Claimed')
+            .withArgs(dai.address, bob.address, reward);
+        expect(await dai.balanceOf(bob.address)).to.equal(bobBalance.add(reward));
+        expect((await guildA.subscriptionByOwner(bob.address)).expirationTimestamp)
+            .to.equal(expirationTimestamp.add(bonusDuration));
+        // the reward is not refundable to the referred member
+        expect((await guildA.subscriptionByOwner(newcomer.address)).paidValue).to.equal(SUBSCRIPTION_PRICE.sub(reward));
+
+        // only the first payment is credited
+        await expect(guildA.connect(newcomer)
+            .subscribeWithReferrer(newcomer.address, 0, dai.address, 1, SUBSCRIPTION_PRICE, "0x", friend.address))
+            .to.emit(guildA, 'RenewSubscription')
+            .and.not.to.emit(guildA, 'ReferralCredited');
+
+        // bonus time is not refunded when the referrer cancels
+        await guildA.setRefundPolicy(RefundPolicy.Prorated, 0);
+        const friendSubs = await guildA.subscriptionByOwner(friend.address);
+        await guildA.connect(referred)
+            .subscribeWithReferrer(referred.address, 0, dai.address, 1, SUBSCRIPTION_PRICE, "0x", friend.address);
+        expect((await guildA.subscriptionByOwner(friend.address)).expirationTimestamp)
+            .to.equal(friendSubs.expirationTimestamp.add(bonusDuration));
+        const cancelledAt = +friendSubs.expirationTimestamp - 3600 * 24;
+        const refund = friendSubs.paidValue.mul(3600 * 24).div(friendSubs.expirationTimestamp.sub(friendSubs.paidFrom));
+        await ethers.provider.send("evm_setNextBlockTimestamp", [cancelledAt]);
+        await expect(guildA.connect(friend).unsubscribe(friendSubs.tokenId))
+            .to.emit(guildA, 'Refunded')
+            .withArgs(friendSubs.tokenId, friend.address, dai.address, refund);
+
+        // lapsed referrers are not extended
+        await testUtils.increaseTimeTo(+(await guildA.subscriptionByOwner(newcomer.address)).expirationTimestamp + 1);
+        const { expirationTimestamp: newcomerExpiry } = await guildA.subscriptionByOwner(newcomer.address);
+        await expect(guildA.connect(friend)
+            .subscribeWithReferrer(friend.address, 0, dai.address, 1, SUBSCRIPTION_PRICE, "0x", newcomer.address))
+            .to.emit(guildA, 'ReferralCredited')
+            .withArgs(newcomer.address, (await guildA.subscriptionByOwner(newcomer.address)).tokenId, friend.address, dai.address,
+                      reward, 0, newcomerExpiry);
+        await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Guild: Should refund the unused time of active members pro-rata when closing the guild", async () => {
+        const [ , , , , , , , , , , , , , , , , , memberA, memberB ] = await ethers.getSigners();
+        const initData = (
+            await guildAppTemplate.populateTransaction.initialize(
+                alice.address,
+                dai.address,
+                [
+                    {
+                        name: DEFAULT_TIER_NAME,
+                        price: SUBSCRIPTION_PRICE,
+                        period: SUBSCRIPTION_PERIOD_DEFAULT.toString(),
+                        cap: 0,
+                    },
+                ],
+                {
+                    name: "Sunset Guild",
+                    symbol: "GUILDSUN",
+                    baseURI: NFT_BASE_URI,
+                    metadataCID: "dummyMetadataHash",
+                },
+                ethers.constants.AddressZero,
+                TransferPolicy.Transferable,
+            )
+        ).data!;
+        const receipt = await (await guildFactory.connect(alice).createGuild(initData)).wait();
+        const [ , guildAddress ] = receipt?.events?.find(e => e.event === 'NewGuild')?.args!;
+        const sunsetGuild = new ethers.Contract(guildAddress, GuildAppABI.abi, alice) as GuildApp;
+
+        await dai.connect(admin).mint(memberA.address, SUBSCRIPTION_PRICE);
+        await dai.connect(memberA).approve(sunsetGuild.address, SUBSCRIPTION_PRICE);
+        await sunsetGuild.connect(memberA).subscribe(memberA.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x");
+        await dai.connect(admin).mint(memberB.address, SUBSCRIPTION_PRICE.mul(2));
+        await dai.connect(memberB).approve(sunsetGuild.address, SUBSCRIPTION_PRICE.mul(2));
+        await sunsetGuild.connect(memberB).subscribeForPeriods(memberB.address, 0, dai.address, '', 2, SUBSCRIPTION_PRICE.mul(2), "0x");
+        // creator already withdrew part of the funds
+        await sunsetGuild.withdraw(dai.address, SUBSCRIPTION_PRICE, alice.address);
+        const balance = await sunsetGuild.guildBalance(dai.address);
+
+        await expect(sunsetGuild.connect(memberA).closeGuild())
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(sunsetGuild.closeGuild()).to.emit(sunsetGuild, 'GuildClosed');
+        await expect(sunsetGuild.closeGuild()).to.be.revertedWith("GuildApp: Guild is closed");
+        await expect(sunsetGuild.pauseGuild(false)).to.be.revertedWith("GuildApp: Guild is closed");
+        await expect(sunsetGuild.connect(memberA).subscribe(memberA.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.be.revertedWith("GuildApp: The Guild is disabled");
+        // remaining balance is reserved for refunds
+        expect(await sunsetGuild.guildBalance(dai.address)).to.equal(0);
+        await expect(sunsetGuild.withdraw(dai.address, 1, alice.address))
+            .to.be.revertedWith("GuildApp: Not enough balance to withdraw");
+
+        const tokenA = await sunsetGuild.getSubscriptionIdFor(memberA.address);
+        const tokenB = await sunsetGuild.getSubscriptionIdFor(memberB.address);
+        // refunds are processed in batches by anyone before they can be claimed
+        await expect(sunsetGuild.claimClosingRefund(tokenA)).to.be.revertedWith("GuildApp: Nothing to refund");
+        await expect(sunsetGuild.connect(memberA).unsubscribe(tokenA))
+            .to.be.revertedWith("GuildApp: Closing refund has not been claimed");
+        await expect(sunsetGuild.connect(memberB).processClosingRefunds(1))
+            .to.emit(sunsetGuild, 'ClosingRefundsProcessed')
+            .withArgs(tokenA, tokenB);
+        expect(await sunsetGuild.closingRefund(tokenA)).to.equal(0);
+        await expect(sunsetGuild.connect(memberB).processClosingRefunds(10))
+            .to.emit(sunsetGuild, 'ClosingRefundsProcessed')
+            .withArgs(tokenB, tokenB);
+        await expect(sunsetGuild.processClosingRefunds(1))
+            .to.be.revertedWith("GuildApp: No closing refunds to process");
+        expect(await sunsetGuild.guildBalance(dai.address)).to.equal(0);
+        const refundA = await sunsetGuild.closingRefund(tokenA);
+        const refundB = await sunsetGuild.closingRefund(tokenB);
+        expect(refundA).to.be.gt(0);
+        expect(refundB).to.be.gt(refundA);
+        expect(refundA.add(refundB)).to.be.lte(balance);
+        expect(refundA.add(refundB)).to.be.gte(balance.sub(2));
+
+        await expect(sunsetGuild.connect(memberA).unsubscribe(tokenA))
+            .to.be.revertedWith("GuildApp: Closing refund has not been claimed");
+        await expect(sunsetGuild.connect(memberB).claimClosingRefund(tokenA))
+            .to.emit(sunsetGuild, 'Refunded')
+            .withArgs(tokenA, memberA.address, dai.address, refundA);
+        expect(await dai.balanceOf(memberA.address)).to.equal(refundA);
+        expect(await sunsetGuild.closingRefund(tokenA)).to.equal(0);
+        await expect(sunsetGuild.claimClosingRefund(tokenA)).to.be.revertedWith("GuildApp: Nothing to refund");
+        await expect(sunsetGuild.connect(memberA).unsubscribe(tokenA))
+            .to.emit(sunsetGuild, 'Unsubscribed')
+            .and.not.to.emit(sunsetGuild, 'Refunded');
+        await sunsetGuild.claimClosingRefund(tokenB);
+        expect(await dai.balanceOf(memberB.address)).to.equal(refundB);
+    });
+
+    it("Guild: Should charge the factory protocol fee on subscription payments", async () => {
+        expect(await guildA.factory()).to.equal(guildFactory.address);
+        await expect(guildFactory.connect(alice).setProtocolFee(degen.address, 100))
+            .to.be.revertedWith("GuildFactory: caller is not the owner");
+        await expect(guildFactory.setProtocolFee(degen.address, 1001))
+            .to.be.revertedWith("GuildFactory: Fee exceeds the max protocol fee");
+        await expect(guildFactory.setProtocolFee(degen.address, 250))
+            .to.emit(guildFactory, 'ProtocolFeeUpdated')
+            .withArgs(degen.address, 250);
+
+        const { tokenId, expirationTimestamp } = await guildA.subscriptionByOwner(bob.address);
+        const fee = SUBSCRIPTION_PRICE.mul(250).div(10000);
+        const balanceBefore = await guildA.guildBalance(dai.address);
+        const feeRecipientBefore = await dai.balanceOf(degen.address);
+        await dai.connect(bob).approve(guildA.address, SUBSCRIPTION_PRICE);
+        await expect(guildA.connect(bob).renew(tokenId, 1))
+            .to.emit(guildA, 'RenewSubscription')
+            .withArgs(bob.address, tokenId, 0, dai.address, SUBSCRIPTION_PRICE, fee, expirationTimestamp.add(SUBSCRIPTION_PERIOD_DEFAULT), "0x");
+        expect(await guildA.guildBalance(dai.address)).to.equal(balanceBefore.add(SUBSCRIPTION_PRICE).sub(fee));
+        expect(await dai.balanceOf(degen.address)).to.equal(feeRecipientBefore.add(fee));
+
+        await guildFactory.setProtocolFee(ethers.constants.AddressZero, 0);
     });
 
     it("Guild: Should be able to update subscription price & asset to ETH", async () => {
@@ -293,17 +1469,73 @@ describe("GuildApp", () => {
         );
         const approvedTokens = await guildA.approvedTokens();
         expect(approvedTokens).to.have.members([dai.address, ethers.constants.AddressZero]);
+        expect(await guildA.acceptedTokens()).to.have.members([dai.address, ethers.constants.AddressZero]);
         expect(await guildA.tokenAddress()).to.equal(ethers.constants.AddressZero);
         expect((await guildA.subPrice()).toString()).to.equal(SUBSCRIPTION_PRICE_ETH);
-
+        // fDAI prices remain untouched
+        expect(await guildA.getTierPrice(0, dai.address)).to.equal(SUBSCRIPTION_PRICE);
     });
 
-    it("Guild: Should not allow a new subscription with fDAI", async () => {
+    it("Guild: Should not allow a new ETH subscription without sending msg.value", async () => {
         const tokenURI = '';
-        const tx = guildA.connect(carl).subscribe(carl.address, tokenURI, SUBSCRIPTION_PRICE, "0x");
+        const tx = guildA.connect(carl).subscribe(carl.address, 0, ethers.constants.AddressZero, tokenURI, SUBSCRIPTION_PRICE_ETH, "0x");
         await expect(tx).to.be.revertedWith("GuildApp: incorrect msg.value");
     });
 
+    it("Guild: Should not allow to subscribe to a tier without a price in the selected token", async () => {
+        expect(await guildA.getTierPrice(1, ethers.constants.AddressZero)).to.equal(ethers.BigNumber.from(0));
+        const tx = guildA.connect(carl).subscribe(carl.address, 1, ethers.constants.AddressZero, '', SUBSCRIPTION_PRICE_ETH, "0x", {
+            value: SUBSCRIPTION_PRICE_ETH,
+        });
+        await expect(tx).to.be.revertedWith("GuildApp: Tier is not available for token");
+    });
+
+    it("Guild: Should allow to set a tier price for an accepted token", async () => {
+        const price = SUBSCRIPTION_PRICE_ETH.mul(2);
+        await expect(guildA.connect(bob).setTokenPrice(1, ethers.constants.AddressZero, price))
+            .to.be.revertedWith("GuildApp: Sender doesn't have a Price Manager role");
+
+        await expect(guildA.connect(alice).setTokenPrice(1, ethers.constants.AddressZero, price))
+            .to.emit(guildA, 'TokenPriceUpdated')
+            .withArgs(1, ethers.constants.AddressZero, price);
+        expect(await guildA.getTierPrice(1, ethers.constants.AddressZero)).to.equal(price);
+        expect((await guildA.getTier(1)).price).to.equal(price);
+
+        await expect(guildA.connect(alice).setTokenPrice(1, carl.address, price))
+            .to.be.revertedWith("GuildApp: Token is not accepted");
+    });
+
+    it("Guild: Should allow to remove & add back payment tokens", async () => {
+        await expect(guildA.connect(alice).removePaymentToken(ethers.constants.AddressZero))
+            .to.be.revertedWith("GuildApp: Cannot remove the default token");
+
+        await expect(guildA.connect(alice).removePaymentToken(dai.address))
+            .to.emit(guildA, 'PaymentTokenRemoved')
+            .withArgs(dai.address);
+        expect(await guildA.acceptedTokens()).to.have.members([ethers.constants.AddressZero]);
+        // Balances can still be withdrawn
+        expect(await guildA.approvedTokens()).to.have.members([dai.address, ethers.constants.AddressZero]);
+
+        await dai.connect(alice).approve(guildA.address, SUBSCRIPTION_PRICE);
+        await expect(guildA.connect(alice).subscribe(alice.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.be.revertedWith("GuildApp: Token is not accepted");
+
+        await expect(guildA.connect(alice).addPaymentToken(dai.address, [SUBSCRIPTION_PRICE]))
+            .to.be.revertedWith("GuildApp: A price for each tier is required");
+
+        await expect(guildA.connect(alice).addPaymentToken(dai.address, [SUBSCRIPTION_PRICE, SUBSCRIPTION_PRICE.mul(2)]))
+            .to.emit(guildA, 'PaymentTokenAdded')
+            .withArgs(dai.address);
+        expect(await guildA.acceptedTokens()).to.have.members([dai.address, ethers.constants.AddressZero]);
+    });
+
+    it("EOA Accounts: Should keep accepting subscriptions on other tokens after changing the default asset", async () => {
+        const balanceBefore = await guildA.guildBalance(dai.address);
+        await testUtils.newSubscription(guildA, regen, '', SUBSCRIPTION_PRICE, dai);
+        const balanceAfter = await guildA.guildBalance(dai.address);
+        expect(balanceBefore.add(SUBSCRIPTION_PRICE)).to.equal(balanceAfter);
+    });
+
     it("EOA Accounts: Should allow new subscriptions using ETH", async () => {
         const balanceBefore = await guildA.guildBalance(ethers.constants.AddressZero);
         const lastTokenId = +(await guildA.totalSupply()).toString() + burnedSubs;
@@ -316,13 +1548,185 @@ describe("GuildApp", () => {
         const subscription = await guildA.subscriptionByOwner(carl.address);
         expect(+subscription.tokenId.toString()).to.equal(+lastTokenId.toString() + 1);
 
-        expect(await guildA.tokenURI(tokenId)).to.equal(`${NFT_BASE_URI}${tokenURI}#${tokenId}`);
+        expect(testUtils.decodeTokenURI(await guildA.tokenURI(tokenId)).name).to.equal(`Alice Guild #${tokenId}`);
 
         const balanceAfter = await guildA.guildBalance(ethers.constants.AddressZero);
 
         expect(balanceBefore.add(SUBSCRIPTION_PRICE_ETH)).to.equal(balanceAfter);
     });
 
+    it("EOA accounts: Should allow to send one-time tips in any approved token", async () => {
+        const tipValue = ethers.utils.parseEther("1");
+        const totalSupply = await guildA.totalSupply();
+        const daiBalanceBefore = await guildA.guildBalance(dai.address);
+        await dai.connect(carl).approve(guildA.address, tipValue);
+        await expect(guildA.connect(carl).tip(guildFactory.address, tipValue, ""))
+            .to.be.revertedWith("GuildApp: Token has not been approved");
+        await expect(guildA.connect(carl).tip(dai.address, 0, ""))
+            .to.be.revertedWith("GuildApp: Tip amount must be greater than 0");
+        await expect(guildA.connect(carl).tip(dai.address, tipValue, "", { value: tipValue }))
+            .to.be.revertedWith("GuildApp: incorrect msg.value");
+        await expect(guildA.connect(carl).tip(dai.address, tipValue, "tipMessageCID"))
+            .to.emit(guildA, 'Tipped')
+            .withArgs(carl.address, dai.address, tipValue, 0, "tipMessageCID");
+        expect(await guildA.guildBalance(dai.address)).to.equal(daiBalanceBefore.add(tipValue));
+
+        const ethBalanceBefore = await guildA.guildBalance(ethers.constants.AddressZero);
+        await expect(guildA.connect(diana).tip(ethers.constants.AddressZero, SUBSCRIPTION_PRICE_ETH, ""))
+            .to.be.revertedWith("GuildApp: incorrect msg.value");
+        await expect(guildA.connect(diana).tip(ethers.constants.AddressZero, SUBSCRIPTION_PRICE_ETH, "", { value: SUBSCRIPTION_PRICE_ETH }))
+            .to.emit(guildA, 'Tipped')
+            .withArgs(diana.address, ethers.constants.AddressZero, SUBSCRIPTION_PRICE_ETH, 0, "");
+        expect(await guildA.guildBalance(ethers.constants.AddressZero)).to.equal(ethBalanceBefore.add(SUBSCRIPTION_PRICE_ETH));
+        // tips do not mint subscriptions
+        expect(await guildA.totalSupply()).to.equal(totalSupply);
+    });
+
+    it("Guild: Should allow to set a grace period", async () => {
+        await expect(guildA.connect(bob).setGracePeriod(3600 * 24 * 3))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+
+        await expect(guildA.connect(alice).setGracePeriod(3600 * 24 * 3))
+            .to.emit(guildA, 'GracePeriodUpdated')
+            .withArgs(3600 * 24 * 3);
+        expect(await guildA.gracePeriod()).to.equal(ethers.BigNumber.from(3600 * 24 * 3));
+    });
+
+    it("Guild: Should keep lapsed subscriptions active during the grace period", async () => {
+        const expiry = await guildA.getSubscriptionExpiryFor(diana.address);
+        expect(await guildA.subscriptionStatus(diana.address)).to.equal(SubscriptionStatus.Active);
+        expect(await guildA.subscriptionStatus(admin.address)).to.equal(SubscriptionStatus.Expired);
+
+        await testUtils.increaseTimeTo(+expiry + 3600 * 24);
+        expect(await guildA.subscriptionStatus(diana.address)).to.equal(SubscriptionStatus.InGrace);
+        expect(await guildA.hasActiveSubscription(diana.address)).to.equal(true);
+        // prepaid subscriptions are still active
+        expect(await guildA.subscriptionStatus(alice.address)).to.equal(SubscriptionStatus.Active);
+
+        await testUtils.increaseTimeTo(+expiry + 3600 * 24 * 3);
+        expect(await guildA.subscriptionStatus(diana.address)).to.equal(SubscriptionStatus.Expired);
+        expect(await guildA.hasActiveSubscription(diana.address)).to.equal(false);
+    });
+
+    it("Guild: Should allow to set a refund policy", async () => {
+        await expect(guildA.connect(bob).setRefundPolicy(RefundPolicy.Prorated, 0))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(guildA.connect(alice).setRefundPolicy(RefundPolicy.FullWithinWindow, 0))
+            .to.be.revertedWith("GuildApp: Invalid refund window");
+
+        await expect(guildA.connect(alice).setRefundPolicy(RefundPolicy.Prorated, 0))
+            .to.emit(guildA, 'RefundPolicyUpdated')
+            .withArgs(RefundPolicy.Prorated, 0);
+        expect(await guildA.refundPolicy()).to.equal(RefundPolicy.Prorated);
+    });
+
+    it("Guild: Should refund the unused portion of a subscription on cancel", async () => {
+        const { tokenId, expirationTimestamp } = await testUtils.newSubscription(guildA, admin, '', SUBSCRIPTION_PRICE_ETH);
+        const paidFrom = +expirationTimestamp - SUBSCRIPTION_PERIOD_DEFAULT;
+        const cancelledAt = paidFrom + SUBSCRIPTION_PERIOD_DEFAULT / 4;
+        const refund = SUBSCRIPTION_PRICE_ETH.mul(+expirationTimestamp - cancelledAt).div(SUBSCRIPTION_PERIOD_DEFAULT);
+
+        await testUtils.increaseTimeTo(cancelledAt - 1);
+        expect(await guildA.refundableAmount(tokenId)).to.equal(
+            SUBSCRIPTION_PRICE_ETH.mul(+expirationTimestamp - cancelledAt + 1).div(SUBSCRIPTION_PERIOD_DEFAULT)
+        );
+
+        const balanceBefore = await guildA.guildBalance(ethers.constants.AddressZero);
+        await ethers.provider.send("evm_setNextBlockTimestamp", [cancelledAt]);
+        await expect(guildA.connect(admin).unsubscribe(tokenId))
+            .to.emit(guildA, 'Refunded')
+            .withArgs(tokenId, admin.address, ethers.constants.AddressZero, refund);
+        burnedSubs++;
+        expect(await guildA.guildBalance(ethers.constants.AddressZero)).to.equal(balanceBefore.sub(refund));
+    });
+
+    it("Guild: Should fully refund a subscription cancelled within the refund window", async () => {
+        await guildA.connect(alice).setRefundPolicy(RefundPolicy.FullWithinWindow, 3600 * 24);
+
+        const { tokenId } = await testUtils.newSubscription(guildA, admin, '', SUBSCRIPTION_PRICE_ETH);
+        await expect(guildA.connect(admin).unsubscribe(tokenId))
+            .to.emit(guildA, 'Refunded')
+            .withArgs(tokenId, admin.address, ethers.constants.AddressZero, SUBSCRIPTION_PRICE_ETH);
+        burnedSubs++;
+
+        const { tokenId: newTokenId, expirationTimestamp } = await testUtils.newSubscription(guildA, admin, '', SUBSCRIPTION_PRICE_ETH);
+        await testUtils.increaseTimeTo(+expirationTimestamp - SUBSCRIPTION_PERIOD_DEFAULT + 3600 * 24 + 1);
+        expect(await guildA.refundableAmount(newTokenId)).to.equal(ethers.BigNumber.from(0));
+        await expect(guildA.connect(admin).unsubscribe(newTokenId))
+            .to.not.emit(guildA, 'Refunded');
+        burnedSubs++;
+    });
+
+    it("Guild: Should let members cancel after guild funds were withdrawn", async () => {
+        const snapshot = await ethers.provider.send("evm_snapshot", []);
+        const { tokenId } = await testUtils.newSubscription(guildA, admin, '', SUBSCRIPTION_PRICE_ETH);
+        expect(await guildA.refundableAmount(tokenId)).to.equal(SUBSCRIPTION_PRICE_ETH);
+        const left = SUBSCRIPTION_PRICE_ETH.div(4);
+        const balance = await guildA.guildBalance(ethers.constants.AddressZero);
+        await guildA.connect(alice).withdraw(ethers.constants.AddressZero, balance.sub(left), alice.address);
+
+        // refunds are capped by the guild balance left
+        expect(await guildA.refundableAmount(tokenId)).to.equal(left);
+        await expect(guildA.connect(admin).unsubscribe(tokenId))
+            .to.emit(guildA, 'Refunded')
+            .withArgs(tokenId, admin.address, ethers.constants.AddressZero, left);
+        expect(await guildA.guildBalance(ethers.constants.AddressZero)).to.equal(0);
+        await ethers.provider.send("evm_revert", [snapshot]);
+    });
+
+    it("Guild: Should allow to set the guild revenue split", async () => {
+        await expect(guildA.connect(bob).setPayees([carl.address, diana.address], [1, 3]))
+            .to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(guildA.connect(alice).setPayees([carl.address, diana.address], [1]))
+            .to.be.revertedWith("GuildApp: Payees and shares length mismatch");
+        await expect(guildA.connect(alice).setPayees([carl.address, carl.address], [1, 3]))
+            .to.be.revertedWith("GuildApp: Duplicated payee");
+        await expect(guildA.connect(alice).setPayees([carl.address, diana.address], [1, 0]))
+            .to.be.revertedWith("GuildApp: Shares must be greater than zero");
+
+        await expect(guildA.connect(alice).setPayees([carl.address, diana.address], [1, 3]))
+            .to.emit(guildA, 'PayeesUpdated')
+            .withArgs([carl.address, diana.address], [1, 3]);
+        expect(await guildA.payees()).to.deep.equal([carl.address, diana.address]);
+        expect(await guildA.totalShares()).to.equal(ethers.BigNumber.from(4));
+        expect(await guildA.shares(diana.address)).to.equal(ethers.BigNumber.from(3));
+    });
+
+    it("Guild: Should distribute guild balance among payees to be claimed", async () => {
+        await expect(guildA.connect(bob).distribute(dai.address))
+            .to.be.revertedWith("GuildApp: Sender doesn't have a Treasurer role");
+
+        const balance = await guildA.guildBalance(dai.address);
+        const carlShare = balance.div(4);
+        const dianaShare = balance.mul(3).div(4);
+        await expect(guildA.connect(alice).distribute(dai.address))
+            .to.emit(guildA, 'Distributed')
+            .withArgs(dai.address, carlShare.add(dianaShare));
+        expect(await guildA.claimable(dai.address, carl.address)).to.equal(carlShare);
+        expect(await guildA.claimable(dai.address, diana.address)).to.equal(dianaShare);
+        // distributed funds cannot be withdrawn
+        expect(await guildA.guildBalance(dai.address)).to.equal(balance.sub(carlShare).sub(dianaShare));
+        await expect(guildA.connect(alice).withdraw(dai.address, balance, alice.address))
+            .to.be.revertedWith("GuildApp: Not enough balance to withdraw");
+
+        // anyone can claim on behalf of a payee
+        const dianaBalance = await dai.balanceOf(diana.address);
+        await expect(guildA.connect(bob).claim(dai.address, diana.address))
+            .to.emit(guildA, 'Claimed')
+            .withArgs(dai.address, diana.address, dianaShare);
+        expect(await dai.balanceOf(diana.address)).to.equal(dianaBalance.add(dianaShare));
+        await expect(guildA.connect(diana).claim(dai.address, diana.address))
+            .to.be.revertedWith("GuildApp: Nothing to claim");
+
+        await guildA.connect(carl).claim(dai.address, carl.address);
+        expect(await guildA.guildBalance(dai.address)).to.equal(await dai.balanceOf(guildA.address));
+
+        // new revenue accrues to the guild balance until the next distribution
+        await dai.connect(regen).approve(guildA.address, SUBSCRIPTION_PRICE);
+        await guildA.connect(regen).subscribe(regen.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x");
+        expect(await guildA.guildBalance(dai.address)).to.equal(balance.sub(carlShare).sub(dianaShare).add(SUBSCRIPTION_PRICE));
+    });
+
     it("Guild: Should be able to withdraw any guild balance", async () => {
         const approvedTokens = await guildA.approvedTokens();
         for(let i = 0; i < approvedTokens.length; i++) {
@@ -363,7 +1767,7 @@ describe("GuildApp", () => {
     // GuildApp: Failed to send Ether
 
     it("Guild: Should not be able to pause the guild by non admin", async () => {
-        await expect(guildA.connect(bob).pauseGuild(true)).to.be.revertedWith("GuildApp: Sender doesn't have an Admin role");
+        await expect(guildA.connect(bob).pauseGuild(true)).to.be.revertedWith("GuildApp: Sender doesn't have a Pauser role");
     });
 
     it("Guild: Should be able to pause the guild", async () => {
@@ -387,7 +1791,10 @@ describe("GuildApp", () => {
             .to.be.revertedWith("GuildApp: The Guild is disabled");        
         
         await dai.connect(diana).approve(guildA.address, SUBSCRIPTION_PRICE);
-        await expect(guildA.connect(diana).subscribe(diana.address, '', SUBSCRIPTION_PRICE, "0x"))
+        await expect(guildA.connect(diana).subscribe(diana.address, 0, dai.address, '', SUBSCRIPTION_PRICE, "0x"))
+            .to.be.revertedWith("GuildApp: The Guild is disabled");
+
+        await expect(guildA.connect(diana).tip(dai.address, SUBSCRIPTION_PRICE, ""))
             .to.be.revertedWith("GuildApp: The Guild is disabled");
     });
 });
@@ -5,30 +5,228 @@ import { SignerWithAddress } from '@nomiclabs/hardhat-ethers/signers';
 
 import { GuildApp } from "../src/types/GuildApp";
 import { Erc20Upgradeable } from "../src/types/Erc20Upgradeable";
+import { GnosisSafe } from "../src/types/GnosisSafe";
 
-const SUBSCRIPTION_PERIOD_DEFAULT = 3600 * 24 * 30;
-
-export const newSubscription = async (guild: GuildApp, _subscriber: SignerWithAddress, tokenURI: string, _value: BigNumber, token?: Erc20Upgradeable) => {
+export const newSubscription = async (guild: GuildApp,
+                                      _subscriber: SignerWithAddress,
+                                      tokenURI: string,
+                                      _value: BigNumber,
+                                      token?: Erc20Upgradeable,
+                                      _tierId: number = 0,
+                                      _periods: number = 1) => {
     if (token) {
         await token.connect(_subscriber).approve(guild.address, _value);
     }
-    const rs = await guild.connect(_subscriber).subscribe(_subscriber.address, tokenURI, _value, "0x", {
-        value: token ? "0": _value
-    });
+    const tokenAddress = token ? token.address : ethers.constants.AddressZero;
+    const overrides = { value: token ? "0": _value };
+    const rs = _periods > 1
+        ? await guild.connect(_subscriber)
+            .subscribeForPeriods(_subscriber.address, _tierId, tokenAddress, tokenURI, _periods, _value, "0x", overrides)
+        : await guild.connect(_subscriber)
+            .subscribe(_subscriber.address, _tierId, tokenAddress, tokenURI, _value, "0x", overrides);
     const receipt = await rs.wait();
     const block = await ethers.provider.getBlock(receipt.blockNumber);
+    const tier = await guild.getTier(_tierId);
 
-    const [ subscriber, tokenId, value, expirationTimestamp ] = receipt?.events?.find(e => e.event === 'NewSubscription')?.args!;
+    const [ subscriber, tokenId, tierId, paymentToken, value, fee, expirationTimestamp ] = receipt?.events?.find(e => e.event === 'NewSubscription')?.args!;
     expect(subscriber).to.equal(_subscriber.address);
+    expect(+tierId).to.equal(_tierId);
+    expect(paymentToken).to.equal(tokenAddress);
     expect(value.toString()).to.equal(_value.toString());
-    expect(+expirationTimestamp).to.equal(block.timestamp + SUBSCRIPTION_PERIOD_DEFAULT);
+    expect(+fee).to.be.lessThanOrEqual(+value);
+    expect(+expirationTimestamp).to.equal(block.timestamp + +tier.period * _periods);
 
     return {
         tokenId,
         expirationTimestamp,
+        fee,
+    };
+};
+
+export type Voucher = {
+    tierId: number;
+    discountBps: number;
+    tokenAddress: string;
+    fixedPrice: BigNumber;
+    maxUses: number;
+    expiry: number;
+    recipient: string;
+    salt: string;
+};
+
+export const signVoucher = async (guild: GuildApp, signer: SignerWithAddress, voucher: Voucher) => {
+    const domain = {
+        name: "GuildApp",
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: guild.address,
+    };
+    const types = {
+        Voucher: [
+            { name: "tierId", type: "uint256" },
+            { name: "discountBps", type: "uint256" },
+            { name: "tokenAddress", type: "address" },
+            { name: "fixedPrice", type: "uint256" },
+            { name: "maxUses", type: "uint256" },
+            { name: "expiry", type: "uint256" },
+            { name: "recipient", type: "address" },
+            { name: "salt", type: "bytes32" },
+        ],
+    };
+    return {
+        signature: await signer._signTypedData(domain, types, voucher),
+        digest: ethers.utils._TypedDataEncoder.hash(domain, types, voucher),
     };
 };
 
+export const signPermit = async (token: Erc20Upgradeable,
+                                 owner: SignerWithAddress,
+                                 spender: string,
+                                 value: BigNumber,
+                                 deadline: number,
+                                 daiStyle: boolean = false) => {
+    const nonce = await (new ethers.Contract(token.address, ["function nonces(address) view returns (uint256)"], owner))
+        .nonces(owner.address);
+    const domain = {
+        name: await token.name(),
+        version: "1",
+        chainId: (await ethers.provider.getNetwork()).chainId,
+        verifyingContract: token.address,
+    };
+    const signature = daiStyle
+        ? await owner._signTypedData(domain, {
+            Permit: [
+                { name: "holder", type: "address" },
+                { name: "spender", type: "address" },
+                { name: "nonce", type: "uint256" },
+                { name: "expiry", type: "uint256" },
+                { name: "allowed", type: "bool" },
+            ],
+        }, { holder: owner.address, spender, nonce, expiry: deadline, allowed: true })
+        : await owner._signTypedData(domain, {
+            Permit: [
+                { name: "owner", type: "address" },
+                { name: "spender", type: "address" },
+                { name: "value", type: "uint256" },
+                { name: "nonce", type: "uint256" },
+                { name: "deadline", type: "uint256" },
+            ],
+        }, { owner: owner.address, spender, value, nonce, deadline });
+    const { v, r, s } = ethers.utils.splitSignature(signature);
+    return { daiStyle, nonce, deadline, v, r, s };
+};
+
+// Safe owners sign with eth_sign. The Safe expects signatures sorted by owner & v shifted by 4
+export const signSafeHash = async (owners: SignerWithAddress[], hash: string) => {
+    const sorted = [...owners].sort((a, b) => a.address.toLowerCase() < b.address.toLowerCase() ? -1 : 1);
+    const signatures = await Promise.all(sorted.map(async (owner) => {
+        const { r, s, v } = ethers.utils.splitSignature(await owner.signMessage(ethers.utils.arrayify(hash)));
+        return ethers.utils.concat([r, s, [v + 4]]);
+    }));
+    return ethers.utils.hexlify(ethers.utils.concat(signatures));
+};
+
+export const deploySafe = async (owners: SignerWithAddress[], threshold: number) => {
+    const GnosisSafeContract = await ethers.getContractFactory("GnosisSafe");
+    const singleton = await GnosisSafeContract.deploy();
+    const GnosisSafeProxyContract = await ethers.getContractFactory("GnosisSafeProxy");
+    const proxy = await GnosisSafeProxyContract.deploy(singleton.address);
+    const CompatibilityFallbackHandlerContract = await ethers.getContractFactory("CompatibilityFallbackHandler");
+    const handler = await CompatibilityFallbackHandlerContract.deploy();
+    const safe = GnosisSafeContract.attach(proxy.address) as GnosisSafe;
+    await safe.setup(
+        owners.map(o => o.address),
+        threshold,
+        ethers.constants.AddressZero,
+        "0x",
+        handler.address,
+        ethers.constants.AddressZero,
+        0,
+        ethers.constants.AddressZero,
+    );
+    return safe;
+};
+
+// Safe v1.2.0 as deployed by the Contract Proxy Kit, which only implements the legacy EIP-1271 isValidSignature(bytes,bytes)
+export const deployLegacySafe = async (owners: SignerWithAddress[], threshold: number) => {
+    const LegacySafeMockContract = await ethers.getContractFactory("LegacySafeMock");
+    return LegacySafeMockContract.deploy(owners.map(o => o.address), threshold);
+};
+
+export const execSafeTx = async (safe: GnosisSafe, owners: SignerWithAddress[], to: string, data: string) => {
+    const args = [to, 0, data, 0, 0, 0, 0, ethers.constants.AddressZero, ethers.constants.AddressZero] as const;
+    const hash = await safe.getTransactionHash(...args, await safe.nonce());
+    return safe.connect(owners[0]).execTransaction(...args, await signSafeHash(owners, hash));
+};
+
+// digest a Safe signs to subscribe through `entryPoint`. Only subscribeWithReferrer is called with a referrer
+export const safeSubscriptionHash = async (
+    guild: GuildApp,
+    safe: string,
+    entryPoint: string,
+    tierId: number,
+    tokenAddress: string,
+    periods: number,
+    value: BigNumber,
+    referrer = ethers.constants.AddressZero,
+) => guild.safeSubscriptionHash(safe, {
+    entryPoint: guild.interface.getSighash(entryPoint),
+    tierId,
+    tokenAddress,
+    periods,
+    value,
+    referrer,
+});
+
+// EIP-1271 signature of a guild digest. Safes wrap the digest in a SafeMessage before owners sign it
+export const signSafeSubscription = async (safe: { address: string }, owners: SignerWithAddress[], digest: string) => {
+    const handler = new ethers.Contract(safe.address, ["function getMessageHash(bytes) view returns (bytes32)"], owners[0]);
+    return signSafeHash(owners, await handler.getMessageHash(digest));
+};
+
+export const encodeRevertReason = (reason: string) =>
+    ethers.utils.id("Error(string)").slice(0, 10) + ethers.utils.defaultAbiCoder.encode(["string"], [reason]).slice(2);
+
+const allowlistLeaf = (account: string) => ethers.utils.solidityKeccak256(["address"], [account]);
+
+// merkle tree with sorted pairs as verified by MerkleProofUpgradeable. Odd nodes are promoted to the next layer
+export const buildAllowlist = (accounts: string[]) => {
+    const layers = [accounts.map(allowlistLeaf)];
+    while (layers[layers.length - 1].length > 1) {
+        const layer = layers[layers.length - 1];
+        const next = [];
+        for (let i = 0; i < layer.length; i += 2) {
+            next.push(i + 1 < layer.length
+                ? ethers.utils.keccak256(ethers.utils.concat([layer[i], layer[i + 1]].sort()))
+                : layer[i]);
+        }
+        layers.push(next);
+    }
+    const getProof = (account: string) => {
+        let index = layers[0].indexOf(allowlistLeaf(account));
+        const proof: string[] = [];
+        layers.slice(0, -1).forEach((layer) => {
+            if ((index ^ 1) < layer.length) {
+                proof.push(layer[index ^ 1]);
+            }
+            index >>= 1;
+        });
+        return proof;
+    };
+    return { root: layers[layers.length - 1][0], getProof };
+};
+
+export const decodeTokenURI = (tokenURI: string) => {
+    const [ prefix, data ] = tokenURI.split(",");
+    expect(prefix).to.equal("data:application/json;base64");
+    return JSON.parse(Buffer.from(data, "base64").toString());
+};
+
+export const increaseTimeTo = async (timestamp: number) => {
+    await ethers.provider.send("evm_setNextBlockTimestamp", [timestamp]);
+    await ethers.provider.send("evm_mine", []);
+};
+
 export const verifyNewOwnership = async (guildContract: GuildApp, fromAddress: string, toAddress: string, subscription: {
     subId: any,
     expirationTimestamp: any,
@@ -78,7 +78,7 @@ const fetchContributors = async (
 ): Promise<Array<Contributor>> => {
   const fetchContributors = graphqlRequest.gql`
 	    query getContributors($lastID: String, $date: String, $guild: String) {
-				guildSubscriptions(first: ${BATCH_SIZE}, where: { id_gt: $lastID, expires_gte: $date, guild: $guild, active: true }) {
+				guildSubscriptions(first: ${BATCH_SIZE}, where: { id_gt: $lastID, expires_gte: $date, guild: $guild, active: true, frozenAt: null }) {
 					id,
           owner
 					paymentHistory {
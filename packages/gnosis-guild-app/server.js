@@ -1,9 +1,11 @@
 const { NFTStorage, Blob } = require("nft.storage");
+const axios = require("axios");
 const express = require("express");
 const multer = require("multer");
 const cors = require("cors");
 const path = require("path");
 const fs = require("fs");
+const { ethers } = require("ethers");
 
 const ed255199 = require("key-did-provider-ed25519");
 const dids = require("dids");
@@ -16,6 +18,7 @@ const streamTile = require("@ceramicnetwork/stream-tile");
 require("dotenv").config();
 
 const PORT = process.env.SERVER_PORT || 4000;
+const IPFS_GATEWAY = "https://dweb.link/ipfs";
 
 const app = express();
 
@@ -30,6 +33,59 @@ const exampleGuild = {
   contributions: "ETH",
 };
 
+// Same EIP-712 types verified by GuildApp.subscribeWithVoucher
+const VOUCHER_TYPES = {
+  Voucher: [
+    { name: "tierId", type: "uint256" },
+    { name: "discountBps", type: "uint256" },
+    { name: "tokenAddress", type: "address" },
+    { name: "fixedPrice", type: "uint256" },
+    { name: "maxUses", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "recipient", type: "address" },
+    { name: "salt", type: "bytes32" },
+  ],
+};
+
+// Same leaves & sorted pair hashing verified by GuildApp.subscribeWithProof
+const allowlistLeaf = (account) =>
+  ethers.utils.solidityKeccak256(["address"], [account]);
+
+// Returns every tree layer from the leaves up to the root. Odd nodes are promoted to the next layer
+const buildAllowlistTree = (accounts) => {
+  const layers = [accounts.map(allowlistLeaf)];
+  while (layers[layers.length - 1].length > 1) {
+    const layer = layers[layers.length - 1];
+    const next = [];
+    for (let i = 0; i < layer.length; i += 2) {
+      next.push(
+        i + 1 < layer.length
+          ? ethers.utils.keccak256(
+              ethers.utils.concat([layer[i], layer[i + 1]].sort())
+            )
+          : layer[i]
+      );
+    }
+    layers.push(next);
+  }
+  return layers;
+};
+
+const getAllowlistProof = (layers, account) => {
+  let index = layers[0].indexOf(allowlistLeaf(account));
+  if (index < 0) {
+    return null;
+  }
+  const proof = [];
+  layers.slice(0, -1).forEach((layer) => {
+    if ((index ^ 1) < layer.length) {
+      proof.push(layer[index ^ 1]);
+    }
+    index >>= 1;
+  });
+  return proof;
+};
+
 var storage = multer.memoryStorage();
 var upload = multer({ storage });
 
@@ -142,6 +198,100 @@ app.post("/api/v1/guild", upload.single("image"), async (req, res) => {
   res.send({ metadataCid });
 });
 
+// Stores a voucher signed by a guild admin & returns its promo code.
+// Signer permissions are checked on chain when the voucher is redeemed
+app.post("/api/v1/voucher", async (req, res) => {
+  const { guildAddress, chainId, voucher, signature } = req.body;
+  let signer;
+  try {
+    signer = ethers.utils.verifyTypedData(
+      {
+        name: "GuildApp",
+        version: "1",
+        chainId,
+        verifyingContract: guildAddress,
+      },
+      VOUCHER_TYPES,
+      voucher,
+      signature
+    );
+  } catch (err) {
+    res.status(400).send({ error: "Invalid voucher signature" });
+    return;
+  }
+  const client = getNFTStorageClient();
+  let code;
+  try {
+    code = await client.storeBlob(
+      new Blob([
+        Buffer.from(
+          JSON.stringify({ guildAddress, chainId, voucher, signature })
+        ),
+      ])
+    );
+  } catch (err) {
+    console.error(`Failed: ${err}`);
+    res.status(500).send({ error: "Failed to store voucher" });
+    return;
+  }
+  res.send({ code, signer });
+});
+
+// Builds the allowlist tree of an invite-only guild from an uploaded list of addresses
+// (separated by new lines, commas or spaces) & stores the list so proofs can be served later
+app.post("/api/v1/allowlist", upload.single("addresses"), async (req, res) => {
+  const list = req.file ? req.file.buffer.toString() : req.body.addresses || "";
+  const entries = list.split(/[\s,;]+/).filter((entry) => entry.length > 0);
+  const invalid = entries.filter((entry) => !ethers.utils.isAddress(entry));
+  const addresses = [
+    ...new Set(
+      entries
+        .filter((entry) => ethers.utils.isAddress(entry))
+        .map((entry) => ethers.utils.getAddress(entry))
+    ),
+  ];
+  if (addresses.length === 0) {
+    res.status(400).send({ error: "No valid addresses found", invalid });
+    return;
+  }
+  const layers = buildAllowlistTree(addresses);
+  const client = getNFTStorageClient();
+  const listCID = await client
+    .storeBlob(new Blob([Buffer.from(JSON.stringify({ addresses }))]))
+    .catch((err) => console.error(`Failed: ${err}`));
+  res.send({
+    root: layers[layers.length - 1][0],
+    listCID,
+    total: addresses.length,
+    invalid,
+  });
+});
+
+// Serves the merkle proof of `address` from an allowlist stored by /api/v1/allowlist
+app.get("/api/v1/allowlist/:listCID/proof/:address", async (req, res) => {
+  const { listCID, address } = req.params;
+  if (!ethers.utils.isAddress(address)) {
+    res.status(400).send({ error: "Invalid address" });
+    return;
+  }
+  let addresses;
+  try {
+    const resp = await axios.get(`${IPFS_GATEWAY}/${listCID}`);
+    addresses = resp.data.addresses;
+  } catch (err) {
+    console.error(`Failed to fetch allowlist ${listCID}: ${err}`);
+    res.status(404).send({ error: "Allowlist not found" });
+    return;
+  }
+  const layers = buildAllowlistTree(addresses);
+  const proof = getAllowlistProof(layers, ethers.utils.getAddress(address));
+  if (!proof) {
+    res.status(404).send({ error: "Address is not invited" });
+    return;
+  }
+  res.send({ root: layers[layers.length - 1][0], proof });
+});
+
 app.get("/", (req, res) => {
   const filePath = path.resolve(__dirname, "./build", "index.html");
   fs.readFile(filePath, "utf8", (err, data) => {
@@ -16,6 +16,7 @@ type Props = {
   dropdown?: boolean;
   disabled?: boolean;
   minimum?: string;
+  currencies?: Array<string>;
 };
 
 const CurrencyContainer = styled.div`
@@ -33,6 +34,7 @@ const AmountInput: React.FC<Props> = ({
   dropdown = true,
   disabled = false,
   minimum = 0,
+  currencies,
 }) => {
   const [meta, setMeta] = useState({});
 
@@ -58,7 +60,11 @@ const AmountInput: React.FC<Props> = ({
   let currencyName = ` (${currency})`;
   if (dropdown) {
     currencyIndicator = (
-      <CurrencySelect activeId={currency} setActiveCurrency={setCurrency} />
+      <CurrencySelect
+        activeId={currency}
+        setActiveCurrency={setCurrency}
+        currencies={currencies}
+      />
     );
     currencyName = "";
   }
@@ -1,19 +1,44 @@
 import React from "react";
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import styled from "styled-components";
 
-import { Title } from "@gnosis.pm/safe-react-components";
+import { utils } from "ethers";
+import {
+  Button,
+  Checkbox,
+  CopyToClipboardBtn,
+  Text,
+  TextField,
+  Title,
+} from "@gnosis.pm/safe-react-components";
 
 import AmountInput from "../AmountInput";
 import ContributorNameInput from "../ContributorNameInput";
 import ContributorEmailInput from "../ContributorEmailInput";
+import TierSelect from "../TierSelect";
+import PeriodSelect from "../PeriodSelect";
+import ReferralRewards from "../ReferralRewards";
+import SubscriptionFreeze from "../SubscriptionFreeze";
+import TipForm from "../TipForm";
 
 import { useContribute } from "../../hooks/useContribute";
 import { useContributorProfile } from "../../hooks/useContributorProfile";
+import { useGuild } from "../../hooks/useGuild";
 import { useGuildByParams } from "../../hooks/useGuildByParams";
 import { useSubscriber } from "../../hooks/useSubscriber";
 import { useContributorContext } from "../../context/ContributorContext";
 import { useWeb3Context } from "../../context/Web3Context";
+import { APP_DOMAIN } from "../../constants";
+import { getTokenAddressByCurrency } from "../../lib/networks";
+import { getSubscriptionCost } from "../../lib/pricing";
+import {
+  getRefundPolicyText,
+  getRemainingSeats,
+  getRenewalPrice,
+  getSeatsText,
+  SubscriptionStatus,
+} from "../../lib/subscription";
+import { applyVoucher, getVoucherText } from "../../lib/vouchers";
 
 type Props = {
   setInvalid: (arg0: boolean) => void;
@@ -35,28 +60,163 @@ const FormItem = styled.div`
   width: 100%;
 `;
 
+const Row = styled.div`
+  display: flex;
+  align-items: flex-start;
+  gap: 0.4rem;
+`;
+
 const ContributeForm: React.FC<Props> = ({ setInvalid, clear, children }) => {
-  const { providerChainId, connected } = useWeb3Context();
-  const { setContributor } = useContributorContext();
+  const { providerChainId, connected, ethersProvider } = useWeb3Context();
+  const {
+    setContributor,
+    tierId,
+    setTierId,
+    currency,
+    setCurrency,
+    periods,
+    setPeriods,
+    setGift,
+    voucher,
+    setVoucher,
+  } = useContributorContext();
+  const { fetchVoucher, joinWaitlist } = useGuild();
 
   const { profileName, profileEmail } = useContributorProfile();
 
-  const [activeCurrency, setActiveCurrency] = useState("ETH");
   const [contributorName, setContributorName] = useState("");
   const [contributorEmail, setContributorEmail] = useState("");
   const [invalidForm, setInvalidForm] = useState(false);
   const [disabled, setDisabled] = useState(false);
   const [guildMinimumAmount, setGuildMinimumAmount] = useState("0");
+  const [gifting, setGifting] = useState(false);
+  const [giftRecipient, setGiftRecipient] = useState("");
+  const [giftMessageCID, setGiftMessageCID] = useState("");
+  const [tipping, setTipping] = useState(false);
+  const [promoCode, setPromoCode] = useState("");
+  const [promoCodeMeta, setPromoCodeMeta] = useState({});
+  const [waitlisted, setWaitlisted] = useState(false);
 
   // Form validation fields
   const [invalidName, setInvalidName] = useState(false);
   const [invalidEmail, setInvalidEmail] = useState(false);
   const [invalidAmount, setInvalidAmount] = useState(false);
+  const invalidRecipient = gifting && !utils.isAddress(giftRecipient);
 
-  const { currentMinimumAmount, subscribed, setSubscribed } = useSubscriber();
+  const {
+    currentMinimumAmount,
+    subscribed,
+    status,
+    setSubscribed,
+    subscriber,
+  } = useSubscriber();
   const { contributeLoading } = useContribute();
+  // frozen members can only unfreeze their contribution
+  const frozen = status === SubscriptionStatus.Frozen && !gifting;
   const { guild } = useGuildByParams();
 
+  const tiers = guild.tiers || [];
+  const acceptedCurrencies = guild.acceptedCurrencies || [guild.currency];
+  const acceptedTokens = useMemo(
+    () =>
+      (guild.acceptedCurrencies || [guild.currency]).map((c) =>
+        getTokenAddressByCurrency(providerChainId, c)
+      ),
+    [guild.acceptedCurrencies, guild.currency, providerChainId]
+  );
+  const tierPrices = tiers[tierId]?.prices;
+  const listPrice = tierPrices ? tierPrices[currency] || "0" : guild.amount;
+  // renewals on the same tier & token may be charged at the price locked by the subscription
+  const renewing =
+    subscribed &&
+    !gifting &&
+    +subscriber.tier.tierId === tierId &&
+    subscriber.lockedToken.toLowerCase() ===
+      getTokenAddressByCurrency(providerChainId, currency).toLowerCase();
+  const minimum = renewing
+    ? getRenewalPrice(
+        listPrice,
+        utils.formatEther(subscriber.lockedPrice),
+        subscriber.guild.grandfatheredPricing,
+        status
+      )
+    : listPrice;
+  const discountMinPeriods = guild.discountMinPeriods || 0;
+  const discountBps = guild.discountBps || 0;
+  const activeVoucher = gifting ? null : voucher;
+  const seats = tiers[tierId]
+    ? getRemainingSeats(
+        guild.maxMembers || 0,
+        guild.totalMembers || 0,
+        +tiers[tierId].cap,
+        tiers[tierId].members || 0
+      )
+    : null;
+  // members can still renew on a sold out tier
+  const soldOut = seats === 0 && (!subscribed || gifting);
+  let totalCost = "0";
+  if (!invalidAmount && guildMinimumAmount) {
+    const cost = getSubscriptionCost(
+      guildMinimumAmount,
+      periods,
+      discountMinPeriods,
+      discountBps
+    );
+    totalCost = utils.formatEther(
+      activeVoucher ? applyVoucher(cost, activeVoucher.voucher, periods) : cost
+    );
+  }
+
+  const applyPromoCode = async () => {
+    setPromoCodeMeta({});
+    try {
+      const signedVoucher = await fetchVoucher(promoCode.trim());
+      const { voucher: terms } = signedVoucher;
+      if (
+        signedVoucher.guildAddress.toLowerCase() !==
+          guild.guildAddress.toLowerCase() ||
+        signedVoucher.chainId !== providerChainId
+      ) {
+        throw new Error("Promo code is not valid for this guild");
+      }
+      if (terms.tierId !== tierId) {
+        throw new Error("Promo code is not valid for this tier");
+      }
+      if (terms.expiry < Date.now() / 1000) {
+        throw new Error("Promo code has expired");
+      }
+      if (
+        terms.discountBps === 0 &&
+        terms.tokenAddress.toLowerCase() !==
+          getTokenAddressByCurrency(providerChainId, currency).toLowerCase()
+      ) {
+        throw new Error(`Promo code is not valid for ${currency}`);
+      }
+      setVoucher(signedVoucher);
+      // Vouchers apply to the tier price
+      setGuildMinimumAmount(minimum);
+    } catch (err) {
+      setVoucher(null);
+      setPromoCodeMeta({
+        error: err instanceof Error ? err.message : "Invalid promo code",
+      });
+    }
+  };
+
+  const addToWaitlist = async () => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    try {
+      const tx = await joinWaitlist(ethersProvider, guild.guildAddress, tierId);
+      await tx.wait(1);
+      setWaitlisted(true);
+    } catch (err) {
+      console.error(err);
+    }
+  };
+
   let { name } = guild;
   if (name && !guild.active) {
     name = `${guild.name} (Inactive)`;
@@ -68,6 +228,18 @@ const ContributeForm: React.FC<Props> = ({ setInvalid, clear, children }) => {
     }
   }, [currentMinimumAmount, connected]);
 
+  useEffect(() => {
+    if (guild.currency) {
+      setCurrency(guild.currency);
+    }
+  }, [guild.currency, setCurrency]);
+
+  useEffect(() => {
+    if (connected && subscriber.tier) {
+      setTierId(subscriber.tier.tierId);
+    }
+  }, [subscriber, connected, setTierId]);
+
   useEffect(() => {
     if (connected) {
       setContributorName(profileName);
@@ -79,14 +251,26 @@ const ContributeForm: React.FC<Props> = ({ setInvalid, clear, children }) => {
     setContributor(contributorName, contributorEmail, guildMinimumAmount);
   }, [contributorName, contributorEmail, guildMinimumAmount, setContributor]);
 
+  useEffect(() => {
+    setGift(gifting ? giftRecipient : "", gifting ? giftMessageCID : "");
+  }, [gifting, giftRecipient, giftMessageCID, setGift]);
+
   useEffect(() => {
     if (clear) {
       setContributorName("");
       setContributorEmail("");
       setGuildMinimumAmount("0");
+      setTierId(0);
+      setPeriods(1);
       setSubscribed(false);
+      setGifting(false);
+      setGiftRecipient("");
+      setGiftMessageCID("");
+      setTipping(false);
+      setPromoCode("");
+      setVoucher(null);
     }
-  }, [clear, setSubscribed]);
+  }, [clear, setSubscribed, setTierId, setPeriods, setVoucher]);
 
   // Form validation
   useEffect(() => {
@@ -94,9 +278,12 @@ const ContributeForm: React.FC<Props> = ({ setInvalid, clear, children }) => {
       !contributorEmail ||
       !contributorName ||
       guildMinimumAmount === "0" ||
+      minimum === "0" ||
+      parseFloat(guildMinimumAmount) < parseFloat(minimum) ||
       invalidName ||
       invalidEmail ||
-      invalidAmount
+      invalidAmount ||
+      invalidRecipient
     ) {
       setInvalidForm(true);
     } else {
@@ -106,9 +293,11 @@ const ContributeForm: React.FC<Props> = ({ setInvalid, clear, children }) => {
     contributorEmail,
     contributorName,
     guildMinimumAmount,
+    minimum,
     invalidName,
     invalidAmount,
     invalidEmail,
+    invalidRecipient,
   ]);
 
   useEffect(() => {
@@ -116,12 +305,16 @@ const ContributeForm: React.FC<Props> = ({ setInvalid, clear, children }) => {
       !providerChainId ||
         contributeLoading ||
         invalidForm ||
+        soldOut ||
+        frozen ||
         (!subscribed && !guild.active)
     );
   }, [
     providerChainId,
     contributeLoading,
     invalidForm,
+    soldOut,
+    frozen,
     subscribed,
     guild.active,
     setInvalid,
@@ -129,8 +322,8 @@ const ContributeForm: React.FC<Props> = ({ setInvalid, clear, children }) => {
 
   useEffect(() => {
     // setDisabled
-    setDisabled(subscribed || !guild.active);
-  }, [subscribed, guild.active]);
+    setDisabled((subscribed && !gifting) || frozen || !guild.active);
+  }, [subscribed, gifting, frozen, guild.active]);
 
   return (
     <GridForm>
@@ -153,19 +346,210 @@ const ContributeForm: React.FC<Props> = ({ setInvalid, clear, children }) => {
           disabled={disabled}
         />
       </FormItem>
+      {guild.active && (
+        <FormItem>
+          <Checkbox
+            name="gift"
+            label="Gift a membership"
+            checked={gifting}
+            onChange={(_, checked) => setGifting(checked)}
+          />
+        </FormItem>
+      )}
+      {guild.active && connected && (
+        <FormItem>
+          <Checkbox
+            name="tip"
+            label="Send a one-time tip"
+            checked={tipping}
+            onChange={(_, checked) => setTipping(checked)}
+          />
+        </FormItem>
+      )}
+      {tipping && (
+        <FormItem>
+          <TipForm
+            guildAddress={guild.guildAddress}
+            currencies={acceptedCurrencies}
+          />
+        </FormItem>
+      )}
+      {gifting && (
+        <FormItem>
+          <Text size="xl" strong>
+            Recipient
+          </Text>
+          <TextField
+            label="Recipient address"
+            value={giftRecipient}
+            meta={
+              giftRecipient && invalidRecipient
+                ? { error: "Invalid address" }
+                : {}
+            }
+            onChange={(e) => setGiftRecipient(e.target.value)}
+          />
+          <TextField
+            label="Gift message CID (optional)"
+            value={giftMessageCID}
+            onChange={(e) => setGiftMessageCID(e.target.value)}
+          />
+        </FormItem>
+      )}
+      {subscribed && !gifting && status === SubscriptionStatus.InGrace && (
+        <FormItem>
+          <Text size="lg">
+            {`Your contribution expired. Access is kept until ${new Date(
+              (+subscriber.expires + +subscriber.guild.gracePeriod) * 1000
+            ).toLocaleDateString()} while it gets renewed.`}
+          </Text>
+        </FormItem>
+      )}
+      {subscribed && !gifting && (
+        <FormItem>
+          <Text size="lg">
+            {getRefundPolicyText(
+              subscriber.guild.refundPolicy,
+              +subscriber.guild.refundWindow
+            )}
+          </Text>
+        </FormItem>
+      )}
+      {(subscribed || frozen) && !gifting && connected && (
+        <FormItem>
+          <SubscriptionFreeze guildAddress={guild.guildAddress} />
+        </FormItem>
+      )}
+      {subscribed && !gifting && connected && (
+        <FormItem>
+          <Row>
+            <Text size="xl" strong>
+              Referral Link
+            </Text>
+            <CopyToClipboardBtn
+              textToCopy={`${APP_DOMAIN}/#/guild/${guild.guildAddress}?ref=${subscriber.owner}`}
+            />
+          </Row>
+          <Text size="lg">
+            Share the guild with your referral link to get credit for the
+            members you bring in.
+          </Text>
+          <ReferralRewards
+            guildAddress={guild.guildAddress}
+            referrer={subscriber.owner}
+            tokenAddresses={acceptedTokens}
+          />
+        </FormItem>
+      )}
+      {renewing && minimum !== listPrice && (
+        <FormItem>
+          <Text size="lg">
+            {`Your price is locked at ${minimum} ${currency} per month while your contribution stays active.`}
+          </Text>
+        </FormItem>
+      )}
+      {tiers.length > 1 && (
+        <FormItem>
+          <Text size="xl" strong>
+            Tier
+          </Text>
+          <TierSelect
+            tiers={tiers}
+            activeTierId={tierId}
+            setActiveTier={(id) => {
+              setTierId(id);
+              // Vouchers are only valid for the tier they were issued for
+              setVoucher(null);
+            }}
+            currency={currency}
+            maxMembers={guild.maxMembers}
+            totalMembers={guild.totalMembers}
+          />
+        </FormItem>
+      )}
+      {seats !== null && guild.active && (
+        <FormItem>
+          <Text size="lg" color={soldOut ? "error" : "primary"}>
+            {getSeatsText(seats)}
+          </Text>
+          {soldOut && connected && (
+            <Button
+              size="md"
+              color="secondary"
+              variant="bordered"
+              disabled={waitlisted}
+              onClick={addToWaitlist}
+            >
+              {waitlisted ? "You're on the waitlist" : "Join Waitlist"}
+            </Button>
+          )}
+        </FormItem>
+      )}
       <FormItem>
         <AmountInput
           title="Monthly Contribution"
-          currency={guild?.currency || activeCurrency}
-          setCurrency={setActiveCurrency}
+          currency={currency}
+          setCurrency={setCurrency}
+          currencies={acceptedCurrencies}
           amount={guildMinimumAmount}
           setAmount={setGuildMinimumAmount}
           setInvalidForm={setInvalidAmount}
-          dropdown={false}
-          disabled={disabled}
-          minimum={guild.amount}
+          dropdown={
+            acceptedCurrencies.length > 1 && !disabled && !activeVoucher
+          }
+          disabled={disabled || !!activeVoucher}
+          minimum={minimum}
         />
       </FormItem>
+      {!disabled && !gifting && (
+        <FormItem>
+          <Text size="xl" strong>
+            Promo Code
+          </Text>
+          <Row>
+            <TextField
+              label="Promo code"
+              value={promoCode}
+              meta={promoCodeMeta}
+              onChange={(e) => {
+                setPromoCode(e.target.value);
+                setVoucher(null);
+              }}
+            />
+            <Button
+              size="md"
+              color="secondary"
+              variant="bordered"
+              disabled={!promoCode}
+              onClick={applyPromoCode}
+            >
+              Apply
+            </Button>
+          </Row>
+          {activeVoucher && (
+            <Text size="lg">
+              {`Promo applied: ${getVoucherText(
+                activeVoucher.voucher,
+                currency
+              )}`}
+            </Text>
+          )}
+        </FormItem>
+      )}
+      {!disabled && (
+        <FormItem>
+          <Text size="xl" strong>
+            Prepaid Months
+          </Text>
+          <PeriodSelect
+            activePeriods={periods}
+            setActivePeriods={setPeriods}
+            discountMinPeriods={discountMinPeriods}
+            discountBps={discountBps}
+          />
+          <Text size="lg">{`Total: ${totalCost} ${currency}`}</Text>
+        </FormItem>
+      )}
       {children}
     </GridForm>
   );
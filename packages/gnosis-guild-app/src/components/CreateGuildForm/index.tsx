@@ -9,17 +9,22 @@ import styled from "styled-components";
 import isURL from "validator/lib/isURL";
 import {
   Button,
+  CopyToClipboardBtn,
   GenericModal,
   Loader,
+  Select,
   Text,
   TextField,
 } from "@gnosis.pm/safe-react-components";
 import { useSafeAppsSDK } from "@gnosis.pm/safe-apps-react-sdk";
 
 import AmountInput from "../AmountInput";
-import { useGuildContext } from "../../context/GuildContext";
+import TiersInput from "../TiersInput";
+import { APP_DOMAIN, DEFAULT_TIER_NAME } from "../../constants";
+import { GuildTier, useGuildContext } from "../../context/GuildContext";
 import { useWeb3Context } from "../../context/Web3Context";
 import { useGuild } from "../../hooks/useGuild";
+import { TRANSFER_POLICY_LABELS, TransferPolicy } from "../../lib/subscription";
 
 type ErrorThemeProps = {
   visible: boolean;
@@ -80,6 +85,7 @@ const CreateGuildForm: React.FC = () => {
   // Transaction Processing variables
   const [loadingTitle, setLoadingTitle] = useState("");
   const [loadingFooter, setLoadingFooter] = useState("");
+  const [predictedGuildAddress, setPredictedGuildAddress] = useState("");
   const [submitting, setSubmitting] = useState(false);
 
   // Input values
@@ -98,6 +104,12 @@ const CreateGuildForm: React.FC = () => {
   const [guildMinimumAmount, setGuildMinimumAmount] = useState(
     guildMetadata.amount.toString()
   );
+  // Tier 0 is the default tier priced by the minimum amount above
+  const [extraTiers, setExtraTiers] = useState<Array<GuildTier>>([]);
+  const [transferPolicy, setTransferPolicy] = useState(
+    guildMetadata.transferPolicy || TransferPolicy.Transferable
+  );
+  const [invalidTiers, setInvalidTiers] = useState(false);
 
   //
   // Input error states
@@ -144,6 +156,7 @@ const CreateGuildForm: React.FC = () => {
       !contentFormat ||
       !hasImage ||
       guildMinimumAmount === "0" ||
+      invalidTiers ||
       guildImageError ||
       guildNameMeta.error ||
       guildExternalLinkMeta.error ||
@@ -161,6 +174,7 @@ const CreateGuildForm: React.FC = () => {
     contentFormat,
     guildImage,
     guildMinimumAmount,
+    invalidTiers,
     guildImageError,
     guildContentFormatMeta.error,
     guildNameMeta.error,
@@ -228,6 +242,11 @@ const CreateGuildForm: React.FC = () => {
         amount: guildMinimumAmount,
         guildAddress,
         imageCid: "",
+        tiers: [
+          { name: DEFAULT_TIER_NAME, amount: guildMinimumAmount, cap: "0" },
+          ...extraTiers,
+        ],
+        transferPolicy,
         active: false,
       };
       const tx = (await createGuild(
@@ -236,7 +255,8 @@ const CreateGuildForm: React.FC = () => {
         guildInfo,
         account,
         sdk,
-        setModal
+        setModal,
+        setPredictedGuildAddress
       )) as any;
 
       if (tx) {
@@ -406,6 +426,19 @@ const CreateGuildForm: React.FC = () => {
     </GuildLoaderContainer>
   );
 
+  const predictedGuildUrl = `${APP_DOMAIN}/#/guild/${predictedGuildAddress}`;
+  const TransactionFooter = predictedGuildAddress ? (
+    <div>
+      <Text size="lg">{loadingFooter}</Text>
+      <GuildLoaderContainer>
+        <Text size="lg">{`Your Guild page will be: ${predictedGuildUrl}`}</Text>
+        <CopyToClipboardBtn textToCopy={predictedGuildUrl} />
+      </GuildLoaderContainer>
+    </div>
+  ) : (
+    loadingFooter
+  );
+
   return (
     <GridForm noValidate>
       <FormItem>
@@ -483,6 +516,30 @@ const CreateGuildForm: React.FC = () => {
           setAmount={setGuildMinimumAmount}
         />
       </FormItem>
+      {!guildMetadata.imageCid && (
+        <FormItem>
+          <TiersInput
+            tiers={extraTiers}
+            setTiers={setExtraTiers}
+            currency={activeCurrency}
+            setInvalidForm={setInvalidTiers}
+          />
+        </FormItem>
+      )}
+      {!guildMetadata.imageCid && (
+        <FormItem>
+          <Text size="xl" strong>
+            Membership Transfers
+          </Text>
+          <Select
+            activeItemId={transferPolicy.toString()}
+            items={Object.entries(TRANSFER_POLICY_LABELS).map(
+              ([id, label]) => ({ id, label })
+            )}
+            onItemClick={(id) => setTransferPolicy(parseInt(id))}
+          />
+        </FormItem>
+      )}
 
       <ButtonContainer>
         <Button
@@ -501,7 +558,7 @@ const CreateGuildForm: React.FC = () => {
           onClose={() => setSubmitting(false)}
           title={loadingTitle}
           body={TransactionLoader}
-          footer={loadingFooter}
+          footer={TransactionFooter}
         />
       )}
     </GridForm>
@@ -5,12 +5,20 @@ import { CURRENCIES } from "../../constants";
 type Props = {
   activeId: string;
   setActiveCurrency: (id: string) => void;
+  currencies?: Array<string>;
 };
 
-const CurrencySelect: React.FC<Props> = ({ activeId, setActiveCurrency }) => {
-  const selectItems = CURRENCIES;
+const CurrencySelect: React.FC<Props> = ({
+  activeId,
+  setActiveCurrency,
+  currencies,
+}) => {
+  // Only list the currencies accepted by the guild when provided
+  const selectItems = currencies
+    ? CURRENCIES.filter((currency) => currencies.includes(currency.id))
+    : CURRENCIES;
   const changeCurrency = (id: string) => {
-    if (id === "ETH" || id === "DAI") {
+    if (selectItems.some((currency) => currency.id === id)) {
       setActiveCurrency(id);
     } else {
       console.error("Incorrect currency passed in");
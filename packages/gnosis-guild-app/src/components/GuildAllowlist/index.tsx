@@ -0,0 +1,119 @@
+import React, { ChangeEvent, useRef, useState } from "react";
+import styled from "styled-components";
+import { ethers } from "ethers";
+import { Button, Text, Title } from "@gnosis.pm/safe-react-components";
+import { useSafeAppsSDK } from "@gnosis.pm/safe-apps-react-sdk";
+
+import { useGuildContext } from "../../context/GuildContext";
+import { useWeb3Context } from "../../context/Web3Context";
+import { Allowlist, useGuild } from "../../hooks/useGuild";
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  margin-top: 0.5rem;
+  gap: 0.4rem;
+`;
+
+// Invite-only guilds only accept new members whose address is on the uploaded list
+const GuildAllowlist: React.FC = () => {
+  const [allowlist, setAllowlist] = useState<Allowlist>();
+  const [submitting, setSubmitting] = useState(false);
+  const hiddenFileInput = useRef<HTMLInputElement>(null);
+  const { guildMetadata } = useGuildContext();
+  const { ethersProvider } = useWeb3Context();
+  const { uploadAllowlist, updateAllowlist } = useGuild();
+  const { sdk } = useSafeAppsSDK();
+
+  const submit = async (root: string, listCID: string) => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    await updateAllowlist(
+      ethersProvider,
+      guildMetadata.guildAddress,
+      root,
+      listCID,
+      sdk
+    );
+  };
+
+  const uploadList = async (e: ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) {
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const list = await uploadAllowlist(file);
+      setAllowlist(list);
+      await submit(list.root, list.listCID);
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  const makePublic = async () => {
+    setSubmitting(true);
+    try {
+      await submit(ethers.constants.HashZero, "");
+      setAllowlist(undefined);
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div style={{ width: "100%", marginTop: "2rem" }}>
+      <Title size="sm" strong>
+        Invite Only
+      </Title>
+      <Text size="md">
+        {guildMetadata.allowlistCID
+          ? "Only invited accounts and existing members can contribute."
+          : "Anyone can contribute to this guild."}
+      </Text>
+      <Row>
+        <Button
+          size="md"
+          color="primary"
+          variant="contained"
+          disabled={submitting}
+          onClick={() => hiddenFileInput.current?.click()}
+        >
+          Upload Guest List
+        </Button>
+        <input
+          type="file"
+          accept=".csv,.txt"
+          ref={hiddenFileInput}
+          style={{ display: "none" }}
+          onChange={uploadList}
+        />
+        {guildMetadata.allowlistCID && (
+          <Button
+            size="md"
+            color="secondary"
+            variant="bordered"
+            disabled={submitting}
+            onClick={makePublic}
+          >
+            Make Public
+          </Button>
+        )}
+      </Row>
+      {allowlist && (
+        <Text size="md">
+          {`${allowlist.total} addresses invited`}
+          {allowlist.invalid.length > 0 &&
+            `, ${allowlist.invalid.length} invalid entries skipped`}
+        </Text>
+      )}
+    </div>
+  );
+};
+
+export default GuildAllowlist;
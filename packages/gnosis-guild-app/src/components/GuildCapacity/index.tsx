@@ -0,0 +1,144 @@
+import React, { useEffect, useState } from "react";
+import styled from "styled-components";
+import isInt from "validator/lib/isInt";
+import {
+  Button,
+  Text,
+  TextField,
+  Title,
+} from "@gnosis.pm/safe-react-components";
+import { useSafeAppsSDK } from "@gnosis.pm/safe-apps-react-sdk";
+
+import { useGuildContext } from "../../context/GuildContext";
+import { useWeb3Context } from "../../context/Web3Context";
+import { fetchLapsedSubscriptions } from "../../graphql";
+import { useGuild } from "../../hooks/useGuild";
+
+const Row = styled.div`
+  display: flex;
+  align-items: flex-start;
+  margin-top: 0.5rem;
+  gap: 0.4rem;
+`;
+
+// Caps the amount of members across all tiers. Tier caps still apply on top of it.
+// Lapsed members keep their seat until it is released
+const GuildCapacity: React.FC = () => {
+  const [maxMembers, setMaxMembers] = useState("0");
+  const [lapsedTokenIds, setLapsedTokenIds] = useState<Array<string>>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const { guildMetadata, refreshGuild } = useGuildContext();
+  const { ethersProvider, providerChainId } = useWeb3Context();
+  const { updateMaxMembers, releaseSeats } = useGuild();
+  const { sdk } = useSafeAppsSDK();
+
+  const validMaxMembers = isInt(maxMembers, { min: 0 });
+
+  useEffect(() => {
+    setMaxMembers((guildMetadata.maxMembers || 0).toString());
+  }, [guildMetadata.maxMembers]);
+
+  useEffect(() => {
+    const loadLapsed = async () => {
+      if (!guildMetadata.guildAddress || !providerChainId) {
+        return;
+      }
+      const lapsed = await fetchLapsedSubscriptions(
+        guildMetadata.guildAddress,
+        providerChainId
+      );
+      setLapsedTokenIds(lapsed.map((subscription) => subscription.keyId));
+    };
+    loadLapsed();
+  }, [guildMetadata.guildAddress, guildMetadata.totalMembers, providerChainId]);
+
+  const release = async () => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await releaseSeats(
+        ethersProvider,
+        guildMetadata.guildAddress,
+        lapsedTokenIds,
+        sdk
+      );
+      refreshGuild();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  const save = async () => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await updateMaxMembers(
+        ethersProvider,
+        guildMetadata.guildAddress,
+        +maxMembers,
+        sdk
+      );
+      refreshGuild();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div style={{ width: "100%", marginTop: "2rem" }}>
+      <Title size="sm" strong>
+        Member Cap
+      </Title>
+      <Text size="md">
+        {guildMetadata.maxMembers
+          ? `${guildMetadata.totalMembers || 0} of ${
+              guildMetadata.maxMembers
+            } seats taken.`
+          : "The guild accepts an unlimited amount of members."}
+      </Text>
+      <Row>
+        <TextField
+          label="Max members (0 for unlimited)"
+          value={maxMembers}
+          meta={validMaxMembers ? {} : { error: "Invalid amount" }}
+          onChange={(e) => setMaxMembers(e.target.value)}
+        />
+        <Button
+          size="md"
+          color="primary"
+          variant="contained"
+          disabled={submitting || !validMaxMembers}
+          onClick={save}
+        >
+          Save
+        </Button>
+      </Row>
+      {lapsedTokenIds.length > 0 && (
+        <Row>
+          <Text size="md">
+            {`${lapsedTokenIds.length} lapsed member(s) still hold a seat.`}
+          </Text>
+          <Button
+            size="md"
+            color="secondary"
+            variant="bordered"
+            disabled={submitting}
+            onClick={release}
+          >
+            Release Seats
+          </Button>
+        </Row>
+      )}
+    </div>
+  );
+};
+
+export default GuildCapacity;
@@ -0,0 +1,105 @@
+import React, { useEffect, useState } from "react";
+import styled from "styled-components";
+import isInt from "validator/lib/isInt";
+import {
+  Button,
+  Text,
+  TextField,
+  Title,
+} from "@gnosis.pm/safe-react-components";
+import { useSafeAppsSDK } from "@gnosis.pm/safe-apps-react-sdk";
+
+import { useGuildContext } from "../../context/GuildContext";
+import { useWeb3Context } from "../../context/Web3Context";
+import { useGuild } from "../../hooks/useGuild";
+
+const Row = styled.div`
+  display: flex;
+  align-items: flex-start;
+  margin-top: 0.5rem;
+  gap: 0.4rem;
+`;
+
+const SECONDS_PER_DAY = 86400;
+
+// Members can pause their contribution for a limited time. A zero duration disables freezing
+const GuildFreezePolicy: React.FC = () => {
+  const [maxDays, setMaxDays] = useState("0");
+  const [maxFreezes, setMaxFreezes] = useState("0");
+  const [submitting, setSubmitting] = useState(false);
+  const { guildMetadata, refreshGuild } = useGuildContext();
+  const { ethersProvider } = useWeb3Context();
+  const { updateFreezePolicy } = useGuild();
+  const { sdk } = useSafeAppsSDK();
+
+  const validMaxDays = isInt(maxDays, { min: 0 });
+  const validMaxFreezes = isInt(maxFreezes, { min: 0 });
+
+  useEffect(() => {
+    setMaxDays(
+      Math.floor(
+        (guildMetadata.maxFreezeDuration || 0) / SECONDS_PER_DAY
+      ).toString()
+    );
+    setMaxFreezes((guildMetadata.maxFreezes || 0).toString());
+  }, [guildMetadata.maxFreezeDuration, guildMetadata.maxFreezes]);
+
+  const save = async () => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await updateFreezePolicy(
+        ethersProvider,
+        guildMetadata.guildAddress,
+        +maxDays * SECONDS_PER_DAY,
+        +maxFreezes,
+        sdk
+      );
+      refreshGuild();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div style={{ width: "100%", marginTop: "2rem" }}>
+      <Title size="sm" strong>
+        Contribution Freezes
+      </Title>
+      <Text size="md">
+        {guildMetadata.maxFreezeDuration
+          ? "Members can freeze their contribution and keep their remaining time until they unfreeze it."
+          : "Members can't freeze their contribution."}
+      </Text>
+      <Row>
+        <TextField
+          label="Max days frozen (0 to disable)"
+          value={maxDays}
+          meta={validMaxDays ? {} : { error: "Invalid amount" }}
+          onChange={(e) => setMaxDays(e.target.value)}
+        />
+        <TextField
+          label="Freezes per member (0 for unlimited)"
+          value={maxFreezes}
+          meta={validMaxFreezes ? {} : { error: "Invalid amount" }}
+          onChange={(e) => setMaxFreezes(e.target.value)}
+        />
+        <Button
+          size="md"
+          color="primary"
+          variant="contained"
+          disabled={submitting || !validMaxDays || !validMaxFreezes}
+          onClick={save}
+        >
+          Save
+        </Button>
+      </Row>
+    </div>
+  );
+};
+
+export default GuildFreezePolicy;
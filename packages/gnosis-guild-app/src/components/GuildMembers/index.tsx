@@ -0,0 +1,134 @@
+import React, { ChangeEvent, useCallback, useEffect, useState } from "react";
+import styled from "styled-components";
+import { ethers } from "ethers";
+import { useSafeAppsSDK } from "@gnosis.pm/safe-apps-react-sdk";
+import {
+  Button,
+  Select,
+  Text,
+  TextField,
+  Title,
+} from "@gnosis.pm/safe-react-components";
+
+import { useGuildContext } from "../../context/GuildContext";
+import { useWeb3Context } from "../../context/Web3Context";
+import { useGuild } from "../../hooks/useGuild";
+import { fetchGuild, GraphGuildMember } from "../../graphql";
+import { getRoleLabel, GUILD_ROLES } from "../../lib/roles";
+
+const MemberRow = styled.div`
+  display: flex;
+  flex-direction: column;
+  margin-top: 0.5rem;
+`;
+
+const FormRow = styled.div`
+  display: flex;
+  align-items: flex-start;
+  margin-top: 1rem;
+  gap: 0.4rem;
+`;
+
+const GuildMembers: React.FC = () => {
+  const [members, setMembers] = useState<Array<GraphGuildMember>>([]);
+  const [account, setAccount] = useState("");
+  const [role, setRole] = useState(GUILD_ROLES[1].id);
+  const [submitting, setSubmitting] = useState(false);
+  const { guildMetadata } = useGuildContext();
+  const { ethersProvider, providerChainId } = useWeb3Context();
+  const { updateRole } = useGuild();
+  const { sdk } = useSafeAppsSDK();
+
+  const memoizedFetchGuild = useCallback(fetchGuild, []);
+
+  const fetchMembers = useCallback(async () => {
+    const guild = await memoizedFetchGuild(
+      guildMetadata.guildAddress,
+      providerChainId
+    );
+    if (guild && guild.members) {
+      setMembers(guild.members.filter((m) => m.roles.length > 0));
+    }
+  }, [guildMetadata.guildAddress, providerChainId, memoizedFetchGuild]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const validAccount = ethers.utils.isAddress(account);
+
+  const submitRole = async (grant: boolean) => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await updateRole(
+        ethersProvider,
+        guildMetadata.guildAddress,
+        role,
+        account,
+        grant,
+        sdk
+      );
+      await fetchMembers();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div style={{ width: "100%", marginTop: "2rem" }}>
+      <Title size="sm" strong>
+        Members & Roles
+      </Title>
+      {members.map((member) => (
+        <MemberRow key={member.account}>
+          <Text size="lg" strong>
+            {member.account}
+          </Text>
+          <Text size="md">{member.roles.map(getRoleLabel).join(", ")}</Text>
+        </MemberRow>
+      ))}
+      <FormRow>
+        <TextField
+          label="Account address"
+          value={account}
+          meta={account && !validAccount ? { error: "Invalid address" } : {}}
+          onChange={(e: ChangeEvent<HTMLInputElement>) =>
+            setAccount(e.target.value)
+          }
+        />
+        <Select
+          activeItemId={role}
+          items={GUILD_ROLES.map(({ id, label }) => ({ id, label }))}
+          onItemClick={setRole}
+        />
+      </FormRow>
+      <FormRow>
+        <Button
+          size="md"
+          color="primary"
+          variant="contained"
+          disabled={!validAccount || submitting}
+          onClick={() => submitRole(true)}
+        >
+          Grant
+        </Button>
+        <Button
+          size="md"
+          color="error"
+          variant="bordered"
+          disabled={!validAccount || submitting}
+          onClick={() => submitRole(false)}
+        >
+          Revoke
+        </Button>
+      </FormRow>
+    </div>
+  );
+};
+
+export default GuildMembers;
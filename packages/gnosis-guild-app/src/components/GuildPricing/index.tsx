@@ -0,0 +1,56 @@
+import React, { useState } from "react";
+import { Checkbox, Text, Title } from "@gnosis.pm/safe-react-components";
+import { useSafeAppsSDK } from "@gnosis.pm/safe-apps-react-sdk";
+
+import { useGuildContext } from "../../context/GuildContext";
+import { useWeb3Context } from "../../context/Web3Context";
+import { useGuild } from "../../hooks/useGuild";
+
+// Grandfathered members keep renewing at the price they joined with until they lapse
+const GuildPricing: React.FC = () => {
+  const [submitting, setSubmitting] = useState(false);
+  const { guildMetadata, refreshGuild } = useGuildContext();
+  const { ethersProvider } = useWeb3Context();
+  const { updateGrandfatheredPricing } = useGuild();
+  const { sdk } = useSafeAppsSDK();
+
+  const toggle = async (enabled: boolean) => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await updateGrandfatheredPricing(
+        ethersProvider,
+        guildMetadata.guildAddress,
+        enabled,
+        sdk
+      );
+      refreshGuild();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div style={{ width: "100%", marginTop: "2rem" }}>
+      <Title size="sm" strong>
+        Price Changes
+      </Title>
+      <Text size="md">
+        Existing contributors can keep renewing at the price they joined with
+        until their contribution lapses.
+      </Text>
+      <Checkbox
+        name="grandfatheredPricing"
+        label="Grandfather existing contributors"
+        checked={!!guildMetadata.grandfatheredPricing}
+        onChange={(_, checked) => !submitting && toggle(checked)}
+      />
+    </div>
+  );
+};
+
+export default GuildPricing;
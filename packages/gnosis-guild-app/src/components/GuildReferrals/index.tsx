@@ -0,0 +1,136 @@
+import React, { useEffect, useState } from "react";
+import styled from "styled-components";
+import isInt from "validator/lib/isInt";
+import isDecimal from "validator/lib/isDecimal";
+import {
+  Button,
+  Text,
+  TextField,
+  Title,
+} from "@gnosis.pm/safe-react-components";
+import { useSafeAppsSDK } from "@gnosis.pm/safe-apps-react-sdk";
+
+import { useGuildContext } from "../../context/GuildContext";
+import { useWeb3Context } from "../../context/Web3Context";
+import { fetchGuildReferrers, GraphReferrer } from "../../graphql";
+import { useGuild } from "../../hooks/useGuild";
+
+const Row = styled.div`
+  display: flex;
+  align-items: flex-start;
+  margin-top: 0.5rem;
+  gap: 0.4rem;
+`;
+
+const SECONDS_PER_DAY = 86400;
+
+// Referrers get a share of the first payment of the members they bring in and/or free days
+const GuildReferrals: React.FC = () => {
+  const [rewardPercent, setRewardPercent] = useState("0");
+  const [bonusDays, setBonusDays] = useState("0");
+  const [referrers, setReferrers] = useState<Array<GraphReferrer>>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const { guildMetadata, refreshGuild } = useGuildContext();
+  const { ethersProvider, providerChainId } = useWeb3Context();
+  const { updateReferralPolicy } = useGuild();
+  const { sdk } = useSafeAppsSDK();
+
+  const validRewardPercent =
+    (isInt(rewardPercent) || isDecimal(rewardPercent)) &&
+    +rewardPercent >= 0 &&
+    +rewardPercent <= 100;
+  const validBonusDays = isInt(bonusDays, { min: 0 });
+
+  useEffect(() => {
+    setRewardPercent(((guildMetadata.referralRewardBps || 0) / 100).toString());
+    setBonusDays(
+      Math.floor(
+        (guildMetadata.referralBonusDuration || 0) / SECONDS_PER_DAY
+      ).toString()
+    );
+  }, [guildMetadata.referralRewardBps, guildMetadata.referralBonusDuration]);
+
+  useEffect(() => {
+    const loadReferrers = async () => {
+      if (!guildMetadata.guildAddress || !providerChainId) {
+        return;
+      }
+      setReferrers(
+        await fetchGuildReferrers(guildMetadata.guildAddress, providerChainId)
+      );
+    };
+    loadReferrers();
+  }, [guildMetadata.guildAddress, providerChainId]);
+
+  const save = async () => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await updateReferralPolicy(
+        ethersProvider,
+        guildMetadata.guildAddress,
+        Math.round(+rewardPercent * 100),
+        +bonusDays * SECONDS_PER_DAY,
+        sdk
+      );
+      refreshGuild();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div style={{ width: "100%", marginTop: "2rem" }}>
+      <Title size="sm" strong>
+        Referrals
+      </Title>
+      <Text size="md">
+        Members can share the guild with their referral link. Rewards are
+        credited on the first contribution of each referred member.
+      </Text>
+      <Row>
+        <TextField
+          label="Reward (% of first payment)"
+          value={rewardPercent}
+          meta={validRewardPercent ? {} : { error: "Invalid percentage" }}
+          onChange={(e) => setRewardPercent(e.target.value)}
+        />
+        <TextField
+          label="Free days for the referrer"
+          value={bonusDays}
+          meta={validBonusDays ? {} : { error: "Invalid amount" }}
+          onChange={(e) => setBonusDays(e.target.value)}
+        />
+        <Button
+          size="md"
+          color="primary"
+          variant="contained"
+          disabled={submitting || !validRewardPercent || !validBonusDays}
+          onClick={save}
+        >
+          Save
+        </Button>
+      </Row>
+      {referrers.length > 0 && (
+        <>
+          <Text size="lg" strong>
+            Top Referrers
+          </Text>
+          {referrers.map((referrer, index) => (
+            <Text size="md" key={referrer.account}>
+              {`${index + 1}. ${referrer.account}: ${
+                referrer.totalReferrals
+              } member(s)`}
+            </Text>
+          ))}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GuildReferrals;
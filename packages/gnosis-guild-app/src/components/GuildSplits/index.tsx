@@ -0,0 +1,260 @@
+import React, { ChangeEvent, useCallback, useEffect, useState } from "react";
+import styled from "styled-components";
+import isInt from "validator/lib/isInt";
+import { Contract, ethers } from "ethers";
+import { useSafeAppsSDK } from "@gnosis.pm/safe-apps-react-sdk";
+import {
+  Button,
+  Text,
+  TextField,
+  Title,
+} from "@gnosis.pm/safe-react-components";
+
+import GuildAppABI from "../../contracts/GuildApp.json";
+import { useGuildContext } from "../../context/GuildContext";
+import { useWeb3Context } from "../../context/Web3Context";
+import { useGuild } from "../../hooks/useGuild";
+import { fetchGuild } from "../../graphql";
+import { getCurrencyByTokenAddress } from "../../lib/networks";
+
+type Split = {
+  payee: string;
+  shares: string;
+};
+
+type Claimable = {
+  payee: string;
+  tokenAddress: string;
+  amount: ethers.BigNumber;
+};
+
+const Row = styled.div`
+  display: flex;
+  align-items: flex-start;
+  margin-top: 0.5rem;
+  gap: 0.4rem;
+`;
+
+const RemoveButton = styled(Button)`
+  &&& {
+    min-width: 0rem;
+  }
+`;
+
+const isValidSplit = (split: Split): boolean =>
+  ethers.utils.isAddress(split.payee) && isInt(split.shares, { min: 1 });
+
+const GuildSplits: React.FC = () => {
+  const [splits, setSplits] = useState<Array<Split>>([]);
+  const [tokens, setTokens] = useState<Array<string>>([]);
+  const [claimables, setClaimables] = useState<Array<Claimable>>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const { guildMetadata } = useGuildContext();
+  const { ethersProvider, providerChainId } = useWeb3Context();
+  const { updatePayees, distributeFunds, claimFunds } = useGuild();
+  const { sdk } = useSafeAppsSDK();
+
+  const memoizedFetchGuild = useCallback(fetchGuild, []);
+
+  const fetchSplits = useCallback(async () => {
+    if (!ethersProvider || !guildMetadata.guildAddress) {
+      return;
+    }
+    const guild = await memoizedFetchGuild(
+      guildMetadata.guildAddress,
+      providerChainId
+    );
+    const guildTokens = guild ? guild.balances.map((b) => b.tokenAddress) : [];
+    const guildContract = new Contract(
+      guildMetadata.guildAddress,
+      GuildAppABI,
+      ethersProvider
+    );
+    const payees: Array<string> = await guildContract.payees();
+    const currentSplits = await Promise.all(
+      payees.map(async (payee) => ({
+        payee,
+        shares: (await guildContract.shares(payee)).toString(),
+      }))
+    );
+    const pending = await Promise.all(
+      guildTokens.flatMap((tokenAddress) =>
+        payees.map(async (payee) => ({
+          payee,
+          tokenAddress,
+          amount: await guildContract.claimable(tokenAddress, payee),
+        }))
+      )
+    );
+    setSplits(currentSplits);
+    setTokens(guildTokens);
+    setClaimables(pending.filter((c) => c.amount.gt(0)));
+  }, [
+    ethersProvider,
+    guildMetadata.guildAddress,
+    providerChainId,
+    memoizedFetchGuild,
+  ]);
+
+  useEffect(() => {
+    fetchSplits();
+  }, [fetchSplits]);
+
+  const submit = async (
+    sendTx: (ethersProvider: ethers.providers.Web3Provider) => Promise<unknown>
+  ) => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await sendTx(ethersProvider);
+      await fetchSplits();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  const updateSplit =
+    (index: number, field: keyof Split) =>
+    (e: ChangeEvent<HTMLInputElement>) => {
+      setSplits(
+        splits.map((split, i) =>
+          i === index ? { ...split, [field]: e.target.value } : split
+        )
+      );
+    };
+
+  const saveSplits = () =>
+    submit((provider) =>
+      updatePayees(
+        provider,
+        guildMetadata.guildAddress,
+        splits.map((s) => s.payee),
+        splits.map((s) => s.shares),
+        sdk
+      )
+    );
+
+  const currency = (tokenAddress: string) =>
+    getCurrencyByTokenAddress(providerChainId, tokenAddress);
+
+  return (
+    <div style={{ width: "100%", marginTop: "2rem" }}>
+      <Title size="sm" strong>
+        Revenue Split
+      </Title>
+      {splits.map((split, index) => (
+        <Row key={index}>
+          <TextField
+            label="Payee address"
+            value={split.payee}
+            meta={
+              ethers.utils.isAddress(split.payee)
+                ? {}
+                : { error: "Invalid address" }
+            }
+            onChange={updateSplit(index, "payee")}
+          />
+          <TextField
+            label="Shares"
+            value={split.shares}
+            meta={
+              isInt(split.shares, { min: 1 })
+                ? {}
+                : { error: "Must be a whole number" }
+            }
+            onChange={updateSplit(index, "shares")}
+          />
+          <RemoveButton
+            size="md"
+            color="error"
+            variant="bordered"
+            onClick={() => setSplits(splits.filter((_, i) => i !== index))}
+          >
+            Remove
+          </RemoveButton>
+        </Row>
+      ))}
+      <Row>
+        <Button
+          size="md"
+          color="secondary"
+          variant="bordered"
+          onClick={() => setSplits([...splits, { payee: "", shares: "1" }])}
+        >
+          Add Payee
+        </Button>
+        <Button
+          size="md"
+          color="primary"
+          variant="contained"
+          disabled={submitting || !splits.every(isValidSplit)}
+          onClick={saveSplits}
+        >
+          Save Split
+        </Button>
+      </Row>
+      <Row>
+        {tokens.map((tokenAddress) => (
+          <Button
+            key={tokenAddress}
+            size="md"
+            color="primary"
+            variant="bordered"
+            disabled={submitting || splits.length === 0}
+            onClick={() =>
+              submit((provider) =>
+                distributeFunds(
+                  provider,
+                  guildMetadata.guildAddress,
+                  tokenAddress,
+                  sdk
+                )
+              )
+            }
+          >
+            {`Distribute ${currency(tokenAddress)}`}
+          </Button>
+        ))}
+      </Row>
+      {claimables.length > 0 && (
+        <Text size="xl" strong>
+          Claimable
+        </Text>
+      )}
+      {claimables.map(({ payee, tokenAddress, amount }) => (
+        <Row key={`${payee}-${tokenAddress}`}>
+          <Text size="lg">
+            {`${payee}: ${ethers.utils.formatEther(amount)} ${currency(
+              tokenAddress
+            )}`}
+          </Text>
+          <Button
+            size="md"
+            color="secondary"
+            variant="bordered"
+            disabled={submitting}
+            onClick={() =>
+              submit((provider) =>
+                claimFunds(
+                  provider,
+                  guildMetadata.guildAddress,
+                  tokenAddress,
+                  payee,
+                  sdk
+                )
+              )
+            }
+          >
+            Claim
+          </Button>
+        </Row>
+      ))}
+    </div>
+  );
+};
+
+export default GuildSplits;
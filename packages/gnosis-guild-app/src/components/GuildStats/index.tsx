@@ -10,6 +10,15 @@ import {
   Text,
   Title,
 } from "@gnosis.pm/safe-react-components";
+import GuildMembers from "../GuildMembers";
+import GuildSplits from "../GuildSplits";
+import GuildVouchers from "../GuildVouchers";
+import GuildAllowlist from "../GuildAllowlist";
+import GuildCapacity from "../GuildCapacity";
+import GuildFreezePolicy from "../GuildFreezePolicy";
+import GuildPricing from "../GuildPricing";
+import GuildReferrals from "../GuildReferrals";
+import GuildSunset from "../GuildSunset";
 import { useGuildContext } from "../../context/GuildContext";
 import { useWeb3Context } from "../../context/Web3Context";
 import { API, APP_DOMAIN } from "../../constants";
@@ -51,6 +60,8 @@ const StatsText = styled(Text)`
 
 const GuildStats: React.FC = () => {
   const [numTokens, setNumTokens] = useState("0");
+  const [numNetTokens, setNumNetTokens] = useState("0");
+  const [numTipTokens, setNumTipTokens] = useState("0");
   const [numContributors, setNumContributors] = useState(0);
   const [lastUpdate, setLastUpdate] = useState("");
   const { guildMetadata } = useGuildContext();
@@ -71,11 +82,21 @@ const GuildStats: React.FC = () => {
         const guildMainBalance = guild.balances.find(
           (b) => b.tokenAddress === guild.tokenAddress
         );
-        setNumTokens(
-          ethers.utils.formatEther(
-            guildMainBalance ? guildMainBalance.totalSubscriptions : "0"
-          )
+        const gross = ethers.BigNumber.from(
+          guildMainBalance
+            ? guildMainBalance.totalSubscriptions.toString()
+            : "0"
         );
+        const tips = ethers.BigNumber.from(
+          guildMainBalance ? guildMainBalance.totalTips.toString() : "0"
+        );
+        const fees = ethers.BigNumber.from(
+          guildMainBalance ? guildMainBalance.totalFees.toString() : "0"
+        );
+        setNumTokens(ethers.utils.formatEther(gross.add(tips)));
+        setNumTipTokens(ethers.utils.formatEther(tips));
+        // gross revenue minus the protocol fee charged on each payment
+        setNumNetTokens(ethers.utils.formatEther(gross.add(tips).sub(fees)));
         const x = await new Date(guild.lastMetadataUpdate * 1000).toUTCString();
         setNumContributors(guild.totalSubscribers);
         setLastUpdate(x);
@@ -156,7 +177,23 @@ const GuildStats: React.FC = () => {
               {numTokens}
             </Text>
             <Text size="lg" strong>
-              {guildMetadata.currency}
+              {`${guildMetadata.currency} gross`}
+            </Text>
+          </CardContainer>
+          <CardContainer>
+            <Text size="lg" color="primary" strong>
+              {numNetTokens}
+            </Text>
+            <Text size="lg" strong>
+              {`${guildMetadata.currency} net of protocol fees`}
+            </Text>
+          </CardContainer>
+          <CardContainer>
+            <Text size="lg" color="primary" strong>
+              {numTipTokens}
+            </Text>
+            <Text size="lg" strong>
+              {`${guildMetadata.currency} in one-time tips`}
             </Text>
           </CardContainer>
         </Card>
@@ -181,6 +218,15 @@ const GuildStats: React.FC = () => {
         </a>
       </ButtonContainer>
       <Text size="sm">{`Last updated ${lastUpdate}`}</Text>
+      <GuildSplits />
+      <GuildVouchers />
+      <GuildAllowlist />
+      <GuildCapacity />
+      <GuildPricing />
+      <GuildFreezePolicy />
+      <GuildReferrals />
+      <GuildMembers />
+      <GuildSunset />
     </div>
   );
 };
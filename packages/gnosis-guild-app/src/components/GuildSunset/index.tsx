@@ -0,0 +1,104 @@
+import React, { useState } from "react";
+import { Button, Text, Title } from "@gnosis.pm/safe-react-components";
+import { useSafeAppsSDK } from "@gnosis.pm/safe-apps-react-sdk";
+
+import { useGuildContext } from "../../context/GuildContext";
+import { useWeb3Context } from "../../context/Web3Context";
+import { useGuild } from "../../hooks/useGuild";
+
+// Closing reserves the unused time of every active member so they can claim it back.
+// Refunds are processed in batches after closing
+const GuildSunset: React.FC = () => {
+  const [submitting, setSubmitting] = useState(false);
+  const { guildMetadata, refreshGuild } = useGuildContext();
+  const { ethersProvider } = useWeb3Context();
+  const { closeGuild, processClosingRefunds } = useGuild();
+  const { sdk } = useSafeAppsSDK();
+
+  const close = async () => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await closeGuild(ethersProvider, guildMetadata.guildAddress, sdk);
+      refreshGuild();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  const processRefunds = async () => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      await processClosingRefunds(
+        ethersProvider,
+        guildMetadata.guildAddress,
+        sdk
+      );
+      refreshGuild();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div style={{ width: "100%", marginTop: "2rem" }}>
+      <Title size="sm" strong>
+        Close Guild
+      </Title>
+      {guildMetadata.closedAt && guildMetadata.closingRefundsProcessedAt && (
+        <Text size="md" color="error">
+          {`This guild was closed on ${new Date(
+            +guildMetadata.closedAt * 1000
+          ).toLocaleDateString()}. Members can claim back their unused time.`}
+        </Text>
+      )}
+      {guildMetadata.closedAt && !guildMetadata.closingRefundsProcessedAt && (
+        <>
+          <Text size="md" color="error">
+            {`This guild was closed on ${new Date(
+              +guildMetadata.closedAt * 1000
+            ).toLocaleDateString()}. Member refunds must be processed in one or more transactions before they can be claimed.`}
+          </Text>
+          <Button
+            size="md"
+            color="primary"
+            variant="contained"
+            disabled={submitting}
+            onClick={processRefunds}
+          >
+            Process Refunds
+          </Button>
+        </>
+      )}
+      {!guildMetadata.closedAt && (
+        <>
+          <Text size="md">
+            Closing the guild stops all contributions for good. Active members
+            can claim back the unused part of their contribution from the guild
+            balance.
+          </Text>
+          <Button
+            size="md"
+            color="error"
+            variant="bordered"
+            disabled={submitting}
+            onClick={close}
+          >
+            Close Guild
+          </Button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default GuildSunset;
@@ -0,0 +1,152 @@
+import React, { useState } from "react";
+import styled from "styled-components";
+import isInt from "validator/lib/isInt";
+import isDecimal from "validator/lib/isDecimal";
+import { ethers } from "ethers";
+import {
+  Button,
+  CopyToClipboardBtn,
+  Text,
+  TextField,
+  Title,
+} from "@gnosis.pm/safe-react-components";
+
+import { useGuildContext } from "../../context/GuildContext";
+import { useWeb3Context } from "../../context/Web3Context";
+import { useGuild } from "../../hooks/useGuild";
+import { getTokenAddressByCurrency } from "../../lib/networks";
+import TierSelect from "../TierSelect";
+
+const Row = styled.div`
+  display: flex;
+  align-items: flex-start;
+  margin-top: 0.5rem;
+  gap: 0.4rem;
+`;
+
+// Promo codes are discount vouchers signed by the connected guild admin. Each code applies to a single tier
+const GuildVouchers: React.FC = () => {
+  const [tierId, setTierId] = useState(0);
+  const [discount, setDiscount] = useState("");
+  const [fixedPrice, setFixedPrice] = useState("");
+  const [maxUses, setMaxUses] = useState("1");
+  const [validDays, setValidDays] = useState("30");
+  const [recipient, setRecipient] = useState("");
+  const [promoCode, setPromoCode] = useState("");
+  const [submitting, setSubmitting] = useState(false);
+  const { guildMetadata } = useGuildContext();
+  const { ethersProvider, providerChainId } = useWeb3Context();
+  const { createVoucher } = useGuild();
+
+  const validDiscount = !discount || isInt(discount, { min: 1, max: 100 });
+  const validFixedPrice = !fixedPrice || isDecimal(fixedPrice);
+  const validRecipient = !recipient || ethers.utils.isAddress(recipient);
+  const validForm =
+    !!discount !== !!fixedPrice &&
+    validDiscount &&
+    validFixedPrice &&
+    validRecipient &&
+    isInt(maxUses, { min: 1 }) &&
+    isInt(validDays, { min: 1 });
+
+  const generate = async () => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const code = await createVoucher(
+        providerChainId,
+        ethersProvider,
+        guildMetadata.guildAddress,
+        {
+          tierId,
+          discountBps: discount ? +discount * 100 : 0,
+          tokenAddress: getTokenAddressByCurrency(
+            providerChainId,
+            guildMetadata.currency
+          ),
+          fixedPrice: ethers.utils.parseEther(fixedPrice || "0").toString(),
+          maxUses: +maxUses,
+          expiry: Math.floor(Date.now() / 1000) + +validDays * 86400,
+          recipient: recipient || ethers.constants.AddressZero,
+          salt: ethers.utils.hexlify(ethers.utils.randomBytes(32)),
+        }
+      );
+      setPromoCode(code);
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <div style={{ width: "100%", marginTop: "2rem" }}>
+      <Title size="sm" strong>
+        Promo Codes
+      </Title>
+      {guildMetadata.tiers && guildMetadata.tiers.length > 1 && (
+        <Row>
+          <TierSelect
+            tiers={guildMetadata.tiers}
+            activeTierId={tierId}
+            setActiveTier={setTierId}
+            currency={guildMetadata.currency}
+          />
+        </Row>
+      )}
+      <Row>
+        <TextField
+          label="Discount (%)"
+          value={discount}
+          meta={validDiscount ? {} : { error: "Must be between 1 and 100" }}
+          onChange={(e) => setDiscount(e.target.value)}
+        />
+        <TextField
+          label={`Or fixed monthly price (${guildMetadata.currency})`}
+          value={fixedPrice}
+          meta={validFixedPrice ? {} : { error: "Invalid amount" }}
+          onChange={(e) => setFixedPrice(e.target.value)}
+        />
+      </Row>
+      <Row>
+        <TextField
+          label="Max uses"
+          value={maxUses}
+          onChange={(e) => setMaxUses(e.target.value)}
+        />
+        <TextField
+          label="Valid for (days)"
+          value={validDays}
+          onChange={(e) => setValidDays(e.target.value)}
+        />
+      </Row>
+      <Row>
+        <TextField
+          label="Recipient address (optional)"
+          value={recipient}
+          meta={validRecipient ? {} : { error: "Invalid address" }}
+          onChange={(e) => setRecipient(e.target.value)}
+        />
+        <Button
+          size="md"
+          color="primary"
+          variant="contained"
+          disabled={submitting || !validForm}
+          onClick={generate}
+        >
+          Generate
+        </Button>
+      </Row>
+      {promoCode && (
+        <Row>
+          <Text size="lg">{promoCode}</Text>
+          <CopyToClipboardBtn textToCopy={promoCode} />
+        </Row>
+      )}
+    </div>
+  );
+};
+
+export default GuildVouchers;
@@ -0,0 +1,43 @@
+import React from "react";
+import { Select } from "@gnosis.pm/safe-react-components";
+
+import { SUBSCRIPTION_PERIOD_OPTIONS } from "../../constants";
+
+type Props = {
+  activePeriods: number;
+  setActivePeriods: (periods: number) => void;
+  discountMinPeriods: number;
+  discountBps: number;
+};
+
+const PeriodSelect: React.FC<Props> = ({
+  activePeriods,
+  setActivePeriods,
+  discountMinPeriods,
+  discountBps,
+}) => {
+  const selectItems = SUBSCRIPTION_PERIOD_OPTIONS.map((periods) => {
+    let label = periods === 1 ? "1 month" : `${periods} months`;
+    if (discountBps > 0 && periods >= discountMinPeriods) {
+      label = `${label} (${discountBps / 100}% off)`;
+    }
+    return { id: periods.toString(), label };
+  });
+  const changePeriods = (id: string) => {
+    const periods = parseInt(id);
+    if (SUBSCRIPTION_PERIOD_OPTIONS.includes(periods)) {
+      setActivePeriods(periods);
+    } else {
+      console.error("Incorrect number of periods passed in");
+    }
+  };
+  return (
+    <Select
+      activeItemId={activePeriods.toString()}
+      items={selectItems}
+      onItemClick={changePeriods}
+    />
+  );
+};
+
+export default PeriodSelect;
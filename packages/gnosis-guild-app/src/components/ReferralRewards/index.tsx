@@ -0,0 +1,97 @@
+import React, { useCallback, useEffect, useState } from "react";
+import styled from "styled-components";
+import { ethers } from "ethers";
+import { Button, Text } from "@gnosis.pm/safe-react-components";
+
+import { useWeb3Context } from "../../context/Web3Context";
+import { ReferralReward, useGuild } from "../../hooks/useGuild";
+import { getCurrencyByTokenAddress } from "../../lib/networks";
+
+const Row = styled.div`
+  display: flex;
+  align-items: center;
+  gap: 0.4rem;
+`;
+
+type Props = {
+  guildAddress: string;
+  referrer: string;
+  tokenAddresses: Array<string>;
+};
+
+// Referral rewards stay in the guild until they are claimed
+const ReferralRewards: React.FC<Props> = ({
+  guildAddress,
+  referrer,
+  tokenAddresses,
+}) => {
+  const [rewards, setRewards] = useState<Array<ReferralReward>>([]);
+  const [submitting, setSubmitting] = useState(false);
+  const { ethersProvider, providerChainId } = useWeb3Context();
+  const { fetchReferralRewards, claimReferralReward } = useGuild();
+
+  const loadRewards = useCallback(async () => {
+    if (!ethersProvider || !guildAddress || !referrer) {
+      return;
+    }
+    const pending = await fetchReferralRewards(
+      ethersProvider,
+      guildAddress,
+      referrer,
+      tokenAddresses
+    );
+    setRewards(pending.filter((r) => r.amount.gt(0)));
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [ethersProvider, guildAddress, referrer, tokenAddresses]);
+
+  useEffect(() => {
+    loadRewards();
+  }, [loadRewards]);
+
+  const claim = async (tokenAddress: string) => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const tx = await claimReferralReward(
+        ethersProvider,
+        guildAddress,
+        tokenAddress,
+        referrer
+      );
+      await tx.wait(1);
+      await loadRewards();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  return (
+    <>
+      {rewards.map(({ amount, tokenAddress, decimals }) => (
+        <Row key={tokenAddress}>
+          <Text size="lg">
+            {`Referral rewards: ${ethers.utils.formatUnits(
+              amount,
+              decimals
+            )} ${getCurrencyByTokenAddress(providerChainId, tokenAddress)}`}
+          </Text>
+          <Button
+            size="md"
+            color="secondary"
+            variant="bordered"
+            disabled={submitting}
+            onClick={() => claim(tokenAddress)}
+          >
+            Claim
+          </Button>
+        </Row>
+      ))}
+    </>
+  );
+};
+
+export default ReferralRewards;
@@ -0,0 +1,94 @@
+import React, { useState } from "react";
+import { Button, Text } from "@gnosis.pm/safe-react-components";
+
+import { useWeb3Context } from "../../context/Web3Context";
+import { useGuild } from "../../hooks/useGuild";
+import { useSubscriber } from "../../hooks/useSubscriber";
+
+type Props = {
+  guildAddress: string;
+};
+
+const toDays = (seconds: number): number => Math.floor(seconds / 86400);
+
+// Frozen subscriptions keep their remaining time and stop renewing until they are unfrozen
+const SubscriptionFreeze: React.FC<Props> = ({ guildAddress }) => {
+  const [submitting, setSubmitting] = useState(false);
+  const { ethersProvider } = useWeb3Context();
+  const { freezeSubscription, unfreezeSubscription } = useGuild();
+  const { subscriber, setSubscriber } = useSubscriber();
+
+  const maxFreezeDuration = +subscriber.guild.maxFreezeDuration;
+  const maxFreezes = +subscriber.guild.maxFreezes;
+  const freezes = +subscriber.freezes;
+  const frozenAt = subscriber.frozenAt ? +subscriber.frozenAt : 0;
+  // the resume deadline is fixed by the policy in force when the subscription was frozen
+  const resumeAt = subscriber.resumeAt ? +subscriber.resumeAt : 0;
+  const limitReached = maxFreezes > 0 && freezes >= maxFreezes;
+
+  const submit = async () => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSubmitting(true);
+    try {
+      const send = frozenAt ? unfreezeSubscription : freezeSubscription;
+      const tx = await send(
+        subscriber.keyId.toString(),
+        guildAddress,
+        ethersProvider
+      );
+      await tx?.wait(1);
+      await setSubscriber();
+    } catch (err) {
+      console.error(err);
+    }
+    setSubmitting(false);
+  };
+
+  if (!frozenAt && maxFreezeDuration === 0) {
+    return null;
+  }
+
+  return (
+    <>
+      <Text size="xl" strong>
+        Freeze Contribution
+      </Text>
+      {frozenAt ? (
+        <Text size="lg">
+          {`Your contribution is frozen with ${toDays(
+            +subscriber.expires - frozenAt
+          )} day(s) left. Time starts running again on ${new Date(
+            resumeAt * 1000
+          ).toLocaleDateString()} at the latest.`}
+        </Text>
+      ) : (
+        <Text size="lg">
+          {`Pause your contribution for up to ${toDays(
+            maxFreezeDuration
+          )} day(s). Your remaining time is kept until you unfreeze it.${
+            maxFreezes > 0
+              ? ` ${Math.max(
+                  maxFreezes - freezes,
+                  0
+                )} of ${maxFreezes} freeze(s) left.`
+              : ""
+          }`}
+        </Text>
+      )}
+      <Button
+        size="md"
+        color="secondary"
+        variant="bordered"
+        disabled={submitting || (!frozenAt && limitReached)}
+        onClick={submit}
+      >
+        {frozenAt ? "Unfreeze" : "Freeze"}
+      </Button>
+    </>
+  );
+};
+
+export default SubscriptionFreeze;
@@ -0,0 +1,61 @@
+import React from "react";
+import { Select } from "@gnosis.pm/safe-react-components";
+
+import { GuildTier } from "../../context/GuildContext";
+import { getRemainingSeats, getSeatsText } from "../../lib/subscription";
+
+type Props = {
+  tiers: Array<GuildTier>;
+  activeTierId: number;
+  setActiveTier: (tierId: number) => void;
+  currency: string;
+  maxMembers?: number;
+  totalMembers?: number;
+};
+
+const TierSelect: React.FC<Props> = ({
+  tiers,
+  activeTierId,
+  setActiveTier,
+  currency,
+  maxMembers = 0,
+  totalMembers = 0,
+}) => {
+  const selectItems = tiers
+    .map((tier, tierId) => ({
+      id: tierId.toString(),
+      price: tier.prices ? tier.prices[currency] : tier.amount,
+      name: tier.name,
+      seats: getRemainingSeats(
+        maxMembers,
+        totalMembers,
+        +tier.cap,
+        tier.members || 0
+      ),
+    }))
+    // Tiers without a price in `currency` cannot be paid with it
+    .filter(({ price }) => price && price !== "0")
+    .map(({ id, name, price, seats }) => ({
+      id,
+      label: `${name} (${price} ${currency})${
+        seats !== null ? ` - ${getSeatsText(seats)}` : ""
+      }`,
+    }));
+  const changeTier = (id: string) => {
+    const tierId = parseInt(id);
+    if (tierId >= 0 && tierId < tiers.length) {
+      setActiveTier(tierId);
+    } else {
+      console.error("Incorrect tier passed in");
+    }
+  };
+  return (
+    <Select
+      activeItemId={activeTierId.toString()}
+      items={selectItems}
+      onItemClick={changeTier}
+    />
+  );
+};
+
+export default TierSelect;
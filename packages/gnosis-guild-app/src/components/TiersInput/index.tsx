@@ -0,0 +1,127 @@
+import React, { ChangeEvent } from "react";
+import styled from "styled-components";
+import isInt from "validator/lib/isInt";
+import isDecimal from "validator/lib/isDecimal";
+import { Button, Text, TextField } from "@gnosis.pm/safe-react-components";
+
+import { GuildTier } from "../../context/GuildContext";
+
+type Props = {
+  tiers: Array<GuildTier>;
+  setTiers: (arg0: Array<GuildTier>) => void;
+  currency: string;
+  setInvalidForm: (arg0: boolean) => void;
+};
+
+const TierRow = styled.div`
+  display: flex;
+  align-items: flex-start;
+  margin-top: 0.5rem;
+  gap: 0.4rem;
+`;
+
+const RemoveButton = styled(Button)`
+  &&& {
+    min-width: 0rem;
+  }
+`;
+
+const isValidTier = (tier: GuildTier): boolean =>
+  !!tier.name &&
+  tier.name.length <= 50 &&
+  (isInt(tier.amount) || isDecimal(tier.amount)) &&
+  parseFloat(tier.amount) > 0 &&
+  (!tier.cap || isInt(tier.cap, { min: 0 }));
+
+const TiersInput: React.FC<Props> = ({
+  tiers,
+  setTiers,
+  currency,
+  setInvalidForm,
+}) => {
+  const updateTiers = (updated: Array<GuildTier>) => {
+    setTiers(updated);
+    setInvalidForm(!updated.every(isValidTier));
+  };
+
+  const updateTier =
+    (index: number, field: keyof GuildTier) =>
+    (e: ChangeEvent<HTMLInputElement>) => {
+      const updated = tiers.map((tier, i) =>
+        i === index ? { ...tier, [field]: e.target.value } : tier
+      );
+      updateTiers(updated);
+    };
+
+  const addTier = () => {
+    updateTiers([...tiers, { name: "", amount: "", cap: "0" }]);
+  };
+
+  const removeTier = (index: number) => {
+    updateTiers(tiers.filter((_, i) => i !== index));
+  };
+
+  const fieldMeta = (valid: boolean, error: string) => (valid ? {} : { error });
+
+  return (
+    <>
+      <div>
+        <Text size="xl" strong>
+          Additional Tiers
+        </Text>
+      </div>
+      {tiers.map((tier, index) => (
+        <TierRow key={index}>
+          <TextField
+            label="Tier name"
+            value={tier.name}
+            meta={fieldMeta(
+              !!tier.name && tier.name.length <= 50,
+              "Name must be between 1 and 50 characters"
+            )}
+            onChange={updateTier(index, "name")}
+          />
+          <TextField
+            label={`Amount (${currency})`}
+            value={tier.amount}
+            meta={fieldMeta(
+              (isInt(tier.amount) || isDecimal(tier.amount)) &&
+                parseFloat(tier.amount) > 0,
+              "Must be a valid number"
+            )}
+            onChange={updateTier(index, "amount")}
+          />
+          <TextField
+            label="Member cap (0 = unlimited)"
+            value={tier.cap}
+            meta={fieldMeta(
+              !tier.cap || isInt(tier.cap, { min: 0 }),
+              "Must be a whole number"
+            )}
+            onChange={updateTier(index, "cap")}
+          />
+          <RemoveButton
+            size="md"
+            color="error"
+            variant="bordered"
+            onClick={() => removeTier(index)}
+          >
+            Remove
+          </RemoveButton>
+        </TierRow>
+      ))}
+      <TierRow>
+        <Button
+          size="md"
+          color="secondary"
+          variant="bordered"
+          onClick={addTier}
+        >
+          Add Tier
+        </Button>
+      </TierRow>
+    </>
+  );
+};
+
+export default TiersInput;
@@ -0,0 +1,107 @@
+import React, { useState } from "react";
+import styled from "styled-components";
+import isDecimal from "validator/lib/isDecimal";
+import isInt from "validator/lib/isInt";
+import { Button, Text, TextField } from "@gnosis.pm/safe-react-components";
+
+import CurrencySelect from "../CurrencySelect";
+import { useWeb3Context } from "../../context/Web3Context";
+import { useGuild } from "../../hooks/useGuild";
+import { getTokenAddressByCurrency } from "../../lib/networks";
+
+type Props = {
+  guildAddress: string;
+  currencies: Array<string>;
+};
+
+const Row = styled.div`
+  display: flex;
+  align-items: flex-start;
+  margin-top: 0.5rem;
+  gap: 0.4rem;
+`;
+
+// One-time contributions go to the guild balance without minting a membership
+const TipForm: React.FC<Props> = ({ guildAddress, currencies }) => {
+  const [currency, setCurrency] = useState(currencies[0]);
+  const [amount, setAmount] = useState("");
+  const [messageCID, setMessageCID] = useState("");
+  const [sending, setSending] = useState(false);
+  const [sent, setSent] = useState(false);
+  const { ethersProvider, providerChainId } = useWeb3Context();
+  const { sendTip } = useGuild();
+
+  // guild currencies load after the first render
+  const activeCurrency = currencies.includes(currency)
+    ? currency
+    : currencies[0];
+  const validAmount =
+    (isInt(amount) || isDecimal(amount)) && parseFloat(amount) > 0;
+
+  const send = async () => {
+    if (!ethersProvider) {
+      console.error("EthersProvider has not been set yet");
+      return;
+    }
+    setSending(true);
+    try {
+      const tx = await sendTip(
+        ethersProvider,
+        guildAddress,
+        getTokenAddressByCurrency(providerChainId, activeCurrency),
+        amount,
+        messageCID
+      );
+      await tx.wait(1);
+      setAmount("");
+      setMessageCID("");
+      setSent(true);
+    } catch (err) {
+      console.error(err);
+    }
+    setSending(false);
+  };
+
+  return (
+    <>
+      <Text size="xl" strong>
+        One-time Tip
+      </Text>
+      <Row>
+        <CurrencySelect
+          activeId={activeCurrency}
+          setActiveCurrency={setCurrency}
+          currencies={currencies}
+        />
+        <TextField
+          label={`Amount (${activeCurrency})`}
+          value={amount}
+          meta={amount && !validAmount ? { error: "Invalid amount" } : {}}
+          onChange={(e) => {
+            setAmount(e.target.value);
+            setSent(false);
+          }}
+        />
+      </Row>
+      <TextField
+        label="Tip message CID (optional)"
+        value={messageCID}
+        onChange={(e) => setMessageCID(e.target.value)}
+      />
+      <Row>
+        <Button
+          size="md"
+          color="primary"
+          variant="contained"
+          disabled={sending || !validAmount}
+          onClick={send}
+        >
+          Send Tip
+        </Button>
+      </Row>
+      {sent && <Text size="lg">Thanks for your tip!</Text>}
+    </>
+  );
+};
+
+export default TipForm;
@@ -7,4 +7,6 @@ export const CURRENCIES = [
   { id: "DAI", label: "Dai" },
 ];
 export const RISK_AGREEMENT_KEY = "risk_agreement";
+export const DEFAULT_TIER_NAME = "Contributor";
 export const SUBSCRIPTION_PERIOD_DEFAULT = 30 * 24 * 60; // 30 days in MINUTES
+export const SUBSCRIPTION_PERIOD_OPTIONS = [1, 3, 6, 12]; // prepaid periods
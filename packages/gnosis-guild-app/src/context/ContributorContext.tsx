@@ -1,6 +1,7 @@
 import React, { useCallback, useContext, useState } from "react";
 
 import { GraphSubscriber, Payment } from "../graphql";
+import { SignedVoucher } from "../lib/vouchers";
 
 export type ContributerContextValue = {
   email: string;
@@ -8,7 +9,23 @@ export type ContributerContextValue = {
   subscribed: boolean;
   subscriber: GraphSubscriber;
   guildMinimumAmount: string;
+  tierId: number;
+  currency: string;
+  periods: number;
+  // Set when gifting a membership. Empty when contributing for the connected account
+  giftRecipient: string;
+  giftMessageCID: string;
+  // Promo code voucher applied to the contribution
+  voucher: SignedVoucher | null;
+  // Member that shared the guild link. Empty if the contributor was not referred
+  referrer: string;
   setContributor: (arg0: string, arg1: string, arg2: string) => void;
+  setGift: (arg0: string, arg1: string) => void;
+  setVoucher: (arg0: SignedVoucher | null) => void;
+  setReferrer: (arg0: string) => void;
+  setTierId: (arg0: number) => void;
+  setCurrency: (arg0: string) => void;
+  setPeriods: (arg0: number) => void;
   setSubscriber: (arg0: GraphSubscriber) => void;
   setSubscribed: (arg0: boolean) => void;
 };
@@ -20,6 +37,23 @@ const initialSubscriber = {
   owner: "",
   paymentHistory: [] as Array<Payment>,
   keyId: 0,
+  expires: "0",
+  lockedToken: "",
+  lockedPrice: "0",
+  frozenAt: null as string | null,
+  resumeAt: null as string | null,
+  freezes: 0,
+  tier: {
+    tierId: 0,
+  },
+  guild: {
+    gracePeriod: 0,
+    refundPolicy: 0,
+    refundWindow: 0,
+    grandfatheredPricing: false,
+    maxFreezeDuration: 0,
+    maxFreezes: 0,
+  },
 };
 
 const initialContributionData = {
@@ -33,13 +67,56 @@ const initialContributionData = {
     owner: "",
     paymentHistory: [],
     keyId: 0,
+    expires: "0",
+    lockedToken: "",
+    lockedPrice: "0",
+    frozenAt: null,
+    resumeAt: null,
+    freezes: 0,
+    tier: {
+      tierId: 0,
+    },
+    guild: {
+      gracePeriod: 0,
+      refundPolicy: 0,
+      refundWindow: 0,
+      grandfatheredPricing: false,
+      maxFreezeDuration: 0,
+      maxFreezes: 0,
+    },
   },
   guildMinimumAmount: "0",
+  tierId: 0,
+  currency: "ETH",
+  periods: 1,
+  giftRecipient: "",
+  giftMessageCID: "",
+  voucher: null,
+  referrer: "",
   setContributor: (name: string, email: string, guildMinimumAmount: string) => {
     name;
     email;
     guildMinimumAmount;
   },
+  setGift: (recipient: string, messageCID: string) => {
+    recipient;
+    messageCID;
+  },
+  setVoucher: (voucher: SignedVoucher | null) => {
+    voucher;
+  },
+  setReferrer: (referrer: string) => {
+    referrer;
+  },
+  setTierId: (tierId: number) => {
+    tierId;
+  },
+  setCurrency: (currency: string) => {
+    currency;
+  },
+  setPeriods: (periods: number) => {
+    periods;
+  },
   setSubscriber: (subscriber: GraphSubscriber) => {
     subscriber;
   },
@@ -60,6 +137,13 @@ export const ContributorProvider: React.FC = ({ children }) => {
   const [email, setEmail] = useState("");
   const [subscribed, setSubscribed] = useState(false);
   const [guildMinimum, setGuildMinimum] = useState("0");
+  const [tierId, setTierId] = useState(0);
+  const [currency, setCurrency] = useState("ETH");
+  const [periods, setPeriods] = useState(1);
+  const [giftRecipient, setGiftRecipient] = useState("");
+  const [giftMessageCID, setGiftMessageCID] = useState("");
+  const [voucher, setVoucher] = useState<SignedVoucher | null>(null);
+  const [referrer, setReferrer] = useState("");
   const [subscriber, setSubscriber] = useState(initialSubscriber);
   const setContributor = useCallback(
     (name: string, email: string, guildMinimum: string) => {
@@ -69,6 +153,25 @@ export const ContributorProvider: React.FC = ({ children }) => {
     },
     []
   );
+  const setGift = useCallback((recipient: string, messageCID: string) => {
+    setGiftRecipient(recipient);
+    setGiftMessageCID(messageCID);
+  }, []);
+  const memoizedSetVoucher = useCallback((voucher: SignedVoucher | null) => {
+    setVoucher(voucher);
+  }, []);
+  const memoizedSetReferrer = useCallback((referrer: string) => {
+    setReferrer(referrer);
+  }, []);
+  const memoizedSetTierId = useCallback((tierId: number) => {
+    setTierId(tierId);
+  }, []);
+  const memoizedSetCurrency = useCallback((currency: string) => {
+    setCurrency(currency);
+  }, []);
+  const memoizedSetPeriods = useCallback((periods: number) => {
+    setPeriods(periods);
+  }, []);
   const memoizedSetSubscribed = useCallback((subscribed: boolean) => {
     setSubscribed(subscribed);
   }, []);
@@ -84,7 +187,20 @@ export const ContributorProvider: React.FC = ({ children }) => {
         subscribed,
         subscriber,
         guildMinimumAmount: guildMinimum,
+        tierId,
+        currency,
+        periods,
+        giftRecipient,
+        giftMessageCID,
+        voucher,
+        referrer,
         setContributor,
+        setGift,
+        setVoucher: memoizedSetVoucher,
+        setReferrer: memoizedSetReferrer,
+        setTierId: memoizedSetTierId,
+        setCurrency: memoizedSetCurrency,
+        setPeriods: memoizedSetPeriods,
         setSubscriber: memoizedSetSubscriber,
         setSubscribed: memoizedSetSubscribed,
       }}
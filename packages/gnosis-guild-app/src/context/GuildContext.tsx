@@ -5,6 +5,16 @@ import { useWeb3Context } from "./Web3Context";
 import { IPFS_GATEWAY } from "../constants";
 import { fetchGuildByAddress } from "../graphql";
 
+export type GuildTier = {
+  name: string;
+  amount: string;
+  cap: string;
+  // Subscriptions currently held on the tier
+  members?: number;
+  // Tier price by accepted currency. `amount` is the price in the default currency
+  prices?: { [currency: string]: string };
+};
+
 export type GuildMetadata = {
   name: string;
   description: string;
@@ -16,6 +26,21 @@ export type GuildMetadata = {
   guildAddress: string;
   imageCid: string;
   tokenAddress?: string;
+  tiers?: Array<GuildTier>;
+  acceptedCurrencies?: Array<string>;
+  discountMinPeriods?: number;
+  discountBps?: number;
+  transferPolicy?: number;
+  allowlistCID?: string;
+  maxMembers?: number;
+  totalMembers?: number;
+  grandfatheredPricing?: boolean;
+  maxFreezeDuration?: number;
+  maxFreezes?: number;
+  referralRewardBps?: number;
+  referralBonusDuration?: number;
+  closedAt?: string;
+  closingRefundsProcessedAt?: string;
   active: boolean;
 };
 
@@ -52,7 +77,8 @@ export const useGuildContext: () => GuildContextValue = () =>
 
 export const GuildProvider: React.FC = ({ children }) => {
   const [loading, setLoading] = useState(true);
-  const [guildMetadata, setGuildMetadata] = useState(initialGuildMetadata);
+  const [guildMetadata, setGuildMetadata] =
+    useState<GuildMetadata>(initialGuildMetadata);
   const { fetchMetadata } = useGuild();
   const { providerChainId, account } = useWeb3Context();
 
@@ -104,6 +130,17 @@ export const GuildProvider: React.FC = ({ children }) => {
           amount: metadata.amount,
           guildAddress: metadata.guildAddress,
           imageCid: metadata.imageCid,
+          allowlistCID: guild.allowlistCID || undefined,
+          maxMembers: +guild.maxMembers,
+          totalMembers: +guild.totalSubscribers,
+          grandfatheredPricing: guild.grandfatheredPricing,
+          maxFreezeDuration: +guild.maxFreezeDuration,
+          maxFreezes: +guild.maxFreezes,
+          referralRewardBps: +guild.referralRewardBps,
+          referralBonusDuration: +guild.referralBonusDuration,
+          closedAt: guild.closedAt || undefined,
+          closingRefundsProcessedAt:
+            guild.closingRefundsProcessedAt || undefined,
           active: guild.active,
         });
       }
@@ -18,6 +18,7 @@ import { SUBSCRIPTION_PERIOD_DEFAULT } from "../constants";
 import { getNetworkByChainId } from "../lib/networks";
 import AllowanceModuleAbi from "../contracts/gnosis/AllowanceModule.json";
 import ERC20Abi from "../contracts/ERC20.json";
+import GuildAppABI from "../contracts/GuildApp.json";
 
 export type Web3ContextValue = {
   connectToWeb3: () => void;
@@ -36,10 +37,14 @@ export type Web3ContextValue = {
     functionName: string,
     args: Array<string>
   ): Array<Transaction>;
-  signTransfer: (
+  signSafeSubscription: (
     guildAddress: string,
+    method: string,
+    tierId: number,
     tokenAddress: string,
-    contributionValue: string
+    periods: number,
+    contributionValue: string,
+    referrer?: string
   ) => Promise<string>;
   submitCPKTx: (
     txs: Array<Transaction>
@@ -88,13 +93,21 @@ const initialWeb3Context = {
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     args: Array<string>
   ) => [],
-  signTransfer: async (
+  signSafeSubscription: async (
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
     guildAddress: string,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    method: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    tierId: number,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
     tokenAddress: string,
     // eslint-disable-next-line @typescript-eslint/no-unused-vars
-    contributionValue: string
+    periods: number,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    contributionValue: string,
+    // eslint-disable-next-line @typescript-eslint/no-unused-vars
+    referrer?: string
   ) => "",
   // eslint-disable-next-line @typescript-eslint/no-unused-vars
   submitCPKTx: async (txs: Array<Transaction>) => null,
@@ -413,58 +426,46 @@ export const Web3ContextProvider: React.FC = ({ children }) => {
     ];
   };
 
-  const signTransfer = async (
+  // Proxy owners sign the guild subscription digest. The guild verifies it through EIP-1271.
+  // The signature is only valid when calling `method` with the same referrer
+  const signSafeSubscription = async (
     guildAddress: string,
+    method: string,
+    tierId: number,
     tokenAddress: string,
-    contributionValue: string
+    periods: number,
+    contributionValue: string,
+    referrer = ethers.constants.AddressZero
   ): Promise<string> => {
-    if (!ethersProvider || !cpk) {
+    if (!ethersProvider || !cpk?.address) {
       throw new Error("Provider is not setup!");
     }
-    const { gnosisConfig } = getNetworkByChainId(providerChainId);
-    // const domain = {
-    //   chainId: providerChainId,
-    //   verifyingContract: gnosisConfig.allowanceModule,
-    // };
-    // const types = {
-    //   AllowanceTransfer: [
-    //     { type: "address", name: "safe" },
-    //     { type: "address", name: "token" },
-    //     { type: "address", name: "to" },
-    //     { type: "uint96", name: "amount" },
-    //     { type: "address", name: "paymentToken" },
-    //     { type: "uint96", name: "payment" },
-    //     { type: "uint16", name: "nonce" },
-    //   ],
-    // };
-
-    const signer = ethersProvider.getSigner();
-    const allowanceModule = new ethers.Contract(
-      gnosisConfig.allowanceModule,
-      AllowanceModuleAbi,
-      signer
-    );
-
-    const delegate = await signer.getAddress();
-
-    const allowance = await allowanceModule.allowances(
-      cpk.address,
-      delegate,
-      tokenAddress
+    const guild = new ethers.Contract(
+      guildAddress,
+      GuildAppABI,
+      ethersProvider
     );
-    const transferHash = await allowanceModule.generateTransferHash(
-      cpk.address,
+    const digest = await guild.safeSubscriptionHash(cpk.address, {
+      entryPoint: guild.interface.getSighash(method),
+      tierId,
       tokenAddress,
-      guildAddress,
-      contributionValue,
-      ethers.constants.AddressZero,
-      0,
-      allowance.nonce
+      periods,
+      value: contributionValue,
+      referrer,
+    });
+    // Served by the Safe fallback handler
+    const safe = new ethers.Contract(
+      cpk.address,
+      ["function getMessageHash(bytes) view returns (bytes32)"],
+      ethersProvider
     );
-
-    const signature = await signer.signMessage(transferHash);
-
-    return signature;
+    const messageHash = await safe.getMessageHash(digest);
+    const signature = await ethersProvider
+      .getSigner()
+      .signMessage(ethers.utils.arrayify(messageHash));
+    const { r, s, v } = ethers.utils.splitSignature(signature);
+    // The Safe tells eth_sign signatures apart by v being shifted by 4
+    return ethers.utils.hexlify(ethers.utils.concat([r, s, [v + 4]]));
   };
 
   const submitCPKTx = async (
@@ -502,7 +503,7 @@ export const Web3ContextProvider: React.FC = ({ children }) => {
     fundProxy,
     setupCPKModules,
     encodeAllowanceModuleCall,
-    signTransfer,
+    signSafeSubscription,
     submitCPKTx,
     ethersProvider,
     cpk,
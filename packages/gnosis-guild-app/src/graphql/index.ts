@@ -7,6 +7,22 @@ export type GuildBalance = {
   tokenAddress: string;
   currentBalance: number;
   totalSubscriptions: number;
+  totalTips: number;
+  totalFees: number;
+};
+
+export type GraphTierPrice = {
+  tokenAddress: string;
+  price: number;
+};
+
+export type GraphTier = {
+  tierId: number;
+  name: string;
+  prices: Array<GraphTierPrice>;
+  period: number;
+  cap: number;
+  totalSubscribers: number;
 };
 
 export type GuildWithdrawal = {
@@ -16,6 +32,11 @@ export type GuildWithdrawal = {
   beneficiary: string;
 };
 
+export type GraphGuildMember = {
+  account: string;
+  roles: Array<string>;
+};
+
 export type GraphGuild = {
   active: boolean;
   currentPrice: number;
@@ -24,13 +45,44 @@ export type GraphGuild = {
   name: string;
   owner: string;
   subsPeriod: number;
+  discountMinPeriods: number;
+  discountBps: number;
+  transferPolicy: number;
+  allowlistCID: string | null;
+  maxMembers: number;
+  grandfatheredPricing: boolean;
+  maxFreezeDuration: number;
+  maxFreezes: number;
+  referralRewardBps: number;
+  referralBonusDuration: number;
+  closedAt: string | null;
+  closingRefundsProcessedAt: string | null;
   subscriptions: Array<any>;
   symbol: string;
   lastMetadataUpdate: number;
   tokenAddress: string;
+  acceptedTokens: Array<string>;
   totalSubscribers: number;
+  tiers: Array<GraphTier>;
   balances: Array<GuildBalance>;
   withdrawals: Array<GuildWithdrawal>;
+  members: Array<GraphGuildMember>;
+};
+
+export type GraphReferrer = {
+  account: string;
+  totalReferrals: number;
+  totalBonusDuration: number;
+};
+
+export type GraphLapsedSubscription = {
+  keyId: string;
+  owner: string;
+  expires: string;
+  frozenAt: string | null;
+  guild: {
+    gracePeriod: number;
+  };
 };
 
 export type Payment = {
@@ -44,6 +96,23 @@ export type GraphSubscriber = {
   owner: string;
   paymentHistory: Array<Payment>;
   keyId: number;
+  expires: string;
+  lockedToken: string;
+  lockedPrice: string;
+  frozenAt: string | null;
+  resumeAt: string | null;
+  freezes: number;
+  tier: {
+    tierId: number;
+  };
+  guild: {
+    gracePeriod: number;
+    refundPolicy: number;
+    refundWindow: number;
+    grandfatheredPricing: boolean;
+    maxFreezeDuration: number;
+    maxFreezes: number;
+  };
 };
 
 const guildBaseFields = `
@@ -57,17 +126,47 @@ const guildBaseFields = `
     currentPrice
 		lastMetadataUpdate
     subsPeriod
+    acceptedTokens
+    discountMinPeriods
+    discountBps
+    transferPolicy
+    allowlistCID
+    maxMembers
+    grandfatheredPricing
+    maxFreezeDuration
+    maxFreezes
+    referralRewardBps
+    referralBonusDuration
+    closedAt
+    closingRefundsProcessedAt
     totalSubscribers
+    tiers(orderBy: tierId) {
+      tierId
+      name
+      prices {
+        tokenAddress
+        price
+      }
+      period
+      cap
+      totalSubscribers
+    }
     balances {
       tokenAddress
       currentBalance
       totalSubscriptions
+      totalTips
+      totalFees
     }
     withdrawals {
       tokenAddress
       value
       beneficiary
     }
+    members {
+      account
+      roles
+    }
 `;
 
 export const fetchGuildByAddress = async (
@@ -167,15 +266,35 @@ export const fetchSubscriberByGuild = async (
   chainId: number
 ): Promise<Array<GraphSubscriber> | null> => {
   const fetchGuildQuery = gql`
-    query getContributors($owner: String, $date: String, $guild: String) {
+    query getContributors($owner: String, $guild: String) {
       guildSubscriptions(
-        where: { expires_gte: $date, guild: $guild, owner: $owner }
+        where: { guild: $guild, owner: $owner, active: true }
+        orderBy: expires
+        orderDirection: desc
+        first: 1
       ) {
         id
         active
         unsubscribedAt
         owner
         keyId
+        expires
+        lockedToken
+        lockedPrice
+        frozenAt
+        resumeAt
+        freezes
+        tier {
+          tierId
+        }
+        guild {
+          gracePeriod
+          refundPolicy
+          refundWindow
+          grandfatheredPricing
+          maxFreezeDuration
+          maxFreezes
+        }
         paymentHistory(orderBy: purchasedAt, orderDirection: desc) {
           value
         }
@@ -185,7 +304,6 @@ export const fetchSubscriberByGuild = async (
 
   const network = getNetworkByChainId(chainId);
   const resp = await request(network.subgraphUrl, fetchGuildQuery, {
-    date: (Date.now() / 1000).toFixed(0).toString(),
     guild: guildId,
     owner: subscriberAddress,
   }).catch((e) => {
@@ -197,3 +315,82 @@ export const fetchSubscriberByGuild = async (
   }
   return null;
 };
+
+export const fetchGuildReferrers = async (
+  guildId: string,
+  chainId: number
+): Promise<Array<GraphReferrer>> => {
+  const fetchReferrersQuery = gql`
+    query getGuildReferrers($guild: String) {
+      guildReferrers(
+        where: { guild: $guild }
+        orderBy: totalReferrals
+        orderDirection: desc
+        first: 10
+      ) {
+        account
+        totalReferrals
+        totalBonusDuration
+      }
+    }
+  `;
+
+  const network = getNetworkByChainId(chainId);
+  const resp = await request(network.subgraphUrl, fetchReferrersQuery, {
+    guild: guildId.toLowerCase(),
+  }).catch((e) => {
+    console.error(e);
+    console.error("Failed to fetch guild referrers from subgraph");
+  });
+  if (resp && resp.guildReferrers) {
+    return resp.guildReferrers;
+  }
+  return [];
+};
+
+// Subscriptions past their grace period that still hold a seat. Seats are released through GuildApp.releaseSeat
+export const fetchLapsedSubscriptions = async (
+  guildId: string,
+  chainId: number
+): Promise<Array<GraphLapsedSubscription>> => {
+  const fetchLapsedQuery = gql`
+    query getLapsedSubscriptions($guild: String, $date: String) {
+      guildSubscriptions(
+        where: {
+          guild: $guild
+          active: true
+          seatReleased: false
+          expires_lt: $date
+        }
+        first: 100
+      ) {
+        keyId
+        owner
+        expires
+        frozenAt
+        guild {
+          gracePeriod
+        }
+      }
+    }
+  `;
+
+  const now = Math.floor(Date.now() / 1000);
+  const network = getNetworkByChainId(chainId);
+  const resp = await request(network.subgraphUrl, fetchLapsedQuery, {
+    guild: guildId.toLowerCase(),
+    date: now.toString(),
+  }).catch((e) => {
+    console.error(e);
+    console.error("Failed to fetch lapsed subscriptions from subgraph");
+  });
+  if (resp && resp.guildSubscriptions) {
+    // frozen subscriptions & those still in grace keep their seat
+    return resp.guildSubscriptions.filter(
+      (subscription: GraphLapsedSubscription) =>
+        !subscription.frozenAt &&
+        +subscription.expires + +subscription.guild.gracePeriod <= now
+    );
+  }
+  return [];
+};
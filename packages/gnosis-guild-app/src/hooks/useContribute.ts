@@ -9,6 +9,10 @@ import { useGuild } from "./useGuild";
 import { useContributorProfile } from "./useContributorProfile";
 import { useSubscriber } from "./useSubscriber";
 import { fetchGuild } from "../graphql";
+import { getTokenAddressByCurrency } from "../lib/networks";
+import { getSubscriptionCost } from "../lib/pricing";
+import { NOT_INVITED_ERROR } from "../lib/subscription";
+import { applyVoucher } from "../lib/vouchers";
 
 type Contribution = {
   submitContribution: (
@@ -36,8 +40,19 @@ export const useContribute = (): Contribution => {
     getProxyBalance,
     getBalanceOf,
   } = useWeb3Context();
-  const { name, email, guildMinimumAmount } = useContributorContext();
-  const { subscribe, unsubscribe } = useGuild();
+  const {
+    name,
+    email,
+    guildMinimumAmount,
+    tierId,
+    currency,
+    periods,
+    giftRecipient,
+    giftMessageCID,
+    voucher,
+    referrer,
+  } = useContributorContext();
+  const { subscribe, giftSubscription, unsubscribe } = useGuild();
   const { guildId } = useParams<{ guildId: string }>();
   const { saveContributorProfile } = useContributorProfile();
   const { subscriber } = useSubscriber();
@@ -67,12 +82,37 @@ export const useContribute = (): Contribution => {
 
     setContributeLoading(true);
     try {
+      if (giftRecipient) {
+        const tx = await giftSubscription(
+          ethersProvider,
+          guildId,
+          tokenAddress,
+          guildMinimumAmount,
+          tierId,
+          periods,
+          giftRecipient,
+          giftMessageCID
+        );
+        await tx.wait();
+        enqueueSnackbar("Membership gifted!", {
+          anchorOrigin: { horizontal: "right", vertical: "top" },
+          preventDuplicate: true,
+          variant: "success",
+        });
+        setContributeLoading(false);
+        return;
+      }
       const tx = await subscribe(
         providerChainId,
         ethersProvider,
         guildId,
         tokenAddress,
-        guildMinimumAmount
+        guildMinimumAmount,
+        tierId,
+        periods,
+        voucher || undefined,
+        guildMetadata.allowlistCID || undefined,
+        referrer || undefined
       );
       if (tx) {
         await tx.wait();
@@ -82,31 +122,54 @@ export const useContribute = (): Contribution => {
       await setSubscriber();
       setContributeLoading(false);
     } catch (error) {
-      enqueueSnackbar("Failed to contribute to guild", {
-        anchorOrigin: { horizontal: "right", vertical: "top" },
-        preventDuplicate: true,
-        variant: "error",
-      });
+      // accounts missing from an invite-only guild list are rejected before sending the tx
+      enqueueSnackbar(
+        error instanceof Error && error.message === NOT_INVITED_ERROR
+          ? NOT_INVITED_ERROR
+          : "Failed to contribute to guild",
+        {
+          anchorOrigin: { horizontal: "right", vertical: "top" },
+          preventDuplicate: true,
+          variant: "error",
+        }
+      );
       return;
       console.error("An error occurred while trying to subscribe", error);
     }
   };
 
   const submitContributionTx = async () => {
-    setModalFooter(
-      cpk
-        ? "Creating Subscription using a Proxy..."
-        : "Approving tokens & creating subscription..."
-    );
+    if (giftRecipient) {
+      setModalFooter("Approving tokens & gifting membership...");
+    } else {
+      setModalFooter(
+        cpk
+          ? "Creating Subscription using a Proxy..."
+          : "Approving tokens & creating subscription..."
+      );
+    }
     setContributeLoading(true);
 
-    const bnValue = utils.parseEther(guildMinimumAmount);
+    let bnValue = getSubscriptionCost(
+      guildMinimumAmount,
+      periods,
+      +guildMetadata.discountMinPeriods,
+      +guildMetadata.discountBps
+    );
+    // Vouchers apply to the tier price. The contribution amount is locked to it by the ContributeForm
+    if (voucher && !giftRecipient) {
+      bnValue = applyVoucher(bnValue, voucher.voucher, periods);
+    }
+    const tokenAddress = getTokenAddressByCurrency(providerChainId, currency);
     const proxyBalance = cpk?.address
-      ? await getProxyBalance(guildMetadata.tokenAddress)
+      ? await getProxyBalance(tokenAddress)
       : BigNumber.from("0");
-    const balance = await getBalanceOf(account, guildMetadata.tokenAddress);
+    const balance = await getBalanceOf(account, tokenAddress);
 
-    if (balance.lt(bnValue) && cpk?.address && proxyBalance.lt(bnValue)) {
+    const insufficientBalance = giftRecipient
+      ? balance.lt(bnValue)
+      : balance.lt(bnValue) && cpk?.address && proxyBalance.lt(bnValue);
+    if (insufficientBalance) {
       enqueueSnackbar("Tx Failed. Not Enough Balance!", {
         anchorOrigin: { horizontal: "right", vertical: "top" },
         preventDuplicate: true,
@@ -119,10 +182,10 @@ export const useContribute = (): Contribution => {
     }
 
     await submitContribution(
-      guildMetadata.tokenAddress,
+      tokenAddress,
       name,
       email,
-      guildMinimumAmount
+      utils.formatEther(bnValue)
     );
     setContributeLoading(false);
   };
@@ -155,12 +218,17 @@ export const useContribute = (): Contribution => {
     setContributeLoading(false);
     setSubscribed(false);
   };
-  const loadingText = subscribed
+  const cancelling = subscribed && !giftRecipient;
+  let loadingText = cancelling
     ? "Cancelling Contribution..."
     : "Sending Contribution...";
-  const staticText = subscribed ? "Cancel Contribution" : "Contribute";
+  let staticText = cancelling ? "Cancel Contribution" : "Contribute";
+  if (giftRecipient) {
+    loadingText = "Sending Gift...";
+    staticText = "Gift Membership";
+  }
   const contributeText = !contributeLoading ? staticText : loadingText;
-  const contributionTx = subscribed ? unsubscribeTx : submitContributionTx;
+  const contributionTx = cancelling ? unsubscribeTx : submitContributionTx;
 
   return {
     submitContribution,
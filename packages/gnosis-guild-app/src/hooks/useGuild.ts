@@ -9,17 +9,53 @@ import SafeAppsSDK, {
 import { API, IPFS_GATEWAY } from "../constants";
 import GuildFactoryABI from "../contracts/GuildFactory.json";
 import GuildAppABI from "../contracts/GuildApp.json";
-import { getNetworkByChainId } from "../lib/networks";
-import { SUBSCRIPTION_PERIOD_DEFAULT } from "../constants";
+import {
+  getNetworkByChainId,
+  getTokenAddressByCurrency,
+} from "../lib/networks";
+import { signPermit } from "../lib/permits";
+import { NOT_INVITED_ERROR, TransferPolicy } from "../lib/subscription";
+import {
+  getVoucherDomain,
+  SignedVoucher,
+  Voucher,
+  VOUCHER_TYPES,
+} from "../lib/vouchers";
+import { DEFAULT_TIER_NAME, SUBSCRIPTION_PERIOD_DEFAULT } from "../constants";
 
 import { GuildMetadata, useGuildContext } from "../context/GuildContext";
 import { useWeb3Context } from "../context/Web3Context";
 import ERC20Abi from "../contracts/ERC20.json";
 
+// Max amount of subscriptions snapshotted by each processClosingRefunds tx
+const CLOSING_REFUNDS_BATCH_SIZE = 200;
+
 function timeout(ms: number) {
   return new Promise((resolve) => setTimeout(resolve, ms));
 }
 
+// Closing refund of a subscription, denominated in its payment token
+export type ClosingRefund = {
+  amount: ethers.BigNumber;
+  tokenAddress: string;
+  decimals: number;
+};
+
+// Referral rewards are kept by the guild until the referrer claims them
+export type ReferralReward = {
+  amount: ethers.BigNumber;
+  tokenAddress: string;
+  decimals: number;
+};
+
+// Allowlist built by the server from an uploaded list of addresses
+export type Allowlist = {
+  root: string;
+  listCID: string;
+  total: number;
+  invalid: Array<string>;
+};
+
 type SafetGuild = {
   createGuild: (
     arg0: number,
@@ -27,7 +63,8 @@ type SafetGuild = {
     arg2: GuildMetadata,
     arg3: string,
     arg4: SafeAppsSDK,
-    arg5?: (arg0: boolean, arg1?: string, arg2?: string) => void
+    arg5?: (arg0: boolean, arg1?: string, arg2?: string) => void,
+    arg6?: (guildAddress: string) => void
   ) => Promise<GatewayTransactionDetails>;
   deactivateGuild: (
     arg0: ethers.providers.Web3Provider,
@@ -46,13 +83,133 @@ type SafetGuild = {
     arg1: ethers.providers.Web3Provider,
     arg2: string,
     arg3: string,
-    arg4: string
+    arg4: string,
+    arg5: number,
+    arg6: number,
+    arg7?: SignedVoucher,
+    arg8?: string,
+    arg9?: string
   ) => Promise<ethers.providers.TransactionResponse | null>;
+  createVoucher: (
+    chainId: number,
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    voucher: Voucher
+  ) => Promise<string>;
+  fetchVoucher: (code: string) => Promise<SignedVoucher>;
+  uploadAllowlist: (addresses: File) => Promise<Allowlist>;
+  fetchAllowlistProof: (
+    listCID: string,
+    account: string
+  ) => Promise<Array<string> | null>;
+  updateAllowlist: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    root: string,
+    listCID: string,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  updateMaxMembers: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    maxMembers: number,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  updateGrandfatheredPricing: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    enabled: boolean,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  updateFreezePolicy: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    maxFreezeDuration: number,
+    maxFreezes: number,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  updateReferralPolicy: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    rewardBps: number,
+    bonusDuration: number,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  joinWaitlist: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tierId: number
+  ) => Promise<ethers.providers.TransactionResponse>;
+  releaseSeats: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenIds: Array<string>,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  closeGuild: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  processClosingRefunds: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  fetchClosingRefund: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenId: number
+  ) => Promise<ClosingRefund>;
+  claimClosingRefund: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenId: number
+  ) => Promise<ethers.providers.TransactionResponse>;
+  fetchReferralRewards: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    referrer: string,
+    tokenAddresses: Array<string>
+  ) => Promise<Array<ReferralReward>>;
+  claimReferralReward: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenAddress: string,
+    referrer: string
+  ) => Promise<ethers.providers.TransactionResponse>;
+  giftSubscription: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    guildToken: string,
+    value: string,
+    tierId: number,
+    periods: number,
+    recipient: string,
+    messageCID: string
+  ) => Promise<ethers.providers.TransactionResponse>;
+  sendTip: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenAddress: string,
+    value: string,
+    messageCID: string
+  ) => Promise<ethers.providers.TransactionResponse>;
   unsubscribe: (
     keyId: string,
     guildAddress: string,
     ethersProvider: ethers.providers.Web3Provider
   ) => Promise<ethers.providers.TransactionResponse | null>;
+  freezeSubscription: (
+    keyId: string,
+    guildAddress: string,
+    ethersProvider: ethers.providers.Web3Provider
+  ) => Promise<ethers.providers.TransactionResponse | null>;
+  unfreezeSubscription: (
+    keyId: string,
+    guildAddress: string,
+    ethersProvider: ethers.providers.Web3Provider
+  ) => Promise<ethers.providers.TransactionResponse | null>;
   fetchMetadata: (arg0: string, arg1: string) => Promise<GuildMetadata>;
   updateMetadataCid: (
     arg0: GuildMetadata,
@@ -60,6 +217,34 @@ type SafetGuild = {
     arg2: SafeAppsSDK,
     arg3?: (arg0: boolean, arg1?: string, arg2?: string) => void
   ) => Promise<GatewayTransactionDetails | Error>;
+  updateRole: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    role: string,
+    account: string,
+    grant: boolean,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  updatePayees: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    payees: Array<string>,
+    shares: Array<string>,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  distributeFunds: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenAddress: string,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
+  claimFunds: (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenAddress: string,
+    payee: string,
+    sdk: SafeAppsSDK
+  ) => Promise<GatewayTransactionDetails | undefined>;
 };
 
 const pollSafeTx = async (
@@ -93,6 +278,70 @@ const pollSafeTx = async (
   return safeTx;
 };
 
+// Guild settings that are not part of `initialize` are configured right after deployment
+const encodeGuildConfig = (
+  chainId: number,
+  guildInfo: GuildMetadata
+): Array<string> => {
+  const iface = new ethers.utils.Interface(GuildAppABI);
+  const calls = [];
+  const tiers = guildInfo.tiers || [];
+  const extraCurrencies = (guildInfo.acceptedCurrencies || []).filter(
+    (currency) => currency !== guildInfo.currency
+  );
+  for (const currency of extraCurrencies) {
+    calls.push(
+      iface.encodeFunctionData("addPaymentToken", [
+        getTokenAddressByCurrency(chainId, currency),
+        tiers.map((tier) =>
+          ethers.utils.parseEther((tier.prices && tier.prices[currency]) || "0")
+        ),
+      ])
+    );
+  }
+  if (guildInfo.discountBps && guildInfo.discountMinPeriods) {
+    calls.push(
+      iface.encodeFunctionData("setPeriodDiscount", [
+        guildInfo.discountMinPeriods,
+        guildInfo.discountBps,
+      ])
+    );
+  }
+  return calls;
+};
+
+// Send a single GuildApp call through the Safe and wait for it to be processed
+const sendGuildTx = async (
+  ethersProvider: ethers.providers.Web3Provider,
+  guildAddress: string,
+  method: string,
+  args: Array<unknown>,
+  sdk: SafeAppsSDK
+): Promise<GatewayTransactionDetails | undefined> => {
+  if (!guildAddress) {
+    return;
+  }
+  const guildContract = new Contract(
+    guildAddress,
+    GuildAppABI,
+    ethersProvider.getSigner()
+  );
+  const unsignedTransaction = await guildContract.populateTransaction[method](
+    ...args
+  );
+
+  const txs = [
+    {
+      to: guildAddress,
+      value: "0",
+      data: unsignedTransaction.data as string,
+    },
+  ];
+
+  const safeTxs = await sdk.txs.send({ txs });
+  return await pollSafeTx(safeTxs, sdk);
+};
+
 export const useGuild = (): SafetGuild => {
   const { guildMetadata } = useGuildContext();
   const {
@@ -101,7 +350,7 @@ export const useGuild = (): SafetGuild => {
     getProxyBalance,
     setupCPKModules,
     encodeAllowanceModuleCall,
-    signTransfer,
+    signSafeSubscription,
     submitCPKTx,
   } = useWeb3Context();
 
@@ -139,7 +388,8 @@ export const useGuild = (): SafetGuild => {
     guildInfo: GuildMetadata,
     creatorAddress: string,
     sdk: SafeAppsSDK,
-    setPrevModal?: (arg0: boolean, arg1?: string, arg2?: string) => void
+    setPrevModal?: (arg0: boolean, arg1?: string, arg2?: string) => void,
+    setPredictedAddress?: (guildAddress: string) => void
   ): Promise<GatewayTransactionDetails> => {
     try {
       const network = getNetworkByChainId(chainId);
@@ -150,20 +400,34 @@ export const useGuild = (): SafetGuild => {
         ethersProvider.getSigner()
       );
       const count = await factoryContract.totalGuilds();
+      // Guild is deployed through CREATE2 so its address is known before the Safe tx is executed
+      const salt = ethers.utils.hexlify(ethers.utils.randomBytes(32));
+      const guildAddress = await factoryContract.predictGuildAddress(
+        creatorAddress,
+        salt
+      );
 
-      let tokenAddress = ethers.constants.AddressZero;
-      if (guildInfo.currency === "DAI") {
-        tokenAddress = network.daiToken;
-      }
+      const tokenAddress = getTokenAddressByCurrency(
+        chainId,
+        guildInfo.currency
+      );
       const subscriptionTime = SUBSCRIPTION_PERIOD_DEFAULT * 60; // Get time in seconds
+      const tiers = guildInfo.tiers || [
+        { name: DEFAULT_TIER_NAME, amount: guildInfo.amount, cap: "0" },
+      ];
       const metadataCid = await saveMetadata(guildInfo);
       const functionArgs = [
         creatorAddress,
         tokenAddress,
-        ethers.utils.parseEther(guildInfo.amount),
-        subscriptionTime,
+        tiers.map((tier) => [
+          tier.name,
+          ethers.utils.parseEther(tier.amount),
+          subscriptionTime,
+          tier.cap || "0",
+        ]),
         [guildInfo.name, `GUILD${count}`, "https://ipfs.io/ipfs/", metadataCid],
         network.gnosisConfig.allowanceModule,
+        guildInfo.transferPolicy || TransferPolicy.Transferable,
       ];
 
       const iface = new ethers.utils.Interface(GuildAppABI);
@@ -172,9 +436,11 @@ export const useGuild = (): SafetGuild => {
       if (setPrevModal) {
         setPrevModal(false);
       }
-      const unsignedTransaction = await factoryContract.populateTransaction[
-        "createGuild(bytes)"
-      ](calldata);
+      const unsignedTransaction =
+        await factoryContract.populateTransaction.createGuildDeterministic(
+          calldata,
+          salt
+        );
 
       const txs = [
         {
@@ -182,7 +448,15 @@ export const useGuild = (): SafetGuild => {
           value: "0",
           data: unsignedTransaction.data as string,
         },
+        ...encodeGuildConfig(chainId, guildInfo).map((data) => ({
+          to: guildAddress,
+          value: "0",
+          data,
+        })),
       ];
+      if (setPredictedAddress) {
+        setPredictedAddress(guildAddress);
+      }
       if (setPrevModal) {
         setPrevModal(
           true,
@@ -279,6 +553,71 @@ export const useGuild = (): SafetGuild => {
     return safeTx;
   };
 
+  const updateRole = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    role: string,
+    account: string,
+    grant: boolean,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    const method = grant ? "grantRole" : "revokeRole";
+    return sendGuildTx(
+      ethersProvider,
+      guildAddress,
+      method,
+      [role, account],
+      sdk
+    );
+  };
+
+  const updatePayees = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    payees: Array<string>,
+    shares: Array<string>,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    return sendGuildTx(
+      ethersProvider,
+      guildAddress,
+      "setPayees",
+      [payees, shares],
+      sdk
+    );
+  };
+
+  const distributeFunds = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenAddress: string,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    return sendGuildTx(
+      ethersProvider,
+      guildAddress,
+      "distribute",
+      [tokenAddress],
+      sdk
+    );
+  };
+
+  const claimFunds = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenAddress: string,
+    payee: string,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    return sendGuildTx(
+      ethersProvider,
+      guildAddress,
+      "claim",
+      [tokenAddress, payee],
+      sdk
+    );
+  };
+
   const saveMetadata = async (guildInfo: GuildMetadata): Promise<string> => {
     const form = new FormData();
     form.append("name", guildInfo.name);
@@ -314,11 +653,7 @@ export const useGuild = (): SafetGuild => {
       ethersProvider.getSigner()
     );
 
-    const network = getNetworkByChainId(chainId);
-    let tokenAddress = network.daiToken;
-    if (token === "ETH") {
-      tokenAddress = ethers.constants.AddressZero;
-    }
+    const tokenAddress = getTokenAddressByCurrency(chainId, token);
 
     return await guildContract
       .guildBalance(tokenAddress)
@@ -330,14 +665,87 @@ export const useGuild = (): SafetGuild => {
     ethersProvider: ethers.providers.Web3Provider,
     guildAddress: string,
     guildToken: string,
-    value: string
+    value: string,
+    tierId: number,
+    periods: number,
+    voucher?: SignedVoucher,
+    allowlistCID?: string,
+    referrer?: string
   ): Promise<ethers.providers.TransactionResponse | null> => {
     const signer = ethersProvider.getSigner();
-
     const guildContract = new Contract(guildAddress, GuildAppABI, signer);
 
+    // Invited accounts join invite-only guilds with a merkle proof. Existing members renew without it
+    let proof: Array<string> | null = null;
+    if (allowlistCID) {
+      const subscriber = cpk?.address || (await signer.getAddress());
+      const { tokenId } = await guildContract.subscriptionByOwner(subscriber);
+      if (tokenId.eq(0)) {
+        proof = await fetchAllowlistProof(allowlistCID, subscriber);
+        if (!proof) {
+          throw new Error(NOT_INVITED_ERROR);
+        }
+      }
+    }
+
     const tokenURI = "";
     const bnValue = ethers.utils.parseEther(value);
+    // Prepaying several periods goes through subscribeForPeriods
+    let method = periods > 1 ? "subscribeForPeriods" : "subscribe";
+    const periodsArg = periods > 1 ? [periods] : [];
+    const buildArgs = (subscriber: string | undefined, data: string) => {
+      if (voucher) {
+        return [
+          subscriber,
+          tierId,
+          guildToken,
+          periods,
+          bnValue.toString(),
+          data,
+          voucher.voucher,
+          voucher.signature,
+          proof || [],
+        ];
+      }
+      if (proof) {
+        return [
+          subscriber,
+          tierId,
+          guildToken,
+          periods,
+          bnValue.toString(),
+          data,
+          proof,
+        ];
+      }
+      return referrer
+        ? [
+            subscriber,
+            tierId,
+            guildToken,
+            periods,
+            bnValue.toString(),
+            data,
+            referrer,
+          ]
+        : [
+            subscriber,
+            tierId,
+            guildToken,
+            tokenURI,
+            ...periodsArg,
+            bnValue.toString(),
+            data,
+          ];
+    };
+    if (voucher) {
+      method = "subscribeWithVoucher";
+    } else if (proof) {
+      method = "subscribeWithProof";
+    } else if (referrer) {
+      // Referrers are only credited by the guild on the first subscription
+      method = "subscribeWithReferrer";
+    }
 
     if (cpk) {
       // Contribute using CPK proxy
@@ -350,17 +758,16 @@ export const useGuild = (): SafetGuild => {
         bnValue.toString(),
         guildAddress // delegate Contract
       );
-      const transferSignature = await signTransfer(
+      const safeSignature = await signSafeSubscription(
         guildAddress,
+        method,
+        tierId,
         guildToken,
-        bnValue.toString()
-      );
-      const args = [
-        cpk.address,
-        tokenURI,
+        periods,
         bnValue.toString(),
-        transferSignature,
-      ];
+        method === "subscribeWithReferrer" ? referrer : undefined
+      );
+      const args = buildArgs(cpk.address, safeSignature);
 
       const tx = await submitCPKTx([
         ...cpkModuleTxs,
@@ -368,12 +775,40 @@ export const useGuild = (): SafetGuild => {
           // operation: 0, // CPK.Call by default
           to: guildAddress,
           // value: "0",
-          data: guildContract.interface.encodeFunctionData("subscribe", args),
+          data: guildContract.interface.encodeFunctionData(method, args),
         },
       ]);
       return tx;
     }
     // Else Contribute using injected EOA wallet
+    if (
+      guildToken !== ethers.constants.AddressZero &&
+      !voucher &&
+      !proof &&
+      !referrer
+    ) {
+      // Permit-capable tokens are approved with a signature so it takes a single transaction
+      const permit = await signPermit(
+        chainId,
+        signer,
+        guildToken,
+        guildAddress,
+        bnValue
+      ).catch((error) => {
+        console.error("Failed to sign permit", error);
+        return null;
+      });
+      if (permit) {
+        return guildContract.subscribeWithPermit(
+          await signer.getAddress(),
+          tierId,
+          guildToken,
+          periods,
+          bnValue.toString(),
+          permit
+        );
+      }
+    }
     if (guildToken !== ethers.constants.AddressZero) {
       const tokenContract = new Contract(
         guildToken,
@@ -383,19 +818,349 @@ export const useGuild = (): SafetGuild => {
       const tx = await tokenContract.approve(guildAddress, bnValue.toString());
       await tx.wait(1);
     }
-    const args = [
-      await signer.getAddress(),
-      tokenURI,
-      bnValue.toString(),
-      "0x",
-    ];
-    const tx = await guildContract.subscribe(...args, {
+    const args = buildArgs(await signer.getAddress(), "0x");
+    const tx = await guildContract[method](...args, {
       value:
         guildToken === ethers.constants.AddressZero ? bnValue.toString() : "0",
     });
     return tx;
   };
 
+  // Vouchers are signed by the connected guild admin & stored by the server under a promo code
+  const createVoucher = async (
+    chainId: number,
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    voucher: Voucher
+  ): Promise<string> => {
+    const signature = await ethersProvider
+      .getSigner()
+      ._signTypedData(
+        getVoucherDomain(chainId, guildAddress),
+        VOUCHER_TYPES,
+        voucher
+      );
+    const resp = await axios.post(`${API}/api/v1/voucher`, {
+      guildAddress,
+      chainId,
+      voucher,
+      signature,
+    });
+    return resp.data.code;
+  };
+
+  const fetchVoucher = async (code: string): Promise<SignedVoucher> => {
+    const resp = await axios.get(`${IPFS_GATEWAY}/${code}`);
+    return resp.data;
+  };
+
+  const uploadAllowlist = async (addresses: File): Promise<Allowlist> => {
+    const form = new FormData();
+    form.append("addresses", addresses);
+    const resp = await axios.post(`${API}/api/v1/allowlist`, form);
+    return resp.data;
+  };
+
+  const fetchAllowlistProof = async (
+    listCID: string,
+    account: string
+  ): Promise<Array<string> | null> => {
+    try {
+      const resp = await axios.get(
+        `${API}/api/v1/allowlist/${listCID}/proof/${account}`
+      );
+      return resp.data.proof;
+    } catch (error) {
+      return null;
+    }
+  };
+
+  const updateAllowlist = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    root: string,
+    listCID: string,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    return sendGuildTx(
+      ethersProvider,
+      guildAddress,
+      "setAllowlist",
+      [root, listCID],
+      sdk
+    );
+  };
+
+  const updateMaxMembers = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    maxMembers: number,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    return sendGuildTx(
+      ethersProvider,
+      guildAddress,
+      "setMaxMembers",
+      [maxMembers],
+      sdk
+    );
+  };
+
+  const updateGrandfatheredPricing = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    enabled: boolean,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    return sendGuildTx(
+      ethersProvider,
+      guildAddress,
+      "setGrandfatheredPricing",
+      [enabled],
+      sdk
+    );
+  };
+
+  const updateFreezePolicy = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    maxFreezeDuration: number,
+    maxFreezes: number,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    return sendGuildTx(
+      ethersProvider,
+      guildAddress,
+      "setFreezePolicy",
+      [maxFreezeDuration, maxFreezes],
+      sdk
+    );
+  };
+
+  const updateReferralPolicy = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    rewardBps: number,
+    bonusDuration: number,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    return sendGuildTx(
+      ethersProvider,
+      guildAddress,
+      "setReferralPolicy",
+      [rewardBps, bonusDuration],
+      sdk
+    );
+  };
+
+  // Waitlist entries are always signed by the connected EOA wallet
+  const joinWaitlist = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tierId: number
+  ): Promise<ethers.providers.TransactionResponse> => {
+    const guildContract = new Contract(
+      guildAddress,
+      GuildAppABI,
+      ethersProvider.getSigner()
+    );
+    return guildContract.joinWaitlist(tierId);
+  };
+
+  // Closing a guild is irreversible. Active members can then claim their unused time back
+  // Anyone can release the seats of lapsed subscriptions. Every seat is released in a single Safe tx
+  const releaseSeats = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenIds: Array<string>,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    const guildContract = new Contract(
+      guildAddress,
+      GuildAppABI,
+      ethersProvider.getSigner()
+    );
+    const txs = await Promise.all(
+      tokenIds.map(async (tokenId) => {
+        const unsignedTransaction =
+          await guildContract.populateTransaction.releaseSeat(tokenId);
+        return {
+          to: guildAddress,
+          value: "0",
+          data: unsignedTransaction.data as string,
+        };
+      })
+    );
+    const safeTxs = await sdk.txs.send({ txs });
+    return await pollSafeTx(safeTxs, sdk);
+  };
+
+  const closeGuild = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    return sendGuildTx(ethersProvider, guildAddress, "closeGuild", [], sdk);
+  };
+
+  // Refunds are snapshotted in batches after closing. Anyone can process them
+  const processClosingRefunds = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    sdk: SafeAppsSDK
+  ): Promise<GatewayTransactionDetails | undefined> => {
+    return sendGuildTx(
+      ethersProvider,
+      guildAddress,
+      "processClosingRefunds",
+      [CLOSING_REFUNDS_BATCH_SIZE],
+      sdk
+    );
+  };
+
+  const fetchTokenDecimals = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    tokenAddress: string
+  ): Promise<number> => {
+    if (tokenAddress === ethers.constants.AddressZero) {
+      return 18;
+    }
+    return new Contract(
+      tokenAddress,
+      ["function decimals() view returns (uint8)"],
+      ethersProvider
+    ).decimals();
+  };
+
+  const fetchClosingRefund = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenId: number
+  ): Promise<ClosingRefund> => {
+    const guildContract = new Contract(
+      guildAddress,
+      GuildAppABI,
+      ethersProvider
+    );
+    const owner = await guildContract.ownerOf(tokenId);
+    const { paymentToken } = await guildContract.subscriptionByOwner(owner);
+    return {
+      amount: await guildContract.closingRefund(tokenId),
+      tokenAddress: paymentToken,
+      decimals: await fetchTokenDecimals(ethersProvider, paymentToken),
+    };
+  };
+
+  // Anyone can trigger the claim but the refund is always paid to the subscription owner
+  const claimClosingRefund = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenId: number
+  ): Promise<ethers.providers.TransactionResponse> => {
+    const guildContract = new Contract(
+      guildAddress,
+      GuildAppABI,
+      ethersProvider.getSigner()
+    );
+    return guildContract.claimClosingRefund(tokenId);
+  };
+
+  const fetchReferralRewards = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    referrer: string,
+    tokenAddresses: Array<string>
+  ): Promise<Array<ReferralReward>> => {
+    const guildContract = new Contract(
+      guildAddress,
+      GuildAppABI,
+      ethersProvider
+    );
+    return Promise.all(
+      tokenAddresses.map(async (tokenAddress) => ({
+        amount: await guildContract.claimable(tokenAddress, referrer),
+        tokenAddress,
+        decimals: await fetchTokenDecimals(ethersProvider, tokenAddress),
+      }))
+    );
+  };
+
+  // Anyone can trigger the claim but rewards are always paid to the referrer
+  const claimReferralReward = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenAddress: string,
+    referrer: string
+  ): Promise<ethers.providers.TransactionResponse> => {
+    const guildContract = new Contract(
+      guildAddress,
+      GuildAppABI,
+      ethersProvider.getSigner()
+    );
+    return guildContract.claim(tokenAddress, referrer);
+  };
+
+  // Gifts are always paid from the connected EOA wallet
+  const giftSubscription = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    guildToken: string,
+    value: string,
+    tierId: number,
+    periods: number,
+    recipient: string,
+    messageCID: string
+  ): Promise<ethers.providers.TransactionResponse> => {
+    const signer = ethersProvider.getSigner();
+    const guildContract = new Contract(guildAddress, GuildAppABI, signer);
+    const bnValue = ethers.utils.parseEther(value);
+
+    if (guildToken !== ethers.constants.AddressZero) {
+      const tokenContract = new Contract(guildToken, ERC20Abi, signer);
+      const tx = await tokenContract.approve(guildAddress, bnValue.toString());
+      await tx.wait(1);
+    }
+    return guildContract.giftSubscription(
+      recipient,
+      tierId,
+      guildToken,
+      periods,
+      bnValue.toString(),
+      messageCID,
+      {
+        value:
+          guildToken === ethers.constants.AddressZero
+            ? bnValue.toString()
+            : "0",
+      }
+    );
+  };
+
+  // Tips are always paid from the connected EOA wallet
+  const sendTip = async (
+    ethersProvider: ethers.providers.Web3Provider,
+    guildAddress: string,
+    tokenAddress: string,
+    value: string,
+    messageCID: string
+  ): Promise<ethers.providers.TransactionResponse> => {
+    const signer = ethersProvider.getSigner();
+    const guildContract = new Contract(guildAddress, GuildAppABI, signer);
+    const bnValue = ethers.utils.parseEther(value);
+
+    if (tokenAddress !== ethers.constants.AddressZero) {
+      const tokenContract = new Contract(tokenAddress, ERC20Abi, signer);
+      const tx = await tokenContract.approve(guildAddress, bnValue.toString());
+      await tx.wait(1);
+    }
+    return guildContract.tip(tokenAddress, bnValue.toString(), messageCID, {
+      value:
+        tokenAddress === ethers.constants.AddressZero
+          ? bnValue.toString()
+          : "0",
+    });
+  };
+
   const unsubscribe = async (
     keyId: string,
     guildAddress: string,
@@ -426,13 +1191,90 @@ export const useGuild = (): SafetGuild => {
     return tx;
   };
 
+  // Subscriptions are owned by the CPK proxy when contributing through the Safe
+  const sendSubscriptionTx = async (
+    method: string,
+    keyId: string,
+    guildAddress: string,
+    ethersProvider: ethers.providers.Web3Provider
+  ): Promise<ethers.providers.TransactionResponse | null> => {
+    const guildContract = new Contract(
+      guildAddress,
+      GuildAppABI,
+      ethersProvider.getSigner()
+    );
+
+    if (cpk) {
+      return submitCPKTx([
+        {
+          to: guildAddress,
+          value: "0",
+          data: guildContract.interface.encodeFunctionData(method, [keyId]),
+        },
+      ]);
+    }
+    return guildContract[method](keyId);
+  };
+
+  const freezeSubscription = async (
+    keyId: string,
+    guildAddress: string,
+    ethersProvider: ethers.providers.Web3Provider
+  ): Promise<ethers.providers.TransactionResponse | null> => {
+    return sendSubscriptionTx(
+      "freezeSubscription",
+      keyId,
+      guildAddress,
+      ethersProvider
+    );
+  };
+
+  // Unfreezing shifts the expiration forward by the time spent frozen
+  const unfreezeSubscription = async (
+    keyId: string,
+    guildAddress: string,
+    ethersProvider: ethers.providers.Web3Provider
+  ): Promise<ethers.providers.TransactionResponse | null> => {
+    return sendSubscriptionTx(
+      "unfreezeSubscription",
+      keyId,
+      guildAddress,
+      ethersProvider
+    );
+  };
+
   return {
     createGuild,
     deactivateGuild,
     fetchGuildTokens,
     subscribe,
+    createVoucher,
+    fetchVoucher,
+    uploadAllowlist,
+    fetchAllowlistProof,
+    updateAllowlist,
+    updateMaxMembers,
+    updateGrandfatheredPricing,
+    updateFreezePolicy,
+    updateReferralPolicy,
+    joinWaitlist,
+    releaseSeats,
+    closeGuild,
+    processClosingRefunds,
+    fetchClosingRefund,
+    claimClosingRefund,
+    fetchReferralRewards,
+    claimReferralReward,
+    giftSubscription,
+    sendTip,
     unsubscribe,
+    freezeSubscription,
+    unfreezeSubscription,
     fetchMetadata,
     updateMetadataCid,
+    updateRole,
+    updatePayees,
+    distributeFunds,
+    claimFunds,
   };
 };
@@ -1,9 +1,11 @@
 import { useEffect, useState } from "react";
 import { useParams } from "react-router-dom";
+import { ethers } from "ethers";
 
 import { useWeb3Context } from "../context/Web3Context";
 import { GuildMetadata, useGuildContext } from "../context/GuildContext";
 import { fetchGuild } from "../graphql";
+import { getCurrencyByTokenAddress } from "../lib/networks";
 import { IPFS_GATEWAY } from "../constants";
 import { useGuild } from "./useGuild";
 
@@ -35,7 +37,8 @@ export const useGuildByParams = (): Guild => {
 
   useEffect(() => {
     const _fetchGuild = async () => {
-      const meta = await fetchGuild(guildId, providerChainId || 4);
+      const chainId = providerChainId || 4;
+      const meta = await fetchGuild(guildId, chainId);
       if (meta) {
         setGuildActive(meta.active);
         let metadata = {
@@ -77,6 +80,32 @@ export const useGuildByParams = (): Guild => {
           guildAddress: metadata.guildAddress,
           imageCid: metadata.imageCid,
           tokenAddress: meta.tokenAddress,
+          tiers: meta.tiers.map((tier) => {
+            const prices: { [currency: string]: string } = {};
+            tier.prices.forEach(({ tokenAddress, price }) => {
+              prices[getCurrencyByTokenAddress(chainId, tokenAddress)] =
+                ethers.utils.formatEther(price);
+            });
+            return {
+              name: tier.name,
+              amount:
+                prices[getCurrencyByTokenAddress(chainId, meta.tokenAddress)] ||
+                "0",
+              cap: tier.cap.toString(),
+              members: +tier.totalSubscribers,
+              prices,
+            };
+          }),
+          acceptedCurrencies: meta.acceptedTokens.map((tokenAddress) =>
+            getCurrencyByTokenAddress(chainId, tokenAddress)
+          ),
+          discountMinPeriods: +meta.discountMinPeriods,
+          discountBps: +meta.discountBps,
+          transferPolicy: +meta.transferPolicy,
+          allowlistCID: meta.allowlistCID || undefined,
+          maxMembers: +meta.maxMembers,
+          totalMembers: +meta.totalSubscribers,
+          closedAt: meta.closedAt || undefined,
           active: meta.active,
         };
         setGuildMetadata(data);
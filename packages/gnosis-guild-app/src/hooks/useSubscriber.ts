@@ -6,9 +6,11 @@ import { ethers } from "ethers";
 import { useWeb3Context } from "../context/Web3Context";
 import { useContributorContext } from "../context/ContributorContext";
 import { fetchSubscriberByGuild, GraphSubscriber } from "../graphql";
+import { getSubscriptionStatus, SubscriptionStatus } from "../lib/subscription";
 
 type Subscriber = {
   subscribed: boolean;
+  status: SubscriptionStatus;
   currentMinimumAmount: string;
   id: string;
   subscriber: GraphSubscriber;
@@ -24,6 +26,7 @@ export const useSubscriber = (): Subscriber => {
 
   const [currentMinimumAmount, setCurrentMinimumAmount] = useState("0");
   const [id, setId] = useState("");
+  const [status, setStatus] = useState(SubscriptionStatus.Expired);
 
   const wrappedSetSubscriber = useCallback(async (): Promise<void> => {
     if (!guildId || !providerChainId || !account) {
@@ -43,7 +46,18 @@ export const useSubscriber = (): Subscriber => {
     if (subscribers.length > 0) {
       const subscriber = subscribers[0];
       setSubscriber(subscriber);
-      if (subscriber.active) {
+      const subscriptionStatus = getSubscriptionStatus(
+        +subscriber.expires,
+        +subscriber.guild.gracePeriod,
+        subscriber.frozenAt ? +subscriber.frozenAt : 0
+      );
+      setStatus(subscriptionStatus);
+      // subscriptions in grace period still grant access. Frozen ones don't until they are unfrozen
+      if (
+        subscriber.active &&
+        (subscriptionStatus === SubscriptionStatus.Active ||
+          subscriptionStatus === SubscriptionStatus.InGrace)
+      ) {
         setSubscribed(true);
       } else {
         setSubscribed(false);
@@ -61,6 +75,7 @@ export const useSubscriber = (): Subscriber => {
   }, [wrappedSetSubscriber]);
   return {
     subscribed,
+    status,
     currentMinimumAmount,
     id,
     subscriber,
@@ -1,3 +1,5 @@
+import { ethers } from "ethers";
+
 import { API_KEY } from "../constants";
 
 type GnosisConfig = {
@@ -58,6 +60,29 @@ export const getNetworkByChainId = (chainId: number): Network => {
   return network || Default;
 };
 
+export const getTokenAddressByCurrency = (
+  chainId: number,
+  currency: string
+): string => {
+  if (currency === "ETH") {
+    return ethers.constants.AddressZero;
+  }
+  return getNetworkByChainId(chainId).daiToken;
+};
+
+export const getCurrencyByTokenAddress = (
+  chainId: number,
+  tokenAddress: string
+): string => {
+  if (tokenAddress === ethers.constants.AddressZero) {
+    return "ETH";
+  }
+  const network = getNetworkByChainId(chainId);
+  return tokenAddress.toLowerCase() === network.daiToken.toLowerCase()
+    ? "DAI"
+    : tokenAddress;
+};
+
 export const getIsValidChain = (chainId: number): Network => {
   const network = networks[chainId];
   return network;
@@ -0,0 +1,98 @@
+import { BigNumber, Contract, ethers, utils } from "ethers";
+
+// Mirrors IGuild.Permit
+export type Permit = {
+  daiStyle: boolean;
+  nonce: string;
+  deadline: number;
+  v: number;
+  r: string;
+  s: string;
+};
+
+const PERMIT_ABI = [
+  "function name() view returns (string)",
+  "function version() view returns (string)",
+  "function nonces(address) view returns (uint256)",
+  "function DOMAIN_SEPARATOR() view returns (bytes32)",
+  "function PERMIT_TYPEHASH() view returns (bytes32)",
+];
+
+const DAI_PERMIT_TYPEHASH = utils.id(
+  "Permit(address holder,address spender,uint256 nonce,uint256 expiry,bool allowed)"
+);
+
+const DAI_PERMIT_TYPES = {
+  Permit: [
+    { name: "holder", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "nonce", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "allowed", type: "bool" },
+  ],
+};
+
+const EIP2612_PERMIT_TYPES = {
+  Permit: [
+    { name: "owner", type: "address" },
+    { name: "spender", type: "address" },
+    { name: "value", type: "uint256" },
+    { name: "nonce", type: "uint256" },
+    { name: "deadline", type: "uint256" },
+  ],
+};
+
+const PERMIT_VALIDITY = 3600;
+
+// Signs a permit allowing `spender` to spend `value` tokens of the connected account.
+// Returns null if the token does not support EIP-2612 or DAI-style permits so callers can fall back to approve
+export const signPermit = async (
+  chainId: number,
+  signer: ethers.providers.JsonRpcSigner,
+  tokenAddress: string,
+  spender: string,
+  value: BigNumber
+): Promise<Permit | null> => {
+  const token = new Contract(tokenAddress, PERMIT_ABI, signer);
+  const owner = await signer.getAddress();
+  let nonce: BigNumber;
+  let domainSeparator: string;
+  let name: string;
+  try {
+    [nonce, domainSeparator, name] = await Promise.all([
+      token.nonces(owner),
+      token.DOMAIN_SEPARATOR(),
+      token.name(),
+    ]);
+  } catch (error) {
+    return null;
+  }
+  const version = await token.version().catch(() => "1");
+  const daiStyle = await token
+    .PERMIT_TYPEHASH()
+    .then((typehash: string) => typehash === DAI_PERMIT_TYPEHASH)
+    .catch(() => false);
+  const domain = { name, version, chainId, verifyingContract: tokenAddress };
+  // tokens using a non standard domain cannot be signed reliably
+  if (utils._TypedDataEncoder.hashDomain(domain) !== domainSeparator) {
+    return null;
+  }
+  const deadline = Math.floor(Date.now() / 1000) + PERMIT_VALIDITY;
+  const signature = daiStyle
+    ? await signer._signTypedData(domain, DAI_PERMIT_TYPES, {
+        holder: owner,
+        spender,
+        nonce,
+        expiry: deadline,
+        allowed: true,
+      })
+    : await signer._signTypedData(domain, EIP2612_PERMIT_TYPES, {
+        owner,
+        spender,
+        value,
+        nonce,
+        deadline,
+      });
+  const { v, r, s } = utils.splitSignature(signature);
+  return { daiStyle, nonce: nonce.toString(), deadline, v, r, s };
+};
@@ -0,0 +1,17 @@
+import { BigNumber, utils } from "ethers";
+
+const BPS_DENOMINATOR = 10000;
+
+// Mirrors GuildApp.subscriptionCost so the UI charges what the contract expects
+export const getSubscriptionCost = (
+  amount: string,
+  periods: number,
+  discountMinPeriods: number,
+  discountBps: number
+): BigNumber => {
+  const cost = utils.parseEther(amount || "0").mul(periods);
+  if (discountBps > 0 && periods >= discountMinPeriods) {
+    return cost.sub(cost.mul(discountBps).div(BPS_DENOMINATOR));
+  }
+  return cost;
+};
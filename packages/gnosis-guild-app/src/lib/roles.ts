@@ -0,0 +1,20 @@
+import { ethers } from "ethers";
+
+export type GuildRole = {
+  id: string;
+  label: string;
+};
+
+// Mirrors the GuildApp role constants
+export const GUILD_ROLES: Array<GuildRole> = [
+  { id: ethers.constants.HashZero, label: "Admin" },
+  { id: ethers.utils.id("METADATA_EDITOR_ROLE"), label: "Metadata Editor" },
+  { id: ethers.utils.id("TREASURER_ROLE"), label: "Treasurer" },
+  { id: ethers.utils.id("PRICE_MANAGER_ROLE"), label: "Price Manager" },
+  { id: ethers.utils.id("PAUSER_ROLE"), label: "Pauser" },
+];
+
+export const getRoleLabel = (roleId: string): string => {
+  const role = GUILD_ROLES.find((r) => r.id === roleId.toLowerCase());
+  return role ? role.label : roleId;
+};
@@ -0,0 +1,134 @@
+// Mirrors GuildApp.SubscriptionStatus
+export enum SubscriptionStatus {
+  Expired = "Expired",
+  Active = "Active",
+  InGrace = "InGrace",
+  // reported as Expired by the guild. Access is restored when unfrozen
+  Frozen = "Frozen",
+}
+
+// Same rules as GuildApp.subscriptionStatus. Timestamps in seconds
+export const getSubscriptionStatus = (
+  expires: number,
+  gracePeriod: number,
+  frozenAt = 0,
+  now: number = Date.now() / 1000
+): SubscriptionStatus => {
+  if (frozenAt > 0) {
+    return SubscriptionStatus.Frozen;
+  }
+  if (expires > now) {
+    return SubscriptionStatus.Active;
+  }
+  if (expires > 0 && expires + gracePeriod > now) {
+    return SubscriptionStatus.InGrace;
+  }
+  return SubscriptionStatus.Expired;
+};
+
+// Same rules as GuildAppBase._subscriptionCost. Prices in ether units
+export const getRenewalPrice = (
+  price: string,
+  lockedPrice: string,
+  grandfathered: boolean,
+  status: SubscriptionStatus
+): string => {
+  if (
+    grandfathered &&
+    (status === SubscriptionStatus.Active ||
+      status === SubscriptionStatus.InGrace) &&
+    +lockedPrice > 0 &&
+    +lockedPrice < +price
+  ) {
+    return lockedPrice;
+  }
+  return price;
+};
+
+// Mirrors GuildApp.RefundPolicy
+export enum RefundPolicy {
+  None,
+  Prorated,
+  FullWithinWindow,
+}
+
+// Describes what a subscriber gets back when cancelling. Window in seconds
+export const getRefundPolicyText = (
+  policy: RefundPolicy,
+  refundWindow: number
+): string => {
+  switch (+policy) {
+    case RefundPolicy.Prorated:
+      return "Cancelling refunds the unused portion of your contribution.";
+    case RefundPolicy.FullWithinWindow:
+      return `Contributions are fully refunded if cancelled within ${Math.ceil(
+        refundWindow / 86400
+      )} day(s) of payment.`;
+    default:
+      return "Contributions are not refunded when cancelled.";
+  }
+};
+
+// Mirrors GuildApp.TransferPolicy
+export enum TransferPolicy {
+  Transferable,
+  OwnerApproved,
+  Soulbound,
+}
+
+export const TRANSFER_POLICY_LABELS: { [policy: number]: string } = {
+  [TransferPolicy.Transferable]: "Transferable",
+  [TransferPolicy.OwnerApproved]: "Transferable with guild approval",
+  [TransferPolicy.Soulbound]: "Non-transferable (soulbound)",
+};
+
+// Describes whether a membership NFT can change hands
+export const getTransferPolicyText = (policy: TransferPolicy): string => {
+  switch (+policy) {
+    case TransferPolicy.OwnerApproved:
+      return "Memberships can only be transferred with the guild's approval.";
+    case TransferPolicy.Soulbound:
+      return "Memberships are non-transferable.";
+    default:
+      return "Memberships can be freely transferred.";
+  }
+};
+
+// Same rules as GuildTiers.remainingSeats. Returns null if neither the guild nor the tier are capped
+export const getRemainingSeats = (
+  maxMembers: number,
+  totalMembers: number,
+  tierCap: number,
+  tierMembers: number
+): number | null => {
+  let seats: number | null = null;
+  if (maxMembers > 0) {
+    seats = Math.max(maxMembers - totalMembers, 0);
+  }
+  if (tierCap > 0) {
+    const tierSeats = Math.max(tierCap - tierMembers, 0);
+    seats = seats === null ? tierSeats : Math.min(seats, tierSeats);
+  }
+  return seats;
+};
+
+// Seats left on the tier with the most availability. Returns null if new members are not capped on some tier
+export const getGuildRemainingSeats = (
+  maxMembers: number,
+  totalMembers: number,
+  tiers: Array<{ cap: string; members?: number }>
+): number | null => {
+  const tierSeats = tiers.map((tier) =>
+    getRemainingSeats(maxMembers, totalMembers, +tier.cap, tier.members || 0)
+  );
+  if (tierSeats.length === 0 || tierSeats.includes(null)) {
+    return null;
+  }
+  return Math.max(...(tierSeats as Array<number>));
+};
+
+export const getSeatsText = (seats: number): string =>
+  seats > 0 ? `${seats} seat${seats === 1 ? "" : "s"} left` : "Sold out";
+
+// Raised before sending the tx when joining an invite-only guild without being on its list
+export const NOT_INVITED_ERROR = "Your account is not on the guild invite list";
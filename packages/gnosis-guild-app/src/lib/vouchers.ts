@@ -0,0 +1,69 @@
+import { BigNumber, utils } from "ethers";
+
+const BPS_DENOMINATOR = 10000;
+
+// Mirrors IGuild.Voucher
+export type Voucher = {
+  tierId: number;
+  discountBps: number;
+  tokenAddress: string;
+  fixedPrice: string;
+  maxUses: number;
+  expiry: number;
+  recipient: string;
+  salt: string;
+};
+
+// Voucher signed by a guild admin. Stored by the server under a promo code
+export type SignedVoucher = {
+  guildAddress: string;
+  chainId: number;
+  voucher: Voucher;
+  signature: string;
+};
+
+// Same EIP-712 types verified by GuildVouchers.hashVoucher
+export const VOUCHER_TYPES = {
+  Voucher: [
+    { name: "tierId", type: "uint256" },
+    { name: "discountBps", type: "uint256" },
+    { name: "tokenAddress", type: "address" },
+    { name: "fixedPrice", type: "uint256" },
+    { name: "maxUses", type: "uint256" },
+    { name: "expiry", type: "uint256" },
+    { name: "recipient", type: "address" },
+    { name: "salt", type: "bytes32" },
+  ],
+};
+
+export const getVoucherDomain = (
+  chainId: number,
+  guildAddress: string
+): {
+  name: string;
+  version: string;
+  chainId: number;
+  verifyingContract: string;
+} => ({
+  name: "GuildApp",
+  version: "1",
+  chainId,
+  verifyingContract: guildAddress,
+});
+
+// Mirrors GuildVouchers.redeem. `cost` is the subscription cost without the voucher
+export const applyVoucher = (
+  cost: BigNumber,
+  voucher: Voucher,
+  periods: number
+): BigNumber => {
+  if (voucher.discountBps > 0) {
+    return cost.sub(cost.mul(voucher.discountBps).div(BPS_DENOMINATOR));
+  }
+  return BigNumber.from(voucher.fixedPrice).mul(periods);
+};
+
+export const getVoucherText = (voucher: Voucher, currency: string): string =>
+  voucher.discountBps > 0
+    ? `${voucher.discountBps / 100}% off`
+    : `${utils.formatEther(voucher.fixedPrice)} ${currency} per month`;
@@ -1,9 +1,11 @@
-import React from "react";
-import { Link, useParams } from "react-router-dom";
+import React, { useEffect, useState } from "react";
+import { Link, useLocation, useParams } from "react-router-dom";
 import styled from "styled-components";
-import { Loader, Text, Title } from "@gnosis.pm/safe-react-components";
+import { ethers } from "ethers";
+import { Button, Loader, Text, Title } from "@gnosis.pm/safe-react-components";
 
 import profile from "../../assets/profile.png";
+import { useContributorContext } from "../../context/ContributorContext";
 import { useWeb3Context } from "../../context/Web3Context";
 
 import ConnectWeb3Button from "../../components/ConnectWeb3Button";
@@ -15,8 +17,16 @@ import GridWallet from "../../components/GridWallet";
 import GuildLogo from "../../components/GuildLogo";
 import RiskAgreement from "../../components/RiskAgreement";
 
+import { ClosingRefund, useGuild } from "../../hooks/useGuild";
 import { useGuildByParams } from "../../hooks/useGuildByParams";
 import { useRiskAgreement } from "../../hooks/useRiskAgreement";
+import { useSubscriber } from "../../hooks/useSubscriber";
+import { getCurrencyByTokenAddress } from "../../lib/networks";
+import {
+  getGuildRemainingSeats,
+  getSeatsText,
+  getTransferPolicyText,
+} from "../../lib/subscription";
 
 const Grid = styled.div`
   width: 100%;
@@ -65,13 +75,120 @@ const ContributeLink = styled(Link)`
 `;
 
 const GuiildLanding: React.FC = () => {
-  const { getConnectText } = useWeb3Context();
+  const { getConnectText, account, ethersProvider, providerChainId } =
+    useWeb3Context();
   const connectText = getConnectText();
   const { loading, guild, guildActive } = useGuildByParams();
   const { guildId } = useParams<{ guildId: string }>();
+  const { search } = useLocation();
+  const { referrer, setReferrer } = useContributorContext();
   const { riskAgreement, setRiskAgreement } = useRiskAgreement();
+  const { fetchAllowlistProof, fetchClosingRefund, claimClosingRefund } =
+    useGuild();
+  const { subscriber } = useSubscriber();
+  const [invited, setInvited] = useState<boolean>();
+  const [refund, setRefund] = useState<ClosingRefund | null>(null);
+  const [claiming, setClaiming] = useState(false);
+  const seats = getGuildRemainingSeats(
+    guild.maxMembers || 0,
+    guild.totalMembers || 0,
+    guild.tiers || []
+  );
+
+  // Referral links carry the referring member as `?ref=<address>` until the contribution is sent
+  useEffect(() => {
+    const ref = new URLSearchParams(search).get("ref");
+    if (ref && ethers.utils.isAddress(ref)) {
+      setReferrer(ethers.utils.getAddress(ref));
+    }
+  }, [search, setReferrer]);
+
+  useEffect(() => {
+    const checkInvite = async () => {
+      if (!guild.allowlistCID || !account) {
+        setInvited(undefined);
+        return;
+      }
+      const proof = await fetchAllowlistProof(guild.allowlistCID, account);
+      setInvited(!!proof);
+    };
+    checkInvite();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [guild.allowlistCID, account]);
+
+  useEffect(() => {
+    const checkRefund = async () => {
+      if (!guild.closedAt || !ethersProvider || !subscriber.keyId) {
+        setRefund(null);
+        return;
+      }
+      setRefund(
+        await fetchClosingRefund(
+          ethersProvider,
+          guild.guildAddress,
+          subscriber.keyId
+        )
+      );
+    };
+    checkRefund();
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [guild.closedAt, guild.guildAddress, ethersProvider, subscriber.keyId]);
 
-  const disabledGuild = (
+  const claimRefund = async () => {
+    if (!ethersProvider) {
+      return;
+    }
+    setClaiming(true);
+    try {
+      const tx = await claimClosingRefund(
+        ethersProvider,
+        guild.guildAddress,
+        subscriber.keyId
+      );
+      await tx.wait(1);
+      setRefund(null);
+    } catch (err) {
+      console.error(err);
+    }
+    setClaiming(false);
+  };
+
+  const disabledGuild = guild.closedAt ? (
+    <GridProfile>
+      <Title size="sm" strong>
+        {guild.name}
+      </Title>
+      <Text size="md" color="error">
+        This guild has closed.
+      </Text>
+      <Text size="md">
+        Active contributors can claim back the unused part of their
+        contribution. Connect your account to check your refund.
+      </Text>
+      {refund && refund.amount.gt(0) && (
+        <TextWrapper>
+          <Text size="md" strong>
+            {`You have ${ethers.utils.formatUnits(
+              refund.amount,
+              refund.decimals
+            )} ${getCurrencyByTokenAddress(
+              providerChainId,
+              refund.tokenAddress
+            )} to claim back.`}
+          </Text>
+          <Button
+            size="md"
+            color="primary"
+            variant="contained"
+            disabled={claiming}
+            onClick={claimRefund}
+          >
+            Claim Refund
+          </Button>
+        </TextWrapper>
+      )}
+    </GridProfile>
+  ) : (
     <GridProfile>
       <Title size="sm" strong>
         {guild.name}
@@ -104,6 +221,37 @@ const GuiildLanding: React.FC = () => {
             <TextWrapper>
               <Text size="md">{guild.externalLink}</Text>
             </TextWrapper>
+            <TextWrapper>
+              <Text size="md">
+                {getTransferPolicyText(guild.transferPolicy || 0)}
+              </Text>
+            </TextWrapper>
+            {seats !== null && (
+              <TextWrapper>
+                <Text size="md" strong color={seats > 0 ? "primary" : "error"}>
+                  {getSeatsText(seats)}
+                </Text>
+              </TextWrapper>
+            )}
+            {guild.allowlistCID && (
+              <TextWrapper>
+                <Text size="md" strong>
+                  This guild is invite-only.
+                </Text>
+                {invited !== undefined && (
+                  <Text size="md" color={invited ? "primary" : "error"}>
+                    {invited
+                      ? "Your account is on the guest list."
+                      : "Your account is not on the guest list. Only invited accounts and existing members can contribute."}
+                  </Text>
+                )}
+              </TextWrapper>
+            )}
+            {referrer && (
+              <TextWrapper>
+                <Text size="md">{`Referred by ${referrer}`}</Text>
+              </TextWrapper>
+            )}
             <ContributeCard>
               {guild && guildActive && (
                 <ContributeLink
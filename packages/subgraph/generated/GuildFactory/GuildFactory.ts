@@ -10,6 +10,28 @@ import {
   BigInt
 } from "@graphprotocol/graph-ts";
 
+export class GuildRenewalFailed extends ethereum.Event {
+  get params(): GuildRenewalFailed__Params {
+    return new GuildRenewalFailed__Params(this);
+  }
+}
+
+export class GuildRenewalFailed__Params {
+  _event: GuildRenewalFailed;
+
+  constructor(event: GuildRenewalFailed) {
+    this._event = event;
+  }
+
+  get guild(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get reason(): Bytes {
+    return this._event.parameters[1].value.toBytes();
+  }
+}
+
 export class NewGuild extends ethereum.Event {
   get params(): NewGuild__Params {
     return new NewGuild__Params(this);
@@ -30,6 +52,97 @@ export class NewGuild__Params {
   get guild(): Address {
     return this._event.parameters[1].value.toAddress();
   }
+
+  get version(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get upgradeable(): boolean {
+    return this._event.parameters[3].value.toBoolean();
+  }
+}
+
+export class OwnershipTransferred extends ethereum.Event {
+  get params(): OwnershipTransferred__Params {
+    return new OwnershipTransferred__Params(this);
+  }
+}
+
+export class OwnershipTransferred__Params {
+  _event: OwnershipTransferred;
+
+  constructor(event: OwnershipTransferred) {
+    this._event = event;
+  }
+
+  get previousOwner(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get newOwner(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+}
+
+export class ProtocolFeeUpdated extends ethereum.Event {
+  get params(): ProtocolFeeUpdated__Params {
+    return new ProtocolFeeUpdated__Params(this);
+  }
+}
+
+export class ProtocolFeeUpdated__Params {
+  _event: ProtocolFeeUpdated;
+
+  constructor(event: ProtocolFeeUpdated) {
+    this._event = event;
+  }
+
+  get feeRecipient(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get feeBps(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+}
+
+export class TemplateVersionPublished extends ethereum.Event {
+  get params(): TemplateVersionPublished__Params {
+    return new TemplateVersionPublished__Params(this);
+  }
+}
+
+export class TemplateVersionPublished__Params {
+  _event: TemplateVersionPublished;
+
+  constructor(event: TemplateVersionPublished) {
+    this._event = event;
+  }
+
+  get version(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get template(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+}
+
+export class GuildFactory__protocolFeeResult {
+  value0: Address;
+  value1: BigInt;
+
+  constructor(value0: Address, value1: BigInt) {
+    this.value0 = value0;
+    this.value1 = value1;
+  }
+
+  toMap(): TypedMap<string, ethereum.Value> {
+    let map = new TypedMap<string, ethereum.Value>();
+    map.set("value0", ethereum.Value.fromAddress(this.value0));
+    map.set("value1", ethereum.Value.fromUnsignedBigInt(this.value1));
+    return map;
+  }
 }
 
 export class GuildFactory extends ethereum.SmartContract {
@@ -37,6 +150,44 @@ export class GuildFactory extends ethereum.SmartContract {
     return new GuildFactory("GuildFactory", address);
   }
 
+  MAX_PROTOCOL_FEE_BPS(): BigInt {
+    let result = super.call(
+      "MAX_PROTOCOL_FEE_BPS",
+      "MAX_PROTOCOL_FEE_BPS():(uint256)",
+      []
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_MAX_PROTOCOL_FEE_BPS(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "MAX_PROTOCOL_FEE_BPS",
+      "MAX_PROTOCOL_FEE_BPS():(uint256)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  feeRecipient(): Address {
+    let result = super.call("feeRecipient", "feeRecipient():(address)", []);
+
+    return result[0].toAddress();
+  }
+
+  try_feeRecipient(): ethereum.CallResult<Address> {
+    let result = super.tryCall("feeRecipient", "feeRecipient():(address)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
   guildsOf(_owner: Address): Array<Address> {
     let result = super.call("guildsOf", "guildsOf(address):(address[])", [
       ethereum.Value.fromAddress(_owner)
@@ -56,6 +207,40 @@ export class GuildFactory extends ethereum.SmartContract {
     return ethereum.CallResult.fromValue(value[0].toAddressArray());
   }
 
+  latestVersion(): BigInt {
+    let result = super.call("latestVersion", "latestVersion():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_latestVersion(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "latestVersion",
+      "latestVersion():(uint256)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  owner(): Address {
+    let result = super.call("owner", "owner():(address)", []);
+
+    return result[0].toAddress();
+  }
+
+  try_owner(): ethereum.CallResult<Address> {
+    let result = super.tryCall("owner", "owner():(address)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
   predictDeterministicAddress(_salt: Bytes): Address {
     let result = super.call(
       "predictDeterministicAddress",
@@ -79,6 +264,88 @@ export class GuildFactory extends ethereum.SmartContract {
     return ethereum.CallResult.fromValue(value[0].toAddress());
   }
 
+  predictGuildAddress(_creator: Address, _salt: Bytes): Address {
+    let result = super.call(
+      "predictGuildAddress",
+      "predictGuildAddress(address,bytes32):(address)",
+      [
+        ethereum.Value.fromAddress(_creator),
+        ethereum.Value.fromFixedBytes(_salt)
+      ]
+    );
+
+    return result[0].toAddress();
+  }
+
+  try_predictGuildAddress(
+    _creator: Address,
+    _salt: Bytes
+  ): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "predictGuildAddress",
+      "predictGuildAddress(address,bytes32):(address)",
+      [
+        ethereum.Value.fromAddress(_creator),
+        ethereum.Value.fromFixedBytes(_salt)
+      ]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  protocolFee(): GuildFactory__protocolFeeResult {
+    let result = super.call(
+      "protocolFee",
+      "protocolFee():(address,uint256)",
+      []
+    );
+
+    return new GuildFactory__protocolFeeResult(
+      result[0].toAddress(),
+      result[1].toBigInt()
+    );
+  }
+
+  try_protocolFee(): ethereum.CallResult<GuildFactory__protocolFeeResult> {
+    let result = super.tryCall(
+      "protocolFee",
+      "protocolFee():(address,uint256)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      new GuildFactory__protocolFeeResult(
+        value[0].toAddress(),
+        value[1].toBigInt()
+      )
+    );
+  }
+
+  protocolFeeBps(): BigInt {
+    let result = super.call("protocolFeeBps", "protocolFeeBps():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_protocolFeeBps(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "protocolFeeBps",
+      "protocolFeeBps():(uint256)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
   template(): Address {
     let result = super.call("template", "template():(address)", []);
 
@@ -94,6 +361,29 @@ export class GuildFactory extends ethereum.SmartContract {
     return ethereum.CallResult.fromValue(value[0].toAddress());
   }
 
+  templateVersions(param0: BigInt): Address {
+    let result = super.call(
+      "templateVersions",
+      "templateVersions(uint256):(address)",
+      [ethereum.Value.fromUnsignedBigInt(param0)]
+    );
+
+    return result[0].toAddress();
+  }
+
+  try_templateVersions(param0: BigInt): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "templateVersions",
+      "templateVersions(uint256):(address)",
+      [ethereum.Value.fromUnsignedBigInt(param0)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
   totalGuilds(): BigInt {
     let result = super.call("totalGuilds", "totalGuilds():(uint256)", []);
 
@@ -110,6 +400,32 @@ export class GuildFactory extends ethereum.SmartContract {
   }
 }
 
+export class ConstructorCall extends ethereum.Call {
+  get inputs(): ConstructorCall__Inputs {
+    return new ConstructorCall__Inputs(this);
+  }
+
+  get outputs(): ConstructorCall__Outputs {
+    return new ConstructorCall__Outputs(this);
+  }
+}
+
+export class ConstructorCall__Inputs {
+  _call: ConstructorCall;
+
+  constructor(call: ConstructorCall) {
+    this._call = call;
+  }
+}
+
+export class ConstructorCall__Outputs {
+  _call: ConstructorCall;
+
+  constructor(call: ConstructorCall) {
+    this._call = call;
+  }
+}
+
 export class CreateGuildCall extends ethereum.Call {
   get inputs(): CreateGuildCall__Inputs {
     return new CreateGuildCall__Inputs(this);
@@ -140,20 +456,20 @@ export class CreateGuildCall__Outputs {
   }
 }
 
-export class CreateGuild1Call extends ethereum.Call {
-  get inputs(): CreateGuild1Call__Inputs {
-    return new CreateGuild1Call__Inputs(this);
+export class CreateGuildDeterministicCall extends ethereum.Call {
+  get inputs(): CreateGuildDeterministicCall__Inputs {
+    return new CreateGuildDeterministicCall__Inputs(this);
   }
 
-  get outputs(): CreateGuild1Call__Outputs {
-    return new CreateGuild1Call__Outputs(this);
+  get outputs(): CreateGuildDeterministicCall__Outputs {
+    return new CreateGuildDeterministicCall__Outputs(this);
   }
 }
 
-export class CreateGuild1Call__Inputs {
-  _call: CreateGuild1Call;
+export class CreateGuildDeterministicCall__Inputs {
+  _call: CreateGuildDeterministicCall;
 
-  constructor(call: CreateGuild1Call) {
+  constructor(call: CreateGuildDeterministicCall) {
     this._call = call;
   }
 
@@ -166,10 +482,40 @@ export class CreateGuild1Call__Inputs {
   }
 }
 
-export class CreateGuild1Call__Outputs {
-  _call: CreateGuild1Call;
+export class CreateGuildDeterministicCall__Outputs {
+  _call: CreateGuildDeterministicCall;
 
-  constructor(call: CreateGuild1Call) {
+  constructor(call: CreateGuildDeterministicCall) {
+    this._call = call;
+  }
+}
+
+export class CreateUpgradeableGuildCall extends ethereum.Call {
+  get inputs(): CreateUpgradeableGuildCall__Inputs {
+    return new CreateUpgradeableGuildCall__Inputs(this);
+  }
+
+  get outputs(): CreateUpgradeableGuildCall__Outputs {
+    return new CreateUpgradeableGuildCall__Outputs(this);
+  }
+}
+
+export class CreateUpgradeableGuildCall__Inputs {
+  _call: CreateUpgradeableGuildCall;
+
+  constructor(call: CreateUpgradeableGuildCall) {
+    this._call = call;
+  }
+
+  get _initData(): Bytes {
+    return this._call.inputValues[0].value.toBytes();
+  }
+}
+
+export class CreateUpgradeableGuildCall__Outputs {
+  _call: CreateUpgradeableGuildCall;
+
+  constructor(call: CreateUpgradeableGuildCall) {
     this._call = call;
   }
 }
@@ -203,3 +549,131 @@ export class InitializeCall__Outputs {
     this._call = call;
   }
 }
+
+export class PublishTemplateVersionCall extends ethereum.Call {
+  get inputs(): PublishTemplateVersionCall__Inputs {
+    return new PublishTemplateVersionCall__Inputs(this);
+  }
+
+  get outputs(): PublishTemplateVersionCall__Outputs {
+    return new PublishTemplateVersionCall__Outputs(this);
+  }
+}
+
+export class PublishTemplateVersionCall__Inputs {
+  _call: PublishTemplateVersionCall;
+
+  constructor(call: PublishTemplateVersionCall) {
+    this._call = call;
+  }
+
+  get _template(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class PublishTemplateVersionCall__Outputs {
+  _call: PublishTemplateVersionCall;
+
+  constructor(call: PublishTemplateVersionCall) {
+    this._call = call;
+  }
+}
+
+export class RenewBatchCall extends ethereum.Call {
+  get inputs(): RenewBatchCall__Inputs {
+    return new RenewBatchCall__Inputs(this);
+  }
+
+  get outputs(): RenewBatchCall__Outputs {
+    return new RenewBatchCall__Outputs(this);
+  }
+}
+
+export class RenewBatchCall__Inputs {
+  _call: RenewBatchCall;
+
+  constructor(call: RenewBatchCall) {
+    this._call = call;
+  }
+
+  get _guildList(): Array<Address> {
+    return this._call.inputValues[0].value.toAddressArray();
+  }
+
+  get _subscribers(): Array<Address> {
+    return this._call.inputValues[1].value.toAddressArray();
+  }
+}
+
+export class RenewBatchCall__Outputs {
+  _call: RenewBatchCall;
+
+  constructor(call: RenewBatchCall) {
+    this._call = call;
+  }
+}
+
+export class SetProtocolFeeCall extends ethereum.Call {
+  get inputs(): SetProtocolFeeCall__Inputs {
+    return new SetProtocolFeeCall__Inputs(this);
+  }
+
+  get outputs(): SetProtocolFeeCall__Outputs {
+    return new SetProtocolFeeCall__Outputs(this);
+  }
+}
+
+export class SetProtocolFeeCall__Inputs {
+  _call: SetProtocolFeeCall;
+
+  constructor(call: SetProtocolFeeCall) {
+    this._call = call;
+  }
+
+  get _feeRecipient(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get _feeBps(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+}
+
+export class SetProtocolFeeCall__Outputs {
+  _call: SetProtocolFeeCall;
+
+  constructor(call: SetProtocolFeeCall) {
+    this._call = call;
+  }
+}
+
+export class TransferOwnershipCall extends ethereum.Call {
+  get inputs(): TransferOwnershipCall__Inputs {
+    return new TransferOwnershipCall__Inputs(this);
+  }
+
+  get outputs(): TransferOwnershipCall__Outputs {
+    return new TransferOwnershipCall__Outputs(this);
+  }
+}
+
+export class TransferOwnershipCall__Inputs {
+  _call: TransferOwnershipCall;
+
+  constructor(call: TransferOwnershipCall) {
+    this._call = call;
+  }
+
+  get _newOwner(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class TransferOwnershipCall__Outputs {
+  _call: TransferOwnershipCall;
+
+  constructor(call: TransferOwnershipCall) {
+    this._call = call;
+  }
+}
@@ -77,6 +77,40 @@ export class Guild extends Entity {
     }
   }
 
+  get closedAt(): string | null {
+    let value = this.get("closedAt");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set closedAt(value: string | null) {
+    if (value === null) {
+      this.unset("closedAt");
+    } else {
+      this.set("closedAt", Value.fromString(value as string));
+    }
+  }
+
+  get closingRefundsProcessedAt(): string | null {
+    let value = this.get("closingRefundsProcessedAt");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set closingRefundsProcessedAt(value: string | null) {
+    if (value === null) {
+      this.unset("closingRefundsProcessedAt");
+    } else {
+      this.set("closingRefundsProcessedAt", Value.fromString(value as string));
+    }
+  }
+
   get owner(): Bytes {
     let value = this.get("owner");
     return value.toBytes();
@@ -91,126 +125,1202 @@ export class Guild extends Entity {
     return value.toString();
   }
 
-  set name(value: string) {
-    this.set("name", Value.fromString(value));
+  set name(value: string) {
+    this.set("name", Value.fromString(value));
+  }
+
+  get symbol(): string {
+    let value = this.get("symbol");
+    return value.toString();
+  }
+
+  set symbol(value: string) {
+    this.set("symbol", Value.fromString(value));
+  }
+
+  get metadataURI(): string {
+    let value = this.get("metadataURI");
+    return value.toString();
+  }
+
+  set metadataURI(value: string) {
+    this.set("metadataURI", Value.fromString(value));
+  }
+
+  get active(): boolean {
+    let value = this.get("active");
+    return value.toBoolean();
+  }
+
+  set active(value: boolean) {
+    this.set("active", Value.fromBoolean(value));
+  }
+
+  get tokenAddress(): Bytes {
+    let value = this.get("tokenAddress");
+    return value.toBytes();
+  }
+
+  set tokenAddress(value: Bytes) {
+    this.set("tokenAddress", Value.fromBytes(value));
+  }
+
+  get acceptedTokens(): Array<Bytes> {
+    let value = this.get("acceptedTokens");
+    return value.toBytesArray();
+  }
+
+  set acceptedTokens(value: Array<Bytes>) {
+    this.set("acceptedTokens", Value.fromBytesArray(value));
+  }
+
+  get currentPrice(): BigInt {
+    let value = this.get("currentPrice");
+    return value.toBigInt();
+  }
+
+  set currentPrice(value: BigInt) {
+    this.set("currentPrice", Value.fromBigInt(value));
+  }
+
+  get subsPeriod(): BigInt {
+    let value = this.get("subsPeriod");
+    return value.toBigInt();
+  }
+
+  set subsPeriod(value: BigInt) {
+    this.set("subsPeriod", Value.fromBigInt(value));
+  }
+
+  get discountMinPeriods(): BigInt {
+    let value = this.get("discountMinPeriods");
+    return value.toBigInt();
+  }
+
+  set discountMinPeriods(value: BigInt) {
+    this.set("discountMinPeriods", Value.fromBigInt(value));
+  }
+
+  get discountBps(): BigInt {
+    let value = this.get("discountBps");
+    return value.toBigInt();
+  }
+
+  set discountBps(value: BigInt) {
+    this.set("discountBps", Value.fromBigInt(value));
+  }
+
+  get gracePeriod(): BigInt {
+    let value = this.get("gracePeriod");
+    return value.toBigInt();
+  }
+
+  set gracePeriod(value: BigInt) {
+    this.set("gracePeriod", Value.fromBigInt(value));
+  }
+
+  get refundPolicy(): i32 {
+    let value = this.get("refundPolicy");
+    return value.toI32();
+  }
+
+  set refundPolicy(value: i32) {
+    this.set("refundPolicy", Value.fromI32(value));
+  }
+
+  get refundWindow(): BigInt {
+    let value = this.get("refundWindow");
+    return value.toBigInt();
+  }
+
+  set refundWindow(value: BigInt) {
+    this.set("refundWindow", Value.fromBigInt(value));
+  }
+
+  get transferPolicy(): i32 {
+    let value = this.get("transferPolicy");
+    return value.toI32();
+  }
+
+  set transferPolicy(value: i32) {
+    this.set("transferPolicy", Value.fromI32(value));
+  }
+
+  get allowlistRoot(): Bytes | null {
+    let value = this.get("allowlistRoot");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toBytes();
+    }
+  }
+
+  set allowlistRoot(value: Bytes | null) {
+    if (value === null) {
+      this.unset("allowlistRoot");
+    } else {
+      this.set("allowlistRoot", Value.fromBytes(value as Bytes));
+    }
+  }
+
+  get allowlistCID(): string | null {
+    let value = this.get("allowlistCID");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set allowlistCID(value: string | null) {
+    if (value === null) {
+      this.unset("allowlistCID");
+    } else {
+      this.set("allowlistCID", Value.fromString(value as string));
+    }
+  }
+
+  get maxMembers(): BigInt {
+    let value = this.get("maxMembers");
+    return value.toBigInt();
+  }
+
+  set maxMembers(value: BigInt) {
+    this.set("maxMembers", Value.fromBigInt(value));
+  }
+
+  get grandfatheredPricing(): boolean {
+    let value = this.get("grandfatheredPricing");
+    return value.toBoolean();
+  }
+
+  set grandfatheredPricing(value: boolean) {
+    this.set("grandfatheredPricing", Value.fromBoolean(value));
+  }
+
+  get maxFreezeDuration(): BigInt {
+    let value = this.get("maxFreezeDuration");
+    return value.toBigInt();
+  }
+
+  set maxFreezeDuration(value: BigInt) {
+    this.set("maxFreezeDuration", Value.fromBigInt(value));
+  }
+
+  get maxFreezes(): BigInt {
+    let value = this.get("maxFreezes");
+    return value.toBigInt();
+  }
+
+  set maxFreezes(value: BigInt) {
+    this.set("maxFreezes", Value.fromBigInt(value));
+  }
+
+  get referralRewardBps(): BigInt {
+    let value = this.get("referralRewardBps");
+    return value.toBigInt();
+  }
+
+  set referralRewardBps(value: BigInt) {
+    this.set("referralRewardBps", Value.fromBigInt(value));
+  }
+
+  get referralBonusDuration(): BigInt {
+    let value = this.get("referralBonusDuration");
+    return value.toBigInt();
+  }
+
+  set referralBonusDuration(value: BigInt) {
+    this.set("referralBonusDuration", Value.fromBigInt(value));
+  }
+
+  get templateVersion(): BigInt {
+    let value = this.get("templateVersion");
+    return value.toBigInt();
+  }
+
+  set templateVersion(value: BigInt) {
+    this.set("templateVersion", Value.fromBigInt(value));
+  }
+
+  get upgradeable(): boolean {
+    let value = this.get("upgradeable");
+    return value.toBoolean();
+  }
+
+  set upgradeable(value: boolean) {
+    this.set("upgradeable", Value.fromBoolean(value));
+  }
+
+  get totalSubscribers(): BigInt {
+    let value = this.get("totalSubscribers");
+    return value.toBigInt();
+  }
+
+  set totalSubscribers(value: BigInt) {
+    this.set("totalSubscribers", Value.fromBigInt(value));
+  }
+
+  get tiers(): Array<string> | null {
+    let value = this.get("tiers");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set tiers(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("tiers");
+    } else {
+      this.set("tiers", Value.fromStringArray(value as Array<string>));
+    }
+  }
+
+  get balances(): Array<string> | null {
+    let value = this.get("balances");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set balances(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("balances");
+    } else {
+      this.set("balances", Value.fromStringArray(value as Array<string>));
+    }
+  }
+
+  get subscriptions(): Array<string> | null {
+    let value = this.get("subscriptions");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set subscriptions(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("subscriptions");
+    } else {
+      this.set("subscriptions", Value.fromStringArray(value as Array<string>));
+    }
+  }
+
+  get withdrawals(): Array<string> | null {
+    let value = this.get("withdrawals");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set withdrawals(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("withdrawals");
+    } else {
+      this.set("withdrawals", Value.fromStringArray(value as Array<string>));
+    }
+  }
+
+  get tips(): Array<string> | null {
+    let value = this.get("tips");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set tips(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("tips");
+    } else {
+      this.set("tips", Value.fromStringArray(value as Array<string>));
+    }
+  }
+
+  get referrers(): Array<string> | null {
+    let value = this.get("referrers");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set referrers(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("referrers");
+    } else {
+      this.set("referrers", Value.fromStringArray(value as Array<string>));
+    }
+  }
+
+  get members(): Array<string> | null {
+    let value = this.get("members");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set members(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("members");
+    } else {
+      this.set("members", Value.fromStringArray(value as Array<string>));
+    }
+  }
+}
+
+export class GuildMember extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id !== null, "Cannot save GuildMember entity without an ID");
+    assert(
+      id.kind == ValueKind.STRING,
+      "Cannot save GuildMember entity with non-string ID. " +
+        'Considering using .toHex() to convert the "id" to a string.'
+    );
+    store.set("GuildMember", id.toString(), this);
+  }
+
+  static load(id: string): GuildMember | null {
+    return store.get("GuildMember", id) as GuildMember | null;
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    return value.toString();
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get guild(): string {
+    let value = this.get("guild");
+    return value.toString();
+  }
+
+  set guild(value: string) {
+    this.set("guild", Value.fromString(value));
+  }
+
+  get account(): Bytes {
+    let value = this.get("account");
+    return value.toBytes();
+  }
+
+  set account(value: Bytes) {
+    this.set("account", Value.fromBytes(value));
+  }
+
+  get roles(): Array<Bytes> {
+    let value = this.get("roles");
+    return value.toBytesArray();
+  }
+
+  set roles(value: Array<Bytes>) {
+    this.set("roles", Value.fromBytesArray(value));
+  }
+}
+
+export class GuildTier extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id !== null, "Cannot save GuildTier entity without an ID");
+    assert(
+      id.kind == ValueKind.STRING,
+      "Cannot save GuildTier entity with non-string ID. " +
+        'Considering using .toHex() to convert the "id" to a string.'
+    );
+    store.set("GuildTier", id.toString(), this);
+  }
+
+  static load(id: string): GuildTier | null {
+    return store.get("GuildTier", id) as GuildTier | null;
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    return value.toString();
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get guild(): string {
+    let value = this.get("guild");
+    return value.toString();
+  }
+
+  set guild(value: string) {
+    this.set("guild", Value.fromString(value));
+  }
+
+  get tierId(): BigInt {
+    let value = this.get("tierId");
+    return value.toBigInt();
+  }
+
+  set tierId(value: BigInt) {
+    this.set("tierId", Value.fromBigInt(value));
+  }
+
+  get name(): string {
+    let value = this.get("name");
+    return value.toString();
+  }
+
+  set name(value: string) {
+    this.set("name", Value.fromString(value));
+  }
+
+  get period(): BigInt {
+    let value = this.get("period");
+    return value.toBigInt();
+  }
+
+  set period(value: BigInt) {
+    this.set("period", Value.fromBigInt(value));
+  }
+
+  get cap(): BigInt {
+    let value = this.get("cap");
+    return value.toBigInt();
+  }
+
+  set cap(value: BigInt) {
+    this.set("cap", Value.fromBigInt(value));
+  }
+
+  get totalSubscribers(): BigInt {
+    let value = this.get("totalSubscribers");
+    return value.toBigInt();
+  }
+
+  set totalSubscribers(value: BigInt) {
+    this.set("totalSubscribers", Value.fromBigInt(value));
+  }
+
+  get prices(): Array<string> | null {
+    let value = this.get("prices");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set prices(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("prices");
+    } else {
+      this.set("prices", Value.fromStringArray(value as Array<string>));
+    }
+  }
+
+  get subscriptions(): Array<string> | null {
+    let value = this.get("subscriptions");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set subscriptions(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("subscriptions");
+    } else {
+      this.set("subscriptions", Value.fromStringArray(value as Array<string>));
+    }
+  }
+}
+
+export class GuildTierPrice extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id !== null, "Cannot save GuildTierPrice entity without an ID");
+    assert(
+      id.kind == ValueKind.STRING,
+      "Cannot save GuildTierPrice entity with non-string ID. " +
+        'Considering using .toHex() to convert the "id" to a string.'
+    );
+    store.set("GuildTierPrice", id.toString(), this);
+  }
+
+  static load(id: string): GuildTierPrice | null {
+    return store.get("GuildTierPrice", id) as GuildTierPrice | null;
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    return value.toString();
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get tier(): string {
+    let value = this.get("tier");
+    return value.toString();
+  }
+
+  set tier(value: string) {
+    this.set("tier", Value.fromString(value));
+  }
+
+  get tokenAddress(): Bytes {
+    let value = this.get("tokenAddress");
+    return value.toBytes();
+  }
+
+  set tokenAddress(value: Bytes) {
+    this.set("tokenAddress", Value.fromBytes(value));
+  }
+
+  get price(): BigInt {
+    let value = this.get("price");
+    return value.toBigInt();
+  }
+
+  set price(value: BigInt) {
+    this.set("price", Value.fromBigInt(value));
+  }
+}
+
+export class GuildBalance extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id !== null, "Cannot save GuildBalance entity without an ID");
+    assert(
+      id.kind == ValueKind.STRING,
+      "Cannot save GuildBalance entity with non-string ID. " +
+        'Considering using .toHex() to convert the "id" to a string.'
+    );
+    store.set("GuildBalance", id.toString(), this);
+  }
+
+  static load(id: string): GuildBalance | null {
+    return store.get("GuildBalance", id) as GuildBalance | null;
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    return value.toString();
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get guild(): string {
+    let value = this.get("guild");
+    return value.toString();
+  }
+
+  set guild(value: string) {
+    this.set("guild", Value.fromString(value));
+  }
+
+  get addedAt(): string {
+    let value = this.get("addedAt");
+    return value.toString();
+  }
+
+  set addedAt(value: string) {
+    this.set("addedAt", Value.fromString(value));
+  }
+
+  get tokenAddress(): Bytes {
+    let value = this.get("tokenAddress");
+    return value.toBytes();
+  }
+
+  set tokenAddress(value: Bytes) {
+    this.set("tokenAddress", Value.fromBytes(value));
+  }
+
+  get currentBalance(): BigInt {
+    let value = this.get("currentBalance");
+    return value.toBigInt();
+  }
+
+  set currentBalance(value: BigInt) {
+    this.set("currentBalance", Value.fromBigInt(value));
+  }
+
+  get totalSubscriptions(): BigInt {
+    let value = this.get("totalSubscriptions");
+    return value.toBigInt();
+  }
+
+  set totalSubscriptions(value: BigInt) {
+    this.set("totalSubscriptions", Value.fromBigInt(value));
+  }
+
+  get totalTips(): BigInt {
+    let value = this.get("totalTips");
+    return value.toBigInt();
+  }
+
+  set totalTips(value: BigInt) {
+    this.set("totalTips", Value.fromBigInt(value));
+  }
+
+  get totalFees(): BigInt {
+    let value = this.get("totalFees");
+    return value.toBigInt();
+  }
+
+  set totalFees(value: BigInt) {
+    this.set("totalFees", Value.fromBigInt(value));
+  }
+}
+
+export class GuildSubscription extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id !== null, "Cannot save GuildSubscription entity without an ID");
+    assert(
+      id.kind == ValueKind.STRING,
+      "Cannot save GuildSubscription entity with non-string ID. " +
+        'Considering using .toHex() to convert the "id" to a string.'
+    );
+    store.set("GuildSubscription", id.toString(), this);
+  }
+
+  static load(id: string): GuildSubscription | null {
+    return store.get("GuildSubscription", id) as GuildSubscription | null;
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    return value.toString();
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get createdAt(): string {
+    let value = this.get("createdAt");
+    return value.toString();
+  }
+
+  set createdAt(value: string) {
+    this.set("createdAt", Value.fromString(value));
+  }
+
+  get active(): boolean {
+    let value = this.get("active");
+    return value.toBoolean();
+  }
+
+  set active(value: boolean) {
+    this.set("active", Value.fromBoolean(value));
+  }
+
+  get unsubscribedAt(): string | null {
+    let value = this.get("unsubscribedAt");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set unsubscribedAt(value: string | null) {
+    if (value === null) {
+      this.unset("unsubscribedAt");
+    } else {
+      this.set("unsubscribedAt", Value.fromString(value as string));
+    }
+  }
+
+  get guild(): string {
+    let value = this.get("guild");
+    return value.toString();
+  }
+
+  set guild(value: string) {
+    this.set("guild", Value.fromString(value));
+  }
+
+  get tier(): string {
+    let value = this.get("tier");
+    return value.toString();
+  }
+
+  set tier(value: string) {
+    this.set("tier", Value.fromString(value));
+  }
+
+  get keyId(): BigInt {
+    let value = this.get("keyId");
+    return value.toBigInt();
+  }
+
+  set keyId(value: BigInt) {
+    this.set("keyId", Value.fromBigInt(value));
+  }
+
+  get owner(): Bytes {
+    let value = this.get("owner");
+    return value.toBytes();
+  }
+
+  set owner(value: Bytes) {
+    this.set("owner", Value.fromBytes(value));
+  }
+
+  get expires(): string {
+    let value = this.get("expires");
+    return value.toString();
+  }
+
+  set expires(value: string) {
+    this.set("expires", Value.fromString(value));
+  }
+
+  get lockedToken(): Bytes {
+    let value = this.get("lockedToken");
+    return value.toBytes();
+  }
+
+  set lockedToken(value: Bytes) {
+    this.set("lockedToken", Value.fromBytes(value));
+  }
+
+  get lockedPrice(): BigInt {
+    let value = this.get("lockedPrice");
+    return value.toBigInt();
+  }
+
+  set lockedPrice(value: BigInt) {
+    this.set("lockedPrice", Value.fromBigInt(value));
+  }
+
+  get frozenAt(): string | null {
+    let value = this.get("frozenAt");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set frozenAt(value: string | null) {
+    if (value === null) {
+      this.unset("frozenAt");
+    } else {
+      this.set("frozenAt", Value.fromString(value as string));
+    }
+  }
+
+  get resumeAt(): string | null {
+    let value = this.get("resumeAt");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toString();
+    }
+  }
+
+  set resumeAt(value: string | null) {
+    if (value === null) {
+      this.unset("resumeAt");
+    } else {
+      this.set("resumeAt", Value.fromString(value as string));
+    }
+  }
+
+  get freezes(): BigInt {
+    let value = this.get("freezes");
+    return value.toBigInt();
+  }
+
+  set freezes(value: BigInt) {
+    this.set("freezes", Value.fromBigInt(value));
+  }
+
+  get seatReleased(): boolean {
+    let value = this.get("seatReleased");
+    return value.toBoolean();
+  }
+
+  set seatReleased(value: boolean) {
+    this.set("seatReleased", Value.fromBoolean(value));
+  }
+
+  get paymentHistory(): Array<string> | null {
+    let value = this.get("paymentHistory");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set paymentHistory(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("paymentHistory");
+    } else {
+      this.set("paymentHistory", Value.fromStringArray(value as Array<string>));
+    }
+  }
+
+  get gifts(): Array<string> | null {
+    let value = this.get("gifts");
+    if (value === null || value.kind == ValueKind.NULL) {
+      return null;
+    } else {
+      return value.toStringArray();
+    }
+  }
+
+  set gifts(value: Array<string> | null) {
+    if (value === null) {
+      this.unset("gifts");
+    } else {
+      this.set("gifts", Value.fromStringArray(value as Array<string>));
+    }
+  }
+}
+
+export class VoucherRedemption extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id !== null, "Cannot save VoucherRedemption entity without an ID");
+    assert(
+      id.kind == ValueKind.STRING,
+      "Cannot save VoucherRedemption entity with non-string ID. " +
+        'Considering using .toHex() to convert the "id" to a string.'
+    );
+    store.set("VoucherRedemption", id.toString(), this);
+  }
+
+  static load(id: string): VoucherRedemption | null {
+    return store.get("VoucherRedemption", id) as VoucherRedemption | null;
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    return value.toString();
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get redeemedAt(): string {
+    let value = this.get("redeemedAt");
+    return value.toString();
+  }
+
+  set redeemedAt(value: string) {
+    this.set("redeemedAt", Value.fromString(value));
+  }
+
+  get guild(): string {
+    let value = this.get("guild");
+    return value.toString();
+  }
+
+  set guild(value: string) {
+    this.set("guild", Value.fromString(value));
+  }
+
+  get voucher(): Bytes {
+    let value = this.get("voucher");
+    return value.toBytes();
+  }
+
+  set voucher(value: Bytes) {
+    this.set("voucher", Value.fromBytes(value));
+  }
+
+  get subscriber(): Bytes {
+    let value = this.get("subscriber");
+    return value.toBytes();
+  }
+
+  set subscriber(value: Bytes) {
+    this.set("subscriber", Value.fromBytes(value));
+  }
+
+  get cost(): BigInt {
+    let value = this.get("cost");
+    return value.toBigInt();
+  }
+
+  set cost(value: BigInt) {
+    this.set("cost", Value.fromBigInt(value));
+  }
+}
+
+export class RenewalFailure extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id !== null, "Cannot save RenewalFailure entity without an ID");
+    assert(
+      id.kind == ValueKind.STRING,
+      "Cannot save RenewalFailure entity with non-string ID. " +
+        'Considering using .toHex() to convert the "id" to a string.'
+    );
+    store.set("RenewalFailure", id.toString(), this);
+  }
+
+  static load(id: string): RenewalFailure | null {
+    return store.get("RenewalFailure", id) as RenewalFailure | null;
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    return value.toString();
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get failedAt(): string {
+    let value = this.get("failedAt");
+    return value.toString();
+  }
+
+  set failedAt(value: string) {
+    this.set("failedAt", Value.fromString(value));
+  }
+
+  get guild(): string {
+    let value = this.get("guild");
+    return value.toString();
+  }
+
+  set guild(value: string) {
+    this.set("guild", Value.fromString(value));
+  }
+
+  get subscriber(): Bytes {
+    let value = this.get("subscriber");
+    return value.toBytes();
+  }
+
+  set subscriber(value: Bytes) {
+    this.set("subscriber", Value.fromBytes(value));
+  }
+
+  get reason(): Bytes {
+    let value = this.get("reason");
+    return value.toBytes();
+  }
+
+  set reason(value: Bytes) {
+    this.set("reason", Value.fromBytes(value));
+  }
+}
+
+export class WaitlistEntry extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id !== null, "Cannot save WaitlistEntry entity without an ID");
+    assert(
+      id.kind == ValueKind.STRING,
+      "Cannot save WaitlistEntry entity with non-string ID. " +
+        'Considering using .toHex() to convert the "id" to a string.'
+    );
+    store.set("WaitlistEntry", id.toString(), this);
+  }
+
+  static load(id: string): WaitlistEntry | null {
+    return store.get("WaitlistEntry", id) as WaitlistEntry | null;
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    return value.toString();
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get joinedAt(): string {
+    let value = this.get("joinedAt");
+    return value.toString();
+  }
+
+  set joinedAt(value: string) {
+    this.set("joinedAt", Value.fromString(value));
+  }
+
+  get guild(): string {
+    let value = this.get("guild");
+    return value.toString();
+  }
+
+  set guild(value: string) {
+    this.set("guild", Value.fromString(value));
   }
 
-  get symbol(): string {
-    let value = this.get("symbol");
+  get tier(): string {
+    let value = this.get("tier");
     return value.toString();
   }
 
-  set symbol(value: string) {
-    this.set("symbol", Value.fromString(value));
+  set tier(value: string) {
+    this.set("tier", Value.fromString(value));
   }
 
-  get metadataURI(): string {
-    let value = this.get("metadataURI");
-    return value.toString();
+  get account(): Bytes {
+    let value = this.get("account");
+    return value.toBytes();
   }
 
-  set metadataURI(value: string) {
-    this.set("metadataURI", Value.fromString(value));
+  set account(value: Bytes) {
+    this.set("account", Value.fromBytes(value));
   }
+}
 
-  get active(): boolean {
-    let value = this.get("active");
-    return value.toBoolean();
+export class SubscriptionGift extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
   }
 
-  set active(value: boolean) {
-    this.set("active", Value.fromBoolean(value));
+  save(): void {
+    let id = this.get("id");
+    assert(id !== null, "Cannot save SubscriptionGift entity without an ID");
+    assert(
+      id.kind == ValueKind.STRING,
+      "Cannot save SubscriptionGift entity with non-string ID. " +
+        'Considering using .toHex() to convert the "id" to a string.'
+    );
+    store.set("SubscriptionGift", id.toString(), this);
   }
 
-  get tokenAddress(): Bytes {
-    let value = this.get("tokenAddress");
-    return value.toBytes();
+  static load(id: string): SubscriptionGift | null {
+    return store.get("SubscriptionGift", id) as SubscriptionGift | null;
   }
 
-  set tokenAddress(value: Bytes) {
-    this.set("tokenAddress", Value.fromBytes(value));
+  get id(): string {
+    let value = this.get("id");
+    return value.toString();
   }
 
-  get currentPrice(): BigInt {
-    let value = this.get("currentPrice");
-    return value.toBigInt();
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
   }
 
-  set currentPrice(value: BigInt) {
-    this.set("currentPrice", Value.fromBigInt(value));
+  get giftedAt(): string {
+    let value = this.get("giftedAt");
+    return value.toString();
   }
 
-  get subsPeriod(): BigInt {
-    let value = this.get("subsPeriod");
-    return value.toBigInt();
+  set giftedAt(value: string) {
+    this.set("giftedAt", Value.fromString(value));
   }
 
-  set subsPeriod(value: BigInt) {
-    this.set("subsPeriod", Value.fromBigInt(value));
+  get subscription(): string {
+    let value = this.get("subscription");
+    return value.toString();
   }
 
-  get totalSubscribers(): BigInt {
-    let value = this.get("totalSubscribers");
-    return value.toBigInt();
+  set subscription(value: string) {
+    this.set("subscription", Value.fromString(value));
   }
 
-  set totalSubscribers(value: BigInt) {
-    this.set("totalSubscribers", Value.fromBigInt(value));
+  get payer(): Bytes {
+    let value = this.get("payer");
+    return value.toBytes();
   }
 
-  get balances(): Array<string> | null {
-    let value = this.get("balances");
-    if (value === null || value.kind == ValueKind.NULL) {
-      return null;
-    } else {
-      return value.toStringArray();
-    }
+  set payer(value: Bytes) {
+    this.set("payer", Value.fromBytes(value));
   }
 
-  set balances(value: Array<string> | null) {
-    if (value === null) {
-      this.unset("balances");
-    } else {
-      this.set("balances", Value.fromStringArray(value as Array<string>));
-    }
+  get recipient(): Bytes {
+    let value = this.get("recipient");
+    return value.toBytes();
   }
 
-  get subscriptions(): Array<string> | null {
-    let value = this.get("subscriptions");
-    if (value === null || value.kind == ValueKind.NULL) {
-      return null;
-    } else {
-      return value.toStringArray();
-    }
+  set recipient(value: Bytes) {
+    this.set("recipient", Value.fromBytes(value));
   }
 
-  set subscriptions(value: Array<string> | null) {
-    if (value === null) {
-      this.unset("subscriptions");
-    } else {
-      this.set("subscriptions", Value.fromStringArray(value as Array<string>));
-    }
+  get expires(): string {
+    let value = this.get("expires");
+    return value.toString();
   }
 
-  get withdrawals(): Array<string> | null {
-    let value = this.get("withdrawals");
-    if (value === null || value.kind == ValueKind.NULL) {
-      return null;
-    } else {
-      return value.toStringArray();
-    }
+  set expires(value: string) {
+    this.set("expires", Value.fromString(value));
   }
 
-  set withdrawals(value: Array<string> | null) {
-    if (value === null) {
-      this.unset("withdrawals");
-    } else {
-      this.set("withdrawals", Value.fromStringArray(value as Array<string>));
-    }
+  get messageCID(): string {
+    let value = this.get("messageCID");
+    return value.toString();
+  }
+
+  set messageCID(value: string) {
+    this.set("messageCID", Value.fromString(value));
   }
 }
 
-export class GuildBalance extends Entity {
+export class Tip extends Entity {
   constructor(id: string) {
     super();
     this.set("id", Value.fromString(id));
@@ -218,17 +1328,17 @@ export class GuildBalance extends Entity {
 
   save(): void {
     let id = this.get("id");
-    assert(id !== null, "Cannot save GuildBalance entity without an ID");
+    assert(id !== null, "Cannot save Tip entity without an ID");
     assert(
       id.kind == ValueKind.STRING,
-      "Cannot save GuildBalance entity with non-string ID. " +
+      "Cannot save Tip entity with non-string ID. " +
         'Considering using .toHex() to convert the "id" to a string.'
     );
-    store.set("GuildBalance", id.toString(), this);
+    store.set("Tip", id.toString(), this);
   }
 
-  static load(id: string): GuildBalance | null {
-    return store.get("GuildBalance", id) as GuildBalance | null;
+  static load(id: string): Tip | null {
+    return store.get("Tip", id) as Tip | null;
   }
 
   get id(): string {
@@ -240,6 +1350,15 @@ export class GuildBalance extends Entity {
     this.set("id", Value.fromString(value));
   }
 
+  get tippedAt(): string {
+    let value = this.get("tippedAt");
+    return value.toString();
+  }
+
+  set tippedAt(value: string) {
+    this.set("tippedAt", Value.fromString(value));
+  }
+
   get guild(): string {
     let value = this.get("guild");
     return value.toString();
@@ -249,13 +1368,13 @@ export class GuildBalance extends Entity {
     this.set("guild", Value.fromString(value));
   }
 
-  get addedAt(): string {
-    let value = this.get("addedAt");
-    return value.toString();
+  get tipper(): Bytes {
+    let value = this.get("tipper");
+    return value.toBytes();
   }
 
-  set addedAt(value: string) {
-    this.set("addedAt", Value.fromString(value));
+  set tipper(value: Bytes) {
+    this.set("tipper", Value.fromBytes(value));
   }
 
   get tokenAddress(): Bytes {
@@ -267,26 +1386,35 @@ export class GuildBalance extends Entity {
     this.set("tokenAddress", Value.fromBytes(value));
   }
 
-  get currentBalance(): BigInt {
-    let value = this.get("currentBalance");
+  get value(): BigInt {
+    let value = this.get("value");
     return value.toBigInt();
   }
 
-  set currentBalance(value: BigInt) {
-    this.set("currentBalance", Value.fromBigInt(value));
+  set value(value: BigInt) {
+    this.set("value", Value.fromBigInt(value));
   }
 
-  get totalSubscriptions(): BigInt {
-    let value = this.get("totalSubscriptions");
+  get fee(): BigInt {
+    let value = this.get("fee");
     return value.toBigInt();
   }
 
-  set totalSubscriptions(value: BigInt) {
-    this.set("totalSubscriptions", Value.fromBigInt(value));
+  set fee(value: BigInt) {
+    this.set("fee", Value.fromBigInt(value));
+  }
+
+  get messageCID(): string {
+    let value = this.get("messageCID");
+    return value.toString();
+  }
+
+  set messageCID(value: string) {
+    this.set("messageCID", Value.fromString(value));
   }
 }
 
-export class GuildSubscription extends Entity {
+export class GuildReferrer extends Entity {
   constructor(id: string) {
     super();
     this.set("id", Value.fromString(id));
@@ -294,17 +1422,17 @@ export class GuildSubscription extends Entity {
 
   save(): void {
     let id = this.get("id");
-    assert(id !== null, "Cannot save GuildSubscription entity without an ID");
+    assert(id !== null, "Cannot save GuildReferrer entity without an ID");
     assert(
       id.kind == ValueKind.STRING,
-      "Cannot save GuildSubscription entity with non-string ID. " +
+      "Cannot save GuildReferrer entity with non-string ID. " +
         'Considering using .toHex() to convert the "id" to a string.'
     );
-    store.set("GuildSubscription", id.toString(), this);
+    store.set("GuildReferrer", id.toString(), this);
   }
 
-  static load(id: string): GuildSubscription | null {
-    return store.get("GuildSubscription", id) as GuildSubscription | null;
+  static load(id: string): GuildReferrer | null {
+    return store.get("GuildReferrer", id) as GuildReferrer | null;
   }
 
   get id(): string {
@@ -316,40 +1444,98 @@ export class GuildSubscription extends Entity {
     this.set("id", Value.fromString(value));
   }
 
-  get createdAt(): string {
-    let value = this.get("createdAt");
+  get guild(): string {
+    let value = this.get("guild");
     return value.toString();
   }
 
-  set createdAt(value: string) {
-    this.set("createdAt", Value.fromString(value));
+  set guild(value: string) {
+    this.set("guild", Value.fromString(value));
   }
 
-  get active(): boolean {
-    let value = this.get("active");
-    return value.toBoolean();
+  get account(): Bytes {
+    let value = this.get("account");
+    return value.toBytes();
   }
 
-  set active(value: boolean) {
-    this.set("active", Value.fromBoolean(value));
+  set account(value: Bytes) {
+    this.set("account", Value.fromBytes(value));
   }
 
-  get unsubscribedAt(): string | null {
-    let value = this.get("unsubscribedAt");
+  get totalReferrals(): BigInt {
+    let value = this.get("totalReferrals");
+    return value.toBigInt();
+  }
+
+  set totalReferrals(value: BigInt) {
+    this.set("totalReferrals", Value.fromBigInt(value));
+  }
+
+  get totalBonusDuration(): BigInt {
+    let value = this.get("totalBonusDuration");
+    return value.toBigInt();
+  }
+
+  set totalBonusDuration(value: BigInt) {
+    this.set("totalBonusDuration", Value.fromBigInt(value));
+  }
+
+  get referrals(): Array<string> | null {
+    let value = this.get("referrals");
     if (value === null || value.kind == ValueKind.NULL) {
       return null;
     } else {
-      return value.toString();
+      return value.toStringArray();
     }
   }
 
-  set unsubscribedAt(value: string | null) {
+  set referrals(value: Array<string> | null) {
     if (value === null) {
-      this.unset("unsubscribedAt");
+      this.unset("referrals");
     } else {
-      this.set("unsubscribedAt", Value.fromString(value as string));
+      this.set("referrals", Value.fromStringArray(value as Array<string>));
     }
   }
+}
+
+export class Referral extends Entity {
+  constructor(id: string) {
+    super();
+    this.set("id", Value.fromString(id));
+  }
+
+  save(): void {
+    let id = this.get("id");
+    assert(id !== null, "Cannot save Referral entity without an ID");
+    assert(
+      id.kind == ValueKind.STRING,
+      "Cannot save Referral entity with non-string ID. " +
+        'Considering using .toHex() to convert the "id" to a string.'
+    );
+    store.set("Referral", id.toString(), this);
+  }
+
+  static load(id: string): Referral | null {
+    return store.get("Referral", id) as Referral | null;
+  }
+
+  get id(): string {
+    let value = this.get("id");
+    return value.toString();
+  }
+
+  set id(value: string) {
+    this.set("id", Value.fromString(value));
+  }
+
+  get referredAt(): string {
+    let value = this.get("referredAt");
+    return value.toString();
+  }
+
+  set referredAt(value: string) {
+    this.set("referredAt", Value.fromString(value));
+  }
 
   get guild(): string {
     let value = this.get("guild");
@@ -360,48 +1546,49 @@ export class GuildSubscription extends Entity {
     this.set("guild", Value.fromString(value));
   }
 
-  get keyId(): BigInt {
-    let value = this.get("keyId");
-    return value.toBigInt();
+  get referrer(): string {
+    let value = this.get("referrer");
+    return value.toString();
   }
 
-  set keyId(value: BigInt) {
-    this.set("keyId", Value.fromBigInt(value));
+  set referrer(value: string) {
+    this.set("referrer", Value.fromString(value));
   }
 
-  get owner(): Bytes {
-    let value = this.get("owner");
+  get subscriber(): Bytes {
+    let value = this.get("subscriber");
     return value.toBytes();
   }
 
-  set owner(value: Bytes) {
-    this.set("owner", Value.fromBytes(value));
+  set subscriber(value: Bytes) {
+    this.set("subscriber", Value.fromBytes(value));
   }
 
-  get expires(): string {
-    let value = this.get("expires");
-    return value.toString();
+  get tokenAddress(): Bytes {
+    let value = this.get("tokenAddress");
+    return value.toBytes();
   }
 
-  set expires(value: string) {
-    this.set("expires", Value.fromString(value));
+  set tokenAddress(value: Bytes) {
+    this.set("tokenAddress", Value.fromBytes(value));
   }
 
-  get paymentHistory(): Array<string> | null {
-    let value = this.get("paymentHistory");
-    if (value === null || value.kind == ValueKind.NULL) {
-      return null;
-    } else {
-      return value.toStringArray();
-    }
+  get reward(): BigInt {
+    let value = this.get("reward");
+    return value.toBigInt();
   }
 
-  set paymentHistory(value: Array<string> | null) {
-    if (value === null) {
-      this.unset("paymentHistory");
-    } else {
-      this.set("paymentHistory", Value.fromStringArray(value as Array<string>));
-    }
+  set reward(value: BigInt) {
+    this.set("reward", Value.fromBigInt(value));
+  }
+
+  get bonusDuration(): BigInt {
+    let value = this.get("bonusDuration");
+    return value.toBigInt();
+  }
+
+  set bonusDuration(value: BigInt) {
+    this.set("bonusDuration", Value.fromBigInt(value));
   }
 }
 
@@ -471,6 +1658,15 @@ export class Payment extends Entity {
     this.set("value", Value.fromBigInt(value));
   }
 
+  get fee(): BigInt {
+    let value = this.get("fee");
+    return value.toBigInt();
+  }
+
+  set fee(value: BigInt) {
+    this.set("fee", Value.fromBigInt(value));
+  }
+
   get transferSignature(): Bytes | null {
     let value = this.get("transferSignature");
     if (value === null || value.kind == ValueKind.NULL) {
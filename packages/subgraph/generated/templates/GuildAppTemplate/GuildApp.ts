@@ -10,6 +10,28 @@ import {
   BigInt
 } from "@graphprotocol/graph-ts";
 
+export class AllowlistUpdated extends ethereum.Event {
+  get params(): AllowlistUpdated__Params {
+    return new AllowlistUpdated__Params(this);
+  }
+}
+
+export class AllowlistUpdated__Params {
+  _event: AllowlistUpdated;
+
+  constructor(event: AllowlistUpdated) {
+    this._event = event;
+  }
+
+  get _root(): Bytes {
+    return this._event.parameters[0].value.toBytes();
+  }
+
+  get _listCID(): string {
+    return this._event.parameters[1].value.toString();
+  }
+}
+
 export class Approval extends ethereum.Event {
   get params(): Approval__Params {
     return new Approval__Params(this);
@@ -62,6 +84,152 @@ export class ApprovalForAll__Params {
   }
 }
 
+export class Claimed extends ethereum.Event {
+  get params(): Claimed__Params {
+    return new Claimed__Params(this);
+  }
+}
+
+export class Claimed__Params {
+  _event: Claimed;
+
+  constructor(event: Claimed) {
+    this._event = event;
+  }
+
+  get _tokenAddress(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get _payee(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get _amount(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class ClosingRefundsProcessed extends ethereum.Event {
+  get params(): ClosingRefundsProcessed__Params {
+    return new ClosingRefundsProcessed__Params(this);
+  }
+}
+
+export class ClosingRefundsProcessed__Params {
+  _event: ClosingRefundsProcessed;
+
+  constructor(event: ClosingRefundsProcessed) {
+    this._event = event;
+  }
+
+  get _lastTokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get _totalTokens(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+}
+
+export class Distributed extends ethereum.Event {
+  get params(): Distributed__Params {
+    return new Distributed__Params(this);
+  }
+}
+
+export class Distributed__Params {
+  _event: Distributed;
+
+  constructor(event: Distributed) {
+    this._event = event;
+  }
+
+  get _tokenAddress(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get _amount(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+}
+
+export class FreezePolicyUpdated extends ethereum.Event {
+  get params(): FreezePolicyUpdated__Params {
+    return new FreezePolicyUpdated__Params(this);
+  }
+}
+
+export class FreezePolicyUpdated__Params {
+  _event: FreezePolicyUpdated;
+
+  constructor(event: FreezePolicyUpdated) {
+    this._event = event;
+  }
+
+  get _maxFreezeDuration(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get _maxFreezes(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+}
+
+export class GracePeriodUpdated extends ethereum.Event {
+  get params(): GracePeriodUpdated__Params {
+    return new GracePeriodUpdated__Params(this);
+  }
+}
+
+export class GracePeriodUpdated__Params {
+  _event: GracePeriodUpdated;
+
+  constructor(event: GracePeriodUpdated) {
+    this._event = event;
+  }
+
+  get _gracePeriod(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+}
+
+export class GrandfatheredPricingUpdated extends ethereum.Event {
+  get params(): GrandfatheredPricingUpdated__Params {
+    return new GrandfatheredPricingUpdated__Params(this);
+  }
+}
+
+export class GrandfatheredPricingUpdated__Params {
+  _event: GrandfatheredPricingUpdated;
+
+  constructor(event: GrandfatheredPricingUpdated) {
+    this._event = event;
+  }
+
+  get _enabled(): boolean {
+    return this._event.parameters[0].value.toBoolean();
+  }
+}
+
+export class GuildClosed extends ethereum.Event {
+  get params(): GuildClosed__Params {
+    return new GuildClosed__Params(this);
+  }
+}
+
+export class GuildClosed__Params {
+  _event: GuildClosed;
+
+  constructor(event: GuildClosed) {
+    this._event = event;
+  }
+
+  get _closedAt(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+}
+
 export class InitializedGuild extends ethereum.Event {
   get params(): InitializedGuild__Params {
     return new InitializedGuild__Params(this);
@@ -114,6 +282,24 @@ export class InitializedGuild_metadataStruct extends ethereum.Tuple {
   }
 }
 
+export class MaxMembersUpdated extends ethereum.Event {
+  get params(): MaxMembersUpdated__Params {
+    return new MaxMembersUpdated__Params(this);
+  }
+}
+
+export class MaxMembersUpdated__Params {
+  _event: MaxMembersUpdated;
+
+  constructor(event: MaxMembersUpdated) {
+    this._event = event;
+  }
+
+  get _maxMembers(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+}
+
 export class NewSubscription extends ethereum.Event {
   get params(): NewSubscription__Params {
     return new NewSubscription__Params(this);
@@ -135,16 +321,28 @@ export class NewSubscription__Params {
     return this._event.parameters[1].value.toBigInt();
   }
 
-  get _value(): BigInt {
+  get _tierId(): BigInt {
     return this._event.parameters[2].value.toBigInt();
   }
 
+  get _tokenAddress(): Address {
+    return this._event.parameters[3].value.toAddress();
+  }
+
+  get _value(): BigInt {
+    return this._event.parameters[4].value.toBigInt();
+  }
+
+  get _fee(): BigInt {
+    return this._event.parameters[5].value.toBigInt();
+  }
+
   get expiry(): BigInt {
-    return this._event.parameters[3].value.toBigInt();
+    return this._event.parameters[6].value.toBigInt();
   }
 
   get _data(): Bytes {
-    return this._event.parameters[4].value.toBytes();
+    return this._event.parameters[7].value.toBytes();
   }
 }
 
@@ -166,1315 +364,4160 @@ export class PausedGuild__Params {
   }
 }
 
-export class RenewSubscription extends ethereum.Event {
-  get params(): RenewSubscription__Params {
-    return new RenewSubscription__Params(this);
+export class PayeesUpdated extends ethereum.Event {
+  get params(): PayeesUpdated__Params {
+    return new PayeesUpdated__Params(this);
   }
 }
 
-export class RenewSubscription__Params {
-  _event: RenewSubscription;
+export class PayeesUpdated__Params {
+  _event: PayeesUpdated;
 
-  constructor(event: RenewSubscription) {
+  constructor(event: PayeesUpdated) {
     this._event = event;
   }
 
-  get _subscriber(): Address {
-    return this._event.parameters[0].value.toAddress();
+  get _payees(): Array<Address> {
+    return this._event.parameters[0].value.toAddressArray();
   }
 
-  get _tokenId(): BigInt {
-    return this._event.parameters[1].value.toBigInt();
+  get _shares(): Array<BigInt> {
+    return this._event.parameters[1].value.toBigIntArray();
   }
+}
 
-  get _value(): BigInt {
-    return this._event.parameters[2].value.toBigInt();
+export class PaymentTokenAdded extends ethereum.Event {
+  get params(): PaymentTokenAdded__Params {
+    return new PaymentTokenAdded__Params(this);
   }
+}
 
-  get expiry(): BigInt {
-    return this._event.parameters[3].value.toBigInt();
+export class PaymentTokenAdded__Params {
+  _event: PaymentTokenAdded;
+
+  constructor(event: PaymentTokenAdded) {
+    this._event = event;
   }
 
-  get _data(): Bytes {
-    return this._event.parameters[4].value.toBytes();
+  get _tokenAddress(): Address {
+    return this._event.parameters[0].value.toAddress();
   }
 }
 
-export class RoleAdminChanged extends ethereum.Event {
-  get params(): RoleAdminChanged__Params {
-    return new RoleAdminChanged__Params(this);
+export class PaymentTokenRemoved extends ethereum.Event {
+  get params(): PaymentTokenRemoved__Params {
+    return new PaymentTokenRemoved__Params(this);
   }
 }
 
-export class RoleAdminChanged__Params {
-  _event: RoleAdminChanged;
+export class PaymentTokenRemoved__Params {
+  _event: PaymentTokenRemoved;
 
-  constructor(event: RoleAdminChanged) {
+  constructor(event: PaymentTokenRemoved) {
     this._event = event;
   }
 
-  get role(): Bytes {
-    return this._event.parameters[0].value.toBytes();
-  }
-
-  get previousAdminRole(): Bytes {
-    return this._event.parameters[1].value.toBytes();
-  }
-
-  get newAdminRole(): Bytes {
-    return this._event.parameters[2].value.toBytes();
+  get _tokenAddress(): Address {
+    return this._event.parameters[0].value.toAddress();
   }
 }
 
-export class RoleGranted extends ethereum.Event {
-  get params(): RoleGranted__Params {
-    return new RoleGranted__Params(this);
+export class PeriodDiscountUpdated extends ethereum.Event {
+  get params(): PeriodDiscountUpdated__Params {
+    return new PeriodDiscountUpdated__Params(this);
   }
 }
 
-export class RoleGranted__Params {
-  _event: RoleGranted;
+export class PeriodDiscountUpdated__Params {
+  _event: PeriodDiscountUpdated;
 
-  constructor(event: RoleGranted) {
+  constructor(event: PeriodDiscountUpdated) {
     this._event = event;
   }
 
-  get role(): Bytes {
-    return this._event.parameters[0].value.toBytes();
-  }
-
-  get account(): Address {
-    return this._event.parameters[1].value.toAddress();
+  get _minPeriods(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
   }
 
-  get sender(): Address {
-    return this._event.parameters[2].value.toAddress();
+  get _discountBps(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
   }
 }
 
-export class RoleRevoked extends ethereum.Event {
-  get params(): RoleRevoked__Params {
-    return new RoleRevoked__Params(this);
+export class PriceLocked extends ethereum.Event {
+  get params(): PriceLocked__Params {
+    return new PriceLocked__Params(this);
   }
 }
 
-export class RoleRevoked__Params {
-  _event: RoleRevoked;
+export class PriceLocked__Params {
+  _event: PriceLocked;
 
-  constructor(event: RoleRevoked) {
+  constructor(event: PriceLocked) {
     this._event = event;
   }
 
-  get role(): Bytes {
-    return this._event.parameters[0].value.toBytes();
+  get _tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
   }
 
-  get account(): Address {
+  get _tokenAddress(): Address {
     return this._event.parameters[1].value.toAddress();
   }
 
-  get sender(): Address {
-    return this._event.parameters[2].value.toAddress();
+  get _price(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
   }
 }
 
-export class SubscriptionPriceChanged extends ethereum.Event {
-  get params(): SubscriptionPriceChanged__Params {
-    return new SubscriptionPriceChanged__Params(this);
+export class ReferralCredited extends ethereum.Event {
+  get params(): ReferralCredited__Params {
+    return new ReferralCredited__Params(this);
   }
 }
 
-export class SubscriptionPriceChanged__Params {
-  _event: SubscriptionPriceChanged;
+export class ReferralCredited__Params {
+  _event: ReferralCredited;
 
-  constructor(event: SubscriptionPriceChanged) {
+  constructor(event: ReferralCredited) {
     this._event = event;
   }
 
-  get _tokenAddress(): Address {
+  get _referrer(): Address {
     return this._event.parameters[0].value.toAddress();
   }
 
-  get _subPrice(): BigInt {
+  get _referrerTokenId(): BigInt {
     return this._event.parameters[1].value.toBigInt();
   }
-}
 
-export class Transfer extends ethereum.Event {
-  get params(): Transfer__Params {
-    return new Transfer__Params(this);
+  get _subscriber(): Address {
+    return this._event.parameters[2].value.toAddress();
   }
-}
-
-export class Transfer__Params {
-  _event: Transfer;
 
-  constructor(event: Transfer) {
-    this._event = event;
+  get _tokenAddress(): Address {
+    return this._event.parameters[3].value.toAddress();
   }
 
-  get from(): Address {
-    return this._event.parameters[0].value.toAddress();
+  get _reward(): BigInt {
+    return this._event.parameters[4].value.toBigInt();
   }
 
-  get to(): Address {
-    return this._event.parameters[1].value.toAddress();
+  get _bonusDuration(): BigInt {
+    return this._event.parameters[5].value.toBigInt();
   }
 
-  get tokenId(): BigInt {
-    return this._event.parameters[2].value.toBigInt();
+  get _referrerExpiry(): BigInt {
+    return this._event.parameters[6].value.toBigInt();
   }
 }
 
-export class Unsubscribed extends ethereum.Event {
-  get params(): Unsubscribed__Params {
-    return new Unsubscribed__Params(this);
+export class ReferralPolicyUpdated extends ethereum.Event {
+  get params(): ReferralPolicyUpdated__Params {
+    return new ReferralPolicyUpdated__Params(this);
   }
 }
 
-export class Unsubscribed__Params {
-  _event: Unsubscribed;
+export class ReferralPolicyUpdated__Params {
+  _event: ReferralPolicyUpdated;
 
-  constructor(event: Unsubscribed) {
+  constructor(event: ReferralPolicyUpdated) {
     this._event = event;
   }
 
-  get _tokenId(): BigInt {
+  get _rewardBps(): BigInt {
     return this._event.parameters[0].value.toBigInt();
   }
+
+  get _bonusDuration(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
 }
 
-export class UpdatedMetadata extends ethereum.Event {
-  get params(): UpdatedMetadata__Params {
-    return new UpdatedMetadata__Params(this);
+export class RefundPolicyUpdated extends ethereum.Event {
+  get params(): RefundPolicyUpdated__Params {
+    return new RefundPolicyUpdated__Params(this);
   }
 }
 
-export class UpdatedMetadata__Params {
-  _event: UpdatedMetadata;
+export class RefundPolicyUpdated__Params {
+  _event: RefundPolicyUpdated;
 
-  constructor(event: UpdatedMetadata) {
+  constructor(event: RefundPolicyUpdated) {
     this._event = event;
   }
 
-  get _metadataURI(): string {
-    return this._event.parameters[0].value.toString();
+  get _policy(): i32 {
+    return this._event.parameters[0].value.toI32();
+  }
+
+  get _refundWindow(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
   }
 }
 
-export class Withdraw extends ethereum.Event {
-  get params(): Withdraw__Params {
-    return new Withdraw__Params(this);
+export class Refunded extends ethereum.Event {
+  get params(): Refunded__Params {
+    return new Refunded__Params(this);
   }
 }
 
-export class Withdraw__Params {
-  _event: Withdraw;
+export class Refunded__Params {
+  _event: Refunded;
 
-  constructor(event: Withdraw) {
+  constructor(event: Refunded) {
     this._event = event;
   }
 
-  get _tokenAddress(): Address {
-    return this._event.parameters[0].value.toAddress();
+  get _tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
   }
 
-  get beneficiary(): Address {
+  get _subscriber(): Address {
     return this._event.parameters[1].value.toAddress();
   }
 
-  get _amount(): BigInt {
-    return this._event.parameters[2].value.toBigInt();
+  get _tokenAddress(): Address {
+    return this._event.parameters[2].value.toAddress();
   }
-}
-
-export class GuildApp__subscriptionByOwnerResult {
-  value0: BigInt;
-  value1: BigInt;
 
-  constructor(value0: BigInt, value1: BigInt) {
-    this.value0 = value0;
-    this.value1 = value1;
+  get _value(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
   }
+}
 
-  toMap(): TypedMap<string, ethereum.Value> {
-    let map = new TypedMap<string, ethereum.Value>();
-    map.set("value0", ethereum.Value.fromUnsignedBigInt(this.value0));
-    map.set("value1", ethereum.Value.fromUnsignedBigInt(this.value1));
-    return map;
+export class RenewSubscription extends ethereum.Event {
+  get params(): RenewSubscription__Params {
+    return new RenewSubscription__Params(this);
   }
 }
 
-export class GuildApp extends ethereum.SmartContract {
-  static bind(address: Address): GuildApp {
-    return new GuildApp("GuildApp", address);
+export class RenewSubscription__Params {
+  _event: RenewSubscription;
+
+  constructor(event: RenewSubscription) {
+    this._event = event;
   }
 
-  DEFAULT_ADMIN_ROLE(): Bytes {
-    let result = super.call(
-      "DEFAULT_ADMIN_ROLE",
-      "DEFAULT_ADMIN_ROLE():(bytes32)",
-      []
-    );
+  get _subscriber(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
 
-    return result[0].toBytes();
+  get _tokenId(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
   }
 
-  try_DEFAULT_ADMIN_ROLE(): ethereum.CallResult<Bytes> {
-    let result = super.tryCall(
-      "DEFAULT_ADMIN_ROLE",
-      "DEFAULT_ADMIN_ROLE():(bytes32)",
-      []
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBytes());
+  get _tierId(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
   }
 
-  approvedTokens(): Array<Address> {
-    let result = super.call(
-      "approvedTokens",
-      "approvedTokens():(address[])",
-      []
-    );
+  get _tokenAddress(): Address {
+    return this._event.parameters[3].value.toAddress();
+  }
 
-    return result[0].toAddressArray();
+  get _value(): BigInt {
+    return this._event.parameters[4].value.toBigInt();
   }
 
-  try_approvedTokens(): ethereum.CallResult<Array<Address>> {
-    let result = super.tryCall(
-      "approvedTokens",
-      "approvedTokens():(address[])",
-      []
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toAddressArray());
+  get _fee(): BigInt {
+    return this._event.parameters[5].value.toBigInt();
   }
 
-  balanceOf(owner: Address): BigInt {
-    let result = super.call("balanceOf", "balanceOf(address):(uint256)", [
-      ethereum.Value.fromAddress(owner)
-    ]);
+  get expiry(): BigInt {
+    return this._event.parameters[6].value.toBigInt();
+  }
 
-    return result[0].toBigInt();
+  get _data(): Bytes {
+    return this._event.parameters[7].value.toBytes();
   }
+}
 
-  try_balanceOf(owner: Address): ethereum.CallResult<BigInt> {
-    let result = super.tryCall("balanceOf", "balanceOf(address):(uint256)", [
-      ethereum.Value.fromAddress(owner)
-    ]);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBigInt());
+export class RenewalFailed extends ethereum.Event {
+  get params(): RenewalFailed__Params {
+    return new RenewalFailed__Params(this);
   }
+}
 
-  baseURI(): string {
-    let result = super.call("baseURI", "baseURI():(string)", []);
+export class RenewalFailed__Params {
+  _event: RenewalFailed;
 
-    return result[0].toString();
+  constructor(event: RenewalFailed) {
+    this._event = event;
   }
 
-  try_baseURI(): ethereum.CallResult<string> {
-    let result = super.tryCall("baseURI", "baseURI():(string)", []);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toString());
+  get _subscriber(): Address {
+    return this._event.parameters[0].value.toAddress();
   }
 
-  getApproved(tokenId: BigInt): Address {
-    let result = super.call("getApproved", "getApproved(uint256):(address)", [
-      ethereum.Value.fromUnsignedBigInt(tokenId)
-    ]);
+  get _reason(): Bytes {
+    return this._event.parameters[1].value.toBytes();
+  }
+}
 
-    return result[0].toAddress();
+export class RoleAdminChanged extends ethereum.Event {
+  get params(): RoleAdminChanged__Params {
+    return new RoleAdminChanged__Params(this);
   }
+}
 
-  try_getApproved(tokenId: BigInt): ethereum.CallResult<Address> {
-    let result = super.tryCall(
-      "getApproved",
-      "getApproved(uint256):(address)",
-      [ethereum.Value.fromUnsignedBigInt(tokenId)]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toAddress());
+export class RoleAdminChanged__Params {
+  _event: RoleAdminChanged;
+
+  constructor(event: RoleAdminChanged) {
+    this._event = event;
   }
 
-  getMetadata(): string {
-    let result = super.call("getMetadata", "getMetadata():(string)", []);
+  get role(): Bytes {
+    return this._event.parameters[0].value.toBytes();
+  }
 
-    return result[0].toString();
+  get previousAdminRole(): Bytes {
+    return this._event.parameters[1].value.toBytes();
   }
 
-  try_getMetadata(): ethereum.CallResult<string> {
-    let result = super.tryCall("getMetadata", "getMetadata():(string)", []);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toString());
+  get newAdminRole(): Bytes {
+    return this._event.parameters[2].value.toBytes();
   }
+}
 
-  getRoleAdmin(role: Bytes): Bytes {
-    let result = super.call("getRoleAdmin", "getRoleAdmin(bytes32):(bytes32)", [
-      ethereum.Value.fromFixedBytes(role)
-    ]);
+export class RoleGranted extends ethereum.Event {
+  get params(): RoleGranted__Params {
+    return new RoleGranted__Params(this);
+  }
+}
 
-    return result[0].toBytes();
+export class RoleGranted__Params {
+  _event: RoleGranted;
+
+  constructor(event: RoleGranted) {
+    this._event = event;
   }
 
-  try_getRoleAdmin(role: Bytes): ethereum.CallResult<Bytes> {
-    let result = super.tryCall(
-      "getRoleAdmin",
-      "getRoleAdmin(bytes32):(bytes32)",
-      [ethereum.Value.fromFixedBytes(role)]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBytes());
+  get role(): Bytes {
+    return this._event.parameters[0].value.toBytes();
   }
 
-  getRoleMember(role: Bytes, index: BigInt): Address {
-    let result = super.call(
-      "getRoleMember",
-      "getRoleMember(bytes32,uint256):(address)",
-      [
-        ethereum.Value.fromFixedBytes(role),
-        ethereum.Value.fromUnsignedBigInt(index)
-      ]
-    );
+  get account(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
 
-    return result[0].toAddress();
+  get sender(): Address {
+    return this._event.parameters[2].value.toAddress();
   }
+}
 
-  try_getRoleMember(role: Bytes, index: BigInt): ethereum.CallResult<Address> {
-    let result = super.tryCall(
-      "getRoleMember",
-      "getRoleMember(bytes32,uint256):(address)",
-      [
-        ethereum.Value.fromFixedBytes(role),
-        ethereum.Value.fromUnsignedBigInt(index)
-      ]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toAddress());
+export class RoleRevoked extends ethereum.Event {
+  get params(): RoleRevoked__Params {
+    return new RoleRevoked__Params(this);
   }
+}
 
-  getRoleMemberCount(role: Bytes): BigInt {
-    let result = super.call(
-      "getRoleMemberCount",
-      "getRoleMemberCount(bytes32):(uint256)",
-      [ethereum.Value.fromFixedBytes(role)]
-    );
+export class RoleRevoked__Params {
+  _event: RoleRevoked;
 
-    return result[0].toBigInt();
+  constructor(event: RoleRevoked) {
+    this._event = event;
   }
 
-  try_getRoleMemberCount(role: Bytes): ethereum.CallResult<BigInt> {
-    let result = super.tryCall(
-      "getRoleMemberCount",
-      "getRoleMemberCount(bytes32):(uint256)",
-      [ethereum.Value.fromFixedBytes(role)]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  get role(): Bytes {
+    return this._event.parameters[0].value.toBytes();
   }
 
-  getSubscriptionExpiryFor(_account: Address): BigInt {
-    let result = super.call(
-      "getSubscriptionExpiryFor",
-      "getSubscriptionExpiryFor(address):(uint256)",
-      [ethereum.Value.fromAddress(_account)]
-    );
+  get account(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
 
-    return result[0].toBigInt();
+  get sender(): Address {
+    return this._event.parameters[2].value.toAddress();
   }
+}
 
-  try_getSubscriptionExpiryFor(_account: Address): ethereum.CallResult<BigInt> {
-    let result = super.tryCall(
-      "getSubscriptionExpiryFor",
-      "getSubscriptionExpiryFor(address):(uint256)",
-      [ethereum.Value.fromAddress(_account)]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBigInt());
+export class SeatReleased extends ethereum.Event {
+  get params(): SeatReleased__Params {
+    return new SeatReleased__Params(this);
   }
+}
 
-  getSubscriptionIdFor(_account: Address): BigInt {
-    let result = super.call(
-      "getSubscriptionIdFor",
-      "getSubscriptionIdFor(address):(uint256)",
-      [ethereum.Value.fromAddress(_account)]
-    );
+export class SeatReleased__Params {
+  _event: SeatReleased;
 
-    return result[0].toBigInt();
+  constructor(event: SeatReleased) {
+    this._event = event;
   }
 
-  try_getSubscriptionIdFor(_account: Address): ethereum.CallResult<BigInt> {
-    let result = super.tryCall(
-      "getSubscriptionIdFor",
-      "getSubscriptionIdFor(address):(uint256)",
-      [ethereum.Value.fromAddress(_account)]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  get _tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
   }
 
-  guildBalance(_tokenAddress: Address): BigInt {
-    let result = super.call("guildBalance", "guildBalance(address):(uint256)", [
-      ethereum.Value.fromAddress(_tokenAddress)
-    ]);
-
-    return result[0].toBigInt();
+  get _tierId(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
   }
+}
 
-  try_guildBalance(_tokenAddress: Address): ethereum.CallResult<BigInt> {
-    let result = super.tryCall(
-      "guildBalance",
-      "guildBalance(address):(uint256)",
-      [ethereum.Value.fromAddress(_tokenAddress)]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBigInt());
+export class SubscriptionFrozen extends ethereum.Event {
+  get params(): SubscriptionFrozen__Params {
+    return new SubscriptionFrozen__Params(this);
   }
+}
 
-  hasActiveSubscription(_account: Address): boolean {
-    let result = super.call(
-      "hasActiveSubscription",
-      "hasActiveSubscription(address):(bool)",
-      [ethereum.Value.fromAddress(_account)]
-    );
+export class SubscriptionFrozen__Params {
+  _event: SubscriptionFrozen;
 
-    return result[0].toBoolean();
+  constructor(event: SubscriptionFrozen) {
+    this._event = event;
   }
 
-  try_hasActiveSubscription(_account: Address): ethereum.CallResult<boolean> {
-    let result = super.tryCall(
-      "hasActiveSubscription",
-      "hasActiveSubscription(address):(bool)",
-      [ethereum.Value.fromAddress(_account)]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  get _tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
   }
 
-  hasRole(role: Bytes, account: Address): boolean {
-    let result = super.call("hasRole", "hasRole(bytes32,address):(bool)", [
-      ethereum.Value.fromFixedBytes(role),
-      ethereum.Value.fromAddress(account)
-    ]);
+  get _remaining(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
 
-    return result[0].toBoolean();
+  get _resumeAt(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
   }
+}
 
-  try_hasRole(role: Bytes, account: Address): ethereum.CallResult<boolean> {
-    let result = super.tryCall("hasRole", "hasRole(bytes32,address):(bool)", [
-      ethereum.Value.fromFixedBytes(role),
-      ethereum.Value.fromAddress(account)
-    ]);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBoolean());
+export class SubscriptionGifted extends ethereum.Event {
+  get params(): SubscriptionGifted__Params {
+    return new SubscriptionGifted__Params(this);
   }
+}
 
-  initialized(): boolean {
-    let result = super.call("initialized", "initialized():(bool)", []);
+export class SubscriptionGifted__Params {
+  _event: SubscriptionGifted;
 
-    return result[0].toBoolean();
+  constructor(event: SubscriptionGifted) {
+    this._event = event;
   }
 
-  try_initialized(): ethereum.CallResult<boolean> {
-    let result = super.tryCall("initialized", "initialized():(bool)", []);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  get _payer(): Address {
+    return this._event.parameters[0].value.toAddress();
   }
 
-  isActive(): boolean {
-    let result = super.call("isActive", "isActive():(bool)", []);
-
-    return result[0].toBoolean();
+  get _recipient(): Address {
+    return this._event.parameters[1].value.toAddress();
   }
 
-  try_isActive(): ethereum.CallResult<boolean> {
-    let result = super.tryCall("isActive", "isActive():(bool)", []);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  get _tokenId(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
   }
 
-  isApprovedForAll(owner: Address, operator: Address): boolean {
-    let result = super.call(
-      "isApprovedForAll",
-      "isApprovedForAll(address,address):(bool)",
-      [ethereum.Value.fromAddress(owner), ethereum.Value.fromAddress(operator)]
-    );
+  get expiry(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
 
-    return result[0].toBoolean();
+  get _messageCID(): string {
+    return this._event.parameters[4].value.toString();
   }
+}
 
-  try_isApprovedForAll(
-    owner: Address,
-    operator: Address
-  ): ethereum.CallResult<boolean> {
-    let result = super.tryCall(
-      "isApprovedForAll",
-      "isApprovedForAll(address,address):(bool)",
-      [ethereum.Value.fromAddress(owner), ethereum.Value.fromAddress(operator)]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBoolean());
+export class SubscriptionPriceChanged extends ethereum.Event {
+  get params(): SubscriptionPriceChanged__Params {
+    return new SubscriptionPriceChanged__Params(this);
   }
+}
 
-  isSubscriptionOwner(_tokenId: BigInt, _holder: Address): boolean {
-    let result = super.call(
-      "isSubscriptionOwner",
-      "isSubscriptionOwner(uint256,address):(bool)",
-      [
-        ethereum.Value.fromUnsignedBigInt(_tokenId),
-        ethereum.Value.fromAddress(_holder)
-      ]
-    );
+export class SubscriptionPriceChanged__Params {
+  _event: SubscriptionPriceChanged;
 
-    return result[0].toBoolean();
+  constructor(event: SubscriptionPriceChanged) {
+    this._event = event;
   }
 
-  try_isSubscriptionOwner(
-    _tokenId: BigInt,
-    _holder: Address
-  ): ethereum.CallResult<boolean> {
-    let result = super.tryCall(
-      "isSubscriptionOwner",
-      "isSubscriptionOwner(uint256,address):(bool)",
-      [
-        ethereum.Value.fromUnsignedBigInt(_tokenId),
-        ethereum.Value.fromAddress(_holder)
-      ]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  get _tokenAddress(): Address {
+    return this._event.parameters[0].value.toAddress();
   }
 
-  metadataCID(): string {
-    let result = super.call("metadataCID", "metadataCID():(string)", []);
-
-    return result[0].toString();
+  get _subPrice(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
   }
+}
 
-  try_metadataCID(): ethereum.CallResult<string> {
-    let result = super.tryCall("metadataCID", "metadataCID():(string)", []);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toString());
+export class SubscriptionTransferApproved extends ethereum.Event {
+  get params(): SubscriptionTransferApproved__Params {
+    return new SubscriptionTransferApproved__Params(this);
   }
+}
 
-  name(): string {
-    let result = super.call("name", "name():(string)", []);
+export class SubscriptionTransferApproved__Params {
+  _event: SubscriptionTransferApproved;
 
-    return result[0].toString();
+  constructor(event: SubscriptionTransferApproved) {
+    this._event = event;
   }
 
-  try_name(): ethereum.CallResult<string> {
-    let result = super.tryCall("name", "name():(string)", []);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toString());
+  get _tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
   }
 
-  ownerOf(tokenId: BigInt): Address {
-    let result = super.call("ownerOf", "ownerOf(uint256):(address)", [
-      ethereum.Value.fromUnsignedBigInt(tokenId)
-    ]);
-
-    return result[0].toAddress();
+  get _to(): Address {
+    return this._event.parameters[1].value.toAddress();
   }
+}
 
-  try_ownerOf(tokenId: BigInt): ethereum.CallResult<Address> {
-    let result = super.tryCall("ownerOf", "ownerOf(uint256):(address)", [
-      ethereum.Value.fromUnsignedBigInt(tokenId)
-    ]);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toAddress());
+export class SubscriptionUnfrozen extends ethereum.Event {
+  get params(): SubscriptionUnfrozen__Params {
+    return new SubscriptionUnfrozen__Params(this);
   }
+}
 
-  subPrice(): BigInt {
-    let result = super.call("subPrice", "subPrice():(uint256)", []);
+export class SubscriptionUnfrozen__Params {
+  _event: SubscriptionUnfrozen;
 
-    return result[0].toBigInt();
+  constructor(event: SubscriptionUnfrozen) {
+    this._event = event;
   }
 
-  try_subPrice(): ethereum.CallResult<BigInt> {
-    let result = super.tryCall("subPrice", "subPrice():(uint256)", []);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  get _tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
   }
 
-  subscriptionByOwner(param0: Address): GuildApp__subscriptionByOwnerResult {
-    let result = super.call(
-      "subscriptionByOwner",
-      "subscriptionByOwner(address):(uint256,uint256)",
-      [ethereum.Value.fromAddress(param0)]
-    );
+  get _expirationTimestamp(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+}
 
-    return new GuildApp__subscriptionByOwnerResult(
-      result[0].toBigInt(),
-      result[1].toBigInt()
-    );
+export class TierUpdated extends ethereum.Event {
+  get params(): TierUpdated__Params {
+    return new TierUpdated__Params(this);
   }
+}
 
-  try_subscriptionByOwner(
+export class TierUpdated__Params {
+  _event: TierUpdated;
+
+  constructor(event: TierUpdated) {
+    this._event = event;
+  }
+
+  get _tierId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get _name(): string {
+    return this._event.parameters[1].value.toString();
+  }
+
+  get _price(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get _period(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+
+  get _cap(): BigInt {
+    return this._event.parameters[4].value.toBigInt();
+  }
+}
+
+export class Tipped extends ethereum.Event {
+  get params(): Tipped__Params {
+    return new Tipped__Params(this);
+  }
+}
+
+export class Tipped__Params {
+  _event: Tipped;
+
+  constructor(event: Tipped) {
+    this._event = event;
+  }
+
+  get _tipper(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get _tokenAddress(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get _value(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+
+  get _fee(): BigInt {
+    return this._event.parameters[3].value.toBigInt();
+  }
+
+  get _messageCID(): string {
+    return this._event.parameters[4].value.toString();
+  }
+}
+
+export class TokenPriceUpdated extends ethereum.Event {
+  get params(): TokenPriceUpdated__Params {
+    return new TokenPriceUpdated__Params(this);
+  }
+}
+
+export class TokenPriceUpdated__Params {
+  _event: TokenPriceUpdated;
+
+  constructor(event: TokenPriceUpdated) {
+    this._event = event;
+  }
+
+  get _tierId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get _tokenAddress(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get _price(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class Transfer extends ethereum.Event {
+  get params(): Transfer__Params {
+    return new Transfer__Params(this);
+  }
+}
+
+export class Transfer__Params {
+  _event: Transfer;
+
+  constructor(event: Transfer) {
+    this._event = event;
+  }
+
+  get from(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get to(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class TransferPolicyUpdated extends ethereum.Event {
+  get params(): TransferPolicyUpdated__Params {
+    return new TransferPolicyUpdated__Params(this);
+  }
+}
+
+export class TransferPolicyUpdated__Params {
+  _event: TransferPolicyUpdated;
+
+  constructor(event: TransferPolicyUpdated) {
+    this._event = event;
+  }
+
+  get _policy(): i32 {
+    return this._event.parameters[0].value.toI32();
+  }
+}
+
+export class Unsubscribed extends ethereum.Event {
+  get params(): Unsubscribed__Params {
+    return new Unsubscribed__Params(this);
+  }
+}
+
+export class Unsubscribed__Params {
+  _event: Unsubscribed;
+
+  constructor(event: Unsubscribed) {
+    this._event = event;
+  }
+
+  get _tokenId(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+}
+
+export class UpdatedMetadata extends ethereum.Event {
+  get params(): UpdatedMetadata__Params {
+    return new UpdatedMetadata__Params(this);
+  }
+}
+
+export class UpdatedMetadata__Params {
+  _event: UpdatedMetadata;
+
+  constructor(event: UpdatedMetadata) {
+    this._event = event;
+  }
+
+  get _metadataURI(): string {
+    return this._event.parameters[0].value.toString();
+  }
+}
+
+export class Upgraded extends ethereum.Event {
+  get params(): Upgraded__Params {
+    return new Upgraded__Params(this);
+  }
+}
+
+export class Upgraded__Params {
+  _event: Upgraded;
+
+  constructor(event: Upgraded) {
+    this._event = event;
+  }
+
+  get _version(): BigInt {
+    return this._event.parameters[0].value.toBigInt();
+  }
+
+  get _template(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+}
+
+export class VoucherRedeemed extends ethereum.Event {
+  get params(): VoucherRedeemed__Params {
+    return new VoucherRedeemed__Params(this);
+  }
+}
+
+export class VoucherRedeemed__Params {
+  _event: VoucherRedeemed;
+
+  constructor(event: VoucherRedeemed) {
+    this._event = event;
+  }
+
+  get _voucher(): Bytes {
+    return this._event.parameters[0].value.toBytes();
+  }
+
+  get _subscriber(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get _cost(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class WaitlistJoined extends ethereum.Event {
+  get params(): WaitlistJoined__Params {
+    return new WaitlistJoined__Params(this);
+  }
+}
+
+export class WaitlistJoined__Params {
+  _event: WaitlistJoined;
+
+  constructor(event: WaitlistJoined) {
+    this._event = event;
+  }
+
+  get _account(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get _tierId(): BigInt {
+    return this._event.parameters[1].value.toBigInt();
+  }
+}
+
+export class Withdraw extends ethereum.Event {
+  get params(): Withdraw__Params {
+    return new Withdraw__Params(this);
+  }
+}
+
+export class Withdraw__Params {
+  _event: Withdraw;
+
+  constructor(event: Withdraw) {
+    this._event = event;
+  }
+
+  get _tokenAddress(): Address {
+    return this._event.parameters[0].value.toAddress();
+  }
+
+  get beneficiary(): Address {
+    return this._event.parameters[1].value.toAddress();
+  }
+
+  get _amount(): BigInt {
+    return this._event.parameters[2].value.toBigInt();
+  }
+}
+
+export class GuildApp__getTierResultValue0Struct extends ethereum.Tuple {
+  get name(): string {
+    return this[0].toString();
+  }
+
+  get price(): BigInt {
+    return this[1].toBigInt();
+  }
+
+  get period(): BigInt {
+    return this[2].toBigInt();
+  }
+
+  get cap(): BigInt {
+    return this[3].toBigInt();
+  }
+}
+
+export class GuildApp__safeSubscriptionHashInput_termsStruct extends ethereum.Tuple {
+  get entryPoint(): Bytes {
+    return this[0].toBytes();
+  }
+
+  get tierId(): BigInt {
+    return this[1].toBigInt();
+  }
+
+  get tokenAddress(): Address {
+    return this[2].toAddress();
+  }
+
+  get periods(): BigInt {
+    return this[3].toBigInt();
+  }
+
+  get value(): BigInt {
+    return this[4].toBigInt();
+  }
+
+  get referrer(): Address {
+    return this[5].toAddress();
+  }
+}
+
+export class GuildApp__subscriptionByOwnerResult {
+  value0: BigInt;
+  value1: BigInt;
+  value2: BigInt;
+  value3: Address;
+  value4: BigInt;
+  value5: BigInt;
+  value6: BigInt;
+  value7: BigInt;
+  value8: BigInt;
+  value9: boolean;
+  value10: BigInt;
+  value11: BigInt;
+
+  constructor(
+    value0: BigInt,
+    value1: BigInt,
+    value2: BigInt,
+    value3: Address,
+    value4: BigInt,
+    value5: BigInt,
+    value6: BigInt,
+    value7: BigInt,
+    value8: BigInt,
+    value9: boolean,
+    value10: BigInt,
+    value11: BigInt
+  ) {
+    this.value0 = value0;
+    this.value1 = value1;
+    this.value2 = value2;
+    this.value3 = value3;
+    this.value4 = value4;
+    this.value5 = value5;
+    this.value6 = value6;
+    this.value7 = value7;
+    this.value8 = value8;
+    this.value9 = value9;
+    this.value10 = value10;
+    this.value11 = value11;
+  }
+
+  toMap(): TypedMap<string, ethereum.Value> {
+    let map = new TypedMap<string, ethereum.Value>();
+    map.set("value0", ethereum.Value.fromUnsignedBigInt(this.value0));
+    map.set("value1", ethereum.Value.fromUnsignedBigInt(this.value1));
+    map.set("value2", ethereum.Value.fromUnsignedBigInt(this.value2));
+    map.set("value3", ethereum.Value.fromAddress(this.value3));
+    map.set("value4", ethereum.Value.fromUnsignedBigInt(this.value4));
+    map.set("value5", ethereum.Value.fromUnsignedBigInt(this.value5));
+    map.set("value6", ethereum.Value.fromUnsignedBigInt(this.value6));
+    map.set("value7", ethereum.Value.fromUnsignedBigInt(this.value7));
+    map.set("value8", ethereum.Value.fromUnsignedBigInt(this.value8));
+    map.set("value9", ethereum.Value.fromBoolean(this.value9));
+    map.set("value10", ethereum.Value.fromUnsignedBigInt(this.value10));
+    map.set("value11", ethereum.Value.fromUnsignedBigInt(this.value11));
+    return map;
+  }
+}
+
+export class GuildApp extends ethereum.SmartContract {
+  static bind(address: Address): GuildApp {
+    return new GuildApp("GuildApp", address);
+  }
+
+  DEFAULT_ADMIN_ROLE(): Bytes {
+    let result = super.call(
+      "DEFAULT_ADMIN_ROLE",
+      "DEFAULT_ADMIN_ROLE():(bytes32)",
+      []
+    );
+
+    return result[0].toBytes();
+  }
+
+  try_DEFAULT_ADMIN_ROLE(): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "DEFAULT_ADMIN_ROLE",
+      "DEFAULT_ADMIN_ROLE():(bytes32)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  METADATA_EDITOR_ROLE(): Bytes {
+    let result = super.call(
+      "METADATA_EDITOR_ROLE",
+      "METADATA_EDITOR_ROLE():(bytes32)",
+      []
+    );
+
+    return result[0].toBytes();
+  }
+
+  try_METADATA_EDITOR_ROLE(): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "METADATA_EDITOR_ROLE",
+      "METADATA_EDITOR_ROLE():(bytes32)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  PAUSER_ROLE(): Bytes {
+    let result = super.call("PAUSER_ROLE", "PAUSER_ROLE():(bytes32)", []);
+
+    return result[0].toBytes();
+  }
+
+  try_PAUSER_ROLE(): ethereum.CallResult<Bytes> {
+    let result = super.tryCall("PAUSER_ROLE", "PAUSER_ROLE():(bytes32)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  PRICE_MANAGER_ROLE(): Bytes {
+    let result = super.call(
+      "PRICE_MANAGER_ROLE",
+      "PRICE_MANAGER_ROLE():(bytes32)",
+      []
+    );
+
+    return result[0].toBytes();
+  }
+
+  try_PRICE_MANAGER_ROLE(): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "PRICE_MANAGER_ROLE",
+      "PRICE_MANAGER_ROLE():(bytes32)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  RENEWAL_WINDOW(): BigInt {
+    let result = super.call("RENEWAL_WINDOW", "RENEWAL_WINDOW():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_RENEWAL_WINDOW(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "RENEWAL_WINDOW",
+      "RENEWAL_WINDOW():(uint256)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  TREASURER_ROLE(): Bytes {
+    let result = super.call("TREASURER_ROLE", "TREASURER_ROLE():(bytes32)", []);
+
+    return result[0].toBytes();
+  }
+
+  try_TREASURER_ROLE(): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "TREASURER_ROLE",
+      "TREASURER_ROLE():(bytes32)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  acceptedTokens(): Array<Address> {
+    let result = super.call(
+      "acceptedTokens",
+      "acceptedTokens():(address[])",
+      []
+    );
+
+    return result[0].toAddressArray();
+  }
+
+  try_acceptedTokens(): ethereum.CallResult<Array<Address>> {
+    let result = super.tryCall(
+      "acceptedTokens",
+      "acceptedTokens():(address[])",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddressArray());
+  }
+
+  allowlistRoot(): Bytes {
+    let result = super.call("allowlistRoot", "allowlistRoot():(bytes32)", []);
+
+    return result[0].toBytes();
+  }
+
+  try_allowlistRoot(): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "allowlistRoot",
+      "allowlistRoot():(bytes32)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  approvedTokens(): Array<Address> {
+    let result = super.call(
+      "approvedTokens",
+      "approvedTokens():(address[])",
+      []
+    );
+
+    return result[0].toAddressArray();
+  }
+
+  try_approvedTokens(): ethereum.CallResult<Array<Address>> {
+    let result = super.tryCall(
+      "approvedTokens",
+      "approvedTokens():(address[])",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddressArray());
+  }
+
+  approvedTransfers(param0: BigInt): Address {
+    let result = super.call(
+      "approvedTransfers",
+      "approvedTransfers(uint256):(address)",
+      [ethereum.Value.fromUnsignedBigInt(param0)]
+    );
+
+    return result[0].toAddress();
+  }
+
+  try_approvedTransfers(param0: BigInt): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "approvedTransfers",
+      "approvedTransfers(uint256):(address)",
+      [ethereum.Value.fromUnsignedBigInt(param0)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  balanceOf(owner: Address): BigInt {
+    let result = super.call("balanceOf", "balanceOf(address):(uint256)", [
+      ethereum.Value.fromAddress(owner)
+    ]);
+
+    return result[0].toBigInt();
+  }
+
+  try_balanceOf(owner: Address): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("balanceOf", "balanceOf(address):(uint256)", [
+      ethereum.Value.fromAddress(owner)
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  baseURI(): string {
+    let result = super.call("baseURI", "baseURI():(string)", []);
+
+    return result[0].toString();
+  }
+
+  try_baseURI(): ethereum.CallResult<string> {
+    let result = super.tryCall("baseURI", "baseURI():(string)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toString());
+  }
+
+  claimable(param0: Address, param1: Address): BigInt {
+    let result = super.call(
+      "claimable",
+      "claimable(address,address):(uint256)",
+      [ethereum.Value.fromAddress(param0), ethereum.Value.fromAddress(param1)]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_claimable(param0: Address, param1: Address): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "claimable",
+      "claimable(address,address):(uint256)",
+      [ethereum.Value.fromAddress(param0), ethereum.Value.fromAddress(param1)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  closedAt(): BigInt {
+    let result = super.call("closedAt", "closedAt():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_closedAt(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("closedAt", "closedAt():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  closingRefund(_tokenId: BigInt): BigInt {
+    let result = super.call(
+      "closingRefund",
+      "closingRefund(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(_tokenId)]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_closingRefund(_tokenId: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "closingRefund",
+      "closingRefund(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(_tokenId)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  discountBps(): BigInt {
+    let result = super.call("discountBps", "discountBps():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_discountBps(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("discountBps", "discountBps():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  discountMinPeriods(): BigInt {
+    let result = super.call(
+      "discountMinPeriods",
+      "discountMinPeriods():(uint256)",
+      []
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_discountMinPeriods(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "discountMinPeriods",
+      "discountMinPeriods():(uint256)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  extension(): Address {
+    let result = super.call("extension", "extension():(address)", []);
+
+    return result[0].toAddress();
+  }
+
+  try_extension(): ethereum.CallResult<Address> {
+    let result = super.tryCall("extension", "extension():(address)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  factory(): Address {
+    let result = super.call("factory", "factory():(address)", []);
+
+    return result[0].toAddress();
+  }
+
+  try_factory(): ethereum.CallResult<Address> {
+    let result = super.tryCall("factory", "factory():(address)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  getApproved(tokenId: BigInt): Address {
+    let result = super.call("getApproved", "getApproved(uint256):(address)", [
+      ethereum.Value.fromUnsignedBigInt(tokenId)
+    ]);
+
+    return result[0].toAddress();
+  }
+
+  try_getApproved(tokenId: BigInt): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "getApproved",
+      "getApproved(uint256):(address)",
+      [ethereum.Value.fromUnsignedBigInt(tokenId)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  getMetadata(): string {
+    let result = super.call("getMetadata", "getMetadata():(string)", []);
+
+    return result[0].toString();
+  }
+
+  try_getMetadata(): ethereum.CallResult<string> {
+    let result = super.tryCall("getMetadata", "getMetadata():(string)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toString());
+  }
+
+  getRoleAdmin(role: Bytes): Bytes {
+    let result = super.call("getRoleAdmin", "getRoleAdmin(bytes32):(bytes32)", [
+      ethereum.Value.fromFixedBytes(role)
+    ]);
+
+    return result[0].toBytes();
+  }
+
+  try_getRoleAdmin(role: Bytes): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "getRoleAdmin",
+      "getRoleAdmin(bytes32):(bytes32)",
+      [ethereum.Value.fromFixedBytes(role)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  getRoleMember(role: Bytes, index: BigInt): Address {
+    let result = super.call(
+      "getRoleMember",
+      "getRoleMember(bytes32,uint256):(address)",
+      [
+        ethereum.Value.fromFixedBytes(role),
+        ethereum.Value.fromUnsignedBigInt(index)
+      ]
+    );
+
+    return result[0].toAddress();
+  }
+
+  try_getRoleMember(role: Bytes, index: BigInt): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "getRoleMember",
+      "getRoleMember(bytes32,uint256):(address)",
+      [
+        ethereum.Value.fromFixedBytes(role),
+        ethereum.Value.fromUnsignedBigInt(index)
+      ]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  getRoleMemberCount(role: Bytes): BigInt {
+    let result = super.call(
+      "getRoleMemberCount",
+      "getRoleMemberCount(bytes32):(uint256)",
+      [ethereum.Value.fromFixedBytes(role)]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_getRoleMemberCount(role: Bytes): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "getRoleMemberCount",
+      "getRoleMemberCount(bytes32):(uint256)",
+      [ethereum.Value.fromFixedBytes(role)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  getSubscriptionExpiryFor(_account: Address): BigInt {
+    let result = super.call(
+      "getSubscriptionExpiryFor",
+      "getSubscriptionExpiryFor(address):(uint256)",
+      [ethereum.Value.fromAddress(_account)]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_getSubscriptionExpiryFor(_account: Address): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "getSubscriptionExpiryFor",
+      "getSubscriptionExpiryFor(address):(uint256)",
+      [ethereum.Value.fromAddress(_account)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  getSubscriptionIdFor(_account: Address): BigInt {
+    let result = super.call(
+      "getSubscriptionIdFor",
+      "getSubscriptionIdFor(address):(uint256)",
+      [ethereum.Value.fromAddress(_account)]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_getSubscriptionIdFor(_account: Address): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "getSubscriptionIdFor",
+      "getSubscriptionIdFor(address):(uint256)",
+      [ethereum.Value.fromAddress(_account)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  getSubscriptionTierFor(_account: Address): BigInt {
+    let result = super.call(
+      "getSubscriptionTierFor",
+      "getSubscriptionTierFor(address):(uint256)",
+      [ethereum.Value.fromAddress(_account)]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_getSubscriptionTierFor(_account: Address): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "getSubscriptionTierFor",
+      "getSubscriptionTierFor(address):(uint256)",
+      [ethereum.Value.fromAddress(_account)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  getTier(_tierId: BigInt): GuildApp__getTierResultValue0Struct {
+    let result = super.call(
+      "getTier",
+      "getTier(uint256):((string,uint256,uint256,uint256))",
+      [ethereum.Value.fromUnsignedBigInt(_tierId)]
+    );
+
+    return result[0].toTuple() as GuildApp__getTierResultValue0Struct;
+  }
+
+  try_getTier(
+    _tierId: BigInt
+  ): ethereum.CallResult<GuildApp__getTierResultValue0Struct> {
+    let result = super.tryCall(
+      "getTier",
+      "getTier(uint256):((string,uint256,uint256,uint256))",
+      [ethereum.Value.fromUnsignedBigInt(_tierId)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      value[0].toTuple() as GuildApp__getTierResultValue0Struct
+    );
+  }
+
+  getTierPrice(_tierId: BigInt, _tokenAddress: Address): BigInt {
+    let result = super.call(
+      "getTierPrice",
+      "getTierPrice(uint256,address):(uint256)",
+      [
+        ethereum.Value.fromUnsignedBigInt(_tierId),
+        ethereum.Value.fromAddress(_tokenAddress)
+      ]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_getTierPrice(
+    _tierId: BigInt,
+    _tokenAddress: Address
+  ): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "getTierPrice",
+      "getTierPrice(uint256,address):(uint256)",
+      [
+        ethereum.Value.fromUnsignedBigInt(_tierId),
+        ethereum.Value.fromAddress(_tokenAddress)
+      ]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  gracePeriod(): BigInt {
+    let result = super.call("gracePeriod", "gracePeriod():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_gracePeriod(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("gracePeriod", "gracePeriod():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  grandfatheredPricing(): boolean {
+    let result = super.call(
+      "grandfatheredPricing",
+      "grandfatheredPricing():(bool)",
+      []
+    );
+
+    return result[0].toBoolean();
+  }
+
+  try_grandfatheredPricing(): ethereum.CallResult<boolean> {
+    let result = super.tryCall(
+      "grandfatheredPricing",
+      "grandfatheredPricing():(bool)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  guildBalance(_tokenAddress: Address): BigInt {
+    let result = super.call("guildBalance", "guildBalance(address):(uint256)", [
+      ethereum.Value.fromAddress(_tokenAddress)
+    ]);
+
+    return result[0].toBigInt();
+  }
+
+  try_guildBalance(_tokenAddress: Address): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "guildBalance",
+      "guildBalance(address):(uint256)",
+      [ethereum.Value.fromAddress(_tokenAddress)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  hasActiveSubscription(_account: Address): boolean {
+    let result = super.call(
+      "hasActiveSubscription",
+      "hasActiveSubscription(address):(bool)",
+      [ethereum.Value.fromAddress(_account)]
+    );
+
+    return result[0].toBoolean();
+  }
+
+  try_hasActiveSubscription(_account: Address): ethereum.CallResult<boolean> {
+    let result = super.tryCall(
+      "hasActiveSubscription",
+      "hasActiveSubscription(address):(bool)",
+      [ethereum.Value.fromAddress(_account)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  hasRole(role: Bytes, account: Address): boolean {
+    let result = super.call("hasRole", "hasRole(bytes32,address):(bool)", [
+      ethereum.Value.fromFixedBytes(role),
+      ethereum.Value.fromAddress(account)
+    ]);
+
+    return result[0].toBoolean();
+  }
+
+  try_hasRole(role: Bytes, account: Address): ethereum.CallResult<boolean> {
+    let result = super.tryCall("hasRole", "hasRole(bytes32,address):(bool)", [
+      ethereum.Value.fromFixedBytes(role),
+      ethereum.Value.fromAddress(account)
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  initialized(): boolean {
+    let result = super.call("initialized", "initialized():(bool)", []);
+
+    return result[0].toBoolean();
+  }
+
+  try_initialized(): ethereum.CallResult<boolean> {
+    let result = super.tryCall("initialized", "initialized():(bool)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  isActive(): boolean {
+    let result = super.call("isActive", "isActive():(bool)", []);
+
+    return result[0].toBoolean();
+  }
+
+  try_isActive(): ethereum.CallResult<boolean> {
+    let result = super.tryCall("isActive", "isActive():(bool)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  isApprovedForAll(owner: Address, operator: Address): boolean {
+    let result = super.call(
+      "isApprovedForAll",
+      "isApprovedForAll(address,address):(bool)",
+      [ethereum.Value.fromAddress(owner), ethereum.Value.fromAddress(operator)]
+    );
+
+    return result[0].toBoolean();
+  }
+
+  try_isApprovedForAll(
+    owner: Address,
+    operator: Address
+  ): ethereum.CallResult<boolean> {
+    let result = super.tryCall(
+      "isApprovedForAll",
+      "isApprovedForAll(address,address):(bool)",
+      [ethereum.Value.fromAddress(owner), ethereum.Value.fromAddress(operator)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  isSubscriptionOwner(_tokenId: BigInt, _holder: Address): boolean {
+    let result = super.call(
+      "isSubscriptionOwner",
+      "isSubscriptionOwner(uint256,address):(bool)",
+      [
+        ethereum.Value.fromUnsignedBigInt(_tokenId),
+        ethereum.Value.fromAddress(_holder)
+      ]
+    );
+
+    return result[0].toBoolean();
+  }
+
+  try_isSubscriptionOwner(
+    _tokenId: BigInt,
+    _holder: Address
+  ): ethereum.CallResult<boolean> {
+    let result = super.tryCall(
+      "isSubscriptionOwner",
+      "isSubscriptionOwner(uint256,address):(bool)",
+      [
+        ethereum.Value.fromUnsignedBigInt(_tokenId),
+        ethereum.Value.fromAddress(_holder)
+      ]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  maxFreezeDuration(): BigInt {
+    let result = super.call(
+      "maxFreezeDuration",
+      "maxFreezeDuration():(uint256)",
+      []
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_maxFreezeDuration(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "maxFreezeDuration",
+      "maxFreezeDuration():(uint256)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  maxFreezes(): BigInt {
+    let result = super.call("maxFreezes", "maxFreezes():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_maxFreezes(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("maxFreezes", "maxFreezes():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  maxMembers(): BigInt {
+    let result = super.call("maxMembers", "maxMembers():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_maxMembers(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("maxMembers", "maxMembers():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  metadataCID(): string {
+    let result = super.call("metadataCID", "metadataCID():(string)", []);
+
+    return result[0].toString();
+  }
+
+  try_metadataCID(): ethereum.CallResult<string> {
+    let result = super.tryCall("metadataCID", "metadataCID():(string)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toString());
+  }
+
+  name(): string {
+    let result = super.call("name", "name():(string)", []);
+
+    return result[0].toString();
+  }
+
+  try_name(): ethereum.CallResult<string> {
+    let result = super.tryCall("name", "name():(string)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toString());
+  }
+
+  ownerOf(tokenId: BigInt): Address {
+    let result = super.call("ownerOf", "ownerOf(uint256):(address)", [
+      ethereum.Value.fromUnsignedBigInt(tokenId)
+    ]);
+
+    return result[0].toAddress();
+  }
+
+  try_ownerOf(tokenId: BigInt): ethereum.CallResult<Address> {
+    let result = super.tryCall("ownerOf", "ownerOf(uint256):(address)", [
+      ethereum.Value.fromUnsignedBigInt(tokenId)
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  payees(): Array<Address> {
+    let result = super.call("payees", "payees():(address[])", []);
+
+    return result[0].toAddressArray();
+  }
+
+  try_payees(): ethereum.CallResult<Array<Address>> {
+    let result = super.tryCall("payees", "payees():(address[])", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddressArray());
+  }
+
+  referralBonusDuration(): BigInt {
+    let result = super.call(
+      "referralBonusDuration",
+      "referralBonusDuration():(uint256)",
+      []
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_referralBonusDuration(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "referralBonusDuration",
+      "referralBonusDuration():(uint256)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  referralRewardBps(): BigInt {
+    let result = super.call(
+      "referralRewardBps",
+      "referralRewardBps():(uint256)",
+      []
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_referralRewardBps(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "referralRewardBps",
+      "referralRewardBps():(uint256)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  referrerOf(param0: Address): Address {
+    let result = super.call("referrerOf", "referrerOf(address):(address)", [
+      ethereum.Value.fromAddress(param0)
+    ]);
+
+    return result[0].toAddress();
+  }
+
+  try_referrerOf(param0: Address): ethereum.CallResult<Address> {
+    let result = super.tryCall("referrerOf", "referrerOf(address):(address)", [
+      ethereum.Value.fromAddress(param0)
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  refundPolicy(): i32 {
+    let result = super.call("refundPolicy", "refundPolicy():(uint8)", []);
+
+    return result[0].toI32();
+  }
+
+  try_refundPolicy(): ethereum.CallResult<i32> {
+    let result = super.tryCall("refundPolicy", "refundPolicy():(uint8)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toI32());
+  }
+
+  refundWindow(): BigInt {
+    let result = super.call("refundWindow", "refundWindow():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_refundWindow(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("refundWindow", "refundWindow():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  refundableAmount(_tokenId: BigInt): BigInt {
+    let result = super.call(
+      "refundableAmount",
+      "refundableAmount(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(_tokenId)]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_refundableAmount(_tokenId: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "refundableAmount",
+      "refundableAmount(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(_tokenId)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  remainingSeats(_tierId: BigInt): BigInt {
+    let result = super.call(
+      "remainingSeats",
+      "remainingSeats(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(_tierId)]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_remainingSeats(_tierId: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "remainingSeats",
+      "remainingSeats(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(_tierId)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  safeSubscriptionHash(
+    _safe: Address,
+    _terms: GuildApp__safeSubscriptionHashInput_termsStruct
+  ): Bytes {
+    let result = super.call(
+      "safeSubscriptionHash",
+      "safeSubscriptionHash(address,(bytes4,uint256,address,uint256,uint256,address)):(bytes32)",
+      [ethereum.Value.fromAddress(_safe), ethereum.Value.fromTuple(_terms)]
+    );
+
+    return result[0].toBytes();
+  }
+
+  try_safeSubscriptionHash(
+    _safe: Address,
+    _terms: GuildApp__safeSubscriptionHashInput_termsStruct
+  ): ethereum.CallResult<Bytes> {
+    let result = super.tryCall(
+      "safeSubscriptionHash",
+      "safeSubscriptionHash(address,(bytes4,uint256,address,uint256,uint256,address)):(bytes32)",
+      [ethereum.Value.fromAddress(_safe), ethereum.Value.fromTuple(_terms)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBytes());
+  }
+
+  shares(param0: Address): BigInt {
+    let result = super.call("shares", "shares(address):(uint256)", [
+      ethereum.Value.fromAddress(param0)
+    ]);
+
+    return result[0].toBigInt();
+  }
+
+  try_shares(param0: Address): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("shares", "shares(address):(uint256)", [
+      ethereum.Value.fromAddress(param0)
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  subPrice(): BigInt {
+    let result = super.call("subPrice", "subPrice():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_subPrice(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("subPrice", "subPrice():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  subscriptionByOwner(param0: Address): GuildApp__subscriptionByOwnerResult {
+    let result = super.call(
+      "subscriptionByOwner",
+      "subscriptionByOwner(address):(uint256,uint256,uint256,address,uint256,uint256,uint256,uint256,uint256,bool,uint256,uint256)",
+      [ethereum.Value.fromAddress(param0)]
+    );
+
+    return new GuildApp__subscriptionByOwnerResult(
+      result[0].toBigInt(),
+      result[1].toBigInt(),
+      result[2].toBigInt(),
+      result[3].toAddress(),
+      result[4].toBigInt(),
+      result[5].toBigInt(),
+      result[6].toBigInt(),
+      result[7].toBigInt(),
+      result[8].toBigInt(),
+      result[9].toBoolean(),
+      result[10].toBigInt(),
+      result[11].toBigInt()
+    );
+  }
+
+  try_subscriptionByOwner(
     param0: Address
   ): ethereum.CallResult<GuildApp__subscriptionByOwnerResult> {
     let result = super.tryCall(
-      "subscriptionByOwner",
-      "subscriptionByOwner(address):(uint256,uint256)",
-      [ethereum.Value.fromAddress(param0)]
+      "subscriptionByOwner",
+      "subscriptionByOwner(address):(uint256,uint256,uint256,address,uint256,uint256,uint256,uint256,uint256,bool,uint256,uint256)",
+      [ethereum.Value.fromAddress(param0)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(
+      new GuildApp__subscriptionByOwnerResult(
+        value[0].toBigInt(),
+        value[1].toBigInt(),
+        value[2].toBigInt(),
+        value[3].toAddress(),
+        value[4].toBigInt(),
+        value[5].toBigInt(),
+        value[6].toBigInt(),
+        value[7].toBigInt(),
+        value[8].toBigInt(),
+        value[9].toBoolean(),
+        value[10].toBigInt(),
+        value[11].toBigInt()
+      )
+    );
+  }
+
+  subscriptionCost(
+    _tierId: BigInt,
+    _tokenAddress: Address,
+    _periods: BigInt
+  ): BigInt {
+    let result = super.call(
+      "subscriptionCost",
+      "subscriptionCost(uint256,address,uint256):(uint256)",
+      [
+        ethereum.Value.fromUnsignedBigInt(_tierId),
+        ethereum.Value.fromAddress(_tokenAddress),
+        ethereum.Value.fromUnsignedBigInt(_periods)
+      ]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_subscriptionCost(
+    _tierId: BigInt,
+    _tokenAddress: Address,
+    _periods: BigInt
+  ): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "subscriptionCost",
+      "subscriptionCost(uint256,address,uint256):(uint256)",
+      [
+        ethereum.Value.fromUnsignedBigInt(_tierId),
+        ethereum.Value.fromAddress(_tokenAddress),
+        ethereum.Value.fromUnsignedBigInt(_periods)
+      ]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  subscriptionCostFor(
+    _subscriber: Address,
+    _tierId: BigInt,
+    _tokenAddress: Address,
+    _periods: BigInt
+  ): BigInt {
+    let result = super.call(
+      "subscriptionCostFor",
+      "subscriptionCostFor(address,uint256,address,uint256):(uint256)",
+      [
+        ethereum.Value.fromAddress(_subscriber),
+        ethereum.Value.fromUnsignedBigInt(_tierId),
+        ethereum.Value.fromAddress(_tokenAddress),
+        ethereum.Value.fromUnsignedBigInt(_periods)
+      ]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_subscriptionCostFor(
+    _subscriber: Address,
+    _tierId: BigInt,
+    _tokenAddress: Address,
+    _periods: BigInt
+  ): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "subscriptionCostFor",
+      "subscriptionCostFor(address,uint256,address,uint256):(uint256)",
+      [
+        ethereum.Value.fromAddress(_subscriber),
+        ethereum.Value.fromUnsignedBigInt(_tierId),
+        ethereum.Value.fromAddress(_tokenAddress),
+        ethereum.Value.fromUnsignedBigInt(_periods)
+      ]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  subscriptionExtension(): Address {
+    let result = super.call(
+      "subscriptionExtension",
+      "subscriptionExtension():(address)",
+      []
+    );
+
+    return result[0].toAddress();
+  }
+
+  try_subscriptionExtension(): ethereum.CallResult<Address> {
+    let result = super.tryCall(
+      "subscriptionExtension",
+      "subscriptionExtension():(address)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  subscriptionPeriod(): BigInt {
+    let result = super.call(
+      "subscriptionPeriod",
+      "subscriptionPeriod():(uint256)",
+      []
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_subscriptionPeriod(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "subscriptionPeriod",
+      "subscriptionPeriod():(uint256)",
+      []
     );
     if (result.reverted) {
       return new ethereum.CallResult();
     }
     let value = result.value;
-    return ethereum.CallResult.fromValue(
-      new GuildApp__subscriptionByOwnerResult(
-        value[0].toBigInt(),
-        value[1].toBigInt()
-      )
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  subscriptionStatus(_account: Address): i32 {
+    let result = super.call(
+      "subscriptionStatus",
+      "subscriptionStatus(address):(uint8)",
+      [ethereum.Value.fromAddress(_account)]
+    );
+
+    return result[0].toI32();
+  }
+
+  try_subscriptionStatus(_account: Address): ethereum.CallResult<i32> {
+    let result = super.tryCall(
+      "subscriptionStatus",
+      "subscriptionStatus(address):(uint8)",
+      [ethereum.Value.fromAddress(_account)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toI32());
+  }
+
+  supportsInterface(interfaceId: Bytes): boolean {
+    let result = super.call(
+      "supportsInterface",
+      "supportsInterface(bytes4):(bool)",
+      [ethereum.Value.fromFixedBytes(interfaceId)]
+    );
+
+    return result[0].toBoolean();
+  }
+
+  try_supportsInterface(interfaceId: Bytes): ethereum.CallResult<boolean> {
+    let result = super.tryCall(
+      "supportsInterface",
+      "supportsInterface(bytes4):(bool)",
+      [ethereum.Value.fromFixedBytes(interfaceId)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBoolean());
+  }
+
+  symbol(): string {
+    let result = super.call("symbol", "symbol():(string)", []);
+
+    return result[0].toString();
+  }
+
+  try_symbol(): ethereum.CallResult<string> {
+    let result = super.tryCall("symbol", "symbol():(string)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toString());
+  }
+
+  templateVersion(): BigInt {
+    let result = super.call(
+      "templateVersion",
+      "templateVersion():(uint256)",
+      []
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_templateVersion(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "templateVersion",
+      "templateVersion():(uint256)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  tierMembers(_tierId: BigInt): BigInt {
+    let result = super.call("tierMembers", "tierMembers(uint256):(uint256)", [
+      ethereum.Value.fromUnsignedBigInt(_tierId)
+    ]);
+
+    return result[0].toBigInt();
+  }
+
+  try_tierMembers(_tierId: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "tierMembers",
+      "tierMembers(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(_tierId)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  tokenAddress(): Address {
+    let result = super.call("tokenAddress", "tokenAddress():(address)", []);
+
+    return result[0].toAddress();
+  }
+
+  try_tokenAddress(): ethereum.CallResult<Address> {
+    let result = super.tryCall("tokenAddress", "tokenAddress():(address)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toAddress());
+  }
+
+  tokenByIndex(index: BigInt): BigInt {
+    let result = super.call("tokenByIndex", "tokenByIndex(uint256):(uint256)", [
+      ethereum.Value.fromUnsignedBigInt(index)
+    ]);
+
+    return result[0].toBigInt();
+  }
+
+  try_tokenByIndex(index: BigInt): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "tokenByIndex",
+      "tokenByIndex(uint256):(uint256)",
+      [ethereum.Value.fromUnsignedBigInt(index)]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  tokenOfOwnerByIndex(owner: Address, index: BigInt): BigInt {
+    let result = super.call(
+      "tokenOfOwnerByIndex",
+      "tokenOfOwnerByIndex(address,uint256):(uint256)",
+      [
+        ethereum.Value.fromAddress(owner),
+        ethereum.Value.fromUnsignedBigInt(index)
+      ]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_tokenOfOwnerByIndex(
+    owner: Address,
+    index: BigInt
+  ): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "tokenOfOwnerByIndex",
+      "tokenOfOwnerByIndex(address,uint256):(uint256)",
+      [
+        ethereum.Value.fromAddress(owner),
+        ethereum.Value.fromUnsignedBigInt(index)
+      ]
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  tokenURI(_tokenId: BigInt): string {
+    let result = super.call("tokenURI", "tokenURI(uint256):(string)", [
+      ethereum.Value.fromUnsignedBigInt(_tokenId)
+    ]);
+
+    return result[0].toString();
+  }
+
+  try_tokenURI(_tokenId: BigInt): ethereum.CallResult<string> {
+    let result = super.tryCall("tokenURI", "tokenURI(uint256):(string)", [
+      ethereum.Value.fromUnsignedBigInt(_tokenId)
+    ]);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toString());
+  }
+
+  totalShares(): BigInt {
+    let result = super.call("totalShares", "totalShares():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_totalShares(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("totalShares", "totalShares():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  totalSupply(): BigInt {
+    let result = super.call("totalSupply", "totalSupply():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_totalSupply(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("totalSupply", "totalSupply():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  totalTiers(): BigInt {
+    let result = super.call("totalTiers", "totalTiers():(uint256)", []);
+
+    return result[0].toBigInt();
+  }
+
+  try_totalTiers(): ethereum.CallResult<BigInt> {
+    let result = super.tryCall("totalTiers", "totalTiers():(uint256)", []);
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+
+  transferPolicy(): i32 {
+    let result = super.call("transferPolicy", "transferPolicy():(uint8)", []);
+
+    return result[0].toI32();
+  }
+
+  try_transferPolicy(): ethereum.CallResult<i32> {
+    let result = super.tryCall(
+      "transferPolicy",
+      "transferPolicy():(uint8)",
+      []
+    );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toI32());
+  }
+
+  voucherRedemptions(param0: Bytes): BigInt {
+    let result = super.call(
+      "voucherRedemptions",
+      "voucherRedemptions(bytes32):(uint256)",
+      [ethereum.Value.fromFixedBytes(param0)]
+    );
+
+    return result[0].toBigInt();
+  }
+
+  try_voucherRedemptions(param0: Bytes): ethereum.CallResult<BigInt> {
+    let result = super.tryCall(
+      "voucherRedemptions",
+      "voucherRedemptions(bytes32):(uint256)",
+      [ethereum.Value.fromFixedBytes(param0)]
     );
+    if (result.reverted) {
+      return new ethereum.CallResult();
+    }
+    let value = result.value;
+    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  }
+}
+
+export class ConstructorCall extends ethereum.Call {
+  get inputs(): ConstructorCall__Inputs {
+    return new ConstructorCall__Inputs(this);
+  }
+
+  get outputs(): ConstructorCall__Outputs {
+    return new ConstructorCall__Outputs(this);
+  }
+}
+
+export class ConstructorCall__Inputs {
+  _call: ConstructorCall;
+
+  constructor(call: ConstructorCall) {
+    this._call = call;
+  }
+
+  get _extension(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get _subscriptionExtension(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+}
+
+export class ConstructorCall__Outputs {
+  _call: ConstructorCall;
+
+  constructor(call: ConstructorCall) {
+    this._call = call;
+  }
+}
+
+export class AddPaymentTokenCall extends ethereum.Call {
+  get inputs(): AddPaymentTokenCall__Inputs {
+    return new AddPaymentTokenCall__Inputs(this);
+  }
+
+  get outputs(): AddPaymentTokenCall__Outputs {
+    return new AddPaymentTokenCall__Outputs(this);
+  }
+}
+
+export class AddPaymentTokenCall__Inputs {
+  _call: AddPaymentTokenCall;
+
+  constructor(call: AddPaymentTokenCall) {
+    this._call = call;
+  }
+
+  get value0(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get value1(): Array<BigInt> {
+    return this._call.inputValues[1].value.toBigIntArray();
+  }
+}
+
+export class AddPaymentTokenCall__Outputs {
+  _call: AddPaymentTokenCall;
+
+  constructor(call: AddPaymentTokenCall) {
+    this._call = call;
+  }
+}
+
+export class AddTierCall extends ethereum.Call {
+  get inputs(): AddTierCall__Inputs {
+    return new AddTierCall__Inputs(this);
+  }
+
+  get outputs(): AddTierCall__Outputs {
+    return new AddTierCall__Outputs(this);
+  }
+}
+
+export class AddTierCall__Inputs {
+  _call: AddTierCall;
+
+  constructor(call: AddTierCall) {
+    this._call = call;
+  }
+
+  get value0(): string {
+    return this._call.inputValues[0].value.toString();
+  }
+
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+
+  get value2(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
+
+  get value3(): BigInt {
+    return this._call.inputValues[3].value.toBigInt();
+  }
+}
+
+export class AddTierCall__Outputs {
+  _call: AddTierCall;
+
+  constructor(call: AddTierCall) {
+    this._call = call;
+  }
+}
+
+export class ApproveCall extends ethereum.Call {
+  get inputs(): ApproveCall__Inputs {
+    return new ApproveCall__Inputs(this);
+  }
+
+  get outputs(): ApproveCall__Outputs {
+    return new ApproveCall__Outputs(this);
+  }
+}
+
+export class ApproveCall__Inputs {
+  _call: ApproveCall;
+
+  constructor(call: ApproveCall) {
+    this._call = call;
+  }
+
+  get to(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+}
+
+export class ApproveCall__Outputs {
+  _call: ApproveCall;
+
+  constructor(call: ApproveCall) {
+    this._call = call;
+  }
+}
+
+export class ApproveSubscriptionTransferCall extends ethereum.Call {
+  get inputs(): ApproveSubscriptionTransferCall__Inputs {
+    return new ApproveSubscriptionTransferCall__Inputs(this);
+  }
+
+  get outputs(): ApproveSubscriptionTransferCall__Outputs {
+    return new ApproveSubscriptionTransferCall__Outputs(this);
+  }
+}
+
+export class ApproveSubscriptionTransferCall__Inputs {
+  _call: ApproveSubscriptionTransferCall;
+
+  constructor(call: ApproveSubscriptionTransferCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get value1(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+}
+
+export class ApproveSubscriptionTransferCall__Outputs {
+  _call: ApproveSubscriptionTransferCall;
+
+  constructor(call: ApproveSubscriptionTransferCall) {
+    this._call = call;
+  }
+}
+
+export class ClaimCall extends ethereum.Call {
+  get inputs(): ClaimCall__Inputs {
+    return new ClaimCall__Inputs(this);
+  }
+
+  get outputs(): ClaimCall__Outputs {
+    return new ClaimCall__Outputs(this);
+  }
+}
+
+export class ClaimCall__Inputs {
+  _call: ClaimCall;
+
+  constructor(call: ClaimCall) {
+    this._call = call;
+  }
+
+  get value0(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get value1(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+}
+
+export class ClaimCall__Outputs {
+  _call: ClaimCall;
+
+  constructor(call: ClaimCall) {
+    this._call = call;
+  }
+}
+
+export class ClaimClosingRefundCall extends ethereum.Call {
+  get inputs(): ClaimClosingRefundCall__Inputs {
+    return new ClaimClosingRefundCall__Inputs(this);
+  }
+
+  get outputs(): ClaimClosingRefundCall__Outputs {
+    return new ClaimClosingRefundCall__Outputs(this);
+  }
+}
+
+export class ClaimClosingRefundCall__Inputs {
+  _call: ClaimClosingRefundCall;
+
+  constructor(call: ClaimClosingRefundCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class ClaimClosingRefundCall__Outputs {
+  _call: ClaimClosingRefundCall;
+
+  constructor(call: ClaimClosingRefundCall) {
+    this._call = call;
+  }
+}
+
+export class CloseGuildCall extends ethereum.Call {
+  get inputs(): CloseGuildCall__Inputs {
+    return new CloseGuildCall__Inputs(this);
+  }
+
+  get outputs(): CloseGuildCall__Outputs {
+    return new CloseGuildCall__Outputs(this);
+  }
+}
+
+export class CloseGuildCall__Inputs {
+  _call: CloseGuildCall;
+
+  constructor(call: CloseGuildCall) {
+    this._call = call;
+  }
+}
+
+export class CloseGuildCall__Outputs {
+  _call: CloseGuildCall;
+
+  constructor(call: CloseGuildCall) {
+    this._call = call;
+  }
+}
+
+export class DistributeCall extends ethereum.Call {
+  get inputs(): DistributeCall__Inputs {
+    return new DistributeCall__Inputs(this);
+  }
+
+  get outputs(): DistributeCall__Outputs {
+    return new DistributeCall__Outputs(this);
+  }
+}
+
+export class DistributeCall__Inputs {
+  _call: DistributeCall;
+
+  constructor(call: DistributeCall) {
+    this._call = call;
+  }
+
+  get value0(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class DistributeCall__Outputs {
+  _call: DistributeCall;
+
+  constructor(call: DistributeCall) {
+    this._call = call;
+  }
+}
+
+export class FreezeSubscriptionCall extends ethereum.Call {
+  get inputs(): FreezeSubscriptionCall__Inputs {
+    return new FreezeSubscriptionCall__Inputs(this);
+  }
+
+  get outputs(): FreezeSubscriptionCall__Outputs {
+    return new FreezeSubscriptionCall__Outputs(this);
+  }
+}
+
+export class FreezeSubscriptionCall__Inputs {
+  _call: FreezeSubscriptionCall;
+
+  constructor(call: FreezeSubscriptionCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class FreezeSubscriptionCall__Outputs {
+  _call: FreezeSubscriptionCall;
+
+  constructor(call: FreezeSubscriptionCall) {
+    this._call = call;
+  }
+}
+
+export class GiftSubscriptionCall extends ethereum.Call {
+  get inputs(): GiftSubscriptionCall__Inputs {
+    return new GiftSubscriptionCall__Inputs(this);
+  }
+
+  get outputs(): GiftSubscriptionCall__Outputs {
+    return new GiftSubscriptionCall__Outputs(this);
+  }
+}
+
+export class GiftSubscriptionCall__Inputs {
+  _call: GiftSubscriptionCall;
+
+  constructor(call: GiftSubscriptionCall) {
+    this._call = call;
+  }
+
+  get value0(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+
+  get value2(): Address {
+    return this._call.inputValues[2].value.toAddress();
+  }
+
+  get value3(): BigInt {
+    return this._call.inputValues[3].value.toBigInt();
+  }
+
+  get value4(): BigInt {
+    return this._call.inputValues[4].value.toBigInt();
+  }
+
+  get value5(): string {
+    return this._call.inputValues[5].value.toString();
+  }
+}
+
+export class GiftSubscriptionCall__Outputs {
+  _call: GiftSubscriptionCall;
+
+  constructor(call: GiftSubscriptionCall) {
+    this._call = call;
+  }
+}
+
+export class GrantRoleCall extends ethereum.Call {
+  get inputs(): GrantRoleCall__Inputs {
+    return new GrantRoleCall__Inputs(this);
+  }
+
+  get outputs(): GrantRoleCall__Outputs {
+    return new GrantRoleCall__Outputs(this);
+  }
+}
+
+export class GrantRoleCall__Inputs {
+  _call: GrantRoleCall;
+
+  constructor(call: GrantRoleCall) {
+    this._call = call;
+  }
+
+  get role(): Bytes {
+    return this._call.inputValues[0].value.toBytes();
+  }
+
+  get account(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+}
+
+export class GrantRoleCall__Outputs {
+  _call: GrantRoleCall;
+
+  constructor(call: GrantRoleCall) {
+    this._call = call;
+  }
+}
+
+export class InitializeCall extends ethereum.Call {
+  get inputs(): InitializeCall__Inputs {
+    return new InitializeCall__Inputs(this);
+  }
+
+  get outputs(): InitializeCall__Outputs {
+    return new InitializeCall__Outputs(this);
+  }
+}
+
+export class InitializeCall__Inputs {
+  _call: InitializeCall;
+
+  constructor(call: InitializeCall) {
+    this._call = call;
+  }
+
+  get _creator(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get _tokenAddress(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+
+  get _guildTiers(): Array<InitializeCall_guildTiersStruct> {
+    return this._call.inputValues[2].value.toTupleArray<
+      InitializeCall_guildTiersStruct
+    >();
+  }
+
+  get _metadata(): InitializeCall_metadataStruct {
+    return this._call.inputValues[3].value.toTuple() as InitializeCall_metadataStruct;
+  }
+
+  get allowanceModule(): Address {
+    return this._call.inputValues[4].value.toAddress();
+  }
+
+  get _transferPolicy(): i32 {
+    return this._call.inputValues[5].value.toI32();
+  }
+}
+
+export class InitializeCall__Outputs {
+  _call: InitializeCall;
+
+  constructor(call: InitializeCall) {
+    this._call = call;
+  }
+}
+
+export class InitializeCall_guildTiersStruct extends ethereum.Tuple {
+  get name(): string {
+    return this[0].toString();
+  }
+
+  get price(): BigInt {
+    return this[1].toBigInt();
+  }
+
+  get period(): BigInt {
+    return this[2].toBigInt();
+  }
+
+  get cap(): BigInt {
+    return this[3].toBigInt();
+  }
+}
+
+export class InitializeCall_metadataStruct extends ethereum.Tuple {
+  get name(): string {
+    return this[0].toString();
+  }
+
+  get symbol(): string {
+    return this[1].toString();
+  }
+
+  get baseURI(): string {
+    return this[2].toString();
+  }
+
+  get metadataCID(): string {
+    return this[3].toString();
+  }
+}
+
+export class JoinWaitlistCall extends ethereum.Call {
+  get inputs(): JoinWaitlistCall__Inputs {
+    return new JoinWaitlistCall__Inputs(this);
+  }
+
+  get outputs(): JoinWaitlistCall__Outputs {
+    return new JoinWaitlistCall__Outputs(this);
+  }
+}
+
+export class JoinWaitlistCall__Inputs {
+  _call: JoinWaitlistCall;
+
+  constructor(call: JoinWaitlistCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class JoinWaitlistCall__Outputs {
+  _call: JoinWaitlistCall;
+
+  constructor(call: JoinWaitlistCall) {
+    this._call = call;
+  }
+}
+
+export class PauseGuildCall extends ethereum.Call {
+  get inputs(): PauseGuildCall__Inputs {
+    return new PauseGuildCall__Inputs(this);
+  }
+
+  get outputs(): PauseGuildCall__Outputs {
+    return new PauseGuildCall__Outputs(this);
+  }
+}
+
+export class PauseGuildCall__Inputs {
+  _call: PauseGuildCall;
+
+  constructor(call: PauseGuildCall) {
+    this._call = call;
+  }
+
+  get value0(): boolean {
+    return this._call.inputValues[0].value.toBoolean();
+  }
+}
+
+export class PauseGuildCall__Outputs {
+  _call: PauseGuildCall;
+
+  constructor(call: PauseGuildCall) {
+    this._call = call;
+  }
+}
+
+export class ProcessClosingRefundsCall extends ethereum.Call {
+  get inputs(): ProcessClosingRefundsCall__Inputs {
+    return new ProcessClosingRefundsCall__Inputs(this);
+  }
+
+  get outputs(): ProcessClosingRefundsCall__Outputs {
+    return new ProcessClosingRefundsCall__Outputs(this);
+  }
+}
+
+export class ProcessClosingRefundsCall__Inputs {
+  _call: ProcessClosingRefundsCall;
+
+  constructor(call: ProcessClosingRefundsCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class ProcessClosingRefundsCall__Outputs {
+  _call: ProcessClosingRefundsCall;
+
+  constructor(call: ProcessClosingRefundsCall) {
+    this._call = call;
+  }
+}
+
+export class ReleaseSeatCall extends ethereum.Call {
+  get inputs(): ReleaseSeatCall__Inputs {
+    return new ReleaseSeatCall__Inputs(this);
+  }
+
+  get outputs(): ReleaseSeatCall__Outputs {
+    return new ReleaseSeatCall__Outputs(this);
+  }
+}
+
+export class ReleaseSeatCall__Inputs {
+  _call: ReleaseSeatCall;
+
+  constructor(call: ReleaseSeatCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class ReleaseSeatCall__Outputs {
+  _call: ReleaseSeatCall;
+
+  constructor(call: ReleaseSeatCall) {
+    this._call = call;
+  }
+}
+
+export class RemovePaymentTokenCall extends ethereum.Call {
+  get inputs(): RemovePaymentTokenCall__Inputs {
+    return new RemovePaymentTokenCall__Inputs(this);
+  }
+
+  get outputs(): RemovePaymentTokenCall__Outputs {
+    return new RemovePaymentTokenCall__Outputs(this);
+  }
+}
+
+export class RemovePaymentTokenCall__Inputs {
+  _call: RemovePaymentTokenCall;
+
+  constructor(call: RemovePaymentTokenCall) {
+    this._call = call;
+  }
+
+  get value0(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+}
+
+export class RemovePaymentTokenCall__Outputs {
+  _call: RemovePaymentTokenCall;
+
+  constructor(call: RemovePaymentTokenCall) {
+    this._call = call;
+  }
+}
+
+export class RenewCall extends ethereum.Call {
+  get inputs(): RenewCall__Inputs {
+    return new RenewCall__Inputs(this);
+  }
+
+  get outputs(): RenewCall__Outputs {
+    return new RenewCall__Outputs(this);
+  }
+}
+
+export class RenewCall__Inputs {
+  _call: RenewCall;
+
+  constructor(call: RenewCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+}
+
+export class RenewCall__Outputs {
+  _call: RenewCall;
+
+  constructor(call: RenewCall) {
+    this._call = call;
+  }
+}
+
+export class RenewBatchCall extends ethereum.Call {
+  get inputs(): RenewBatchCall__Inputs {
+    return new RenewBatchCall__Inputs(this);
+  }
+
+  get outputs(): RenewBatchCall__Outputs {
+    return new RenewBatchCall__Outputs(this);
+  }
+}
+
+export class RenewBatchCall__Inputs {
+  _call: RenewBatchCall;
+
+  constructor(call: RenewBatchCall) {
+    this._call = call;
+  }
+
+  get value0(): Array<Address> {
+    return this._call.inputValues[0].value.toAddressArray();
+  }
+}
+
+export class RenewBatchCall__Outputs {
+  _call: RenewBatchCall;
+
+  constructor(call: RenewBatchCall) {
+    this._call = call;
+  }
+}
+
+export class RenounceRoleCall extends ethereum.Call {
+  get inputs(): RenounceRoleCall__Inputs {
+    return new RenounceRoleCall__Inputs(this);
+  }
+
+  get outputs(): RenounceRoleCall__Outputs {
+    return new RenounceRoleCall__Outputs(this);
+  }
+}
+
+export class RenounceRoleCall__Inputs {
+  _call: RenounceRoleCall;
+
+  constructor(call: RenounceRoleCall) {
+    this._call = call;
+  }
+
+  get role(): Bytes {
+    return this._call.inputValues[0].value.toBytes();
+  }
+
+  get account(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+}
+
+export class RenounceRoleCall__Outputs {
+  _call: RenounceRoleCall;
+
+  constructor(call: RenounceRoleCall) {
+    this._call = call;
+  }
+}
+
+export class RevokeRoleCall extends ethereum.Call {
+  get inputs(): RevokeRoleCall__Inputs {
+    return new RevokeRoleCall__Inputs(this);
+  }
+
+  get outputs(): RevokeRoleCall__Outputs {
+    return new RevokeRoleCall__Outputs(this);
+  }
+}
+
+export class RevokeRoleCall__Inputs {
+  _call: RevokeRoleCall;
+
+  constructor(call: RevokeRoleCall) {
+    this._call = call;
+  }
+
+  get role(): Bytes {
+    return this._call.inputValues[0].value.toBytes();
+  }
+
+  get account(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+}
+
+export class RevokeRoleCall__Outputs {
+  _call: RevokeRoleCall;
+
+  constructor(call: RevokeRoleCall) {
+    this._call = call;
+  }
+}
+
+export class SafeTransferFromCall extends ethereum.Call {
+  get inputs(): SafeTransferFromCall__Inputs {
+    return new SafeTransferFromCall__Inputs(this);
+  }
+
+  get outputs(): SafeTransferFromCall__Outputs {
+    return new SafeTransferFromCall__Outputs(this);
+  }
+}
+
+export class SafeTransferFromCall__Inputs {
+  _call: SafeTransferFromCall;
+
+  constructor(call: SafeTransferFromCall) {
+    this._call = call;
+  }
+
+  get from(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get to(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
+}
+
+export class SafeTransferFromCall__Outputs {
+  _call: SafeTransferFromCall;
+
+  constructor(call: SafeTransferFromCall) {
+    this._call = call;
+  }
+}
+
+export class SafeTransferFrom1Call extends ethereum.Call {
+  get inputs(): SafeTransferFrom1Call__Inputs {
+    return new SafeTransferFrom1Call__Inputs(this);
+  }
+
+  get outputs(): SafeTransferFrom1Call__Outputs {
+    return new SafeTransferFrom1Call__Outputs(this);
+  }
+}
+
+export class SafeTransferFrom1Call__Inputs {
+  _call: SafeTransferFrom1Call;
+
+  constructor(call: SafeTransferFrom1Call) {
+    this._call = call;
+  }
+
+  get from(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get to(): Address {
+    return this._call.inputValues[1].value.toAddress();
+  }
+
+  get tokenId(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
+
+  get _data(): Bytes {
+    return this._call.inputValues[3].value.toBytes();
+  }
+}
+
+export class SafeTransferFrom1Call__Outputs {
+  _call: SafeTransferFrom1Call;
+
+  constructor(call: SafeTransferFrom1Call) {
+    this._call = call;
+  }
+}
+
+export class SetAllowlistCall extends ethereum.Call {
+  get inputs(): SetAllowlistCall__Inputs {
+    return new SetAllowlistCall__Inputs(this);
+  }
+
+  get outputs(): SetAllowlistCall__Outputs {
+    return new SetAllowlistCall__Outputs(this);
+  }
+}
+
+export class SetAllowlistCall__Inputs {
+  _call: SetAllowlistCall;
+
+  constructor(call: SetAllowlistCall) {
+    this._call = call;
+  }
+
+  get value0(): Bytes {
+    return this._call.inputValues[0].value.toBytes();
+  }
+
+  get value1(): string {
+    return this._call.inputValues[1].value.toString();
+  }
+}
+
+export class SetAllowlistCall__Outputs {
+  _call: SetAllowlistCall;
+
+  constructor(call: SetAllowlistCall) {
+    this._call = call;
+  }
+}
+
+export class SetApprovalForAllCall extends ethereum.Call {
+  get inputs(): SetApprovalForAllCall__Inputs {
+    return new SetApprovalForAllCall__Inputs(this);
+  }
+
+  get outputs(): SetApprovalForAllCall__Outputs {
+    return new SetApprovalForAllCall__Outputs(this);
+  }
+}
+
+export class SetApprovalForAllCall__Inputs {
+  _call: SetApprovalForAllCall;
+
+  constructor(call: SetApprovalForAllCall) {
+    this._call = call;
+  }
+
+  get operator(): Address {
+    return this._call.inputValues[0].value.toAddress();
+  }
+
+  get approved(): boolean {
+    return this._call.inputValues[1].value.toBoolean();
+  }
+}
+
+export class SetApprovalForAllCall__Outputs {
+  _call: SetApprovalForAllCall;
+
+  constructor(call: SetApprovalForAllCall) {
+    this._call = call;
+  }
+}
+
+export class SetFreezePolicyCall extends ethereum.Call {
+  get inputs(): SetFreezePolicyCall__Inputs {
+    return new SetFreezePolicyCall__Inputs(this);
+  }
+
+  get outputs(): SetFreezePolicyCall__Outputs {
+    return new SetFreezePolicyCall__Outputs(this);
+  }
+}
+
+export class SetFreezePolicyCall__Inputs {
+  _call: SetFreezePolicyCall;
+
+  constructor(call: SetFreezePolicyCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+}
+
+export class SetFreezePolicyCall__Outputs {
+  _call: SetFreezePolicyCall;
+
+  constructor(call: SetFreezePolicyCall) {
+    this._call = call;
+  }
+}
+
+export class SetGracePeriodCall extends ethereum.Call {
+  get inputs(): SetGracePeriodCall__Inputs {
+    return new SetGracePeriodCall__Inputs(this);
+  }
+
+  get outputs(): SetGracePeriodCall__Outputs {
+    return new SetGracePeriodCall__Outputs(this);
+  }
+}
+
+export class SetGracePeriodCall__Inputs {
+  _call: SetGracePeriodCall;
+
+  constructor(call: SetGracePeriodCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class SetGracePeriodCall__Outputs {
+  _call: SetGracePeriodCall;
+
+  constructor(call: SetGracePeriodCall) {
+    this._call = call;
+  }
+}
+
+export class SetGrandfatheredPricingCall extends ethereum.Call {
+  get inputs(): SetGrandfatheredPricingCall__Inputs {
+    return new SetGrandfatheredPricingCall__Inputs(this);
+  }
+
+  get outputs(): SetGrandfatheredPricingCall__Outputs {
+    return new SetGrandfatheredPricingCall__Outputs(this);
+  }
+}
+
+export class SetGrandfatheredPricingCall__Inputs {
+  _call: SetGrandfatheredPricingCall;
+
+  constructor(call: SetGrandfatheredPricingCall) {
+    this._call = call;
+  }
+
+  get value0(): boolean {
+    return this._call.inputValues[0].value.toBoolean();
+  }
+}
+
+export class SetGrandfatheredPricingCall__Outputs {
+  _call: SetGrandfatheredPricingCall;
+
+  constructor(call: SetGrandfatheredPricingCall) {
+    this._call = call;
+  }
+}
+
+export class SetMaxMembersCall extends ethereum.Call {
+  get inputs(): SetMaxMembersCall__Inputs {
+    return new SetMaxMembersCall__Inputs(this);
+  }
+
+  get outputs(): SetMaxMembersCall__Outputs {
+    return new SetMaxMembersCall__Outputs(this);
+  }
+}
+
+export class SetMaxMembersCall__Inputs {
+  _call: SetMaxMembersCall;
+
+  constructor(call: SetMaxMembersCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class SetMaxMembersCall__Outputs {
+  _call: SetMaxMembersCall;
+
+  constructor(call: SetMaxMembersCall) {
+    this._call = call;
+  }
+}
+
+export class SetMetadataCall extends ethereum.Call {
+  get inputs(): SetMetadataCall__Inputs {
+    return new SetMetadataCall__Inputs(this);
   }
 
-  subscriptionPeriod(): BigInt {
-    let result = super.call(
-      "subscriptionPeriod",
-      "subscriptionPeriod():(uint256)",
-      []
-    );
+  get outputs(): SetMetadataCall__Outputs {
+    return new SetMetadataCall__Outputs(this);
+  }
+}
 
-    return result[0].toBigInt();
+export class SetMetadataCall__Inputs {
+  _call: SetMetadataCall;
+
+  constructor(call: SetMetadataCall) {
+    this._call = call;
   }
 
-  try_subscriptionPeriod(): ethereum.CallResult<BigInt> {
-    let result = super.tryCall(
-      "subscriptionPeriod",
-      "subscriptionPeriod():(uint256)",
-      []
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBigInt());
+  get value0(): string {
+    return this._call.inputValues[0].value.toString();
   }
+}
 
-  supportsInterface(interfaceId: Bytes): boolean {
-    let result = super.call(
-      "supportsInterface",
-      "supportsInterface(bytes4):(bool)",
-      [ethereum.Value.fromFixedBytes(interfaceId)]
-    );
+export class SetMetadataCall__Outputs {
+  _call: SetMetadataCall;
 
-    return result[0].toBoolean();
+  constructor(call: SetMetadataCall) {
+    this._call = call;
   }
+}
 
-  try_supportsInterface(interfaceId: Bytes): ethereum.CallResult<boolean> {
-    let result = super.tryCall(
-      "supportsInterface",
-      "supportsInterface(bytes4):(bool)",
-      [ethereum.Value.fromFixedBytes(interfaceId)]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBoolean());
+export class SetPayeesCall extends ethereum.Call {
+  get inputs(): SetPayeesCall__Inputs {
+    return new SetPayeesCall__Inputs(this);
   }
 
-  symbol(): string {
-    let result = super.call("symbol", "symbol():(string)", []);
-
-    return result[0].toString();
+  get outputs(): SetPayeesCall__Outputs {
+    return new SetPayeesCall__Outputs(this);
   }
+}
 
-  try_symbol(): ethereum.CallResult<string> {
-    let result = super.tryCall("symbol", "symbol():(string)", []);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toString());
+export class SetPayeesCall__Inputs {
+  _call: SetPayeesCall;
+
+  constructor(call: SetPayeesCall) {
+    this._call = call;
   }
 
-  tokenAddress(): Address {
-    let result = super.call("tokenAddress", "tokenAddress():(address)", []);
+  get value0(): Array<Address> {
+    return this._call.inputValues[0].value.toAddressArray();
+  }
 
-    return result[0].toAddress();
+  get value1(): Array<BigInt> {
+    return this._call.inputValues[1].value.toBigIntArray();
   }
+}
 
-  try_tokenAddress(): ethereum.CallResult<Address> {
-    let result = super.tryCall("tokenAddress", "tokenAddress():(address)", []);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toAddress());
+export class SetPayeesCall__Outputs {
+  _call: SetPayeesCall;
+
+  constructor(call: SetPayeesCall) {
+    this._call = call;
   }
+}
 
-  tokenByIndex(index: BigInt): BigInt {
-    let result = super.call("tokenByIndex", "tokenByIndex(uint256):(uint256)", [
-      ethereum.Value.fromUnsignedBigInt(index)
-    ]);
+export class SetPeriodDiscountCall extends ethereum.Call {
+  get inputs(): SetPeriodDiscountCall__Inputs {
+    return new SetPeriodDiscountCall__Inputs(this);
+  }
 
-    return result[0].toBigInt();
+  get outputs(): SetPeriodDiscountCall__Outputs {
+    return new SetPeriodDiscountCall__Outputs(this);
   }
+}
 
-  try_tokenByIndex(index: BigInt): ethereum.CallResult<BigInt> {
-    let result = super.tryCall(
-      "tokenByIndex",
-      "tokenByIndex(uint256):(uint256)",
-      [ethereum.Value.fromUnsignedBigInt(index)]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBigInt());
+export class SetPeriodDiscountCall__Inputs {
+  _call: SetPeriodDiscountCall;
+
+  constructor(call: SetPeriodDiscountCall) {
+    this._call = call;
   }
 
-  tokenOfOwnerByIndex(owner: Address, index: BigInt): BigInt {
-    let result = super.call(
-      "tokenOfOwnerByIndex",
-      "tokenOfOwnerByIndex(address,uint256):(uint256)",
-      [
-        ethereum.Value.fromAddress(owner),
-        ethereum.Value.fromUnsignedBigInt(index)
-      ]
-    );
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
 
-    return result[0].toBigInt();
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
   }
+}
 
-  try_tokenOfOwnerByIndex(
-    owner: Address,
-    index: BigInt
-  ): ethereum.CallResult<BigInt> {
-    let result = super.tryCall(
-      "tokenOfOwnerByIndex",
-      "tokenOfOwnerByIndex(address,uint256):(uint256)",
-      [
-        ethereum.Value.fromAddress(owner),
-        ethereum.Value.fromUnsignedBigInt(index)
-      ]
-    );
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBigInt());
+export class SetPeriodDiscountCall__Outputs {
+  _call: SetPeriodDiscountCall;
+
+  constructor(call: SetPeriodDiscountCall) {
+    this._call = call;
   }
+}
 
-  tokenURI(tokenId: BigInt): string {
-    let result = super.call("tokenURI", "tokenURI(uint256):(string)", [
-      ethereum.Value.fromUnsignedBigInt(tokenId)
-    ]);
+export class SetReferralPolicyCall extends ethereum.Call {
+  get inputs(): SetReferralPolicyCall__Inputs {
+    return new SetReferralPolicyCall__Inputs(this);
+  }
 
-    return result[0].toString();
+  get outputs(): SetReferralPolicyCall__Outputs {
+    return new SetReferralPolicyCall__Outputs(this);
   }
+}
 
-  try_tokenURI(tokenId: BigInt): ethereum.CallResult<string> {
-    let result = super.tryCall("tokenURI", "tokenURI(uint256):(string)", [
-      ethereum.Value.fromUnsignedBigInt(tokenId)
-    ]);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toString());
+export class SetReferralPolicyCall__Inputs {
+  _call: SetReferralPolicyCall;
+
+  constructor(call: SetReferralPolicyCall) {
+    this._call = call;
   }
 
-  totalSupply(): BigInt {
-    let result = super.call("totalSupply", "totalSupply():(uint256)", []);
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
 
-    return result[0].toBigInt();
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
   }
+}
 
-  try_totalSupply(): ethereum.CallResult<BigInt> {
-    let result = super.tryCall("totalSupply", "totalSupply():(uint256)", []);
-    if (result.reverted) {
-      return new ethereum.CallResult();
-    }
-    let value = result.value;
-    return ethereum.CallResult.fromValue(value[0].toBigInt());
+export class SetReferralPolicyCall__Outputs {
+  _call: SetReferralPolicyCall;
+
+  constructor(call: SetReferralPolicyCall) {
+    this._call = call;
   }
 }
 
-export class ApproveCall extends ethereum.Call {
-  get inputs(): ApproveCall__Inputs {
-    return new ApproveCall__Inputs(this);
+export class SetRefundPolicyCall extends ethereum.Call {
+  get inputs(): SetRefundPolicyCall__Inputs {
+    return new SetRefundPolicyCall__Inputs(this);
   }
 
-  get outputs(): ApproveCall__Outputs {
-    return new ApproveCall__Outputs(this);
+  get outputs(): SetRefundPolicyCall__Outputs {
+    return new SetRefundPolicyCall__Outputs(this);
   }
 }
 
-export class ApproveCall__Inputs {
-  _call: ApproveCall;
+export class SetRefundPolicyCall__Inputs {
+  _call: SetRefundPolicyCall;
 
-  constructor(call: ApproveCall) {
+  constructor(call: SetRefundPolicyCall) {
     this._call = call;
   }
 
-  get to(): Address {
-    return this._call.inputValues[0].value.toAddress();
+  get value0(): i32 {
+    return this._call.inputValues[0].value.toI32();
   }
 
-  get tokenId(): BigInt {
+  get value1(): BigInt {
     return this._call.inputValues[1].value.toBigInt();
   }
 }
 
-export class ApproveCall__Outputs {
-  _call: ApproveCall;
+export class SetRefundPolicyCall__Outputs {
+  _call: SetRefundPolicyCall;
 
-  constructor(call: ApproveCall) {
+  constructor(call: SetRefundPolicyCall) {
     this._call = call;
   }
 }
 
-export class GrantRoleCall extends ethereum.Call {
-  get inputs(): GrantRoleCall__Inputs {
-    return new GrantRoleCall__Inputs(this);
+export class SetTokenPriceCall extends ethereum.Call {
+  get inputs(): SetTokenPriceCall__Inputs {
+    return new SetTokenPriceCall__Inputs(this);
   }
 
-  get outputs(): GrantRoleCall__Outputs {
-    return new GrantRoleCall__Outputs(this);
+  get outputs(): SetTokenPriceCall__Outputs {
+    return new SetTokenPriceCall__Outputs(this);
   }
 }
 
-export class GrantRoleCall__Inputs {
-  _call: GrantRoleCall;
+export class SetTokenPriceCall__Inputs {
+  _call: SetTokenPriceCall;
 
-  constructor(call: GrantRoleCall) {
+  constructor(call: SetTokenPriceCall) {
     this._call = call;
   }
 
-  get role(): Bytes {
-    return this._call.inputValues[0].value.toBytes();
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
   }
 
-  get account(): Address {
+  get value1(): Address {
     return this._call.inputValues[1].value.toAddress();
   }
+
+  get value2(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
 }
 
-export class GrantRoleCall__Outputs {
-  _call: GrantRoleCall;
+export class SetTokenPriceCall__Outputs {
+  _call: SetTokenPriceCall;
 
-  constructor(call: GrantRoleCall) {
+  constructor(call: SetTokenPriceCall) {
     this._call = call;
   }
 }
 
-export class InitializeCall extends ethereum.Call {
-  get inputs(): InitializeCall__Inputs {
-    return new InitializeCall__Inputs(this);
+export class SubscribeCall extends ethereum.Call {
+  get inputs(): SubscribeCall__Inputs {
+    return new SubscribeCall__Inputs(this);
   }
 
-  get outputs(): InitializeCall__Outputs {
-    return new InitializeCall__Outputs(this);
+  get outputs(): SubscribeCall__Outputs {
+    return new SubscribeCall__Outputs(this);
   }
 }
 
-export class InitializeCall__Inputs {
-  _call: InitializeCall;
+export class SubscribeCall__Inputs {
+  _call: SubscribeCall;
 
-  constructor(call: InitializeCall) {
+  constructor(call: SubscribeCall) {
     this._call = call;
   }
 
-  get _creator(): Address {
+  get value0(): Address {
     return this._call.inputValues[0].value.toAddress();
   }
 
-  get _tokenAddress(): Address {
-    return this._call.inputValues[1].value.toAddress();
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
   }
 
-  get _subPrice(): BigInt {
-    return this._call.inputValues[2].value.toBigInt();
+  get value2(): Address {
+    return this._call.inputValues[2].value.toAddress();
   }
 
-  get _subscriptionPeriod(): BigInt {
-    return this._call.inputValues[3].value.toBigInt();
+  get value3(): string {
+    return this._call.inputValues[3].value.toString();
   }
 
-  get _metadata(): InitializeCall_metadataStruct {
-    return this._call.inputValues[4].value.toTuple() as InitializeCall_metadataStruct;
+  get value4(): BigInt {
+    return this._call.inputValues[4].value.toBigInt();
   }
 
-  get allowanceModule(): Address {
-    return this._call.inputValues[5].value.toAddress();
+  get value5(): Bytes {
+    return this._call.inputValues[5].value.toBytes();
   }
 }
 
-export class InitializeCall__Outputs {
-  _call: InitializeCall;
+export class SubscribeCall__Outputs {
+  _call: SubscribeCall;
 
-  constructor(call: InitializeCall) {
+  constructor(call: SubscribeCall) {
     this._call = call;
   }
 }
 
-export class InitializeCall_metadataStruct extends ethereum.Tuple {
-  get name(): string {
-    return this[0].toString();
+export class SubscribeForPeriodsCall extends ethereum.Call {
+  get inputs(): SubscribeForPeriodsCall__Inputs {
+    return new SubscribeForPeriodsCall__Inputs(this);
   }
 
-  get symbol(): string {
-    return this[1].toString();
+  get outputs(): SubscribeForPeriodsCall__Outputs {
+    return new SubscribeForPeriodsCall__Outputs(this);
   }
+}
 
-  get baseURI(): string {
-    return this[2].toString();
+export class SubscribeForPeriodsCall__Inputs {
+  _call: SubscribeForPeriodsCall;
+
+  constructor(call: SubscribeForPeriodsCall) {
+    this._call = call;
   }
 
-  get metadataCID(): string {
-    return this[3].toString();
+  get value0(): Address {
+    return this._call.inputValues[0].value.toAddress();
   }
-}
 
-export class PauseGuildCall extends ethereum.Call {
-  get inputs(): PauseGuildCall__Inputs {
-    return new PauseGuildCall__Inputs(this);
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
   }
 
-  get outputs(): PauseGuildCall__Outputs {
-    return new PauseGuildCall__Outputs(this);
+  get value2(): Address {
+    return this._call.inputValues[2].value.toAddress();
+  }
+
+  get value3(): string {
+    return this._call.inputValues[3].value.toString();
   }
-}
 
-export class PauseGuildCall__Inputs {
-  _call: PauseGuildCall;
+  get value4(): BigInt {
+    return this._call.inputValues[4].value.toBigInt();
+  }
 
-  constructor(call: PauseGuildCall) {
-    this._call = call;
+  get value5(): BigInt {
+    return this._call.inputValues[5].value.toBigInt();
   }
 
-  get pause(): boolean {
-    return this._call.inputValues[0].value.toBoolean();
+  get value6(): Bytes {
+    return this._call.inputValues[6].value.toBytes();
   }
 }
 
-export class PauseGuildCall__Outputs {
-  _call: PauseGuildCall;
+export class SubscribeForPeriodsCall__Outputs {
+  _call: SubscribeForPeriodsCall;
 
-  constructor(call: PauseGuildCall) {
+  constructor(call: SubscribeForPeriodsCall) {
     this._call = call;
   }
 }
 
-export class RenounceRoleCall extends ethereum.Call {
-  get inputs(): RenounceRoleCall__Inputs {
-    return new RenounceRoleCall__Inputs(this);
+export class SubscribeWithPermitCall extends ethereum.Call {
+  get inputs(): SubscribeWithPermitCall__Inputs {
+    return new SubscribeWithPermitCall__Inputs(this);
   }
 
-  get outputs(): RenounceRoleCall__Outputs {
-    return new RenounceRoleCall__Outputs(this);
+  get outputs(): SubscribeWithPermitCall__Outputs {
+    return new SubscribeWithPermitCall__Outputs(this);
   }
 }
 
-export class RenounceRoleCall__Inputs {
-  _call: RenounceRoleCall;
+export class SubscribeWithPermitCall__Inputs {
+  _call: SubscribeWithPermitCall;
 
-  constructor(call: RenounceRoleCall) {
+  constructor(call: SubscribeWithPermitCall) {
     this._call = call;
   }
 
-  get role(): Bytes {
-    return this._call.inputValues[0].value.toBytes();
+  get value0(): Address {
+    return this._call.inputValues[0].value.toAddress();
   }
 
-  get account(): Address {
-    return this._call.inputValues[1].value.toAddress();
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
   }
-}
 
-export class RenounceRoleCall__Outputs {
-  _call: RenounceRoleCall;
+  get value2(): Address {
+    return this._call.inputValues[2].value.toAddress();
+  }
 
-  constructor(call: RenounceRoleCall) {
-    this._call = call;
+  get value3(): BigInt {
+    return this._call.inputValues[3].value.toBigInt();
   }
-}
 
-export class RevokeRoleCall extends ethereum.Call {
-  get inputs(): RevokeRoleCall__Inputs {
-    return new RevokeRoleCall__Inputs(this);
+  get value4(): BigInt {
+    return this._call.inputValues[4].value.toBigInt();
   }
 
-  get outputs(): RevokeRoleCall__Outputs {
-    return new RevokeRoleCall__Outputs(this);
+  get value5(): SubscribeWithPermitCallValue5Struct {
+    return this._call.inputValues[5].value.toTuple() as SubscribeWithPermitCallValue5Struct;
   }
 }
 
-export class RevokeRoleCall__Inputs {
-  _call: RevokeRoleCall;
+export class SubscribeWithPermitCall__Outputs {
+  _call: SubscribeWithPermitCall;
 
-  constructor(call: RevokeRoleCall) {
+  constructor(call: SubscribeWithPermitCall) {
     this._call = call;
   }
+}
 
-  get role(): Bytes {
-    return this._call.inputValues[0].value.toBytes();
+export class SubscribeWithPermitCallValue5Struct extends ethereum.Tuple {
+  get daiStyle(): boolean {
+    return this[0].toBoolean();
   }
 
-  get account(): Address {
-    return this._call.inputValues[1].value.toAddress();
+  get nonce(): BigInt {
+    return this[1].toBigInt();
   }
-}
 
-export class RevokeRoleCall__Outputs {
-  _call: RevokeRoleCall;
+  get deadline(): BigInt {
+    return this[2].toBigInt();
+  }
 
-  constructor(call: RevokeRoleCall) {
-    this._call = call;
+  get v(): i32 {
+    return this[3].toI32();
+  }
+
+  get r(): Bytes {
+    return this[4].toBytes();
+  }
+
+  get s(): Bytes {
+    return this[5].toBytes();
   }
 }
 
-export class SafeTransferFromCall extends ethereum.Call {
-  get inputs(): SafeTransferFromCall__Inputs {
-    return new SafeTransferFromCall__Inputs(this);
+export class SubscribeWithProofCall extends ethereum.Call {
+  get inputs(): SubscribeWithProofCall__Inputs {
+    return new SubscribeWithProofCall__Inputs(this);
   }
 
-  get outputs(): SafeTransferFromCall__Outputs {
-    return new SafeTransferFromCall__Outputs(this);
+  get outputs(): SubscribeWithProofCall__Outputs {
+    return new SubscribeWithProofCall__Outputs(this);
   }
 }
 
-export class SafeTransferFromCall__Inputs {
-  _call: SafeTransferFromCall;
+export class SubscribeWithProofCall__Inputs {
+  _call: SubscribeWithProofCall;
 
-  constructor(call: SafeTransferFromCall) {
+  constructor(call: SubscribeWithProofCall) {
     this._call = call;
   }
 
-  get from(): Address {
+  get value0(): Address {
     return this._call.inputValues[0].value.toAddress();
   }
 
-  get to(): Address {
-    return this._call.inputValues[1].value.toAddress();
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
   }
 
-  get tokenId(): BigInt {
-    return this._call.inputValues[2].value.toBigInt();
+  get value2(): Address {
+    return this._call.inputValues[2].value.toAddress();
+  }
+
+  get value3(): BigInt {
+    return this._call.inputValues[3].value.toBigInt();
+  }
+
+  get value4(): BigInt {
+    return this._call.inputValues[4].value.toBigInt();
+  }
+
+  get value5(): Bytes {
+    return this._call.inputValues[5].value.toBytes();
+  }
+
+  get value6(): Array<Bytes> {
+    return this._call.inputValues[6].value.toBytesArray();
   }
 }
 
-export class SafeTransferFromCall__Outputs {
-  _call: SafeTransferFromCall;
+export class SubscribeWithProofCall__Outputs {
+  _call: SubscribeWithProofCall;
 
-  constructor(call: SafeTransferFromCall) {
+  constructor(call: SubscribeWithProofCall) {
     this._call = call;
   }
 }
 
-export class SafeTransferFrom1Call extends ethereum.Call {
-  get inputs(): SafeTransferFrom1Call__Inputs {
-    return new SafeTransferFrom1Call__Inputs(this);
+export class SubscribeWithReferrerCall extends ethereum.Call {
+  get inputs(): SubscribeWithReferrerCall__Inputs {
+    return new SubscribeWithReferrerCall__Inputs(this);
   }
 
-  get outputs(): SafeTransferFrom1Call__Outputs {
-    return new SafeTransferFrom1Call__Outputs(this);
+  get outputs(): SubscribeWithReferrerCall__Outputs {
+    return new SubscribeWithReferrerCall__Outputs(this);
   }
 }
 
-export class SafeTransferFrom1Call__Inputs {
-  _call: SafeTransferFrom1Call;
+export class SubscribeWithReferrerCall__Inputs {
+  _call: SubscribeWithReferrerCall;
 
-  constructor(call: SafeTransferFrom1Call) {
+  constructor(call: SubscribeWithReferrerCall) {
     this._call = call;
   }
 
-  get _from(): Address {
+  get value0(): Address {
     return this._call.inputValues[0].value.toAddress();
   }
 
-  get _to(): Address {
-    return this._call.inputValues[1].value.toAddress();
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
   }
 
-  get _tokenId(): BigInt {
-    return this._call.inputValues[2].value.toBigInt();
+  get value2(): Address {
+    return this._call.inputValues[2].value.toAddress();
   }
 
-  get _data(): Bytes {
-    return this._call.inputValues[3].value.toBytes();
+  get value3(): BigInt {
+    return this._call.inputValues[3].value.toBigInt();
+  }
+
+  get value4(): BigInt {
+    return this._call.inputValues[4].value.toBigInt();
+  }
+
+  get value5(): Bytes {
+    return this._call.inputValues[5].value.toBytes();
+  }
+
+  get value6(): Address {
+    return this._call.inputValues[6].value.toAddress();
   }
 }
 
-export class SafeTransferFrom1Call__Outputs {
-  _call: SafeTransferFrom1Call;
+export class SubscribeWithReferrerCall__Outputs {
+  _call: SubscribeWithReferrerCall;
 
-  constructor(call: SafeTransferFrom1Call) {
+  constructor(call: SubscribeWithReferrerCall) {
     this._call = call;
   }
 }
 
-export class SetApprovalForAllCall extends ethereum.Call {
-  get inputs(): SetApprovalForAllCall__Inputs {
-    return new SetApprovalForAllCall__Inputs(this);
+export class SubscribeWithVoucherCall extends ethereum.Call {
+  get inputs(): SubscribeWithVoucherCall__Inputs {
+    return new SubscribeWithVoucherCall__Inputs(this);
   }
 
-  get outputs(): SetApprovalForAllCall__Outputs {
-    return new SetApprovalForAllCall__Outputs(this);
+  get outputs(): SubscribeWithVoucherCall__Outputs {
+    return new SubscribeWithVoucherCall__Outputs(this);
   }
 }
 
-export class SetApprovalForAllCall__Inputs {
-  _call: SetApprovalForAllCall;
+export class SubscribeWithVoucherCall__Inputs {
+  _call: SubscribeWithVoucherCall;
 
-  constructor(call: SetApprovalForAllCall) {
+  constructor(call: SubscribeWithVoucherCall) {
     this._call = call;
   }
 
-  get operator(): Address {
+  get value0(): Address {
     return this._call.inputValues[0].value.toAddress();
   }
 
-  get approved(): boolean {
-    return this._call.inputValues[1].value.toBoolean();
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
+  }
+
+  get value2(): Address {
+    return this._call.inputValues[2].value.toAddress();
+  }
+
+  get value3(): BigInt {
+    return this._call.inputValues[3].value.toBigInt();
+  }
+
+  get value4(): BigInt {
+    return this._call.inputValues[4].value.toBigInt();
+  }
+
+  get value5(): Bytes {
+    return this._call.inputValues[5].value.toBytes();
+  }
+
+  get value6(): SubscribeWithVoucherCallValue6Struct {
+    return this._call.inputValues[6].value.toTuple() as SubscribeWithVoucherCallValue6Struct;
+  }
+
+  get value7(): Bytes {
+    return this._call.inputValues[7].value.toBytes();
+  }
+
+  get value8(): Array<Bytes> {
+    return this._call.inputValues[8].value.toBytesArray();
   }
 }
 
-export class SetApprovalForAllCall__Outputs {
-  _call: SetApprovalForAllCall;
+export class SubscribeWithVoucherCall__Outputs {
+  _call: SubscribeWithVoucherCall;
 
-  constructor(call: SetApprovalForAllCall) {
+  constructor(call: SubscribeWithVoucherCall) {
     this._call = call;
   }
 }
 
-export class SetMetadataCall extends ethereum.Call {
-  get inputs(): SetMetadataCall__Inputs {
-    return new SetMetadataCall__Inputs(this);
+export class SubscribeWithVoucherCallValue6Struct extends ethereum.Tuple {
+  get tierId(): BigInt {
+    return this[0].toBigInt();
   }
 
-  get outputs(): SetMetadataCall__Outputs {
-    return new SetMetadataCall__Outputs(this);
+  get discountBps(): BigInt {
+    return this[1].toBigInt();
   }
-}
 
-export class SetMetadataCall__Inputs {
-  _call: SetMetadataCall;
+  get tokenAddress(): Address {
+    return this[2].toAddress();
+  }
 
-  constructor(call: SetMetadataCall) {
-    this._call = call;
+  get fixedPrice(): BigInt {
+    return this[3].toBigInt();
   }
 
-  get _metadataCID(): string {
-    return this._call.inputValues[0].value.toString();
+  get maxUses(): BigInt {
+    return this[4].toBigInt();
   }
-}
 
-export class SetMetadataCall__Outputs {
-  _call: SetMetadataCall;
+  get expiry(): BigInt {
+    return this[5].toBigInt();
+  }
 
-  constructor(call: SetMetadataCall) {
-    this._call = call;
+  get recipient(): Address {
+    return this[6].toAddress();
+  }
+
+  get salt(): Bytes {
+    return this[7].toBytes();
   }
 }
 
-export class SubscribeCall extends ethereum.Call {
-  get inputs(): SubscribeCall__Inputs {
-    return new SubscribeCall__Inputs(this);
+export class TipCall extends ethereum.Call {
+  get inputs(): TipCall__Inputs {
+    return new TipCall__Inputs(this);
   }
 
-  get outputs(): SubscribeCall__Outputs {
-    return new SubscribeCall__Outputs(this);
+  get outputs(): TipCall__Outputs {
+    return new TipCall__Outputs(this);
   }
 }
 
-export class SubscribeCall__Inputs {
-  _call: SubscribeCall;
+export class TipCall__Inputs {
+  _call: TipCall;
 
-  constructor(call: SubscribeCall) {
+  constructor(call: TipCall) {
     this._call = call;
   }
 
-  get _subscriber(): Address {
+  get value0(): Address {
     return this._call.inputValues[0].value.toAddress();
   }
 
-  get _tokenURI(): string {
-    return this._call.inputValues[1].value.toString();
-  }
-
-  get _value(): BigInt {
-    return this._call.inputValues[2].value.toBigInt();
+  get value1(): BigInt {
+    return this._call.inputValues[1].value.toBigInt();
   }
 
-  get _data(): Bytes {
-    return this._call.inputValues[3].value.toBytes();
+  get value2(): string {
+    return this._call.inputValues[2].value.toString();
   }
 }
 
-export class SubscribeCall__Outputs {
-  _call: SubscribeCall;
+export class TipCall__Outputs {
+  _call: TipCall;
 
-  constructor(call: SubscribeCall) {
+  constructor(call: TipCall) {
     this._call = call;
   }
 }
@@ -1496,15 +4539,15 @@ export class TransferFromCall__Inputs {
     this._call = call;
   }
 
-  get _from(): Address {
+  get from(): Address {
     return this._call.inputValues[0].value.toAddress();
   }
 
-  get _to(): Address {
+  get to(): Address {
     return this._call.inputValues[1].value.toAddress();
   }
 
-  get _tokenId(): BigInt {
+  get tokenId(): BigInt {
     return this._call.inputValues[2].value.toBigInt();
   }
 }
@@ -1517,6 +4560,36 @@ export class TransferFromCall__Outputs {
   }
 }
 
+export class UnfreezeSubscriptionCall extends ethereum.Call {
+  get inputs(): UnfreezeSubscriptionCall__Inputs {
+    return new UnfreezeSubscriptionCall__Inputs(this);
+  }
+
+  get outputs(): UnfreezeSubscriptionCall__Outputs {
+    return new UnfreezeSubscriptionCall__Outputs(this);
+  }
+}
+
+export class UnfreezeSubscriptionCall__Inputs {
+  _call: UnfreezeSubscriptionCall;
+
+  constructor(call: UnfreezeSubscriptionCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class UnfreezeSubscriptionCall__Outputs {
+  _call: UnfreezeSubscriptionCall;
+
+  constructor(call: UnfreezeSubscriptionCall) {
+    this._call = call;
+  }
+}
+
 export class UnsubscribeCall extends ethereum.Call {
   get inputs(): UnsubscribeCall__Inputs {
     return new UnsubscribeCall__Inputs(this);
@@ -1534,7 +4607,7 @@ export class UnsubscribeCall__Inputs {
     this._call = call;
   }
 
-  get _tokenId(): BigInt {
+  get value0(): BigInt {
     return this._call.inputValues[0].value.toBigInt();
   }
 }
@@ -1564,11 +4637,11 @@ export class UpdateSubscriptionPriceCall__Inputs {
     this._call = call;
   }
 
-  get _tokenAddress(): Address {
+  get value0(): Address {
     return this._call.inputValues[0].value.toAddress();
   }
 
-  get _newSubPrice(): BigInt {
+  get value1(): BigInt {
     return this._call.inputValues[1].value.toBigInt();
   }
 }
@@ -1581,6 +4654,82 @@ export class UpdateSubscriptionPriceCall__Outputs {
   }
 }
 
+export class UpdateTierCall extends ethereum.Call {
+  get inputs(): UpdateTierCall__Inputs {
+    return new UpdateTierCall__Inputs(this);
+  }
+
+  get outputs(): UpdateTierCall__Outputs {
+    return new UpdateTierCall__Outputs(this);
+  }
+}
+
+export class UpdateTierCall__Inputs {
+  _call: UpdateTierCall;
+
+  constructor(call: UpdateTierCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+
+  get value1(): string {
+    return this._call.inputValues[1].value.toString();
+  }
+
+  get value2(): BigInt {
+    return this._call.inputValues[2].value.toBigInt();
+  }
+
+  get value3(): BigInt {
+    return this._call.inputValues[3].value.toBigInt();
+  }
+
+  get value4(): BigInt {
+    return this._call.inputValues[4].value.toBigInt();
+  }
+}
+
+export class UpdateTierCall__Outputs {
+  _call: UpdateTierCall;
+
+  constructor(call: UpdateTierCall) {
+    this._call = call;
+  }
+}
+
+export class UpgradeToVersionCall extends ethereum.Call {
+  get inputs(): UpgradeToVersionCall__Inputs {
+    return new UpgradeToVersionCall__Inputs(this);
+  }
+
+  get outputs(): UpgradeToVersionCall__Outputs {
+    return new UpgradeToVersionCall__Outputs(this);
+  }
+}
+
+export class UpgradeToVersionCall__Inputs {
+  _call: UpgradeToVersionCall;
+
+  constructor(call: UpgradeToVersionCall) {
+    this._call = call;
+  }
+
+  get value0(): BigInt {
+    return this._call.inputValues[0].value.toBigInt();
+  }
+}
+
+export class UpgradeToVersionCall__Outputs {
+  _call: UpgradeToVersionCall;
+
+  constructor(call: UpgradeToVersionCall) {
+    this._call = call;
+  }
+}
+
 export class WithdrawCall extends ethereum.Call {
   get inputs(): WithdrawCall__Inputs {
     return new WithdrawCall__Inputs(this);
@@ -1598,15 +4747,15 @@ export class WithdrawCall__Inputs {
     this._call = call;
   }
 
-  get _tokenAddress(): Address {
+  get value0(): Address {
     return this._call.inputValues[0].value.toAddress();
   }
 
-  get _amount(): BigInt {
+  get value1(): BigInt {
     return this._call.inputValues[1].value.toBigInt();
   }
 
-  get _beneficiary(): Address {
+  get value2(): Address {
     return this._call.inputValues[2].value.toAddress();
   }
 }
@@ -1,17 +1,82 @@
-import { BigInt, log } from "@graphprotocol/graph-ts";
-import { Guild, GuildBalance, GuildSubscription, Payment, GuildWithdrawal } from "../generated/schema";
+import { Address, BigInt, Bytes, dataSource, log } from "@graphprotocol/graph-ts";
+import {
+    Guild,
+    GuildBalance,
+    GuildMember,
+    GuildReferrer,
+    GuildSubscription,
+    GuildTier,
+    GuildTierPrice,
+    Payment,
+    GuildWithdrawal,
+    Referral,
+    RenewalFailure,
+    SubscriptionGift,
+    Tip,
+    VoucherRedemption,
+    WaitlistEntry } from "../generated/schema";
 import {
     GuildApp,
+    AllowlistUpdated,
+    Claimed,
+    ClosingRefundsProcessed,
+    FreezePolicyUpdated,
+    GracePeriodUpdated,
+    GrandfatheredPricingUpdated,
+    GuildClosed,
     InitializedGuild,
+    MaxMembersUpdated,
     NewSubscription,
     PausedGuild,
+    PaymentTokenAdded,
+    PaymentTokenRemoved,
+    PeriodDiscountUpdated,
+    PriceLocked,
+    ReferralCredited,
+    ReferralPolicyUpdated,
+    Refunded,
+    RefundPolicyUpdated,
+    RenewalFailed,
     RenewSubscription,
+    RoleGranted,
+    RoleRevoked,
+    SeatReleased,
+    SubscriptionFrozen,
+    SubscriptionGifted,
     SubscriptionPriceChanged,
+    SubscriptionUnfrozen,
+    TierUpdated,
+    Tipped,
+    TokenPriceUpdated,
+    TransferPolicyUpdated,
     UpdatedMetadata,
     Unsubscribed,
+    Upgraded,
+    VoucherRedeemed,
+    WaitlistJoined,
     Withdraw,
     Transfer } from "../generated/templates/GuildAppTemplate/GuildApp";
 
+const ZERO_ROOT = "0x0000000000000000000000000000000000000000000000000000000000000000";
+
+function loadOrCreateBalance(guildId: string, tokenAddress: Address, timestamp: BigInt): GuildBalance {
+    let balanceId = guildId.concat("-").concat(tokenAddress.toHexString());
+    let guildBalance = GuildBalance.load(balanceId);
+    if (guildBalance == null) {
+        guildBalance = new GuildBalance(balanceId);
+        guildBalance.guild = guildId;
+        guildBalance.addedAt = timestamp.toString();
+        guildBalance.tokenAddress = tokenAddress;
+        guildBalance.currentBalance = BigInt.fromI32(0);
+        guildBalance.totalSubscriptions = BigInt.fromI32(0);
+        guildBalance.totalTips = BigInt.fromI32(0);
+        guildBalance.totalFees = BigInt.fromI32(0);
+
+        guildBalance.save();
+    }
+    return guildBalance as GuildBalance;
+}
+
 export function handleCreatedGuild(event: InitializedGuild): void {
     let guildId = event.address.toHex();
     log.info("**** Initializing Guild: {}", [guildId]);
@@ -24,21 +89,29 @@ export function handleCreatedGuild(event: InitializedGuild): void {
     guild.lastMetadataUpdate = event.block.timestamp.toString();
     guild.active = true;
     guild.tokenAddress = event.params._tokenAddress;
+    guild.acceptedTokens = new Array<Bytes>(); // populated by PaymentTokenAdded events
     guild.totalSubscribers = BigInt.fromI32(0);
     guild.subsPeriod = event.params._subscriptionPeriod;
     guild.currentPrice = event.params._subPrice;
+    guild.discountMinPeriods = BigInt.fromI32(0);
+    guild.discountBps = BigInt.fromI32(0);
+    guild.gracePeriod = BigInt.fromI32(0);
+    guild.refundPolicy = 0;
+    guild.refundWindow = BigInt.fromI32(0);
+    guild.transferPolicy = 0;
+    guild.maxMembers = BigInt.fromI32(0);
+    guild.grandfatheredPricing = false;
+    guild.maxFreezeDuration = BigInt.fromI32(0);
+    guild.maxFreezes = BigInt.fromI32(0);
+    guild.referralRewardBps = BigInt.fromI32(0);
+    guild.referralBonusDuration = BigInt.fromI32(0);
+    let context = dataSource.context();
+    guild.templateVersion = context.getBigInt("templateVersion");
+    guild.upgradeable = context.getBoolean("upgradeable");
     
     guild.save();
 
-    let balanceId = guildId.concat("-").concat(guild.tokenAddress.toHexString());
-    let guildBalance = new GuildBalance(balanceId);
-    guildBalance.guild = guildId;
-    guildBalance.addedAt = event.block.timestamp.toString();
-    guildBalance.tokenAddress = guild.tokenAddress;
-    guildBalance.currentBalance = BigInt.fromI32(0);
-    guildBalance.totalSubscriptions = BigInt.fromI32(0);
-
-    guildBalance.save();
+    loadOrCreateBalance(guildId, event.params._tokenAddress, event.block.timestamp);
 
 }
 
@@ -60,45 +133,260 @@ export function handlePausedGuild(event: PausedGuild):void {
     }
 }
 
+export function handleGuildClosed(event: GuildClosed): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        guild.active = false;
+        guild.closedAt = event.params._closedAt.toString();
+        guild.save();
+    }
+}
+
+export function handleClosingRefundsProcessed(event: ClosingRefundsProcessed): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null && event.params._lastTokenId.equals(event.params._totalTokens)) {
+        // members can claim their closing refunds from now on
+        guild.closingRefundsProcessedAt = event.block.timestamp.toString();
+        guild.save();
+    }
+}
+
 export function handleUpdatedPaymentInfo(event: SubscriptionPriceChanged): void {
     let guild = Guild.load(event.address.toHex());
     if (guild != null) {
         guild.tokenAddress = event.params._tokenAddress;
         guild.currentPrice = event.params._subPrice;
         guild.save();
+    }
+}
 
-        let balanceId = guild.id.concat("-").concat(guild.tokenAddress.toHexString());
-        let guildBalance = GuildBalance.load(balanceId);
-        if (guildBalance == null) {
-            let guildBalance = new GuildBalance(balanceId);
-            guildBalance.guild = guild.id;
-            guildBalance.addedAt = event.block.timestamp.toString();
-            guildBalance.tokenAddress = guild.tokenAddress;
-            guildBalance.currentBalance = BigInt.fromI32(0);
-            guildBalance.totalSubscriptions = BigInt.fromI32(0);
+export function handlePaymentTokenAdded(event: PaymentTokenAdded): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let acceptedTokens = guild.acceptedTokens;
+        acceptedTokens.push(event.params._tokenAddress);
+        guild.acceptedTokens = acceptedTokens;
+        guild.save();
 
-            guildBalance.save();
+        loadOrCreateBalance(guild.id, event.params._tokenAddress, event.block.timestamp);
+    }
+}
+
+export function handlePaymentTokenRemoved(event: PaymentTokenRemoved): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let currentTokens = guild.acceptedTokens;
+        let acceptedTokens = new Array<Bytes>();
+        for (let i = 0; i < currentTokens.length; i++) {
+            let token = currentTokens[i];
+            if (!token.equals(event.params._tokenAddress)) {
+                acceptedTokens.push(token);
+            }
+        }
+        guild.acceptedTokens = acceptedTokens;
+        guild.save();
+    }
+}
+
+export function handleTokenPriceUpdated(event: TokenPriceUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let tierId = guild.id.concat("-").concat(event.params._tierId.toHexString());
+        let priceId = tierId.concat("-").concat(event.params._tokenAddress.toHexString());
+        let tierPrice = GuildTierPrice.load(priceId);
+        if (tierPrice == null) {
+            tierPrice = new GuildTierPrice(priceId);
+            tierPrice.tier = tierId;
+            tierPrice.tokenAddress = event.params._tokenAddress;
+        }
+        tierPrice.price = event.params._price;
+
+        tierPrice.save();
+    }
+}
+
+export function handlePeriodDiscountUpdated(event: PeriodDiscountUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        guild.discountMinPeriods = event.params._minPeriods;
+        guild.discountBps = event.params._discountBps;
+        guild.save();
+    }
+}
+
+export function handleGracePeriodUpdated(event: GracePeriodUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        guild.gracePeriod = event.params._gracePeriod;
+        guild.save();
+    }
+}
+
+export function handleRefundPolicyUpdated(event: RefundPolicyUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        guild.refundPolicy = event.params._policy;
+        guild.refundWindow = event.params._refundWindow;
+        guild.save();
+    }
+}
+
+export function handleTransferPolicyUpdated(event: TransferPolicyUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        guild.transferPolicy = event.params._policy;
+        guild.save();
+    }
+}
+
+export function handleAllowlistUpdated(event: AllowlistUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        // a zero root opens the guild to anyone
+        if (event.params._root.toHexString() == ZERO_ROOT) {
+            guild.allowlistRoot = null;
+            guild.allowlistCID = null;
+        } else {
+            guild.allowlistRoot = event.params._root;
+            guild.allowlistCID = event.params._listCID;
+        }
+        guild.save();
+    }
+}
+
+export function handleMaxMembersUpdated(event: MaxMembersUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        guild.maxMembers = event.params._maxMembers;
+        guild.save();
+    }
+}
+
+export function handleGrandfatheredPricingUpdated(event: GrandfatheredPricingUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        guild.grandfatheredPricing = event.params._enabled;
+        guild.save();
+    }
+}
+
+export function handleFreezePolicyUpdated(event: FreezePolicyUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        guild.maxFreezeDuration = event.params._maxFreezeDuration;
+        guild.maxFreezes = event.params._maxFreezes;
+        guild.save();
+    }
+}
+
+export function handleReferralPolicyUpdated(event: ReferralPolicyUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        guild.referralRewardBps = event.params._rewardBps;
+        guild.referralBonusDuration = event.params._bonusDuration;
+        guild.save();
+    }
+}
+
+export function handleSubscriptionFrozen(event: SubscriptionFrozen): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let subId = guild.id.concat("-").concat(event.params._tokenId.toHexString());
+        let subscription = GuildSubscription.load(subId);
+        if (subscription != null) {
+            subscription.frozenAt = event.block.timestamp.toString();
+            subscription.resumeAt = event.params._resumeAt.toString();
+            subscription.freezes = subscription.freezes.plus(BigInt.fromI32(1));
+            subscription.save();
+        }
+    }
+}
+
+export function handleSubscriptionUnfrozen(event: SubscriptionUnfrozen): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let subId = guild.id.concat("-").concat(event.params._tokenId.toHexString());
+        let subscription = GuildSubscription.load(subId);
+        if (subscription != null) {
+            subscription.frozenAt = null;
+            subscription.resumeAt = null;
+            subscription.expires = event.params._expirationTimestamp.toString();
+            subscription.save();
+        }
+    }
+}
 
+export function handleSeatReleased(event: SeatReleased): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let subId = guild.id.concat("-").concat(event.params._tokenId.toHexString());
+        let subscription = GuildSubscription.load(subId);
+        if (subscription != null) {
+            // lapsed subscriptions no longer count towards the guild & tier caps
+            guild.totalSubscribers = guild.totalSubscribers.minus(BigInt.fromI32(1));
+            guild.save();
+
+            let tier = GuildTier.load(subscription.tier);
+            tier.totalSubscribers = tier.totalSubscribers.minus(BigInt.fromI32(1));
+            tier.save();
+
+            subscription.seatReleased = true;
+            subscription.save();
         }
     }
 }
 
+export function handleUpgraded(event: Upgraded): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        guild.templateVersion = event.params._version;
+        guild.save();
+    }
+}
+
+export function handleTierUpdated(event: TierUpdated): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let tierId = guild.id.concat("-").concat(event.params._tierId.toHexString());
+        let tier = GuildTier.load(tierId);
+        if (tier == null) {
+            tier = new GuildTier(tierId);
+            tier.guild = guild.id;
+            tier.tierId = event.params._tierId;
+            tier.totalSubscribers = BigInt.fromI32(0);
+        }
+        tier.name = event.params._name;
+        tier.period = event.params._period;
+        tier.cap = event.params._cap;
+
+        tier.save();
+    }
+}
+
 export function handleNewSubcription(event: NewSubscription): void {
     let guild = Guild.load(event.address.toHex());
     if (guild != null) {
         let value = event.params._value;
+        let fee = event.params._fee;
         guild.totalSubscribers = guild.totalSubscribers.plus(BigInt.fromI32(1));
 
         guild.save();
 
-        let balanceId = guild.id.concat("-").concat(guild.tokenAddress.toHexString());
-        let guildBalance = GuildBalance.load(balanceId);
+        let guildBalance = loadOrCreateBalance(guild.id, event.params._tokenAddress, event.block.timestamp);
         // TODO: update balances based on what's transferred through Recurring Allowances module
-        guildBalance.currentBalance = guildBalance.currentBalance.plus(value);
+        // protocol fee is forwarded to the factory fee recipient
+        guildBalance.currentBalance = guildBalance.currentBalance.plus(value.minus(fee));
         guildBalance.totalSubscriptions = guildBalance.totalSubscriptions.plus(value);
+        guildBalance.totalFees = guildBalance.totalFees.plus(fee);
 
         guildBalance.save();
 
+        let tierId = guild.id.concat("-").concat(event.params._tierId.toHexString());
+        let tier = GuildTier.load(tierId);
+        tier.totalSubscribers = tier.totalSubscribers.plus(BigInt.fromI32(1));
+
+        tier.save();
+
         let keyId = event.params._tokenId;
         // let owner = event.transaction.from;
         let owner = event.params._subscriber;
@@ -107,9 +395,16 @@ export function handleNewSubcription(event: NewSubscription): void {
         subscription.createdAt = event.block.timestamp.toString();
         subscription.active = true;
         subscription.guild = guild.id;
+        subscription.tier = tierId;
         subscription.keyId = keyId;
         subscription.owner = owner;
         subscription.expires = event.params.expiry.toString();
+        // PriceLocked is emitted before the subscription is indexed. New subscriptions lock the current tier price
+        let tierPrice = GuildTierPrice.load(tierId.concat("-").concat(event.params._tokenAddress.toHexString()));
+        subscription.lockedToken = event.params._tokenAddress;
+        subscription.lockedPrice = tierPrice != null ? tierPrice.price : BigInt.fromI32(0);
+        subscription.freezes = BigInt.fromI32(0);
+        subscription.seatReleased = false;
 
         subscription.save();
 
@@ -121,8 +416,9 @@ export function handleNewSubcription(event: NewSubscription): void {
         let payment = new Payment(paymentId);
         payment.purchasedAt = event.block.timestamp.toString();
         payment.subscription = subId;
-        payment.token = guild.tokenAddress;
+        payment.token = event.params._tokenAddress;
         payment.value = value;
+        payment.fee = fee;
         // TODO: set signature if sent by a Gnosis Proxy Contract with Allowance module
         payment.transferSignature = event.params._data;
 
@@ -138,15 +434,39 @@ export function handleRenewSubcription(event: RenewSubscription): void {
         let subscription = GuildSubscription.load(subId);
         if (subscription != null) {
             let value = event.params._value;
+            let fee = event.params._fee;
 
-            let balanceId = guild.id.concat("-").concat(guild.tokenAddress.toHexString());
-            let guildBalance = GuildBalance.load(balanceId);
+            let guildBalance = loadOrCreateBalance(guild.id, event.params._tokenAddress, event.block.timestamp);
             // TODO: update balances based on what's transferred through Recurring Allowances module
-            guildBalance.currentBalance = guildBalance.currentBalance.plus(value);
+            guildBalance.currentBalance = guildBalance.currentBalance.plus(value.minus(fee));
             guildBalance.totalSubscriptions = guildBalance.totalSubscriptions.plus(value);
+            guildBalance.totalFees = guildBalance.totalFees.plus(fee);
 
             guildBalance.save();
 
+            let tierId = guild.id.concat("-").concat(event.params._tierId.toHexString());
+            if (subscription.seatReleased) {
+                // released seats are booked again on renewal
+                guild.totalSubscribers = guild.totalSubscribers.plus(BigInt.fromI32(1));
+                guild.save();
+
+                let tier = GuildTier.load(tierId);
+                tier.totalSubscribers = tier.totalSubscribers.plus(BigInt.fromI32(1));
+                tier.save();
+
+                subscription.tier = tierId;
+                subscription.seatReleased = false;
+            } else if (subscription.tier != tierId) {
+                let prevTier = GuildTier.load(subscription.tier);
+                prevTier.totalSubscribers = prevTier.totalSubscribers.minus(BigInt.fromI32(1));
+                prevTier.save();
+
+                let tier = GuildTier.load(tierId);
+                tier.totalSubscribers = tier.totalSubscribers.plus(BigInt.fromI32(1));
+                tier.save();
+
+                subscription.tier = tierId;
+            }
             subscription.expires = event.params.expiry.toString();
 
             subscription.save();
@@ -157,8 +477,9 @@ export function handleRenewSubcription(event: RenewSubscription): void {
             let payment = new Payment(paymentId);
             payment.purchasedAt = event.block.timestamp.toString();
             payment.subscription = subId;
-            payment.token = guild.tokenAddress;
+            payment.token = event.params._tokenAddress;
             payment.value = value;
+            payment.fee = fee;
             // TODO: set signature if sent by a Gnosis Proxy Contract with Allowance module
             payment.transferSignature = event.params._data;
 
@@ -167,20 +488,157 @@ export function handleRenewSubcription(event: RenewSubscription): void {
     }
 }
 
-export function handleUnsubscription(event: Unsubscribed): void {
+export function handlePriceLocked(event: PriceLocked): void {
     let guild = Guild.load(event.address.toHex());
     if (guild != null) {
-        // let value = event.params._value;
-        guild.totalSubscribers = guild.totalSubscribers.minus(BigInt.fromI32(1));
+        let subId = guild.id.concat("-").concat(event.params._tokenId.toHexString());
+        let subscription = GuildSubscription.load(subId);
+        if (subscription != null) {
+            subscription.lockedToken = event.params._tokenAddress;
+            subscription.lockedPrice = event.params._price;
+            subscription.save();
+        }
+    }
+}
 
-        guild.save();
+export function handleRenewalFailed(event: RenewalFailed): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let failure = new RenewalFailure(event.transaction.hash.toHexString().concat("-").concat(event.logIndex.toString()));
+        failure.failedAt = event.block.timestamp.toString();
+        failure.guild = guild.id;
+        failure.subscriber = event.params._subscriber;
+        failure.reason = event.params._reason;
+
+        failure.save();
+    }
+}
+
+export function handleWaitlistJoined(event: WaitlistJoined): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let entry = new WaitlistEntry(event.transaction.hash.toHexString().concat("-").concat(event.logIndex.toString()));
+        entry.joinedAt = event.block.timestamp.toString();
+        entry.guild = guild.id;
+        entry.tier = guild.id.concat("-").concat(event.params._tierId.toHexString());
+        entry.account = event.params._account;
+
+        entry.save();
+    }
+}
+
+export function handleSubscriptionGifted(event: SubscriptionGifted): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let subId = guild.id.concat("-").concat(event.params._tokenId.toHexString());
+        let gift = new SubscriptionGift(subId.concat("-gift-").concat(event.transaction.hash.toHexString()));
+        gift.giftedAt = event.block.timestamp.toString();
+        gift.subscription = subId;
+        gift.payer = event.params._payer;
+        gift.recipient = event.params._recipient;
+        gift.expires = event.params.expiry.toString();
+        gift.messageCID = event.params._messageCID;
+
+        gift.save();
+    }
+}
+
+export function handleTipped(event: Tipped): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let tip = new Tip(event.transaction.hash.toHexString().concat("-").concat(event.logIndex.toString()));
+        tip.tippedAt = event.block.timestamp.toString();
+        tip.guild = guild.id;
+        tip.tipper = event.params._tipper;
+        tip.tokenAddress = event.params._tokenAddress;
+        tip.value = event.params._value;
+        tip.fee = event.params._fee;
+        tip.messageCID = event.params._messageCID;
+
+        tip.save();
+
+        let guildBalance = loadOrCreateBalance(guild.id, event.params._tokenAddress, event.block.timestamp);
+        guildBalance.currentBalance = guildBalance.currentBalance.plus(tip.value.minus(tip.fee));
+        guildBalance.totalTips = guildBalance.totalTips.plus(tip.value);
+        guildBalance.totalFees = guildBalance.totalFees.plus(tip.fee);
+
+        guildBalance.save();
+    }
+}
+
+export function handleReferralCredited(event: ReferralCredited): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let referrerId = guild.id.concat("-").concat(event.params._referrer.toHexString());
+        let referrer = GuildReferrer.load(referrerId);
+        if (referrer == null) {
+            referrer = new GuildReferrer(referrerId);
+            referrer.guild = guild.id;
+            referrer.account = event.params._referrer;
+            referrer.totalReferrals = BigInt.fromI32(0);
+            referrer.totalBonusDuration = BigInt.fromI32(0);
+        }
+        referrer.totalReferrals = referrer.totalReferrals.plus(BigInt.fromI32(1));
+        referrer.totalBonusDuration = referrer.totalBonusDuration.plus(event.params._bonusDuration);
+
+        referrer.save();
+
+        let referral = new Referral(event.transaction.hash.toHexString().concat("-").concat(event.logIndex.toString()));
+        referral.referredAt = event.block.timestamp.toString();
+        referral.guild = guild.id;
+        referral.referrer = referrerId;
+        referral.subscriber = event.params._subscriber;
+        referral.tokenAddress = event.params._tokenAddress;
+        referral.reward = event.params._reward;
+        referral.bonusDuration = event.params._bonusDuration;
+
+        referral.save();
 
+        // bonus time is added to the referrer subscription
+        let subId = guild.id.concat("-").concat(event.params._referrerTokenId.toHexString());
+        let subscription = GuildSubscription.load(subId);
+        if (subscription != null) {
+            subscription.expires = event.params._referrerExpiry.toString();
+            subscription.save();
+        }
+        // rewards leave the guild balance once claimed by the referrer
+    }
+}
+
+export function handleVoucherRedeemed(event: VoucherRedeemed): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let redemption = new VoucherRedemption(event.transaction.hash.toHexString().concat("-").concat(event.logIndex.toString()));
+        redemption.redeemedAt = event.block.timestamp.toString();
+        redemption.guild = guild.id;
+        redemption.voucher = event.params._voucher;
+        redemption.subscriber = event.params._subscriber;
+        redemption.cost = event.params._cost;
+
+        redemption.save();
+    }
+}
+
+export function handleUnsubscription(event: Unsubscribed): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
         let keyId = event.params._tokenId;
         let subId = guild.id.concat("-").concat(keyId.toHexString());
         let subscription = GuildSubscription.load(subId);
         if (subscription != null) {
             subscription.active = false;
             subscription.unsubscribedAt = event.block.timestamp.toString();
+
+            // released seats were already freed
+            if (!subscription.seatReleased) {
+                guild.totalSubscribers = guild.totalSubscribers.minus(BigInt.fromI32(1));
+                guild.save();
+
+                let tier = GuildTier.load(subscription.tier);
+                tier.totalSubscribers = tier.totalSubscribers.minus(BigInt.fromI32(1));
+                tier.save();
+            }
+
             // subscription.keyId = BigInt.fromI32(0); // TODO: correct approach?
             subscription.save();
         }
@@ -188,6 +646,28 @@ export function handleUnsubscription(event: Unsubscribed): void {
     }
 }
 
+export function handleRefund(event: Refunded): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let value = event.params._value;
+        let guildBalance = loadOrCreateBalance(guild.id, event.params._tokenAddress, event.block.timestamp);
+        guildBalance.currentBalance = guildBalance.currentBalance.minus(value);
+
+        guildBalance.save();
+
+        // refunds are indexed as negative payments on the cancelled subscription
+        let subId = guild.id.concat("-").concat(event.params._tokenId.toHexString());
+        let payment = new Payment(subId.concat("-refund-").concat(event.transaction.hash.toHexString()));
+        payment.purchasedAt = event.block.timestamp.toString();
+        payment.subscription = subId;
+        payment.token = event.params._tokenAddress;
+        payment.value = value.neg();
+        payment.fee = BigInt.fromI32(0);
+
+        payment.save();
+    }
+}
+
 export function handleSubTransfer(event: Transfer): void {
     let guild = Guild.load(event.address.toHex());
     if (guild != null) {
@@ -221,4 +701,55 @@ export function handleWithdraw(event: Withdraw): void {
 
         withdrawal.save();
     }
-}
\ No newline at end of file
+}
+
+export function handleClaimed(event: Claimed): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        // distributed funds & referral rewards leave the guild once claimed by each payee
+        let guildBalance = loadOrCreateBalance(guild.id, event.params._tokenAddress, event.block.timestamp);
+        guildBalance.currentBalance = guildBalance.currentBalance.minus(event.params._amount);
+
+        guildBalance.save();
+    }
+}
+
+export function handleRoleGranted(event: RoleGranted): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let memberId = guild.id.concat("-").concat(event.params.account.toHexString());
+        let member = GuildMember.load(memberId);
+        if (member == null) {
+            member = new GuildMember(memberId);
+            member.guild = guild.id;
+            member.account = event.params.account;
+            member.roles = new Array<Bytes>();
+        }
+        let roles = member.roles;
+        roles.push(event.params.role);
+        member.roles = roles;
+
+        member.save();
+    }
+}
+
+export function handleRoleRevoked(event: RoleRevoked): void {
+    let guild = Guild.load(event.address.toHex());
+    if (guild != null) {
+        let memberId = guild.id.concat("-").concat(event.params.account.toHexString());
+        let member = GuildMember.load(memberId);
+        if (member != null) {
+            let currentRoles = member.roles;
+            let roles = new Array<Bytes>();
+            for (let i = 0; i < currentRoles.length; i++) {
+                let role = currentRoles[i];
+                if (!role.equals(event.params.role)) {
+                    roles.push(role);
+                }
+            }
+            member.roles = roles;
+
+            member.save();
+        }
+    }
+}
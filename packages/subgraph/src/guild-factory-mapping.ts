@@ -1,9 +1,13 @@
-import { log } from "@graphprotocol/graph-ts";
+import { DataSourceContext, log } from "@graphprotocol/graph-ts";
 import { NewGuild } from "../generated/GuildFactory/GuildFactory";
 import { GuildAppTemplate } from "../generated/templates";
 
 
 export function handleNewGuild(event: NewGuild): void {
     log.info("**** New Guild: {}, Owner: {}", [event.params.guild.toHexString(), event.params.guildOwner.toHexString()]);
-    GuildAppTemplate.create(event.params.guild);
+    // Guild entity is created by the template once initialized
+    let context = new DataSourceContext();
+    context.setBigInt("templateVersion", event.params.version);
+    context.setBoolean("upgradeable", event.params.upgradeable);
+    GuildAppTemplate.createWithContext(event.params.guild, context);
 }
\ No newline at end of file
@@ -7,9 +7,10 @@ dotenv.config();
 
 const GuildAppABI = require("./contracts/GuildApp.json");
 
-const AllowanceModuleABI = [
-    "function getTokenAllowance(address safe, address delegate, address token) public view returns (uint256[5] memory)",
-]
+const GuildFactoryABI = [
+    "function renewBatch(address[] calldata _guildList, address[] calldata _subscribers) external",
+    "event GuildRenewalFailed(address indexed guild, bytes reason)",
+];
 
 const app = express();
 app.use(express.json()); // for parsing application/json
@@ -29,107 +30,172 @@ if (!process.env.SUBGRAPH_URL) {
     return;
 }
 
-const fetchGuilds = async (date) => {
+if (!process.env.GUILD_FACTORY) {
+    console.error("Missing GUILD_FACTORY address");
+    return;
+}
+
+// subgraph page size & max number of subscriptions renewed in a single tx so batches stay under the block gas limit
+const PAGE_SIZE = 1000;
+const BATCH_SIZE = +(process.env.BATCH_SIZE || 50);
+
+const fetchGuilds = async (date, since) => {
     const subsQuery = graphqlRequest.gql`
-        query outstandingSubscriptions($date: String) {
-            guildSubscriptions(where: { expires_lte: $date, active: true }) {
+        query outstandingSubscriptions($date: String, $since: String, $lastId: ID, $first: Int) {
+            guildSubscriptions(
+                where: { expires_lte: $date, expires_gt: $since, active: true, id_gt: $lastId },
+                orderBy: id,
+                orderDirection: asc,
+                first: $first
+            ) {
                 id
                 guild {
                     id
-                    tokenAddress
                 }
                 keyId
                 owner
                 expires
+                tier {
+                    tierId
+                }
                 paymentHistory(orderBy: purchasedAt, orderDirection: desc, first: 1) {
                     transferSignature
+                    token
                     value
                 }
             }
         }
       `;
+    const subscriptions = [];
+    let lastId = "";
     try {
-      const resp = await graphqlRequest.request(process.env.SUBGRAPH_URL, subsQuery, {
-        date,
-      });
-      console.log('RES', resp);
-      if (resp.guildSubscriptions && resp.guildSubscriptions.length) {
-        return resp.guildSubscriptions;
+      // paginated by id as `skip` is capped by the subgraph
+      while (true) {
+        const resp = await graphqlRequest.request(process.env.SUBGRAPH_URL, subsQuery, {
+          date,
+          since,
+          lastId,
+          first: PAGE_SIZE,
+        });
+        const page = resp.guildSubscriptions || [];
+        subscriptions.push(...page);
+        if (page.length < PAGE_SIZE) {
+          break;
+        }
+        lastId = page[page.length - 1].id;
       }
     } catch (err) {
       console.error(`Failed to fetch Outstanding Subscriptions: ${err}`);
     }
-    return [];
+    return subscriptions;
 };
 
 const provider = new ethers.providers.JsonRpcProvider(process.env.JSON_RPC);
 let  signer = ethers.Wallet.fromMnemonic(process.env.MNEMONIC);
 signer = signer.connect(provider);
 
-const allowanceModule = new ethers.Contract(
-    "0xCFbFaC74C26F8647cBDb8c5caf80BB5b32E43134",
-    AllowanceModuleABI,
+const guildFactory = new ethers.Contract(
+    process.env.GUILD_FACTORY,
+    GuildFactoryABI,
     signer,
-)
+);
+const guildInterface = new ethers.utils.Interface(GuildAppABI);
+
+const decodeReason = (reason) => {
+    try {
+        return ethers.utils.defaultAbiCoder.decode(["string"], ethers.utils.hexDataSlice(reason, 4))[0];
+    } catch (error) {
+        return reason;
+    }
+};
+
+// subscriptions expiring within this window (in seconds) are renewed ahead of time
+const RENEWAL_WINDOW = +(process.env.RENEWAL_WINDOW || 3600 * 24);
+// subscriptions that expired longer ago than this (in seconds) are not renewed anymore
+const MAX_LAPSE = +(process.env.MAX_LAPSE || 3600 * 24 * 30);
+// failed renewals are retried after an exponential backoff starting at this delay (in seconds)
+const RETRY_DELAY = +(process.env.RETRY_DELAY || 3600);
+const MAX_RETRY_DELAY = 3600 * 24 * 7;
+
+// failed renewals by `${guild}-${subscriber}`
+const failures = new Map();
+const failureKey = (guild, subscriber) => `${guild.toLowerCase()}-${subscriber.toLowerCase()}`;
+
+const backOff = (guild, subscriber) => {
+    const key = failureKey(guild, subscriber);
+    const attempts = (failures.has(key) ? failures.get(key).attempts : 0) + 1;
+    const delay = Math.min(RETRY_DELAY * 2 ** (attempts - 1), MAX_RETRY_DELAY);
+    failures.set(key, { attempts, retryAt: Date.now() / 1000 + delay });
+};
 
 app.get('/', async (req, res) => {
-    const date = (Date.now() / 1000).toFixed(0);
+    const now = Date.now() / 1000;
+    const date = (now + RENEWAL_WINDOW).toFixed(0);
+    const since = (now - MAX_LAPSE).toFixed(0);
     console.log('Date', date);
-    const rs = await fetchGuilds(date);
-
-    for(i = 0; i < rs.length; i++) {
-        const guildSubscription = rs[i];
-        const guildAddress = guildSubscription.guild.id;
-        const guildContract = new ethers.Contract(
-            guildAddress,
-            GuildAppABI,
-            signer,
-        );
-        const args = [
-            guildSubscription.owner,
-            "", // tokenURI: empty for renewals
-            guildSubscription.paymentHistory[0].value,
-            guildSubscription.paymentHistory[0].transferSignature,
-        ];
+    const rs = (await fetchGuilds(date, since)).filter((guildSubscription) => {
+        const failure = failures.get(failureKey(guildSubscription.guild.id, guildSubscription.owner));
+        return !failure || failure.retryAt <= now;
+    });
+
+    // due subscriptions are renewed in batches of BATCH_SIZE. Subscriptions that cannot be renewed
+    // (i.e. EOA subscribers or not enough allowance) are skipped & reported by the guild, then backed off.
+    // Sorted by guild so each guild processes its subscribers in as few batches as possible
+    rs.sort((a, b) => a.guild.id.localeCompare(b.guild.id));
+    const renewed = [];
+    const failed = [];
+    for (let i = 0; i < rs.length; i += BATCH_SIZE) {
+        const batch = rs.slice(i, i + BATCH_SIZE);
+        const guilds = batch.map((guildSubscription) => guildSubscription.guild.id);
+        const subscribers = batch.map((guildSubscription) => guildSubscription.owner);
         try {
-            const allowance = await allowanceModule.getTokenAllowance(
-                guildSubscription.owner, // safe
-                guildContract.address, // delegate
-                guildSubscription.guild.tokenAddress,
-            )
-            console.log('Allowance', {
-                amount: allowance[0].toString(),
-                spent: allowance[1].toString(),
-                resetTimeMin: allowance[2].toString(),
-                lastResetMin: allowance[3].toString(),
-                nonce: allowance[4].toString(),
+            console.log('====> NEW Batch Renewal to process', batch.length);
+            const tx = await guildFactory.renewBatch(guilds, subscribers);
+            const receipt = await tx.wait();
+            receipt.logs.forEach((log) => {
+                if (ethers.utils.getAddress(log.address) === ethers.utils.getAddress(guildFactory.address)) {
+                    const { args } = guildFactory.interface.parseLog(log);
+                    failed.push({ guild: args.guild, reason: decodeReason(args.reason) });
+                    batch
+                        .filter((guildSubscription) => guildSubscription.guild.id === args.guild.toLowerCase())
+                        .forEach((guildSubscription) => backOff(guildSubscription.guild.id, guildSubscription.owner));
+                    return;
+                }
+                let event;
+                try {
+                    event = guildInterface.parseLog(log);
+                } catch (error) {
+                    return; // i.e. token transfers
+                }
+                if (event.name === 'RenewSubscription') {
+                    renewed.push({ guild: log.address, subscriber: event.args._subscriber, expires: event.args.expiry.toString() });
+                    failures.delete(failureKey(log.address, event.args._subscriber));
+                } else if (event.name === 'RenewalFailed') {
+                    failed.push({ guild: log.address, subscriber: event.args._subscriber, reason: decodeReason(event.args._reason) });
+                    backOff(log.address, event.args._subscriber);
+                }
             });
-            console.log('====> NEW Renewal Subscription to process', guildAddress, args);
-            const rs = await guildContract.subscribe(...args);
-            await rs.wait();
-            console.log('====> PROCESSED SUBSCRIPTION', {
-                guild: guildContract.address,
-                subscriber: guildSubscription.owner,
-                keyId: guildSubscription.keyId,
-                lastExpire: new Date(+guildSubscription.expires * 1000)
-            })
+            console.log('====> PROCESSED BATCH', { renewed, failed });
         } catch (error) {
+            batch.forEach((guildSubscription) => backOff(guildSubscription.guild.id, guildSubscription.owner));
             console.error(`
                 \n
                 < ============================================================================================================= >
                 \n
-                Error while trying to process Sub ${guildAddress}:${guildSubscription.keyId} | Args ${args} | Reason: \n ${error}
+                Error while trying to process Batch | Guilds ${guilds} | Subscribers ${subscribers} | Reason: \n ${error}
                 \n
                 < ============================================================================================================= >
                 \n
             `);
         }
     }
-    
+
     res.send({
         relayer: await signer.getAddress(),
         balance: (await signer.getBalance()).toString(),
         records: rs,
+        renewed,
+        failed,
     });
 });
 